@@ -30,8 +30,10 @@ import Settings from "@/pages/settings";
 import Analytics from "@/pages/analytics";
 import Reports from "@/pages/reports";
 import Payroll from "@/pages/payroll";
+import MyPay from "@/pages/my-pay";
 import Invoices from "@/pages/invoices";
 import Vendors from "@/pages/vendors";
+import PurchaseOrders from "@/pages/purchase-orders";
 import ForgotPassword from "@/pages/forgot-password";
 import Terms from "@/pages/terms";
 import Privacy from "@/pages/privacy";
@@ -44,6 +46,9 @@ import AdminOrganization from "@/pages/admin-organization";
 import AdminSecurity from "@/pages/admin-security";
 import AdminWallets from "@/pages/admin-wallets";
 import AdminPayouts from "@/pages/admin-payouts";
+import AdminReconciliation from "@/pages/admin-reconciliation";
+import AdminApprovalPolicies from "@/pages/admin-approval-policies";
+import AdminAccountingExport from "@/pages/admin-accounting-export";
 import AdminPayoutLimits from "@/pages/admin-payout-limits";
 import AdminPaymentFlags from "@/pages/admin-payment-flags";
 import AdminExchangeRates from "@/pages/admin-exchange-rates";
@@ -170,8 +175,10 @@ function AppRouter() {
       <Route path="/analytics">{() => <ProtectedRoute component={Analytics} />}</Route>
       <Route path="/reports">{() => <ProtectedRoute component={Reports} />}</Route>
       <Route path="/payroll">{() => <ProtectedRoute component={Payroll} />}</Route>
+      <Route path="/my-pay">{() => <ProtectedRoute component={MyPay} />}</Route>
       <Route path="/invoices">{() => <ProtectedRoute component={Invoices} />}</Route>
       <Route path="/vendors">{() => <ProtectedRoute component={Vendors} />}</Route>
+      <Route path="/purchase-orders">{() => <ProtectedRoute component={PurchaseOrders} />}</Route>
       <Route path="/admin">{() => <AdminRoute component={Admin} />}</Route>
       <Route path="/admin/users">{() => <AdminRoute component={AdminUsers} />}</Route>
       <Route path="/admin/audit-logs">{() => <AdminRoute component={AdminAuditLogs} />}</Route>
@@ -179,6 +186,9 @@ function AppRouter() {
       <Route path="/admin/security">{() => <AdminRoute component={AdminSecurity} />}</Route>
       <Route path="/admin/wallets">{() => <AdminRoute component={AdminWallets} />}</Route>
       <Route path="/admin/payouts">{() => <AdminRoute component={AdminPayouts} />}</Route>
+      <Route path="/admin/reconciliation">{() => <AdminRoute component={AdminReconciliation} />}</Route>
+      <Route path="/admin/approval-policies">{() => <AdminRoute component={AdminApprovalPolicies} />}</Route>
+      <Route path="/admin/accounting-export">{() => <AdminRoute component={AdminAccountingExport} />}</Route>
       <Route path="/admin/payout-limits">{() => <AdminRoute component={AdminPayoutLimits} />}</Route>
       <Route path="/admin/payment-flags">{() => <AdminRoute component={AdminPaymentFlags} />}</Route>
       <Route path="/admin/exchange-rates">{() => <AdminRoute component={AdminExchangeRates} />}</Route>
@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, pinProtectedRequest, queryClient, sanitizeErrorMessage } from "@/lib/queryClient";
+import { usePinVerification } from "@/components/pin-verification-dialog";
+import { GlassCard, SectionLabel, StatusBadge } from "@/components/ui-extended";
+import { CheckCircle2, Clock, Copy, Key, Loader2, Plus, Trash2, XCircle } from "lucide-react";
+
+// GET /api/api-keys: the key itself is only in the create response.
+interface ApiKeyEntry {
+  id: string;
+  name: string;
+  keyPreview: string;
+  permissions: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+interface ApiKeyScopes {
+  permissions: string[];
+  routes: { method: string; path: string; permission: string }[];
+}
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+// The server's error text; sanitizeErrorMessage drops JSON bodies.
+function serverError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    const body = JSON.parse(message.replace(/^\d{3}:\s*/, ""));
+    if (typeof body?.error === "string") return body.error;
+  } catch {
+  }
+  return sanitizeErrorMessage(error);
+}
+
+function permissionLabel(permission: string): string {
+  return permission.toLowerCase().split("_").map((w) => w[0].toUpperCase() + w.slice(1)).join(" ");
+}
+
+/**
+ * The company's API keys: each one's permissions, expiry and last use.
+ * A new key is shown once, straight after it is created.
+ */
+export function ApiKeys() {
+  const { toast } = useToast();
+  const pin = usePinVerification();
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [permissions, setPermissions] = useState<string[]>([]);
+  const [expiry, setExpiry] = useState("90");
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  const { data: apiKeys = [], isLoading } = useQuery<ApiKeyEntry[]>({ queryKey: ["/api/api-keys"] });
+  const { data: scopes } = useQuery<ApiKeyScopes>({ queryKey: ["/api/api-keys/permissions"] });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({ title: "Copied", description: "API key copied to clipboard." });
+  };
+
+  const create = useMutation({
+    mutationFn: async () =>
+      (await pinProtectedRequest("POST", "/api/api-keys", {
+        name: name.trim(),
+        permissions,
+        expiresInDays: expiry === "never" ? undefined : Number(expiry),
+      })).json(),
+    onSuccess: (created: ApiKeyEntry & { key: string }) => {
+      refresh();
+      setCreating(false);
+      setName("");
+      setPermissions([]);
+      setExpiry("90");
+      setNewKey(created.key);
+      toast({ title: "API key created", description: "Copy your new key now. It won't be shown again." });
+    },
+    onError: (error) => {
+      if (pin.handlePinError(error, () => create.mutate())) return;
+      toast({ title: "Could not create the API key", description: serverError(error), variant: "destructive" });
+    },
+  });
+
+  const revoke = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/api-keys/${id}`),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "API key revoked", description: "Requests with this key are refused from now on." });
+    },
+    onError: (error) => toast({ title: "Could not revoke the API key", description: serverError(error), variant: "destructive" }),
+  });
+
+  const togglePermission = (permission: string, checked: boolean) =>
+    setPermissions((current) => (checked ? [...current, permission] : current.filter((p) => p !== permission)));
+
+  const routesFor = (permission: string) =>
+    (scopes?.routes ?? []).filter((r) => r.permission === permission).map((r) => `${r.method} ${r.path}`);
+
+  const keyStatus = (apiKey: ApiKeyEntry) => {
+    if (apiKey.revokedAt) return { status: "inactive", label: "Revoked" };
+    if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) return { status: "overdue", label: "Expired" };
+    return { status: "active", label: "Active" };
+  };
+
+  return (
+    <GlassCard>
+      <div className="space-y-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-orange-500/20 to-orange-500/10 flex items-center justify-center">
+            <Key className="h-5 w-5 text-orange-600 dark:text-orange-400" />
+          </div>
+          <div className="flex-1">
+            <SectionLabel>API Access</SectionLabel>
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              Manage API keys for programmatic access.
+            </p>
+          </div>
+          <Button onClick={() => setCreating(true)} className="bg-orange-600 hover:bg-orange-700 text-white" data-testid="button-generate-api-key">
+            <Plus className="h-4 w-4 mr-2" /> Generate New Key
+          </Button>
+        </div>
+
+        {newKey && (
+          <div className="p-4 rounded-xl bg-orange-500/10 border border-orange-500/30 space-y-2">
+            <div className="flex items-center gap-2">
+              <CheckCircle2 className="h-4 w-4 text-orange-600 dark:text-orange-400" />
+              <p className="text-sm font-medium text-orange-700 dark:text-orange-300">
+                New API key generated — copy it now. It won't be shown again.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input readOnly value={newKey} className="bg-slate-500/30 border-slate-500/50 rounded-xl h-10 font-mono text-xs flex-1" data-testid="input-new-api-key" />
+              <Button variant="outline" size="icon" className="border-slate-500/50 hover:bg-slate-500/10 h-10 w-10 shrink-0" onClick={() => copy(newKey)} data-testid="button-copy-new-api-key">
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-10 w-10 shrink-0 text-slate-500 hover:text-slate-700" onClick={() => setNewKey(null)} data-testid="button-dismiss-new-api-key">
+                <XCircle className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-slate-600 dark:text-slate-400">
+              Send it as <code className="font-mono">Authorization: Bearer &lt;key&gt;</code>.
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center p-6"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+          ) : apiKeys.length > 0 ? (
+            apiKeys.map((apiKey) => (
+              <div key={apiKey.id} className="flex items-center gap-3 p-3 rounded-lg bg-slate-500/10" data-testid={`api-key-${apiKey.id}`}>
+                <Key className="h-4 w-4 text-slate-500 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium truncate">{apiKey.name}</p>
+                    <Badge variant="outline" className="text-xs border-slate-500/30 shrink-0 font-mono">{apiKey.keyPreview}</Badge>
+                    <StatusBadge {...keyStatus(apiKey)} />
+                  </div>
+                  <p className="text-xs text-slate-600 dark:text-slate-400 truncate">
+                    {apiKey.permissions.map(permissionLabel).join(", ")}
+                  </p>
+                  <div className="flex items-center gap-3 mt-0.5 text-xs text-slate-600 dark:text-slate-400">
+                    <span>Created {new Date(apiKey.createdAt).toLocaleDateString()}</span>
+                    <span>{apiKey.expiresAt ? `Expires ${new Date(apiKey.expiresAt).toLocaleDateString()}` : "No expiry"}</span>
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {apiKey.lastUsedAt ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}` : "Never used"}
+                    </span>
+                  </div>
+                </div>
+                {!apiKey.revokedAt && (
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="border-red-500/30 hover:bg-red-500/10 text-red-600 dark:text-red-400 h-9 w-9 shrink-0"
+                    disabled={revoke.isPending}
+                    onClick={() => revoke.mutate(apiKey.id)}
+                    data-testid={`button-revoke-key-${apiKey.id}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </div>
+            ))
+          ) : (
+            <div className="p-6 rounded-xl border border-dashed border-slate-500/30 text-center">
+              <Key className="h-8 w-8 text-slate-500/40 mx-auto mb-2" />
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                No API keys yet. Generate one to get started.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-3 rounded-xl bg-amber-500/10 border border-amber-500/20">
+          <p className="text-xs text-amber-700 dark:text-amber-300">
+            <strong>Security note:</strong> A key can do everything its permissions allow, including paying out, without a PIN.
+            Give each integration its own key with only what it needs. Revoked keys cannot be restored.
+          </p>
+        </div>
+      </div>
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Generate API key</DialogTitle>
+            <DialogDescription>Every request made with the key is recorded in the audit log.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. ERP sync" data-testid="input-api-key-name" />
+            </div>
+            <div className="space-y-2">
+              <Label>Permissions</Label>
+              <div className="space-y-2">
+                {(scopes?.permissions ?? []).map((permission) => {
+                  const routes = routesFor(permission);
+                  if (routes.length === 0) return null;
+                  return (
+                    <label key={permission} className="flex items-start gap-2 p-2 rounded-lg bg-slate-500/10 text-sm">
+                      <Checkbox
+                        checked={permissions.includes(permission)}
+                        onCheckedChange={(checked) => togglePermission(permission, !!checked)}
+                        data-testid={`checkbox-api-key-permission-${permission}`}
+                      />
+                      <span>
+                        {permissionLabel(permission)}
+                        <span className="block text-xs text-muted-foreground font-mono">{routes.join(" · ")}</span>
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+            <div>
+              <Label>Expires after</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger data-testid="select-api-key-expiry"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreating(false)}>Cancel</Button>
+            <Button
+              disabled={!name.trim() || permissions.length === 0 || create.isPending}
+              onClick={() => pin.requirePin(() => create.mutate())}
+              data-testid="button-save-api-key"
+            >
+              {create.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Generate Key
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {pin.PinDialogs}
+    </GlassCard>
+  );
+}
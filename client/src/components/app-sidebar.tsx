@@ -30,6 +30,8 @@ import {
   Check,
   Plus,
   Loader2,
+  ClipboardList,
+  Banknote,
 } from "lucide-react";
 import {
   Sidebar,
@@ -72,6 +74,7 @@ const mainMenuItems = [
   { title: "Budget", url: "/budget", icon: PieChart },
   { title: "Cards", url: "/cards", icon: CreditCard },
   { title: "Accounts", url: "/accounts", icon: Wallet },
+  { title: "My Pay", url: "/my-pay", icon: Banknote },
 ];
 
 const financeItems = [
@@ -80,6 +83,7 @@ const financeItems = [
   { title: "Payroll", url: "/payroll", icon: DollarSign },
   { title: "Invoices", url: "/invoices", icon: FileText },
   { title: "Vendors", url: "/vendors", icon: Building2 },
+  { title: "Purchase Orders", url: "/purchase-orders", icon: ClipboardList },
 ];
 
 const managementItems = [
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, pinProtectedRequest, queryClient, sanitizeErrorMessage } from "@/lib/queryClient";
+import { usePinVerification } from "@/components/pin-verification-dialog";
+import { GlassCard, SectionLabel } from "@/components/ui-extended";
+import { CheckCircle2, Landmark, Loader2, XCircle } from "lucide-react";
+
+// GET /api/payroll/bank-reviews: bank details employees entered on My Pay.
+interface BankDetailReview {
+  id: string;
+  bankName: string | null;
+  bankCode: string | null;
+  accountNumber: string | null;
+  accountName: string | null;
+  routingNumber: string | null;
+  currency: string;
+  country: string;
+  createdAt: string;
+  resolvedAccountName: string | null;
+  employee: { userId: string; name: string | null; email: string | null };
+}
+
+// The server's error text; sanitizeErrorMessage drops JSON bodies.
+function serverError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    const body = JSON.parse(message.replace(/^\d{3}:\s*/, ""));
+    if (typeof body?.error === "string") return body.error;
+  } catch {
+  }
+  return sanitizeErrorMessage(error);
+}
+
+/**
+ * Bank details employees submitted for their salary, for an admin to
+ * verify before the next payroll run pays into them. Renders nothing
+ * when there is nothing to review.
+ */
+export function BankDetailReviews() {
+  const { toast } = useToast();
+  const pin = usePinVerification();
+  const [rejecting, setRejecting] = useState<BankDetailReview | null>(null);
+  const [rejectionNote, setRejectionNote] = useState("");
+
+  const { data: reviews = [] } = useQuery<BankDetailReview[]>({ queryKey: ["/api/payroll/bank-reviews"] });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/payroll/bank-reviews"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/payroll"] });
+  };
+
+  const verify = useMutation({
+    mutationFn: async (id: string) => (await pinProtectedRequest("POST", `/api/payroll/bank-reviews/${id}/verify`, {})).json(),
+    onSuccess: (result: { linkedEntries: number }) => {
+      refresh();
+      toast({
+        title: "Bank details verified",
+        description: result.linkedEntries > 0 ? `Linked to ${result.linkedEntries} pending payroll entries.` : "Used from the next payroll run.",
+      });
+    },
+    onError: (error, id) => {
+      if (pin.handlePinError(error, () => verify.mutate(id))) return;
+      toast({ title: "Could not verify the bank details", description: serverError(error), variant: "destructive" });
+    },
+  });
+
+  const reject = useMutation({
+    mutationFn: async ({ id, note }: { id: string; note: string }) =>
+      (await apiRequest("POST", `/api/payroll/bank-reviews/${id}/reject`, { note })).json(),
+    onSuccess: () => {
+      refresh();
+      setRejecting(null);
+      setRejectionNote("");
+      toast({ title: "Bank details rejected" });
+    },
+    onError: (error) => toast({ title: "Could not reject the bank details", description: serverError(error), variant: "destructive" }),
+  });
+
+  if (reviews.length === 0) return null;
+
+  return (
+    <GlassCard className="p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Landmark className="h-5 w-5 text-violet-600" />
+        <SectionLabel>Bank detail reviews</SectionLabel>
+      </div>
+      <div className="space-y-2">
+        {reviews.map((review) => (
+          <div key={review.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 rounded-lg border text-sm" data-testid={`bank-review-${review.id}`}>
+            <div>
+              <p className="font-medium">{review.employee.name || review.employee.email}</p>
+              <p className="text-xs text-muted-foreground">
+                {review.bankName}{review.bankCode ? ` (${review.bankCode})` : ""}{review.routingNumber ? ` · ${review.routingNumber}` : ""} · {review.accountNumber} · {review.accountName} · {review.currency}
+              </p>
+              {review.resolvedAccountName && (
+                <p className={`text-xs ${review.resolvedAccountName.toLowerCase() === review.accountName?.toLowerCase() ? "text-emerald-600" : "text-amber-600"}`}>
+                  Bank's name for the account: {review.resolvedAccountName}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Button size="sm" onClick={() => pin.requirePin(() => verify.mutate(review.id))} disabled={verify.isPending} data-testid={`button-verify-bank-${review.id}`}>
+                <CheckCircle2 className="h-4 w-4 mr-1" /> Verify
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setRejecting(review)} data-testid={`button-reject-bank-${review.id}`}>
+                <XCircle className="h-4 w-4 mr-1" /> Reject
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject bank details</DialogTitle>
+            <DialogDescription>
+              {rejecting && `${rejecting.employee.name || rejecting.employee.email} sees the reason and can submit new details.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label>Reason</Label>
+            <Input value={rejectionNote} onChange={(e) => setRejectionNote(e.target.value)} data-testid="input-bank-rejection-note" />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={!rejectionNote.trim() || reject.isPending}
+              onClick={() => rejecting && reject.mutate({ id: rejecting.id, note: rejectionNote.trim() })}
+              data-testid="button-confirm-bank-rejection"
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {pin.PinDialogs}
+    </GlassCard>
+  );
+}
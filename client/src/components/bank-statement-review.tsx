@@ -0,0 +1,278 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getAuthHeaders, sanitizeErrorMessage } from "@/lib/queryClient";
+import { formatCurrencyAmount } from "@/lib/constants";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Upload, RefreshCw, Loader2, Landmark, Check, EyeOff, Receipt, ArrowRightLeft, Undo2 } from "lucide-react";
+import { GlassCard, SectionLabel, EmptyState } from "@/components/ui-extended";
+import type { BankStatementLine } from "@shared/schema";
+
+const STATUS_FILTERS: Record<string, string> = {
+  open: "unmatched,suggested",
+  matched: "matched",
+  converted: "converted",
+  ignored: "ignored",
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  unmatched: "bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400",
+  suggested: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400",
+  matched: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400",
+  converted: "bg-sky-100 text-sky-700 dark:bg-sky-900/30 dark:text-sky-400",
+  ignored: "bg-muted text-muted-foreground",
+};
+
+/**
+ * Statement import and review for money held outside Spendly. Admins
+ * upload a CSV, OFX/QFX or MT940 file, confirm the suggested matches and
+ * turn anything left over into an expense or transaction.
+ */
+export function BankStatementReview() {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [filter, setFilter] = useState("open");
+  const [isUploading, setIsUploading] = useState(false);
+
+  const linesKey = `/api/bank-statements/lines?status=${STATUS_FILTERS[filter]}`;
+  const { data: lines, isLoading } = useQuery<BankStatementLine[]>({ queryKey: [linesKey] });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("/api/bank-statements") });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+  };
+
+  const importStatement = async (file: File) => {
+    const formData = new FormData();
+    formData.append("statement", file);
+    setIsUploading(true);
+    try {
+      const authHeaders = await getAuthHeaders();
+      const response = await fetch("/api/bank-statements/imports", {
+        method: "POST",
+        headers: authHeaders,
+        body: formData,
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Import failed");
+      }
+      const { lineCount, duplicateCount } = result.import;
+      toast({
+        title: `Imported ${lineCount} line${lineCount === 1 ? "" : "s"}`,
+        description: `${result.matched} matched, ${result.suggested} with suggestions, ${result.unmatched} unmatched${duplicateCount ? ` · ${duplicateCount} already imported` : ""}.`,
+      });
+      setFilter("open");
+      refresh();
+    } catch (error: any) {
+      toast({ title: "Statement import failed", description: sanitizeErrorMessage(error), variant: "destructive" });
+    } finally {
+      setIsUploading(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const rematchMutation = useMutation({
+    mutationFn: async () => (await apiRequest("POST", "/api/bank-statements/rematch")).json(),
+    onSuccess: (data: { matched: number; suggested: number }) => {
+      toast({ title: "Matching complete", description: `${data.matched} matched, ${data.suggested} with suggestions.` });
+      refresh();
+    },
+    onError: (error: any) => toast({ title: "Matching failed", description: sanitizeErrorMessage(error), variant: "destructive" }),
+  });
+
+  const lineMutation = useMutation({
+    mutationFn: async ({ id, action, body }: { id: string; action: "match" | "ignore" | "reopen" | "convert"; body?: object }) =>
+      (await apiRequest("POST", `/api/bank-statements/lines/${id}/${action}`, body)).json(),
+    onSuccess: (_data, { action, body }) => {
+      const titles = {
+        match: "Match confirmed",
+        ignore: "Line ignored",
+        reopen: "Line reopened",
+        convert: (body as { as?: string })?.as === "expense" ? "Expense created" : "Transaction recorded",
+      };
+      toast({ title: titles[action] });
+      refresh();
+    },
+    onError: (error: any) => toast({ title: "Could not update line", description: sanitizeErrorMessage(error), variant: "destructive" }),
+  });
+
+  const busy = lineMutation.isPending;
+
+  return (
+    <GlassCard>
+      <div>
+        <div className="px-6 py-4 border-b">
+          <div className="flex items-center justify-between gap-2 flex-wrap">
+            <SectionLabel icon={Landmark}>Bank Statement Reconciliation</SectionLabel>
+            <div className="flex gap-2 flex-wrap">
+              <Select value={filter} onValueChange={setFilter}>
+                <SelectTrigger className="w-[150px]" data-testid="select-statement-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="open">To review</SelectItem>
+                  <SelectItem value="matched">Matched</SelectItem>
+                  <SelectItem value="converted">Converted</SelectItem>
+                  <SelectItem value="ignored">Ignored</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                onClick={() => rematchMutation.mutate()}
+                disabled={rematchMutation.isPending}
+                data-testid="button-rematch-statement"
+              >
+                {rematchMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                Re-run Matching
+              </Button>
+              <Button onClick={() => fileInput.current?.click()} disabled={isUploading} data-testid="button-import-statement">
+                {isUploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                Import Statement
+              </Button>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".csv,.ofx,.qfx,.sta,.mt940,.txt"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importStatement(file);
+                }}
+                data-testid="input-statement-file"
+              />
+            </div>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="p-6 space-y-3">
+            {[1, 2, 3].map((i) => <Skeleton key={i} className="h-14 w-full" />)}
+          </div>
+        ) : lines && lines.length > 0 ? (
+          <div className="divide-y">
+            {lines.map((line) => {
+              const amount = Number(line.amount);
+              const isOpen = line.status === "unmatched" || line.status === "suggested";
+              return (
+                <div key={line.id} className="p-4 space-y-3" data-testid={`statement-line-${line.id}`}>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-bold truncate">{line.description}</p>
+                      <div className="flex items-center gap-2 mt-1 flex-wrap">
+                        <Badge className={`text-xs ${STATUS_COLORS[line.status] ?? ""}`}>{line.status}</Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(line.date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+                        </span>
+                        {line.reference && <span className="text-xs text-muted-foreground">Ref {line.reference}</span>}
+                        {line.matchType && (
+                          <span className="text-xs text-muted-foreground">
+                            → {line.matchType}{line.matchScore != null ? ` (${line.matchScore}%)` : ""}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <p className={`text-base font-bold flex-shrink-0 ${amount > 0 ? "text-emerald-600 dark:text-emerald-400" : ""}`}>
+                      {amount > 0 ? "+" : "-"}{formatCurrencyAmount(Math.abs(amount), line.currency)}
+                    </p>
+                  </div>
+
+                  {isOpen && line.suggestions.length > 0 && (
+                    <div className="space-y-2">
+                      {line.suggestions.map((s) => (
+                        <div key={`${s.type}:${s.id}`} className="flex items-center justify-between gap-3 rounded-lg border p-2">
+                          <div className="min-w-0">
+                            <p className="text-sm truncate">
+                              <Badge variant="secondary" className="text-xs mr-2">{s.type}</Badge>
+                              {s.label}
+                            </p>
+                            <p className="text-xs text-muted-foreground mt-0.5">{s.score}% · {s.reasons.join(" · ")}</p>
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busy}
+                            onClick={() => lineMutation.mutate({ id: line.id, action: "match", body: { type: s.type, id: s.id } })}
+                            data-testid={`button-confirm-match-${line.id}-${s.id}`}
+                          >
+                            <Check className="h-4 w-4 mr-1" />Confirm
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex gap-2 flex-wrap">
+                    {isOpen ? (
+                      <>
+                        {amount < 0 && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busy}
+                            onClick={() => lineMutation.mutate({ id: line.id, action: "convert", body: { as: "expense" } })}
+                            data-testid={`button-convert-expense-${line.id}`}
+                          >
+                            <Receipt className="h-4 w-4 mr-1" />Create Expense
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busy}
+                          onClick={() => lineMutation.mutate({ id: line.id, action: "convert", body: { as: "transaction" } })}
+                          data-testid={`button-convert-transaction-${line.id}`}
+                        >
+                          <ArrowRightLeft className="h-4 w-4 mr-1" />Record Transaction
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={busy}
+                          onClick={() => lineMutation.mutate({ id: line.id, action: "ignore" })}
+                          data-testid={`button-ignore-line-${line.id}`}
+                        >
+                          <EyeOff className="h-4 w-4 mr-1" />Ignore
+                        </Button>
+                      </>
+                    ) : line.status !== "converted" ? (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={busy}
+                        onClick={() => lineMutation.mutate({ id: line.id, action: "reopen" })}
+                        data-testid={`button-reopen-line-${line.id}`}
+                      >
+                        <Undo2 className="h-4 w-4 mr-1" />Undo
+                      </Button>
+                    ) : null}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <EmptyState
+            icon={Landmark}
+            title={filter === "open" ? "Nothing to reconcile" : `No ${filter} lines`}
+            description={
+              filter === "open"
+                ? "Import a CSV, OFX/QFX or MT940 statement from an outside bank account to match it against your records."
+                : "Lines appear here as you review imported statements."
+            }
+          />
+        )}
+      </div>
+    </GlassCard>
+  );
+}
@@ -0,0 +1,486 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, pinProtectedRequest, queryClient, sanitizeErrorMessage } from "@/lib/queryClient";
+import { usePinVerification } from "@/components/pin-verification-dialog";
+import { GlassCard, SectionLabel } from "@/components/ui-extended";
+import { formatCurrencyAmount } from "@/lib/constants";
+import { CreditCard, Loader2, Pencil, Plus, ShieldCheck, Trash2, Users } from "lucide-react";
+import type { CardSpendPolicy, VirtualCard } from "@shared/schema";
+
+interface ProgramMember {
+  id: string;
+  name: string | null;
+  email: string;
+  role: string;
+  department: string | null;
+  hasCardholder: boolean;
+}
+
+interface MemberSpend {
+  memberId: string;
+  name: string | null;
+  email: string;
+  currency: string;
+  cardCount: number;
+  transactionCount: number;
+  total: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+const ANY = "any";
+const NO_POLICY = "none";
+const CARD_CURRENCIES = ["USD", "EUR", "GBP"];
+
+const emptyPolicy = {
+  name: "",
+  description: "",
+  allowedMerchantCategories: "",
+  blockedMerchantCategories: "",
+  perTransactionLimit: "",
+  dailyLimit: "",
+  monthlyLimit: "",
+  allowedWeekdays: [] as number[],
+  allowedHoursStart: ANY,
+  allowedHoursEnd: ANY,
+  timezone: "UTC",
+  allowedCountries: "",
+};
+
+const emptyIssue = { memberId: "", name: "", limit: "", currency: "USD", spendPolicyId: NO_POLICY };
+
+// The server's error text; sanitizeErrorMessage drops JSON bodies.
+function serverError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    const body = JSON.parse(message.replace(/^\d{3}:\s*/, ""));
+    if (typeof body?.error === "string") return body.error;
+  } catch {
+  }
+  return sanitizeErrorMessage(error);
+}
+
+const list = (value: string) => value.split(",").map((v) => v.trim()).filter(Boolean);
+const cap = (value: string) => (value.trim() ? parseFloat(value) : null);
+const hour = (value: string) => (value === ANY ? null : Number(value));
+const hourLabel = (h: number) => `${String(h).padStart(2, "0")}:00`;
+
+function policySummary(policy: CardSpendPolicy): string {
+  const parts: string[] = [];
+  if (policy.perTransactionLimit) parts.push(`${policy.perTransactionLimit} per purchase`);
+  if (policy.dailyLimit) parts.push(`${policy.dailyLimit} a day`);
+  if (policy.monthlyLimit) parts.push(`${policy.monthlyLimit} a month`);
+  if (policy.allowedMerchantCategories.length) parts.push(`${policy.allowedMerchantCategories.length} allowed merchant types`);
+  if (policy.blockedMerchantCategories.length) parts.push(`${policy.blockedMerchantCategories.length} blocked merchant types`);
+  if (policy.allowedWeekdays.length) parts.push(policy.allowedWeekdays.map((d) => WEEKDAYS[d]).join(" "));
+  if (policy.allowedHoursStart !== null && policy.allowedHoursEnd !== null) {
+    parts.push(`${hourLabel(policy.allowedHoursStart)}–${hourLabel(policy.allowedHoursEnd)} ${policy.timezone}`);
+  }
+  if (policy.allowedCountries.length) parts.push(policy.allowedCountries.join(", "));
+  return parts.length ? parts.join(" · ") : "No restrictions";
+}
+
+/**
+ * Card programs: spend policies, cards issued to team members, and what
+ * each member has spent on their cards this month.
+ */
+export function CardPrograms({ cards }: { cards: VirtualCard[] }) {
+  const { toast } = useToast();
+  const pin = usePinVerification();
+  const [policyOpen, setPolicyOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<CardSpendPolicy | null>(null);
+  const [policyForm, setPolicyForm] = useState(emptyPolicy);
+  const [issueOpen, setIssueOpen] = useState(false);
+  const [issueForm, setIssueForm] = useState(emptyIssue);
+
+  const { data: policies = [] } = useQuery<CardSpendPolicy[]>({ queryKey: ["/api/card-policies"] });
+  const { data: members = [] } = useQuery<ProgramMember[]>({ queryKey: ["/api/card-programs/members"] });
+  const { data: spend, isLoading: spendLoading } = useQuery<{ from: string; to: string; members: MemberSpend[] }>({
+    queryKey: ["/api/card-programs/spend"],
+  });
+
+  const programCards = cards.filter((c) => c.memberId);
+  const memberName = (id: string | null) => {
+    const member = members.find((m) => m.id === id);
+    return member ? member.name || member.email : "Former member";
+  };
+
+  const openPolicy = (policy: CardSpendPolicy | null) => {
+    setEditingPolicy(policy);
+    setPolicyForm(policy ? {
+      name: policy.name,
+      description: policy.description ?? "",
+      allowedMerchantCategories: policy.allowedMerchantCategories.join(", "),
+      blockedMerchantCategories: policy.blockedMerchantCategories.join(", "),
+      perTransactionLimit: policy.perTransactionLimit ?? "",
+      dailyLimit: policy.dailyLimit ?? "",
+      monthlyLimit: policy.monthlyLimit ?? "",
+      allowedWeekdays: policy.allowedWeekdays,
+      allowedHoursStart: policy.allowedHoursStart === null ? ANY : String(policy.allowedHoursStart),
+      allowedHoursEnd: policy.allowedHoursEnd === null ? ANY : String(policy.allowedHoursEnd),
+      timezone: policy.timezone,
+      allowedCountries: policy.allowedCountries.join(", "),
+    } : emptyPolicy);
+    setPolicyOpen(true);
+  };
+
+  const savePolicy = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: policyForm.name.trim(),
+        description: policyForm.description.trim() || null,
+        allowedMerchantCategories: list(policyForm.allowedMerchantCategories),
+        blockedMerchantCategories: list(policyForm.blockedMerchantCategories),
+        perTransactionLimit: cap(policyForm.perTransactionLimit),
+        dailyLimit: cap(policyForm.dailyLimit),
+        monthlyLimit: cap(policyForm.monthlyLimit),
+        allowedWeekdays: policyForm.allowedWeekdays,
+        allowedHoursStart: hour(policyForm.allowedHoursStart),
+        allowedHoursEnd: hour(policyForm.allowedHoursEnd),
+        timezone: policyForm.timezone.trim() || "UTC",
+        allowedCountries: list(policyForm.allowedCountries),
+      };
+      return editingPolicy
+        ? (await pinProtectedRequest("PATCH", `/api/card-policies/${editingPolicy.id}`, body)).json()
+        : (await apiRequest("POST", "/api/card-policies", body)).json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/card-policies"] });
+      setPolicyOpen(false);
+      toast({ title: editingPolicy ? "Spend policy updated" : "Spend policy created" });
+    },
+    onError: (error) => {
+      if (pin.handlePinError(error, () => savePolicy.mutate())) return;
+      toast({ title: "Could not save the spend policy", description: serverError(error), variant: "destructive" });
+    },
+  });
+
+  const deletePolicy = useMutation({
+    mutationFn: async (id: string) => pinProtectedRequest("DELETE", `/api/card-policies/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/card-policies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+      toast({ title: "Spend policy deleted", description: "Its cards no longer have a spend policy." });
+    },
+    onError: (error, id) => {
+      if (pin.handlePinError(error, () => deletePolicy.mutate(id))) return;
+      toast({ title: "Could not delete the spend policy", description: serverError(error), variant: "destructive" });
+    },
+  });
+
+  const issueCard = useMutation({
+    mutationFn: async () =>
+      (await pinProtectedRequest("POST", "/api/card-programs/cards", {
+        memberId: issueForm.memberId,
+        name: issueForm.name.trim(),
+        limit: issueForm.limit ? parseFloat(issueForm.limit) : undefined,
+        currency: issueForm.currency,
+        spendPolicyId: issueForm.spendPolicyId === NO_POLICY ? null : issueForm.spendPolicyId,
+      })).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/card-programs/members"] });
+      setIssueOpen(false);
+      setIssueForm(emptyIssue);
+      toast({ title: "Card issued", description: "The team member can start using it once it's funded." });
+    },
+    onError: (error) => {
+      if (pin.handlePinError(error, () => issueCard.mutate())) return;
+      toast({ title: "Could not issue the card", description: serverError(error), variant: "destructive" });
+    },
+  });
+
+  const applyPolicy = useMutation({
+    mutationFn: async ({ cardId, spendPolicyId }: { cardId: string; spendPolicyId: string | null }) =>
+      (await pinProtectedRequest("PUT", `/api/cards/${cardId}/spend-policy`, { spendPolicyId })).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+      toast({ title: "Spend policy applied" });
+    },
+    onError: (error, variables) => {
+      if (pin.handlePinError(error, () => applyPolicy.mutate(variables))) return;
+      toast({ title: "Could not apply the spend policy", description: serverError(error), variant: "destructive" });
+    },
+  });
+
+  const toggleWeekday = (day: number, checked: boolean) =>
+    setPolicyForm((f) => ({
+      ...f,
+      allowedWeekdays: checked ? [...f.allowedWeekdays, day].sort() : f.allowedWeekdays.filter((d) => d !== day),
+    }));
+
+  return (
+    <GlassCard>
+      <div className="space-y-6">
+        <div className="flex items-center gap-3 flex-wrap">
+          <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-violet-500/20 to-violet-500/10 flex items-center justify-center">
+            <Users className="h-5 w-5 text-violet-600 dark:text-violet-400" />
+          </div>
+          <div className="flex-1">
+            <SectionLabel>Card Programs</SectionLabel>
+            <p className="text-sm text-muted-foreground">
+              Issue cards to team members under a spend policy. Each purchase becomes a draft expense for the cardholder's receipt.
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => openPolicy(null)} className="gap-2" data-testid="button-new-spend-policy">
+            <ShieldCheck className="h-4 w-4" /> New Policy
+          </Button>
+          <Button onClick={() => setIssueOpen(true)} className="gap-2" data-testid="button-issue-member-card">
+            <Plus className="h-4 w-4" /> Issue to Team Member
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Spend by team member this month</p>
+          {spendLoading ? (
+            <div className="flex justify-center p-4"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+          ) : spend && spend.members.length > 0 ? (
+            spend.members.map((row) => (
+              <div key={`${row.memberId}-${row.currency}`} className="flex items-center gap-3 p-3 rounded-lg bg-muted/30" data-testid={`member-spend-${row.memberId}`}>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{row.name || row.email}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {row.cardCount} {row.cardCount === 1 ? "card" : "cards"} · {row.transactionCount} {row.transactionCount === 1 ? "purchase" : "purchases"}
+                  </p>
+                </div>
+                <p className="text-sm font-semibold">{formatCurrencyAmount(row.total, row.currency)}</p>
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground">No card spend by team members this month.</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Team member cards</p>
+          {programCards.length > 0 ? (
+            programCards.map((card) => (
+              <div key={card.id} className="flex items-center gap-3 p-3 rounded-lg bg-muted/30 flex-wrap" data-testid={`program-card-${card.id}`}>
+                <CreditCard className="h-4 w-4 text-muted-foreground shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{card.name} •••• {card.last4}</p>
+                  <p className="text-xs text-muted-foreground">{memberName(card.memberId)}</p>
+                </div>
+                <Select
+                  value={card.spendPolicyId ?? NO_POLICY}
+                  onValueChange={(value) => applyPolicy.mutate({ cardId: card.id, spendPolicyId: value === NO_POLICY ? null : value })}
+                  disabled={applyPolicy.isPending}
+                >
+                  <SelectTrigger className="w-48 h-9" data-testid={`select-card-policy-${card.id}`}><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_POLICY}>No spend policy</SelectItem>
+                    {policies.map((p) => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground">No cards have been issued to team members yet.</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Spend policies</p>
+          {policies.length > 0 ? (
+            policies.map((policy) => (
+              <div key={policy.id} className="flex items-center gap-3 p-3 rounded-lg bg-muted/30" data-testid={`spend-policy-${policy.id}`}>
+                <ShieldCheck className="h-4 w-4 text-muted-foreground shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium truncate">{policy.name}</p>
+                    <Badge variant="outline" className="text-xs shrink-0">
+                      {cards.filter((c) => c.spendPolicyId === policy.id).length} cards
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">{policySummary(policy)}</p>
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openPolicy(policy)} data-testid={`button-edit-policy-${policy.id}`}>
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-red-600"
+                  disabled={deletePolicy.isPending}
+                  onClick={() => pin.requirePin(() => deletePolicy.mutate(policy.id))}
+                  data-testid={`button-delete-policy-${policy.id}`}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground">No spend policies yet.</p>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={policyOpen} onOpenChange={setPolicyOpen}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingPolicy ? "Edit spend policy" : "New spend policy"}</DialogTitle>
+            <DialogDescription>
+              Checked on every purchase, after the card's own controls. Leave a field empty to not restrict it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Name</Label>
+              <Input value={policyForm.name} onChange={(e) => setPolicyForm({ ...policyForm, name: e.target.value })} placeholder="e.g. Field sales" data-testid="input-policy-name" />
+            </div>
+            <div>
+              <Label>Description</Label>
+              <Textarea value={policyForm.description} onChange={(e) => setPolicyForm({ ...policyForm, description: e.target.value })} rows={2} />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label>Per purchase</Label>
+                <Input type="number" min="0" value={policyForm.perTransactionLimit} onChange={(e) => setPolicyForm({ ...policyForm, perTransactionLimit: e.target.value })} data-testid="input-policy-per-transaction" />
+              </div>
+              <div>
+                <Label>Daily</Label>
+                <Input type="number" min="0" value={policyForm.dailyLimit} onChange={(e) => setPolicyForm({ ...policyForm, dailyLimit: e.target.value })} data-testid="input-policy-daily" />
+              </div>
+              <div>
+                <Label>Monthly</Label>
+                <Input type="number" min="0" value={policyForm.monthlyLimit} onChange={(e) => setPolicyForm({ ...policyForm, monthlyLimit: e.target.value })} data-testid="input-policy-monthly" />
+              </div>
+            </div>
+            <div>
+              <Label>Allowed merchant categories</Label>
+              <Input value={policyForm.allowedMerchantCategories} onChange={(e) => setPolicyForm({ ...policyForm, allowedMerchantCategories: e.target.value })} placeholder="e.g. airlines_air_carriers, 5812" />
+            </div>
+            <div>
+              <Label>Blocked merchant categories</Label>
+              <Input value={policyForm.blockedMerchantCategories} onChange={(e) => setPolicyForm({ ...policyForm, blockedMerchantCategories: e.target.value })} placeholder="e.g. betting_casino_gambling, 7995" />
+              <p className="text-xs text-muted-foreground mt-1">Stripe category names or four-digit MCCs, separated by commas.</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Allowed days</Label>
+              <div className="flex flex-wrap gap-3">
+                {WEEKDAYS.map((day, index) => (
+                  <label key={day} className="flex items-center gap-1.5 text-sm">
+                    <Checkbox checked={policyForm.allowedWeekdays.includes(index)} onCheckedChange={(checked) => toggleWeekday(index, !!checked)} />
+                    {day}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label>From</Label>
+                <Select value={policyForm.allowedHoursStart} onValueChange={(v) => setPolicyForm({ ...policyForm, allowedHoursStart: v })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any time</SelectItem>
+                    {HOURS.map((h) => <SelectItem key={h} value={String(h)}>{hourLabel(h)}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Until</Label>
+                <Select value={policyForm.allowedHoursEnd} onValueChange={(v) => setPolicyForm({ ...policyForm, allowedHoursEnd: v })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any time</SelectItem>
+                    {HOURS.map((h) => <SelectItem key={h} value={String(h)}>{hourLabel(h)}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Timezone</Label>
+                <Input value={policyForm.timezone} onChange={(e) => setPolicyForm({ ...policyForm, timezone: e.target.value })} placeholder="e.g. Africa/Lagos" />
+              </div>
+            </div>
+            <div>
+              <Label>Allowed merchant countries</Label>
+              <Input value={policyForm.allowedCountries} onChange={(e) => setPolicyForm({ ...policyForm, allowedCountries: e.target.value })} placeholder="e.g. US, GB, NG" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPolicyOpen(false)}>Cancel</Button>
+            <Button
+              disabled={!policyForm.name.trim() || savePolicy.isPending}
+              onClick={() => (editingPolicy ? pin.requirePin(() => savePolicy.mutate()) : savePolicy.mutate())}
+              data-testid="button-save-spend-policy"
+            >
+              {savePolicy.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Save Policy
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={issueOpen} onOpenChange={setIssueOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Issue card to team member</DialogTitle>
+            <DialogDescription>The card is issued in the member's name, using the billing address on their profile.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Team member</Label>
+              <Select value={issueForm.memberId} onValueChange={(v) => setIssueForm({ ...issueForm, memberId: v })}>
+                <SelectTrigger data-testid="select-card-member"><SelectValue placeholder="Choose a team member" /></SelectTrigger>
+                <SelectContent>
+                  {members.map((m) => <SelectItem key={m.id} value={m.id}>{m.name || m.email}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Card name</Label>
+              <Input value={issueForm.name} onChange={(e) => setIssueForm({ ...issueForm, name: e.target.value })} placeholder="e.g. Travel card" data-testid="input-member-card-name" />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Monthly limit</Label>
+                <Input type="number" min="0" value={issueForm.limit} onChange={(e) => setIssueForm({ ...issueForm, limit: e.target.value })} />
+              </div>
+              <div>
+                <Label>Currency</Label>
+                <Select value={issueForm.currency} onValueChange={(v) => setIssueForm({ ...issueForm, currency: v })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {CARD_CURRENCIES.map((c) => <SelectItem key={c} value={c}>{c}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label>Spend policy</Label>
+              <Select value={issueForm.spendPolicyId} onValueChange={(v) => setIssueForm({ ...issueForm, spendPolicyId: v })}>
+                <SelectTrigger data-testid="select-member-card-policy"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_POLICY}>No spend policy</SelectItem>
+                  {policies.map((p) => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIssueOpen(false)}>Cancel</Button>
+            <Button
+              disabled={!issueForm.memberId || issueForm.name.trim().length < 2 || issueCard.isPending}
+              onClick={() => pin.requirePin(() => issueCard.mutate())}
+              data-testid="button-confirm-issue-member-card"
+            >
+              {issueCard.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Issue Card
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {pin.PinDialogs}
+    </GlassCard>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, pinProtectedRequest, queryClient, sanitizeErrorMessage } from "@/lib/queryClient";
+import { usePinVerification } from "@/components/pin-verification-dialog";
+import { formatCurrencyAmount } from "@/lib/constants";
+import { ArrowRightLeft, Clock, Loader2 } from "lucide-react";
+import type { FxQuote, Wallet } from "@shared/schema";
+
+// The server's error text; sanitizeErrorMessage drops JSON bodies.
+function serverError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    const body = JSON.parse(message.replace(/^\d{3}:\s*/, ""));
+    if (typeof body?.error === "string") return body.error;
+  } catch {
+  }
+  return sanitizeErrorMessage(error);
+}
+
+function secondsLeft(expiresAt: string): number {
+  return Math.max(0, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / 1000));
+}
+
+/**
+ * Convert between two of the user's wallets: get a quote, then accept it
+ * before the rate lock runs out.
+ */
+export function FxConvertDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const pin = usePinVerification();
+  const [sourceWalletId, setSourceWalletId] = useState("");
+  const [targetWalletId, setTargetWalletId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [quote, setQuote] = useState<FxQuote | null>(null);
+  const [remaining, setRemaining] = useState(0);
+
+  const { data: wallets = [] } = useQuery<Wallet[]>({ queryKey: ["/api/wallets"], enabled: open });
+  const activeWallets = wallets.filter((w) => w.status === "active");
+  const source = activeWallets.find((w) => w.id === sourceWalletId);
+  const targets = activeWallets.filter((w) => w.id !== sourceWalletId && w.currency !== source?.currency);
+
+  useEffect(() => {
+    if (!quote) return;
+    setRemaining(secondsLeft(quote.expiresAt));
+    const timer = setInterval(() => setRemaining(secondsLeft(quote.expiresAt)), 1000);
+    return () => clearInterval(timer);
+  }, [quote]);
+
+  const reset = () => {
+    setQuote(null);
+    setAmount("");
+  };
+
+  const requestQuote = useMutation({
+    mutationFn: async () =>
+      (await apiRequest("POST", "/api/fx/quotes", { sourceWalletId, targetWalletId, amount: parseFloat(amount) })).json(),
+    onSuccess: (data: FxQuote) => setQuote(data),
+    onError: (error) => {
+      toast({ title: "Could not get a quote", description: serverError(error), variant: "destructive" });
+    },
+  });
+
+  const acceptQuote = useMutation({
+    mutationFn: async (id: string) => (await pinProtectedRequest("POST", `/api/fx/quotes/${id}/accept`)).json(),
+    onSuccess: (data: { quote: FxQuote }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wallets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({
+        title: "Conversion complete",
+        description: `${formatCurrencyAmount(data.quote.targetAmount, data.quote.targetCurrency)} added to your ${data.quote.targetCurrency} wallet.`,
+      });
+      reset();
+      onOpenChange(false);
+    },
+    onError: (error, id) => {
+      if (pin.handlePinError(error, () => acceptQuote.mutate(id))) return;
+      toast({ title: "Conversion failed", description: serverError(error), variant: "destructive" });
+      setQuote(null);
+    },
+  });
+
+  const expired = !!quote && remaining === 0;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={(next) => { if (!next) reset(); onOpenChange(next); }}>
+        <DialogContent className="sm:max-w-[460px]">
+          <DialogHeader>
+            <DialogTitle>Convert currency</DialogTitle>
+            <DialogDescription>Move money between your wallets at a rate locked for a short time.</DialogDescription>
+          </DialogHeader>
+
+          {!quote ? (
+            <div className="space-y-4">
+              <div>
+                <Label>From</Label>
+                <Select value={sourceWalletId} onValueChange={(v) => { setSourceWalletId(v); setTargetWalletId(""); }}>
+                  <SelectTrigger data-testid="select-fx-source"><SelectValue placeholder="Choose a wallet" /></SelectTrigger>
+                  <SelectContent>
+                    {activeWallets.map((w) => (
+                      <SelectItem key={w.id} value={w.id}>
+                        {w.currency} · {formatCurrencyAmount(w.availableBalance, w.currency)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>To</Label>
+                <Select value={targetWalletId} onValueChange={setTargetWalletId} disabled={!source}>
+                  <SelectTrigger data-testid="select-fx-target"><SelectValue placeholder="Choose a wallet" /></SelectTrigger>
+                  <SelectContent>
+                    {targets.map((w) => <SelectItem key={w.id} value={w.id}>{w.currency}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Amount{source ? ` (${source.currency})` : ""}</Label>
+                <Input type="number" min="0" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} data-testid="input-fx-amount" />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="p-4 rounded-xl bg-muted/30 space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">You convert</span>
+                  <span className="font-semibold">{formatCurrencyAmount(quote.sourceAmount, quote.sourceCurrency)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">You receive</span>
+                  <span className="font-semibold" data-testid="text-fx-target-amount">{formatCurrencyAmount(quote.targetAmount, quote.targetCurrency)}</span>
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Rate</span>
+                  <span>1 {quote.sourceCurrency} = {parseFloat(quote.customerRate)} {quote.targetCurrency}</span>
+                </div>
+              </div>
+              <p className={`flex items-center gap-1.5 text-xs ${expired ? "text-rose-600" : "text-muted-foreground"}`}>
+                <Clock className="h-3.5 w-3.5" />
+                {expired ? "This rate has expired. Get a new quote to continue." : `Rate locked for ${remaining}s`}
+              </p>
+            </div>
+          )}
+
+          <DialogFooter>
+            {quote ? (
+              <>
+                <Button variant="outline" onClick={() => setQuote(null)}>Back</Button>
+                {expired ? (
+                  <Button onClick={() => requestQuote.mutate()} disabled={requestQuote.isPending}>
+                    {requestQuote.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    New Quote
+                  </Button>
+                ) : (
+                  <Button onClick={() => pin.requirePin(() => acceptQuote.mutate(quote.id))} disabled={acceptQuote.isPending} data-testid="button-fx-accept">
+                    {acceptQuote.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Convert
+                  </Button>
+                )}
+              </>
+            ) : (
+              <Button
+                onClick={() => requestQuote.mutate()}
+                disabled={!sourceWalletId || !targetWalletId || !(parseFloat(amount) > 0) || requestQuote.isPending}
+                className="gap-2"
+                data-testid="button-fx-quote"
+              >
+                {requestQuote.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <ArrowRightLeft className="h-4 w-4" />}
+                Get Quote
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      {pin.PinDialogs}
+    </>
+  );
+}
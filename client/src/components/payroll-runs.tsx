@@ -0,0 +1,479 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, pinProtectedRequest, queryClient, getAuthHeaders, sanitizeErrorMessage } from "@/lib/queryClient";
+import { usePinVerification } from "@/components/pin-verification-dialog";
+import { formatCurrencyAmount } from "@/lib/constants";
+import { GlassCard, SectionLabel, StatusBadge, EmptyState } from "@/components/ui-extended";
+import { CalendarRange, CheckCircle2, Download, Eye, Landmark, Loader2, Plus, Send, Trash2, Undo2 } from "lucide-react";
+import type { Payout, PayrollRun, PayrollRunItem, Vendor } from "@shared/schema";
+
+type RunDetail = PayrollRun & { items: PayrollRunItem[] };
+
+// A run's statutory remittance to one authority (server/lib/statutory-remittance.ts).
+interface Remittance {
+  id: string;
+  country: string;
+  authority: string;
+  kind: "paye" | "contributions";
+  currency: string;
+  rules: { code: string; name: string }[];
+  employeeCount: number;
+  employeeTotal: number;
+  employerTotal: number;
+  total: number;
+  dueDate: string;
+  payout: Payout | null;
+}
+
+const RUN_STATUS: Record<string, { status: string; label: string }> = {
+  draft: { status: "draft", label: "Draft" },
+  approved: { status: "approved", label: "Approved" },
+  processing: { status: "processing", label: "Paying" },
+  partially_paid: { status: "warning", label: "Partially paid" },
+  paid: { status: "paid", label: "Paid" },
+  reversed: { status: "rejected", label: "Reversed" },
+};
+
+const ITEM_STATUS: Record<string, { status: string; label: string }> = {
+  pending: { status: "pending", label: "Pending" },
+  processing: { status: "processing", label: "Paid out" },
+  failed: { status: "failed", label: "Failed" },
+  needs_banking_details: { status: "warning", label: "No bank details" },
+  reversed: { status: "rejected", label: "Reversed" },
+  released: { status: "inactive", label: "Released" },
+};
+
+// The server's error text; sanitizeErrorMessage drops JSON bodies.
+function serverError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    const body = JSON.parse(message.replace(/^\d{3}:\s*/, ""));
+    if (typeof body?.error === "string") return body.error;
+  } catch {
+  }
+  return sanitizeErrorMessage(error);
+}
+
+function monthBounds() {
+  const now = new Date();
+  const start = new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1));
+  const end = new Date(Date.UTC(now.getFullYear(), now.getMonth() + 1, 0));
+  return { periodStart: start.toISOString().slice(0, 10), periodEnd: end.toISOString().slice(0, 10) };
+}
+
+/**
+ * Payroll runs: a pay period's pending entries drafted into one run,
+ * approved by a second admin, paid together and, if need be, reversed.
+ * Each employee's payslip can be downloaded as a PDF.
+ */
+export function PayrollRuns() {
+  const { toast } = useToast();
+  const pin = usePinVerification();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [form, setForm] = useState(() => ({ name: "", ...monthBounds(), payDate: monthBounds().periodEnd }));
+  const [openRunId, setOpenRunId] = useState<string | null>(null);
+  const [reversing, setReversing] = useState<PayrollRun | null>(null);
+  const [reversalReason, setReversalReason] = useState("");
+  const [remitting, setRemitting] = useState<Remittance | null>(null);
+  const [remitVendorId, setRemitVendorId] = useState("");
+
+  const { data: runs = [], isLoading } = useQuery<PayrollRun[]>({ queryKey: ["/api/payroll/runs"] });
+  const { data: openRun } = useQuery<RunDetail>({
+    queryKey: ["/api/payroll/runs", openRunId],
+    queryFn: async () => (await apiRequest("GET", `/api/payroll/runs/${openRunId}`)).json(),
+    enabled: !!openRunId,
+  });
+  const { data: remittances = [] } = useQuery<Remittance[]>({
+    queryKey: ["/api/payroll/runs", openRunId, "remittances"],
+    queryFn: async () => (await apiRequest("GET", `/api/payroll/runs/${openRunId}/remittances`)).json(),
+    enabled: !!openRunId,
+  });
+  const { data: vendors = [] } = useQuery<Vendor[]>({ queryKey: ["/api/vendors"], enabled: !!remitting });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/payroll/runs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/payroll"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+  };
+
+  const createRun = useMutation({
+    mutationFn: async () => (await apiRequest("POST", "/api/payroll/runs", { ...form, name: form.name || undefined })).json(),
+    onSuccess: (run: RunDetail & { skipped: { name: string; reason: string }[] }) => {
+      refresh();
+      setIsCreateOpen(false);
+      setOpenRunId(run.id);
+      toast({
+        title: `${run.name} drafted`,
+        description: `${run.employeeCount} employees${run.skipped.length ? `, ${run.skipped.length} left out` : ""}.`,
+      });
+    },
+    onError: (error) => toast({ title: "Could not draft the run", description: serverError(error), variant: "destructive" }),
+  });
+
+  const approveRun = useMutation({
+    mutationFn: async (id: string) => (await apiRequest("POST", `/api/payroll/runs/${id}/approve`)).json(),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Payroll run approved" });
+    },
+    onError: (error) => toast({ title: "Could not approve the run", description: serverError(error), variant: "destructive" }),
+  });
+
+  const payRun = useMutation({
+    mutationFn: async (id: string) => (await pinProtectedRequest("POST", `/api/payroll/runs/${id}/pay`)).json(),
+    onSuccess: (run: RunDetail & { summary: { initiated: number; failed: number; needsBankingDetails: number } }) => {
+      refresh();
+      const { initiated, failed, needsBankingDetails } = run.summary;
+      toast({
+        title: run.status === "paid" ? "Payroll run paid" : "Payroll run partly paid",
+        description: `${initiated} paid, ${failed} failed, ${needsBankingDetails} need bank details.`,
+      });
+    },
+    onError: (error, id) => {
+      if (pin.handlePinError(error, () => payRun.mutate(id))) return;
+      toast({ title: "Could not pay the run", description: serverError(error), variant: "destructive" });
+    },
+  });
+
+  const reverseRun = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) =>
+      (await pinProtectedRequest("POST", `/api/payroll/runs/${id}/reverse`, { reason })).json(),
+    onSuccess: () => {
+      refresh();
+      setReversing(null);
+      setReversalReason("");
+      toast({ title: "Payroll run reversed" });
+    },
+    onError: (error, vars) => {
+      if (pin.handlePinError(error, () => reverseRun.mutate(vars))) return;
+      toast({ title: "Could not reverse the run", description: serverError(error), variant: "destructive" });
+    },
+  });
+
+  const deleteRun = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/payroll/runs/${id}`),
+    onSuccess: () => {
+      refresh();
+      setOpenRunId(null);
+      toast({ title: "Draft run deleted" });
+    },
+    onError: (error) => toast({ title: "Could not delete the run", description: serverError(error), variant: "destructive" }),
+  });
+
+  const scheduleRemittance = useMutation({
+    mutationFn: async ({ runId, remittance, vendorId }: { runId: string; remittance: Remittance; vendorId: string }) =>
+      (await pinProtectedRequest("POST", "/api/payouts/remittances", { runId, remittanceId: remittance.id, vendorId })).json(),
+    onSuccess: (_payout, { remittance }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payroll/runs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payouts"] });
+      setRemitting(null);
+      setRemitVendorId("");
+      toast({ title: `${remittance.authority} remittance scheduled`, description: `Due ${remittance.dueDate}; approve and process it from Payouts.` });
+    },
+    onError: (error, vars) => {
+      if (pin.handlePinError(error, () => scheduleRemittance.mutate(vars))) return;
+      toast({ title: "Could not schedule the remittance", description: serverError(error), variant: "destructive" });
+    },
+  });
+
+  const downloadSchedule = async (run: PayrollRun, remittance: Remittance) => {
+    try {
+      const authHeaders = await getAuthHeaders();
+      const response = await fetch(`/api/payroll/runs/${run.id}/remittances/${remittance.id}/export`, { headers: authHeaders, credentials: "include" });
+      if (!response.ok) throw new Error("Download failed");
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${remittance.kind === "paye" ? "paye" : "contribution"}-schedule-${remittance.id}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch {
+      toast({ title: "Download failed", description: "Could not download the schedule", variant: "destructive" });
+    }
+  };
+
+  const downloadPayslip = async (run: PayrollRun, item: PayrollRunItem) => {
+    try {
+      const authHeaders = await getAuthHeaders();
+      const response = await fetch(`/api/payroll/runs/${run.id}/payslips/${item.id}`, { headers: authHeaders, credentials: "include" });
+      if (!response.ok) throw new Error("Download failed");
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `payslip-${item.employeeName.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch {
+      toast({ title: "Download failed", description: "Could not download the payslip", variant: "destructive" });
+    }
+  };
+
+  const runActions = (run: PayrollRun) => (
+    <div className="flex items-center gap-2 flex-wrap">
+      {run.status === "draft" && (
+        <>
+          <Button size="sm" onClick={() => approveRun.mutate(run.id)} disabled={approveRun.isPending} data-testid={`button-approve-run-${run.id}`}>
+            <CheckCircle2 className="h-4 w-4 mr-1" /> Approve
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => deleteRun.mutate(run.id)} disabled={deleteRun.isPending} data-testid={`button-delete-run-${run.id}`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+      {(run.status === "approved" || run.status === "partially_paid") && (
+        <Button size="sm" onClick={() => pin.requirePin(() => payRun.mutate(run.id))} disabled={payRun.isPending} data-testid={`button-pay-run-${run.id}`}>
+          {payRun.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Send className="h-4 w-4 mr-1" />}
+          {run.status === "partially_paid" ? "Retry unpaid" : "Pay run"}
+        </Button>
+      )}
+      {["approved", "partially_paid", "paid"].includes(run.status) && (
+        <Button size="sm" variant="outline" onClick={() => setReversing(run)} data-testid={`button-reverse-run-${run.id}`}>
+          <Undo2 className="h-4 w-4 mr-1" /> Reverse
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <GlassCard className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <CalendarRange className="h-5 w-5 text-violet-600" />
+          <SectionLabel>Payroll Runs</SectionLabel>
+        </div>
+        <Button size="sm" onClick={() => setIsCreateOpen(true)} data-testid="button-new-payroll-run">
+          <Plus className="h-4 w-4 mr-1" /> New run
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-violet-600" /></div>
+      ) : runs.length === 0 ? (
+        <EmptyState
+          icon={CalendarRange}
+          title="No payroll runs yet"
+          description="Draft a run to pay a period's pending entries together and keep a record of what was paid."
+        />
+      ) : (
+        <div className="space-y-2">
+          {runs.map((run) => {
+            const badge = RUN_STATUS[run.status] || { status: "default", label: run.status };
+            return (
+              <div key={run.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 rounded-lg border" data-testid={`payroll-run-${run.id}`}>
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-semibold">{run.name}</p>
+                    <StatusBadge status={badge.status} label={badge.label} />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {run.periodStart} to {run.periodEnd} · pay date {run.payDate} · {run.employeeCount} employees ·{" "}
+                    {formatCurrencyAmount(parseFloat(run.totalNet), run.currency)} net
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button size="sm" variant="ghost" onClick={() => setOpenRunId(run.id)} data-testid={`button-view-run-${run.id}`}>
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                  {runActions(run)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New payroll run</DialogTitle>
+            <DialogDescription>Pending entries with a pay date in the period are frozen into the run.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <Label>Name</Label>
+              <Input value={form.name} placeholder="e.g. March 2026 payroll" onChange={(e) => setForm({ ...form, name: e.target.value })} data-testid="input-run-name" />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Period start</Label>
+                <Input type="date" value={form.periodStart} onChange={(e) => setForm({ ...form, periodStart: e.target.value })} data-testid="input-run-period-start" />
+              </div>
+              <div>
+                <Label>Period end</Label>
+                <Input type="date" value={form.periodEnd} onChange={(e) => setForm({ ...form, periodEnd: e.target.value })} data-testid="input-run-period-end" />
+              </div>
+            </div>
+            <div>
+              <Label>Pay date</Label>
+              <Input type="date" value={form.payDate} onChange={(e) => setForm({ ...form, payDate: e.target.value })} data-testid="input-run-pay-date" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+            <Button onClick={() => createRun.mutate()} disabled={createRun.isPending} data-testid="button-create-run">
+              {createRun.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />} Draft run
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!openRunId} onOpenChange={(open) => !open && setOpenRunId(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{openRun?.name || "Payroll run"}</DialogTitle>
+            <DialogDescription>
+              {openRun && `${openRun.periodStart} to ${openRun.periodEnd} · drafted by ${openRun.createdByName || "—"}${openRun.approvedByName ? ` · approved by ${openRun.approvedByName}` : ""}`}
+            </DialogDescription>
+          </DialogHeader>
+          {!openRun ? (
+            <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin" /></div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                <div><p className="text-muted-foreground">Salaries</p><p className="font-semibold">{formatCurrencyAmount(parseFloat(openRun.totalSalary), openRun.currency)}</p></div>
+                <div><p className="text-muted-foreground">Bonuses</p><p className="font-semibold">{formatCurrencyAmount(parseFloat(openRun.totalBonus), openRun.currency)}</p></div>
+                <div><p className="text-muted-foreground">Deductions</p><p className="font-semibold">{formatCurrencyAmount(parseFloat(openRun.totalDeductions), openRun.currency)}</p></div>
+                <div><p className="text-muted-foreground">Net pay</p><p className="font-semibold">{formatCurrencyAmount(parseFloat(openRun.totalNet), openRun.currency)}</p></div>
+              </div>
+              {parseFloat(openRun.totalEmployerContributions) > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Employer contributions on top: <span className="font-semibold text-foreground">{formatCurrencyAmount(parseFloat(openRun.totalEmployerContributions), openRun.currency)}</span>
+                </p>
+              )}
+              {openRun.status === "reversed" && openRun.reversalReason && (
+                <p className="text-sm text-rose-600">Reversed by {openRun.reversedByName || "—"}: {openRun.reversalReason}</p>
+              )}
+              <div className="max-h-80 overflow-y-auto space-y-2">
+                {openRun.items.map((item) => {
+                  const badge = ITEM_STATUS[item.status] || { status: "default", label: item.status };
+                  return (
+                    <div key={item.id} className="flex items-center justify-between gap-3 p-2 rounded border text-sm" data-testid={`payroll-run-item-${item.id}`}>
+                      <div>
+                        <p className="font-medium">{item.employeeName}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {item.department || "—"}{item.error ? ` · ${item.error}` : ""}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold">{formatCurrencyAmount(parseFloat(item.netPay), item.currency)}</span>
+                        <StatusBadge status={badge.status} label={badge.label} />
+                        <Button size="sm" variant="ghost" onClick={() => downloadPayslip(openRun, item)} data-testid={`button-payslip-${item.id}`}>
+                          <Download className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              {remittances.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-semibold flex items-center gap-2"><Landmark className="h-4 w-4" /> Statutory remittances</p>
+                  {remittances.map((remittance) => (
+                    <div key={remittance.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 p-2 rounded border text-sm" data-testid={`remittance-${remittance.id}`}>
+                      <div>
+                        <p className="font-medium">
+                          {remittance.authority} · {remittance.kind === "paye" ? "PAYE" : remittance.rules.map((r) => r.name).join(", ")}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {remittance.employeeCount} employees · due {remittance.dueDate}
+                          {remittance.employerTotal > 0 && ` · employer ${formatCurrencyAmount(remittance.employerTotal, remittance.currency)}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold">{formatCurrencyAmount(remittance.total, remittance.currency)}</span>
+                        {remittance.payout ? (
+                          <StatusBadge status={remittance.payout.status} label={`Payout ${remittance.payout.status}`} />
+                        ) : openRun.status === "paid" && (
+                          <Button size="sm" variant="outline" onClick={() => setRemitting(remittance)} data-testid={`button-remit-${remittance.id}`}>
+                            <Send className="h-4 w-4 mr-1" /> Schedule
+                          </Button>
+                        )}
+                        <Button size="sm" variant="ghost" onClick={() => downloadSchedule(openRun, remittance)} data-testid={`button-schedule-csv-${remittance.id}`}>
+                          <Download className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>{openRun && runActions(openRun)}</DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!reversing} onOpenChange={(open) => !open && setReversing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reverse {reversing?.name}</DialogTitle>
+            <DialogDescription>
+              Unpaid employees go back to pending. Payments already sent are booked back as pending refunds; recover them with the bank or provider.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label>Reason</Label>
+            <Input value={reversalReason} onChange={(e) => setReversalReason(e.target.value)} data-testid="input-reversal-reason" />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReversing(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={!reversalReason.trim() || reverseRun.isPending}
+              onClick={() => reversing && pin.requirePin(() => reverseRun.mutate({ id: reversing.id, reason: reversalReason.trim() }))}
+              data-testid="button-confirm-reverse-run"
+            >
+              Reverse run
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!remitting} onOpenChange={(open) => !open && setRemitting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Schedule {remitting?.authority} remittance</DialogTitle>
+            <DialogDescription>
+              {remitting && `${formatCurrencyAmount(remitting.total, remitting.currency)} due ${remitting.dueDate}. `}
+              The payout goes to the authority's collection account, set up as a vendor, and still needs approval before it is sent.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label>Authority (vendor)</Label>
+            <Select value={remitVendorId} onValueChange={setRemitVendorId}>
+              <SelectTrigger data-testid="select-remittance-vendor"><SelectValue placeholder="Select a vendor" /></SelectTrigger>
+              <SelectContent>
+                {vendors.map((vendor) => (
+                  <SelectItem key={vendor.id} value={vendor.id}>{vendor.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRemitting(null)}>Cancel</Button>
+            <Button
+              disabled={!remitVendorId || scheduleRemittance.isPending}
+              onClick={() => remitting && openRun && pin.requirePin(() => scheduleRemittance.mutate({ runId: openRun.id, remittance: remitting, vendorId: remitVendorId }))}
+              data-testid="button-confirm-remittance"
+            >
+              {scheduleRemittance.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />} Schedule payout
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {pin.PinDialogs}
+    </GlassCard>
+  );
+}
@@ -0,0 +1,195 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getAuthHeaders, sanitizeErrorMessage } from "@/lib/queryClient";
+import { GlassCard, SectionLabel } from "@/components/ui-extended";
+import { CheckCircle2, Loader2, ShieldAlert, Upload, XCircle } from "lucide-react";
+import type { SanctionsList, SanctionsScreening as Screening } from "@shared/schema";
+
+const SOURCE_LABELS: Record<string, string> = {
+  ofac_sdn: "OFAC SDN",
+  un_consolidated: "UN consolidated",
+};
+
+const SUBJECT_LABELS: Record<string, string> = {
+  vendor: "Vendor",
+  payout_destination: "Payout account",
+  payroll_recipient: "Employee",
+  kyc_submission: "KYC",
+  transfer_recipient: "Transfer recipient",
+};
+
+// The server's error text; sanitizeErrorMessage drops JSON bodies.
+function serverError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    const body = JSON.parse(message.replace(/^\d{3}:\s*/, ""));
+    if (typeof body?.error === "string") return body.error;
+  } catch {
+  }
+  return sanitizeErrorMessage(error);
+}
+
+/**
+ * Watchlists and the review queue for possible sanctions matches. Payouts
+ * to anyone listed here stay on hold until a reviewer clears the match;
+ * confirming it blocks them for good.
+ */
+export function SanctionsScreening() {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [reviewing, setReviewing] = useState<{ screening: Screening; decision: "cleared" | "confirmed_match" } | null>(null);
+  const [note, setNote] = useState("");
+
+  const { data: lists = [] } = useQuery<SanctionsList[]>({ queryKey: ["/api/sanctions/lists"] });
+  const screeningsKey = "/api/sanctions/screenings?status=potential_match";
+  const { data: openMatches = [] } = useQuery<Screening[]>({ queryKey: [screeningsKey] });
+  const activeLists = lists.filter((l) => l.status === "active");
+
+  // OFAC publishes aliases separately; pick ALT.CSV together with SDN.CSV.
+  const importList = async (files: FileList) => {
+    const chosen = Array.from(files);
+    const aliases = chosen.find((f) => /^alt/i.test(f.name));
+    const list = chosen.find((f) => f !== aliases) ?? aliases;
+    if (!list) return;
+    const formData = new FormData();
+    formData.append("list", list);
+    if (aliases && aliases !== list) formData.append("aliases", aliases);
+    setIsUploading(true);
+    try {
+      const response = await fetch("/api/sanctions/lists", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+        body: formData,
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Import failed");
+      }
+      toast({
+        title: `${SOURCE_LABELS[result.source] ?? result.source} list imported`,
+        description: `${result.entryCount} entries. Payees are screened against it before their next payout.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/sanctions/lists"] });
+    } catch (error: any) {
+      toast({ title: "List import failed", description: sanitizeErrorMessage(error), variant: "destructive" });
+    } finally {
+      setIsUploading(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const review = useMutation({
+    mutationFn: async ({ id, decision, note }: { id: string; decision: string; note: string }) =>
+      (await apiRequest("POST", `/api/sanctions/screenings/${id}/review`, { decision, note })).json(),
+    onSuccess: (reviewed: Screening) => {
+      queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("/api/sanctions/screenings") });
+      setReviewing(null);
+      setNote("");
+      toast({
+        title: reviewed.status === "cleared" ? "Match cleared" : "Match confirmed",
+        description: reviewed.status === "cleared"
+          ? `Payments to ${reviewed.screenedName} can go ahead.`
+          : `Payments to ${reviewed.screenedName} stay blocked.`,
+      });
+    },
+    onError: (error) => toast({ title: "Could not record the review", description: serverError(error), variant: "destructive" }),
+  });
+
+  return (
+    <GlassCard className="p-6">
+      <div className="flex items-center justify-between gap-2 flex-wrap mb-4">
+        <SectionLabel icon={ShieldAlert}>Sanctions Screening</SectionLabel>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.xml,.txt"
+          multiple
+          className="hidden"
+          onChange={(e) => e.target.files && importList(e.target.files)}
+          data-testid="input-sanctions-list"
+        />
+        <Button size="sm" variant="outline" onClick={() => fileInput.current?.click()} disabled={isUploading} data-testid="button-import-sanctions-list">
+          {isUploading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Upload className="h-4 w-4 mr-2" />}
+          Import list
+        </Button>
+      </div>
+
+      <p className="text-xs text-muted-foreground mb-3">
+        {activeLists.length === 0
+          ? "No watchlist imported. Import the OFAC SDN.CSV (with ALT.CSV) or the UN consolidated list XML to screen vendors, employees and payout accounts."
+          : activeLists.map((l) => `${SOURCE_LABELS[l.source] ?? l.source}${l.companyId ? "" : " (platform)"}: ${l.entryCount} entries, imported ${new Date(l.importedAt).toLocaleDateString()}`).join(" · ")}
+      </p>
+
+      {openMatches.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No possible matches waiting for review.</p>
+      ) : (
+        <div className="space-y-2">
+          {openMatches.map((screening) => {
+            const top = screening.matches[0];
+            return (
+              <div key={screening.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 rounded-lg border text-sm" data-testid={`sanctions-match-${screening.id}`}>
+                <div>
+                  <p className="font-medium">
+                    {screening.screenedName}
+                    <Badge variant="outline" className="ml-2">{SUBJECT_LABELS[screening.subjectType] ?? screening.subjectType}</Badge>
+                  </p>
+                  {top && (
+                    <p className="text-xs text-amber-600">
+                      Looks like {top.matchedName} ({SOURCE_LABELS[top.source] ?? top.source} {top.externalId}) · {Math.round(top.score * 100)}% similar
+                      {screening.matches.length > 1 ? ` · ${screening.matches.length - 1} more` : ""}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground">Screened {new Date(screening.screenedAt).toLocaleString()} · payouts on hold</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button size="sm" onClick={() => setReviewing({ screening, decision: "cleared" })} data-testid={`button-clear-match-${screening.id}`}>
+                    <CheckCircle2 className="h-4 w-4 mr-1" /> Not a match
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setReviewing({ screening, decision: "confirmed_match" })} data-testid={`button-confirm-match-${screening.id}`}>
+                    <XCircle className="h-4 w-4 mr-1" /> Confirm
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{reviewing?.decision === "cleared" ? "Clear possible match" : "Confirm sanctions match"}</DialogTitle>
+            <DialogDescription>
+              {reviewing?.decision === "cleared"
+                ? `Payments to ${reviewing.screening.screenedName} are released. Your note is kept with the screening for audit.`
+                : `Payments to ${reviewing?.screening.screenedName} stay blocked. Your note is kept with the screening for audit.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label>Reason</Label>
+            <Textarea value={note} onChange={(e) => setNote(e.target.value)} placeholder="e.g. Date of birth and nationality differ from the listed person" data-testid="input-sanctions-review-note" />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)}>Cancel</Button>
+            <Button
+              variant={reviewing?.decision === "cleared" ? "default" : "destructive"}
+              disabled={!note.trim() || review.isPending}
+              onClick={() => reviewing && review.mutate({ id: reviewing.screening.id, decision: reviewing.decision, note: note.trim() })}
+              data-testid="button-submit-sanctions-review"
+            >
+              {review.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              {reviewing?.decision === "cleared" ? "Clear" : "Confirm match"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </GlassCard>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, sanitizeErrorMessage } from "@/lib/queryClient";
+import { GlassCard, SectionLabel } from "@/components/ui-extended";
+import { CheckCircle2, Loader2, Radar, XCircle } from "lucide-react";
+import type { MonitoringAlert } from "@shared/schema";
+
+interface MonitoringRule {
+  key: string;
+  name: string;
+  description: string;
+  enabled: boolean;
+  severity: string;
+  action: string;
+  actions: string[];
+  params: Record<string, number>;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  alert: "Alert only",
+  hold_payout: "Alert and hold payment",
+  freeze_card: "Alert and freeze card",
+};
+
+const SEVERITY_CLASSES: Record<string, string> = {
+  low: "text-muted-foreground",
+  medium: "text-amber-600",
+  high: "text-orange-600",
+  critical: "text-red-600",
+};
+
+const TAKEN_LABELS: Record<string, string> = {
+  payout_held: "payment on hold",
+  card_frozen: "card frozen",
+};
+
+// The server's error text; sanitizeErrorMessage drops JSON bodies.
+function serverError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    const body = JSON.parse(message.replace(/^\d{3}:\s*/, ""));
+    if (typeof body?.error === "string") return body.error;
+  } catch {
+  }
+  return sanitizeErrorMessage(error);
+}
+
+/**
+ * Fraud rules over payouts, transfers, cards and sign-ins, and the queue
+ * of alerts they raise. A payment held by an alert goes ahead once the
+ * alert is dismissed; a frozen card has to be unfrozen on the cards page.
+ */
+export function TransactionMonitoring() {
+  const { toast } = useToast();
+  const [reviewing, setReviewing] = useState<{ alert: MonitoringAlert; decision: "dismissed" | "confirmed" } | null>(null);
+  const [note, setNote] = useState("");
+
+  const { data: rules = [] } = useQuery<MonitoringRule[]>({ queryKey: ["/api/monitoring/rules"] });
+  const alertsKey = "/api/monitoring/alerts?status=open";
+  const { data: openAlerts = [] } = useQuery<MonitoringAlert[]>({ queryKey: [alertsKey] });
+
+  const updateRule = useMutation({
+    mutationFn: async ({ key, ...update }: { key: string; enabled?: boolean; action?: string }) =>
+      (await apiRequest("PUT", `/api/monitoring/rules/${key}`, update)).json(),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/monitoring/rules"] }),
+    onError: (error) => toast({ title: "Could not update the rule", description: serverError(error), variant: "destructive" }),
+  });
+
+  const review = useMutation({
+    mutationFn: async ({ id, decision, note }: { id: string; decision: string; note: string }) =>
+      (await apiRequest("POST", `/api/monitoring/alerts/${id}/review`, { decision, note })).json(),
+    onSuccess: (reviewed: MonitoringAlert) => {
+      queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("/api/monitoring/alerts") });
+      setReviewing(null);
+      setNote("");
+      toast({
+        title: reviewed.status === "dismissed" ? "Alert dismissed" : "Alert confirmed",
+        description: reviewed.actionTaken === "payout_held"
+          ? reviewed.status === "dismissed" ? "The held payment can go ahead." : "The held payment stays blocked."
+          : undefined,
+      });
+    },
+    onError: (error) => toast({ title: "Could not record the review", description: serverError(error), variant: "destructive" }),
+  });
+
+  return (
+    <GlassCard className="p-6">
+      <SectionLabel icon={Radar}>Transaction Monitoring</SectionLabel>
+
+      <div className="space-y-3 mt-4 mb-6">
+        {rules.map((rule) => (
+          <div key={rule.key} className="flex flex-col md:flex-row md:items-center justify-between gap-3" data-testid={`monitoring-rule-${rule.key}`}>
+            <div className="flex items-start gap-3">
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => updateRule.mutate({ key: rule.key, enabled })}
+                data-testid={`switch-monitoring-rule-${rule.key}`}
+              />
+              <div>
+                <p className="text-sm font-medium">
+                  {rule.name}
+                  <span className={`ml-2 text-xs capitalize ${SEVERITY_CLASSES[rule.severity] ?? ""}`}>{rule.severity}</span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {Object.entries(rule.params).map(([name, value]) => `${name} ${value}`).join(" · ")}
+                </p>
+              </div>
+            </div>
+            <Select
+              value={rule.action}
+              onValueChange={(action) => updateRule.mutate({ key: rule.key, action })}
+              disabled={!rule.enabled}
+            >
+              <SelectTrigger className="w-full md:w-56" data-testid={`select-monitoring-action-${rule.key}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {rule.actions.map((action) => (
+                  <SelectItem key={action} value={action}>{ACTION_LABELS[action] ?? action}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      {openAlerts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No open alerts.</p>
+      ) : (
+        <div className="space-y-2">
+          {openAlerts.map((alert) => (
+            <div key={alert.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 rounded-lg border text-sm" data-testid={`monitoring-alert-${alert.id}`}>
+              <div>
+                <p className="font-medium">
+                  {alert.summary}
+                  <Badge variant="outline" className={`ml-2 capitalize ${SEVERITY_CLASSES[alert.severity] ?? ""}`}>{alert.severity}</Badge>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {rules.find((r) => r.key === alert.ruleKey)?.name ?? alert.ruleKey} · {new Date(alert.createdAt).toLocaleString()}
+                  {alert.actionTaken ? ` · ${TAKEN_LABELS[alert.actionTaken] ?? alert.actionTaken}` : ""}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button size="sm" onClick={() => setReviewing({ alert, decision: "dismissed" })} data-testid={`button-dismiss-alert-${alert.id}`}>
+                  <CheckCircle2 className="h-4 w-4 mr-1" /> Dismiss
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setReviewing({ alert, decision: "confirmed" })} data-testid={`button-confirm-alert-${alert.id}`}>
+                  <XCircle className="h-4 w-4 mr-1" /> Confirm fraud
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{reviewing?.decision === "dismissed" ? "Dismiss alert" : "Confirm fraud"}</DialogTitle>
+            <DialogDescription>
+              {reviewing?.decision === "dismissed"
+                ? "Any payment this alert is holding is released. Your note is kept with the alert for audit."
+                : "Any payment this alert is holding stays blocked. Your note is kept with the alert for audit."}
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label>Reason</Label>
+            <Textarea value={note} onChange={(e) => setNote(e.target.value)} placeholder="e.g. Vendor confirmed the new account by phone" data-testid="input-monitoring-review-note" />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)}>Cancel</Button>
+            <Button
+              variant={reviewing?.decision === "dismissed" ? "default" : "destructive"}
+              disabled={!note.trim() || review.isPending}
+              onClick={() => reviewing && review.mutate({ id: reviewing.alert.id, decision: reviewing.decision, note: note.trim() })}
+              data-testid="button-submit-monitoring-review"
+            >
+              {review.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              {reviewing?.decision === "dismissed" ? "Dismiss" : "Confirm fraud"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </GlassCard>
+  );
+}
@@ -0,0 +1,355 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, pinProtectedRequest, queryClient, sanitizeErrorMessage } from "@/lib/queryClient";
+import { usePinVerification } from "@/components/pin-verification-dialog";
+import { GlassCard, SectionLabel, StatusBadge } from "@/components/ui-extended";
+import { CheckCircle2, Copy, History, Loader2, Plus, RefreshCw, RotateCcw, Trash2, Webhook, XCircle } from "lucide-react";
+
+// GET /api/webhook-endpoints: the secret arrives masked except straight
+// after create and rotate.
+interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  secret: string;
+  previousSecretExpiresAt: string | null;
+  status: "active" | "disabled";
+  createdAt: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  eventType: string;
+  payload: string;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  replayOf: string | null;
+  createdAt: string;
+}
+
+const DELIVERY_BADGE: Record<WebhookDelivery["status"], { status: string; label: string }> = {
+  succeeded: { status: "success", label: "Delivered" },
+  pending: { status: "pending", label: "Retrying" },
+  failed: { status: "failed", label: "Failed" },
+};
+
+// The server's error text; sanitizeErrorMessage drops JSON bodies.
+function serverError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    const body = JSON.parse(message.replace(/^\d{3}:\s*/, ""));
+    if (typeof body?.error === "string") return body.error;
+    if (Array.isArray(body?.details) && typeof body.details[0]?.message === "string") return body.details[0].message;
+  } catch {
+  }
+  return sanitizeErrorMessage(error);
+}
+
+/**
+ * The company's outbound webhook endpoints: which events each receives,
+ * its signing secret and the log of deliveries, with replay.
+ */
+export function WebhookEndpoints() {
+  const { toast } = useToast();
+  const pin = usePinVerification();
+  const [creating, setCreating] = useState(false);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<string[]>([]);
+  const [revealed, setRevealed] = useState<{ endpointId: string; secret: string } | null>(null);
+  const [viewing, setViewing] = useState<WebhookEndpoint | null>(null);
+
+  const { data: endpoints = [], isLoading } = useQuery<WebhookEndpoint[]>({ queryKey: ["/api/webhook-endpoints"] });
+  const { data: eventTypes = [] } = useQuery<{ type: string; description: string }[]>({ queryKey: ["/api/webhook-endpoints/events"] });
+  const { data: deliveries = [], isFetching: loadingDeliveries, refetch: refetchDeliveries } = useQuery<WebhookDelivery[]>({
+    queryKey: [`/api/webhook-endpoints/${viewing?.id}/deliveries`],
+    enabled: !!viewing,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/webhook-endpoints"] });
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({ title: "Copied", description: "Signing secret copied to clipboard." });
+  };
+
+  const create = useMutation({
+    mutationFn: async () =>
+      (await apiRequest("POST", "/api/webhook-endpoints", { url: url.trim(), description: description.trim() || undefined, events })).json(),
+    onSuccess: (endpoint: WebhookEndpoint) => {
+      refresh();
+      setCreating(false);
+      setUrl("");
+      setDescription("");
+      setEvents([]);
+      setRevealed({ endpointId: endpoint.id, secret: endpoint.secret });
+      toast({ title: "Endpoint added", description: "Copy the signing secret now. It won't be shown again." });
+    },
+    onError: (error) => toast({ title: "Could not add the endpoint", description: serverError(error), variant: "destructive" }),
+  });
+
+  const update = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: WebhookEndpoint["status"] }) =>
+      (await apiRequest("PATCH", `/api/webhook-endpoints/${id}`, { status })).json(),
+    onSuccess: refresh,
+    onError: (error) => toast({ title: "Could not update the endpoint", description: serverError(error), variant: "destructive" }),
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/webhook-endpoints/${id}`),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Endpoint deleted" });
+    },
+    onError: (error) => toast({ title: "Could not delete the endpoint", description: serverError(error), variant: "destructive" }),
+  });
+
+  const rotate = useMutation({
+    mutationFn: async (id: string) => (await pinProtectedRequest("POST", `/api/webhook-endpoints/${id}/rotate-secret`, {})).json(),
+    onSuccess: (endpoint: WebhookEndpoint) => {
+      refresh();
+      setRevealed({ endpointId: endpoint.id, secret: endpoint.secret });
+      toast({ title: "Secret rotated", description: "The old secret keeps signing deliveries for 24 hours." });
+    },
+    onError: (error, id) => {
+      if (pin.handlePinError(error, () => rotate.mutate(id))) return;
+      toast({ title: "Could not rotate the secret", description: serverError(error), variant: "destructive" });
+    },
+  });
+
+  const replay = useMutation({
+    mutationFn: async (id: string) => (await apiRequest("POST", `/api/webhook-deliveries/${id}/replay`, {})).json(),
+    onSuccess: (delivery: WebhookDelivery) => {
+      refetchDeliveries();
+      toast({
+        title: delivery.status === "succeeded" ? "Event delivered" : "Replay queued",
+        description: delivery.status === "succeeded" ? undefined : delivery.error || "It will be retried automatically.",
+      });
+    },
+    onError: (error) => toast({ title: "Could not replay the event", description: serverError(error), variant: "destructive" }),
+  });
+
+  const toggleEvent = (type: string, checked: boolean) =>
+    setEvents((current) => (checked ? [...current, type] : current.filter((e) => e !== type)));
+
+  return (
+    <GlassCard>
+      <div className="space-y-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-violet-500/20 to-violet-500/10 flex items-center justify-center">
+            <Webhook className="h-5 w-5 text-violet-600 dark:text-violet-400" />
+          </div>
+          <div className="flex-1">
+            <SectionLabel>Webhooks & Integrations</SectionLabel>
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              Send signed events to your own systems as they happen.
+            </p>
+          </div>
+          <Button onClick={() => setCreating(true)} className="bg-violet-600 hover:bg-violet-700 text-white" data-testid="button-add-webhook-endpoint">
+            <Plus className="h-4 w-4 mr-2" /> Add Endpoint
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center p-6"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+          ) : endpoints.length > 0 ? (
+            endpoints.map((endpoint) => (
+              <div key={endpoint.id} className="p-3 rounded-lg bg-slate-500/10 space-y-2" data-testid={`webhook-endpoint-${endpoint.id}`}>
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium font-mono truncate">{endpoint.url}</p>
+                      <StatusBadge status={endpoint.status === "active" ? "active" : "inactive"} label={endpoint.status === "active" ? "Active" : "Disabled"} />
+                    </div>
+                    <p className="text-xs text-slate-600 dark:text-slate-400 truncate">
+                      {endpoint.description ? `${endpoint.description} · ` : ""}
+                      {endpoint.events.includes("*") ? "All events" : endpoint.events.join(", ")} · Secret {endpoint.secret}
+                      {endpoint.previousSecretExpiresAt && new Date(endpoint.previousSecretExpiresAt) > new Date()
+                        ? ` · old secret valid until ${new Date(endpoint.previousSecretExpiresAt).toLocaleString()}`
+                        : ""}
+                    </p>
+                  </div>
+                  <Switch
+                    checked={endpoint.status === "active"}
+                    onCheckedChange={(checked) => update.mutate({ id: endpoint.id, status: checked ? "active" : "disabled" })}
+                    data-testid={`switch-webhook-endpoint-${endpoint.id}`}
+                  />
+                  <Button variant="outline" size="icon" className="h-9 w-9 shrink-0" onClick={() => setViewing(endpoint)} title="Deliveries" data-testid={`button-webhook-deliveries-${endpoint.id}`}>
+                    <History className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-9 w-9 shrink-0"
+                    disabled={rotate.isPending}
+                    onClick={() => pin.requirePin(() => rotate.mutate(endpoint.id))}
+                    title="Rotate secret"
+                    data-testid={`button-rotate-webhook-secret-${endpoint.id}`}
+                  >
+                    <RefreshCw className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="border-red-500/30 hover:bg-red-500/10 text-red-600 dark:text-red-400 h-9 w-9 shrink-0"
+                    disabled={remove.isPending}
+                    onClick={() => remove.mutate(endpoint.id)}
+                    title="Delete"
+                    data-testid={`button-delete-webhook-endpoint-${endpoint.id}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+
+                {revealed?.endpointId === endpoint.id && (
+                  <div className="p-3 rounded-xl bg-violet-500/10 border border-violet-500/30 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <CheckCircle2 className="h-4 w-4 text-violet-600 dark:text-violet-400" />
+                      <p className="text-sm font-medium text-violet-700 dark:text-violet-300">
+                        Signing secret — copy it now. It won't be shown again.
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Input readOnly value={revealed.secret} className="font-mono text-xs h-10 flex-1" data-testid="input-webhook-signing-secret" />
+                      <Button variant="outline" size="icon" className="h-10 w-10 shrink-0" onClick={() => copy(revealed.secret)} data-testid="button-copy-webhook-signing-secret">
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-10 w-10 shrink-0" onClick={() => setRevealed(null)} data-testid="button-dismiss-webhook-signing-secret">
+                        <XCircle className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))
+          ) : (
+            <div className="p-6 rounded-xl border border-dashed border-slate-500/30 text-center">
+              <Webhook className="h-8 w-8 text-slate-500/40 mx-auto mb-2" />
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                No endpoints yet. Add one to start receiving events.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <p className="text-xs text-slate-600 dark:text-slate-400">
+          Each request carries a <code className="font-mono">Spendly-Signature</code> header: <code className="font-mono">t=&lt;timestamp&gt;,v1=&lt;signature&gt;</code>,
+          an HMAC-SHA256 of <code className="font-mono">&lt;timestamp&gt;.&lt;body&gt;</code> with the endpoint's secret. Failed deliveries are retried with backoff for about four hours.
+        </p>
+      </div>
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add webhook endpoint</DialogTitle>
+            <DialogDescription>Spendly will POST the selected events to this HTTPS URL.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Endpoint URL</Label>
+              <Input value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://example.com/webhooks/spendly" data-testid="input-webhook-endpoint-url" />
+            </div>
+            <div>
+              <Label>Description</Label>
+              <Input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Optional" data-testid="input-webhook-endpoint-description" />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={events.includes("*")} onCheckedChange={(checked) => setEvents(checked ? ["*"] : [])} data-testid="checkbox-webhook-event-all" />
+                All events, including ones added later
+              </label>
+              {!events.includes("*") && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {eventTypes.map((event) => (
+                    <label key={event.type} className="flex items-start gap-2 p-2 rounded-lg bg-slate-500/10 text-sm" title={event.description}>
+                      <Checkbox
+                        checked={events.includes(event.type)}
+                        onCheckedChange={(checked) => toggleEvent(event.type, !!checked)}
+                        data-testid={`checkbox-webhook-event-${event.type}`}
+                      />
+                      <span className="font-mono text-xs">{event.type}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreating(false)}>Cancel</Button>
+            <Button
+              disabled={!url.trim() || events.length === 0 || create.isPending}
+              onClick={() => create.mutate()}
+              data-testid="button-save-webhook-endpoint"
+            >
+              {create.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Add Endpoint
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Deliveries</DialogTitle>
+            <DialogDescription className="font-mono text-xs truncate">{viewing?.url}</DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto space-y-2">
+            {loadingDeliveries && deliveries.length === 0 ? (
+              <div className="flex justify-center p-6"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+            ) : deliveries.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center p-6">No events have been sent to this endpoint yet.</p>
+            ) : (
+              deliveries.map((delivery) => (
+                <div key={delivery.id} className="flex items-center gap-3 p-3 rounded-lg border text-sm" data-testid={`webhook-delivery-${delivery.id}`}>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-xs">{delivery.eventType}</span>
+                      <StatusBadge {...DELIVERY_BADGE[delivery.status]} />
+                      {delivery.replayOf && <span className="text-xs text-muted-foreground">replay</span>}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {new Date(delivery.createdAt).toLocaleString()} · {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}
+                      {delivery.responseStatus !== null ? ` · HTTP ${delivery.responseStatus}` : ""}
+                      {delivery.durationMs !== null ? ` · ${delivery.durationMs} ms` : ""}
+                      {delivery.status !== "succeeded" && delivery.error ? ` · ${delivery.error}` : ""}
+                      {delivery.status === "pending" && delivery.nextAttemptAt ? ` · next try ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}` : ""}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={replay.isPending || viewing?.status !== "active"}
+                    onClick={() => replay.mutate(delivery.id)}
+                    data-testid={`button-replay-webhook-delivery-${delivery.id}`}
+                  >
+                    <RotateCcw className="h-3.5 w-3.5 mr-1" /> Replay
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {pin.PinDialogs}
+    </GlassCard>
+  );
+}
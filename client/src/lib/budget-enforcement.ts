@@ -0,0 +1,43 @@
+import { formatCurrencyAmount } from "@/lib/constants";
+
+// A spend refused by a hard budget (409 BUDGET_EXCEEDED,
+// BUDGET_OVERRIDE_PENDING or BUDGET_OVERRIDE_INVALID).
+export interface BudgetRejection {
+  code: "BUDGET_EXCEEDED" | "BUDGET_OVERRIDE_PENDING" | "BUDGET_OVERRIDE_INVALID";
+  error: string;
+  budget: { id: string; name: string; category: string; limit: number; spent: number; remaining: number };
+  amount: number;
+  currency: string;
+  shortfall: number;
+  canOverride: { userId: string; name: string; role: string }[];
+  overrideRequest?: { id: string; status: string };
+}
+
+const BUDGET_CODES = ["BUDGET_EXCEEDED", "BUDGET_OVERRIDE_PENDING", "BUDGET_OVERRIDE_INVALID"];
+
+export function budgetRejectionFrom(error: unknown): BudgetRejection | null {
+  const message = error instanceof Error ? error.message : String(error);
+  if (!message.startsWith("409: ")) return null;
+  try {
+    const body = JSON.parse(message.slice(5));
+    return BUDGET_CODES.includes(body.code) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Toast text for a budget rejection: what is left and who can override. */
+export function describeBudgetRejection(rejection: BudgetRejection): { title: string; description: string } {
+  const remaining = formatCurrencyAmount(rejection.budget.remaining, rejection.currency);
+  const who = rejection.canOverride.map((o) => o.name).join(", ") || "an owner or admin";
+  if (rejection.code === "BUDGET_OVERRIDE_PENDING") {
+    return {
+      title: "Budget override requested",
+      description: `${rejection.budget.name} has ${remaining} left. ${who} can approve the override; submit again once it is approved.`,
+    };
+  }
+  return {
+    title: `Over the ${rejection.budget.name} budget`,
+    description: `Only ${remaining} is left this period. ${who} can override it.`,
+  };
+}
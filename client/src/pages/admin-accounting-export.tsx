@@ -0,0 +1,393 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getAuthHeaders } from "@/lib/queryClient";
+import { ArrowLeft, BookOpen, Download, Ban, Trash2, Plus, Eye } from "lucide-react";
+import { Link } from "wouter";
+import type { AccountingExport, GlAccountMapping, Vendor } from "@shared/schema";
+
+const FORMATS = [
+  { value: "xero_csv", label: "Xero manual journal (CSV)" },
+  { value: "quickbooks_iif", label: "QuickBooks Desktop (IIF)" },
+  { value: "journal_csv", label: "Generic journal (CSV)" },
+];
+
+const SOURCE_TYPE_LABELS: Record<string, string> = {
+  category: "Category",
+  vendor: "Vendor",
+  department: "Department",
+  control: "Control account",
+};
+
+const CONTROL_LABELS: Record<string, string> = {
+  bank: "Bank",
+  accounts_payable: "Accounts payable",
+  accounts_receivable: "Accounts receivable",
+  reimbursements_payable: "Employee reimbursements payable",
+  sales: "Sales",
+  sales_tax: "Sales tax payable",
+  wages: "Wages & salaries",
+  payroll_liabilities: "Payroll liabilities",
+  uncategorised_expense: "Uncategorised expense",
+};
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+interface MappingsResponse {
+  mappings: GlAccountMapping[];
+  controlAccountDefaults: Record<string, { code: string; name: string }>;
+}
+
+const firstOfMonth = () => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1).toISOString().slice(0, 10);
+};
+
+export default function AdminAccountingExport() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [sourceType, setSourceType] = useState("category");
+  const [sourceKey, setSourceKey] = useState("");
+  const [accountCode, setAccountCode] = useState("");
+  const [accountName, setAccountName] = useState("");
+  const [taxCode, setTaxCode] = useState("");
+
+  const [format, setFormat] = useState("xero_csv");
+  const [startDate, setStartDate] = useState(firstOfMonth());
+  const [endDate, setEndDate] = useState(new Date().toISOString().slice(0, 10));
+  const [preview, setPreview] = useState<{ entryCount: number; bySourceType: Record<string, number> } | null>(null);
+
+  const { data: mappingData, isLoading: mappingsLoading } = useQuery<MappingsResponse>({
+    queryKey: ["/api/accounting/gl-mappings"],
+  });
+  const { data: exports, isLoading: exportsLoading } = useQuery<AccountingExport[]>({
+    queryKey: ["/api/accounting/exports"],
+  });
+  const { data: vendors = [] } = useQuery<Vendor[]>({ queryKey: ["/api/vendors"] });
+  const { data: departments = [] } = useQuery<Department[]>({ queryKey: ["/api/departments"] });
+
+  const mappings = mappingData?.mappings ?? [];
+  const controlDefaults = mappingData?.controlAccountDefaults ?? {};
+
+  const keyLabel = (m: GlAccountMapping) => {
+    if (m.sourceType === "vendor") return vendors.find((v) => v.id === m.sourceKey)?.name ?? m.sourceKey;
+    if (m.sourceType === "department") return departments.find((d) => d.id === m.sourceKey)?.name ?? m.sourceKey;
+    if (m.sourceType === "control") return CONTROL_LABELS[m.sourceKey] ?? m.sourceKey;
+    return m.sourceKey;
+  };
+
+  const saveMapping = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PUT", "/api/accounting/gl-mappings", {
+        sourceType,
+        sourceKey,
+        accountCode,
+        accountName: accountName || null,
+        taxCode: taxCode || null,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Mapping saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounting/gl-mappings"] });
+      setSourceKey("");
+      setAccountCode("");
+      setAccountName("");
+      setTaxCode("");
+    },
+    onError: (error: any) => {
+      toast({ title: "Save Failed", description: error.message || "Failed to save mapping", variant: "destructive" });
+    },
+  });
+
+  const deleteMapping = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/accounting/gl-mappings/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/accounting/gl-mappings"] }),
+    onError: (error: any) => {
+      toast({ title: "Delete Failed", description: error.message || "Failed to delete mapping", variant: "destructive" });
+    },
+  });
+
+  const exportBody = () => ({ format, startDate, endDate });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/accounting/exports/preview", exportBody());
+      return res.json();
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error: any) => {
+      toast({ title: "Preview Failed", description: error.message || "Failed to preview export", variant: "destructive" });
+    },
+  });
+
+  const downloadExport = async (exp: Pick<AccountingExport, "id" | "fileName">) => {
+    try {
+      const authHeaders = await getAuthHeaders();
+      const response = await fetch(`/api/accounting/exports/${exp.id}/download`, { headers: authHeaders, credentials: "include" });
+      if (!response.ok) throw new Error("Download failed");
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = exp.fileName;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch {
+      toast({ title: "Download Failed", description: "Failed to download export file", variant: "destructive" });
+    }
+  };
+
+  const createExport = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/accounting/exports", exportBody());
+      return res.json();
+    },
+    onSuccess: (exp: AccountingExport) => {
+      toast({ title: "Export created", description: `${exp.entryCount} journal entries` });
+      setPreview(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/accounting/exports"] });
+      downloadExport(exp);
+    },
+    onError: (error: any) => {
+      toast({ title: "Export Failed", description: error.message || "Failed to create export", variant: "destructive" });
+    },
+  });
+
+  const voidExport = useMutation({
+    mutationFn: async (id: string) => apiRequest("POST", `/api/accounting/exports/${id}/void`, {}),
+    onSuccess: () => {
+      toast({ title: "Export voided", description: "Its items will be included in the next export" });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounting/exports"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Void Failed", description: error.message || "Failed to void export", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="p-6 md:p-8 max-w-7xl mx-auto space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-center gap-4 mb-6">
+        <Link href="/admin">
+          <Button variant="ghost" size="icon" data-testid="button-back">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <div className="flex-1">
+          <h1 className="text-2xl font-black tracking-tight flex items-center gap-3" data-testid="text-title">
+            <BookOpen className="h-7 w-7 text-sky-600" />
+            Accounting Export
+          </h1>
+          <p className="text-muted-foreground text-sm mt-1">
+            Map spend to your chart of accounts and export journals for QuickBooks or Xero. Each item is exported once.
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New export</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2 md:col-span-2">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={setFormat}>
+                <SelectTrigger data-testid="select-export-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FORMATS.map((f) => (
+                    <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Input type="date" value={startDate} onChange={(e) => { setStartDate(e.target.value); setPreview(null); }} data-testid="input-start-date" />
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Input type="date" value={endDate} onChange={(e) => { setEndDate(e.target.value); setPreview(null); }} data-testid="input-end-date" />
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <Button variant="outline" className="gap-2" onClick={() => previewMutation.mutate()} disabled={previewMutation.isPending} data-testid="button-preview-export">
+              <Eye className="h-4 w-4" />
+              Preview
+            </Button>
+            <Button className="gap-2" onClick={() => createExport.mutate()} disabled={createExport.isPending} data-testid="button-create-export">
+              <Download className="h-4 w-4" />
+              Export &amp; download
+            </Button>
+            {preview && (
+              <span className="text-sm text-muted-foreground" data-testid="text-preview">
+                {preview.entryCount === 0
+                  ? "Nothing left to export in this range"
+                  : `${preview.entryCount} entries — ${Object.entries(preview.bySourceType).map(([k, n]) => `${n} ${k.replace("_", " ")}`).join(", ")}`}
+              </span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Export history</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {exportsLoading ? (
+            <Skeleton className="h-20 w-full" />
+          ) : exports && exports.length > 0 ? (
+            <div className="space-y-2">
+              {exports.map((exp) => (
+                <div key={exp.id} className="flex items-center justify-between p-3 rounded-lg border text-sm" data-testid={`export-${exp.id}`}>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{FORMATS.find((f) => f.value === exp.format)?.label ?? exp.format}</Badge>
+                    <span>{exp.startDate} → {exp.endDate}</span>
+                    <span className="text-muted-foreground">{exp.entryCount} entries · {exp.createdByName ?? "—"} · {exp.createdAt.slice(0, 10)}</span>
+                    {exp.status === "voided" && <Badge className="bg-slate-100 text-slate-800">voided</Badge>}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => downloadExport(exp)} data-testid={`button-download-${exp.id}`}>
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    {exp.status !== "voided" && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="gap-2"
+                        onClick={() => voidExport.mutate(exp.id)}
+                        disabled={voidExport.isPending}
+                        data-testid={`button-void-${exp.id}`}
+                      >
+                        <Ban className="h-4 w-4" />
+                        Void
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No exports yet</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Chart of accounts mapping</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Spend is booked to the vendor's account if mapped, otherwise the category's, then the department's, then the uncategorised expense account.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+            <div className="space-y-2">
+              <Label>Map a</Label>
+              <Select value={sourceType} onValueChange={(v) => { setSourceType(v); setSourceKey(""); }}>
+                <SelectTrigger data-testid="select-source-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SOURCE_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>{SOURCE_TYPE_LABELS[sourceType]}</Label>
+              {sourceType === "category" ? (
+                <Input value={sourceKey} onChange={(e) => setSourceKey(e.target.value)} placeholder="Marketing" data-testid="input-source-key" />
+              ) : (
+                <Select value={sourceKey} onValueChange={setSourceKey}>
+                  <SelectTrigger data-testid="select-source-key">
+                    <SelectValue placeholder="Choose…" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sourceType === "vendor" && vendors.map((v) => (
+                      <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>
+                    ))}
+                    {sourceType === "department" && departments.map((d) => (
+                      <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                    ))}
+                    {sourceType === "control" && Object.entries(CONTROL_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}{controlDefaults[value] ? ` (default ${controlDefaults[value].code})` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Account code</Label>
+              <Input value={accountCode} onChange={(e) => setAccountCode(e.target.value)} placeholder="6200" data-testid="input-account-code" />
+            </div>
+            <div className="space-y-2">
+              <Label>Account name</Label>
+              <Input value={accountName} onChange={(e) => setAccountName(e.target.value)} placeholder="Advertising" data-testid="input-account-name" />
+            </div>
+            <div className="space-y-2">
+              <Label>Tax code</Label>
+              <div className="flex gap-2">
+                <Input value={taxCode} onChange={(e) => setTaxCode(e.target.value)} placeholder="Optional" data-testid="input-tax-code" />
+                <Button
+                  size="icon"
+                  onClick={() => saveMapping.mutate()}
+                  disabled={saveMapping.isPending || !sourceKey.trim() || !accountCode.trim()}
+                  data-testid="button-save-mapping"
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {mappingsLoading ? (
+            <Skeleton className="h-20 w-full" />
+          ) : mappings.length > 0 ? (
+            <div className="space-y-2">
+              {mappings.map((m) => (
+                <div key={m.id} className="flex items-center justify-between p-3 rounded-lg border text-sm" data-testid={`mapping-${m.id}`}>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{SOURCE_TYPE_LABELS[m.sourceType] ?? m.sourceType}</Badge>
+                    <span className="font-medium">{keyLabel(m)}</span>
+                    <span className="text-muted-foreground">→ {m.accountCode}{m.accountName ? ` ${m.accountName}` : ""}</span>
+                    {m.taxCode && <Badge variant="outline">tax {m.taxCode}</Badge>}
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => deleteMapping.mutate(m.id)} disabled={deleteMapping.isPending} data-testid={`button-delete-mapping-${m.id}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No mappings yet — everything goes to the default accounts</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
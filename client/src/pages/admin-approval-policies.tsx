@@ -0,0 +1,500 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useCompany } from "@/lib/company-context";
+import { ArrowLeft, GitBranch, Plus, Pencil, Trash2, X } from "lucide-react";
+import { Link } from "wouter";
+import type { ApprovalPolicy, ApprovalApprover, ApprovalPolicyStepDef } from "@shared/schema";
+
+const ENTITY_TYPES = [
+  { value: "expense", label: "Expenses" },
+  { value: "bill", label: "Bills" },
+  { value: "payout", label: "Payouts" },
+  { value: "purchase_order", label: "Purchase orders" },
+];
+
+const ROLES = ["OWNER", "ADMIN", "MANAGER", "EDITOR"];
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+interface CompanyMember {
+  id: string;
+  name: string | null;
+  email: string;
+  role: string;
+}
+
+interface PolicyForm {
+  name: string;
+  entityTypes: string[];
+  priority: string;
+  isActive: boolean;
+  stopOnMatch: boolean;
+  minAmount: string;
+  maxAmount: string;
+  categories: string;
+  departmentIds: string[];
+  vendorIsNew: "any" | "new" | "existing";
+  steps: ApprovalPolicyStepDef[];
+}
+
+const emptyForm: PolicyForm = {
+  name: "",
+  entityTypes: ["expense"],
+  priority: "100",
+  isActive: true,
+  stopOnMatch: false,
+  minAmount: "",
+  maxAmount: "",
+  categories: "",
+  departmentIds: [],
+  vendorIsNew: "any",
+  steps: [{ approver: { type: "role", role: "ADMIN" } }],
+};
+
+function formFromPolicy(policy: ApprovalPolicy): PolicyForm {
+  const c = policy.conditions ?? {};
+  return {
+    name: policy.name,
+    entityTypes: policy.entityTypes,
+    priority: String(policy.priority),
+    isActive: policy.isActive,
+    stopOnMatch: policy.stopOnMatch,
+    minAmount: c.minAmount != null ? String(c.minAmount) : "",
+    maxAmount: c.maxAmount != null ? String(c.maxAmount) : "",
+    categories: (c.categories ?? []).join(", "),
+    departmentIds: c.departmentIds ?? [],
+    vendorIsNew: c.vendorIsNew == null ? "any" : c.vendorIsNew ? "new" : "existing",
+    steps: policy.steps,
+  };
+}
+
+function payloadFromForm(form: PolicyForm) {
+  const categories = form.categories.split(",").map((c) => c.trim()).filter(Boolean);
+  return {
+    name: form.name.trim(),
+    entityTypes: form.entityTypes,
+    priority: parseInt(form.priority, 10) || 0,
+    isActive: form.isActive,
+    stopOnMatch: form.stopOnMatch,
+    conditions: {
+      minAmount: form.minAmount ? parseFloat(form.minAmount) : null,
+      maxAmount: form.maxAmount ? parseFloat(form.maxAmount) : null,
+      categories: categories.length > 0 ? categories : null,
+      departmentIds: form.departmentIds.length > 0 ? form.departmentIds : null,
+      vendorIsNew: form.vendorIsNew === "any" ? null : form.vendorIsNew === "new",
+    },
+    steps: form.steps,
+  };
+}
+
+export default function AdminApprovalPolicies() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { currentCompanyId } = useCompany();
+  const [editing, setEditing] = useState<ApprovalPolicy | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<PolicyForm>(emptyForm);
+
+  const { data: policies, isLoading } = useQuery<ApprovalPolicy[]>({
+    queryKey: ["/api/approval-policies"],
+  });
+  const { data: departments = [] } = useQuery<Department[]>({
+    queryKey: ["/api/departments"],
+  });
+  const { data: members = [] } = useQuery<CompanyMember[]>({
+    queryKey: [`/api/companies/${currentCompanyId}/members`],
+    enabled: !!currentCompanyId,
+  });
+
+  const departmentName = (id?: string | null) => departments.find((d) => d.id === id)?.name;
+  const memberName = (id: string) => {
+    const m = members.find((m) => m.id === id);
+    return m ? m.name || m.email : "Unknown member";
+  };
+
+  const describeApprover = (approver: ApprovalApprover) => {
+    switch (approver.type) {
+      case "department_head":
+        return approver.departmentId ? `${departmentName(approver.departmentId) ?? "Department"} head` : "Submitter's department head";
+      case "role":
+        return `Any ${approver.role.toLowerCase()}`;
+      case "member":
+        return memberName(approver.memberId);
+    }
+  };
+
+  const describeConditions = (policy: ApprovalPolicy) => {
+    const c = policy.conditions ?? {};
+    const parts: string[] = [];
+    if (c.minAmount != null) parts.push(`amount ≥ ${c.minAmount}`);
+    if (c.maxAmount != null) parts.push(`amount < ${c.maxAmount}`);
+    if (c.categories?.length) parts.push(`category in ${c.categories.join(", ")}`);
+    if (c.departmentIds?.length) parts.push(`department in ${c.departmentIds.map((id) => departmentName(id) ?? id).join(", ")}`);
+    if (c.vendorIsNew != null) parts.push(c.vendorIsNew ? "vendor is new" : "vendor has been paid before");
+    return parts.length > 0 ? parts.join(" · ") : "Always";
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = payloadFromForm(form);
+      return editing
+        ? apiRequest("PATCH", `/api/approval-policies/${editing.id}`, body)
+        : apiRequest("POST", "/api/approval-policies", body);
+    },
+    onSuccess: () => {
+      toast({ title: editing ? "Policy updated" : "Policy created" });
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-policies"] });
+      setDialogOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save approval policy",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/approval-policies/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Policy deleted" });
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-policies"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Failed to delete approval policy",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (policy: ApprovalPolicy) => {
+    setEditing(policy);
+    setForm(formFromPolicy(policy));
+    setDialogOpen(true);
+  };
+
+  const toggleIn = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  const setStep = (index: number, approver: ApprovalApprover) =>
+    setForm({ ...form, steps: form.steps.map((s, i) => (i === index ? { ...s, approver } : s)) });
+
+  const approverKey = (approver: ApprovalApprover) => {
+    if (approver.type === "department_head") return `dept:${approver.departmentId ?? ""}`;
+    if (approver.type === "role") return `role:${approver.role}`;
+    return `member:${approver.memberId}`;
+  };
+
+  const approverFromKey = (key: string): ApprovalApprover => {
+    const [kind, value] = [key.slice(0, key.indexOf(":")), key.slice(key.indexOf(":") + 1)];
+    if (kind === "dept") return { type: "department_head", departmentId: value || null };
+    if (kind === "role") return { type: "role", role: value };
+    return { type: "member", memberId: value };
+  };
+
+  return (
+    <div className="p-6 md:p-8 max-w-7xl mx-auto space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-center gap-4 mb-6">
+        <Link href="/admin">
+          <Button variant="ghost" size="icon" data-testid="button-back">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <div className="flex-1">
+          <h1 className="text-2xl font-black tracking-tight flex items-center gap-3" data-testid="text-title">
+            <GitBranch className="h-7 w-7 text-indigo-600" />
+            Approval Policies
+          </h1>
+          <p className="text-muted-foreground text-sm mt-1">
+            Who must approve expenses, bills, payouts and purchase orders, and in what order. Every matching policy adds its steps, lowest priority number first.
+          </p>
+        </div>
+        <Button onClick={openCreate} className="gap-2" data-testid="button-new-policy">
+          <Plus className="h-4 w-4" />
+          New policy
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Policies</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {[1, 2].map((i) => (
+                <Skeleton key={i} className="h-20 w-full" />
+              ))}
+            </div>
+          ) : policies && policies.length > 0 ? (
+            <div className="space-y-4">
+              {policies.map((policy) => (
+                <div
+                  key={policy.id}
+                  className="flex items-start justify-between p-4 rounded-lg border bg-card hover:bg-muted/50 transition-colors"
+                  data-testid={`policy-${policy.id}`}
+                >
+                  <div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{policy.name}</span>
+                      <Badge variant="outline">#{policy.priority}</Badge>
+                      {policy.entityTypes.map((t) => (
+                        <Badge key={t} variant="outline">{t}</Badge>
+                      ))}
+                      {!policy.isActive && <Badge className="bg-slate-100 text-slate-800">inactive</Badge>}
+                      {policy.stopOnMatch && <Badge className="bg-amber-100 text-amber-800">stops here</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">When: {describeConditions(policy)}</p>
+                    <p className="text-sm mt-1">
+                      {policy.steps.map((s) => s.label || describeApprover(s.approver)).join(" → ")}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => openEdit(policy)} data-testid={`button-edit-${policy.id}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(policy.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-${policy.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              <GitBranch className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No approval policies</p>
+              <p className="text-sm mt-1">Admins approve everything, and payouts above the dual-approval threshold need two</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit policy" : "New approval policy"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2 space-y-2">
+                <Label>Name</Label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Large marketing spend"
+                  data-testid="input-policy-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Input
+                  type="number"
+                  value={form.priority}
+                  onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                  data-testid="input-policy-priority"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Applies to</Label>
+              <div className="flex gap-4">
+                {ENTITY_TYPES.map((t) => (
+                  <label key={t.value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.entityTypes.includes(t.value)}
+                      onCheckedChange={() => setForm({ ...form, entityTypes: toggleIn(form.entityTypes, t.value) })}
+                    />
+                    {t.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Amount from (inclusive)</Label>
+                <Input
+                  type="number"
+                  value={form.minAmount}
+                  onChange={(e) => setForm({ ...form, minAmount: e.target.value })}
+                  data-testid="input-min-amount"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Amount below</Label>
+                <Input
+                  type="number"
+                  value={form.maxAmount}
+                  onChange={(e) => setForm({ ...form, maxAmount: e.target.value })}
+                  data-testid="input-max-amount"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Categories (comma separated, empty for any)</Label>
+              <Input
+                value={form.categories}
+                onChange={(e) => setForm({ ...form, categories: e.target.value })}
+                placeholder="Marketing, Travel"
+                data-testid="input-categories"
+              />
+            </div>
+
+            {departments.length > 0 && (
+              <div className="space-y-2">
+                <Label>Departments (none for any)</Label>
+                <div className="flex flex-wrap gap-4">
+                  {departments.map((d) => (
+                    <label key={d.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.departmentIds.includes(d.id)}
+                        onCheckedChange={() => setForm({ ...form, departmentIds: toggleIn(form.departmentIds, d.id) })}
+                      />
+                      {d.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Vendor</Label>
+                <Select value={form.vendorIsNew} onValueChange={(v) => setForm({ ...form, vendorIsNew: v as PolicyForm["vendorIsNew"] })}>
+                  <SelectTrigger data-testid="select-vendor-new">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any vendor</SelectItem>
+                    <SelectItem value="new">Never paid before</SelectItem>
+                    <SelectItem value="existing">Paid before</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-3 pt-7">
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={form.isActive} onCheckedChange={(v) => setForm({ ...form, isActive: v })} />
+                  Active
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={form.stopOnMatch} onCheckedChange={(v) => setForm({ ...form, stopOnMatch: v })} />
+                  Ignore later policies when this one matches
+                </label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Approvers, in order</Label>
+              {form.steps.map((step, index) => (
+                <div key={index} className="flex items-center gap-2" data-testid={`step-${index}`}>
+                  <span className="text-sm text-muted-foreground w-6">{index + 1}.</span>
+                  <Select value={approverKey(step.approver)} onValueChange={(key) => setStep(index, approverFromKey(key))}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="dept:">Submitter's department head</SelectItem>
+                      {departments.map((d) => (
+                        <SelectItem key={d.id} value={`dept:${d.id}`}>{d.name} head</SelectItem>
+                      ))}
+                      {ROLES.map((r) => (
+                        <SelectItem key={r} value={`role:${r}`}>Any {r.toLowerCase()}</SelectItem>
+                      ))}
+                      {members.map((m) => (
+                        <SelectItem key={m.id} value={`member:${m.id}`}>{m.name || m.email}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    className="w-40"
+                    value={step.label ?? ""}
+                    onChange={(e) => setForm({
+                      ...form,
+                      steps: form.steps.map((s, i) => (i === index ? { ...s, label: e.target.value || null } : s)),
+                    })}
+                    placeholder="Label (optional)"
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    disabled={form.steps.length === 1}
+                    onClick={() => setForm({ ...form, steps: form.steps.filter((_, i) => i !== index) })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-2"
+                onClick={() => setForm({ ...form, steps: [...form.steps, { approver: { type: "role", role: "ADMIN" } }] })}
+                data-testid="button-add-step"
+              >
+                <Plus className="h-4 w-4" />
+                Add step
+              </Button>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !form.name.trim() || form.entityTypes.length === 0}
+              data-testid="button-save-policy"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
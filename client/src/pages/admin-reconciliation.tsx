@@ -0,0 +1,328 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Scale,
+  ArrowLeft,
+  CheckCircle,
+  EyeOff,
+  RotateCcw,
+  RefreshCw,
+  Play,
+  AlertTriangle,
+} from "lucide-react";
+import { Link } from "wouter";
+import type { ReconciliationException, ReconciliationRun } from "@shared/schema";
+
+const KIND_LABELS: Record<string, string> = {
+  missing_locally: "Missing locally",
+  missing_at_provider: "Missing at provider",
+  amount_mismatch: "Amount mismatch",
+  currency_mismatch: "Currency mismatch",
+  status_mismatch: "Status mismatch",
+};
+
+export default function AdminReconciliation() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState("open");
+  const [provider, setProvider] = useState("all");
+
+  const params = new URLSearchParams({ status });
+  if (provider !== "all") params.set("provider", provider);
+  const exceptionsKey = `/api/admin/reconciliation/exceptions?${params.toString()}`;
+
+  const { data, isLoading } = useQuery<{ exceptions: ReconciliationException[]; isOperator: boolean }>({
+    queryKey: [exceptionsKey],
+  });
+  const exceptions = data?.exceptions ?? [];
+  const isOperator = data?.isOperator ?? false;
+
+  const { data: runs, isLoading: runsLoading } = useQuery<ReconciliationRun[]>({
+    queryKey: ["/api/admin/reconciliation/runs"],
+    enabled: isOperator,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({
+      predicate: (q) => String(q.queryKey[0]).startsWith("/api/admin/reconciliation"),
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: string }) => {
+      return apiRequest("PATCH", `/api/admin/reconciliation/exceptions/${id}`, { status });
+    },
+    onSuccess: () => {
+      toast({ title: "Exception updated" });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update exception",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/admin/reconciliation/run", {});
+    },
+    onSuccess: () => {
+      toast({ title: "Reconciliation complete", description: "Yesterday's window has been re-checked" });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Run Failed",
+        description: error.message || "Failed to run reconciliation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatAmount = (amount: string | null, currency: string | null) => {
+    if (amount == null) return "—";
+    try {
+      return new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency: currency || "USD",
+      }).format(parseFloat(amount) || 0);
+    } catch {
+      return `${currency ?? ""} ${amount}`;
+    }
+  };
+
+  const getStatusColor = (value: string) => {
+    switch (value) {
+      case "resolved":
+      case "completed":
+        return "bg-emerald-100 text-emerald-800";
+      case "ignored":
+        return "bg-slate-100 text-slate-800";
+      case "failed":
+        return "bg-rose-100 text-rose-800";
+      default:
+        return "bg-amber-100 text-amber-800";
+    }
+  };
+
+  return (
+    <div className="p-6 md:p-8 max-w-7xl mx-auto space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-center gap-4 mb-6">
+        <Link href="/admin">
+          <Button variant="ghost" size="icon" data-testid="button-back">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <div className="flex-1">
+          <h1 className="text-2xl font-black tracking-tight flex items-center gap-3" data-testid="text-title">
+            <Scale className="h-7 w-7 text-violet-600" />
+            Provider Reconciliation
+          </h1>
+          <p className="text-muted-foreground text-sm mt-1">
+            Daily comparison of Stripe and Paystack activity against local payouts and wallet movements
+          </p>
+        </div>
+        {isOperator && (
+          <Button
+            onClick={() => runMutation.mutate()}
+            disabled={runMutation.isPending}
+            className="gap-2"
+            data-testid="button-run-reconciliation"
+          >
+            <Play className="h-4 w-4" />
+            Run now
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <CardTitle>Exceptions</CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="w-36" data-testid="select-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="resolved">Resolved</SelectItem>
+                <SelectItem value="ignored">Ignored</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={provider} onValueChange={setProvider}>
+              <SelectTrigger className="w-36" data-testid="select-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All providers</SelectItem>
+                <SelectItem value="stripe">Stripe</SelectItem>
+                <SelectItem value="paystack">Paystack</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={invalidate} data-testid="button-refresh">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-20 w-full" />
+              ))}
+            </div>
+          ) : exceptions.length > 0 ? (
+            <div className="space-y-4">
+              {exceptions.map((ex) => (
+                <div
+                  key={ex.id}
+                  className="flex items-center justify-between p-4 rounded-lg border bg-card hover:bg-muted/50 transition-colors"
+                  data-testid={`exception-${ex.id}`}
+                >
+                  <div className="flex items-center gap-4">
+                    <div className="p-2 rounded-lg bg-violet-100 dark:bg-violet-900/30">
+                      <AlertTriangle className="h-5 w-5 text-violet-600" />
+                    </div>
+                    <div>
+                      <p className="font-medium font-mono text-sm">
+                        {ex.providerReference || ex.localEntityId}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-2 mt-1">
+                        <Badge variant="outline">{ex.provider}</Badge>
+                        <Badge variant="outline">{ex.objectType}</Badge>
+                        <Badge variant="outline">{KIND_LABELS[ex.kind] ?? ex.kind}</Badge>
+                        <Badge className={getStatusColor(ex.status)}>{ex.status}</Badge>
+                        {ex.occurrences > 1 && (
+                          <span className="text-xs text-muted-foreground">seen {ex.occurrences}×</span>
+                        )}
+                      </div>
+                      {(ex.providerStatus || ex.localStatus) && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Provider: {ex.providerStatus ?? "—"} · Local: {ex.localStatus ?? "—"}
+                          {ex.localEntityType ? ` (${ex.localEntityType} ${ex.localEntityId})` : ""}
+                        </p>
+                      )}
+                      {ex.resolutionNote && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {ex.resolutionNote}
+                          {ex.resolvedBy ? ` — ${ex.resolvedBy}` : ""}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <div className="text-right">
+                      <p className="text-sm">
+                        Provider: <span className="font-bold">{formatAmount(ex.providerAmount, ex.currency)}</span>
+                      </p>
+                      <p className="text-sm">
+                        Local: <span className="font-bold">{formatAmount(ex.localAmount, ex.currency)}</span>
+                      </p>
+                    </div>
+                    {ex.status === "open" ? (
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => updateMutation.mutate({ id: ex.id, status: "resolved" })}
+                          disabled={updateMutation.isPending}
+                          className="gap-2"
+                          data-testid={`button-resolve-${ex.id}`}
+                        >
+                          <CheckCircle className="h-4 w-4" />
+                          Resolve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => updateMutation.mutate({ id: ex.id, status: "ignored" })}
+                          disabled={updateMutation.isPending}
+                          className="gap-2"
+                          data-testid={`button-ignore-${ex.id}`}
+                        >
+                          <EyeOff className="h-4 w-4" />
+                          Ignore
+                        </Button>
+                      </div>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => updateMutation.mutate({ id: ex.id, status: "open" })}
+                        disabled={updateMutation.isPending}
+                        className="gap-2"
+                        data-testid={`button-reopen-${ex.id}`}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                        Reopen
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              <Scale className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No reconciliation exceptions</p>
+              <p className="text-sm mt-1">Provider activity matches the local records</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isOperator && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Runs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {runsLoading ? (
+              <Skeleton className="h-20 w-full" />
+            ) : runs && runs.length > 0 ? (
+              <div className="space-y-2">
+                {runs.map((run) => (
+                  <div
+                    key={run.id}
+                    className="flex items-center justify-between p-3 rounded-lg border text-sm"
+                    data-testid={`run-${run.id}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{run.provider}</Badge>
+                      <span>{run.windowStart.slice(0, 10)}</span>
+                      <Badge className={getStatusColor(run.status)}>{run.status}</Badge>
+                    </div>
+                    <div className="text-muted-foreground">
+                      {run.status === "failed"
+                        ? run.error
+                        : `${run.providerRecordCount} provider / ${run.localRecordCount} local · ${run.matchedCount} matched · ${run.exceptionCount} exceptions`}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No runs yet</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
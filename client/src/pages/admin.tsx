@@ -29,6 +29,9 @@ import {
   ArrowUpDown,
   Banknote,
   Database,
+  Scale,
+  GitBranch,
+  BookOpen,
 } from "lucide-react";
 import type { TeamMember, Expense, AuditLog, CompanySettings } from "@shared/schema";
 
@@ -94,6 +97,30 @@ export default function Admin() {
       color: "text-teal-600",
       bgColor: "bg-teal-100 dark:bg-teal-900/30",
     },
+    {
+      title: "Provider Reconciliation",
+      description: "Review Stripe/Paystack mismatches",
+      icon: Scale,
+      href: "/admin/reconciliation",
+      color: "text-violet-600",
+      bgColor: "bg-violet-100 dark:bg-violet-900/30",
+    },
+    {
+      title: "Approval Policies",
+      description: "Multi-step approvers for expenses, bills and payouts",
+      icon: GitBranch,
+      href: "/admin/approval-policies",
+      color: "text-indigo-600",
+      bgColor: "bg-indigo-100 dark:bg-indigo-900/30",
+    },
+    {
+      title: "Accounting Export",
+      description: "GL mapping and QuickBooks / Xero journals",
+      icon: BookOpen,
+      href: "/admin/accounting-export",
+      color: "text-sky-600",
+      bgColor: "bg-sky-100 dark:bg-sky-900/30",
+    },
     {
       title: "Daily Payout Limits",
       description: "Per-currency override for the daily cap",
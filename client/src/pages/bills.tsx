@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth";
 import { apiRequest, pinProtectedRequest, queryClient, sanitizeErrorMessage } from "@/lib/queryClient";
+import { budgetRejectionFrom, describeBudgetRejection } from "@/lib/budget-enforcement";
 import {
   Dialog,
   DialogContent,
@@ -74,7 +75,7 @@ import {
   Music,
 } from "lucide-react";
 import { motion } from "framer-motion";
-import type { Bill, CompanySettings, Wallet } from "@shared/schema";
+import type { Bill, CompanySettings, Wallet, ThreeWayMatchException } from "@shared/schema";
 import { getCurrencySymbol, formatCurrencyAmount, PAYMENT_LIMITS } from "@/lib/constants";
 import { usePinVerification } from "@/components/pin-verification-dialog";
 import {
@@ -93,6 +94,19 @@ import {
   stagger,
 } from "@/components/ui-extended";
 
+// The exceptions from a pay request refused because the bill does not
+// match its purchase order (409 BILL_MATCH_EXCEPTION), or null.
+function matchExceptionsFrom(error: unknown): ThreeWayMatchException[] | null {
+  const message = error instanceof Error ? error.message : String(error);
+  if (!message.startsWith("409: ")) return null;
+  try {
+    const body = JSON.parse(message.slice(5));
+    return body.code === "BILL_MATCH_EXCEPTION" ? body.exceptions ?? [] : null;
+  } catch {
+    return null;
+  }
+}
+
 // Country-specific utility providers
 const utilityProvidersByRegion = {
   Africa: {
@@ -267,7 +281,9 @@ export default function Bills() {
   const { user } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
   const [confirmPayBill, setConfirmPayBill] = useState<string | null>(null);
-  const lastPayBillIdRef = useRef<string | null>(null);
+  const lastPayRef = useRef<{ id: string; overrideReason?: string } | null>(null);
+  const [matchBlocked, setMatchBlocked] = useState<{ id: string; exceptions: ThreeWayMatchException[] } | null>(null);
+  const [overrideReason, setOverrideReason] = useState("");
   const [editingBill, setEditingBill] = useState<Bill | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [activeTab, setActiveTab] = useState("all");
@@ -375,10 +391,10 @@ export default function Bills() {
   });
 
   const payBillMutation = useMutation({
-    mutationFn: async (id: string) => {
-      lastPayBillIdRef.current = id;
+    mutationFn: async ({ id, overrideReason }: { id: string; overrideReason?: string }) => {
+      lastPayRef.current = { id, overrideReason };
       if (userWallet?.id) {
-        return pinProtectedRequest("POST", `/api/bills/${id}/pay`, { walletId: userWallet.id });
+        return pinProtectedRequest("POST", `/api/bills/${id}/pay`, { walletId: userWallet.id, overrideReason });
       }
       return pinProtectedRequest("PATCH", `/api/bills/${id}`, { status: "paid" });
     },
@@ -390,7 +406,17 @@ export default function Bills() {
       toast({ title: "Bill paid successfully", description: "Payment has been deducted from your wallet." });
     },
     onError: (error: any) => {
-      if (lastPayBillIdRef.current && pin.handlePinError(error, () => payBillMutation.mutate(lastPayBillIdRef.current!))) return;
+      if (lastPayRef.current && pin.handlePinError(error, () => payBillMutation.mutate(lastPayRef.current!))) return;
+      const exceptions = matchExceptionsFrom(error);
+      if (exceptions && lastPayRef.current) {
+        setMatchBlocked({ id: lastPayRef.current.id, exceptions });
+        return;
+      }
+      const rejection = budgetRejectionFrom(error);
+      if (rejection) {
+        toast({ ...describeBudgetRejection(rejection), variant: "destructive" });
+        return;
+      }
       toast({ title: "Failed to pay bill", description: sanitizeErrorMessage(error), variant: "destructive" });
     },
   });
@@ -662,6 +688,7 @@ export default function Bills() {
   const overdueBills = bills?.filter((b) => b.status.toLowerCase() === "overdue").length || 0;
 
   const isAdminOrManager = user?.role === "admin" || user?.role === "manager" || user?.role === "owner";
+  const canOverrideMatch = user?.role === "admin" || user?.role === "owner";
 
   // Approval mutation for admin/manager
   const approveBillMutation = useMutation({
@@ -923,6 +950,20 @@ export default function Bills() {
                                 {getFrequencyLabel(bill.frequency)}
                               </Badge>
                             )}
+                            {bill.purchaseOrderId && bill.matchStatus && (
+                              <Badge
+                                variant="outline"
+                                className={`text-[10px] px-1.5 py-0 hidden sm:inline-flex ${
+                                  bill.matchStatus === "matched" || bill.matchOverrideAt
+                                    ? "border-emerald-300 text-emerald-600 dark:text-emerald-400 dark:border-emerald-700"
+                                    : "border-amber-300 text-amber-600 dark:text-amber-400 dark:border-amber-700"
+                                }`}
+                                title={(bill.matchExceptions ?? []).map((e) => e.message).join("\n") || undefined}
+                                data-testid={`badge-match-${bill.id}`}
+                              >
+                                {bill.matchStatus === "matched" ? "PO matched" : bill.matchOverrideAt ? "PO override" : "PO mismatch"}
+                              </Badge>
+                            )}
                           </div>
                           <div className="flex items-center gap-2 mt-1 flex-wrap">
                             <span className="text-xs text-slate-500 dark:text-slate-400">
@@ -1749,13 +1790,62 @@ export default function Bills() {
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={() => { payBillMutation.mutate(confirmPayBill!); setConfirmPayBill(null); }}>
+            <AlertDialogAction onClick={() => { payBillMutation.mutate({ id: confirmPayBill! }); setConfirmPayBill(null); }}>
               Confirm Payment
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Three-way match exceptions blocking payment */}
+      <Dialog open={!!matchBlocked} onOpenChange={(open) => { if (!open) { setMatchBlocked(null); setOverrideReason(""); } }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-amber-500" />
+              Bill does not match its purchase order
+            </DialogTitle>
+            <DialogDescription>
+              {canOverrideMatch
+                ? "Resolve these differences with the vendor, or pay anyway with a reason for the audit log."
+                : "Resolve these differences with the vendor, or ask an owner or admin to approve the payment."}
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="space-y-1 text-sm list-disc pl-5">
+            {matchBlocked?.exceptions.map((e, i) => (
+              <li key={`${e.code}-${i}`} data-testid={`match-exception-${e.code}`}>{e.message}</li>
+            ))}
+          </ul>
+          {canOverrideMatch && (
+            <Textarea
+              value={overrideReason}
+              onChange={(e) => setOverrideReason(e.target.value)}
+              placeholder="Why is this bill being paid despite the differences?"
+              rows={3}
+              data-testid="input-match-override-reason"
+            />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setMatchBlocked(null); setOverrideReason(""); }}>
+              Close
+            </Button>
+            {canOverrideMatch && (
+              <Button
+                disabled={!overrideReason.trim() || payBillMutation.isPending}
+                onClick={() => {
+                  payBillMutation.mutate({ id: matchBlocked!.id, overrideReason: overrideReason.trim() });
+                  setMatchBlocked(null);
+                  setOverrideReason("");
+                }}
+                data-testid="button-pay-with-override"
+              >
+                Pay Anyway
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!confirmDeleteBill} onOpenChange={(open) => !open && setConfirmDeleteBill(null)}>
         <AlertDialogContent>
@@ -6,7 +6,9 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, pinProtectedRequest, queryClient, sanitizeErrorMessage } from "@/lib/queryClient";
+import { usePinVerification } from "@/components/pin-verification-dialog";
 import { formatCurrencyAmount } from "@/lib/constants";
 import {
   Dialog,
@@ -40,6 +42,10 @@ import {
   Loader2,
   Wallet,
   RefreshCw,
+  History,
+  Lock,
+  ShieldCheck,
+  XCircle,
 } from "lucide-react";
 import {
   PageWrapper,
@@ -52,19 +58,57 @@ import {
   ProgressRing,
   fadeUp,
 } from "@/components/ui-extended";
-import type { Budget, CompanySettings } from "@shared/schema";
+import type { Budget, BudgetOverride, BudgetPeriod, CompanySettings, DepartmentRecord, VirtualCard } from "@shared/schema";
+
+// GET /api/budgets returns each budget with its current period's actuals.
+type LiveBudget = Budget & {
+  periodStart: string;
+  periodEnd: string;
+  effectiveLimit: number;
+  utilization: number;
+};
+
+const NO_SCOPE = "none";
+
+const ENFORCEMENT_LABELS: Record<string, string> = {
+  soft: "Informational only",
+  block: "Block overspend",
+  override: "Require override approval",
+};
+
+const OVERRIDE_ACTION_LABELS: Record<string, string> = {
+  expense: "Expense",
+  card_funding: "Card funding",
+  bill_payment: "Bill payment",
+  vendor_payment: "Vendor payment",
+};
+
+const OVERRIDE_STATUS: Record<string, string> = {
+  pending: "pending",
+  approved: "approved",
+  rejected: "rejected",
+  used: "completed",
+};
+
+const emptyForm = {
+  name: "",
+  category: "Software",
+  limit: "",
+  period: "monthly",
+  rollover: false,
+  departmentId: NO_SCOPE,
+  cardholderId: NO_SCOPE,
+};
 
 export default function BudgetPage() {
   const { toast } = useToast();
+  const { user } = useAuth();
+  const pin = usePinVerification();
+  const isAdmin = user?.role === "admin" || user?.role === "owner";
   const [isOpen, setIsOpen] = useState(false);
   const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
-  const [formData, setFormData] = useState({
-    name: "",
-    category: "Software",
-    limit: "",
-    period: "monthly",
-    rollover: false,
-  });
+  const [historyBudget, setHistoryBudget] = useState<LiveBudget | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
 
   const { data: settings } = useQuery<CompanySettings>({
     queryKey: ["/api/settings"],
@@ -76,13 +120,85 @@ export default function BudgetPage() {
     return formatCurrencyAmount(amount, currency);
   };
 
-  const { data: budgets, isLoading } = useQuery<Budget[]>({
+  const { data: budgets, isLoading } = useQuery<LiveBudget[]>({
     queryKey: ["/api/budgets"],
   });
 
+  const { data: departments = [] } = useQuery<DepartmentRecord[]>({
+    queryKey: ["/api/departments"],
+  });
+
+  const { data: cards = [] } = useQuery<VirtualCard[]>({
+    queryKey: ["/api/cards"],
+  });
+
+  const { data: periodHistory = [], isLoading: historyLoading } = useQuery<BudgetPeriod[]>({
+    queryKey: ["/api/budgets", historyBudget?.id, "periods"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/budgets/${historyBudget!.id}/periods`);
+      return res.json();
+    },
+    enabled: !!historyBudget,
+  });
+
+  const { data: enforcement } = useQuery<{ mode: string }>({
+    queryKey: ["/api/budget-enforcement"],
+  });
+
+  const { data: overrides = [] } = useQuery<BudgetOverride[]>({
+    queryKey: ["/api/budget-overrides"],
+  });
+
+  const enforcementMutation = useMutation({
+    mutationFn: async (mode: string) => {
+      return apiRequest("PUT", "/api/budget-enforcement", { mode });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/budget-enforcement"] });
+      toast({ title: "Budget enforcement updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update enforcement", description: sanitizeErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const decideOverrideMutation = useMutation({
+    mutationFn: async ({ id, approve }: { id: string; approve: boolean }) => {
+      return approve
+        ? pinProtectedRequest("POST", `/api/budget-overrides/${id}/approve`, {})
+        : apiRequest("POST", `/api/budget-overrides/${id}/reject`, {});
+    },
+    onSuccess: (_data, { approve }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/budget-overrides"] });
+      toast({ title: approve ? "Override approved" : "Override rejected" });
+    },
+    onError: (error: Error, vars) => {
+      if (pin.handlePinError(error, () => decideOverrideMutation.mutate(vars))) return;
+      toast({ title: "Failed to decide override", description: sanitizeErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const openOverrides = overrides.filter((o) => o.status === "pending" || o.status === "approved");
+
+  // One entry per cardholder; a cardholder can hold several cards.
+  const cardholders = Array.from(
+    cards.reduce((map, card) => {
+      if (card.stripeCardholderId && !map.has(card.stripeCardholderId)) {
+        map.set(card.stripeCardholderId, card.name);
+      }
+      return map;
+    }, new Map<string, string>()),
+  );
+
+  const toPayload = (data: typeof formData) => ({
+    ...data,
+    departmentId: data.departmentId === NO_SCOPE ? null : data.departmentId,
+    cardholderId: data.cardholderId === NO_SCOPE ? null : data.cardholderId,
+  });
+
   const createMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
-      return apiRequest("POST", "/api/budgets", data);
+      return apiRequest("POST", "/api/budgets", toPayload(data));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
@@ -90,14 +206,14 @@ export default function BudgetPage() {
       setIsOpen(false);
       resetForm();
     },
-    onError: () => {
-      toast({ title: "Failed to create budget", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: "Failed to create budget", description: error.message, variant: "destructive" });
     },
   });
 
   const updateMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: Partial<Budget> }) => {
-      return apiRequest("PATCH", `/api/budgets/${id}`, data);
+    mutationFn: async ({ id, data }: { id: string; data: typeof formData }) => {
+      return apiRequest("PATCH", `/api/budgets/${id}`, toPayload(data));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
@@ -106,8 +222,8 @@ export default function BudgetPage() {
       setEditingBudget(null);
       resetForm();
     },
-    onError: () => {
-      toast({ title: "Failed to update budget", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: "Failed to update budget", description: error.message, variant: "destructive" });
     },
   });
 
@@ -125,7 +241,7 @@ export default function BudgetPage() {
   });
 
   const resetForm = () => {
-    setFormData({ name: "", category: "Software", limit: "", period: "monthly", rollover: false });
+    setFormData(emptyForm);
   };
 
   const openEditDialog = (budget: Budget) => {
@@ -135,7 +251,9 @@ export default function BudgetPage() {
       category: budget.category,
       limit: String(budget.limit),
       period: budget.period,
-      rollover: false,
+      rollover: budget.rollover,
+      departmentId: budget.departmentId || NO_SCOPE,
+      cardholderId: budget.cardholderId || NO_SCOPE,
     });
     setIsOpen(true);
   };
@@ -156,9 +274,26 @@ export default function BudgetPage() {
     }
   };
 
-  const totalBudget = budgets?.reduce((sum, b) => sum + parseFloat(b.limit), 0) || 0;
+  const totalBudget = budgets?.reduce((sum, b) => sum + b.effectiveLimit, 0) || 0;
   const totalSpent = budgets?.reduce((sum, b) => sum + parseFloat(b.spent), 0) || 0;
-  const overBudget = budgets?.filter((b) => parseFloat(b.spent) > parseFloat(b.limit)).length || 0;
+  const overBudget = budgets?.filter((b) => parseFloat(b.spent) > b.effectiveLimit).length || 0;
+
+  const formatPeriod = (start: string, end: string) => {
+    const last = new Date(`${end}T00:00:00Z`);
+    last.setUTCDate(last.getUTCDate() - 1);
+    const fmt = (d: Date) => d.toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+    return `${fmt(new Date(`${start}T00:00:00Z`))} – ${fmt(last)}`;
+  };
+
+  const scopeLabel = (budget: Budget) => {
+    if (budget.departmentId) {
+      return departments.find((d) => d.id === budget.departmentId)?.name || "Department";
+    }
+    if (budget.cardholderId) {
+      return cardholders.find(([id]) => id === budget.cardholderId)?.[1] || "Cardholder";
+    }
+    return null;
+  };
 
   const getCategoryGradient = (category: string) => {
     const gradients: Record<string, string> = {
@@ -263,6 +398,84 @@ export default function BudgetPage() {
         )}
       </motion.div>
 
+      <GlassCard className="mt-6 p-5 space-y-4">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-3">
+            <Lock className="h-4 w-4 text-muted-foreground" />
+            <div>
+              <p className="text-sm font-semibold">Budget enforcement</p>
+              <p className="text-xs text-muted-foreground">
+                Applies to expenses, card funding, bill and vendor payments.
+              </p>
+            </div>
+          </div>
+          {isAdmin ? (
+            <Select
+              value={enforcement?.mode || "soft"}
+              onValueChange={(mode) => enforcementMutation.mutate(mode)}
+              disabled={enforcementMutation.isPending}
+            >
+              <SelectTrigger className="w-60 bg-muted/30 border-border/50 rounded-xl" data-testid="select-budget-enforcement">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ENFORCEMENT_LABELS).map(([mode, label]) => (
+                  <SelectItem key={mode} value={mode}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <StatusBadge status="active" label={ENFORCEMENT_LABELS[enforcement?.mode || "soft"]} />
+          )}
+        </div>
+
+        {openOverrides.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Override requests</p>
+            {openOverrides.map((o) => (
+              <div
+                key={o.id}
+                className="flex items-center justify-between gap-4 rounded-xl bg-muted/30 px-4 py-3"
+                data-testid={`budget-override-${o.id}`}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {OVERRIDE_ACTION_LABELS[o.action] || o.action} of {formatCurrencyAmount(o.amount, o.currency)}
+                    {o.requestedByName && ` by ${o.requestedByName}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {budgets?.find((b) => b.id === o.budgetId)?.name || "Budget"} had {formatCurrencyAmount(o.remaining, o.currency)} left
+                  </p>
+                </div>
+                {isAdmin && o.status === "pending" && o.requestedBy !== user?.id ? (
+                  <div className="flex gap-2 flex-shrink-0">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => decideOverrideMutation.mutate({ id: o.id, approve: false })}
+                      disabled={decideOverrideMutation.isPending}
+                    >
+                      <XCircle className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => pin.requirePin(() => decideOverrideMutation.mutate({ id: o.id, approve: true }))}
+                      disabled={decideOverrideMutation.isPending}
+                    >
+                      <ShieldCheck className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                  </div>
+                ) : (
+                  <StatusBadge status={OVERRIDE_STATUS[o.status] || o.status} label={o.status} className="capitalize" />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </GlassCard>
+
       <motion.div
         className="space-y-4 mt-8"
         variants={containerVariants}
@@ -292,7 +505,9 @@ export default function BudgetPage() {
             animate="visible"
           >
             {budgets.map((budget, index) => {
-              const percentage = (parseFloat(budget.spent) / parseFloat(budget.limit)) * 100;
+              const percentage = budget.utilization;
+              const rolledIn = budget.effectiveLimit - parseFloat(budget.limit);
+              const scope = scopeLabel(budget);
               const isOverBudget = percentage >= 100;
               const isWarning = percentage >= 80 && percentage < 100;
 
@@ -330,7 +545,26 @@ export default function BudgetPage() {
                               className="text-xs font-medium bg-background/50 backdrop-blur capitalize"
                               label={budget.period}
                             />
+                            {scope && (
+                              <StatusBadge
+                                status="active"
+                                variant="secondary"
+                                className="text-xs font-medium bg-background/50 backdrop-blur"
+                                label={scope}
+                              />
+                            )}
+                            {budget.rollover && (
+                              <StatusBadge
+                                status="active"
+                                variant="secondary"
+                                className="text-xs font-medium bg-background/50 backdrop-blur"
+                                label="Rollover"
+                              />
+                            )}
                           </div>
+                          <p className="text-xs text-muted-foreground mt-2" data-testid={`period-${budget.id}`}>
+                            {formatPeriod(budget.periodStart, budget.periodEnd)}
+                          </p>
                         </div>
 
                         <div className="flex items-center gap-2">
@@ -366,6 +600,10 @@ export default function BudgetPage() {
                                 <Pencil className="h-4 w-4 mr-2" />
                                 Edit
                               </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => setHistoryBudget(budget)}>
+                                <History className="h-4 w-4 mr-2" />
+                                Period History
+                              </DropdownMenuItem>
                               <DropdownMenuItem
                                 className="text-rose-600 dark:text-rose-400"
                                 onClick={() => deleteMutation.mutate(budget.id)}
@@ -397,7 +635,8 @@ export default function BudgetPage() {
                                 {formatCurrency(budget.spent)}
                               </p>
                               <p className="text-xs text-muted-foreground">
-                                of {formatCurrency(budget.limit)}
+                                of {formatCurrency(budget.effectiveLimit)}
+                                {rolledIn > 0 && ` (incl. ${formatCurrency(rolledIn)} rolled over)`}
                               </p>
                             </div>
                             {/* Horizontal Progress Bar */}
@@ -415,7 +654,7 @@ export default function BudgetPage() {
                               <div className="flex items-center justify-between text-xs font-semibold">
                                 <span className="text-muted-foreground">{Math.round(percentage)}% used</span>
                                 <span className="text-muted-foreground">
-                                  {formatCurrency(parseFloat(budget.spent))} / {formatCurrency(parseFloat(budget.limit))}
+                                  {formatCurrency(parseFloat(budget.spent))} / {formatCurrency(budget.effectiveLimit)}
                                 </span>
                               </div>
                             </div>
@@ -423,7 +662,7 @@ export default function BudgetPage() {
                               <div className="flex items-center justify-between text-xs font-semibold">
                                 <span className="text-rose-600 dark:text-rose-400">Over budget</span>
                                 <span className="text-rose-600 dark:text-rose-400">
-                                  +{formatCurrency(parseFloat(budget.spent) - parseFloat(budget.limit))}
+                                  +{formatCurrency(parseFloat(budget.spent) - budget.effectiveLimit)}
                                 </span>
                               </div>
                             )}
@@ -516,7 +755,6 @@ export default function BudgetPage() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="weekly">Weekly</SelectItem>
                     <SelectItem value="monthly">Monthly</SelectItem>
                     <SelectItem value="quarterly">Quarterly</SelectItem>
                     <SelectItem value="yearly">Yearly</SelectItem>
@@ -536,6 +774,64 @@ export default function BudgetPage() {
                 className="bg-muted/30 border-border/50 rounded-xl h-11 focus:ring-2 focus:ring-primary/50"
               />
             </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="department">Department</Label>
+                <Select
+                  value={formData.departmentId}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, departmentId: value, cardholderId: value === NO_SCOPE ? formData.cardholderId : NO_SCOPE })
+                  }
+                >
+                  <SelectTrigger
+                    data-testid="select-budget-department"
+                    className="bg-muted/30 border-border/50 rounded-xl h-11"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SCOPE}>All departments</SelectItem>
+                    {departments.map((d) => (
+                      <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cardholder">Cardholder</Label>
+                <Select
+                  value={formData.cardholderId}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, cardholderId: value, departmentId: value === NO_SCOPE ? formData.departmentId : NO_SCOPE })
+                  }
+                >
+                  <SelectTrigger
+                    data-testid="select-budget-cardholder"
+                    className="bg-muted/30 border-border/50 rounded-xl h-11"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SCOPE}>All cardholders</SelectItem>
+                    {cardholders.map(([id, name]) => (
+                      <SelectItem key={id} value={id}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center justify-between rounded-xl bg-muted/30 px-4 py-3">
+              <div>
+                <Label htmlFor="rollover">Roll over unused budget</Label>
+                <p className="text-xs text-muted-foreground">Carry what is left at period end into the next period.</p>
+              </div>
+              <Switch
+                id="rollover"
+                checked={formData.rollover}
+                onCheckedChange={(checked) => setFormData({ ...formData, rollover: checked })}
+                data-testid="switch-budget-rollover"
+              />
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsOpen(false)}>
@@ -555,6 +851,50 @@ export default function BudgetPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!historyBudget} onOpenChange={(open) => !open && setHistoryBudget(null)}>
+        <DialogContent className="max-w-lg backdrop-blur-xl">
+          <DialogHeader>
+            <DialogTitle>Period History</DialogTitle>
+            <DialogDescription>
+              Closed periods for {historyBudget?.name}, most recent first.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2 max-h-96 overflow-y-auto">
+            {historyLoading ? (
+              <Skeleton className="h-16 rounded-xl" />
+            ) : periodHistory.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No closed periods yet.</p>
+            ) : (
+              periodHistory.map((p) => {
+                const limit = parseFloat(p.budgetLimit) + parseFloat(p.rolledIn);
+                const spent = parseFloat(p.spent);
+                return (
+                  <div
+                    key={p.id}
+                    className="flex items-center justify-between rounded-xl bg-muted/30 px-4 py-3"
+                    data-testid={`budget-period-${p.id}`}
+                  >
+                    <div>
+                      <p className="text-sm font-medium">{formatPeriod(p.periodStart, p.periodEnd)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatCurrency(spent)} of {formatCurrency(limit)}
+                        {parseFloat(p.rolledOut) > 0 && ` · ${formatCurrency(p.rolledOut)} rolled over`}
+                      </p>
+                    </div>
+                    <StatusBadge
+                      status={spent > limit ? "failed" : "completed"}
+                      label={spent > limit ? "Over" : "Within"}
+                    />
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {pin.PinDialogs}
     </PageWrapper>
   );
 }
@@ -13,7 +13,10 @@ import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, pinProtectedRequest, queryClient, sanitizeErrorMessage } from "@/lib/queryClient";
+import { budgetRejectionFrom, describeBudgetRejection } from "@/lib/budget-enforcement";
 import { usePinVerification } from "@/components/pin-verification-dialog";
+import { CardPrograms } from "@/components/card-programs";
+import { useAuth } from "@/lib/auth";
 import { getCurrencySymbol, formatCurrencyAmount } from "@/lib/constants";
 import {
   Dialog,
@@ -66,10 +69,20 @@ import {
   ArrowDownRight,
   Clock,
   ShieldCheck,
+  ShieldX,
   Store,
   Globe,
+  Lock,
+  Ticket,
 } from "lucide-react";
-import type { VirtualCard, CompanySettings, CardTransaction } from "@shared/schema";
+import type { VirtualCard, CompanySettings, CardTransaction, CardAuthorization } from "@shared/schema";
+
+function usesLeftLabel(card: VirtualCard): string {
+  if (card.maxUses === null) return "unlimited uses";
+  const left = Math.max(0, card.maxUses - card.useCount);
+  if (left === 0) return "used";
+  return `${left} ${left === 1 ? "use" : "uses"} left`;
+}
 
 const cardGradients: Record<string, string> = {
   indigo: "bg-gradient-to-br from-violet-500 via-violet-600 to-indigo-700",
@@ -209,9 +222,88 @@ function CardTransactionHistory({
   );
 }
 
+function CardAuthorizationHistory({
+  cardId,
+  formatCurrency,
+}: {
+  cardId: string;
+  formatCurrency: (amount: number | string, currency?: string) => string;
+}) {
+  const { data: authorizations, isLoading } = useQuery<CardAuthorization[]>({
+    queryKey: [`/api/cards/${cardId}/authorizations`],
+    enabled: !!cardId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2 py-2">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-12 w-full rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!authorizations || authorizations.length === 0) {
+    return (
+      <div className="text-center py-6 text-xs text-muted-foreground">
+        <ShieldCheck className="h-5 w-5 mx-auto mb-2 opacity-50" />
+        No authorization attempts yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {authorizations.slice(0, 10).map((auth) => (
+        <div
+          key={auth.id}
+          className="flex items-center justify-between gap-2 px-2 py-2 rounded-lg hover:bg-muted/40 transition-colors"
+          data-testid={`authorization-${auth.id}`}
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            <div
+              className={`w-7 h-7 rounded-full flex items-center justify-center flex-shrink-0 ${
+                auth.approved
+                  ? "bg-emerald-100 dark:bg-emerald-950"
+                  : "bg-rose-100 dark:bg-rose-950"
+              }`}
+            >
+              {auth.approved ? (
+                <ShieldCheck className="h-3 w-3 text-emerald-600" />
+              ) : (
+                <ShieldX className="h-3 w-3 text-rose-600" />
+              )}
+            </div>
+            <div className="min-w-0">
+              <p className="text-xs font-medium truncate">
+                {auth.merchantName || "Unknown merchant"}
+              </p>
+              <p className={`text-[10px] truncate ${auth.approved ? "text-muted-foreground" : "text-rose-600"}`}>
+                {auth.approved ? "Approved" : `Declined: ${auth.reason.charAt(0).toLowerCase()}${auth.reason.slice(1)}`}
+              </p>
+            </div>
+          </div>
+          <div className="text-right flex-shrink-0">
+            <p className="text-xs font-bold">{formatCurrency(auth.amount, auth.currency)}</p>
+            <p className="text-[10px] text-muted-foreground">
+              {new Date(auth.createdAt).toLocaleDateString("en-US", {
+                month: "short",
+                day: "numeric",
+              })}
+            </p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export default function Cards() {
   const { toast } = useToast();
   const pin = usePinVerification();
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin" || user?.role === "owner";
   const [showNumbers, setShowNumbers] = useState<Record<string, boolean>>({});
   const [expandedCards, setExpandedCards] = useState<Record<string, boolean>>({});
   const [isOpen, setIsOpen] = useState(false);
@@ -243,6 +335,8 @@ export default function Cards() {
     allowedCategories: [] as string[],
     blockedMerchants: "",
     allowOnlineTransactions: true,
+    kind: "standard",
+    lockedMerchant: "",
   });
   
   const { data: cards, isLoading } = useQuery<VirtualCard[]>({
@@ -333,6 +427,11 @@ export default function Cards() {
     },
     onError: (error: any) => {
       if (pin.handlePinError(error, () => fundCardMutation.mutate({ id: fundingCard!.id, amount: parseFloat(fundAmount) }))) return;
+      const rejection = budgetRejectionFrom(error);
+      if (rejection) {
+        toast({ ...describeBudgetRejection(rejection), variant: "destructive" });
+        return;
+      }
       toast({ title: sanitizeErrorMessage(error) || "Failed to fund card", variant: "destructive" });
     },
   });
@@ -363,6 +462,8 @@ export default function Cards() {
       allowedCategories: [],
       blockedMerchants: "",
       allowOnlineTransactions: true,
+      kind: "standard",
+      lockedMerchant: "",
     });
   };
 
@@ -380,6 +481,8 @@ export default function Cards() {
         ? cardAny.blockedMerchants.join(", ")
         : cardAny.blockedMerchants || "",
       allowOnlineTransactions: cardAny.allowOnlineTransactions !== false,
+      kind: card.kind,
+      lockedMerchant: card.lockedMerchantName || "",
     });
     setIsOpen(true);
   };
@@ -405,6 +508,7 @@ export default function Cards() {
     const payload = {
       ...formData,
       blockedMerchants: blockedMerchantsList,
+      lockedMerchant: formData.kind === "merchant_locked" ? formData.lockedMerchant.trim() || undefined : undefined,
     };
     if (editingCard) {
       updateMutation.mutate({
@@ -737,6 +841,25 @@ export default function Cards() {
                     </div>
                   </motion.div>
 
+                  {card.kind !== "standard" && (
+                    <div className="mt-3 flex flex-wrap items-center gap-2" data-testid={`card-kind-${card.id}`}>
+                      {card.kind === "single_use" && (
+                        <Badge variant="outline" className="gap-1 text-xs">
+                          <Ticket className="h-3 w-3" />
+                          Single-use · {usesLeftLabel(card)}
+                        </Badge>
+                      )}
+                      {card.kind === "merchant_locked" && (
+                        <Badge variant="outline" className="gap-1 text-xs">
+                          <Lock className="h-3 w-3" />
+                          {card.lockedMerchantName
+                            ? `Locked to ${card.lockedMerchantName}`
+                            : "Locks to its first merchant"}
+                        </Badge>
+                      )}
+                    </div>
+                  )}
+
                   {/* Transaction History Toggle */}
                   <div className="mt-3">
                     <Button
@@ -766,6 +889,9 @@ export default function Cards() {
                               <TabsTrigger value="transactions" className="text-xs flex-1">
                                 Transactions
                               </TabsTrigger>
+                              <TabsTrigger value="authorizations" className="text-xs flex-1">
+                                Authorizations
+                              </TabsTrigger>
                               <TabsTrigger value="controls" className="text-xs flex-1">
                                 Controls
                               </TabsTrigger>
@@ -781,6 +907,15 @@ export default function Cards() {
                               </div>
                             </TabsContent>
 
+                            <TabsContent value="authorizations" className="mt-2">
+                              <div className="rounded-xl border border-border/50 p-3 bg-muted/20">
+                                <CardAuthorizationHistory
+                                  cardId={card.id}
+                                  formatCurrency={formatCurrency}
+                                />
+                              </div>
+                            </TabsContent>
+
                             <TabsContent value="controls" className="mt-2">
                               <div className="rounded-xl border border-border/50 p-3 bg-muted/20 space-y-3">
                                 {/* Allowed categories */}
@@ -889,6 +1024,8 @@ export default function Cards() {
         </div>
       </div>
 
+      {isAdmin && <CardPrograms cards={cards ?? []} />}
+
       <Dialog open={isOpen} onOpenChange={setIsOpen}>
         <DialogContent className="sm:max-w-[540px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
@@ -918,6 +1055,43 @@ export default function Cards() {
               />
             </div>
 
+            {!editingCard && (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Card Kind</Label>
+                <Select
+                  value={formData.kind}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, kind: value })
+                  }
+                >
+                  <SelectTrigger className="bg-muted/30 border-border/50 rounded-xl h-11" data-testid="select-card-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="standard">Standing card</SelectItem>
+                    <SelectItem value="single_use">Single-use — cancelled after the first purchase</SelectItem>
+                    <SelectItem value="merchant_locked">Merchant-locked — one merchant only</SelectItem>
+                  </SelectContent>
+                </Select>
+                {formData.kind === "merchant_locked" && (
+                  <>
+                    <Input
+                      value={formData.lockedMerchant}
+                      onChange={(e) =>
+                        setFormData({ ...formData, lockedMerchant: e.target.value })
+                      }
+                      placeholder="Merchant, e.g. Netflix (optional)"
+                      className="bg-muted/30 border-border/50 rounded-xl h-11"
+                      data-testid="input-locked-merchant"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Leave empty to lock the card to the first merchant it's used at.
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="currency" className="text-sm font-medium">
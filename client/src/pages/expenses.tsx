@@ -56,12 +56,17 @@ import {
   CreditCard,
   FileQuestion,
   MessageSquare,
+  ScanLine,
+  AlertTriangle,
+  Loader2,
 } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest, pinProtectedRequest, getAuthHeaders } from "@/lib/queryClient";
+import { budgetRejectionFrom, describeBudgetRejection } from "@/lib/budget-enforcement";
 import { usePinVerification } from "@/components/pin-verification-dialog";
-import type { Expense, TeamMember, Vendor, CompanySettings } from "@shared/schema";
+import { useAuth } from "@/lib/auth";
+import type { Expense, TeamMember, Vendor, CompanySettings, ReceiptDraft, ReceiptDraftField } from "@shared/schema";
 import { expenseFormSchema, fieldErrorsFromZod } from "@shared/form-schemas";
 import { motion } from "framer-motion";
 import {
@@ -114,6 +119,7 @@ const suggestCategory = (merchant: string): string | null => {
 };
 
 export default function Expenses() {
+  const { user: currentUser } = useAuth();
   const [open, setOpen] = useState(false);
   const [detailOpen, setDetailOpen] = useState(false);
   const [editOpen, setEditOpen] = useState(false);
@@ -129,6 +135,10 @@ export default function Expenses() {
   const [selectedReviewers, setSelectedReviewers] = useState<string[]>([]);
   const [expenseType, setExpenseType] = useState<'spent' | 'request'>('request');
   const [isUploading, setIsUploading] = useState(false);
+  // The first attachment is uploaded as soon as it is picked so the
+  // server can OCR it; its URL is reused when the expense is submitted.
+  const [receiptScan, setReceiptScan] = useState<{ file: File; url: string; draft: ReceiptDraft | null } | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
   const [selectedVendorId, setSelectedVendorId] = useState<string>("");
   const { toast } = useToast();
   const pin = usePinVerification();
@@ -212,8 +222,14 @@ export default function Expenses() {
       setExpenseType('request');
       setSelectedReviewers([]);
       setAttachmentFiles([]);
+      setReceiptScan(null);
     },
-    onError: () => {
+    onError: (error: Error) => {
+      const rejection = budgetRejectionFrom(error);
+      if (rejection) {
+        toast({ ...describeBudgetRejection(rejection), variant: "destructive" });
+        return;
+      }
       toast({ title: "Failed to create expense", variant: "destructive" });
     },
   });
@@ -252,13 +268,19 @@ export default function Expenses() {
     mutationFn: async ({ id, vendorId }: { id: string; vendorId?: string }) => {
       // Server reads approver identity from the Cognito token — never
       // from this body. Don't send a hardcoded "admin" placeholder.
-      return pinProtectedRequest("POST", `/api/expenses/${id}/approve-and-pay`, {
+      const res = await pinProtectedRequest("POST", `/api/expenses/${id}/approve-and-pay`, {
         vendorId,
       });
+      return res.json();
     },
     onSuccess: (data: any) => {
       queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
       queryClient.invalidateQueries({ queryKey: ["/api/payouts"] });
+      // Policy-governed expenses record one approval step at a time.
+      if (data?.status === "pending_approval") {
+        toast({ title: "Approval recorded", description: data.message });
+        return;
+      }
       toast({
         title: "Expense Approved",
         description: data.payout ? "Payout created and queued for processing" : "Expense approved"
@@ -283,6 +305,10 @@ export default function Expenses() {
     },
   });
 
+  // Card drafts: the cardholder attaches the receipt and submits.
+  const [submittingExpense, setSubmittingExpense] = useState<Expense | null>(null);
+  const [cardReceiptFile, setCardReceiptFile] = useState<File | null>(null);
+
   const [requestChangesId, setRequestChangesId] = useState<string | null>(null);
   const [requestChangesComments, setRequestChangesComments] = useState("");
 
@@ -315,7 +341,7 @@ export default function Expenses() {
     },
   });
 
-  const uploadFile = async (file: File): Promise<string | null> => {
+  const uploadReceipt = async (file: File): Promise<{ url: string; draft: ReceiptDraft | null } | null> => {
     const formData = new FormData();
     formData.append('receipt', file);
     
@@ -328,7 +354,7 @@ export default function Expenses() {
       });
       const result = await response.json();
       if (result.success) {
-        return result.url;
+        return { url: result.url, draft: result.draft ?? null };
       }
       return null;
     } catch (error) {
@@ -337,19 +363,86 @@ export default function Expenses() {
     }
   };
 
+  const uploadFile = async (file: File): Promise<string | null> => {
+    if (receiptScan?.file === file) return receiptScan.url;
+    return (await uploadReceipt(file))?.url ?? null;
+  };
+
+  const submitCardExpense = useMutation({
+    mutationFn: async ({ id, file }: { id: string; file: File }) => {
+      const uploaded = await uploadReceipt(file);
+      if (!uploaded) throw new Error("Receipt upload failed");
+      const res = await apiRequest("POST", `/api/expenses/${id}/submit`, { receiptUrl: uploaded.url });
+      return res.json();
+    },
+    onSuccess: (data: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+      setSubmittingExpense(null);
+      setCardReceiptFile(null);
+      toast({
+        title: "Receipt submitted",
+        description: data?.autoApproved ? "The card expense has been approved." : "The card expense has been sent for approval.",
+      });
+    },
+    onError: () => {
+      toast({ title: "Failed to submit the receipt", variant: "destructive" });
+    },
+  });
+
+  // Fill fields the user has not typed yet from the OCR draft.
+  const applyReceiptDraft = (draft: ReceiptDraft) => {
+    if (draft.merchant.value && !watch("merchant")) {
+      setValue("merchant", draft.merchant.value);
+      const suggested = suggestCategory(draft.merchant.value);
+      if (suggested) setValue("category", suggested);
+    }
+    if (draft.total.value != null && !watch("amount")) {
+      setValue("amount", draft.total.value.toFixed(2));
+    }
+  };
+
+  const scanReceipt = async (file: File) => {
+    setIsScanning(true);
+    try {
+      const result = await uploadReceipt(file);
+      if (!result) return;
+      setReceiptScan({ file, ...result });
+      if (result.draft) applyReceiptDraft(result.draft);
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
   const handleAttachmentAdd = (e: { target: HTMLInputElement }) => {
     const files = e.target.files;
     if (files) {
       const newFiles = Array.from(files);
+      if (attachmentFiles.length === 0 && newFiles.length > 0) {
+        scanReceipt(newFiles[0]);
+      }
       setAttachmentFiles(prev => [...prev, ...newFiles]);
     }
     e.target.value = '';
   };
 
   const handleAttachmentRemove = (index: number) => {
+    if (attachmentFiles[index] === receiptScan?.file) setReceiptScan(null);
     setAttachmentFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  const draftHint = (field: ReceiptDraftField<unknown> | undefined, current: string) => {
+    if (!field || field.value == null) return null;
+    const matches = String(field.value) === current || (typeof field.value === 'number' && parseFloat(current) === field.value);
+    if (!matches) return null;
+    const pct = Math.round(field.confidence * 100);
+    return (
+      <p className={`text-xs flex items-center gap-1 ${pct < 60 ? 'text-amber-600' : 'text-slate-500 dark:text-slate-400'}`}>
+        <ScanLine className="h-3 w-3" />
+        Read from receipt · {pct}% confidence{pct < 60 ? ' — please check' : ''}
+      </p>
+    );
+  };
+
   const toggleReviewer = (memberId: string) => {
     setSelectedReviewers(prev => 
       prev.includes(memberId) 
@@ -511,6 +604,11 @@ export default function Expenses() {
     return <FileQuestion className="h-3 w-3" />;
   };
 
+  const getTypeLabel = (type: string | undefined) => {
+    if (type === 'card') return 'Card';
+    return type === 'spent' ? 'Reimbursement' : 'Request';
+  };
+
   const getTypeColor = (type: string | undefined) => {
     if (type === 'spent') {
       return "bg-sky-100 text-sky-700 dark:bg-sky-900/30 dark:text-sky-400";
@@ -597,6 +695,7 @@ export default function Expenses() {
                       className="bg-slate-50 dark:bg-slate-900/30 border-slate-200 dark:border-slate-700 rounded-xl h-11"
                       data-testid="input-merchant"
                     />
+                    {draftHint(receiptScan?.draft?.merchant, watch("merchant"))}
                   </FormField>
 
                   <FormField label="Amount" required>
@@ -610,6 +709,15 @@ export default function Expenses() {
                       className="bg-slate-50 dark:bg-slate-900/30 border-slate-200 dark:border-slate-700 rounded-xl h-11"
                       data-testid="input-amount"
                     />
+                    {draftHint(receiptScan?.draft?.total, watch("amount"))}
+                    {receiptScan?.draft?.total.value != null && watch("amount") &&
+                      receiptScan.draft.currency.value === currency &&
+                      parseFloat(watch("amount")) !== receiptScan.draft.total.value && (
+                      <p className="text-xs flex items-center gap-1 text-amber-600" data-testid="text-receipt-amount-differs">
+                        <AlertTriangle className="h-3 w-3" />
+                        Receipt shows {formatCurrency(receiptScan.draft.total.value)} — approvers will see the difference
+                      </p>
+                    )}
                   </FormField>
 
                   <div className="space-y-2">
@@ -701,9 +809,16 @@ export default function Expenses() {
                           data-testid="input-attachments"
                         />
                       </label>
-                      <p className="text-xs text-slate-500 dark:text-slate-400">
-                        JPEG, PNG, PDF up to 10MB each
-                      </p>
+                      {isScanning ? (
+                        <p className="text-xs flex items-center gap-1 text-sky-600" data-testid="text-scanning-receipt">
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                          Reading receipt…
+                        </p>
+                      ) : (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                          JPEG, PNG, PDF up to 10MB each. The first file is read to prefill the expense.
+                        </p>
+                      )}
                     </GlassCard>
                   </div>
 
@@ -843,6 +958,7 @@ export default function Expenses() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
+                  <SelectItem value="DRAFT">Needs Receipt</SelectItem>
                   <SelectItem value="PENDING">Pending</SelectItem>
                   <SelectItem value="APPROVED">Approved</SelectItem>
                   <SelectItem value="REJECTED">Rejected</SelectItem>
@@ -919,7 +1035,7 @@ export default function Expenses() {
                           <div className="flex items-center gap-2 mt-2 flex-wrap">
                             <Badge variant="secondary" className={`text-xs font-medium rounded-lg ${getTypeColor(expense.expenseType)}`}>
                               {getTypeIcon(expense.expenseType)}
-                              <span className="ml-1">{expense.expenseType === 'spent' ? 'Reimbursement' : 'Request'}</span>
+                              <span className="ml-1">{getTypeLabel(expense.expenseType)}</span>
                             </Badge>
                             <Badge variant="outline" className="text-xs rounded-lg">
                               {expense.category}
@@ -927,6 +1043,12 @@ export default function Expenses() {
                             <span className="text-xs text-slate-500 dark:text-slate-400">
                               {new Date(expense.date).toLocaleDateString()}
                             </span>
+                            {expense.receiptAmountMismatch && (
+                              <Badge variant="outline" className="text-xs rounded-lg border-amber-300 text-amber-700 dark:text-amber-400" data-testid={`badge-receipt-mismatch-${expense.id}`}>
+                                <AlertTriangle className="h-3 w-3 mr-1" />
+                                Receipt shows {formatCurrency(expense.receiptOcrAmount ?? 0)}
+                              </Badge>
+                            )}
                             {expense.attachments && expense.attachments.length > 0 && (
                               <Badge variant="outline" className="text-xs rounded-lg">
                                 <Paperclip className="h-3 w-3 mr-1" />
@@ -975,7 +1097,13 @@ export default function Expenses() {
                             </motion.button>
                           </div>
                         )}
-                        {expense.status === "APPROVED" && (
+                        {expense.status === "DRAFT" && expense.userId === currentUser?.id && (
+                          <Button size="sm" variant="outline" className="rounded-lg gap-1" onClick={() => setSubmittingExpense(expense)} data-testid={`button-add-receipt-${expense.id}`}>
+                            <Upload className="h-3.5 w-3.5" />
+                            Add Receipt
+                          </Button>
+                        )}
+                        {expense.status === "APPROVED" && !expense.cardTransactionId && (
                           <motion.button whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.95 }} onClick={() => pin.requirePin(() => markAsPaid.mutate(expense.id))} disabled={markAsPaid.isPending} className="p-2 hover:bg-cyan-100 dark:hover:bg-cyan-900/30 rounded-lg transition-colors" data-testid={`button-pay-${expense.id}`}>
                             <DollarSign className="h-4 w-4 text-cyan-600" />
                           </motion.button>
@@ -1040,7 +1168,7 @@ export default function Expenses() {
                       <StatusBadge status={selectedExpense.status.toLowerCase()} />
                       <Badge className={`text-xs font-medium rounded-lg ${getTypeColor(selectedExpense.expenseType)}`}>
                         {getTypeIcon(selectedExpense.expenseType)}
-                        <span className="ml-1">{selectedExpense.expenseType === 'spent' ? 'Reimbursement' : 'Request'}</span>
+                        <span className="ml-1">{getTypeLabel(selectedExpense.expenseType)}</span>
                       </Badge>
                     </div>
                   </div>
@@ -1165,6 +1293,12 @@ export default function Expenses() {
                 {selectedExpense.receiptUrl && (
                   <div className="bg-slate-50 dark:bg-slate-900/30 rounded-2xl p-4">
                     <p className="text-xs text-slate-500 dark:text-slate-400 uppercase font-bold tracking-wider mb-2">Receipt</p>
+                    {selectedExpense.receiptAmountMismatch && (
+                      <div className="flex items-center gap-2 mb-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 px-3 py-2 text-sm text-amber-800 dark:text-amber-300" data-testid="text-receipt-mismatch">
+                        <AlertTriangle className="h-4 w-4 shrink-0" />
+                        Receipt shows {formatCurrency(selectedExpense.receiptOcrAmount ?? 0)} but {formatCurrency(selectedExpense.amount)} was claimed
+                      </div>
+                    )}
                     <div className="flex items-center gap-3">
                       <button
                         onClick={() => {
@@ -1214,7 +1348,7 @@ export default function Expenses() {
                       </Button>
                     </>
                   )}
-                  {selectedExpense.status === "APPROVED" && (
+                  {selectedExpense.status === "APPROVED" && !selectedExpense.cardTransactionId && (
                     <Button
                       className="bg-gradient-to-r from-cyan-600 to-cyan-700 hover:from-cyan-700 hover:to-cyan-800 rounded-xl"
                       onClick={() => pin.requirePin(() => { markAsPaid.mutate(selectedExpense.id); setDetailOpen(false); })}
@@ -1229,6 +1363,39 @@ export default function Expenses() {
           </DialogContent>
         </Dialog>
 
+        {/* Card Expense Receipt Dialog */}
+        <Dialog open={!!submittingExpense} onOpenChange={(isOpen) => { if (!isOpen) { setSubmittingExpense(null); setCardReceiptFile(null); } }}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add Receipt</DialogTitle>
+              <DialogDescription>
+                {submittingExpense && `${formatCurrency(submittingExpense.amount)} at ${submittingExpense.merchant} on ${new Date(submittingExpense.date).toLocaleDateString()}. ${submittingExpense.note ?? ""}`}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="card-receipt">Receipt</Label>
+              <Input
+                id="card-receipt"
+                type="file"
+                accept="image/*,application/pdf"
+                onChange={(e) => setCardReceiptFile(e.target.files?.[0] ?? null)}
+                data-testid="input-card-receipt"
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => { setSubmittingExpense(null); setCardReceiptFile(null); }}>Cancel</Button>
+              <Button
+                disabled={!cardReceiptFile || submitCardExpense.isPending}
+                onClick={() => submittingExpense && cardReceiptFile && submitCardExpense.mutate({ id: submittingExpense.id, file: cardReceiptFile })}
+                data-testid="button-submit-card-expense"
+              >
+                {submitCardExpense.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Submit
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* Edit Expense Dialog */}
         <Dialog open={editOpen} onOpenChange={setEditOpen}>
           <DialogContent>
@@ -10,7 +10,8 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, pinProtectedRequest, queryClient, sanitizeErrorMessage } from "@/lib/queryClient";
+import { usePinVerification } from "@/components/pin-verification-dialog";
 import { getCurrencySymbol, formatCurrencyAmount, CURRENCY_SYMBOLS } from "@/lib/constants";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
@@ -47,6 +48,9 @@ import {
   MoreVertical,
   Link,
   Repeat,
+  Undo2,
+  Bell,
+  X,
 } from "lucide-react";
 import type { Invoice, CompanySettings } from "@shared/schema";
 import { invoiceFormSchema, fieldErrorsFromZod } from "@shared/form-schemas";
@@ -60,6 +64,43 @@ interface VirtualAccount {
   currency: string;
 }
 
+interface InvoicePaymentsData {
+  amountPaid: number;
+  amountRemaining: number;
+  amountCredited: number;
+  payments: { id: string; amount: string; refundedAmount: string; method: string; reference: string; paidAt: string }[];
+}
+
+interface InvoiceReminderRow {
+  id: string;
+  offsetDays: number;
+  sentTo: string;
+  amountDue: string;
+  lateFee: string;
+  status: "pending" | "sent" | "failed";
+  error: string | null;
+  createdAt: string;
+  sentAt: string | null;
+}
+
+interface DunningScheduleData {
+  enabled: boolean;
+  steps: { offsetDays: number; lateFee?: { type: "fixed" | "percent"; value: number } | null }[];
+}
+
+type DunningStepForm = { offsetDays: string; feeType: "none" | "fixed" | "percent"; feeValue: string };
+
+const describeOffset = (days: number) =>
+  days === 0 ? "On due date" : days < 0 ? `${-days} day${days === -1 ? "" : "s"} before due` : `${days} day${days === 1 ? "" : "s"} overdue`;
+
+type CreditNoteKind = "credit" | "write_off" | "refund";
+
+const CREDIT_NOTE_KIND_LABELS: Record<CreditNoteKind, string> = {
+  credit: "Credit against balance",
+  write_off: "Write off balance",
+  refund: "Refund a payment",
+};
+
 interface LineItem {
   id: string;
   description: string;
@@ -83,6 +124,31 @@ export default function InvoicesPage() {
   const [isViewOpen, setIsViewOpen] = useState(false);
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
   const [confirmMarkPaidId, setConfirmMarkPaidId] = useState<string | null>(null);
+  const [creditNoteInvoice, setCreditNoteInvoice] = useState<Invoice | null>(null);
+  const [creditNoteForm, setCreditNoteForm] = useState<{ kind: CreditNoteKind; amount: string; reason: string; paymentId: string }>({
+    kind: "credit", amount: "", reason: "", paymentId: "",
+  });
+  const pin = usePinVerification();
+  const [isDunningOpen, setIsDunningOpen] = useState(false);
+  const [dunningForm, setDunningForm] = useState<{ enabled: boolean; steps: DunningStepForm[] }>({ enabled: false, steps: [] });
+
+  const { data: reminders = [] } = useQuery<InvoiceReminderRow[]>({
+    queryKey: ["/api/invoices", selectedInvoice?.id, "reminders"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/invoices/${selectedInvoice!.id}/reminders`);
+      return res.json();
+    },
+    enabled: isViewOpen && !!selectedInvoice,
+  });
+
+  const { data: creditNotePayments } = useQuery<InvoicePaymentsData>({
+    queryKey: ["/api/invoices", creditNoteInvoice?.id, "payments"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/invoices/${creditNoteInvoice!.id}/payments`);
+      return res.json();
+    },
+    enabled: !!creditNoteInvoice,
+  });
 
   const { data: settings } = useQuery<CompanySettings>({
     queryKey: ["/api/settings"],
@@ -228,6 +294,82 @@ export default function InvoicesPage() {
     }
   });
 
+  const issueCreditNoteMutation = useMutation({
+    mutationFn: async () => {
+      const { kind, amount, reason, paymentId } = creditNoteForm;
+      const res = await pinProtectedRequest("POST", `/api/invoices/${creditNoteInvoice!.id}/credit-notes`, {
+        kind,
+        amount,
+        reason,
+        paymentId: kind === "refund" ? paymentId : undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (result: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      setCreditNoteInvoice(null);
+      toast({
+        title: `Credit note ${result.creditNote?.creditNoteNumber || ""} issued`,
+        description: `Amount due is now ${formatCurrency(result.amountRemaining ?? 0)}.`,
+      });
+    },
+    onError: (error: any) => {
+      if (pin.handlePinError(error, () => issueCreditNoteMutation.mutate())) return;
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      toast({ title: "Failed to issue credit note", description: sanitizeErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const openDunningSchedule = async () => {
+    try {
+      const res = await apiRequest("GET", "/api/dunning-schedule");
+      const schedule: DunningScheduleData = await res.json();
+      setDunningForm({
+        enabled: schedule.enabled,
+        steps: schedule.steps.map((step) => ({
+          offsetDays: String(step.offsetDays),
+          feeType: step.lateFee?.type ?? "none",
+          feeValue: step.lateFee ? String(step.lateFee.value) : "",
+        })),
+      });
+      setIsDunningOpen(true);
+    } catch (error: any) {
+      toast({ title: "Failed to load reminder schedule", description: sanitizeErrorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const saveDunningMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PUT", "/api/dunning-schedule", {
+        enabled: dunningForm.enabled,
+        steps: dunningForm.steps.map((step) => ({
+          offsetDays: parseInt(step.offsetDays, 10),
+          lateFee: step.feeType === "none" ? null : { type: step.feeType, value: parseFloat(step.feeValue) },
+        })),
+      });
+    },
+    onSuccess: () => {
+      setIsDunningOpen(false);
+      toast({ title: "Reminder schedule saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save reminder schedule", description: sanitizeErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateDunningStep = (index: number, patch: Partial<DunningStepForm>) => {
+    setDunningForm({ ...dunningForm, steps: dunningForm.steps.map((step, i) => (i === index ? { ...step, ...patch } : step)) });
+  };
+
+  const openCreditNote = (invoice: Invoice) => {
+    setCreditNoteForm({ kind: "credit", amount: "", reason: "", paymentId: "" });
+    setCreditNoteInvoice(invoice);
+  };
+
+  const refundablePayments = (creditNotePayments?.payments || []).filter(
+    (p) => parseFloat(p.amount) - parseFloat(p.refundedAmount || "0") > 0
+  );
+
   const sendInvoiceMutation = useMutation({
     mutationFn: async (invoiceId: string) => {
       return apiRequest("POST", `/api/invoices/${invoiceId}/send`);
@@ -371,7 +513,8 @@ export default function InvoicesPage() {
       paid: { variant: "success" as const, label: "Paid", icon: CheckCircle },
       pending: { variant: "default" as const, label: "Pending", icon: Clock },
       overdue: { variant: "destructive" as const, label: "Overdue", icon: AlertTriangle },
-      draft: { variant: "secondary" as const, label: "Draft", icon: FileText }
+      draft: { variant: "secondary" as const, label: "Draft", icon: FileText },
+      credited: { variant: "secondary" as const, label: "Credited", icon: Undo2 }
     };
 
     const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.pending;
@@ -393,302 +536,308 @@ export default function InvoicesPage() {
             subtitle="Create and manage client invoices"
             icon={FileText}
           />
-          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
-            <DialogTrigger asChild>
-              <Button
-                className="bg-sky-600 hover:bg-sky-700 text-white shadow-lg hover:shadow-xl transition-all"
-                data-testid="button-create-invoice"
-              >
-                <Plus className="mr-2 h-4 w-4" />
-                Create Invoice
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
-              <DialogHeader>
-                <DialogTitle className="text-2xl">Create New Invoice</DialogTitle>
-                <DialogDescription>
-                  Fill in the details to create and send a new invoice to your client.
-                </DialogDescription>
-              </DialogHeader>
-
-              <div className="space-y-6 py-4">
-                {/* Client Information */}
-                <div className="space-y-4">
-                  <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Client Information</h3>
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label className="text-sm font-medium">Client Name</Label>
-                      <Input
-                        placeholder="e.g., TechCorp Inc."
-                        value={invoiceForm.clientName}
-                        onChange={(e) => setInvoiceForm({ ...invoiceForm, clientName: e.target.value })}
-                        className="border-slate-200 dark:border-slate-700 focus:ring-sky-500"
-                        data-testid="input-client-name"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label className="text-sm font-medium">Client Email</Label>
-                      <Input
-                        type="email"
-                        placeholder="billing@company.com"
-                        value={invoiceForm.clientEmail}
-                        onChange={(e) => setInvoiceForm({ ...invoiceForm, clientEmail: e.target.value })}
-                        className="border-slate-200 dark:border-slate-700 focus:ring-sky-500"
-                        data-testid="input-client-email"
-                      />
-                    </div>
-                  </div>
-                </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={openDunningSchedule} data-testid="button-dunning-schedule">
+              <Bell className="mr-2 h-4 w-4" />
+              Reminders
+            </Button>
+            <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+              <DialogTrigger asChild>
+                <Button
+                  className="bg-sky-600 hover:bg-sky-700 text-white shadow-lg hover:shadow-xl transition-all"
+                  data-testid="button-create-invoice"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create Invoice
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle className="text-2xl">Create New Invoice</DialogTitle>
+                  <DialogDescription>
+                    Fill in the details to create and send a new invoice to your client.
+                  </DialogDescription>
+                </DialogHeader>
 
-                {/* Dates */}
-                <div className="space-y-4">
-                  <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Invoice Dates</h3>
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label className="text-sm font-medium">Invoice Date</Label>
-                      <Input
-                        type="date"
-                        value={invoiceForm.invoiceDate}
-                        onChange={(e) => setInvoiceForm({ ...invoiceForm, invoiceDate: e.target.value })}
-                        className="border-slate-200 dark:border-slate-700 focus:ring-sky-500"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label className="text-sm font-medium">Due Date</Label>
-                      <Input
-                        type="date"
-                        value={invoiceForm.dueDate}
-                        onChange={(e) => setInvoiceForm({ ...invoiceForm, dueDate: e.target.value })}
-                        className="border-slate-200 dark:border-slate-700 focus:ring-sky-500"
-                      />
+                <div className="space-y-6 py-4">
+                  {/* Client Information */}
+                  <div className="space-y-4">
+                    <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Client Information</h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label className="text-sm font-medium">Client Name</Label>
+                        <Input
+                          placeholder="e.g., TechCorp Inc."
+                          value={invoiceForm.clientName}
+                          onChange={(e) => setInvoiceForm({ ...invoiceForm, clientName: e.target.value })}
+                          className="border-slate-200 dark:border-slate-700 focus:ring-sky-500"
+                          data-testid="input-client-name"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="text-sm font-medium">Client Email</Label>
+                        <Input
+                          type="email"
+                          placeholder="billing@company.com"
+                          value={invoiceForm.clientEmail}
+                          onChange={(e) => setInvoiceForm({ ...invoiceForm, clientEmail: e.target.value })}
+                          className="border-slate-200 dark:border-slate-700 focus:ring-sky-500"
+                          data-testid="input-client-email"
+                        />
+                      </div>
                     </div>
                   </div>
-                </div>
 
-                {/* Line Items */}
-                <div className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Line Items</h3>
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="sm"
-                      onClick={addLineItem}
-                      className="border-sky-200 hover:bg-sky-50 dark:border-sky-800 dark:hover:bg-sky-950"
-                      data-testid="button-add-line-item"
-                    >
-                      <Plus className="h-4 w-4 mr-1" />
-                      Add Item
-                    </Button>
+                  {/* Dates */}
+                  <div className="space-y-4">
+                    <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Invoice Dates</h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label className="text-sm font-medium">Invoice Date</Label>
+                        <Input
+                          type="date"
+                          value={invoiceForm.invoiceDate}
+                          onChange={(e) => setInvoiceForm({ ...invoiceForm, invoiceDate: e.target.value })}
+                          className="border-slate-200 dark:border-slate-700 focus:ring-sky-500"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="text-sm font-medium">Due Date</Label>
+                        <Input
+                          type="date"
+                          value={invoiceForm.dueDate}
+                          onChange={(e) => setInvoiceForm({ ...invoiceForm, dueDate: e.target.value })}
+                          className="border-slate-200 dark:border-slate-700 focus:ring-sky-500"
+                        />
+                      </div>
+                    </div>
                   </div>
 
-                  <div className="space-y-3 max-h-80 overflow-y-auto">
-                    {lineItems.map((item, index) => (
-                      <motion.div
-                        key={item.id}
-                        initial={{ opacity: 0, y: -10 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        className="p-4 border border-slate-200 dark:border-slate-700 rounded-lg bg-slate-50 dark:bg-slate-900/30 space-y-3"
+                  {/* Line Items */}
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Line Items</h3>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={addLineItem}
+                        className="border-sky-200 hover:bg-sky-50 dark:border-sky-800 dark:hover:bg-sky-950"
+                        data-testid="button-add-line-item"
                       >
-                        <div className="flex items-center justify-between">
-                          <span className="text-xs font-semibold text-slate-600 dark:text-slate-400 uppercase tracking-wider">
-                            Item {index + 1}
-                          </span>
-                          {lineItems.length > 1 && (
-                            <Button
-                              type="button"
-                              variant="ghost"
-                              size="icon"
-                              className="h-6 w-6 text-rose-600 hover:bg-rose-100 dark:hover:bg-rose-950"
-                              onClick={() => removeLineItem(item.id)}
-                              data-testid={`button-remove-item-${index}`}
-                            >
-                              <Trash2 className="h-3 w-3" />
-                            </Button>
-                          )}
-                        </div>
-
-                        <div className="space-y-2">
-                          <Label className="text-xs font-medium text-slate-700 dark:text-slate-300">Description</Label>
-                          <Input
-                            placeholder="Service or product description..."
-                            value={item.description}
-                            onChange={(e) => updateLineItem(item.id, "description", e.target.value)}
-                            className="text-sm border-slate-200 dark:border-slate-700"
-                            data-testid={`input-item-description-${index}`}
-                          />
-                        </div>
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Item
+                      </Button>
+                    </div>
 
-                        <div className="grid grid-cols-3 gap-2">
-                          <div className="space-y-2">
-                            <Label className="text-xs font-medium text-slate-700 dark:text-slate-300">Qty</Label>
-                            <Input
-                              type="number"
-                              min="1"
-                              value={item.quantity}
-                              onChange={(e) => updateLineItem(item.id, "quantity", parseInt(e.target.value) || 1)}
-                              className="text-sm border-slate-200 dark:border-slate-700"
-                              data-testid={`input-item-quantity-${index}`}
-                            />
+                    <div className="space-y-3 max-h-80 overflow-y-auto">
+                      {lineItems.map((item, index) => (
+                        <motion.div
+                          key={item.id}
+                          initial={{ opacity: 0, y: -10 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          className="p-4 border border-slate-200 dark:border-slate-700 rounded-lg bg-slate-50 dark:bg-slate-900/30 space-y-3"
+                        >
+                          <div className="flex items-center justify-between">
+                            <span className="text-xs font-semibold text-slate-600 dark:text-slate-400 uppercase tracking-wider">
+                              Item {index + 1}
+                            </span>
+                            {lineItems.length > 1 && (
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 text-rose-600 hover:bg-rose-100 dark:hover:bg-rose-950"
+                                onClick={() => removeLineItem(item.id)}
+                                data-testid={`button-remove-item-${index}`}
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            )}
                           </div>
+
                           <div className="space-y-2">
-                            <Label className="text-xs font-medium text-slate-700 dark:text-slate-300">Unit Price</Label>
+                            <Label className="text-xs font-medium text-slate-700 dark:text-slate-300">Description</Label>
                             <Input
-                              type="number"
-                              min="0"
-                              step="0.01"
-                              placeholder="0.00"
-                              value={item.unitPrice || ""}
-                              onChange={(e) => updateLineItem(item.id, "unitPrice", parseFloat(e.target.value) || 0)}
+                              placeholder="Service or product description..."
+                              value={item.description}
+                              onChange={(e) => updateLineItem(item.id, "description", e.target.value)}
                               className="text-sm border-slate-200 dark:border-slate-700"
-                              data-testid={`input-item-price-${index}`}
+                              data-testid={`input-item-description-${index}`}
                             />
                           </div>
-                          <div className="space-y-2">
-                            <Label className="text-xs font-medium text-slate-700 dark:text-slate-300">Total</Label>
-                            <div className="h-10 px-3 py-2 rounded-md bg-slate-100 dark:bg-slate-800 text-sm font-semibold flex items-center justify-end text-sky-600 dark:text-sky-400">
-                              {currencySymbol}{calculateLineTotal(item).toFixed(2)}
+
+                          <div className="grid grid-cols-3 gap-2">
+                            <div className="space-y-2">
+                              <Label className="text-xs font-medium text-slate-700 dark:text-slate-300">Qty</Label>
+                              <Input
+                                type="number"
+                                min="1"
+                                value={item.quantity}
+                                onChange={(e) => updateLineItem(item.id, "quantity", parseInt(e.target.value) || 1)}
+                                className="text-sm border-slate-200 dark:border-slate-700"
+                                data-testid={`input-item-quantity-${index}`}
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label className="text-xs font-medium text-slate-700 dark:text-slate-300">Unit Price</Label>
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                placeholder="0.00"
+                                value={item.unitPrice || ""}
+                                onChange={(e) => updateLineItem(item.id, "unitPrice", parseFloat(e.target.value) || 0)}
+                                className="text-sm border-slate-200 dark:border-slate-700"
+                                data-testid={`input-item-price-${index}`}
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label className="text-xs font-medium text-slate-700 dark:text-slate-300">Total</Label>
+                              <div className="h-10 px-3 py-2 rounded-md bg-slate-100 dark:bg-slate-800 text-sm font-semibold flex items-center justify-end text-sky-600 dark:text-sky-400">
+                                {currencySymbol}{calculateLineTotal(item).toFixed(2)}
+                              </div>
                             </div>
                           </div>
-                        </div>
-                      </motion.div>
-                    ))}
-                  </div>
-
-                  {/* Tax & Currency */}
-                  <div className="pt-4 border-t border-slate-200 dark:border-slate-700 space-y-4">
-                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                      <div className="space-y-2">
-                        <Label className="text-sm font-medium">Tax Rate (%)</Label>
-                        <Input
-                          type="number"
-                          min="0"
-                          max="100"
-                          step="0.1"
-                          placeholder="0"
-                          value={invoiceForm.taxRate}
-                          onChange={(e) => setInvoiceForm({ ...invoiceForm, taxRate: e.target.value })}
-                          className="border-slate-200 dark:border-slate-700 focus:ring-sky-500"
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label className="text-sm font-medium">Currency</Label>
-                        <Select value={invoiceForm.invoiceCurrency} onValueChange={(value) => setInvoiceForm({ ...invoiceForm, invoiceCurrency: value })}>
-                          <SelectTrigger className="border-slate-200 dark:border-slate-700">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {Object.keys(CURRENCY_SYMBOLS).map(code => (
-                              <SelectItem key={code} value={code}>{code} ({CURRENCY_SYMBOLS[code]})</SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
+                        </motion.div>
+                      ))}
                     </div>
 
-                    {/* Invoice Summary */}
-                    <div className="flex justify-end">
-                      <div className="text-right space-y-2 w-64">
-                        <div className="flex justify-between text-sm">
-                          <span className="text-slate-600 dark:text-slate-400">Subtotal</span>
-                          <span className="font-medium">{currencySymbol}{calculateSubtotal().toFixed(2)}</span>
+                    {/* Tax & Currency */}
+                    <div className="pt-4 border-t border-slate-200 dark:border-slate-700 space-y-4">
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label className="text-sm font-medium">Tax Rate (%)</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="0.1"
+                            placeholder="0"
+                            value={invoiceForm.taxRate}
+                            onChange={(e) => setInvoiceForm({ ...invoiceForm, taxRate: e.target.value })}
+                            className="border-slate-200 dark:border-slate-700 focus:ring-sky-500"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label className="text-sm font-medium">Currency</Label>
+                          <Select value={invoiceForm.invoiceCurrency} onValueChange={(value) => setInvoiceForm({ ...invoiceForm, invoiceCurrency: value })}>
+                            <SelectTrigger className="border-slate-200 dark:border-slate-700">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.keys(CURRENCY_SYMBOLS).map(code => (
+                                <SelectItem key={code} value={code}>{code} ({CURRENCY_SYMBOLS[code]})</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                         </div>
-                        {parseFloat(invoiceForm.taxRate) > 0 && (
+                      </div>
+
+                      {/* Invoice Summary */}
+                      <div className="flex justify-end">
+                        <div className="text-right space-y-2 w-64">
                           <div className="flex justify-between text-sm">
-                            <span className="text-slate-600 dark:text-slate-400">Tax ({invoiceForm.taxRate}%)</span>
-                            <span className="font-medium">{currencySymbol}{calculateTaxAmount().toFixed(2)}</span>
+                            <span className="text-slate-600 dark:text-slate-400">Subtotal</span>
+                            <span className="font-medium">{currencySymbol}{calculateSubtotal().toFixed(2)}</span>
+                          </div>
+                          {parseFloat(invoiceForm.taxRate) > 0 && (
+                            <div className="flex justify-between text-sm">
+                              <span className="text-slate-600 dark:text-slate-400">Tax ({invoiceForm.taxRate}%)</span>
+                              <span className="font-medium">{currencySymbol}{calculateTaxAmount().toFixed(2)}</span>
+                            </div>
+                          )}
+                          <div className="flex justify-between text-base font-bold border-t border-slate-200 dark:border-slate-700 pt-2">
+                            <span>Total</span>
+                            <span className="bg-gradient-to-r from-sky-600 to-emerald-600 bg-clip-text text-transparent">
+                              {currencySymbol}{calculateTotal().toFixed(2)}
+                            </span>
                           </div>
-                        )}
-                        <div className="flex justify-between text-base font-bold border-t border-slate-200 dark:border-slate-700 pt-2">
-                          <span>Total</span>
-                          <span className="bg-gradient-to-r from-sky-600 to-emerald-600 bg-clip-text text-transparent">
-                            {currencySymbol}{calculateTotal().toFixed(2)}
-                          </span>
                         </div>
                       </div>
                     </div>
                   </div>
-                </div>
 
-                {/* Notes */}
-                <div className="space-y-4">
-                  <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Additional Information</h3>
-                  <div className="space-y-2">
-                    <Label className="text-sm font-medium">Notes</Label>
-                    <Textarea
-                      placeholder="Add payment terms, thank you message, or additional notes..."
-                      value={invoiceForm.notes}
-                      onChange={(e) => setInvoiceForm({ ...invoiceForm, notes: e.target.value })}
-                      className="min-h-24 border-slate-200 dark:border-slate-700 focus:ring-sky-500"
-                    />
+                  {/* Notes */}
+                  <div className="space-y-4">
+                    <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Additional Information</h3>
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium">Notes</Label>
+                      <Textarea
+                        placeholder="Add payment terms, thank you message, or additional notes..."
+                        value={invoiceForm.notes}
+                        onChange={(e) => setInvoiceForm({ ...invoiceForm, notes: e.target.value })}
+                        className="min-h-24 border-slate-200 dark:border-slate-700 focus:ring-sky-500"
+                      />
+                    </div>
                   </div>
-                </div>
 
-                {/* Recurring Invoice */}
-                <div className="space-y-4">
-                  <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Recurring Invoice</h3>
-                  <div className="flex items-center justify-between p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/30">
-                    <div className="flex items-center gap-3">
-                      <Repeat className="h-5 w-5 text-sky-500" />
-                      <div>
-                        <p className="text-sm font-medium text-slate-900 dark:text-slate-100">Make this a recurring invoice</p>
-                        <p className="text-xs text-slate-500 dark:text-slate-400">Automatically generate this invoice on a schedule</p>
+                  {/* Recurring Invoice */}
+                  <div className="space-y-4">
+                    <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Recurring Invoice</h3>
+                    <div className="flex items-center justify-between p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/30">
+                      <div className="flex items-center gap-3">
+                        <Repeat className="h-5 w-5 text-sky-500" />
+                        <div>
+                          <p className="text-sm font-medium text-slate-900 dark:text-slate-100">Make this a recurring invoice</p>
+                          <p className="text-xs text-slate-500 dark:text-slate-400">Automatically generate this invoice on a schedule</p>
+                        </div>
                       </div>
+                      <Switch
+                        checked={invoiceForm.isRecurring}
+                        onCheckedChange={(checked) => setInvoiceForm({ ...invoiceForm, isRecurring: checked })}
+                        data-testid="switch-recurring"
+                      />
                     </div>
-                    <Switch
-                      checked={invoiceForm.isRecurring}
-                      onCheckedChange={(checked) => setInvoiceForm({ ...invoiceForm, isRecurring: checked })}
-                      data-testid="switch-recurring"
-                    />
+                    {invoiceForm.isRecurring && (
+                      <div className="space-y-2">
+                        <Label className="text-sm font-medium">Recurring Interval</Label>
+                        <Select
+                          value={invoiceForm.recurringInterval}
+                          onValueChange={(value) => setInvoiceForm({ ...invoiceForm, recurringInterval: value })}
+                        >
+                          <SelectTrigger className="border-slate-200 dark:border-slate-700" data-testid="select-recurring-interval">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="weekly">Weekly</SelectItem>
+                            <SelectItem value="biweekly">Bi-weekly</SelectItem>
+                            <SelectItem value="monthly">Monthly</SelectItem>
+                            <SelectItem value="quarterly">Quarterly</SelectItem>
+                            <SelectItem value="yearly">Yearly</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
                   </div>
-                  {invoiceForm.isRecurring && (
-                    <div className="space-y-2">
-                      <Label className="text-sm font-medium">Recurring Interval</Label>
-                      <Select
-                        value={invoiceForm.recurringInterval}
-                        onValueChange={(value) => setInvoiceForm({ ...invoiceForm, recurringInterval: value })}
-                      >
-                        <SelectTrigger className="border-slate-200 dark:border-slate-700" data-testid="select-recurring-interval">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="weekly">Weekly</SelectItem>
-                          <SelectItem value="biweekly">Bi-weekly</SelectItem>
-                          <SelectItem value="monthly">Monthly</SelectItem>
-                          <SelectItem value="quarterly">Quarterly</SelectItem>
-                          <SelectItem value="yearly">Yearly</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  )}
                 </div>
-              </div>
 
-              <DialogFooter className="gap-2">
-                <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
-                  Cancel
-                </Button>
-                <Button
-                  onClick={handleCreateInvoice}
-                  disabled={isCreating}
-                  className="bg-sky-600 hover:bg-sky-700 text-white"
-                  data-testid="button-send-invoice"
-                >
-                  {isCreating ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Creating...
-                    </>
-                  ) : (
-                    <>
-                      <Send className="mr-2 h-4 w-4" />
-                      Create & Send
-                    </>
-                  )}
-                </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
+                <DialogFooter className="gap-2">
+                  <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleCreateInvoice}
+                    disabled={isCreating}
+                    className="bg-sky-600 hover:bg-sky-700 text-white"
+                    data-testid="button-send-invoice"
+                  >
+                    {isCreating ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Creating...
+                      </>
+                    ) : (
+                      <>
+                        <Send className="mr-2 h-4 w-4" />
+                        Create & Send
+                      </>
+                    )}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
         </motion.div>
 
         {/* Metrics Section */}
@@ -839,6 +988,15 @@ export default function InvoicesPage() {
                                     {markAsPaidMutation.isPending ? "Updating..." : "Mark as Paid"}
                                   </DropdownMenuItem>
                                 )}
+                                {invoice.status !== "draft" && invoice.status !== "cancelled" && (
+                                  <DropdownMenuItem
+                                    onClick={() => openCreditNote(invoice)}
+                                    data-testid={`button-credit-note-invoice-${invoice.id}`}
+                                  >
+                                    <Undo2 className="mr-2 h-4 w-4" />
+                                    Issue Credit Note
+                                  </DropdownMenuItem>
+                                )}
                                 <DropdownMenuSeparator />
                                 <DropdownMenuItem
                                   className="text-destructive focus:text-destructive"
@@ -1210,6 +1368,34 @@ export default function InvoicesPage() {
                 </div>
               )}
 
+              {/* Reminder History */}
+              {reminders.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">Reminder History</h3>
+                  <GlassCard className="p-4 space-y-3">
+                    {reminders.map((reminder) => (
+                      <div key={reminder.id} className="flex items-start justify-between gap-4 text-sm" data-testid={`row-reminder-${reminder.id}`}>
+                        <div>
+                          <p className="font-medium text-slate-900 dark:text-slate-100">{describeOffset(reminder.offsetDays)}</p>
+                          <p className="text-xs text-slate-500">
+                            {new Date(reminder.sentAt || reminder.createdAt).toLocaleString()} · {reminder.sentTo}
+                            {parseFloat(reminder.lateFee) > 0 && ` · late fee ${formatCurrency(reminder.lateFee)}`}
+                          </p>
+                          {reminder.error && <p className="text-xs text-rose-600">{reminder.error}</p>}
+                        </div>
+                        <div className="text-right shrink-0">
+                          <p className="font-medium">{formatCurrency(reminder.amountDue)}</p>
+                          <StatusBadge
+                            status={reminder.status === "sent" ? "completed" : reminder.status === "failed" ? "failed" : "pending"}
+                            label={reminder.status === "sent" ? "Sent" : reminder.status === "failed" ? "Failed" : "Sending"}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </GlassCard>
+                </div>
+              )}
+
               {/* Paid Status */}
               {selectedInvoice.status === "paid" && (
                 <div className="p-4 bg-emerald-50 dark:bg-emerald-900/20 border border-emerald-200 dark:border-emerald-900/40 rounded-lg flex items-center gap-3">
@@ -1238,6 +1424,188 @@ export default function InvoicesPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      {/* Dunning Schedule */}
+      <Dialog open={isDunningOpen} onOpenChange={setIsDunningOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Payment Reminders</DialogTitle>
+            <DialogDescription>
+              Unpaid invoices are emailed a reminder with their payment link at each step. Reminders stop once an invoice is paid or credited.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="dunning-enabled">Send reminders automatically</Label>
+              <Switch
+                id="dunning-enabled"
+                checked={dunningForm.enabled}
+                onCheckedChange={(enabled) => setDunningForm({ ...dunningForm, enabled })}
+                data-testid="switch-dunning-enabled"
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 text-xs text-muted-foreground">
+                <span>Days from due date</span>
+                <span>Late fee</span>
+                <span>Fee amount</span>
+                <span />
+              </div>
+              {dunningForm.steps.map((step, index) => (
+                <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                  <Input
+                    type="number"
+                    step="1"
+                    value={step.offsetDays}
+                    onChange={(e) => updateDunningStep(index, { offsetDays: e.target.value })}
+                    data-testid={`input-dunning-offset-${index}`}
+                  />
+                  <Select value={step.feeType} onValueChange={(feeType) => updateDunningStep(index, { feeType: feeType as DunningStepForm["feeType"] })}>
+                    <SelectTrigger data-testid={`select-dunning-fee-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      <SelectItem value="fixed">Fixed</SelectItem>
+                      <SelectItem value="percent">% of balance</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={step.feeValue}
+                    disabled={step.feeType === "none"}
+                    onChange={(e) => updateDunningStep(index, { feeValue: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDunningForm({ ...dunningForm, steps: dunningForm.steps.filter((_, i) => i !== index) })}
+                    data-testid={`button-remove-dunning-step-${index}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDunningForm({ ...dunningForm, steps: [...dunningForm.steps, { offsetDays: "", feeType: "none", feeValue: "" }] })}
+                disabled={dunningForm.steps.length >= 10}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Step
+              </Button>
+              <p className="text-xs text-muted-foreground">Use negative days for reminders before the due date. Late fees apply only after it.</p>
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setIsDunningOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveDunningMutation.mutate()}
+              disabled={saveDunningMutation.isPending || dunningForm.steps.some((step) => step.offsetDays.trim() === "")}
+              data-testid="button-save-dunning"
+            >
+              {saveDunningMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Schedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Issue Credit Note */}
+      <Dialog open={!!creditNoteInvoice} onOpenChange={(open) => !open && setCreditNoteInvoice(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Issue Credit Note</DialogTitle>
+            <DialogDescription>
+              {creditNoteInvoice?.invoiceNumber} · {creditNoteInvoice?.client}
+              {creditNotePayments && ` · ${formatCurrency(creditNotePayments.amountRemaining)} outstanding`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={creditNoteForm.kind}
+                onValueChange={(kind) => setCreditNoteForm({ ...creditNoteForm, kind: kind as CreditNoteKind, paymentId: "" })}
+              >
+                <SelectTrigger data-testid="select-credit-note-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CREDIT_NOTE_KIND_LABELS) as CreditNoteKind[]).map((kind) => (
+                    <SelectItem key={kind} value={kind}>{CREDIT_NOTE_KIND_LABELS[kind]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {creditNoteForm.kind === "refund" && (
+              <div className="space-y-2">
+                <Label>Payment to refund</Label>
+                {refundablePayments.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No recorded payments are left to refund.</p>
+                ) : (
+                  <Select value={creditNoteForm.paymentId} onValueChange={(paymentId) => setCreditNoteForm({ ...creditNoteForm, paymentId })}>
+                    <SelectTrigger data-testid="select-credit-note-payment">
+                      <SelectValue placeholder="Select a payment" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {refundablePayments.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>
+                          {formatCurrency(parseFloat(p.amount) - parseFloat(p.refundedAmount || "0"))} · {p.method} · {new Date(p.paidAt).toLocaleDateString()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <p className="text-xs text-muted-foreground">Stripe and Paystack payments are refunded to the client's original payment method.</p>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Amount</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={creditNoteForm.amount}
+                onChange={(e) => setCreditNoteForm({ ...creditNoteForm, amount: e.target.value })}
+                data-testid="input-credit-note-amount"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Textarea
+                value={creditNoteForm.reason}
+                onChange={(e) => setCreditNoteForm({ ...creditNoteForm, reason: e.target.value })}
+                placeholder="e.g. Discount agreed for late delivery"
+                data-testid="input-credit-note-reason"
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setCreditNoteInvoice(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => pin.requirePin(() => issueCreditNoteMutation.mutate())}
+              disabled={
+                issueCreditNoteMutation.isPending ||
+                !(parseFloat(creditNoteForm.amount) > 0) ||
+                !creditNoteForm.reason.trim() ||
+                (creditNoteForm.kind === "refund" && !creditNoteForm.paymentId)
+              }
+              data-testid="button-issue-credit-note"
+            >
+              {issueCreditNoteMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Issue Credit Note
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Confirm Mark as Paid */}
       <AlertDialog open={!!confirmMarkPaidId} onOpenChange={(open) => !open && setConfirmMarkPaidId(null)}>
         <AlertDialogContent>
@@ -1273,6 +1641,7 @@ export default function InvoicesPage() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+      {pin.PinDialogs}
     </PageWrapper>
   );
 }
@@ -0,0 +1,336 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { pinProtectedRequest, queryClient, getAuthHeaders, sanitizeErrorMessage } from "@/lib/queryClient";
+import { usePinVerification } from "@/components/pin-verification-dialog";
+import {
+  formatCurrencyAmount,
+  getBankDetailFormat,
+  getBankDetailLabel,
+  getCurrencyForCountry,
+  isPaystackRegion,
+  SUPPORTED_COUNTRIES,
+} from "@/lib/constants";
+import {
+  PageWrapper,
+  PageHeader,
+  MetricCard,
+  StatusBadge,
+  EmptyState,
+  GlassCard,
+  SectionLabel,
+  fadeUp,
+  stagger,
+} from "@/components/ui-extended";
+import { Download, FileText, Landmark, Loader2, Receipt, Wallet, TrendingDown, Banknote } from "lucide-react";
+
+// GET /api/me/pay (server/employeePay.ts)
+interface PayYear {
+  year: number;
+  currency: string | null;
+  payslips: number;
+  gross: number;
+  tax: number;
+  deductions: number;
+  netPay: number;
+  contributions: { code: string; name: string; authority: string; employee: number; employer: number }[];
+}
+
+interface MyPay {
+  employee: { id: string; name: string; department: string | null } | null;
+  yearToDate: PayYear;
+  years: number[];
+  payslips: {
+    id: string;
+    runName: string;
+    periodStart: string;
+    periodEnd: string;
+    payDate: string;
+    currency: string;
+    gross: number;
+    deductions: number;
+    netPay: number;
+    status: string;
+  }[];
+  bankAccounts: {
+    id: string;
+    bankName: string | null;
+    accountName: string | null;
+    accountNumber: string;
+    currency: string;
+    isDefault: boolean;
+    reviewStatus: string | null;
+    reviewNote: string | null;
+  }[];
+}
+
+const REVIEW_STATUS: Record<string, { status: string; label: string }> = {
+  pending: { status: "pending", label: "Awaiting review" },
+  verified: { status: "success", label: "Verified" },
+  rejected: { status: "rejected", label: "Rejected" },
+};
+
+const EMPTY_BANK_FORM = { country: "NG", bankName: "", bankCode: "", routingNumber: "", accountNumber: "", accountName: "" };
+
+// The server's error text; sanitizeErrorMessage drops JSON bodies.
+function serverError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    const body = JSON.parse(message.replace(/^\d{3}:\s*/, ""));
+    if (typeof body?.error === "string") return body.error;
+  } catch {
+  }
+  return sanitizeErrorMessage(error);
+}
+
+async function download(path: string, fileName: string) {
+  const authHeaders = await getAuthHeaders();
+  const response = await fetch(path, { headers: authHeaders, credentials: "include" });
+  if (!response.ok) throw new Error("Download failed");
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
+
+/**
+ * My Pay: the signed-in team member's payslips, year-to-date earnings and
+ * deductions, annual tax certificates, and the bank account their salary
+ * is paid into. New bank details are used once an admin verifies them.
+ */
+export default function MyPay() {
+  const { toast } = useToast();
+  const pin = usePinVerification();
+  const [certificateYear, setCertificateYear] = useState("");
+  const [bankForm, setBankForm] = useState(EMPTY_BANK_FORM);
+
+  const { data, isLoading } = useQuery<MyPay>({ queryKey: ["/api/me/pay"] });
+
+  const submitBankDetails = useMutation({
+    mutationFn: async (form: typeof EMPTY_BANK_FORM) =>
+      (await pinProtectedRequest("POST", "/api/me/pay/bank-accounts", {
+        country: form.country,
+        currency: getCurrencyForCountry(form.country).currency,
+        bankName: form.bankName,
+        bankCode: form.bankCode || undefined,
+        routingNumber: form.routingNumber || undefined,
+        accountNumber: form.accountNumber,
+        accountName: form.accountName,
+      })).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/me/pay"] });
+      setBankForm(EMPTY_BANK_FORM);
+      toast({ title: "Bank details submitted", description: "Your salary goes to this account once an admin has verified it." });
+    },
+    onError: (error, form) => {
+      if (pin.handlePinError(error, () => submitBankDetails.mutate(form))) return;
+      toast({ title: "Could not save your bank details", description: serverError(error), variant: "destructive" });
+    },
+  });
+
+  const downloadPayslip = async (payslip: MyPay["payslips"][number]) => {
+    try {
+      await download(`/api/me/pay/payslips/${payslip.id}`, `payslip-${payslip.payDate}.pdf`);
+    } catch {
+      toast({ title: "Download failed", description: "Could not download the payslip", variant: "destructive" });
+    }
+  };
+
+  const downloadCertificate = async (year: string) => {
+    try {
+      await download(`/api/me/pay/tax-certificates/${year}`, `tax-certificate-${year}.pdf`);
+    } catch {
+      toast({ title: "Download failed", description: "Could not download the tax certificate", variant: "destructive" });
+    }
+  };
+
+  if (isLoading || !data) {
+    return (
+      <PageWrapper>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-violet-600" />
+        </div>
+      </PageWrapper>
+    );
+  }
+
+  const ytd = data.yearToDate;
+  const currency = ytd.currency || data.payslips[0]?.currency || "USD";
+  const bankFormat = getBankDetailFormat(bankForm.country);
+  const selectedYear = certificateYear || String(data.years[0] ?? "");
+
+  return (
+    <PageWrapper>
+      <motion.div className="space-y-6" initial="hidden" animate="visible" variants={stagger}>
+        <motion.div variants={fadeUp}>
+          <PageHeader
+            title="My Pay"
+            subtitle={data.employee ? `${data.employee.name}${data.employee.department ? ` · ${data.employee.department}` : ""}` : "Your payslips, tax and bank details"}
+          />
+        </motion.div>
+
+        <motion.div variants={fadeUp} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <MetricCard title={`Gross pay ${ytd.year} to date`} value={formatCurrencyAmount(ytd.gross, currency)} icon={Wallet} color="violet" data-testid="card-ytd-gross" />
+          <MetricCard title="Income tax to date" value={formatCurrencyAmount(ytd.tax, currency)} icon={Receipt} color="amber" />
+          <MetricCard title="Deductions to date" value={formatCurrencyAmount(ytd.deductions, currency)} icon={TrendingDown} color="rose" />
+          <MetricCard title="Net pay to date" value={formatCurrencyAmount(ytd.netPay, currency)} icon={Banknote} color="emerald" />
+        </motion.div>
+
+        {ytd.contributions.length > 0 && (
+          <motion.div variants={fadeUp}>
+            <GlassCard className="p-6">
+              <SectionLabel>Deductions this year</SectionLabel>
+              <div className="mt-3 space-y-2 text-sm">
+                {ytd.contributions.map((c) => (
+                  <div key={c.code} className="flex items-center justify-between" data-testid={`ytd-contribution-${c.code}`}>
+                    <span>{c.name} <span className="text-muted-foreground">({c.authority})</span></span>
+                    <span className="font-semibold">
+                      {formatCurrencyAmount(c.employee, currency)}
+                      {c.employer > 0 && <span className="text-xs text-muted-foreground font-normal"> + {formatCurrencyAmount(c.employer, currency)} employer</span>}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </GlassCard>
+          </motion.div>
+        )}
+
+        <motion.div variants={fadeUp}>
+          <GlassCard className="p-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+              <div className="flex items-center gap-2">
+                <FileText className="h-5 w-5 text-violet-600" />
+                <SectionLabel>Payslips</SectionLabel>
+              </div>
+              {data.years.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <Select value={selectedYear} onValueChange={setCertificateYear}>
+                    <SelectTrigger className="w-28" data-testid="select-certificate-year"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {data.years.map((year) => (
+                        <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button size="sm" variant="outline" onClick={() => downloadCertificate(selectedYear)} data-testid="button-download-tax-certificate">
+                    <Download className="h-4 w-4 mr-1" /> Tax certificate
+                  </Button>
+                </div>
+              )}
+            </div>
+            {data.payslips.length === 0 ? (
+              <EmptyState icon={FileText} title="No payslips yet" description="Payslips appear here once a payroll run has paid you." />
+            ) : (
+              <div className="space-y-2">
+                {data.payslips.map((payslip) => (
+                  <div key={payslip.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border text-sm" data-testid={`my-payslip-${payslip.id}`}>
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium">{payslip.runName}</p>
+                        {payslip.status === "reversed" && <StatusBadge status="rejected" label="Reversed" />}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Paid {payslip.payDate} · gross {formatCurrencyAmount(payslip.gross, payslip.currency)} · deductions {formatCurrencyAmount(payslip.deductions, payslip.currency)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">{formatCurrencyAmount(payslip.netPay, payslip.currency)}</span>
+                      <Button size="sm" variant="ghost" onClick={() => downloadPayslip(payslip)} data-testid={`button-my-payslip-${payslip.id}`}>
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </GlassCard>
+        </motion.div>
+
+        <motion.div variants={fadeUp}>
+          <GlassCard className="p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <Landmark className="h-5 w-5 text-violet-600" />
+              <SectionLabel>Salary bank account</SectionLabel>
+            </div>
+            {data.bankAccounts.length > 0 && (
+              <div className="space-y-2 mb-6">
+                {data.bankAccounts.map((account) => {
+                  const badge = account.reviewStatus ? REVIEW_STATUS[account.reviewStatus] : null;
+                  return (
+                    <div key={account.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border text-sm" data-testid={`my-bank-account-${account.id}`}>
+                      <div>
+                        <p className="font-medium">{account.bankName || "Bank account"} · {account.accountNumber}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {account.accountName}{account.isDefault ? " · salary account" : ""}
+                          {account.reviewStatus === "rejected" && account.reviewNote ? ` · ${account.reviewNote}` : ""}
+                        </p>
+                      </div>
+                      {badge && <StatusBadge status={badge.status} label={badge.label} />}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <Label>Country</Label>
+                <Select value={bankForm.country} onValueChange={(country) => setBankForm({ ...EMPTY_BANK_FORM, country })}>
+                  <SelectTrigger data-testid="select-my-bank-country"><SelectValue /></SelectTrigger>
+                  <SelectContent className="max-h-60">
+                    {SUPPORTED_COUNTRIES.map((c) => (
+                      <SelectItem key={c.code} value={c.code}>{c.name} ({c.currency})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Bank name</Label>
+                <Input value={bankForm.bankName} onChange={(e) => setBankForm({ ...bankForm, bankName: e.target.value })} data-testid="input-my-bank-name" />
+              </div>
+              {isPaystackRegion(bankForm.country) ? (
+                <div>
+                  <Label>Bank code</Label>
+                  <Input value={bankForm.bankCode} onChange={(e) => setBankForm({ ...bankForm, bankCode: e.target.value })} data-testid="input-my-bank-code" />
+                </div>
+              ) : bankFormat !== "bank_code" && (
+                <div>
+                  <Label>{getBankDetailLabel(bankFormat)}</Label>
+                  <Input value={bankForm.routingNumber} onChange={(e) => setBankForm({ ...bankForm, routingNumber: e.target.value })} data-testid="input-my-routing-number" />
+                </div>
+              )}
+              <div>
+                <Label>Account number</Label>
+                <Input value={bankForm.accountNumber} onChange={(e) => setBankForm({ ...bankForm, accountNumber: e.target.value })} data-testid="input-my-account-number" />
+              </div>
+              <div>
+                <Label>Account name</Label>
+                <Input value={bankForm.accountName} onChange={(e) => setBankForm({ ...bankForm, accountName: e.target.value })} data-testid="input-my-account-name" />
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-3 mt-4">
+              <p className="text-xs text-muted-foreground">An admin checks new details before your next salary is paid into them.</p>
+              <Button
+                onClick={() => pin.requirePin(() => submitBankDetails.mutate(bankForm))}
+                disabled={!bankForm.bankName || !bankForm.accountNumber || !bankForm.accountName || submitBankDetails.isPending}
+                data-testid="button-submit-my-bank-details"
+              >
+                {submitBankDetails.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />} Submit for review
+              </Button>
+            </div>
+          </GlassCard>
+        </motion.div>
+      </motion.div>
+      {pin.PinDialogs}
+    </PageWrapper>
+  );
+}
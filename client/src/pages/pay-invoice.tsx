@@ -31,6 +31,12 @@ interface PublicInvoiceData {
     items: { description: string; quantity: number; rate?: number; price?: number; amount?: number }[];
     notes: string | null;
   };
+  // What is left to pay after partial payments and credit notes
+  amountPaid?: number;
+  amountRemaining?: number;
+  amountCredited?: number;
+  adjustedTotal?: number;
+  creditNotes?: { creditNoteNumber: string; kind: string; amount: number; reason: string; createdAt: string }[];
   companyName: string;
   companyLogo: string | null;
   stripePaymentAvailable?: boolean;
@@ -100,7 +106,10 @@ export default function PayInvoicePage() {
   const { invoice, companyName, paymentDetails, stripePaymentAvailable } = data;
   const curr = invoice.currency || "USD";
   const sym = CURRENCY_SYMBOLS[curr] || curr + " ";
-  const isPaid = invoice.status === "paid" || paymentStatus === 'success';
+  const amountDue = data.amountRemaining ?? Number(invoice.amount);
+  const amountCredited = data.amountCredited ?? 0;
+  const amountPaid = data.amountPaid ?? 0;
+  const isPaid = invoice.status === "paid" || invoice.status === "credited" || amountDue <= 0 || paymentStatus === 'success';
 
   const handlePayOnline = async () => {
     setIsPayingOnline(true);
@@ -245,9 +254,29 @@ export default function PayInvoicePage() {
                   <span>{sym}{Number(invoice.taxAmount || 0).toFixed(2)}</span>
                 </div>
               )}
+              {(amountCredited > 0 || amountPaid > 0) && (
+                <div className="flex justify-between text-sm border-t border-slate-200 pt-2">
+                  <span className="text-slate-500">Invoice Total</span>
+                  <span>{sym}{Number(invoice.amount).toFixed(2)}</span>
+                </div>
+              )}
+              {(data.creditNotes || []).map((note) => (
+                <div key={note.creditNoteNumber} className="flex justify-between text-sm" data-testid={`row-credit-note-${note.creditNoteNumber}`}>
+                  <span className="text-slate-500">
+                    {note.kind === "refund" ? "Refund" : note.kind === "write_off" ? "Write-off" : "Credit"} {note.creditNoteNumber}
+                  </span>
+                  <span className="text-emerald-600">-{sym}{note.amount.toFixed(2)}</span>
+                </div>
+              ))}
+              {amountPaid > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-500">Paid</span>
+                  <span className="text-emerald-600">-{sym}{amountPaid.toFixed(2)}</span>
+                </div>
+              )}
               <div className="flex justify-between text-lg font-bold border-t border-slate-200 pt-2">
                 <span>Total Due</span>
-                <span className="text-sky-600">{sym}{Number(invoice.amount).toFixed(2)}</span>
+                <span className="text-sky-600" data-testid="text-amount-due">{sym}{amountDue.toFixed(2)}</span>
               </div>
             </div>
 
@@ -273,7 +302,7 @@ export default function PayInvoicePage() {
                 {isPayingOnline ? (
                   <><Loader2 className="h-5 w-5 animate-spin mr-2" /> Processing...</>
                 ) : (
-                  <><CreditCard className="h-5 w-5 mr-2" /> Pay {sym}{Number(invoice.amount).toFixed(2)} with Card</>
+                  <><CreditCard className="h-5 w-5 mr-2" /> Pay {sym}{amountDue.toFixed(2)} with Card</>
                 )}
               </Button>
               <p className="text-xs text-center text-slate-500 mt-2">
@@ -8,9 +8,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, pinProtectedRequest, queryClient } from "@/lib/queryClient";
 import { usePinVerification } from "@/components/pin-verification-dialog";
+import { PayrollRuns } from "@/components/payroll-runs";
+import { BankDetailReviews } from "@/components/bank-detail-reviews";
 import { getCurrencySymbol, formatCurrencyAmount, isPaystackRegion, SUPPORTED_COUNTRIES, getBankDetailFormat, getBankDetailLabel, getCountryConfig } from "@/lib/constants";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
@@ -73,6 +76,14 @@ const departmentColors: Record<string, { badge: string; text: string; bg: string
   Support: { badge: "bg-cyan-100 text-cyan-700 dark:bg-cyan-900 dark:text-cyan-300", text: "text-cyan-600", bg: "bg-cyan-50 dark:bg-cyan-950/30" },
 };
 
+// The hand-entered part of a worked-out entry's "other" deductions.
+const manualOtherDeductions = (entry: PayrollEntry) => {
+  const statutoryOther = (entry.statutoryLines ?? [])
+    .filter((l) => l.category === "other")
+    .reduce((sum, l) => sum + l.employee, 0);
+  return Math.max(0, Math.round(((entry.deductionBreakdown as any)?.other ?? 0) * 100 - statutoryOther * 100) / 100);
+};
+
 const getAvatarGradient = (name: string) => {
   const colors = ["from-violet-400 to-violet-600", "from-emerald-400 to-emerald-600", "from-amber-400 to-amber-600", "from-rose-400 to-rose-600", "from-cyan-400 to-cyan-600"];
   const index = name.charCodeAt(0) % colors.length;
@@ -104,6 +115,7 @@ export default function PayrollPage() {
     accountName: "",
     routingNumber: "",
     country: "",
+    statutory: true,
   });
 
   const { data: settings } = useQuery<Settings>({
@@ -259,6 +271,7 @@ export default function PayrollPage() {
       accountName: "",
       routingNumber: "",
       country: "",
+      statutory: true,
     });
     setAccountValidation(null);
   };
@@ -270,7 +283,7 @@ export default function PayrollPage() {
       department: entry.department,
       salary: String(entry.salary),
       bonus: String(entry.bonus),
-      deductions: String(entry.deductions),
+      deductions: String(entry.statutoryLines ? manualOtherDeductions(entry) : entry.deductions),
       payDate: entry.payDate,
       bankName: entry.bankName || "",
       bankCode: (entry as any).bankCode || "",
@@ -278,6 +291,7 @@ export default function PayrollPage() {
       accountName: entry.accountName || "",
       routingNumber: (entry as any).routingNumber || "",
       country: (entry as any).country || "",
+      statutory: !!entry.statutoryLines,
     });
     setAccountValidation(entry.accountName ? { validated: true, name: entry.accountName } : null);
     setIsAddEmployeeOpen(true);
@@ -298,10 +312,11 @@ export default function PayrollPage() {
     }
 
     if (editingEntry) {
+      const { statutory: _statutory, ...changes } = formData;
       updateMutation.mutate({
         id: editingEntry.id,
         data: {
-          ...formData,
+          ...changes,
           salary,
           bonus,
           deductions,
@@ -604,6 +619,14 @@ export default function PayrollPage() {
           </motion.div>
         )}
 
+        <motion.div variants={fadeUp}>
+          <PayrollRuns />
+        </motion.div>
+
+        <motion.div variants={fadeUp}>
+          <BankDetailReviews />
+        </motion.div>
+
         <motion.div variants={fadeUp}>
           <Tabs defaultValue="all" className="space-y-4">
             <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
@@ -993,20 +1016,55 @@ export default function PayrollPage() {
                   <span className="text-slate-600 dark:text-slate-400 text-sm">Bonus</span>
                   <span className="font-medium text-emerald-600 dark:text-emerald-400">+{formatCurrency(Number(selectedEntry.bonus))}</span>
                 </div>
-                <div className="flex justify-between py-3 border-b border-slate-200 dark:border-slate-700">
-                  <span className="text-slate-600 dark:text-slate-400 text-sm">Deductions</span>
-                  <span className="font-medium text-rose-600 dark:text-rose-400">-{formatCurrency(Number(selectedEntry.deductions))}</span>
-                </div>
-                <div className="flex justify-between py-3 border-b border-slate-200 dark:border-slate-700">
-                  <span className="text-slate-600 dark:text-slate-400 text-sm">Est. Tax (~25%)</span>
-                  <span className="font-medium text-amber-600 dark:text-amber-400">-{formatCurrency(Number(selectedEntry.netPay) * 0.25)}</span>
-                </div>
+                {selectedEntry.statutoryLines ? (
+                  <>
+                    {selectedEntry.statutoryLines.filter((line) => line.employee > 0).map((line) => (
+                      <div key={line.code} className="flex justify-between py-3 border-b border-slate-200 dark:border-slate-700">
+                        <span className="text-slate-600 dark:text-slate-400 text-sm">{line.name}</span>
+                        <span className="font-medium text-rose-600 dark:text-rose-400">-{formatCurrency(line.employee)}</span>
+                      </div>
+                    ))}
+                    {manualOtherDeductions(selectedEntry) > 0 && (
+                      <div className="flex justify-between py-3 border-b border-slate-200 dark:border-slate-700">
+                        <span className="text-slate-600 dark:text-slate-400 text-sm">Other deductions</span>
+                        <span className="font-medium text-rose-600 dark:text-rose-400">-{formatCurrency(manualOtherDeductions(selectedEntry))}</span>
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <div className="flex justify-between py-3 border-b border-slate-200 dark:border-slate-700">
+                      <span className="text-slate-600 dark:text-slate-400 text-sm">Deductions</span>
+                      <span className="font-medium text-rose-600 dark:text-rose-400">-{formatCurrency(Number(selectedEntry.deductions))}</span>
+                    </div>
+                    <div className="flex justify-between py-3 border-b border-slate-200 dark:border-slate-700">
+                      <span className="text-slate-600 dark:text-slate-400 text-sm">Est. Tax (~25%)</span>
+                      <span className="font-medium text-amber-600 dark:text-amber-400">-{formatCurrency(Number(selectedEntry.netPay) * 0.25)}</span>
+                    </div>
+                  </>
+                )}
                 <div className="flex justify-between py-3 font-bold text-gray-900 dark:text-white">
                   <span>Net Pay</span>
                   <span className="text-violet-600 dark:text-violet-400">{formatCurrency(Number(selectedEntry.netPay))}</span>
                 </div>
               </GlassCard>
 
+              {Number(selectedEntry.employerContributions) > 0 && (
+                <GlassCard className="p-4 space-y-0">
+                  <p className="text-xs text-slate-600 dark:text-slate-400 uppercase font-medium pb-2">Employer contributions</p>
+                  {(selectedEntry.statutoryLines ?? []).filter((line) => line.employer > 0).map((line) => (
+                    <div key={line.code} className="flex justify-between py-2 border-b border-slate-200 dark:border-slate-700">
+                      <span className="text-slate-600 dark:text-slate-400 text-sm">{line.name}</span>
+                      <span className="font-medium text-gray-900 dark:text-white">{formatCurrency(line.employer)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between pt-2 text-sm font-semibold text-gray-900 dark:text-white">
+                    <span>Total employer cost</span>
+                    <span>{formatCurrency(Number(selectedEntry.netPay) + Number(selectedEntry.deductions) + Number(selectedEntry.employerContributions))}</span>
+                  </div>
+                </GlassCard>
+              )}
+
               <div className="flex items-center justify-between pt-2">
                 {getStatusBadge(selectedEntry.status)}
                 <Button variant="outline" size="sm" onClick={handlePrintPayslip} data-testid="button-print-payslip">
@@ -1098,7 +1156,7 @@ export default function PayrollPage() {
               </div>
               <div className="space-y-2">
                 <Label htmlFor="deductions" className="text-slate-700 dark:text-slate-300 text-xs">
-                  Deductions ({currencySymbol})
+                  {formData.statutory ? "Other deductions" : "Deductions"} ({currencySymbol})
                 </Label>
                 <Input
                   id="deductions"
@@ -1111,6 +1169,23 @@ export default function PayrollPage() {
                 />
               </div>
             </div>
+            <div className="flex items-center justify-between gap-4 rounded-lg border border-slate-200 dark:border-slate-700 p-3">
+              <div>
+                <Label htmlFor="statutory" className="text-slate-700 dark:text-slate-300">
+                  Calculate statutory deductions
+                </Label>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+                  Income tax, pension and social contributions for {payrollCountry}, worked out on save
+                </p>
+              </div>
+              <Switch
+                id="statutory"
+                checked={formData.statutory}
+                disabled={!!editingEntry}
+                onCheckedChange={(checked) => setFormData({ ...formData, statutory: checked })}
+                data-testid="switch-statutory"
+              />
+            </div>
             <div className="space-y-2">
               <Label htmlFor="payDate" className="text-slate-700 dark:text-slate-300">
                 Pay Date
@@ -1280,12 +1355,18 @@ export default function PayrollPage() {
                   {formatCurrency((parseFloat(formData.salary) || 0) + (parseFloat(formData.bonus) || 0) - (parseFloat(formData.deductions) || 0))}
                 </span>
               </div>
-              <div className="flex justify-between items-center border-t border-slate-200 dark:border-slate-700 pt-2">
-                <span className="text-slate-600 dark:text-slate-400 text-xs">Est. Tax (~25%)</span>
-                <span className="font-medium text-amber-600 dark:text-amber-400 text-sm">
-                  {formatCurrency(((parseFloat(formData.salary) || 0) + (parseFloat(formData.bonus) || 0) - (parseFloat(formData.deductions) || 0)) * 0.25)}
-                </span>
-              </div>
+              {formData.statutory ? (
+                <p className="border-t border-slate-200 dark:border-slate-700 pt-2 text-xs text-slate-500 dark:text-slate-400">
+                  Before statutory deductions; the final net pay is worked out when the entry is saved.
+                </p>
+              ) : (
+                <div className="flex justify-between items-center border-t border-slate-200 dark:border-slate-700 pt-2">
+                  <span className="text-slate-600 dark:text-slate-400 text-xs">Est. Tax (~25%)</span>
+                  <span className="font-medium text-amber-600 dark:text-amber-400 text-sm">
+                    {formatCurrency(((parseFloat(formData.salary) || 0) + (parseFloat(formData.bonus) || 0) - (parseFloat(formData.deductions) || 0)) * 0.25)}
+                  </span>
+                </div>
+              )}
             </GlassCard>
           </div>
           <DialogFooter>
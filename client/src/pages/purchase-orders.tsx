@@ -0,0 +1,421 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, pinProtectedRequest, queryClient, sanitizeErrorMessage } from "@/lib/queryClient";
+import { formatCurrencyAmount } from "@/lib/constants";
+import { usePinVerification } from "@/components/pin-verification-dialog";
+import { PageWrapper, PageHeader, StatusBadge, EmptyState, GlassCard, fadeUp } from "@/components/ui-extended";
+import { ClipboardList, Plus, Trash2, Loader2, Send, ShieldCheck, XCircle, PackageCheck, Lock, Ban } from "lucide-react";
+import type { Bill, GoodsReceipt, PurchaseOrder, PurchaseOrderLine, Vendor, ApprovalStep } from "@shared/schema";
+
+type PurchaseOrderDetail = PurchaseOrder & {
+  lines: PurchaseOrderLine[];
+  receipts: GoodsReceipt[];
+  bills: Bill[];
+  approvalChain: ApprovalStep[];
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: "Draft",
+  pending_approval: "Pending approval",
+  approved: "Approved",
+  partially_received: "Partially received",
+  received: "Received",
+  closed: "Closed",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+};
+
+// StatusBadge colours by the generic status the PO status resembles.
+const BADGE_STATUS: Record<string, string> = {
+  draft: "draft",
+  pending_approval: "pending",
+  approved: "approved",
+  partially_received: "processing",
+  received: "completed",
+  closed: "inactive",
+  rejected: "rejected",
+  cancelled: "inactive",
+};
+
+interface LineForm {
+  description: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+const EMPTY_LINE: LineForm = { description: "", quantity: "1", unitPrice: "" };
+
+export default function PurchaseOrders() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const pin = usePinVerification();
+  const isAdmin = user?.role === "admin" || user?.role === "owner";
+
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [vendorId, setVendorId] = useState("");
+  const [expectedDate, setExpectedDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [priceTolerance, setPriceTolerance] = useState("2");
+  const [lines, setLines] = useState<LineForm[]>([{ ...EMPTY_LINE }]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [receiving, setReceiving] = useState<Record<string, string>>({});
+
+  const listKey = statusFilter === "all" ? "/api/purchase-orders" : `/api/purchase-orders?status=${statusFilter}`;
+  const { data: orders, isLoading } = useQuery<PurchaseOrder[]>({ queryKey: [listKey] });
+  const { data: vendors } = useQuery<Vendor[]>({ queryKey: ["/api/vendors"] });
+  const { data: detail } = useQuery<PurchaseOrderDetail>({
+    queryKey: ["/api/purchase-orders", selectedId],
+    enabled: !!selectedId,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("/api/purchase-orders") });
+    queryClient.invalidateQueries({ queryKey: ["/api/bills"] });
+  };
+
+  const resetForm = () => {
+    setVendorId("");
+    setExpectedDate("");
+    setNotes("");
+    setPriceTolerance("2");
+    setLines([{ ...EMPTY_LINE }]);
+  };
+
+  const formTotal = lines.reduce((sum, l) => sum + (parseFloat(l.quantity) || 0) * (parseFloat(l.unitPrice) || 0), 0);
+  const formValid = !!vendorId && lines.every((l) => l.description.trim() && parseFloat(l.quantity) > 0 && parseFloat(l.unitPrice) >= 0);
+
+  const createMutation = useMutation({
+    mutationFn: async () => (await apiRequest("POST", "/api/purchase-orders", {
+      vendorId,
+      expectedDate: expectedDate || null,
+      notes: notes || null,
+      priceTolerancePercent: priceTolerance,
+      lines: lines.map((l) => ({ description: l.description.trim(), quantity: l.quantity, unitPrice: l.unitPrice })),
+    })).json(),
+    onSuccess: (po: PurchaseOrder) => {
+      toast({ title: `${po.poNumber} created`, description: "Submit it for approval when it is ready." });
+      setIsCreateOpen(false);
+      resetForm();
+      refresh();
+      setSelectedId(po.id);
+    },
+    onError: (error: any) => toast({ title: "Failed to create purchase order", description: sanitizeErrorMessage(error), variant: "destructive" }),
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action, body }: { id: string; action: "submit" | "approve" | "reject" | "close" | "cancel"; body?: object }) => {
+      const request = action === "approve" || action === "reject" ? pinProtectedRequest : apiRequest;
+      const res = await request("POST", `/api/purchase-orders/${id}/${action}`, body);
+      return { status: res.status, body: await res.json() };
+    },
+    onSuccess: ({ status, body }, { action }) => {
+      const titles = {
+        submit: "Submitted for approval",
+        approve: status === 202 ? "Approval recorded" : "Purchase order approved",
+        reject: "Purchase order rejected",
+        close: "Purchase order closed",
+        cancel: "Purchase order cancelled",
+      };
+      toast({ title: titles[action], description: status === 202 ? body.message : undefined });
+      refresh();
+    },
+    onError: (error: any, variables) => {
+      if (pin.handlePinError(error, () => actionMutation.mutate(variables))) return;
+      toast({ title: "Action failed", description: sanitizeErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async (id: string) => (await apiRequest("POST", `/api/purchase-orders/${id}/receipts`, {
+      lines: Object.entries(receiving)
+        .filter(([, qty]) => parseFloat(qty) > 0)
+        .map(([poLineId, qty]) => ({ poLineId, quantity: qty })),
+    })).json(),
+    onSuccess: (data: { receipt: GoodsReceipt }) => {
+      toast({ title: `Receipt ${data.receipt.receiptNumber} recorded` });
+      setReceiving({});
+      refresh();
+    },
+    onError: (error: any) => toast({ title: "Failed to record receipt", description: sanitizeErrorMessage(error), variant: "destructive" }),
+  });
+
+  const updateLine = (index: number, field: keyof LineForm, value: string) => {
+    setLines((prev) => prev.map((l, i) => (i === index ? { ...l, [field]: value } : l)));
+  };
+
+  const busy = actionMutation.isPending;
+  const canReceive = detail && (detail.status === "approved" || detail.status === "partially_received");
+  const hasReceiptLines = Object.values(receiving).some((qty) => parseFloat(qty) > 0);
+
+  return (
+    <PageWrapper>
+      <motion.div variants={fadeUp} initial="initial" animate="animate" className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+          <PageHeader title="Purchase Orders" subtitle="Order from vendors, receive goods and match the bills against both" />
+          <div className="flex gap-2">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[180px]" data-testid="select-po-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => setIsCreateOpen(true)} className="bg-violet-600 hover:bg-violet-700" data-testid="button-new-po">
+              <Plus className="mr-2 h-4 w-4" />
+              New Purchase Order
+            </Button>
+          </div>
+        </div>
+
+        <GlassCard padding="p-0">
+          {isLoading ? (
+            <div className="p-6 space-y-3">
+              {[1, 2, 3].map((i) => <Skeleton key={i} className="h-14 w-full" />)}
+            </div>
+          ) : orders && orders.length > 0 ? (
+            <div className="divide-y">
+              {orders.map((po) => (
+                <button
+                  key={po.id}
+                  type="button"
+                  onClick={() => { setSelectedId(po.id); setReceiving({}); }}
+                  className="w-full flex items-center justify-between gap-4 p-4 text-left hover:bg-slate-50 dark:hover:bg-slate-900/50 transition-colors"
+                  data-testid={`row-po-${po.id}`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold truncate">{po.poNumber} · {po.vendorName}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {po.expectedDate ? `Expected ${new Date(po.expectedDate).toLocaleDateString()}` : "No expected date"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3 flex-shrink-0">
+                    <span className="text-sm font-bold">{formatCurrencyAmount(Number(po.totalAmount), po.currency)}</span>
+                    <StatusBadge status={BADGE_STATUS[po.status] ?? "pending"} label={STATUS_LABELS[po.status] ?? po.status} />
+                  </div>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <EmptyState
+              icon={ClipboardList}
+              title="No purchase orders"
+              description="Create a purchase order before ordering from a vendor so its bill can be matched against what was ordered and received."
+            />
+          )}
+        </GlassCard>
+      </motion.div>
+
+      {/* Create */}
+      <Dialog open={isCreateOpen} onOpenChange={(open) => { setIsCreateOpen(open); if (!open) resetForm(); }}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Purchase Order</DialogTitle>
+            <DialogDescription>The order is saved as a draft until it is submitted for approval.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5 col-span-2">
+                <Label>Vendor</Label>
+                <Select value={vendorId} onValueChange={setVendorId}>
+                  <SelectTrigger data-testid="select-po-vendor"><SelectValue placeholder="Select a vendor" /></SelectTrigger>
+                  <SelectContent>
+                    {vendors?.map((v) => <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Expected delivery</Label>
+                <Input type="date" value={expectedDate} onChange={(e) => setExpectedDate(e.target.value)} data-testid="input-po-expected-date" />
+              </div>
+              <div className="space-y-1.5">
+                <Label>Price tolerance (%)</Label>
+                <Input type="number" min="0" max="100" step="0.5" value={priceTolerance} onChange={(e) => setPriceTolerance(e.target.value)} data-testid="input-po-price-tolerance" />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Lines</Label>
+              {lines.map((line, i) => (
+                <div key={i} className="flex gap-2 items-center">
+                  <Input className="flex-1" placeholder="Description" value={line.description} onChange={(e) => updateLine(i, "description", e.target.value)} data-testid={`input-po-line-description-${i}`} />
+                  <Input className="w-20" type="number" min="0" placeholder="Qty" value={line.quantity} onChange={(e) => updateLine(i, "quantity", e.target.value)} data-testid={`input-po-line-quantity-${i}`} />
+                  <Input className="w-28" type="number" min="0" step="0.01" placeholder="Unit price" value={line.unitPrice} onChange={(e) => updateLine(i, "unitPrice", e.target.value)} data-testid={`input-po-line-price-${i}`} />
+                  <Button variant="ghost" size="icon" disabled={lines.length === 1} onClick={() => setLines((prev) => prev.filter((_, j) => j !== i))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setLines((prev) => [...prev, { ...EMPTY_LINE }])} data-testid="button-add-po-line">
+                <Plus className="h-4 w-4 mr-1" />Add line
+              </Button>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label>Notes</Label>
+              <Textarea rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+            <p className="text-sm font-semibold text-right">Total {formTotal.toFixed(2)}</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+            <Button disabled={!formValid || createMutation.isPending} onClick={() => createMutation.mutate()} data-testid="button-create-po">
+              {createMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Create Draft
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Detail */}
+      <Dialog open={!!selectedId} onOpenChange={(open) => { if (!open) { setSelectedId(null); setReceiving({}); } }}>
+        <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+          {!detail ? (
+            <div className="space-y-3 py-6">
+              <Skeleton className="h-6 w-1/2" />
+              <Skeleton className="h-24 w-full" />
+            </div>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-3">
+                  {detail.poNumber}
+                  <StatusBadge status={BADGE_STATUS[detail.status] ?? "pending"} label={STATUS_LABELS[detail.status] ?? detail.status} />
+                </DialogTitle>
+                <DialogDescription>
+                  {detail.vendorName} · {formatCurrencyAmount(Number(detail.totalAmount), detail.currency)}
+                  {detail.rejectionReason ? ` · Rejected: ${detail.rejectionReason}` : ""}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-5">
+                <div className="rounded-lg border divide-y">
+                  {detail.lines.map((line) => (
+                    <div key={line.id} className="flex items-center justify-between gap-3 p-3 text-sm">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{line.description}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {Number(line.receivedQuantity)} of {Number(line.quantity)} received · {formatCurrencyAmount(Number(line.unitPrice), detail.currency)} each
+                        </p>
+                      </div>
+                      {canReceive && (
+                        <Input
+                          className="w-24"
+                          type="number"
+                          min="0"
+                          placeholder="Receive"
+                          value={receiving[line.id] ?? ""}
+                          onChange={(e) => setReceiving((prev) => ({ ...prev, [line.id]: e.target.value }))}
+                          data-testid={`input-receive-${line.id}`}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {detail.approvalChain.length > 0 && detail.status === "pending_approval" && (
+                  <div className="text-xs text-muted-foreground">
+                    Approvals: {detail.approvalChain.map((s) => `${s.label} (${s.status})`).join(" → ")}
+                  </div>
+                )}
+
+                {detail.receipts.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-sm font-semibold">Goods receipts</p>
+                    {detail.receipts.map((r) => (
+                      <p key={r.id} className="text-xs text-muted-foreground">
+                        {r.receiptNumber} · {new Date(r.receivedDate).toLocaleDateString()} · {r.receivedByName ?? "Unknown"}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {detail.bills.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-sm font-semibold">Bills</p>
+                    {detail.bills.map((b) => (
+                      <div key={b.id} className="text-xs">
+                        <span className="font-medium">{b.name}</span>
+                        <span className="text-muted-foreground"> · {formatCurrencyAmount(Number(b.amount), b.currency)} · {b.status} · {b.matchOverrideAt ? "override" : b.matchStatus ?? "not matched"}</span>
+                        {b.matchStatus === "exception" && !b.matchOverrideAt && (
+                          <ul className="list-disc pl-5 text-amber-600 dark:text-amber-400">
+                            {(b.matchExceptions ?? []).map((e, i) => <li key={i}>{e.message}</li>)}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <DialogFooter className="flex-wrap gap-2">
+                {(detail.status === "draft" || detail.status === "rejected") && (
+                  <Button disabled={busy} onClick={() => actionMutation.mutate({ id: detail.id, action: "submit" })} data-testid="button-submit-po">
+                    <Send className="h-4 w-4 mr-1" />Submit for Approval
+                  </Button>
+                )}
+                {detail.status === "pending_approval" && (
+                  <>
+                    <Button disabled={busy} onClick={() => pin.requirePin(() => actionMutation.mutate({ id: detail.id, action: "approve" }))} data-testid="button-approve-po">
+                      <ShieldCheck className="h-4 w-4 mr-1" />Approve
+                    </Button>
+                    {isAdmin && (
+                      <Button variant="outline" disabled={busy} onClick={() => pin.requirePin(() => actionMutation.mutate({ id: detail.id, action: "reject" }))} data-testid="button-reject-po">
+                        <XCircle className="h-4 w-4 mr-1" />Reject
+                      </Button>
+                    )}
+                  </>
+                )}
+                {canReceive && (
+                  <Button disabled={!hasReceiptLines || receiveMutation.isPending} onClick={() => receiveMutation.mutate(detail.id)} data-testid="button-receive-po">
+                    {receiveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <PackageCheck className="h-4 w-4 mr-1" />}
+                    Record Receipt
+                  </Button>
+                )}
+                {isAdmin && ["approved", "partially_received", "received"].includes(detail.status) && (
+                  <Button variant="outline" disabled={busy} onClick={() => actionMutation.mutate({ id: detail.id, action: "close" })} data-testid="button-close-po">
+                    <Lock className="h-4 w-4 mr-1" />Close
+                  </Button>
+                )}
+                {isAdmin && detail.receipts.length === 0 && detail.bills.length === 0 && !["closed", "cancelled"].includes(detail.status) && (
+                  <Button variant="ghost" disabled={busy} onClick={() => actionMutation.mutate({ id: detail.id, action: "cancel" })} data-testid="button-cancel-po">
+                    <Ban className="h-4 w-4 mr-1" />Cancel Order
+                  </Button>
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {pin.PinDialogs}
+    </PageWrapper>
+  );
+}
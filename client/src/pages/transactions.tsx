@@ -14,6 +14,8 @@ import { useAuth } from "@/lib/auth";
 import { apiRequest, pinProtectedRequest, queryClient, getAuthHeaders, sanitizeErrorMessage } from "@/lib/queryClient";
 import { getCurrencySymbol, formatCurrencyAmount, isPaystackRegion, PAYMENT_LIMITS } from "@/lib/constants";
 import { usePinVerification } from "@/components/pin-verification-dialog";
+import { BankStatementReview } from "@/components/bank-statement-review";
+import { FxConvertDialog } from "@/components/fx-convert-dialog";
 import {
   Dialog,
   DialogContent,
@@ -82,6 +84,7 @@ type QuickAction = {
 const QUICK_ACTIONS: QuickAction[] = [
   { id: "fund", label: "Fund Wallet", description: "Add money to your wallet", icon: Plus, gradient: "from-emerald-500/15 to-emerald-600/5", iconColor: "text-emerald-600 dark:text-emerald-400" },
   { id: "transfer", label: "Send Money", description: "Transfer to any account", icon: Send, gradient: "from-blue-500/15 to-blue-600/5", iconColor: "text-blue-600 dark:text-blue-400" },
+  { id: "convert", label: "Convert", description: "Between your wallets", icon: ArrowRightLeft, gradient: "from-sky-500/15 to-sky-600/5", iconColor: "text-sky-600 dark:text-sky-400" },
   { id: "withdraw", label: "Withdraw", description: "Cash out to bank", icon: Banknote, gradient: "from-amber-500/15 to-amber-600/5", iconColor: "text-amber-600 dark:text-amber-400" },
   { id: "bill", label: "Pay Bill", description: "Utilities & subscriptions", icon: Receipt, gradient: "from-purple-500/15 to-purple-600/5", iconColor: "text-purple-600 dark:text-purple-400" },
   { id: "payout", label: "Payout", description: "Vendor & salary payouts", icon: ArrowUpRight, gradient: "from-rose-500/15 to-rose-600/5", iconColor: "text-rose-600 dark:text-rose-400" },
@@ -102,6 +105,7 @@ export default function Transactions() {
   const [isFundOpen, setIsFundOpen] = useState(false);
   const [isTransferOpen, setIsTransferOpen] = useState(false);
   const [isWithdrawOpen, setIsWithdrawOpen] = useState(false);
+  const [isConvertOpen, setIsConvertOpen] = useState(false);
   const [isRecordOpen, setIsRecordOpen] = useState(false);
 
   const [fundingAmount, setFundingAmount] = useState("");
@@ -118,6 +122,9 @@ export default function Transactions() {
 
   const [recordForm, setRecordForm] = useState({ type: "Deposit", amount: "", description: "" });
 
+  // Statement reconciliation is admin-only on the server too.
+  const canReconcileStatements = ["admin", "owner"].includes(user?.role?.toLowerCase() ?? "");
+
   const searchParams = useSearch();
   const pin = usePinVerification();
 
@@ -389,6 +396,7 @@ export default function Transactions() {
     switch (actionId) {
       case "fund": setIsFundOpen(true); break;
       case "transfer": setIsTransferOpen(true); break;
+      case "convert": setIsConvertOpen(true); break;
       case "withdraw": setIsWithdrawOpen(true); break;
       case "bill": setLocation("/bills"); break;
       case "payout": setLocation("/payroll"); break;
@@ -501,7 +509,7 @@ export default function Transactions() {
 
       <div>
         <SectionLabel>Quick Actions</SectionLabel>
-        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-3 mt-3">
+        <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-7 gap-3 mt-3">
           {QUICK_ACTIONS.map((action) => (
             <Card
               key={action.id}
@@ -668,6 +676,8 @@ export default function Transactions() {
         </div>
       </GlassCard>
 
+      {canReconcileStatements && <BankStatementReview />}
+
       <Dialog open={isFundOpen} onOpenChange={setIsFundOpen}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
@@ -1043,6 +1053,8 @@ export default function Transactions() {
         </DialogContent>
       </Dialog>
 
+      <FxConvertDialog open={isConvertOpen} onOpenChange={setIsConvertOpen} />
+
       {pin.PinDialogs}
     </PageWrapper>
   );
@@ -0,0 +1,180 @@
+-- Double-entry general ledger underneath wallet_transactions /
+-- transactions / company_balances.
+--
+-- Adds ledger_accounts, journal_entries and ledger_postings (see the
+-- DOUBLE-ENTRY LEDGER block in shared/schema.ts) and backfills an
+-- opening-balance entry for every existing wallet and company balance
+-- so balances derived from postings match the denormalized columns
+-- from day one. Posting rules live in server/lib/ledger.ts.
+--
+-- Numbered 0018 because 0017 is reserved by
+-- migrations-deferred/0017_wallet_transactions_reference_unique.sql.
+--
+-- Idempotent — tables / indexes use IF NOT EXISTS, the backfill keys
+-- on journal_entries.idempotency_key, and the trigger is recreated.
+
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+  id          varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id  text         REFERENCES companies(id) ON DELETE SET NULL,
+  code        text         NOT NULL,
+  name        text         NOT NULL,
+  type        text         NOT NULL,       -- asset | liability | equity | revenue | expense
+  currency    text         NOT NULL,
+  wallet_id   text         REFERENCES wallets(id) ON DELETE SET NULL,
+  created_at  text         NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ledger_accounts_code_currency_unique
+  ON ledger_accounts (code, currency);
+CREATE INDEX IF NOT EXISTS ledger_accounts_company_id_idx
+  ON ledger_accounts (company_id);
+CREATE INDEX IF NOT EXISTS ledger_accounts_wallet_id_idx
+  ON ledger_accounts (wallet_id);
+
+CREATE TABLE IF NOT EXISTS journal_entries (
+  id               varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id       text         REFERENCES companies(id) ON DELETE SET NULL,
+  description      text         NOT NULL,
+  source_type      text         NOT NULL,
+  source_id        text,
+  reference        text,
+  idempotency_key  text         UNIQUE,
+  metadata         jsonb,
+  posted_at        text         NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS journal_entries_company_posted_idx
+  ON journal_entries (company_id, posted_at);
+CREATE INDEX IF NOT EXISTS journal_entries_source_idx
+  ON journal_entries (source_type, source_id);
+
+CREATE TABLE IF NOT EXISTS ledger_postings (
+  id          varchar(36)    PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id    text           NOT NULL REFERENCES journal_entries(id),
+  account_id  text           NOT NULL REFERENCES ledger_accounts(id),
+  amount      numeric(16,2)  NOT NULL,  -- positive = debit, negative = credit
+  currency    text           NOT NULL,
+  created_at  text           NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ledger_postings_entry_id_idx
+  ON ledger_postings (entry_id);
+CREATE INDEX IF NOT EXISTS ledger_postings_account_id_idx
+  ON ledger_postings (account_id);
+
+-- Balance guard. Runs at COMMIT (deferred) so an entry's postings can
+-- be inserted one row at a time; any (entry, currency) that does not
+-- net to zero aborts the whole transaction, including the wallet /
+-- balance write it was posted alongside. server/lib/ledger.ts
+-- assertBalanced catches the same condition earlier with a clearer
+-- error; this is the backstop for writes that bypass storage.ts.
+CREATE OR REPLACE FUNCTION ledger_assert_entry_balanced() RETURNS trigger AS $$
+DECLARE
+  net numeric;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0) INTO net
+    FROM ledger_postings
+   WHERE entry_id = NEW.entry_id AND currency = NEW.currency;
+  IF net <> 0 THEN
+    RAISE EXCEPTION 'LEDGER_UNBALANCED: entry % does not net to zero in % (%)', NEW.entry_id, NEW.currency, net;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ledger_postings_balanced ON ledger_postings;
+
+CREATE CONSTRAINT TRIGGER ledger_postings_balanced
+  AFTER INSERT ON ledger_postings
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION ledger_assert_entry_balanced();
+
+-- Opening balances: one account per wallet, one per company balance
+-- field, and a per-company opening_balance equity account as the
+-- counter-leg. Codes match server/lib/ledger.ts walletAccount /
+-- companyBalanceAccount / companyAccount.
+INSERT INTO ledger_accounts (company_id, code, name, type, currency, wallet_id)
+SELECT w.company_id, 'wallet:' || w.id, 'Wallet ' || w.id, 'asset', w.currency, w.id
+  FROM wallets w
+ON CONFLICT (code, currency) DO NOTHING;
+
+INSERT INTO ledger_accounts (company_id, code, name, type, currency)
+SELECT DISTINCT w.company_id, COALESCE(w.company_id, 'platform') || ':opening_balance',
+       'Opening balance equity', 'equity', w.currency
+  FROM wallets w
+ WHERE w.balance <> 0
+ON CONFLICT (code, currency) DO NOTHING;
+
+INSERT INTO journal_entries (company_id, description, source_type, source_id, idempotency_key)
+SELECT w.company_id, 'Opening balance', 'opening_balance', w.id, 'opening_balance:wallet:' || w.id
+  FROM wallets w
+ WHERE w.balance <> 0
+ON CONFLICT (idempotency_key) DO NOTHING;
+
+INSERT INTO ledger_postings (entry_id, account_id, amount, currency)
+SELECT je.id, la.id, w.balance, w.currency
+  FROM wallets w
+  JOIN journal_entries je ON je.idempotency_key = 'opening_balance:wallet:' || w.id
+  JOIN ledger_accounts la ON la.code = 'wallet:' || w.id AND la.currency = w.currency
+ WHERE NOT EXISTS (SELECT 1 FROM ledger_postings p WHERE p.entry_id = je.id)
+UNION ALL
+SELECT je.id, la.id, -w.balance, w.currency
+  FROM wallets w
+  JOIN journal_entries je ON je.idempotency_key = 'opening_balance:wallet:' || w.id
+  JOIN ledger_accounts la ON la.code = COALESCE(w.company_id, 'platform') || ':opening_balance' AND la.currency = w.currency
+ WHERE NOT EXISTS (SELECT 1 FROM ledger_postings p WHERE p.entry_id = je.id);
+
+INSERT INTO ledger_accounts (company_id, code, name, type, currency)
+SELECT cb.company_id, cb.company_id || ':company_balance:usd', 'Company balance (USD)', 'asset', 'USD'
+  FROM company_balances cb
+ON CONFLICT (code, currency) DO NOTHING;
+
+INSERT INTO ledger_accounts (company_id, code, name, type, currency)
+SELECT cb.company_id, cb.company_id || ':company_balance:local', 'Company balance (local)', 'asset', cb.local_currency
+  FROM company_balances cb
+ON CONFLICT (code, currency) DO NOTHING;
+
+INSERT INTO ledger_accounts (company_id, code, name, type, currency)
+SELECT cb.company_id, cb.company_id || ':opening_balance', 'Opening balance equity', 'equity', 'USD'
+  FROM company_balances cb
+ WHERE cb.usd <> 0
+UNION
+SELECT cb.company_id, cb.company_id || ':opening_balance', 'Opening balance equity', 'equity', cb.local_currency
+  FROM company_balances cb
+ WHERE cb.local <> 0
+ON CONFLICT (code, currency) DO NOTHING;
+
+INSERT INTO journal_entries (company_id, description, source_type, source_id, idempotency_key)
+SELECT cb.company_id, 'Opening balance (USD)', 'opening_balance', cb.id, 'opening_balance:company_balance:usd:' || cb.company_id
+  FROM company_balances cb
+ WHERE cb.usd <> 0
+UNION ALL
+SELECT cb.company_id, 'Opening balance (local)', 'opening_balance', cb.id, 'opening_balance:company_balance:local:' || cb.company_id
+  FROM company_balances cb
+ WHERE cb.local <> 0
+ON CONFLICT (idempotency_key) DO NOTHING;
+
+INSERT INTO ledger_postings (entry_id, account_id, amount, currency)
+SELECT je.id, la.id, cb.usd, 'USD'
+  FROM company_balances cb
+  JOIN journal_entries je ON je.idempotency_key = 'opening_balance:company_balance:usd:' || cb.company_id
+  JOIN ledger_accounts la ON la.code = cb.company_id || ':company_balance:usd' AND la.currency = 'USD'
+ WHERE NOT EXISTS (SELECT 1 FROM ledger_postings p WHERE p.entry_id = je.id)
+UNION ALL
+SELECT je.id, la.id, -cb.usd, 'USD'
+  FROM company_balances cb
+  JOIN journal_entries je ON je.idempotency_key = 'opening_balance:company_balance:usd:' || cb.company_id
+  JOIN ledger_accounts la ON la.code = cb.company_id || ':opening_balance' AND la.currency = 'USD'
+ WHERE NOT EXISTS (SELECT 1 FROM ledger_postings p WHERE p.entry_id = je.id)
+UNION ALL
+SELECT je.id, la.id, cb.local, cb.local_currency
+  FROM company_balances cb
+  JOIN journal_entries je ON je.idempotency_key = 'opening_balance:company_balance:local:' || cb.company_id
+  JOIN ledger_accounts la ON la.code = cb.company_id || ':company_balance:local' AND la.currency = cb.local_currency
+ WHERE NOT EXISTS (SELECT 1 FROM ledger_postings p WHERE p.entry_id = je.id)
+UNION ALL
+SELECT je.id, la.id, -cb.local, cb.local_currency
+  FROM company_balances cb
+  JOIN journal_entries je ON je.idempotency_key = 'opening_balance:company_balance:local:' || cb.company_id
+  JOIN ledger_accounts la ON la.code = cb.company_id || ':opening_balance' AND la.currency = cb.local_currency
+ WHERE NOT EXISTS (SELECT 1 FROM ledger_postings p WHERE p.entry_id = je.id);
@@ -0,0 +1,58 @@
+-- LU-014 — daily Stripe / Paystack reconciliation.
+--
+-- reconciliation_runs records each provider × window pass of
+-- server/reconciliationScheduler.ts; reconciliation_exceptions holds
+-- the mismatches it finds (missing locally, missing at provider,
+-- amount / currency / status drift) for admin review at
+-- /admin/reconciliation.
+--
+-- Idempotent — every table / index uses IF NOT EXISTS.
+
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+  id                     varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider               text         NOT NULL,
+  window_start           text         NOT NULL,
+  window_end             text         NOT NULL,
+  status                 text         NOT NULL DEFAULT 'running',
+  provider_record_count  integer      NOT NULL DEFAULT 0,
+  local_record_count     integer      NOT NULL DEFAULT 0,
+  matched_count          integer      NOT NULL DEFAULT 0,
+  exception_count        integer      NOT NULL DEFAULT 0,
+  error                  text,
+  started_at             text         NOT NULL DEFAULT now(),
+  finished_at            text
+);
+
+CREATE INDEX IF NOT EXISTS reconciliation_runs_provider_started_idx
+  ON reconciliation_runs (provider, started_at);
+
+CREATE TABLE IF NOT EXISTS reconciliation_exceptions (
+  id                  varchar(36)    PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id              text           REFERENCES reconciliation_runs(id) ON DELETE SET NULL,
+  fingerprint         text           NOT NULL UNIQUE,   -- provider:kind:reference
+  provider            text           NOT NULL,
+  kind                text           NOT NULL,
+  object_type         text           NOT NULL,
+  provider_reference  text,
+  local_entity_type   text,
+  local_entity_id     text,
+  company_id          text           REFERENCES companies(id) ON DELETE SET NULL,
+  currency            text,
+  provider_amount     numeric(16,2),
+  local_amount        numeric(16,2),
+  provider_status     text,
+  local_status        text,
+  details             jsonb,
+  status              text           NOT NULL DEFAULT 'open',  -- open | resolved | ignored
+  resolution_note     text,
+  resolved_by         text,
+  resolved_at         text,
+  occurrences         integer        NOT NULL DEFAULT 1,
+  first_seen_at       text           NOT NULL DEFAULT now(),
+  last_seen_at        text           NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS reconciliation_exceptions_status_idx
+  ON reconciliation_exceptions (status, last_seen_at);
+CREATE INDEX IF NOT EXISTS reconciliation_exceptions_company_id_idx
+  ON reconciliation_exceptions (company_id);
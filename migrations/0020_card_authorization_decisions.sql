@@ -0,0 +1,40 @@
+-- Real-time Stripe Issuing authorization decisions.
+--
+-- virtual_cards gains the spending controls that
+-- server/lib/card-authorization.ts enforces while Stripe waits on the
+-- issuing_authorization.request webhook; card_authorizations stores
+-- every decision with its reason so the cards page can show why a
+-- purchase was declined.
+--
+-- Idempotent — every column / table / index uses IF NOT EXISTS.
+
+ALTER TABLE virtual_cards ADD COLUMN IF NOT EXISTS spending_limit_interval text;
+ALTER TABLE virtual_cards ADD COLUMN IF NOT EXISTS allowed_categories jsonb;
+ALTER TABLE virtual_cards ADD COLUMN IF NOT EXISTS blocked_categories jsonb;
+ALTER TABLE virtual_cards ADD COLUMN IF NOT EXISTS budget_category text;
+
+CREATE TABLE IF NOT EXISTS card_authorizations (
+  id                       varchar(36)    PRIMARY KEY DEFAULT gen_random_uuid(),
+  stripe_authorization_id  text           NOT NULL,
+  stripe_card_id           text,
+  card_id                  text           REFERENCES virtual_cards(id) ON DELETE CASCADE,
+  company_id               text           REFERENCES companies(id) ON DELETE SET NULL,
+  amount                   numeric(12,2)  NOT NULL,
+  currency                 text           NOT NULL,
+  merchant_name            text,
+  merchant_category        text,
+  spend_category           text,
+  budget_id                text           REFERENCES budgets(id) ON DELETE SET NULL,
+  approved                 boolean        NOT NULL,
+  reason_code              text           NOT NULL,
+  reason                   text           NOT NULL,
+  details                  jsonb,
+  created_at               text           NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS card_authorizations_stripe_authorization_id_idx
+  ON card_authorizations (stripe_authorization_id);
+CREATE INDEX IF NOT EXISTS card_authorizations_card_id_idx
+  ON card_authorizations (card_id, created_at);
+CREATE INDEX IF NOT EXISTS card_authorizations_budget_id_idx
+  ON card_authorizations (budget_id, created_at);
@@ -0,0 +1,29 @@
+-- Receipt OCR on POST /upload/receipt.
+--
+-- receipt_scans keeps the draft (merchant, date, total, currency, tax
+-- lines with per-field confidence) extracted from each uploaded file.
+-- expenses gains the OCR total for its receipt and a mismatch flag that
+-- is raised when the typed amount disagrees, so approvers see it.
+--
+-- Idempotent — every column / table / index uses IF NOT EXISTS.
+
+CREATE TABLE IF NOT EXISTS receipt_scans (
+  id           varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_url     text         NOT NULL,
+  user_id      text         NOT NULL,
+  company_id   text         REFERENCES companies(id) ON DELETE SET NULL,
+  engine       text         NOT NULL,
+  status       text         NOT NULL,
+  draft        jsonb,
+  raw_text     text,
+  error        text,
+  duration_ms  integer,
+  created_at   text         NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS receipt_scans_file_url_idx ON receipt_scans (file_url);
+CREATE INDEX IF NOT EXISTS receipt_scans_company_id_idx ON receipt_scans (company_id);
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS receipt_ocr_amount numeric(12,2);
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS receipt_ocr_currency text;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS receipt_amount_mismatch boolean NOT NULL DEFAULT false;
@@ -0,0 +1,50 @@
+-- Configurable multi-step approval policies.
+--
+-- approval_policies holds each company's ordered rules (conditions plus
+-- an ordered list of approver steps) for expenses, bills and payouts.
+-- approval_steps is the chain planned for one entity the first time it
+-- is submitted for approval; each row is one approver step and records
+-- who acted on it and when.
+--
+-- Idempotent — every table / index uses IF NOT EXISTS.
+
+CREATE TABLE IF NOT EXISTS approval_policies (
+  id             varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id     text         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name           text         NOT NULL,
+  entity_types   jsonb        NOT NULL,
+  priority       integer      NOT NULL DEFAULT 100,
+  is_active      boolean      NOT NULL DEFAULT true,
+  stop_on_match  boolean      NOT NULL DEFAULT false,
+  conditions     jsonb        NOT NULL,
+  steps          jsonb        NOT NULL,
+  created_by     text,
+  created_at     text         NOT NULL DEFAULT now(),
+  updated_at     text         NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS approval_policies_company_id_idx ON approval_policies (company_id);
+
+CREATE TABLE IF NOT EXISTS approval_steps (
+  id                  varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id          text         REFERENCES companies(id) ON DELETE CASCADE,
+  entity_type         text         NOT NULL,
+  entity_id           text         NOT NULL,
+  step_index          integer      NOT NULL,
+  policy_id           text         REFERENCES approval_policies(id) ON DELETE SET NULL,
+  policy_name         text         NOT NULL,
+  approver_type       text         NOT NULL,
+  approver_role       text,
+  approver_member_id  text,
+  department_id       text,
+  label               text         NOT NULL,
+  status              text         NOT NULL DEFAULT 'pending',
+  acted_by            text,
+  acted_by_name       text,
+  acted_at            text,
+  comment             text,
+  created_at          text         NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS approval_steps_entity_step_idx ON approval_steps (entity_type, entity_id, step_index);
+CREATE INDEX IF NOT EXISTS approval_steps_company_id_idx ON approval_steps (company_id);
@@ -0,0 +1,56 @@
+-- Accounting export (QuickBooks IIF, Xero manual journal CSV, generic
+-- journal CSV).
+--
+-- gl_account_mappings maps a company's expense categories, vendors,
+-- departments and control accounts to GL account codes and tax codes.
+-- accounting_exports keeps each generated file; accounting_export_items
+-- holds one row per exported source event so nothing is exported twice.
+--
+-- Idempotent — every table / index uses IF NOT EXISTS.
+
+CREATE TABLE IF NOT EXISTS gl_account_mappings (
+  id            varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id    text         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  source_type   text         NOT NULL,
+  source_key    text         NOT NULL,
+  account_code  text         NOT NULL,
+  account_name  text,
+  tax_code      text,
+  created_at    text         NOT NULL DEFAULT now(),
+  updated_at    text         NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS gl_account_mappings_source_unique ON gl_account_mappings (company_id, source_type, source_key);
+
+CREATE TABLE IF NOT EXISTS accounting_exports (
+  id               varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id       text         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  format           text         NOT NULL,
+  start_date       text         NOT NULL,
+  end_date         text         NOT NULL,
+  source_types     jsonb        NOT NULL,
+  currency         text,
+  entry_count      integer      NOT NULL DEFAULT 0,
+  file_name        text         NOT NULL,
+  content          text         NOT NULL,
+  status           text         NOT NULL DEFAULT 'completed',
+  created_by       text,
+  created_by_name  text,
+  created_at       text         NOT NULL DEFAULT now(),
+  voided_by        text,
+  voided_at        text
+);
+
+CREATE INDEX IF NOT EXISTS accounting_exports_company_created_idx ON accounting_exports (company_id, created_at);
+
+CREATE TABLE IF NOT EXISTS accounting_export_items (
+  id           varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  export_id    text         NOT NULL REFERENCES accounting_exports(id) ON DELETE CASCADE,
+  company_id   text         NOT NULL,
+  source_type  text         NOT NULL,
+  source_id    text         NOT NULL,
+  created_at   text         NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS accounting_export_items_source_unique ON accounting_export_items (company_id, source_type, source_id);
+CREATE INDEX IF NOT EXISTS accounting_export_items_export_id_idx ON accounting_export_items (export_id);
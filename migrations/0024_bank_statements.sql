@@ -0,0 +1,55 @@
+-- Bank statement import (CSV, OFX/QFX, SWIFT MT940) and matching.
+--
+-- bank_statement_imports records each uploaded file; bank_statement_lines
+-- stages its lines with suggested matches against transactions, paid
+-- bills, invoice payments and payouts. dedupe_key stops the same line
+-- being staged twice when overlapping statements are imported, and the
+-- partial unique index stops one record backing two lines.
+--
+-- Idempotent — every table / index uses IF NOT EXISTS.
+
+CREATE TABLE IF NOT EXISTS bank_statement_imports (
+  id                   varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id           text         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  file_name            text         NOT NULL,
+  format               text         NOT NULL,
+  account_identifier   text,
+  currency             text,
+  statement_start      text,
+  statement_end        text,
+  line_count           integer      NOT NULL DEFAULT 0,
+  duplicate_count      integer      NOT NULL DEFAULT 0,
+  imported_by          text,
+  imported_by_name     text,
+  created_at           text         NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS bank_statement_imports_company_created_idx ON bank_statement_imports (company_id, created_at);
+
+CREATE TABLE IF NOT EXISTS bank_statement_lines (
+  id                   varchar(36)    PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_id            text           NOT NULL REFERENCES bank_statement_imports(id) ON DELETE CASCADE,
+  company_id           text           NOT NULL,
+  line_index           integer        NOT NULL,
+  date                 text           NOT NULL,
+  amount               numeric(16,2)  NOT NULL,
+  currency             text           NOT NULL,
+  description          text           NOT NULL,
+  reference            text,
+  counterparty         text,
+  bank_transaction_id  text,
+  dedupe_key           text           NOT NULL,
+  status               text           NOT NULL DEFAULT 'unmatched',
+  match_type           text,
+  match_id             text,
+  match_score          integer,
+  suggestions          jsonb          NOT NULL DEFAULT '[]'::jsonb,
+  resolved_by          text,
+  resolved_at          text,
+  created_at           text           NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS bank_statement_lines_dedupe_unique ON bank_statement_lines (company_id, dedupe_key);
+CREATE UNIQUE INDEX IF NOT EXISTS bank_statement_lines_match_unique ON bank_statement_lines (company_id, match_type, match_id) WHERE match_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS bank_statement_lines_import_id_idx ON bank_statement_lines (import_id);
+CREATE INDEX IF NOT EXISTS bank_statement_lines_company_status_idx ON bank_statement_lines (company_id, status);
@@ -0,0 +1,75 @@
+-- Purchase orders, goods receipts and three-way matching of bills.
+--
+-- purchase_orders / purchase_order_lines hold what was ordered from a
+-- vendor; goods_receipts record deliveries and bump each line's
+-- received_quantity. Bills gain the PO (and optionally the receipt) they
+-- bill against, their lines, and the result of the last match so
+-- POST /bills/:id/pay can refuse unmatched bills without an override.
+--
+-- Idempotent — every table / index / column uses IF NOT EXISTS.
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id                          varchar(36)    PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id                  text           NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  po_number                   text           NOT NULL,
+  vendor_id                   text           NOT NULL REFERENCES vendors(id),
+  vendor_name                 text           NOT NULL,
+  currency                    text           NOT NULL DEFAULT 'USD',
+  status                      text           NOT NULL DEFAULT 'draft',
+  total_amount                numeric(14,2)  NOT NULL DEFAULT 0,
+  expected_date               text,
+  notes                       text,
+  price_tolerance_percent     numeric(5,2)   NOT NULL DEFAULT 2,
+  quantity_tolerance_percent  numeric(5,2)   NOT NULL DEFAULT 0,
+  created_by                  text,
+  created_by_name             text,
+  submitted_at                text,
+  approved_by                 text,
+  approved_at                 text,
+  rejection_reason            text,
+  created_at                  text           NOT NULL DEFAULT now(),
+  updated_at                  text           NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS purchase_orders_number_unique ON purchase_orders (company_id, po_number);
+CREATE INDEX IF NOT EXISTS purchase_orders_company_status_idx ON purchase_orders (company_id, status);
+CREATE INDEX IF NOT EXISTS purchase_orders_vendor_id_idx ON purchase_orders (vendor_id);
+
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id                 varchar(36)    PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id  text           NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  line_index         integer        NOT NULL,
+  description        text           NOT NULL,
+  quantity           numeric(14,3)  NOT NULL,
+  unit_price         numeric(14,2)  NOT NULL,
+  received_quantity  numeric(14,3)  NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS purchase_order_lines_po_id_idx ON purchase_order_lines (purchase_order_id);
+
+CREATE TABLE IF NOT EXISTS goods_receipts (
+  id                 varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id         text         NOT NULL,
+  purchase_order_id  text         NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  receipt_number     text         NOT NULL,
+  received_date      text         NOT NULL,
+  lines              jsonb        NOT NULL,
+  notes              text,
+  received_by        text,
+  received_by_name   text,
+  created_at         text         NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS goods_receipts_po_id_idx ON goods_receipts (purchase_order_id);
+
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS purchase_order_id text REFERENCES purchase_orders(id) ON DELETE SET NULL;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS goods_receipt_id text REFERENCES goods_receipts(id) ON DELETE SET NULL;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS line_items jsonb;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS match_status text;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS match_exceptions jsonb;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS match_checked_at text;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS match_override_by text;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS match_override_reason text;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS match_override_at text;
+
+CREATE INDEX IF NOT EXISTS bills_purchase_order_id_idx ON bills (purchase_order_id);
@@ -0,0 +1,51 @@
+-- Invoice payments and credit notes.
+--
+-- invoice_payments replaces the in-memory payment ledger in
+-- invoices.routes.ts, so payments (and the provider reference a refund
+-- needs) survive a restart. credit_notes reduce what the client owes:
+-- applied against the outstanding balance, written off, or refunded
+-- through the original Stripe / Paystack payment.
+--
+-- Idempotent — every table / index uses IF NOT EXISTS.
+
+CREATE TABLE IF NOT EXISTS invoice_payments (
+  id                  varchar(36)    PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id          text           NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  company_id          text,
+  amount              numeric(12,2)  NOT NULL,
+  currency            text           NOT NULL,
+  method              text           NOT NULL DEFAULT 'manual',
+  reference           text           NOT NULL,
+  provider_reference  text,
+  refunded_amount     numeric(12,2)  NOT NULL DEFAULT 0,
+  paid_at             text           NOT NULL DEFAULT now(),
+  recorded_by         text,
+  metadata            jsonb
+);
+
+CREATE INDEX IF NOT EXISTS invoice_payments_invoice_id_idx ON invoice_payments (invoice_id);
+-- Webhook retries record the same payment once.
+CREATE UNIQUE INDEX IF NOT EXISTS invoice_payments_reference_unique ON invoice_payments (invoice_id, reference);
+
+CREATE TABLE IF NOT EXISTS credit_notes (
+  id                  varchar(36)    PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id          text,
+  invoice_id          text           NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  credit_note_number  text           NOT NULL,
+  kind                text           NOT NULL,
+  amount              numeric(12,2)  NOT NULL,
+  currency            text           NOT NULL,
+  reason              text           NOT NULL,
+  status              text           NOT NULL DEFAULT 'issued',
+  payment_id          text           REFERENCES invoice_payments(id),
+  refund_provider     text,
+  refund_reference    text,
+  refund_error        text,
+  issued_by           text,
+  issued_by_name      text,
+  created_at          text           NOT NULL DEFAULT now(),
+  updated_at          text           NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS credit_notes_invoice_id_idx ON credit_notes (invoice_id);
+CREATE UNIQUE INDEX IF NOT EXISTS credit_notes_number_unique ON credit_notes (company_id, credit_note_number);
@@ -0,0 +1,36 @@
+-- Invoice dunning.
+--
+-- dunning_schedules holds each company's reminder steps (days relative to
+-- the invoice due date, optionally with a late fee). invoice_reminders
+-- records every reminder the scheduler sent, and its unique index makes
+-- claiming a step safe when more than one instance ticks.
+--
+-- Idempotent — every table / index uses IF NOT EXISTS.
+
+CREATE TABLE IF NOT EXISTS dunning_schedules (
+  id          varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id  text         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  enabled     boolean      NOT NULL DEFAULT false,
+  steps       jsonb        NOT NULL,
+  updated_by  text,
+  created_at  text         NOT NULL DEFAULT now(),
+  updated_at  text         NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS dunning_schedules_company_unique ON dunning_schedules (company_id);
+
+CREATE TABLE IF NOT EXISTS invoice_reminders (
+  id           varchar(36)    PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id   text           NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  company_id   text,
+  offset_days  integer        NOT NULL,
+  sent_to      text           NOT NULL,
+  amount_due   numeric(12,2)  NOT NULL,
+  late_fee     numeric(12,2)  NOT NULL DEFAULT 0,
+  status       text           NOT NULL DEFAULT 'pending',
+  error        text,
+  created_at   text           NOT NULL DEFAULT now(),
+  sent_at      text
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS invoice_reminders_step_unique ON invoice_reminders (invoice_id, offset_days);
@@ -0,0 +1,31 @@
+-- Live budget actuals.
+--
+-- budgets.spent becomes a cache of the current period's spend, derived
+-- from approved expenses, paid bills and approved card authorizations.
+-- New columns scope a budget to a department or cardholder, carry unused
+-- amounts into the next period and remember which 50/80/100% alert the
+-- current period already sent. budget_periods keeps each closed period.
+--
+-- Idempotent — every column / table / index uses IF NOT EXISTS.
+
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS department_id text REFERENCES departments(id) ON DELETE SET NULL;
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS cardholder_id text;
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS rollover boolean NOT NULL DEFAULT false;
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS rollover_amount numeric(12,2) NOT NULL DEFAULT 0;
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS current_period_start text;
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS alerted_threshold integer NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS budget_periods (
+  id            varchar(36)    PRIMARY KEY DEFAULT gen_random_uuid(),
+  budget_id     text           NOT NULL REFERENCES budgets(id) ON DELETE CASCADE,
+  company_id    text,
+  period_start  text           NOT NULL,
+  period_end    text           NOT NULL,
+  budget_limit  numeric(12,2)  NOT NULL,
+  rolled_in     numeric(12,2)  NOT NULL DEFAULT 0,
+  spent         numeric(12,2)  NOT NULL,
+  rolled_out    numeric(12,2)  NOT NULL DEFAULT 0,
+  closed_at     text           NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS budget_periods_budget_start_unique ON budget_periods (budget_id, period_start);
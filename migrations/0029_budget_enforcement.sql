@@ -0,0 +1,34 @@
+-- Hard budget enforcement.
+--
+-- companies.budget_enforcement chooses whether budgets are informational
+-- ('soft'), refuse spend that would exceed them ('block') or route it to
+-- an owner/admin override ('override'). budget_overrides holds those
+-- requests; an approved one is used once by the spend it was raised for.
+--
+-- Idempotent — every column / table / index uses IF NOT EXISTS.
+
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS budget_enforcement text NOT NULL DEFAULT 'soft';
+
+CREATE TABLE IF NOT EXISTS budget_overrides (
+  id                 varchar(36)    PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id         text           NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  budget_id          text           NOT NULL REFERENCES budgets(id) ON DELETE CASCADE,
+  action             text           NOT NULL,
+  entity_id          text,
+  amount             numeric(12,2)  NOT NULL,
+  currency           text           NOT NULL DEFAULT 'USD',
+  remaining          numeric(12,2)  NOT NULL,
+  reason             text,
+  status             text           NOT NULL DEFAULT 'pending',
+  requested_by       text           NOT NULL,
+  requested_by_name  text,
+  decided_by         text,
+  decided_by_name    text,
+  decided_at         text,
+  decision_note      text,
+  used_at            text,
+  created_at         text           NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS budget_overrides_company_status_idx ON budget_overrides (company_id, status);
+CREATE INDEX IF NOT EXISTS budget_overrides_requested_by_idx ON budget_overrides (requested_by);
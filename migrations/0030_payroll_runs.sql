@@ -0,0 +1,69 @@
+-- Payroll runs.
+--
+-- payroll_runs groups a pay period's payroll entries under one record
+-- that is drafted, approved, paid and, if need be, reversed as a whole.
+-- payroll_run_items freezes each entry (employee, amounts, bank details)
+-- as it stood when the run was drafted and tracks its transfer.
+--
+-- Idempotent — every column / table / index uses IF NOT EXISTS.
+
+CREATE TABLE IF NOT EXISTS payroll_runs (
+  id                varchar(36)    PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id        text           NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name              text           NOT NULL,
+  period_start      text           NOT NULL,
+  period_end        text           NOT NULL,
+  pay_date          text           NOT NULL,
+  currency          text           NOT NULL DEFAULT 'USD',
+  status            text           NOT NULL DEFAULT 'draft',
+  employee_count    integer        NOT NULL DEFAULT 0,
+  total_salary      numeric(14,2)  NOT NULL DEFAULT 0,
+  total_bonus       numeric(14,2)  NOT NULL DEFAULT 0,
+  total_deductions  numeric(14,2)  NOT NULL DEFAULT 0,
+  total_net         numeric(14,2)  NOT NULL DEFAULT 0,
+  created_by        text           NOT NULL,
+  created_by_name   text,
+  approved_by       text,
+  approved_by_name  text,
+  approved_at       text,
+  paid_at           text,
+  reversed_by       text,
+  reversed_by_name  text,
+  reversed_at       text,
+  reversal_reason   text,
+  created_at        text           NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS payroll_runs_company_status_idx ON payroll_runs (company_id, status);
+CREATE INDEX IF NOT EXISTS payroll_runs_company_period_idx ON payroll_runs (company_id, period_start);
+
+CREATE TABLE IF NOT EXISTS payroll_run_items (
+  id                     varchar(36)    PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id                 text           NOT NULL REFERENCES payroll_runs(id) ON DELETE CASCADE,
+  company_id             text           NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  payroll_entry_id       text           REFERENCES payroll_entries(id) ON DELETE SET NULL,
+  employee_id            text           NOT NULL,
+  employee_name          text           NOT NULL,
+  email                  text,
+  department             text,
+  country                text,
+  currency               text           NOT NULL DEFAULT 'USD',
+  salary                 numeric(12,2)  NOT NULL,
+  bonus                  numeric(12,2)  NOT NULL DEFAULT 0,
+  deductions             numeric(12,2)  NOT NULL DEFAULT 0,
+  deduction_breakdown    jsonb,
+  net_pay                numeric(12,2)  NOT NULL,
+  bank_name              text,
+  account_number         text,
+  account_name           text,
+  payout_destination_id  text,
+  status                 text           NOT NULL DEFAULT 'pending',
+  reference              text,
+  error                  text,
+  paid_at                text,
+  created_at             text           NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS payroll_run_items_run_id_idx ON payroll_run_items (run_id);
+CREATE INDEX IF NOT EXISTS payroll_run_items_entry_id_idx ON payroll_run_items (payroll_entry_id);
+CREATE INDEX IF NOT EXISTS payroll_run_items_employee_id_idx ON payroll_run_items (company_id, employee_id);
@@ -0,0 +1,117 @@
+-- Statutory payroll deductions.
+--
+-- statutory_rules holds the per-country contributions withheld from pay
+-- (and paid on top by the employer) alongside tax_brackets, with the same
+-- effective-window versioning: a change in rates lands as a new row with
+-- effective_from set forward and effective_to closing the old one. Tiers
+-- are slice widths in the rule's cadence ({limit, rate}; limit null =
+-- the rest), one set for the employee and one for the employer.
+--
+-- payroll_entries and payroll_run_items gain the computed lines and the
+-- employer's total so the employer cost is tracked apart from net pay.
+--
+-- Idempotent — every column / table / index uses IF NOT EXISTS and the
+-- seed rows use ON CONFLICT DO NOTHING.
+
+CREATE TABLE IF NOT EXISTS statutory_rules (
+  id                varchar(36)    PRIMARY KEY DEFAULT gen_random_uuid(),
+  country           text           NOT NULL,
+  code              text           NOT NULL,
+  name              text           NOT NULL,
+  category          text           NOT NULL,   -- pension | insurance | other
+  authority         text           NOT NULL,
+  effective_from    text           NOT NULL,   -- YYYY-MM-DD inclusive
+  effective_to      text,                      -- YYYY-MM-DD exclusive (null = current)
+  cadence           text           NOT NULL DEFAULT 'monthly',
+  employee_tiers    jsonb          NOT NULL,
+  employer_tiers    jsonb          NOT NULL,
+  employee_minimum  numeric(14,2)  NOT NULL DEFAULT 0,
+  tax_deductible    boolean        NOT NULL DEFAULT false,
+  source            text,
+  created_at        text           NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS statutory_rules_country_effective_idx ON statutory_rules (country, effective_from);
+CREATE UNIQUE INDEX IF NOT EXISTS statutory_rules_country_code_effective_unique ON statutory_rules (country, code, effective_from);
+
+ALTER TABLE payroll_entries ADD COLUMN IF NOT EXISTS statutory_lines jsonb;
+ALTER TABLE payroll_entries ADD COLUMN IF NOT EXISTS employer_contributions numeric(12,2) NOT NULL DEFAULT 0;
+ALTER TABLE payroll_run_items ADD COLUMN IF NOT EXISTS statutory_lines jsonb;
+ALTER TABLE payroll_run_items ADD COLUMN IF NOT EXISTS employer_contributions numeric(12,2) NOT NULL DEFAULT 0;
+ALTER TABLE payroll_runs ADD COLUMN IF NOT EXISTS total_employer_contributions numeric(14,2) NOT NULL DEFAULT 0;
+
+-- Nigeria (NG) — contributory pension and National Housing Fund.
+INSERT INTO statutory_rules (country, code, name, category, authority, effective_from, cadence, employee_tiers, employer_tiers, tax_deductible, source) VALUES
+  ('NG', 'NG_PENSION', 'Contributory pension', 'pension', 'PFA', '2014-07-01', 'monthly',
+   '[{"limit":null,"rate":0.08}]'::jsonb, '[{"limit":null,"rate":0.10}]'::jsonb, true,
+   'Pension Reform Act 2014, s.4(1)'),
+  ('NG', 'NG_NHF', 'National Housing Fund', 'other', 'FMBN', '1992-01-01', 'monthly',
+   '[{"limit":null,"rate":0.025}]'::jsonb, '[]'::jsonb, true,
+   'National Housing Fund Act 1992, s.4')
+ON CONFLICT (country, code, effective_from) DO NOTHING;
+
+-- Kenya (KE) — NSSF tiers (upper earnings limit raised each February),
+-- SHIF (2.75%, at least KES 300) and the affordable housing levy.
+INSERT INTO statutory_rules (country, code, name, category, authority, effective_from, effective_to, cadence, employee_tiers, employer_tiers, tax_deductible, source) VALUES
+  ('KE', 'KE_NSSF', 'NSSF', 'pension', 'NSSF', '2024-02-01', '2025-02-01', 'monthly',
+   '[{"limit":36000,"rate":0.06},{"limit":null,"rate":0}]'::jsonb,
+   '[{"limit":36000,"rate":0.06},{"limit":null,"rate":0}]'::jsonb, true,
+   'NSSF Act 2013, year 2 rates (UEL KES 36,000)'),
+  ('KE', 'KE_NSSF', 'NSSF', 'pension', 'NSSF', '2025-02-01', NULL, 'monthly',
+   '[{"limit":72000,"rate":0.06},{"limit":null,"rate":0}]'::jsonb,
+   '[{"limit":72000,"rate":0.06},{"limit":null,"rate":0}]'::jsonb, true,
+   'NSSF Act 2013, year 3 rates (UEL KES 72,000)')
+ON CONFLICT (country, code, effective_from) DO NOTHING;
+
+INSERT INTO statutory_rules (country, code, name, category, authority, effective_from, cadence, employee_tiers, employer_tiers, employee_minimum, tax_deductible, source) VALUES
+  ('KE', 'KE_SHIF', 'Social Health Insurance Fund', 'insurance', 'SHA', '2024-10-01', 'monthly',
+   '[{"limit":null,"rate":0.0275}]'::jsonb, '[]'::jsonb, '300', true,
+   'Social Health Insurance Act 2023'),
+  ('KE', 'KE_HOUSING_LEVY', 'Affordable housing levy', 'other', 'KRA', '2024-03-19', 'monthly',
+   '[{"limit":null,"rate":0.015}]'::jsonb, '[{"limit":null,"rate":0.015}]'::jsonb, '0', true,
+   'Affordable Housing Act 2024')
+ON CONFLICT (country, code, effective_from) DO NOTHING;
+
+-- Ghana (GH) — SSNIT: 5.5% employee, 13% employer.
+INSERT INTO statutory_rules (country, code, name, category, authority, effective_from, cadence, employee_tiers, employer_tiers, tax_deductible, source) VALUES
+  ('GH', 'GH_SSNIT', 'SSNIT', 'pension', 'SSNIT', '2010-01-01', 'monthly',
+   '[{"limit":null,"rate":0.055}]'::jsonb, '[{"limit":null,"rate":0.13}]'::jsonb, true,
+   'National Pensions Act 2008 (Act 766)')
+ON CONFLICT (country, code, effective_from) DO NOTHING;
+
+-- South Africa (ZA) — UIF: 1% each side up to the earnings ceiling.
+INSERT INTO statutory_rules (country, code, name, category, authority, effective_from, cadence, employee_tiers, employer_tiers, tax_deductible, source) VALUES
+  ('ZA', 'ZA_UIF', 'Unemployment Insurance Fund', 'insurance', 'SARS', '2021-06-01', 'monthly',
+   '[{"limit":17712,"rate":0.01},{"limit":null,"rate":0}]'::jsonb,
+   '[{"limit":17712,"rate":0.01},{"limit":null,"rate":0}]'::jsonb, false,
+   'UIF Contributions Act 2002; ceiling R17,712 a month from 1 June 2021')
+ON CONFLICT (country, code, effective_from) DO NOTHING;
+
+-- United States (US) — FICA: Social Security up to the wage base,
+-- Medicare with the Additional Medicare Tax over $200,000.
+INSERT INTO statutory_rules (country, code, name, category, authority, effective_from, effective_to, cadence, employee_tiers, employer_tiers, tax_deductible, source) VALUES
+  ('US', 'US_SOCIAL_SECURITY', 'Social Security', 'pension', 'IRS', '2024-01-01', '2025-01-01', 'annual',
+   '[{"limit":168600,"rate":0.062},{"limit":null,"rate":0}]'::jsonb,
+   '[{"limit":168600,"rate":0.062},{"limit":null,"rate":0}]'::jsonb, false,
+   'SSA 2024 contribution and benefit base'),
+  ('US', 'US_SOCIAL_SECURITY', 'Social Security', 'pension', 'IRS', '2025-01-01', NULL, 'annual',
+   '[{"limit":176100,"rate":0.062},{"limit":null,"rate":0}]'::jsonb,
+   '[{"limit":176100,"rate":0.062},{"limit":null,"rate":0}]'::jsonb, false,
+   'SSA 2025 contribution and benefit base'),
+  ('US', 'US_MEDICARE', 'Medicare', 'insurance', 'IRS', '2013-01-01', NULL, 'annual',
+   '[{"limit":200000,"rate":0.0145},{"limit":null,"rate":0.0235}]'::jsonb,
+   '[{"limit":null,"rate":0.0145}]'::jsonb, false,
+   'IRC 3101(b) and 3111(b); Additional Medicare Tax over $200,000')
+ON CONFLICT (country, code, effective_from) DO NOTHING;
+
+-- United Kingdom (GB) — Class 1 National Insurance.
+INSERT INTO statutory_rules (country, code, name, category, authority, effective_from, effective_to, cadence, employee_tiers, employer_tiers, tax_deductible, source) VALUES
+  ('GB', 'GB_NI', 'National Insurance', 'insurance', 'HMRC', '2024-04-06', '2025-04-06', 'annual',
+   '[{"limit":12570,"rate":0},{"limit":37700,"rate":0.08},{"limit":null,"rate":0.02}]'::jsonb,
+   '[{"limit":9100,"rate":0},{"limit":null,"rate":0.138}]'::jsonb, false,
+   'HMRC 2024-25 Class 1 NICs'),
+  ('GB', 'GB_NI', 'National Insurance', 'insurance', 'HMRC', '2025-04-06', NULL, 'annual',
+   '[{"limit":12570,"rate":0},{"limit":37700,"rate":0.08},{"limit":null,"rate":0.02}]'::jsonb,
+   '[{"limit":5000,"rate":0},{"limit":null,"rate":0.15}]'::jsonb, false,
+   'HMRC 2025-26 Class 1 NICs')
+ON CONFLICT (country, code, effective_from) DO NOTHING;
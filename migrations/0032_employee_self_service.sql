@@ -0,0 +1,16 @@
+-- Employee self-service pay.
+--
+-- Employees can enter the bank account their salary is paid into. Those
+-- payout destinations wait for an admin to verify them before a payroll
+-- run uses them: review_status is 'pending', 'verified' or 'rejected',
+-- and stays null for destinations an admin set up.
+--
+-- Idempotent — every column / index uses IF NOT EXISTS.
+
+ALTER TABLE payout_destinations ADD COLUMN IF NOT EXISTS review_status text;
+ALTER TABLE payout_destinations ADD COLUMN IF NOT EXISTS reviewed_by text;
+ALTER TABLE payout_destinations ADD COLUMN IF NOT EXISTS reviewed_by_name text;
+ALTER TABLE payout_destinations ADD COLUMN IF NOT EXISTS reviewed_at text;
+ALTER TABLE payout_destinations ADD COLUMN IF NOT EXISTS review_note text;
+
+CREATE INDEX IF NOT EXISTS payout_destinations_review_status_idx ON payout_destinations (review_status);
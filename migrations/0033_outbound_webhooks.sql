@@ -0,0 +1,49 @@
+-- Outbound webhooks.
+--
+-- webhook_endpoints holds the HTTPS endpoints a company registers and the
+-- events each one receives; the secret signs every delivery, and after a
+-- rotation the previous secret keeps signing until it expires.
+-- webhook_deliveries records each event sent to each endpoint: the body,
+-- the attempts made, the last response, and when the next retry is due.
+--
+-- Idempotent — every column / table / index uses IF NOT EXISTS.
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id                          varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id                  text         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  url                         text         NOT NULL,
+  description                 text,
+  events                      jsonb        NOT NULL DEFAULT '[]'::jsonb,
+  secret                      text         NOT NULL,
+  previous_secret             text,
+  previous_secret_expires_at  text,
+  status                      text         NOT NULL DEFAULT 'active',
+  created_by                  text,
+  created_at                  text         NOT NULL DEFAULT now(),
+  updated_at                  text         NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS webhook_endpoints_company_id_idx ON webhook_endpoints (company_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id               varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id      text         NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  company_id       text         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  event_id         text         NOT NULL,
+  event_type       text         NOT NULL,
+  payload          text         NOT NULL,
+  status           text         NOT NULL DEFAULT 'pending',
+  attempts         integer      NOT NULL DEFAULT 0,
+  next_attempt_at  text,
+  last_attempt_at  text,
+  response_status  integer,
+  response_body    text,
+  error            text,
+  duration_ms      integer,
+  replay_of        text,
+  created_at       text         NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx ON webhook_deliveries (status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS webhook_deliveries_endpoint_idx ON webhook_deliveries (endpoint_id, created_at);
+CREATE INDEX IF NOT EXISTS webhook_deliveries_event_id_idx ON webhook_deliveries (event_id);
@@ -0,0 +1,27 @@
+-- Company API keys.
+--
+-- api_keys holds the keys a company issues for programmatic access. Only
+-- the SHA-256 of each key is kept; the prefix is the visible part shown
+-- in the dashboard. permissions lists the Permission names the key may
+-- use, and a revoked or expired key no longer authenticates.
+--
+-- Idempotent — every column / table / index uses IF NOT EXISTS.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id            varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id    text         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name          text         NOT NULL,
+  prefix        text         NOT NULL,
+  key_hash      text         NOT NULL,
+  permissions   jsonb        NOT NULL DEFAULT '[]'::jsonb,
+  expires_at    text,
+  last_used_at  text,
+  last_used_ip  text,
+  revoked_at    text,
+  revoked_by    text,
+  created_by    text,
+  created_at    text         NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS api_keys_key_hash_idx ON api_keys (key_hash);
+CREATE INDEX IF NOT EXISTS api_keys_company_id_idx ON api_keys (company_id);
@@ -0,0 +1,43 @@
+-- Card programs.
+--
+-- card_spend_policies holds reusable spend controls (merchant categories,
+-- per-transaction / daily / monthly caps, weekday and hour windows,
+-- merchant countries) that an admin applies to program cards. A program
+-- card is issued to a company member, who gets one Stripe cardholder
+-- for all their cards. Each settled transaction on such a card raises a
+-- DRAFT expense for the member to complete with a receipt.
+--
+-- Idempotent — every column / table / index uses IF NOT EXISTS.
+
+CREATE TABLE IF NOT EXISTS card_spend_policies (
+  id                           varchar(36)    PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id                   text           NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name                         text           NOT NULL,
+  description                  text,
+  allowed_merchant_categories  jsonb          NOT NULL DEFAULT '[]'::jsonb,
+  blocked_merchant_categories  jsonb          NOT NULL DEFAULT '[]'::jsonb,
+  per_transaction_limit        decimal(12,2),
+  daily_limit                  decimal(12,2),
+  monthly_limit                decimal(12,2),
+  allowed_weekdays             jsonb          NOT NULL DEFAULT '[]'::jsonb,
+  allowed_hours_start          integer,
+  allowed_hours_end            integer,
+  timezone                     text           NOT NULL DEFAULT 'UTC',
+  allowed_countries            jsonb          NOT NULL DEFAULT '[]'::jsonb,
+  created_by                   text,
+  created_at                   text           NOT NULL DEFAULT now(),
+  updated_at                   text           NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS card_spend_policies_company_id_idx ON card_spend_policies (company_id);
+
+ALTER TABLE company_members ADD COLUMN IF NOT EXISTS stripe_cardholder_id text;
+
+ALTER TABLE virtual_cards ADD COLUMN IF NOT EXISTS member_id text;
+ALTER TABLE virtual_cards ADD COLUMN IF NOT EXISTS spend_policy_id text;
+CREATE INDEX IF NOT EXISTS virtual_cards_member_id_idx ON virtual_cards (member_id);
+CREATE INDEX IF NOT EXISTS virtual_cards_spend_policy_id_idx ON virtual_cards (spend_policy_id);
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS card_transaction_id text;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS receipt_required boolean NOT NULL DEFAULT false;
+CREATE UNIQUE INDEX IF NOT EXISTS expenses_card_transaction_id_idx ON expenses (card_transaction_id);
@@ -0,0 +1,16 @@
+-- Single-use and merchant-locked virtual cards.
+--
+-- kind is 'standard', 'single_use' or 'merchant_locked'. A card with
+-- max_uses is declined once use_count (approved authorizations) reaches
+-- it, and is cancelled after the capture that used it up. A
+-- merchant-locked card declines every merchant but locked_merchant_name
+-- / locked_merchant_id; when no merchant was named the first approved
+-- purchase sets them.
+--
+-- Idempotent — every column / table / index uses IF NOT EXISTS.
+
+ALTER TABLE virtual_cards ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'standard';
+ALTER TABLE virtual_cards ADD COLUMN IF NOT EXISTS max_uses integer;
+ALTER TABLE virtual_cards ADD COLUMN IF NOT EXISTS use_count integer NOT NULL DEFAULT 0;
+ALTER TABLE virtual_cards ADD COLUMN IF NOT EXISTS locked_merchant_name text;
+ALTER TABLE virtual_cards ADD COLUMN IF NOT EXISTS locked_merchant_id text;
@@ -0,0 +1,34 @@
+-- Locked FX quotes for converting between a company's own wallets.
+--
+-- A quote holds a marked-up rate for a short window; accepting it debits
+-- the source wallet and credits the target wallet in one transaction and
+-- records both wallet_transactions ids. margin_amount (target currency)
+-- is the realized FX margin reported by /api/fx/margin.
+--
+-- Idempotent — every column / table / index uses IF NOT EXISTS.
+
+CREATE TABLE IF NOT EXISTS fx_quotes (
+  id                     varchar(36)    PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id             text           REFERENCES companies(id) ON DELETE CASCADE,
+  source_wallet_id       text           NOT NULL REFERENCES wallets(id) ON DELETE CASCADE,
+  target_wallet_id       text           NOT NULL REFERENCES wallets(id) ON DELETE CASCADE,
+  source_currency        text           NOT NULL,
+  target_currency        text           NOT NULL,
+  source_amount          decimal(16,2)  NOT NULL,
+  target_amount          decimal(16,2)  NOT NULL,
+  market_rate            decimal(16,6)  NOT NULL,
+  customer_rate          decimal(16,6)  NOT NULL,
+  markup_percent         decimal(5,2)   NOT NULL,
+  margin_amount          decimal(16,2)  NOT NULL,
+  status                 text           NOT NULL DEFAULT 'open',
+  expires_at             text           NOT NULL,
+  accepted_at            text,
+  accepted_by            text,
+  debit_transaction_id   text,
+  credit_transaction_id  text,
+  created_by             text           NOT NULL,
+  created_at             text           NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS fx_quotes_company_id_idx ON fx_quotes (company_id, accepted_at);
+CREATE INDEX IF NOT EXISTS fx_quotes_created_by_idx ON fx_quotes (created_by, created_at);
@@ -0,0 +1,27 @@
+-- Durable Idempotency-Key records for money-moving endpoints
+-- (server/middleware/idempotency.ts).
+--
+-- A row is claimed in 'processing' before the handler runs and completed
+-- with the response it sent, so a retry with the same key and body
+-- replays that response instead of moving money again. Keys are scoped
+-- per caller (user or API key) and reusable once expires_at has passed.
+--
+-- Idempotent — every column / table / index uses IF NOT EXISTS.
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id               varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope            text         NOT NULL,
+  key              text         NOT NULL,
+  method           text         NOT NULL,
+  path             text         NOT NULL,
+  fingerprint      text         NOT NULL,
+  status           text         NOT NULL DEFAULT 'processing',
+  response_status  integer,
+  response_body    jsonb,
+  created_at       text         NOT NULL DEFAULT now(),
+  completed_at     text,
+  expires_at       text         NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idempotency_keys_scope_key_idx ON idempotency_keys (scope, key);
+CREATE INDEX IF NOT EXISTS idempotency_keys_expires_at_idx ON idempotency_keys (expires_at);
@@ -0,0 +1,60 @@
+-- Sanctions / watchlist screening.
+--
+-- Admins import the OFAC SDN list or the UN consolidated list; each import
+-- supersedes the company's previous list from the same source, whose
+-- entries are dropped. Vendors, payout destinations, payroll recipients
+-- and KYC names are screened against the active lists, and payouts to a
+-- subject with an unreviewed or confirmed match are held. Screening rows
+-- carry the matched entries inline and are never deleted, so they and the
+-- reviewer's decision remain the audit record.
+--
+-- Idempotent — every column / table / index uses IF NOT EXISTS.
+
+CREATE TABLE IF NOT EXISTS sanctions_lists (
+  id                varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id        text         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  source            text         NOT NULL,
+  file_name         text,
+  entry_count       integer      NOT NULL DEFAULT 0,
+  status            text         NOT NULL DEFAULT 'active',
+  imported_by       text         NOT NULL,
+  imported_by_name  text,
+  imported_at       text         NOT NULL DEFAULT now(),
+  superseded_at     text
+);
+
+CREATE INDEX IF NOT EXISTS sanctions_lists_company_id_idx ON sanctions_lists (company_id, status);
+
+CREATE TABLE IF NOT EXISTS sanctions_entries (
+  id           varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  list_id      text         NOT NULL REFERENCES sanctions_lists(id) ON DELETE CASCADE,
+  company_id   text         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  external_id  text         NOT NULL,
+  name         text         NOT NULL,
+  aliases      jsonb        NOT NULL DEFAULT '[]'::jsonb,
+  entity_type  text         NOT NULL,
+  programs     jsonb        NOT NULL DEFAULT '[]'::jsonb,
+  remarks      text
+);
+
+CREATE INDEX IF NOT EXISTS sanctions_entries_list_id_idx ON sanctions_entries (list_id);
+
+CREATE TABLE IF NOT EXISTS sanctions_screenings (
+  id                varchar(36)   PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id        text          NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  subject_type      text          NOT NULL,
+  subject_id        text          NOT NULL,
+  screened_name     text          NOT NULL,
+  list_version      text          NOT NULL,
+  status            text          NOT NULL,
+  matches           jsonb         NOT NULL DEFAULT '[]'::jsonb,
+  top_score         decimal(4,3),
+  screened_at       text          NOT NULL DEFAULT now(),
+  reviewed_by       text,
+  reviewed_by_name  text,
+  reviewed_at       text,
+  review_note       text
+);
+
+CREATE INDEX IF NOT EXISTS sanctions_screenings_subject_idx ON sanctions_screenings (company_id, subject_type, subject_id, screened_at);
+CREATE INDEX IF NOT EXISTS sanctions_screenings_status_idx ON sanctions_screenings (company_id, status);
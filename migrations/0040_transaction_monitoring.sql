@@ -0,0 +1,67 @@
+-- Transaction monitoring.
+--
+-- Logins, payouts, wallet transfers, card authorizations and payout
+-- destination changes are recorded as monitoring events, and each new
+-- event is evaluated against the company's rules (defaults apply until an
+-- admin saves an override). A rule that fires raises an alert for the
+-- admin queue and, if the rule is set to, holds the payout or freezes the
+-- card. Alerts are keyed by what triggered them so a retried payout does
+-- not raise a second alert, and a dismissed one no longer holds it.
+--
+-- Idempotent — every column / table / index uses IF NOT EXISTS.
+
+CREATE TABLE IF NOT EXISTS monitoring_rules (
+  id               varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id       text         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  rule_key         text         NOT NULL,
+  enabled          boolean      NOT NULL DEFAULT true,
+  severity         text         NOT NULL,
+  action           text         NOT NULL DEFAULT 'alert',
+  params           jsonb        NOT NULL DEFAULT '{}'::jsonb,
+  updated_by       text,
+  updated_by_name  text,
+  updated_at       text         NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS monitoring_rules_company_rule_idx ON monitoring_rules (company_id, rule_key);
+
+CREATE TABLE IF NOT EXISTS monitoring_events (
+  id           varchar(36)    PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id   text           NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  kind         text           NOT NULL,
+  user_id      text,
+  subject_id   text,
+  amount       decimal(16,2),
+  currency     text,
+  ip           text,
+  country      text,
+  data         jsonb          NOT NULL DEFAULT '{}'::jsonb,
+  occurred_at  text           NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS monitoring_events_kind_idx ON monitoring_events (company_id, kind, occurred_at);
+CREATE INDEX IF NOT EXISTS monitoring_events_user_idx ON monitoring_events (company_id, user_id, kind, occurred_at);
+CREATE INDEX IF NOT EXISTS monitoring_events_subject_idx ON monitoring_events (company_id, kind, subject_id);
+
+CREATE TABLE IF NOT EXISTS monitoring_alerts (
+  id                varchar(36)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id        text         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  rule_key          text         NOT NULL,
+  severity          text         NOT NULL,
+  action            text         NOT NULL,
+  dedupe_key        text         NOT NULL,
+  subject_type      text         NOT NULL,
+  subject_id        text         NOT NULL,
+  summary           text         NOT NULL,
+  details           jsonb        NOT NULL DEFAULT '{}'::jsonb,
+  action_taken      text,
+  status            text         NOT NULL DEFAULT 'open',
+  created_at        text         NOT NULL DEFAULT now(),
+  reviewed_by       text,
+  reviewed_by_name  text,
+  reviewed_at       text,
+  review_note       text
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS monitoring_alerts_dedupe_idx ON monitoring_alerts (company_id, dedupe_key);
+CREATE INDEX IF NOT EXISTS monitoring_alerts_status_idx ON monitoring_alerts (company_id, status, created_at);
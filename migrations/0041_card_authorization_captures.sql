@@ -0,0 +1,10 @@
+-- Captures of card authorizations.
+--
+-- An approved authorization holds part of the card's balance until Stripe
+-- captures it, when the card balance is debited. captured_at is set from
+-- the issuing transaction that captures it, so the authorization check can
+-- take approved, uncaptured amounts off the balance it decides against.
+--
+-- Idempotent — every column / table / index uses IF NOT EXISTS.
+
+ALTER TABLE card_authorizations ADD COLUMN IF NOT EXISTS captured_at text;
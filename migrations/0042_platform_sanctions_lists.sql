@@ -0,0 +1,15 @@
+-- Platform-wide sanctions lists and self-review guard.
+--
+-- The OFAC SDN and UN consolidated lists are now imported once for the
+-- whole platform: a list or entry with no company_id applies to every
+-- company, and a company's own imports only add to it. Screenings record
+-- the users whose payment or KYC submission they held, so that person
+-- cannot clear their own match.
+--
+-- Idempotent — DROP NOT NULL is a no-op when already nullable and the
+-- new column uses IF NOT EXISTS.
+
+ALTER TABLE sanctions_lists ALTER COLUMN company_id DROP NOT NULL;
+ALTER TABLE sanctions_entries ALTER COLUMN company_id DROP NOT NULL;
+
+ALTER TABLE sanctions_screenings ADD COLUMN IF NOT EXISTS held_user_ids jsonb NOT NULL DEFAULT '[]'::jsonb;
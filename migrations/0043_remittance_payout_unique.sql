@@ -0,0 +1,29 @@
+-- One open payout per statutory remittance.
+--
+-- POST /payouts/remittances checked for an open payout for the run's
+-- remittance and then created one, so two concurrent requests could both
+-- schedule it. A partial unique index on the run and remittance id, over
+-- remittance payouts that are not failed, cancelled or rejected, makes the
+-- second insert fail instead. Any duplicates already scheduled and still
+-- pending are cancelled first, keeping the earliest.
+--
+-- Idempotent — the index uses IF NOT EXISTS.
+
+UPDATE payouts p
+SET status = 'cancelled',
+    failure_reason = 'Duplicate remittance payout',
+    updated_at = now()
+WHERE p.type = 'statutory_remittance'
+  AND p.status = 'pending'
+  AND EXISTS (
+    SELECT 1 FROM payouts earlier
+    WHERE earlier.type = 'statutory_remittance'
+      AND earlier.status NOT IN ('failed', 'cancelled', 'rejected')
+      AND earlier.related_entity_id = p.related_entity_id
+      AND earlier.metadata->>'remittanceId' = p.metadata->>'remittanceId'
+      AND (earlier.created_at, earlier.id) < (p.created_at, p.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS payouts_open_remittance_unique
+  ON payouts (related_entity_id, (metadata->>'remittanceId'))
+  WHERE type = 'statutory_remittance' AND status NOT IN ('failed', 'cancelled', 'rejected');
@@ -0,0 +1,11 @@
+-- Per-claim tokens on Idempotency-Key records.
+--
+-- A retry may take over a key whose processing lease lapsed, and the
+-- takeover reuses the row. Each claim now gets its own claim_token, and
+-- renewing, completing or releasing the key only applies while the row
+-- still carries the caller's token, so a late first attempt can't
+-- overwrite the retry's stored response.
+--
+-- Idempotent — the column uses IF NOT EXISTS.
+
+ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS claim_token text;
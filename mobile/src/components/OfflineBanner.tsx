@@ -6,11 +6,23 @@ import { useTheme } from '../lib/theme-context';
 import { ColorTokens } from '../lib/colors';
 
 export default function OfflineBanner() {
-  const { isConnected, pendingMutations } = useNetwork();
+  const { isConnected, pendingMutations, failedMutations } = useNetwork();
   const { colors } = useTheme();
   const styles = useMemo(() => createStyles(colors), [colors]);
 
-  if (isConnected && pendingMutations === 0) return null;
+  if (isConnected && pendingMutations === 0 && failedMutations === 0) return null;
+
+  // Online with nothing left to send: only items that need the user.
+  if (isConnected && pendingMutations === 0) {
+    return (
+      <View style={[styles.banner, styles.offline]}>
+        <Ionicons name="alert-circle-outline" size={16} color="#FFFFFF" />
+        <Text style={styles.text}>
+          {`${failedMutations} offline change${failedMutations !== 1 ? 's' : ''} couldn't sync — open it to retry, edit or discard`}
+        </Text>
+      </View>
+    );
+  }
 
   return (
     <View style={[styles.banner, isConnected ? styles.syncing : styles.offline]}>
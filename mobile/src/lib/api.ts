@@ -1,3 +1,4 @@
+import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { getIdToken } from './cognito';
 
@@ -39,10 +40,19 @@ export function setOnAuthExpired(callback: AuthExpiredCallback) {
   onAuthExpired = callback;
 }
 
+// A non-2xx response; `body` is the parsed JSON error, if there was one.
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public body: any) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
 export async function apiRequest<T>(
   method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH',
   endpoint: string,
-  body?: Record<string, unknown>
+  body?: Record<string, unknown>,
+  extraHeaders?: Record<string, string>
 ): Promise<T> {
   let [token, activeCompanyId] = await Promise.all([
     AsyncStorage.getItem('authToken'),
@@ -83,6 +93,10 @@ export async function apiRequest<T>(
     headers['X-Company-Id'] = activeCompanyId;
   }
 
+  if (extraHeaders) {
+    Object.assign(headers, extraHeaders);
+  }
+
   let response = await fetch(`${API_BASE_URL}${endpoint}`, {
     method,
     headers,
@@ -113,12 +127,73 @@ export async function apiRequest<T>(
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ message: 'Request failed' }));
-    throw new Error(error.message || error.error || 'Request failed');
+    throw new ApiError(error.message || error.error || 'Request failed', response.status, error);
+  }
+
+  // 204 No Content (e.g. DELETE)
+  if (response.status === 204) {
+    return undefined as T;
   }
 
   return response.json();
 }
 
+// Subset of the server's ReceiptDraft (shared/schema.ts) the expense form uses.
+interface ReceiptDraftField<T> {
+  value: T | null;
+  confidence: number;
+}
+
+export interface ReceiptDraft {
+  merchant: ReceiptDraftField<string>;
+  date: ReceiptDraftField<string>;
+  total: ReceiptDraftField<number>;
+  currency: ReceiptDraftField<string>;
+}
+
+// Upload a receipt image; the server OCRs it and returns a draft.
+export async function uploadReceipt(uri: string): Promise<{ url: string; draft: ReceiptDraft | null }> {
+  const [token, activeCompanyId] = await Promise.all([
+    AsyncStorage.getItem('authToken'),
+    AsyncStorage.getItem(ACTIVE_COMPANY_KEY),
+  ]);
+
+  const formData = new FormData();
+  const filename = uri.split('/').pop() || 'receipt.jpg';
+  const match = /\.(\w+)$/.exec(filename);
+  const type = match ? `image/${match[1]}` : 'image/jpeg';
+
+  formData.append('receipt', {
+    uri: Platform.OS === 'ios' ? uri.replace('file://', '') : uri,
+    name: filename,
+    type,
+  } as any);
+
+  const headers: HeadersInit = {
+    'X-Requested-With': 'XMLHttpRequest', // CSRF protection
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  if (activeCompanyId) {
+    headers['X-Company-Id'] = activeCompanyId;
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/upload/receipt`, {
+    method: 'POST',
+    headers,
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Upload failed' }));
+    throw new ApiError(error.message || error.error || 'Failed to upload receipt', response.status, error);
+  }
+
+  const result = await response.json();
+  return { url: result.url, draft: result.draft ?? null };
+}
+
 export const api = {
   get: <T>(endpoint: string) => apiRequest<T>('GET', endpoint),
   post: <T>(endpoint: string, body: Record<string, unknown>) => apiRequest<T>('POST', endpoint, body),
@@ -1,95 +1,134 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
 import { Alert } from 'react-native';
-import { subscribeToNetworkChanges, checkConnection, getOfflineQueue, clearOfflineQueue, removeFromQueue } from './offline';
-import { api } from './api';
-
-const MAX_QUEUE_RETRIES = 3;
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  subscribeToNetworkChanges,
+  checkConnection,
+  getOfflineQueue,
+  queueOfflineMutation,
+  updateQueuedMutation,
+  retryQueuedMutation,
+  removeFromQueue,
+  syncOfflineQueue,
+  type QueuedMutation,
+  type NewQueuedMutation,
+} from './offline';
 
 interface NetworkContextType {
   isConnected: boolean;
   pendingMutations: number;
   failedMutations: number;
+  // Everything still queued, oldest first, with its sync status.
+  queue: QueuedMutation[];
+  // The item being sent right now.
+  syncingId: string | null;
+  enqueue: (mutation: NewQueuedMutation) => Promise<QueuedMutation>;
+  updateQueued: (id: string, changes: Pick<NewQueuedMutation, 'body' | 'receiptUri'>) => Promise<void>;
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+  syncNow: () => Promise<void>;
 }
 
-const NetworkContext = createContext<NetworkContextType>({ isConnected: true, pendingMutations: 0, failedMutations: 0 });
+const noop = async () => {};
+
+const NetworkContext = createContext<NetworkContextType>({
+  isConnected: true,
+  pendingMutations: 0,
+  failedMutations: 0,
+  queue: [],
+  syncingId: null,
+  enqueue: () => Promise.reject(new Error('NetworkProvider is missing')),
+  updateQueued: noop,
+  retry: noop,
+  discard: noop,
+  syncNow: noop,
+});
 
 export function NetworkProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
   const [isConnected, setIsConnected] = useState(true);
-  const [pendingMutations, setPendingMutations] = useState(0);
-  const [failedMutations, setFailedMutations] = useState(0);
+  const [queue, setQueue] = useState<QueuedMutation[]>([]);
+  const [syncingId, setSyncingId] = useState<string | null>(null);
+  const connectedRef = useRef(true);
+
+  const refreshQueue = useCallback(async () => {
+    setQueue(await getOfflineQueue());
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (!connectedRef.current) return;
+    const result = await syncOfflineQueue((id) => {
+      setSyncingId(id);
+      refreshQueue();
+    });
+    await refreshQueue();
+
+    if (result.synced > 0) {
+      queryClient.invalidateQueries();
+    }
+    const needsAttention = result.failed + result.conflicts;
+    if (needsAttention > 0) {
+      Alert.alert(
+        'Sync Issue',
+        `${result.synced} change${result.synced !== 1 ? 's' : ''} synced, but ${needsAttention} need${needsAttention === 1 ? 's' : ''} your attention. Open the item to retry, edit or discard it.`,
+        [{ text: 'OK' }]
+      );
+    }
+  }, [queryClient, refreshQueue]);
 
   useEffect(() => {
-    checkConnection().then(setIsConnected);
+    refreshQueue();
+    checkConnection().then((connected) => {
+      connectedRef.current = connected;
+      setIsConnected(connected);
+      if (connected) syncNow();
+    });
 
-    const unsubscribe = subscribeToNetworkChanges(async (status) => {
+    const unsubscribe = subscribeToNetworkChanges((status) => {
+      const cameOnline = status.isConnected && !connectedRef.current;
+      connectedRef.current = status.isConnected;
       setIsConnected(status.isConnected);
 
       // Process offline queue when connection is restored
-      if (status.isConnected) {
-        const queue = await getOfflineQueue();
-        if (queue.length === 0) return;
-
-        setPendingMutations(queue.length);
-        let processed = 0;
-        let failed = 0;
-
-        for (const mutation of queue) {
-          let success = false;
-
-          for (let attempt = 1; attempt <= MAX_QUEUE_RETRIES; attempt++) {
-            try {
-              if (mutation.method === 'POST' && mutation.body) {
-                await api.post(mutation.endpoint, mutation.body);
-              } else if (mutation.method === 'PATCH' && mutation.body) {
-                await api.patch(mutation.endpoint, mutation.body);
-              } else if (mutation.method === 'DELETE') {
-                await api.delete(mutation.endpoint);
-              }
-              success = true;
-              break;
-            } catch (error) {
-              if (attempt < MAX_QUEUE_RETRIES) {
-                await new Promise((r) => setTimeout(r, 1000 * Math.pow(2, attempt - 1)));
-              }
-            }
-          }
-
-          if (success) {
-            await removeFromQueue(mutation.id);
-            processed++;
-          } else {
-            failed++;
-            console.error(`Offline mutation permanently failed: ${mutation.method} ${mutation.endpoint}`);
-          }
-
-          setPendingMutations(queue.length - processed - failed);
-        }
-
-        // Clean up successfully processed items; leave failures in queue
-        if (failed === 0) {
-          await clearOfflineQueue();
-        }
-
-        setFailedMutations(failed);
-        setPendingMutations(0);
-
-        if (failed > 0) {
-          Alert.alert(
-            'Sync Issue',
-            `${processed} action${processed !== 1 ? 's' : ''} synced successfully, but ${failed} failed. These will be retried automatically.`,
-            [{ text: 'OK' }]
-          );
-        } else if (processed > 0) {
-          // Silently succeed — no need to bother the user
-        }
+      if (cameOnline) {
+        syncNow();
       }
     });
 
     return () => unsubscribe();
-  }, []);
+  }, [refreshQueue, syncNow]);
+
+  const enqueue = useCallback(async (mutation: NewQueuedMutation) => {
+    const queued = await queueOfflineMutation(mutation);
+    await refreshQueue();
+    syncNow();
+    return queued;
+  }, [refreshQueue, syncNow]);
+
+  const updateQueued = useCallback(async (id: string, changes: Pick<NewQueuedMutation, 'body' | 'receiptUri'>) => {
+    await updateQueuedMutation(id, changes);
+    await refreshQueue();
+    syncNow();
+  }, [refreshQueue, syncNow]);
+
+  const retry = useCallback(async (id: string) => {
+    await retryQueuedMutation(id);
+    await refreshQueue();
+    syncNow();
+  }, [refreshQueue, syncNow]);
+
+  const discard = useCallback(async (id: string) => {
+    await removeFromQueue(id);
+    await refreshQueue();
+  }, [refreshQueue]);
+
+  const pendingMutations = queue.filter((item) => item.status === 'pending').length;
+  const failedMutations = queue.length - pendingMutations;
 
   return (
-    <NetworkContext.Provider value={{ isConnected, pendingMutations, failedMutations }}>
+    <NetworkContext.Provider
+      value={{ isConnected, pendingMutations, failedMutations, queue, syncingId, enqueue, updateQueued, retry, discard, syncNow }}
+    >
       {children}
     </NetworkContext.Provider>
   );
@@ -1,5 +1,7 @@
 import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { apiRequest, uploadReceipt, ApiError } from './api';
 
 export type NetworkStatus = {
   isConnected: boolean;
@@ -23,37 +25,241 @@ export async function checkConnection(): Promise<boolean> {
 }
 
 // Offline mutation queue
+//
+// Mutations are replayed oldest first. A network error or 5xx stops the
+// run so later changes never overtake earlier ones; the next run starts
+// from the same item with the same Idempotency-Key, so a request that did
+// reach the server is replayed rather than repeated. A 4xx marks the item
+// failed and a *_CONFLICT 409 marks it conflicted; both wait for the user
+// to retry, edit or discard it.
 const OFFLINE_QUEUE_KEY = 'offline_mutation_queue';
+const RECEIPT_DIR = `${FileSystem.documentDirectory}offline-receipts/`;
 
-interface QueuedMutation {
+export type QueuedMutationStatus = 'pending' | 'failed' | 'conflict';
+
+export interface QueuedMutation {
   id: string;
   method: 'POST' | 'PATCH' | 'DELETE';
   endpoint: string;
   body?: Record<string, unknown>;
   timestamp: number;
+  idempotencyKey: string;
+  // Local copy of a receipt photo, uploaded just before the mutation is
+  // sent; its URL goes in body.receiptUrl.
+  receiptUri?: string;
+  status: QueuedMutationStatus;
+  attempts: number;
+  error?: string;
+  // The server's copy of the record, from a conflict response.
+  conflict?: Record<string, unknown>;
+  // Lets a screen find its own items, e.g. { type: 'expense', id }.
+  entity?: { type: string; id?: string };
 }
 
-export async function queueOfflineMutation(mutation: Omit<QueuedMutation, 'id' | 'timestamp'>): Promise<void> {
-  const queue = await getOfflineQueue();
-  queue.push({
-    ...mutation,
-    id: `${Date.now()}_${Math.random().toString(36).slice(2)}`,
-    timestamp: Date.now(),
+export type NewQueuedMutation = Pick<QueuedMutation, 'method' | 'endpoint' | 'body' | 'receiptUri' | 'entity'> & {
+  // The key of an online attempt whose outcome is unknown, so the queued
+  // retry can't apply it twice.
+  idempotencyKey?: string;
+};
+
+export interface QueueSyncResult {
+  synced: number;
+  failed: number;
+  conflicts: number;
+  remaining: number;
+}
+
+function randomId(): string {
+  return `${Date.now()}_${Math.random().toString(36).slice(2)}`;
+}
+
+export function newIdempotencyKey(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
   });
+}
+
+// Image picker URIs point at a cache the OS may clear; keep our own copy
+// until the receipt is uploaded.
+async function keepReceipt(uri: string): Promise<string> {
+  if (uri.startsWith(RECEIPT_DIR)) return uri;
+  await FileSystem.makeDirectoryAsync(RECEIPT_DIR, { intermediates: true }).catch(() => {});
+  const extension = /\.(\w+)$/.exec(uri)?.[1] ?? 'jpg';
+  const target = `${RECEIPT_DIR}${randomId()}.${extension}`;
+  await FileSystem.copyAsync({ from: uri, to: target });
+  return target;
+}
+
+async function discardReceipt(uri: string | undefined): Promise<void> {
+  if (uri?.startsWith(RECEIPT_DIR)) {
+    await FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+  }
+}
+
+async function saveQueue(queue: QueuedMutation[]): Promise<void> {
   await AsyncStorage.setItem(OFFLINE_QUEUE_KEY, JSON.stringify(queue));
 }
 
+export async function queueOfflineMutation(mutation: NewQueuedMutation): Promise<QueuedMutation> {
+  const queued: QueuedMutation = {
+    ...mutation,
+    receiptUri: mutation.receiptUri ? await keepReceipt(mutation.receiptUri) : undefined,
+    id: randomId(),
+    timestamp: Date.now(),
+    idempotencyKey: mutation.idempotencyKey ?? newIdempotencyKey(),
+    status: 'pending',
+    attempts: 0,
+  };
+  const queue = await getOfflineQueue();
+  queue.push(queued);
+  await saveQueue(queue);
+  return queued;
+}
+
 export async function getOfflineQueue(): Promise<QueuedMutation[]> {
   const stored = await AsyncStorage.getItem(OFFLINE_QUEUE_KEY);
-  return stored ? JSON.parse(stored) : [];
+  const queue: Partial<QueuedMutation>[] = stored ? JSON.parse(stored) : [];
+  // Entries queued before keys and statuses existed.
+  return queue
+    .map((item) => ({
+      ...item,
+      idempotencyKey: item.idempotencyKey ?? newIdempotencyKey(),
+      status: item.status ?? 'pending',
+      attempts: item.attempts ?? 0,
+    }) as QueuedMutation)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Change a queued mutation before it syncs, e.g. a draft edited offline.
+ * It goes back to pending under a new Idempotency-Key, since its body
+ * may differ from what an earlier attempt sent.
+ */
+export async function updateQueuedMutation(id: string, changes: Pick<NewQueuedMutation, 'body' | 'receiptUri'>): Promise<void> {
+  const queue = await getOfflineQueue();
+  const item = queue.find((q) => q.id === id);
+  if (!item) return;
+  if (changes.receiptUri !== item.receiptUri) {
+    await discardReceipt(item.receiptUri);
+    item.receiptUri = changes.receiptUri ? await keepReceipt(changes.receiptUri) : undefined;
+  }
+  if (changes.body) item.body = changes.body;
+  item.idempotencyKey = newIdempotencyKey();
+  item.status = 'pending';
+  item.error = undefined;
+  item.conflict = undefined;
+  await saveQueue(queue);
+}
+
+// Put a failed or conflicted mutation back in line as it is.
+export async function retryQueuedMutation(id: string): Promise<void> {
+  const queue = await getOfflineQueue();
+  const item = queue.find((q) => q.id === id);
+  if (!item) return;
+  item.status = 'pending';
+  item.error = undefined;
+  item.conflict = undefined;
+  await saveQueue(queue);
 }
 
 export async function clearOfflineQueue(): Promise<void> {
+  const queue = await getOfflineQueue();
+  await Promise.all(queue.map((item) => discardReceipt(item.receiptUri)));
   await AsyncStorage.removeItem(OFFLINE_QUEUE_KEY);
 }
 
 export async function removeFromQueue(id: string): Promise<void> {
   const queue = await getOfflineQueue();
+  await discardReceipt(queue.find((item) => item.id === id)?.receiptUri);
   const filtered = queue.filter((item) => item.id !== id);
-  await AsyncStorage.setItem(OFFLINE_QUEUE_KEY, JSON.stringify(filtered));
+  await saveQueue(filtered);
+}
+
+type SendOutcome = 'synced' | 'failed' | 'conflict' | 'retry_later';
+
+// Write one item back (or drop it) without losing anything queued since
+// the run started.
+async function saveQueuedItem(item: QueuedMutation, drop: boolean): Promise<void> {
+  const stored = await getOfflineQueue();
+  await saveQueue(stored
+    .filter((q) => q.id !== item.id || !drop)
+    .map((q) => (q.id === item.id ? item : q)));
+}
+
+async function sendQueuedMutation(item: QueuedMutation): Promise<SendOutcome> {
+  try {
+    if (item.receiptUri) {
+      const localUri = item.receiptUri;
+      const { url } = await uploadReceipt(localUri);
+      item.body = { ...item.body, receiptUrl: url };
+      item.receiptUri = undefined;
+      // Record the URL before letting go of the photo.
+      await saveQueuedItem(item, false);
+      await discardReceipt(localUri);
+    }
+    await apiRequest(item.method, item.endpoint, item.body, { 'Idempotency-Key': item.idempotencyKey });
+    return 'synced';
+  } catch (error) {
+    if (!(error instanceof ApiError) || error.status >= 500 || error.status === 408 || error.status === 429) {
+      item.attempts += 1;
+      return 'retry_later';
+    }
+    // Someone else already deleted it.
+    if (item.method === 'DELETE' && error.status === 404) {
+      return 'synced';
+    }
+    item.error = error.message;
+    if (error.status === 409 && typeof error.body?.code === 'string' && error.body.code.endsWith('_CONFLICT')) {
+      item.conflict = error.body.expense ?? error.body;
+      return 'conflict';
+    }
+    // A 409 without a code is the first attempt still running on the server.
+    if (error.status === 409) {
+      item.error = undefined;
+      return 'retry_later';
+    }
+    return 'failed';
+  }
+}
+
+let runningSync: Promise<QueueSyncResult> | null = null;
+
+/**
+ * Replay pending mutations in order. Only one run happens at a time; a
+ * call while one is running waits for it. `onProgress` gets the id of the
+ * item being sent, then null.
+ */
+export function syncOfflineQueue(onProgress?: (syncingId: string | null) => void): Promise<QueueSyncResult> {
+  if (runningSync) return runningSync;
+  runningSync = (async () => {
+    const result: QueueSyncResult = { synced: 0, failed: 0, conflicts: 0, remaining: 0 };
+    const queue = await getOfflineQueue();
+    let remaining = [...queue];
+
+    for (const item of queue) {
+      if (item.status !== 'pending') continue;
+      onProgress?.(item.id);
+      const outcome = await sendQueuedMutation(item);
+      if (outcome === 'synced') {
+        remaining = remaining.filter((q) => q.id !== item.id);
+        result.synced++;
+      } else if (outcome === 'failed') {
+        item.status = 'failed';
+        result.failed++;
+      } else if (outcome === 'conflict') {
+        item.status = 'conflict';
+        result.conflicts++;
+      }
+      await saveQueuedItem(item, outcome === 'synced');
+      if (outcome === 'retry_later') break;
+    }
+
+    onProgress?.(null);
+    result.remaining = remaining.filter((q) => q.status === 'pending').length;
+    return result;
+  })().finally(() => {
+    runningSync = null;
+  });
+  return runningSync;
 }
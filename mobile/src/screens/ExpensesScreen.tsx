@@ -10,60 +10,17 @@ import {
   TextInput,
   Alert,
   ActivityIndicator,
-  Platform,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import * as ImagePicker from 'expo-image-picker';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { api } from '../lib/api';
+import { api, apiRequest, uploadReceipt, ApiError, type ReceiptDraft } from '../lib/api';
 import { useTheme } from '../lib/theme-context';
 import { useCompany } from '../lib/company-context';
+import { useNetwork } from '../lib/network-context';
+import { newIdempotencyKey, type QueuedMutation } from '../lib/offline';
 import { ColorTokens } from '../lib/colors';
 
-const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'https://thefinanciar.com';
-const ACTIVE_COMPANY_KEY = 'financiar_active_company_id';
-
-async function uploadReceipt(uri: string): Promise<string> {
-  const [token, activeCompanyId] = await Promise.all([
-    AsyncStorage.getItem('authToken'),
-    AsyncStorage.getItem(ACTIVE_COMPANY_KEY),
-  ]);
-
-  const formData = new FormData();
-  const filename = uri.split('/').pop() || 'receipt.jpg';
-  const match = /\.(\w+)$/.exec(filename);
-  const type = match ? `image/${match[1]}` : 'image/jpeg';
-
-  formData.append('receipt', {
-    uri: Platform.OS === 'ios' ? uri.replace('file://', '') : uri,
-    name: filename,
-    type,
-  } as any);
-
-  const headers: HeadersInit = {};
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
-  }
-  if (activeCompanyId) {
-    headers['X-Company-Id'] = activeCompanyId;
-  }
-
-  const response = await fetch(`${API_BASE_URL}/api/upload/receipt`, {
-    method: 'POST',
-    headers,
-    body: formData,
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ message: 'Upload failed' }));
-    throw new Error(error.message || 'Failed to upload receipt');
-  }
-
-  const result = await response.json();
-  return result.url;
-}
-
 interface Expense {
   id: number;
   description: string;
@@ -74,6 +31,8 @@ interface Expense {
   merchant?: string;
   currency?: string;
   receiptUrl?: string;
+  receiptOcrAmount?: string | null;
+  receiptAmountMismatch?: boolean;
 }
 
 const categories = ['Software', 'Travel', 'Office', 'Marketing', 'Food', 'Equipment', 'Utilities', 'Legal', 'Other'];
@@ -84,8 +43,11 @@ export default function ExpensesScreen() {
   const styles = useMemo(() => createStyles(colors), [colors]);
   const queryClient = useQueryClient();
   const { isAdmin, isManager } = useCompany();
+  const { isConnected, queue, syncingId, enqueue, updateQueued, retry, discard } = useNetwork();
   const [modalVisible, setModalVisible] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  // A queued create or edit being changed before it syncs.
+  const [editingDraft, setEditingDraft] = useState<QueuedMutation | null>(null);
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
   const [category, setCategory] = useState('Other');
@@ -94,34 +56,88 @@ export default function ExpensesScreen() {
   const [statusFilter, setStatusFilter] = useState('all');
   const [receiptUri, setReceiptUri] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  // Receipts are uploaded when picked so the server can OCR them; the
+  // URL is reused on submit instead of uploading again.
+  const [receiptScan, setReceiptScan] = useState<{ uri: string; url: string; draft: ReceiptDraft | null } | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
 
   const { data: expenses, isLoading, refetch } = useQuery({
     queryKey: ['expenses'],
     queryFn: () => api.get<Expense[]>('/api/expenses'),
   });
 
+  // Expense creates and edits waiting in the offline queue.
+  const drafts = queue.filter((item) => item.entity?.type === 'expense');
+
+  // Keep the expense as a draft on the device; it syncs when back online.
+  const saveDraft = async (data: {
+    id?: number;
+    idempotencyKey?: string;
+    baseStatus?: string;
+    description: string;
+    amount: number;
+    category: string;
+    merchant?: string;
+    receiptUrl?: string;
+    receiptUri?: string;
+  }) => {
+    const body: Record<string, unknown> = {
+      merchant: data.merchant || data.description,
+      amount: data.amount,
+      category: data.category,
+      note: data.description,
+      receiptUrl: data.receiptUrl || undefined,
+    };
+    if (data.id != null) body.baseStatus = data.baseStatus;
+    try {
+      await enqueue({
+        method: data.id != null ? 'PATCH' : 'POST',
+        endpoint: data.id != null ? `/api/expenses/${data.id}` : '/api/expenses',
+        body,
+        receiptUri: data.receiptUrl ? undefined : data.receiptUri,
+        entity: { type: 'expense', id: data.id != null ? String(data.id) : undefined },
+        idempotencyKey: data.idempotencyKey,
+      });
+      closeModal();
+      Alert.alert('Saved offline', 'This expense will sync when you are back online.');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save draft');
+    }
+  };
+
   const createExpense = useMutation({
-    mutationFn: (data: { description: string; amount: number; category: string; merchant?: string; receiptUrl?: string }) =>
-      api.post('/api/expenses', { merchant: data.merchant || data.description, amount: data.amount, category: data.category, note: data.description, receiptUrl: data.receiptUrl || undefined }),
+    mutationFn: (data: { idempotencyKey: string; description: string; amount: number; category: string; merchant?: string; receiptUrl?: string; receiptUri?: string }) =>
+      apiRequest('POST', '/api/expenses',
+        { merchant: data.merchant || data.description, amount: data.amount, category: data.category, note: data.description, receiptUrl: data.receiptUrl || undefined },
+        { 'Idempotency-Key': data.idempotencyKey }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['expenses'] });
       closeModal();
       Alert.alert('Success', 'Expense created successfully');
     },
-    onError: (error: any) => {
+    onError: (error: any, data) => {
+      // The connection dropped mid-request: keep it as a draft, under the
+      // same key in case the server did get it.
+      if (!(error instanceof ApiError)) {
+        saveDraft(data);
+        return;
+      }
       Alert.alert('Error', error.message || 'Failed to create expense');
     },
   });
 
   const updateExpense = useMutation({
-    mutationFn: (data: { id: number; description: string; amount: number; category: string; merchant?: string; receiptUrl?: string }) =>
-      api.patch(`/api/expenses/${data.id}`, { merchant: data.merchant || data.description, amount: data.amount, category: data.category, note: data.description, receiptUrl: data.receiptUrl || undefined }),
+    mutationFn: (data: { id: number; baseStatus?: string; description: string; amount: number; category: string; merchant?: string; receiptUrl?: string }) =>
+      api.patch(`/api/expenses/${data.id}`, { merchant: data.merchant || data.description, amount: data.amount, category: data.category, note: data.description, receiptUrl: data.receiptUrl || undefined, baseStatus: data.baseStatus }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['expenses'] });
       closeModal();
       Alert.alert('Success', 'Expense updated successfully');
     },
     onError: (error: any) => {
+      if (error instanceof ApiError && error.status === 409) {
+        queryClient.invalidateQueries({ queryKey: ['expenses'] });
+      }
       Alert.alert('Error', error.message || 'Failed to update expense');
     },
   });
@@ -201,7 +217,40 @@ export default function ExpensesScreen() {
     setCategory('Other');
     setMerchant('');
     setReceiptUri(null);
+    setReceiptScan(null);
     setEditingExpense(null);
+    setEditingDraft(null);
+  };
+
+  const scanReceipt = async (uri: string) => {
+    setReceiptUri(uri);
+    // Offline, the photo is kept with the draft and uploaded on sync.
+    if (!isConnected) return;
+    setIsScanning(true);
+    try {
+      const result = await uploadReceipt(uri);
+      setReceiptScan({ uri, ...result });
+      // Only fill fields the user has left empty.
+      if (result.draft?.merchant.value) {
+        const scannedMerchant = result.draft.merchant.value;
+        setMerchant((current) => current || scannedMerchant);
+        setDescription((current) => current || scannedMerchant);
+      }
+      if (result.draft?.total.value != null) {
+        const scannedTotal = result.draft.total.value.toFixed(2);
+        setAmount((current) => current || scannedTotal);
+      }
+    } catch {
+      // The receipt is uploaded again on submit (or with the draft);
+      // prefill is best effort.
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const clearReceipt = () => {
+    setReceiptUri(null);
+    setReceiptScan(null);
   };
 
   const closeModal = () => {
@@ -221,7 +270,7 @@ export default function ExpensesScreen() {
       quality: 0.7,
     });
     if (!result.canceled && result.assets[0]) {
-      setReceiptUri(result.assets[0].uri);
+      scanReceipt(result.assets[0].uri);
     }
   };
 
@@ -236,7 +285,7 @@ export default function ExpensesScreen() {
       quality: 0.7,
     });
     if (!result.canceled && result.assets[0]) {
-      setReceiptUri(result.assets[0].uri);
+      scanReceipt(result.assets[0].uri);
     }
   };
 
@@ -254,6 +303,47 @@ export default function ExpensesScreen() {
     setModalVisible(true);
   };
 
+  const openDraftModal = (draft: QueuedMutation) => {
+    resetForm();
+    const body = draft.body ?? {};
+    setEditingDraft(draft);
+    setDescription(String(body.note ?? body.merchant ?? ''));
+    setAmount(body.amount != null ? String(body.amount) : '');
+    setCategory(String(body.category ?? 'Other'));
+    setMerchant(body.merchant && body.merchant !== body.note ? String(body.merchant) : '');
+    // An uploaded receipt's URL stands in for the photo.
+    setReceiptUri(draft.receiptUri ?? (typeof body.receiptUrl === 'string' ? body.receiptUrl : null));
+    setModalVisible(true);
+  };
+
+  const handleDiscardDraft = (draft: QueuedMutation) => {
+    Alert.alert(
+      'Discard Draft',
+      draft.method === 'PATCH'
+        ? 'Discard your offline changes to this expense?'
+        : 'Discard this expense? It has not been submitted.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => { discard(draft.id); queryClient.invalidateQueries({ queryKey: ['expenses'] }); } },
+      ]
+    );
+  };
+
+  // The server's copy changed under an offline edit: keep theirs, or
+  // re-apply ours on top of what it is now.
+  const handleResolveConflict = (draft: QueuedMutation) => {
+    const serverStatus = String(draft.conflict?.status ?? 'updated').toLowerCase();
+    Alert.alert(
+      'Sync Conflict',
+      `This expense was ${serverStatus} while you were offline, so your changes were not saved.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Keep Server Version', onPress: () => { discard(draft.id); queryClient.invalidateQueries({ queryKey: ['expenses'] }); } },
+        { text: 'Edit Again', onPress: () => openDraftModal(draft) },
+      ]
+    );
+  };
+
   const handleDelete = (expense: Expense) => {
     Alert.alert(
       'Delete Expense',
@@ -276,13 +366,51 @@ export default function ExpensesScreen() {
       return;
     }
 
+    const scannedUrl = receiptScan && receiptScan.uri === receiptUri ? receiptScan.url : undefined;
+
+    if (editingDraft) {
+      const keptUrl = receiptUri && receiptUri === editingDraft.body?.receiptUrl ? receiptUri : undefined;
+      const body: Record<string, unknown> = {
+        ...editingDraft.body,
+        merchant: merchant || description,
+        amount: parsedAmount,
+        category,
+        note: description,
+        receiptUrl: scannedUrl ?? keptUrl,
+      };
+      // Re-applying an edit after a conflict: it now applies on top of
+      // the server's current status.
+      if (editingDraft.status === 'conflict' && editingDraft.conflict?.status) {
+        body.baseStatus = editingDraft.conflict.status;
+      }
+      await updateQueued(editingDraft.id, { body, receiptUri: scannedUrl || keptUrl ? undefined : receiptUri ?? undefined });
+      closeModal();
+      return;
+    }
+
+    if (!isConnected) {
+      await saveDraft({
+        id: editingExpense?.id,
+        baseStatus: editingExpense?.status,
+        description,
+        amount: parsedAmount,
+        category,
+        merchant: merchant || undefined,
+        receiptUrl: scannedUrl,
+        receiptUri: receiptUri ?? undefined,
+      });
+      return;
+    }
+
     let receiptUrl: string | undefined;
 
-    // Upload receipt if one was selected
-    if (receiptUri) {
+    // Upload receipt if one was selected and not already scanned
+    if (scannedUrl) {
+      receiptUrl = scannedUrl;
+    } else if (receiptUri) {
       try {
         setIsUploading(true);
-        receiptUrl = await uploadReceipt(receiptUri);
+        receiptUrl = (await uploadReceipt(receiptUri)).url;
       } catch (error: any) {
         Alert.alert('Upload Error', error.message || 'Failed to upload receipt');
         setIsUploading(false);
@@ -295,6 +423,7 @@ export default function ExpensesScreen() {
     if (editingExpense) {
       updateExpense.mutate({
         id: editingExpense.id,
+        baseStatus: editingExpense.status,
         description,
         amount: parseFloat(amount),
         category,
@@ -303,11 +432,13 @@ export default function ExpensesScreen() {
       });
     } else {
       createExpense.mutate({
+        idempotencyKey: newIdempotencyKey(),
         description,
         amount: parseFloat(amount),
         category,
         merchant: merchant || undefined,
         receiptUrl,
+        receiptUri: receiptUri ?? undefined,
       });
     }
   };
@@ -338,12 +469,67 @@ export default function ExpensesScreen() {
     return matchesSearch && matchesStatus;
   });
 
-  const isPending = createExpense.isPending || updateExpense.isPending || isUploading;
+  const isPending = createExpense.isPending || updateExpense.isPending || isUploading || isScanning;
 
   const canApproveReject = isAdmin || isManager;
   const isApproving = approveExpense.isPending;
   const isRejecting = rejectExpense.isPending;
 
+  const draftStatus = (draft: QueuedMutation): { label: string; color: string; icon: keyof typeof Ionicons.glyphMap } => {
+    if (draft.id === syncingId) return { label: 'Syncing…', color: colors.accent, icon: 'sync' };
+    if (draft.status === 'conflict') return { label: 'Conflict', color: colors.danger, icon: 'git-compare-outline' };
+    if (draft.status === 'failed') return { label: 'Not synced', color: colors.danger, icon: 'alert-circle-outline' };
+    return isConnected
+      ? { label: 'Waiting to sync', color: colors.warning, icon: 'time-outline' }
+      : { label: 'Saved offline', color: colors.textSecondary, icon: 'cloud-offline-outline' };
+  };
+
+  const renderDraft = (draft: QueuedMutation) => {
+    const body = draft.body ?? {};
+    const status = draftStatus(draft);
+    const amountValue = parseFloat(String(body.amount ?? 0));
+    return (
+      <TouchableOpacity
+        key={draft.id}
+        style={[styles.expenseCard, styles.draftCard]}
+        onPress={() => (draft.status === 'conflict' ? handleResolveConflict(draft) : openDraftModal(draft))}
+        onLongPress={() => handleDiscardDraft(draft)}
+        disabled={draft.id === syncingId}
+      >
+        <View style={styles.expenseIcon}>
+          <Ionicons name={status.icon} size={20} color={status.color} />
+        </View>
+        <View style={styles.expenseContent}>
+          <Text style={styles.expenseDescription}>{String(body.note ?? body.merchant ?? 'Expense')}</Text>
+          <Text style={styles.expenseMeta}>
+            {draft.method === 'PATCH' ? 'Edit' : 'New expense'}
+            {draft.receiptUri || body.receiptUrl ? ' · receipt attached' : ''}
+          </Text>
+          {!!draft.error && <Text style={styles.draftError}>{draft.error}</Text>}
+          {draft.status === 'failed' && (
+            <View style={styles.approvalActions}>
+              <TouchableOpacity style={styles.approveButton} onPress={() => retry(draft.id)}>
+                <Ionicons name="refresh" size={16} color={colors.success} />
+                <Text style={styles.approveButtonText}>Retry</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.rejectButton} onPress={() => handleDiscardDraft(draft)}>
+                <Ionicons name="trash-outline" size={16} color={colors.danger} />
+                <Text style={styles.rejectButtonText}>Discard</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+        <View style={styles.expenseRight}>
+          <Text style={styles.expenseAmount}>{formatCurrency(amountValue)}</Text>
+          <View style={styles.expenseStatusRow}>
+            <View style={[styles.statusDot, { backgroundColor: status.color }]} />
+            <Text style={[styles.expenseStatus, { color: status.color }]}>{status.label}</Text>
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
   const renderExpense = ({ item }: { item: Expense }) => (
     <TouchableOpacity style={styles.expenseCard} onPress={() => openEditModal(item)} onLongPress={() => handleDelete(item)}>
       <View style={styles.expenseIcon}>
@@ -354,6 +540,14 @@ export default function ExpensesScreen() {
         <Text style={styles.expenseMeta}>
           {item.category}{item.merchant ? ` - ${item.merchant}` : ''}
         </Text>
+        {item.receiptAmountMismatch && item.receiptOcrAmount != null && (
+          <View style={styles.mismatchRow}>
+            <Ionicons name="warning-outline" size={12} color={colors.warning} />
+            <Text style={styles.mismatchText}>
+              Receipt shows {formatCurrency(parseFloat(item.receiptOcrAmount), item.currency)}
+            </Text>
+          </View>
+        )}
         {canApproveReject && item.status?.toLowerCase() === 'pending' && (
           <View style={styles.approvalActions}>
             <TouchableOpacity
@@ -444,6 +638,14 @@ export default function ExpensesScreen() {
         keyExtractor={(item) => item.id.toString()}
         renderItem={renderExpense}
         contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          drafts.length > 0 ? (
+            <View style={styles.draftSection}>
+              <Text style={styles.draftSectionTitle}>On this device</Text>
+              {drafts.map(renderDraft)}
+            </View>
+          ) : null
+        }
         refreshControl={
           <RefreshControl refreshing={isLoading} onRefresh={refetch} tintColor={colors.accent} />
         }
@@ -470,7 +672,7 @@ export default function ExpensesScreen() {
             <TouchableOpacity onPress={closeModal}>
               <Ionicons name="close" size={24} color={colors.textPrimary} />
             </TouchableOpacity>
-            <Text style={styles.modalTitle}>{editingExpense ? 'Edit Expense' : 'New Expense'}</Text>
+            <Text style={styles.modalTitle}>{editingDraft ? 'Edit Draft' : editingExpense ? 'Edit Expense' : 'New Expense'}</Text>
             <View style={{ width: 24 }} />
           </View>
 
@@ -523,8 +725,13 @@ export default function ExpensesScreen() {
               {receiptUri ? (
                 <View style={styles.receiptPreview}>
                   <Ionicons name="document-attach" size={24} color={colors.accent} />
-                  <Text style={styles.receiptFileName} numberOfLines={1}>Receipt attached</Text>
-                  <TouchableOpacity onPress={() => setReceiptUri(null)}>
+                  <Text style={styles.receiptFileName} numberOfLines={1}>
+                    {isScanning ? 'Reading receipt…' : receiptScan?.draft?.total.value != null
+                      ? `Receipt attached · total ${receiptScan.draft.total.value.toFixed(2)} (${Math.round(receiptScan.draft.total.confidence * 100)}% sure)`
+                      : 'Receipt attached'}
+                  </Text>
+                  {isScanning && <ActivityIndicator size="small" color={colors.accent} />}
+                  <TouchableOpacity onPress={clearReceipt}>
                     <Ionicons name="close-circle" size={20} color={colors.dangerLight} />
                   </TouchableOpacity>
                 </View>
@@ -551,11 +758,25 @@ export default function ExpensesScreen() {
                 <ActivityIndicator color={colors.primaryForeground} />
               ) : (
                 <Text style={styles.submitButtonText}>
-                  {editingExpense ? 'Update Expense' : 'Create Expense'}
+                  {editingDraft ? 'Save Draft' : !isConnected ? 'Save Offline' : editingExpense ? 'Update Expense' : 'Create Expense'}
                 </Text>
               )}
             </TouchableOpacity>
 
+            {editingDraft && (
+              <TouchableOpacity
+                style={styles.deleteButton}
+                onPress={() => {
+                  const draft = editingDraft;
+                  closeModal();
+                  handleDiscardDraft(draft);
+                }}
+              >
+                <Ionicons name="trash-outline" size={18} color={colors.danger} />
+                <Text style={styles.deleteButtonText}>Discard Draft</Text>
+              </TouchableOpacity>
+            )}
+
             {editingExpense && (
               <TouchableOpacity
                 style={styles.deleteButton}
@@ -665,6 +886,12 @@ function createStyles(colors: ColorTokens) {
     receiptSection: {
       marginTop: 4,
     },
+    mismatchRow: { flexDirection: 'row', alignItems: 'center', gap: 4, marginTop: 4 },
+    draftSection: { marginBottom: 8 },
+    draftSectionTitle: { fontSize: 13, fontWeight: '600', color: colors.textSecondary, marginBottom: 8 },
+    draftCard: { borderStyle: 'dashed' },
+    draftError: { fontSize: 12, color: colors.danger, marginTop: 4 },
+    mismatchText: { fontSize: 12, color: colors.warning },
     receiptButtons: {
       flexDirection: 'row',
       gap: 12,
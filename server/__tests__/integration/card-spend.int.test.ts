@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { Pool } from "pg";
+import { bootIntegrationDb, teardownIntegrationDb, resetIntegrationDb, IntegrationTestEnv } from "./setup";
+
+// Card payments under real concurrency: storage.spendFromCard debits the
+// balance and uses up one use in a single conditional UPDATE, so two
+// payments racing on the same card can't both get through.
+
+type Storage = typeof import("../../storage")["storage"];
+
+describe("spendFromCard", () => {
+  let env: IntegrationTestEnv;
+  let pool: Pool;
+  let storage: Storage;
+
+  const insertCard = async (balance: string, maxUses: number | null) => {
+    const { rows } = await pool.query(
+      `INSERT INTO virtual_cards (name, last4, balance, card_limit, kind, max_uses)
+       VALUES ('Test card', '4242', $1, '1000.00', $2, $3) RETURNING id`,
+      [balance, maxUses === 1 ? 'single_use' : 'standard', maxUses],
+    );
+    return rows[0].id as string;
+  };
+
+  beforeAll(async () => {
+    env = await bootIntegrationDb();
+    pool = env.pool;
+    process.env.DATABASE_URL = env.connectionString;
+    ({ storage } = await import("../../storage"));
+  }, 60_000);
+
+  afterAll(async () => {
+    if (env) await teardownIntegrationDb(env);
+  });
+
+  beforeEach(async () => {
+    await resetIntegrationDb(pool);
+  });
+
+  it("lets only one of two concurrent payments use a single-use card", async () => {
+    const id = await insertCard("100.00", 1);
+
+    const results = await Promise.all([storage.spendFromCard(id, 10), storage.spendFromCard(id, 10)]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    const { rows } = await pool.query(`SELECT balance, use_count FROM virtual_cards WHERE id = $1`, [id]);
+    expect(rows[0]).toEqual({ balance: "90.00", use_count: 1 });
+  });
+
+  it("refuses the payment that would overdraw the card", async () => {
+    const id = await insertCard("50.00", null);
+
+    const results = await Promise.all([storage.spendFromCard(id, 30), storage.spendFromCard(id, 30)]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    const { rows } = await pool.query(`SELECT balance, use_count FROM virtual_cards WHERE id = $1`, [id]);
+    expect(rows[0]).toEqual({ balance: "20.00", use_count: 1 });
+  });
+
+  it("refuses a card that is not active", async () => {
+    const id = await insertCard("50.00", null);
+    await pool.query(`UPDATE virtual_cards SET status = 'frozen' WHERE id = $1`, [id]);
+
+    expect(await storage.spendFromCard(id, 10)).toBeUndefined();
+  });
+});
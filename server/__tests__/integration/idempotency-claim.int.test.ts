@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { Pool } from "pg";
+import { bootIntegrationDb, teardownIntegrationDb, resetIntegrationDb, IntegrationTestEnv } from "./setup";
+
+// Idempotency-Key claims under real concurrency. The middleware tests in
+// middleware/idempotency.test.ts mock storage; this runs the storage
+// methods themselves against Postgres, pointed at the container through
+// DATABASE_URL before storage (and server/db.ts) is imported.
+
+type Storage = typeof import("../../storage")["storage"];
+
+describe("idempotency key claims", () => {
+  let env: IntegrationTestEnv;
+  let pool: Pool;
+  let storage: Storage;
+
+  const params = (fingerprint = "fp-1") => ({
+    scope: "user-1",
+    key: "k1",
+    method: "POST",
+    path: "/api/payouts",
+    fingerprint,
+    expiresAt: new Date(Date.now() + 5 * 60_000).toISOString(),
+  });
+
+  const lapseLease = () => pool.query(
+    `UPDATE idempotency_keys SET expires_at = $1 WHERE scope = 'user-1' AND key = 'k1'`,
+    [new Date(Date.now() - 1000).toISOString()],
+  );
+
+  beforeAll(async () => {
+    env = await bootIntegrationDb();
+    pool = env.pool;
+    process.env.DATABASE_URL = env.connectionString;
+    ({ storage } = await import("../../storage"));
+  }, 60_000);
+
+  afterAll(async () => {
+    if (env) await teardownIntegrationDb(env);
+  });
+
+  beforeEach(async () => {
+    await resetIntegrationDb(pool);
+  });
+
+  it("gives concurrent first attempts one claim", async () => {
+    const claims = await Promise.all([storage.claimIdempotencyKey(params()), storage.claimIdempotencyKey(params())]);
+
+    expect(claims.filter((c) => c.claimed)).toHaveLength(1);
+    const rows = await pool.query(`SELECT claim_token FROM idempotency_keys`);
+    expect(rows.rowCount).toBe(1);
+  });
+
+  it("lets one retry take over a lapsed lease, and the first attempt can no longer complete", async () => {
+    const first = await storage.claimIdempotencyKey(params());
+    await lapseLease();
+
+    const retries = await Promise.all([storage.claimIdempotencyKey(params()), storage.claimIdempotencyKey(params())]);
+    const winners = retries.filter((c) => c.claimed);
+    expect(winners).toHaveLength(1);
+    const retry = winners[0].record;
+    expect(retry.id).toBe(first.record.id);
+    expect(retry.claimToken).not.toBe(first.record.claimToken);
+
+    await storage.completeIdempotencyKey(first.record.id, first.record.claimToken!, 201, { from: "first" });
+    await storage.completeIdempotencyKey(retry.id, retry.claimToken!, 201, { from: "retry" });
+
+    const row = await pool.query(`SELECT status, response_body FROM idempotency_keys WHERE id = $1`, [retry.id]);
+    expect(row.rows[0]).toEqual({ status: "completed", response_body: { from: "retry" } });
+  });
+
+  it("keeps a lapsed lease from a retry with a different body", async () => {
+    await storage.claimIdempotencyKey(params("fp-1"));
+    await lapseLease();
+
+    const other = await storage.claimIdempotencyKey(params("fp-2"));
+
+    expect(other.claimed).toBe(false);
+    expect(other.record.fingerprint).toBe("fp-1");
+  });
+
+  it("only lets the holder renew or release its claim", async () => {
+    const first = await storage.claimIdempotencyKey(params());
+    const later = new Date(Date.now() + 10 * 60_000).toISOString();
+
+    await storage.renewIdempotencyKey(first.record.id, "someone-else", later);
+    await storage.releaseIdempotencyKey(first.record.id, "someone-else");
+    const untouched = await pool.query(`SELECT expires_at FROM idempotency_keys WHERE id = $1`, [first.record.id]);
+    expect(untouched.rows[0].expires_at).toBe(first.record.expiresAt);
+
+    await storage.releaseIdempotencyKey(first.record.id, first.record.claimToken!);
+    const gone = await pool.query(`SELECT id FROM idempotency_keys WHERE id = $1`, [first.record.id]);
+    expect(gone.rowCount).toBe(0);
+  });
+});
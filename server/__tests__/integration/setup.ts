@@ -117,7 +117,7 @@ export async function resetIntegrationDb(pool: Pool): Promise<void> {
   await pool.query(`
     TRUNCATE TABLE
       payouts, payroll_entries, transactions, wallet_transactions,
-      audit_logs, payment_intent_index
+      audit_logs, payment_intent_index, idempotency_keys, virtual_cards
     RESTART IDENTITY CASCADE;
   `);
 }
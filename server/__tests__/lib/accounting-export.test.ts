@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import {
+  ACCOUNTING_SOURCE_TYPES,
+  buildJournalEntries,
+  resolveExpenseAccount,
+  formatJournalCsv,
+  formatXeroJournalCsv,
+  formatQuickBooksIif,
+  exportKey,
+  type AccountingSources,
+  type GlMappingRef,
+} from "../../lib/accounting-export";
+
+const mappings: GlMappingRef[] = [
+  { sourceType: "category", sourceKey: "marketing", accountCode: "6200", accountName: "Advertising", taxCode: "INPUT" },
+  { sourceType: "vendor", sourceKey: "vendor-aws", accountCode: "6400", accountName: "Hosting", taxCode: null },
+  { sourceType: "department", sourceKey: "dept-eng", accountCode: "6500", accountName: "R&D", taxCode: null },
+  { sourceType: "control", sourceKey: "bank", accountCode: "1010", accountName: "Operating Account", taxCode: null },
+];
+
+const emptySources = (): AccountingSources => ({ expenses: [], bills: [], invoices: [], payroll: [] });
+
+const window = { startDate: "2026-03-01", endDate: "2026-03-31", sourceTypes: ACCOUNTING_SOURCE_TYPES };
+
+const balanced = (lines: { amount: number }[]) => Math.round(lines.reduce((s, l) => s + l.amount, 0) * 100);
+
+describe("resolveExpenseAccount", () => {
+  it("prefers vendor, then category, then department, then the uncategorised account", () => {
+    expect(resolveExpenseAccount(mappings, { vendorId: "vendor-aws", category: "Marketing" }).code).toBe("6400");
+    expect(resolveExpenseAccount(mappings, { category: " MARKETING ", departmentId: "dept-eng" }).code).toBe("6200");
+    expect(resolveExpenseAccount(mappings, { category: "Travel", departmentId: "dept-eng" }).code).toBe("6500");
+    expect(resolveExpenseAccount(mappings, { category: "Travel" })).toEqual({
+      code: "6999",
+      name: "Uncategorised Expense",
+      taxCode: null,
+    });
+  });
+
+  it("takes the tax code from the most specific mapping that has one", () => {
+    expect(resolveExpenseAccount(mappings, { vendorId: "vendor-aws", category: "Marketing" })).toMatchObject({
+      code: "6400",
+      taxCode: "INPUT",
+    });
+  });
+});
+
+describe("buildJournalEntries", () => {
+  it("accrues reimbursable expenses and exports the reimbursement separately", () => {
+    const sources = emptySources();
+    sources.expenses.push({
+      id: "exp-1", date: "2026-03-05", merchant: "Meta Ads", amount: 250, currency: "USD", category: "Marketing",
+      status: "PAID", expenseType: "request", vendorId: null, departmentId: null, department: "Growth",
+      paidDate: "2026-03-09T10:00:00.000Z",
+    });
+    const entries = buildJournalEntries(sources, mappings, window);
+
+    expect(entries.map((e) => [e.sourceType, e.date])).toEqual([
+      ["expense", "2026-03-05"],
+      ["expense_payment", "2026-03-09"],
+    ]);
+    expect(entries[0].lines).toEqual([
+      { accountCode: "6200", accountName: "Advertising", amount: 250, taxCode: "INPUT" },
+      { accountCode: "2150", accountName: "Employee Reimbursements Payable", amount: -250, taxCode: null },
+    ]);
+    expect(entries[1].lines.map((l) => [l.accountCode, l.amount])).toEqual([["2150", 250], ["1010", -250]]);
+  });
+
+  it("credits bank directly for card spend and skips unapproved expenses", () => {
+    const sources = emptySources();
+    sources.expenses.push(
+      { id: "exp-card", date: "2026-03-02", merchant: "Uber", amount: 18.4, currency: "USD", category: "Travel",
+        status: "APPROVED", expenseType: "spent", vendorId: null, departmentId: null, department: null, paidDate: null },
+      { id: "exp-pending", date: "2026-03-02", merchant: "Hotel", amount: 300, currency: "USD", category: "Travel",
+        status: "PENDING", expenseType: "request", vendorId: null, departmentId: null, department: null, paidDate: null },
+    );
+    const entries = buildJournalEntries(sources, mappings, window);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].lines.map((l) => l.accountCode)).toEqual(["6999", "1010"]);
+  });
+
+  it("splits invoices into receivable, sales and sales tax, and payroll into gross, net and withholdings", () => {
+    const sources = emptySources();
+    sources.invoices.push({
+      id: "inv-1", invoiceNumber: "INV-0042", client: "Acme", amount: 1075, taxAmount: 75, currency: "USD",
+      issuedDate: "2026-03-10", status: "sent",
+    });
+    sources.payroll.push({
+      id: "pay-1", employeeName: "Ada", department: "Engineering", gross: 5000, netPay: 3812.5, currency: "USD",
+      payDate: "2026-03-28", status: "paid",
+    });
+    const [invoice, payroll] = buildJournalEntries(sources, mappings, window);
+
+    expect(invoice.lines.map((l) => [l.accountCode, l.amount])).toEqual([["1200", 1075], ["4000", -1000], ["2200", -75]]);
+    expect(payroll.lines.map((l) => [l.accountCode, l.amount])).toEqual([["6100", 5000], ["1010", -3812.5], ["2100", -1187.5]]);
+    expect(balanced(invoice.lines)).toBe(0);
+    expect(balanced(payroll.lines)).toBe(0);
+  });
+
+  it("leaves out already-exported events, other currencies and dates outside the window", () => {
+    const sources = emptySources();
+    sources.bills.push(
+      { id: "bill-1", name: "AWS March", provider: "AWS", vendorId: "vendor-aws", category: "Software", amount: 900,
+        currency: "USD", billDate: "2026-03-01T08:00:00Z", status: "paid", paidDate: "2026-03-15", paidAmount: 900 },
+      { id: "bill-2", name: "Rent", provider: "Landlord", vendorId: null, category: "Rent", amount: 2000,
+        currency: "NGN", billDate: "2026-03-03", status: "unpaid", paidDate: null, paidAmount: null },
+      { id: "bill-3", name: "Old", provider: "X", vendorId: null, category: "Other", amount: 10,
+        currency: "USD", billDate: "2026-02-27", status: "approved", paidDate: null, paidAmount: null },
+    );
+    const entries = buildJournalEntries(sources, mappings, {
+      ...window,
+      currency: "usd",
+      alreadyExported: new Set([exportKey("bill", "bill-1")]),
+    });
+    expect(entries.map((e) => `${e.sourceType}:${e.sourceId}`)).toEqual(["bill_payment:bill-1"]);
+    expect(entries[0].lines.map((l) => l.accountCode)).toEqual(["2000", "1010"]);
+  });
+});
+
+describe("file formats", () => {
+  const sources = emptySources();
+  sources.bills.push({
+    id: "bill-1", name: "Ads, March", provider: "Meta", vendorId: null, category: "Marketing", amount: 120.5,
+    currency: "USD", billDate: "2026-03-04", status: "approved", paidDate: null, paidAmount: null,
+  });
+  const entries = buildJournalEntries(sources, mappings, window);
+
+  it("writes a generic journal CSV with debit and credit columns", () => {
+    const rows = formatJournalCsv(entries).trim().split("\r\n");
+    expect(rows[0]).toBe("Date,Reference,Source Type,Source ID,Narration,Account Code,Account Name,Debit,Credit,Currency,Tax Code,Department,Counterparty");
+    expect(rows[1]).toBe('2026-03-04,BILL-bill-1,bill,bill-1,"Ads, March — Meta",6200,Advertising,120.50,,USD,INPUT,,Meta');
+    expect(rows[2]).toBe('2026-03-04,BILL-bill-1,bill,bill-1,"Ads, March — Meta",2000,Accounts Payable,,120.50,USD,,,Meta');
+  });
+
+  it("writes Xero manual journal rows with signed amounts and DD/MM/YYYY dates", () => {
+    const rows = formatXeroJournalCsv(entries).trim().split("\r\n");
+    expect(rows[0]).toBe("*Narration,*Date,Description,*AccountCode,*TaxRate,*Amount,TrackingName1,TrackingOption1");
+    expect(rows[1]).toBe('"BILL-bill-1 Ads, March — Meta",04/03/2026,Meta,6200,INPUT,120.50,,');
+    expect(rows[2]).toBe('"BILL-bill-1 Ads, March — Meta",04/03/2026,Meta,2000,,-120.50,,');
+  });
+
+  it("writes a QuickBooks IIF general journal transaction", () => {
+    const rows = formatQuickBooksIif(entries).trim().split("\r\n");
+    expect(rows.slice(0, 3).map((r) => r.split("\t")[0])).toEqual(["!TRNS", "!SPL", "!ENDTRNS"]);
+    expect(rows[3].split("\t")).toEqual(["TRNS", "", "GENERAL JOURNAL", "03/04/2026", "Advertising", "Meta", "", "120.50", "BILL-bill-1", "Ads, March — Meta"]);
+    expect(rows[4].split("\t").slice(0, 8)).toEqual(["SPL", "", "GENERAL JOURNAL", "03/04/2026", "Accounts Payable", "Meta", "", "-120.50"]);
+    expect(rows[5]).toBe("ENDTRNS");
+  });
+});
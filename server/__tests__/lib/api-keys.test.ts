@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import {
+  apiKeyPreview,
+  apiKeyProblem,
+  apiKeyRoutePermission,
+  generateApiKey,
+  hashApiKey,
+  isApiKeyToken,
+} from "../../lib/api-keys";
+
+describe("generateApiKey", () => {
+  it("returns the key with its visible prefix and hash", () => {
+    const { key, prefix, keyHash } = generateApiKey();
+    expect(key).toMatch(/^spk_[A-Za-z0-9_-]{40}$/);
+    expect(key.startsWith(prefix)).toBe(true);
+    expect(prefix).toHaveLength(12);
+    expect(keyHash).toBe(hashApiKey(key));
+    expect(keyHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(apiKeyPreview(prefix)).toBe(`${prefix}…`);
+  });
+
+  it("doesn't repeat", () => {
+    expect(generateApiKey().key).not.toBe(generateApiKey().key);
+  });
+});
+
+describe("isApiKeyToken", () => {
+  it("tells keys from Cognito ID tokens", () => {
+    expect(isApiKeyToken("spk_abc")).toBe(true);
+    expect(isApiKeyToken("eyJraWQiOi.payload.sig")).toBe(false);
+  });
+});
+
+describe("apiKeyProblem", () => {
+  const now = new Date("2026-10-01T12:00:00Z");
+
+  it("accepts a live key", () => {
+    expect(apiKeyProblem({ revokedAt: null, expiresAt: null }, now)).toBeNull();
+    expect(apiKeyProblem({ revokedAt: null, expiresAt: "2026-10-02T00:00:00Z" }, now)).toBeNull();
+  });
+
+  it("refuses revoked and expired keys", () => {
+    expect(apiKeyProblem({ revokedAt: "2026-09-30T00:00:00Z", expiresAt: null }, now)).toBe("revoked");
+    expect(apiKeyProblem({ revokedAt: null, expiresAt: "2026-10-01T12:00:00Z" }, now)).toBe("expired");
+  });
+});
+
+describe("apiKeyRoutePermission", () => {
+  it("maps the routes keys may call to their permission", () => {
+    expect(apiKeyRoutePermission("POST", "/expenses")).toBe("CREATE_EXPENSE");
+    expect(apiKeyRoutePermission("get", "/transactions/")).toBe("VIEW_TREASURY");
+    expect(apiKeyRoutePermission("GET", "/transactions/txn-1")).toBe("VIEW_TREASURY");
+    expect(apiKeyRoutePermission("POST", "/payouts/po-1/process")).toBe("SETTLE_PAYMENT");
+  });
+
+  it("refuses everything else", () => {
+    expect(apiKeyRoutePermission("DELETE", "/expenses/exp-1")).toBeNull();
+    expect(apiKeyRoutePermission("POST", "/payouts/po-1/cancel")).toBeNull();
+    expect(apiKeyRoutePermission("GET", "/api-keys")).toBeNull();
+  });
+});
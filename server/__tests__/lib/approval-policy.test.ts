@@ -0,0 +1,185 @@
+import { describe, it, expect } from "vitest";
+import {
+  policyMatches,
+  planApprovalChain,
+  nextPendingStep,
+  isChainComplete,
+  checkApprover,
+  type ApprovalPolicyDef,
+  type ApprovalSubject,
+  type ApprovalStepState,
+  type PlannedApprovalStep,
+} from "../../lib/approval-policy";
+
+const policy = (overrides: Partial<ApprovalPolicyDef>): ApprovalPolicyDef => ({
+  id: "pol-1",
+  name: "Policy",
+  entityTypes: ["expense", "bill", "payout"],
+  priority: 100,
+  isActive: true,
+  stopOnMatch: false,
+  conditions: {},
+  steps: [{ approver: { type: "role", role: "ADMIN" } }],
+  ...overrides,
+});
+
+const subject = (overrides: Partial<ApprovalSubject> = {}): ApprovalSubject => ({
+  entityType: "expense",
+  amount: 100,
+  currency: "USD",
+  category: "Marketing",
+  departmentId: "dept-mkt",
+  vendorId: null,
+  vendorIsNew: false,
+  ...overrides,
+});
+
+const directory = {
+  departmentHeads: { "dept-mkt": "mem-head", "dept-ops": null } as Record<string, string | null>,
+  departmentNames: { "dept-mkt": "Marketing", "dept-ops": "Operations" },
+  memberNames: { "mem-owner": "Olu Owner" },
+};
+
+// The example from the request: amount > 5,000 in Marketing → department
+// head then finance; a new vendor → owner.
+const marketingSpend = policy({
+  id: "pol-mkt",
+  name: "Large marketing spend",
+  priority: 10,
+  conditions: { minAmount: 5000, categories: ["marketing"] },
+  steps: [
+    { approver: { type: "department_head" } },
+    { approver: { type: "role", role: "ADMIN" }, label: "Finance" },
+  ],
+});
+const newVendor = policy({
+  id: "pol-vendor",
+  name: "New vendor",
+  priority: 20,
+  conditions: { vendorIsNew: true },
+  steps: [{ approver: { type: "member", memberId: "mem-owner" } }],
+});
+
+const asState = (steps: PlannedApprovalStep[], approved: Record<number, string> = {}): ApprovalStepState[] =>
+  steps.map((s) => ({
+    ...s,
+    id: `step-${s.stepIndex}`,
+    status: approved[s.stepIndex] ? "approved" : "pending",
+    actedBy: approved[s.stepIndex] ?? null,
+  }));
+
+describe("policyMatches", () => {
+  it("matches on amount range, category and department", () => {
+    expect(policyMatches(marketingSpend, subject({ amount: 5000 }))).toBe(true);
+    expect(policyMatches(marketingSpend, subject({ amount: 4999.99 }))).toBe(false);
+    expect(policyMatches(marketingSpend, subject({ amount: 9000, category: "Travel" }))).toBe(false);
+
+    const capped = policy({ conditions: { maxAmount: 1000, departmentIds: ["dept-ops"] } });
+    expect(policyMatches(capped, subject({ amount: 999, departmentId: "dept-ops" }))).toBe(true);
+    expect(policyMatches(capped, subject({ amount: 1000, departmentId: "dept-ops" }))).toBe(false);
+    expect(policyMatches(capped, subject({ amount: 999 }))).toBe(false);
+  });
+
+  it("requires a known vendor for vendor conditions", () => {
+    expect(policyMatches(newVendor, subject({ vendorId: "v1", vendorIsNew: true }))).toBe(true);
+    expect(policyMatches(newVendor, subject({ vendorId: "v1", vendorIsNew: false }))).toBe(false);
+    expect(policyMatches(newVendor, subject({ vendorId: null, vendorIsNew: false }))).toBe(false);
+  });
+
+  it("skips inactive policies and other entity types", () => {
+    expect(policyMatches(policy({ isActive: false }), subject())).toBe(false);
+    expect(policyMatches(policy({ entityTypes: ["payout"] }), subject())).toBe(false);
+    expect(policyMatches(policy({ conditions: { currency: "ngn" } }), subject({ currency: "NGN" }))).toBe(true);
+  });
+});
+
+describe("planApprovalChain", () => {
+  it("concatenates the steps of every matching policy in priority order", () => {
+    const steps = planApprovalChain(
+      [newVendor, marketingSpend],
+      subject({ amount: 7500, vendorId: "v1", vendorIsNew: true }),
+      directory,
+    );
+    expect(steps.map((s) => [s.stepIndex, s.label, s.approverType])).toEqual([
+      [0, "Marketing head", "member"],
+      [1, "Finance", "role"],
+      [2, "Olu Owner", "member"],
+    ]);
+    expect(steps[0].approverMemberId).toBe("mem-head");
+    expect(steps[1].approverRole).toBe("ADMIN");
+  });
+
+  it("stops after a stopOnMatch policy", () => {
+    const steps = planApprovalChain(
+      [{ ...marketingSpend, stopOnMatch: true }, newVendor],
+      subject({ amount: 7500, vendorId: "v1", vendorIsNew: true }),
+      directory,
+    );
+    expect(steps.map((s) => s.policyId)).toEqual(["pol-mkt", "pol-mkt"]);
+  });
+
+  it("returns an empty chain when nothing matches", () => {
+    expect(planApprovalChain([marketingSpend, newVendor], subject(), directory)).toEqual([]);
+  });
+
+  it("falls back to an admin when the department has no head or the head submitted", () => {
+    const headless = planApprovalChain([marketingSpend], subject({ amount: 7500, departmentId: "dept-ops" }), directory);
+    expect(headless[0]).toMatchObject({ approverType: "role", approverRole: "ADMIN", label: "Operations head" });
+
+    const ownSubmission = planApprovalChain([marketingSpend], subject({ amount: 7500 }), {
+      ...directory,
+      submitterMemberId: "mem-head",
+    });
+    expect(ownSubmission[0]).toMatchObject({ approverType: "role", approverRole: "ADMIN" });
+    // The fallback admin step and the finance step collapse into one.
+    expect(ownSubmission).toHaveLength(1);
+  });
+
+  it("does not add the same member twice", () => {
+    const headAgain = policy({
+      id: "pol-2",
+      priority: 50,
+      steps: [{ approver: { type: "member", memberId: "mem-head" } }],
+    });
+    const steps = planApprovalChain([marketingSpend, headAgain], subject({ amount: 7500 }), directory);
+    expect(steps.filter((s) => s.approverMemberId === "mem-head")).toHaveLength(1);
+  });
+});
+
+describe("checkApprover", () => {
+  const planned = planApprovalChain([marketingSpend], subject({ amount: 7500 }), directory);
+  const head = { userId: "u-head", memberId: "mem-head", role: "MANAGER" };
+  const admin = { userId: "u-admin", memberId: "mem-admin", role: "ADMIN" };
+
+  it("only lets the current step's approver act, in order", () => {
+    const steps = asState(planned);
+    expect(checkApprover(steps, admin, "u-sub")).toMatchObject({
+      ok: false,
+      code: "NOT_STEP_APPROVER",
+      message: "Waiting on Marketing head (step 1 of 2)",
+    });
+    expect(checkApprover(steps, head, "u-sub")).toMatchObject({ ok: true, step: { stepIndex: 0 } });
+
+    const afterHead = asState(planned, { 0: "u-head" });
+    expect(checkApprover(afterHead, admin, "u-sub")).toMatchObject({ ok: true, step: { stepIndex: 1 } });
+    expect(checkApprover(afterHead, { ...admin, role: "OWNER" }, "u-sub").ok).toBe(true);
+    expect(checkApprover(afterHead, { ...admin, role: "MANAGER" }, "u-sub").ok).toBe(false);
+  });
+
+  it("refuses the submitter and anyone who already approved a step", () => {
+    expect(checkApprover(asState(planned), head, "u-head")).toMatchObject({ ok: false, code: "SUBMITTER_CANNOT_APPROVE" });
+
+    const headIsAdminToo = asState(planned, { 0: "u-head" });
+    expect(checkApprover(headIsAdminToo, { ...head, role: "ADMIN" }, "u-sub")).toMatchObject({
+      ok: false,
+      code: "ALREADY_APPROVED_IN_CHAIN",
+    });
+  });
+
+  it("reports completion once every step is approved", () => {
+    const done = asState(planned, { 0: "u-head", 1: "u-admin" });
+    expect(isChainComplete(done)).toBe(true);
+    expect(nextPendingStep(done)).toBeNull();
+    expect(checkApprover(done, admin, "u-sub")).toMatchObject({ ok: false, code: "NO_PENDING_STEP" });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseStatement,
+  parseStatementAmount,
+  detectStatementFormat,
+  statementLineKeys,
+  StatementParseError,
+} from "../../lib/bank-statement";
+
+describe("parseStatementAmount", () => {
+  it("reads signs, brackets, DR/CR suffixes and both decimal conventions", () => {
+    expect(parseStatementAmount("1,234.56")).toBe(1234.56);
+    expect(parseStatementAmount("1.234,56")).toBe(1234.56);
+    expect(parseStatementAmount("-45")).toBe(-45);
+    expect(parseStatementAmount("(45.00)")).toBe(-45);
+    expect(parseStatementAmount("45.00 DR")).toBe(-45);
+    expect(parseStatementAmount("45.00 CR")).toBe(45);
+    expect(parseStatementAmount("₦12,500")).toBe(12500);
+    expect(parseStatementAmount("12,5")).toBe(12.5);
+    expect(parseStatementAmount("")).toBeNull();
+  });
+});
+
+describe("CSV statements", () => {
+  it("finds the header below preamble rows and reads a signed amount column", () => {
+    const csv = [
+      "Account,Operating,12345678",
+      "",
+      "Date,Description,Reference,Amount,Currency",
+      '2026-03-02,"AWS, Inc.",INV-88,-120.50,USD',
+      "2026-03-03,Acme Ltd,INV-0042,1075.00,USD",
+      "2026-03-03,Balance notice,,0.00,USD",
+    ].join("\n");
+    const statement = parseStatement(csv, "march.csv");
+
+    expect(statement.format).toBe("csv");
+    expect(statement.currency).toBe("USD");
+    expect(statement.lines).toEqual([
+      { date: "2026-03-02", amount: -120.5, description: "AWS, Inc.", reference: "INV-88", counterparty: null, bankTransactionId: null },
+      { date: "2026-03-03", amount: 1075, description: "Acme Ltd", reference: "INV-0042", counterparty: null, bankTransactionId: null },
+    ]);
+  });
+
+  it("combines debit and credit columns and detects day-first dates", () => {
+    const csv = [
+      "Transaction Date;Narrative;Paid Out;Paid In",
+      "03/04/2026;Rent;2.000,00;",
+      "15/04/2026;Client transfer;;350,25",
+    ].join("\n");
+    const { lines } = parseStatement(csv, "export.txt", { format: "csv" });
+
+    expect(lines.map((l) => [l.date, l.amount])).toEqual([
+      ["2026-04-03", -2000],
+      ["2026-04-15", 350.25],
+    ]);
+  });
+
+  it("reports the row it could not read", () => {
+    const csv = "Date,Amount,Description\n2026-03-01,10.00,OK\nnot a date,5.00,Broken\n2026-03-02,1,OK\n2026-03-03,1,OK\n2026-03-04,1,OK";
+    expect(() => parseStatement(csv, "x.csv")).toThrow(StatementParseError);
+    expect(() => parseStatement(csv, "x.csv")).toThrow("Row 3: could not read the date");
+  });
+});
+
+describe("OFX statements", () => {
+  it("reads SGML transactions without closing element tags", () => {
+    const ofx = `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>GBP
+<BANKACCTFROM><BANKID>123456<ACCTID>00012345<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260305120000[0:GMT]<TRNAMT>-42.10<FITID>FIT-1<NAME>Tesco &amp; Co<MEMO>Card 1234</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260306<TRNAMT>500.00<FITID>FIT-2<NAME>Acme<CHECKNUM>889</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+    const statement = parseStatement(ofx, "statement.qfx");
+
+    expect(statement).toMatchObject({ format: "ofx", currency: "GBP", accountIdentifier: "00012345" });
+    expect(statement.lines).toEqual([
+      { date: "2026-03-05", amount: -42.1, description: "Tesco & Co — Card 1234", reference: null, counterparty: "Tesco & Co", bankTransactionId: "FIT-1" },
+      { date: "2026-03-06", amount: 500, description: "Acme", reference: "889", counterparty: "Acme", bankTransactionId: "FIT-2" },
+    ]);
+  });
+});
+
+describe("MT940 statements", () => {
+  it("reads :61: lines with their :86: narrative and the opening balance currency", () => {
+    const mt940 = [
+      ":20:STMT2026031",
+      ":25:NL91ABNA0417164300",
+      ":28C:00031/001",
+      ":60F:C260301EUR1000,00",
+      ":61:2603040304D250,00NTRFINV-88//BANK1",
+      ":86:?20AWS EMEA?21March hosting",
+      ":61:260305C1075,NMSCNONREF",
+      ":86:Acme Ltd payment INV-0042",
+      ":61:260306RD12,50NCHGNONREF",
+      ":62F:C260306EUR1837,50",
+      "-",
+    ].join("\r\n");
+    const statement = parseStatement(mt940, "statement.sta");
+
+    expect(statement).toMatchObject({ format: "mt940", currency: "EUR", accountIdentifier: "NL91ABNA0417164300" });
+    expect(statement.lines).toEqual([
+      { date: "2026-03-04", amount: -250, description: "AWS EMEA March hosting", reference: "INV-88", counterparty: null, bankTransactionId: "BANK1" },
+      { date: "2026-03-05", amount: 1075, description: "Acme Ltd payment INV-0042", reference: null, counterparty: null, bankTransactionId: null },
+      { date: "2026-03-06", amount: 12.5, description: "", reference: null, counterparty: null, bankTransactionId: null },
+    ]);
+  });
+});
+
+describe("detectStatementFormat and statementLineKeys", () => {
+  it("detects the format from content when the extension does not say", () => {
+    expect(detectStatementFormat("<OFX><BANKTRANLIST>", "download.txt")).toBe("ofx");
+    expect(detectStatementFormat(":20:X\n:61:260301C1,NTRFNONREF", "download.txt")).toBe("mt940");
+    expect(detectStatementFormat("Date,Amount\n", "download.txt")).toBe("csv");
+    expect(detectStatementFormat("hello", "download.txt")).toBeNull();
+  });
+
+  it("prefers the bank's id and numbers identical lines within a file", () => {
+    const line = { date: "2026-03-01", amount: -5, description: "Coffee", reference: null, counterparty: null, bankTransactionId: null };
+    const keys = statementLineKeys([line, { ...line }, { ...line, bankTransactionId: "F1" }], "ACC");
+    expect(keys).toEqual(["ACC|2026-03-01|-5.00|coffee|0", "ACC|2026-03-01|-5.00|coffee|1", "ACC|id|F1"]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import {
+  budgetApplies,
+  budgetBreach,
+  enforcementMode,
+  overrideCovers,
+  remainingBudget,
+  type BudgetHeadroom,
+  type BudgetSpend,
+} from "../../lib/budget-enforcement";
+
+const budget = (overrides: Partial<BudgetHeadroom> = {}): BudgetHeadroom => ({
+  id: "b1",
+  name: "Travel",
+  category: "Travel",
+  departmentId: null,
+  cardholderId: null,
+  currency: "USD",
+  effectiveLimit: 1000,
+  spent: 700,
+  ...overrides,
+});
+
+const spend = (overrides: Partial<BudgetSpend> = {}): BudgetSpend => ({
+  action: "expense",
+  amount: 200,
+  currency: "USD",
+  category: "Travel",
+  departmentId: null,
+  cardholderId: null,
+  ...overrides,
+});
+
+describe("enforcementMode", () => {
+  it("falls back to soft for missing or unknown values", () => {
+    expect(enforcementMode("block")).toBe("block");
+    expect(enforcementMode("override")).toBe("override");
+    expect(enforcementMode(null)).toBe("soft");
+    expect(enforcementMode("strict")).toBe("soft");
+  });
+});
+
+describe("budgetApplies", () => {
+  it("matches the category regardless of case", () => {
+    expect(budgetApplies(budget(), spend({ category: " travel " }))).toBe(true);
+    expect(budgetApplies(budget(), spend({ category: "Office" }))).toBe(false);
+    expect(budgetApplies(budget(), spend({ category: null }))).toBe(false);
+  });
+
+  it("only counts spend in the budget's currency", () => {
+    expect(budgetApplies(budget(), spend({ currency: "usd" }))).toBe(true);
+    expect(budgetApplies(budget(), spend({ currency: "NGN" }))).toBe(false);
+    expect(budgetBreach([budget()], spend({ amount: 5000, currency: "NGN" }))).toBeNull();
+  });
+
+  it("limits department budgets to that department's expenses", () => {
+    const dept = budget({ departmentId: "d1" });
+    expect(budgetApplies(dept, spend({ departmentId: "d1" }))).toBe(true);
+    expect(budgetApplies(dept, spend({ departmentId: "d2" }))).toBe(false);
+    expect(budgetApplies(dept, spend({ action: "bill_payment", departmentId: "d1" }))).toBe(false);
+  });
+
+  it("limits cardholder budgets to funding that cardholder's cards", () => {
+    const holder = budget({ cardholderId: "ich_1" });
+    expect(budgetApplies(holder, spend({ action: "card_funding", cardholderId: "ich_1" }))).toBe(true);
+    expect(budgetApplies(holder, spend({ action: "card_funding", cardholderId: "ich_2" }))).toBe(false);
+    expect(budgetApplies(holder, spend({ cardholderId: "ich_1" }))).toBe(false);
+  });
+});
+
+describe("budgetBreach", () => {
+  it("lets spend up to what is left through", () => {
+    expect(budgetBreach([budget()], spend({ amount: 300 }))).toBeNull();
+  });
+
+  it("reports the remaining budget and shortfall", () => {
+    expect(budgetBreach([budget()], spend({ amount: 450 }))).toEqual({
+      budget: budget(),
+      remaining: 300,
+      shortfall: 150,
+    });
+  });
+
+  it("picks the tightest budget the spend exceeds", () => {
+    const company = budget({ id: "company", spent: 600 });
+    const dept = budget({ id: "dept", departmentId: "d1", effectiveLimit: 500, spent: 450 });
+    const breach = budgetBreach([company, dept], spend({ amount: 120, departmentId: "d1" }));
+    expect(breach?.budget.id).toBe("dept");
+    expect(breach?.remaining).toBe(50);
+  });
+
+  it("treats an overspent budget as having nothing left", () => {
+    expect(remainingBudget(budget({ spent: 1200 }))).toBe(0);
+    expect(budgetBreach([budget({ spent: 1200 })], spend({ amount: 1 }))?.shortfall).toBe(1);
+  });
+});
+
+describe("overrideCovers", () => {
+  const grant = { action: "card_funding", entityId: "card-1", amount: 500, requestedBy: "u1", status: "approved" };
+  const funding = spend({ action: "card_funding", amount: 500 });
+
+  it("covers the same requester repeating the approved spend", () => {
+    expect(overrideCovers(grant, funding, "card-1", "u1")).toBe(true);
+    expect(overrideCovers(grant, spend({ action: "card_funding", amount: 300 }), "card-1", "u1")).toBe(true);
+  });
+
+  it("does not stretch to other spend", () => {
+    expect(overrideCovers(grant, spend({ action: "card_funding", amount: 501 }), "card-1", "u1")).toBe(false);
+    expect(overrideCovers(grant, funding, "card-2", "u1")).toBe(false);
+    expect(overrideCovers(grant, funding, "card-1", "u2")).toBe(false);
+    expect(overrideCovers({ ...grant, status: "pending" }, funding, "card-1", "u1")).toBe(false);
+    expect(overrideCovers({ ...grant, status: "used" }, funding, "card-1", "u1")).toBe(false);
+  });
+});
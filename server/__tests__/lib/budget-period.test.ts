@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import {
+  budgetPeriod,
+  elapsedPeriods,
+  fiscalStartMonth,
+  rolloverAmount,
+  utilizationPercent,
+  crossedThreshold,
+} from "../../lib/budget-period";
+
+const at = (date: string) => new Date(`${date}T12:00:00Z`);
+
+describe("fiscalStartMonth", () => {
+  it("reads month names, abbreviations and numbers", () => {
+    expect(fiscalStartMonth("April")).toBe(3);
+    expect(fiscalStartMonth("jul")).toBe(6);
+    expect(fiscalStartMonth("10")).toBe(9);
+    expect(fiscalStartMonth(null)).toBe(0);
+    expect(fiscalStartMonth("sometime")).toBe(0);
+  });
+});
+
+describe("budgetPeriod", () => {
+  it("uses calendar months for monthly budgets", () => {
+    expect(budgetPeriod("monthly", "April", at("2026-02-14"))).toEqual({ start: "2026-02-01", end: "2026-03-01" });
+    expect(budgetPeriod("monthly", null, at("2026-12-31"))).toEqual({ start: "2026-12-01", end: "2027-01-01" });
+  });
+
+  it("aligns quarters and years to the fiscal year start", () => {
+    expect(budgetPeriod("quarterly", "April", at("2026-02-14"))).toEqual({ start: "2026-01-01", end: "2026-04-01" });
+    expect(budgetPeriod("quarterly", "February", at("2026-01-20"))).toEqual({ start: "2025-11-01", end: "2026-02-01" });
+    expect(budgetPeriod("yearly", "April", at("2026-02-14"))).toEqual({ start: "2025-04-01", end: "2026-04-01" });
+    expect(budgetPeriod("yearly", "April", at("2026-04-01"))).toEqual({ start: "2026-04-01", end: "2027-04-01" });
+  });
+});
+
+describe("elapsedPeriods", () => {
+  it("lists the periods closed since the stored start, oldest first", () => {
+    expect(elapsedPeriods("monthly", null, "2026-01-01", at("2026-03-05"))).toEqual([
+      { start: "2026-01-01", end: "2026-02-01" },
+      { start: "2026-02-01", end: "2026-03-01" },
+    ]);
+    expect(elapsedPeriods("monthly", null, "2026-03-01", at("2026-03-05"))).toEqual([]);
+  });
+
+  it("stops at the cap", () => {
+    expect(elapsedPeriods("monthly", null, "2020-01-01", at("2026-03-05"), 1)).toHaveLength(1);
+  });
+});
+
+describe("rolloverAmount", () => {
+  it("carries what is left only when rollover is on", () => {
+    expect(rolloverAmount(1000, 200, 700, true)).toBe(500);
+    expect(rolloverAmount(1000, 200, 700, false)).toBe(0);
+  });
+
+  it("carries nothing out of an overspent period", () => {
+    expect(rolloverAmount(1000, 0, 1250, true)).toBe(0);
+  });
+});
+
+describe("utilizationPercent and crossedThreshold", () => {
+  it("measures spend against the effective limit", () => {
+    expect(utilizationPercent(250, 1000)).toBe(25);
+    expect(utilizationPercent(10, 0)).toBe(100);
+    expect(utilizationPercent(0, 0)).toBe(0);
+  });
+
+  it("alerts the highest newly crossed threshold once", () => {
+    expect(crossedThreshold(40, 0)).toBeNull();
+    expect(crossedThreshold(90, 0)).toBe(80);
+    expect(crossedThreshold(90, 80)).toBeNull();
+    expect(crossedThreshold(120, 80)).toBe(100);
+  });
+});
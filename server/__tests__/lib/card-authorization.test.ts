@@ -0,0 +1,311 @@
+import { describe, it, expect } from "vitest";
+import {
+  decideCardAuthorization,
+  localWeekdayHour,
+  spendCategoryForMerchant,
+  spendingWindowStart,
+  type AuthorizationCardState,
+  type AuthorizationBudgetState,
+  type AuthorizationPolicyState,
+} from "../../lib/card-authorization";
+
+// Real-time Stripe Issuing decisions. storage.atomicCardAuthorization
+// feeds these inputs from the locked card row, the approved-authorization
+// sums and the matching budget; the reason string is what the cards page
+// shows next to a declined purchase.
+
+const CARD: AuthorizationCardState = {
+  status: "active",
+  balance: 500,
+  limit: 0,
+  currency: "USD",
+  spendingLimitInterval: null,
+  allowedCategories: null,
+  blockedCategories: null,
+  budgetCategory: null,
+};
+
+const MARKETING: AuthorizationBudgetState = {
+  id: "b-mkt",
+  name: "Q4 Marketing",
+  category: "Marketing",
+  limit: 1000,
+  spent: 700,
+  committed: 150,
+  currency: "USD",
+};
+
+const ads = { amount: 100, currency: "usd", merchantCategory: "advertising_services" };
+
+describe("spendCategoryForMerchant", () => {
+  it("maps Stripe merchant categories onto expense categories", () => {
+    expect(spendCategoryForMerchant("advertising_services")).toBe("Marketing");
+    expect(spendCategoryForMerchant("airlines_air_carriers")).toBe("Travel");
+    expect(spendCategoryForMerchant("computer_software_stores")).toBe("Software");
+    expect(spendCategoryForMerchant("eating_places_restaurants")).toBe("Food");
+  });
+
+  it("returns null for unmapped or missing categories", () => {
+    expect(spendCategoryForMerchant("dating_escort_services")).toBeNull();
+    expect(spendCategoryForMerchant(undefined)).toBeNull();
+  });
+});
+
+describe("spendingWindowStart", () => {
+  const now = new Date("2026-10-15T13:45:00.000Z"); // a Thursday
+
+  it("returns calendar-aligned UTC window starts", () => {
+    expect(spendingWindowStart("daily", now)).toBe("2026-10-15T00:00:00.000Z");
+    expect(spendingWindowStart("weekly", now)).toBe("2026-10-12T00:00:00.000Z");
+    expect(spendingWindowStart("monthly", now)).toBe("2026-10-01T00:00:00.000Z");
+    expect(spendingWindowStart("quarterly", now)).toBe("2026-10-01T00:00:00.000Z");
+    expect(spendingWindowStart("yearly", now)).toBe("2026-01-01T00:00:00.000Z");
+  });
+
+  it("has no window for per-authorization limits", () => {
+    expect(spendingWindowStart("per_authorization", now)).toBeNull();
+    expect(spendingWindowStart(null, now)).toBeNull();
+  });
+});
+
+describe("decideCardAuthorization", () => {
+  it("approves a purchase that passes every check", () => {
+    const decision = decideCardAuthorization({ card: CARD, request: ads, budget: MARKETING });
+    expect(decision).toMatchObject({
+      approved: true,
+      reasonCode: "approved",
+      spendCategory: "Marketing",
+      budgetId: "b-mkt",
+      details: { budgetRemainingAfter: 50 },
+    });
+  });
+
+  it("declines unknown, frozen and cancelled cards first", () => {
+    expect(decideCardAuthorization({ card: null, request: ads }).reasonCode).toBe("card_not_found");
+    expect(decideCardAuthorization({ card: { ...CARD, status: "frozen" }, request: ads })).toMatchObject({
+      approved: false,
+      reasonCode: "card_frozen",
+      reason: "Card is frozen",
+    });
+    expect(decideCardAuthorization({ card: { ...CARD, status: "cancelled", balance: 0 }, request: ads }).reasonCode).toBe("card_inactive");
+  });
+
+  it("declines a currency the card does not hold", () => {
+    const decision = decideCardAuthorization({ card: CARD, request: { ...ads, currency: "eur" } });
+    expect(decision.reasonCode).toBe("currency_mismatch");
+  });
+
+  it("enforces blocked and allowed merchant categories", () => {
+    const blocked = decideCardAuthorization({
+      card: { ...CARD, blockedCategories: ["advertising_services"] },
+      request: ads,
+    });
+    expect(blocked.reasonCode).toBe("merchant_category_blocked");
+
+    const notAllowed = decideCardAuthorization({
+      card: { ...CARD, allowedCategories: ["airlines_air_carriers"] },
+      request: ads,
+    });
+    expect(notAllowed.reasonCode).toBe("merchant_category_not_allowed");
+  });
+
+  it("declines when the card balance cannot cover the purchase", () => {
+    const decision = decideCardAuthorization({ card: { ...CARD, balance: 99.99 }, request: ads });
+    expect(decision).toMatchObject({ reasonCode: "insufficient_card_balance", details: { balance: 99.99, amount: 100 } });
+  });
+
+  it("keeps approved but uncaptured authorizations out of the available balance", () => {
+    const card = { ...CARD, balance: 150 };
+    expect(decideCardAuthorization({ card, request: ads, heldAmount: 50 }).approved).toBe(true);
+    const decision = decideCardAuthorization({ card, request: ads, heldAmount: 50.01 });
+    expect(decision).toMatchObject({ reasonCode: "insufficient_card_balance", details: { balance: 150, held: 50.01, amount: 100 } });
+  });
+
+  it("treats a limit without an interval as a per-purchase cap", () => {
+    const card = { ...CARD, limit: 80 };
+    const decision = decideCardAuthorization({ card, request: ads, cardSpendInWindow: 10000 });
+    expect(decision.reasonCode).toBe("card_limit_exceeded");
+    expect(decision.reason).toBe("Over card limit of USD 80.00 per purchase");
+    expect(decideCardAuthorization({ card, request: { ...ads, amount: 80 }, cardSpendInWindow: 10000 }).approved).toBe(true);
+  });
+
+  it("adds prior approved spend for interval limits", () => {
+    const card = { ...CARD, limit: 300, spendingLimitInterval: "monthly" };
+    expect(decideCardAuthorization({ card, request: ads, cardSpendInWindow: 200 }).approved).toBe(true);
+    const decision = decideCardAuthorization({ card, request: ads, cardSpendInWindow: 200.01 });
+    expect(decision).toMatchObject({
+      reasonCode: "card_limit_exceeded",
+      reason: "Over monthly card limit of USD 300.00",
+    });
+  });
+
+  it("declines with the budget's category when the budget is exhausted", () => {
+    const decision = decideCardAuthorization({
+      card: CARD,
+      request: { ...ads, amount: 150.01 },
+      budget: MARKETING,
+    });
+    expect(decision).toMatchObject({
+      approved: false,
+      reasonCode: "over_budget",
+      reason: "Over Marketing budget",
+      budgetId: "b-mkt",
+      details: { remaining: 150, amount: 150.01 },
+    });
+  });
+
+  it("uses the card's budget category override over the merchant mapping", () => {
+    const decision = decideCardAuthorization({
+      card: { ...CARD, budgetCategory: "Travel" },
+      request: ads,
+    });
+    expect(decision.spendCategory).toBe("Travel");
+  });
+
+  it("reports the first failing check only", () => {
+    const decision = decideCardAuthorization({
+      card: { ...CARD, status: "frozen", balance: 0, limit: 1 },
+      request: ads,
+      budget: { ...MARKETING, spent: 1000 },
+    });
+    expect(decision.reasonCode).toBe("card_frozen");
+  });
+});
+
+const POLICY: AuthorizationPolicyState = {
+  name: "Field sales",
+  allowedMerchantCategories: [],
+  blockedMerchantCategories: [],
+  perTransactionLimit: null,
+  dailyLimit: null,
+  monthlyLimit: null,
+  allowedWeekdays: [],
+  allowedHoursStart: null,
+  allowedHoursEnd: null,
+  timezone: "UTC",
+  allowedCountries: [],
+};
+
+// Wednesday 2026-10-14, 15:30 UTC.
+const WEDNESDAY = new Date("2026-10-14T15:30:00Z");
+
+describe("localWeekdayHour", () => {
+  it("reads the day and hour in the policy's timezone", () => {
+    expect(localWeekdayHour(WEDNESDAY, "UTC")).toEqual({ weekday: 3, hour: 15 });
+    expect(localWeekdayHour(WEDNESDAY, "Asia/Tokyo")).toEqual({ weekday: 4, hour: 0 });
+    expect(localWeekdayHour(WEDNESDAY, "America/New_York")).toEqual({ weekday: 3, hour: 11 });
+  });
+});
+
+describe("decideCardAuthorization with a spend policy", () => {
+  const decide = (policy: Partial<AuthorizationPolicyState>, extra: Partial<Parameters<typeof decideCardAuthorization>[0]> = {}) =>
+    decideCardAuthorization({ card: CARD, request: ads, policy: { ...POLICY, ...policy }, now: WEDNESDAY, ...extra });
+
+  it("approves when the policy restricts nothing", () => {
+    expect(decide({}).approved).toBe(true);
+  });
+
+  it("matches merchant lists by category name or MCC", () => {
+    expect(decide({ blockedMerchantCategories: ["advertising_services"] })).toMatchObject({
+      reasonCode: "policy_merchant_blocked",
+      reason: "Merchant category is blocked by the Field sales policy",
+    });
+    const withMcc = { request: { ...ads, merchantCategoryCode: "7311" } };
+    expect(decide({ blockedMerchantCategories: ["7311"] }, withMcc).reasonCode).toBe("policy_merchant_blocked");
+    expect(decide({ allowedMerchantCategories: ["7311"] }, withMcc).approved).toBe(true);
+    expect(decide({ allowedMerchantCategories: ["5812"] }, withMcc).reasonCode).toBe("policy_merchant_not_allowed");
+  });
+
+  it("allows only the listed merchant countries", () => {
+    const request = { ...ads, merchantCountry: "gb" };
+    expect(decide({ allowedCountries: ["GB", "IE"] }, { request }).approved).toBe(true);
+    expect(decide({ allowedCountries: ["US"] }, { request }).reasonCode).toBe("policy_country_not_allowed");
+    expect(decide({ allowedCountries: ["US"] }).reasonCode).toBe("policy_country_not_allowed");
+  });
+
+  it("restricts weekdays and hours in the policy's timezone", () => {
+    expect(decide({ allowedWeekdays: [1, 2, 3, 4, 5] }).approved).toBe(true);
+    expect(decide({ allowedWeekdays: [1, 2, 3, 4, 5], timezone: "Asia/Tokyo" }).approved).toBe(true);
+    expect(decide({ allowedWeekdays: [0, 6] })).toMatchObject({
+      reasonCode: "policy_outside_allowed_time",
+      reason: "Card can't be used on Wed under the Field sales policy",
+    });
+    expect(decide({ allowedHoursStart: 9, allowedHoursEnd: 17 }).approved).toBe(true);
+    expect(decide({ allowedHoursStart: 9, allowedHoursEnd: 17, timezone: "Asia/Tokyo" })).toMatchObject({
+      reasonCode: "policy_outside_allowed_time",
+      reason: "Card can only be used 09:00–17:00 Asia/Tokyo",
+    });
+  });
+
+  it("wraps an hour window that ends before it starts past midnight", () => {
+    expect(decide({ allowedHoursStart: 22, allowedHoursEnd: 6, timezone: "Asia/Tokyo" }).approved).toBe(true);
+    expect(decide({ allowedHoursStart: 22, allowedHoursEnd: 6 }).reasonCode).toBe("policy_outside_allowed_time");
+  });
+
+  it("caps each purchase and the card's daily and monthly spend", () => {
+    expect(decide({ perTransactionLimit: 99.99 })).toMatchObject({
+      reasonCode: "policy_transaction_cap_exceeded",
+      reason: "Over the Field sales policy's USD 99.99 per-purchase cap",
+    });
+    expect(decide({ dailyLimit: 250 }, { policySpend: { daily: 150, monthly: 900 } }).approved).toBe(true);
+    expect(decide({ dailyLimit: 250 }, { policySpend: { daily: 150.01, monthly: 900 } })).toMatchObject({
+      reasonCode: "policy_daily_cap_exceeded",
+      details: { cap: 250, priorSpend: 150.01, amount: 100 },
+    });
+    expect(decide({ monthlyLimit: 1000 }, { policySpend: { daily: 0, monthly: 900.5 } }).reasonCode).toBe("policy_monthly_cap_exceeded");
+  });
+
+  it("checks the card's own controls before the policy's", () => {
+    const decision = decideCardAuthorization({
+      card: { ...CARD, blockedCategories: ["advertising_services"], limit: 50 },
+      request: ads,
+      policy: { ...POLICY, blockedMerchantCategories: ["advertising_services"], perTransactionLimit: 10 },
+      now: WEDNESDAY,
+    });
+    expect(decision.reasonCode).toBe("merchant_category_blocked");
+    expect(decideCardAuthorization({
+      card: { ...CARD, limit: 50 },
+      request: ads,
+      policy: { ...POLICY, perTransactionLimit: 10 },
+      now: WEDNESDAY,
+    }).reasonCode).toBe("card_limit_exceeded");
+  });
+
+  it("checks the policy's hard limits before the card balance", () => {
+    expect(decideCardAuthorization({
+      card: { ...CARD, balance: 0 },
+      request: ads,
+      policy: { ...POLICY, allowedCountries: ["GB"] },
+      now: WEDNESDAY,
+    }).reasonCode).toBe("policy_country_not_allowed");
+  });
+});
+
+describe("decideCardAuthorization on single-use and merchant-locked cards", () => {
+  const netflix = { ...ads, merchantName: "NETFLIX.COM", merchantNetworkId: "net-1" };
+
+  it("declines a card with no uses left before any other check", () => {
+    expect(decideCardAuthorization({
+      card: { ...CARD, balance: 0, usesRemaining: 0 },
+      request: ads,
+    })).toMatchObject({ approved: false, reasonCode: "card_uses_exhausted", reason: "Card has already been used" });
+    expect(decideCardAuthorization({ card: { ...CARD, usesRemaining: 1 }, request: ads }).approved).toBe(true);
+  });
+
+  it("only spends at the locked merchant", () => {
+    const locked = { ...CARD, merchantLock: { name: "Netflix", networkId: null } };
+    expect(decideCardAuthorization({ card: locked, request: netflix }).approved).toBe(true);
+    expect(decideCardAuthorization({
+      card: locked,
+      request: { ...netflix, merchantName: "Spotify", merchantNetworkId: "net-2" },
+    })).toMatchObject({ reasonCode: "merchant_locked", reason: "Card only spends at Netflix" });
+  });
+
+  it("approves the first merchant on an unset lock", () => {
+    const decision = decideCardAuthorization({
+      card: { ...CARD, merchantLock: { name: null, networkId: null } },
+      request: netflix,
+    });
+    expect(decision.approved).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  cancelAfterCapture,
+  lockAfterApproval,
+  maxUsesForKind,
+  merchantLockMatches,
+  normalizeMerchantName,
+  usesRemaining,
+} from "../../lib/card-kinds";
+
+const unset = { name: null, networkId: null };
+const netflix = { name: "NETFLIX.COM", networkId: "net-1" };
+
+describe("usesRemaining", () => {
+  it("counts down from the card's max uses", () => {
+    expect(maxUsesForKind("single_use")).toBe(1);
+    expect(usesRemaining({ maxUses: 1, useCount: 0 })).toBe(1);
+    expect(usesRemaining({ maxUses: 1, useCount: 3 })).toBe(0);
+  });
+
+  it("is null for cards without a use limit", () => {
+    expect(maxUsesForKind("standard")).toBeNull();
+    expect(maxUsesForKind("merchant_locked")).toBeNull();
+    expect(usesRemaining({ maxUses: null, useCount: 12 })).toBeNull();
+  });
+});
+
+describe("merchantLockMatches", () => {
+  it("matches a named merchant inside the statement name", () => {
+    expect(normalizeMerchantName("NETFLIX.COM")).toBe("netflixcom");
+    expect(merchantLockMatches({ name: "Netflix", networkId: null }, netflix)).toBe(true);
+    expect(merchantLockMatches({ name: "Netflix", networkId: null }, { name: "Spotify AB", networkId: "net-2" })).toBe(false);
+  });
+
+  it("compares network ids exactly once the lock has one", () => {
+    const lock = { name: "Netflix", networkId: "net-1" };
+    expect(merchantLockMatches(lock, netflix)).toBe(true);
+    expect(merchantLockMatches(lock, { name: "Netflix Games", networkId: "net-9" })).toBe(false);
+    // Without a network id on the request, fall back to the name.
+    expect(merchantLockMatches(lock, { name: "Netflix", networkId: null })).toBe(true);
+  });
+
+  it("matches anything until the lock is set", () => {
+    expect(merchantLockMatches(unset, netflix)).toBe(true);
+  });
+});
+
+describe("lockAfterApproval", () => {
+  it("locks an unset card to the first merchant", () => {
+    expect(lockAfterApproval(unset, netflix)).toEqual({ name: "NETFLIX.COM", networkId: "net-1" });
+  });
+
+  it("keeps the admin's merchant name and adds the network id", () => {
+    expect(lockAfterApproval({ name: "Netflix", networkId: null }, netflix)).toEqual({ name: "Netflix", networkId: "net-1" });
+  });
+
+  it("leaves a complete lock unchanged", () => {
+    expect(lockAfterApproval({ name: "Netflix", networkId: "net-1" }, netflix)).toBeNull();
+    expect(lockAfterApproval({ name: "Netflix", networkId: null }, { name: "Netflix", networkId: null })).toBeNull();
+  });
+});
+
+describe("cancelAfterCapture", () => {
+  it("cancels a card whose last use has been captured", () => {
+    expect(cancelAfterCapture({ status: "active", maxUses: 1, useCount: 1 })).toBe(true);
+    expect(cancelAfterCapture({ status: "cancelled", maxUses: 1, useCount: 1 })).toBe(false);
+    expect(cancelAfterCapture({ status: "active", maxUses: null, useCount: 40 })).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  CARD_EXPENSE_PAYOUT_STATUS,
+  cardExpenseDraft,
+  cardExpenseSubmitProblem,
+  isValidTimeZone,
+  submittedCardExpenseStatus,
+} from "../../lib/card-programs";
+
+const card = { companyId: "company-1", last4: "4242", budgetCategory: null };
+const member = {
+  id: "member-1",
+  userId: "user-1",
+  name: "Ada Obi",
+  email: "ada@example.com",
+  department: "Sales",
+  departmentId: "dept-sales",
+};
+const cardTransaction = {
+  id: "ctx-1",
+  amount: "84.20",
+  currency: "USD",
+  merchant: "Delta Air Lines",
+  category: "airlines_air_carriers",
+  date: "2026-10-14T15:30:00.000Z",
+};
+
+describe("cardExpenseDraft", () => {
+  it("drafts the transaction in the cardholder's name, needing a receipt", () => {
+    expect(cardExpenseDraft(card, member, cardTransaction)).toMatchObject({
+      merchant: "Delta Air Lines",
+      amount: "84.20",
+      currency: "USD",
+      date: "2026-10-14",
+      category: "Travel",
+      status: "DRAFT",
+      user: "Ada Obi",
+      userId: "user-1",
+      companyId: "company-1",
+      department: "Sales",
+      departmentId: "dept-sales",
+      note: "Card ending 4242",
+      expenseType: "card",
+      payoutStatus: CARD_EXPENSE_PAYOUT_STATUS,
+      cardTransactionId: "ctx-1",
+      receiptRequired: true,
+    });
+  });
+
+  it("prefers the card's budget category and falls back to Other", () => {
+    expect(cardExpenseDraft({ ...card, budgetCategory: "Marketing" }, member, cardTransaction).category).toBe("Marketing");
+    expect(cardExpenseDraft(card, member, { ...cardTransaction, category: "" }).category).toBe("Other");
+  });
+
+  it("falls back to the member's id and email before they sign up", () => {
+    const invited = { ...member, userId: null, name: null, department: null, departmentId: null };
+    expect(cardExpenseDraft(card, invited, cardTransaction)).toMatchObject({
+      userId: "member-1",
+      user: "ada@example.com",
+      department: "General",
+      departmentId: null,
+    });
+  });
+});
+
+describe("cardExpenseSubmitProblem", () => {
+  const draft = { status: "DRAFT", cardTransactionId: "ctx-1", receiptRequired: true, receiptUrl: null };
+
+  it("needs a receipt on a card draft", () => {
+    expect(cardExpenseSubmitProblem(draft, undefined)).toBe("Attach a receipt before submitting");
+    expect(cardExpenseSubmitProblem(draft, "/uploads/r.jpg")).toBeNull();
+    expect(cardExpenseSubmitProblem({ ...draft, receiptUrl: "/uploads/r.jpg" }, undefined)).toBeNull();
+  });
+
+  it("refuses other expenses and drafts already submitted", () => {
+    expect(cardExpenseSubmitProblem({ ...draft, cardTransactionId: null }, "/uploads/r.jpg")).toMatch(/Only card expenses/);
+    expect(cardExpenseSubmitProblem({ ...draft, status: "PENDING" }, "/uploads/r.jpg")).toBe("Expense has already been submitted");
+  });
+});
+
+describe("submittedCardExpenseStatus", () => {
+  it("approves a matching receipt with no approval policy", () => {
+    expect(submittedCardExpenseStatus({ approvalSteps: 0, receiptAmountMismatch: false })).toBe("APPROVED");
+  });
+
+  it("sends it for approval under a policy or with a mismatched receipt", () => {
+    expect(submittedCardExpenseStatus({ approvalSteps: 2, receiptAmountMismatch: false })).toBe("PENDING");
+    expect(submittedCardExpenseStatus({ approvalSteps: 0, receiptAmountMismatch: true })).toBe("PENDING");
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("knows IANA zones", () => {
+    expect(isValidTimeZone("Africa/Lagos")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  nextDunningStep,
+  lateFeeAmount,
+  reminderMessage,
+  dunningStepProblems,
+  stepDate,
+  DEFAULT_DUNNING_STEPS,
+} from "../../lib/dunning";
+
+const at = (date: string) => new Date(`${date}T09:00:00Z`);
+
+describe("nextDunningStep", () => {
+  const due = "2026-03-10";
+
+  it("sends nothing before the first step", () => {
+    expect(nextDunningStep(due, DEFAULT_DUNNING_STEPS, [], at("2026-03-06"))).toBeNull();
+  });
+
+  it("sends each step once when its day arrives", () => {
+    expect(nextDunningStep(due, DEFAULT_DUNNING_STEPS, [], at("2026-03-07"))?.offsetDays).toBe(-3);
+    expect(nextDunningStep(due, DEFAULT_DUNNING_STEPS, [-3], at("2026-03-09"))).toBeNull();
+    expect(nextDunningStep(due, DEFAULT_DUNNING_STEPS, [-3], at("2026-03-10"))?.offsetDays).toBe(0);
+    expect(nextDunningStep(due, DEFAULT_DUNNING_STEPS, [-3, 0, 7], at("2026-03-24"))?.offsetDays).toBe(14);
+    expect(nextDunningStep(due, DEFAULT_DUNNING_STEPS, [-3, 0, 7, 14], at("2026-05-01"))).toBeNull();
+  });
+
+  it("skips missed steps instead of sending them in a burst", () => {
+    expect(nextDunningStep(due, DEFAULT_DUNNING_STEPS, [], at("2026-03-20"))?.offsetDays).toBe(7);
+    expect(nextDunningStep(due, DEFAULT_DUNNING_STEPS, [7], at("2026-03-20"))).toBeNull();
+  });
+
+  it("does not go back to an earlier step when the due date moves out", () => {
+    expect(nextDunningStep("2026-04-10", DEFAULT_DUNNING_STEPS, [7], at("2026-04-10"))).toBeNull();
+  });
+});
+
+describe("lateFeeAmount", () => {
+  it("charges fixed fees or a percentage of the balance", () => {
+    expect(lateFeeAmount({ type: "fixed", value: 25 }, 400)).toBe(25);
+    expect(lateFeeAmount({ type: "percent", value: 1.5 }, 333.33)).toBe(5);
+    expect(lateFeeAmount(null, 400)).toBe(0);
+    expect(lateFeeAmount({ type: "fixed", value: 25 }, 0)).toBe(0);
+  });
+});
+
+describe("reminderMessage and stepDate", () => {
+  it("words the reminder for where the step falls", () => {
+    expect(reminderMessage(-1, "INV-1", "2026-03-10")).toMatch(/due in 1 day,/);
+    expect(reminderMessage(0, "INV-1", "2026-03-10")).toBe("Invoice INV-1 is due today.");
+    expect(reminderMessage(14, "INV-1", "2026-03-10")).toMatch(/14 days overdue/);
+  });
+
+  it("counts calendar days across month ends", () => {
+    expect(stepDate("2026-02-25", 7)).toBe("2026-03-04");
+    expect(stepDate("2026-03-01", -3)).toBe("2026-02-26");
+  });
+});
+
+describe("dunningStepProblems", () => {
+  it("accepts the default schedule", () => {
+    expect(dunningStepProblems(DEFAULT_DUNNING_STEPS)).toEqual([]);
+  });
+
+  it("rejects duplicate offsets and fees before the due date", () => {
+    expect(dunningStepProblems([{ offsetDays: 7 }, { offsetDays: 7 }])).toEqual(["Offset 7 appears more than once"]);
+    expect(dunningStepProblems([{ offsetDays: 0, lateFee: { type: "fixed", value: 10 } }])[0]).toMatch(/only be added after the due date/);
+    expect(dunningStepProblems([{ offsetDays: 7, lateFee: { type: "percent", value: 150 } }])[0]).toMatch(/cannot exceed 100%/);
+    expect(dunningStepProblems([{ offsetDays: 1.5 }])[0]).toMatch(/whole number/);
+  });
+});
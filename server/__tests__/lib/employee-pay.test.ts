@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { isOwnPayrollRecord, payYears, summarisePayYear, type PaidItem } from "../../lib/employee-pay";
+import type { StatutoryLine } from "../../lib/statutory-deductions";
+
+const line = (code: string, name: string, authority: string, employee: number, employer = 0): StatutoryLine =>
+  ({ code, name, category: "tax", authority, employee, employer, source: null, effectiveFrom: "2024-01-01" });
+
+const paid = (overrides: Partial<PaidItem>): PaidItem => ({
+  runName: "January 2026 payroll",
+  payDate: "2026-01-28",
+  currency: "NGN",
+  salary: 500000,
+  bonus: 0,
+  deductions: 110000,
+  deductionBreakdown: { tax: 70000, pension: 40000, insurance: 0, other: 0 },
+  statutoryLines: [line("NG_PENSION", "Contributory pension", "PFA", 40000, 50000), line("NG_PAYE", "Income tax", "State IRS", 70000)],
+  employerContributions: 50000,
+  netPay: 390000,
+  status: "processing",
+  ...overrides,
+});
+
+const items = [
+  paid({}),
+  paid({ runName: "February 2026 payroll", payDate: "2026-02-27", bonus: 100000, netPay: 490000 }),
+  paid({ runName: "March 2026 payroll", payDate: "2026-03-27", status: "reversed" }),
+  paid({ runName: "December 2025 payroll", payDate: "2025-12-23" }),
+];
+
+describe("isOwnPayrollRecord", () => {
+  const me = { userId: "user-1", email: "Ada@Example.com" };
+
+  it("matches the user id or the email, ignoring case", () => {
+    expect(isOwnPayrollRecord({ employeeId: "user-1", email: null }, me)).toBe(true);
+    expect(isOwnPayrollRecord({ employeeId: "EMP-7", email: " ada@example.com" }, me)).toBe(true);
+  });
+
+  it("doesn't match someone else or a blank email", () => {
+    expect(isOwnPayrollRecord({ employeeId: "EMP-8", email: "bayo@example.com" }, me)).toBe(false);
+    expect(isOwnPayrollRecord({ employeeId: "EMP-8", email: null }, { userId: "user-1", email: null })).toBe(false);
+  });
+});
+
+describe("summarisePayYear", () => {
+  it("totals the year's payslips, leaving out reversed ones", () => {
+    const year = summarisePayYear(items, 2026);
+    expect(year).toMatchObject({
+      year: 2026,
+      currency: "NGN",
+      payslips: 2,
+      salary: 1000000,
+      bonus: 100000,
+      gross: 1100000,
+      tax: 140000,
+      pension: 80000,
+      deductions: 220000,
+      netPay: 880000,
+      employerContributions: 100000,
+    });
+    expect(year.months.map((m) => m.runName)).toEqual(["January 2026 payroll", "February 2026 payroll"]);
+  });
+
+  it("puts income tax first in the per-rule totals", () => {
+    const { contributions } = summarisePayYear(items, 2026);
+    expect(contributions).toEqual([
+      { code: "NG_PAYE", name: "Income tax", authority: "State IRS", employee: 140000, employer: 0 },
+      { code: "NG_PENSION", name: "Contributory pension", authority: "PFA", employee: 80000, employer: 100000 },
+    ]);
+  });
+
+  it("cuts the year off at the as-of date", () => {
+    expect(summarisePayYear(items, 2026, "2026-02-01").payslips).toBe(1);
+  });
+
+  it("counts manual deductions without a breakdown as other", () => {
+    const year = summarisePayYear([paid({ deductionBreakdown: null, statutoryLines: null, deductions: 25000 })], 2026);
+    expect(year.other).toBe(25000);
+    expect(year.contributions).toEqual([]);
+  });
+
+  it("is empty for a year without payslips", () => {
+    expect(summarisePayYear(items, 2024)).toMatchObject({ payslips: 0, gross: 0, currency: null, months: [] });
+  });
+});
+
+describe("payYears", () => {
+  it("lists the years with payslips, latest first", () => {
+    expect(payYears(items)).toEqual([2026, 2025]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import {
+  FX_QUOTE_TTL_SECONDS,
+  fxQuoteAcceptProblem,
+  fxQuoteExpiry,
+  marketRateFrom,
+  priceFxQuote,
+} from "../../lib/fx-quotes";
+
+describe("marketRateFrom", () => {
+  it("prefers the direct rate and inverts the reverse one", () => {
+    expect(marketRateFrom(1500, 0.0007)).toBe(1500);
+    expect(marketRateFrom(null, 1600)).toBe(0.000625);
+  });
+
+  it("returns null when neither rate is usable", () => {
+    expect(marketRateFrom(null, undefined)).toBeNull();
+    expect(marketRateFrom(0, 0)).toBeNull();
+  });
+});
+
+describe("priceFxQuote", () => {
+  it("quotes the market rate less the markup and keeps the difference as margin", () => {
+    expect(priceFxQuote({ sourceAmount: 100, marketRate: 1500, markupPercent: 2 })).toEqual({
+      marketRate: 1500,
+      customerRate: 1470,
+      markupPercent: 2,
+      sourceAmount: 100,
+      targetAmount: 147000,
+      marginAmount: 3000,
+    });
+  });
+
+  it("rounds amounts to cents and the rate to six places", () => {
+    const price = priceFxQuote({ sourceAmount: 10000, marketRate: 0.000625, markupPercent: 1.5 });
+    expect(price.customerRate).toBe(0.000616);
+    expect(price.targetAmount).toBe(6.16);
+    expect(price.marginAmount).toBe(0.09);
+  });
+
+  it("has no margin without a markup", () => {
+    expect(priceFxQuote({ sourceAmount: 50, marketRate: 129.5, markupPercent: 0 }).marginAmount).toBe(0);
+  });
+});
+
+describe("fxQuoteAcceptProblem", () => {
+  const createdAt = new Date("2026-10-19T10:00:00.000Z");
+  const quote = { status: "open", expiresAt: fxQuoteExpiry(createdAt) };
+
+  it("accepts an open quote inside its window", () => {
+    expect(quote.expiresAt).toBe(new Date(createdAt.getTime() + FX_QUOTE_TTL_SECONDS * 1000).toISOString());
+    expect(fxQuoteAcceptProblem(quote, new Date("2026-10-19T10:00:30.000Z"))).toBeNull();
+  });
+
+  it("refuses an expired or already accepted quote", () => {
+    expect(fxQuoteAcceptProblem(quote, new Date(quote.expiresAt))).toBe("This quote has expired, request a new one");
+    expect(fxQuoteAcceptProblem({ ...quote, status: "accepted" }, createdAt)).toBe("This quote has already been accepted");
+  });
+});
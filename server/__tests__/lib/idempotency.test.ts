@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  IDEMPOTENCY_KEY_TTL_HOURS,
+  IDEMPOTENCY_PROCESSING_LEASE_MINUTES,
+  canonicalJson,
+  decideIdempotentRetry,
+  idempotencyKeyExpiry,
+  idempotencyLeaseExpiry,
+  idempotencyKeyProblem,
+  isReplayableStatus,
+  requestFingerprint,
+} from "../../lib/idempotency";
+
+describe("idempotencyKeyProblem", () => {
+  it("accepts UUIDs and other printable keys", () => {
+    expect(idempotencyKeyProblem("2f1c9a3e-7b1d-4c55-9e0a-5d8f2b6c1a44")).toBeNull();
+    expect(idempotencyKeyProblem("payout:42/retry-1")).toBeNull();
+  });
+
+  it("rejects empty, overlong and non-printable keys", () => {
+    expect(idempotencyKeyProblem("")).toMatch(/empty/);
+    expect(idempotencyKeyProblem("k".repeat(256))).toMatch(/255/);
+    expect(idempotencyKeyProblem("has space")).toMatch(/printable/);
+    expect(idempotencyKeyProblem("naïve")).toMatch(/printable/);
+  });
+});
+
+describe("canonicalJson", () => {
+  it("sorts object keys at every depth and drops undefined values", () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { z: 1, y: 0 }], c: undefined } })).toBe('{"a":{"d":[2,{"y":0,"z":1}]},"b":1}');
+  });
+});
+
+describe("requestFingerprint", () => {
+  const base = { method: "POST", path: "/api/payouts", body: { amount: 100, currency: "USD" } };
+
+  it("ignores key order and the query string", () => {
+    expect(requestFingerprint(base)).toBe(requestFingerprint({
+      method: "post",
+      path: "/api/payouts?source=mobile",
+      body: { currency: "USD", amount: 100 },
+    }));
+  });
+
+  it("changes with the body, path or method", () => {
+    const fp = requestFingerprint(base);
+    expect(requestFingerprint({ ...base, body: { amount: 101, currency: "USD" } })).not.toBe(fp);
+    expect(requestFingerprint({ ...base, path: "/api/wallet/payout" })).not.toBe(fp);
+    expect(requestFingerprint({ ...base, method: "PUT" })).not.toBe(fp);
+  });
+
+  it("treats a missing body as an empty one", () => {
+    expect(requestFingerprint({ method: "POST", path: "/api/fx/quotes/q1/accept", body: undefined }))
+      .toBe(requestFingerprint({ method: "POST", path: "/api/fx/quotes/q1/accept", body: {} }));
+  });
+});
+
+describe("idempotencyKeyExpiry", () => {
+  it("lapses a key IDEMPOTENCY_KEY_TTL_HOURS after its response was stored", () => {
+    expect(IDEMPOTENCY_KEY_TTL_HOURS).toBe(24);
+    expect(idempotencyKeyExpiry(new Date("2026-03-01T10:00:00.000Z"))).toBe("2026-03-02T10:00:00.000Z");
+  });
+
+  it("lets a retry take over a claim still processing after IDEMPOTENCY_PROCESSING_LEASE_MINUTES", () => {
+    expect(IDEMPOTENCY_PROCESSING_LEASE_MINUTES).toBe(5);
+    expect(idempotencyLeaseExpiry(new Date("2026-03-01T10:00:00.000Z"))).toBe("2026-03-01T10:05:00.000Z");
+  });
+});
+
+describe("isReplayableStatus", () => {
+  it("keeps successes and client errors but not server errors", () => {
+    expect(isReplayableStatus(200)).toBe(true);
+    expect(isReplayableStatus(400)).toBe(true);
+    expect(isReplayableStatus(500)).toBe(false);
+    expect(isReplayableStatus(503)).toBe(false);
+  });
+});
+
+describe("decideIdempotentRetry", () => {
+  const completed = { fingerprint: "abc", status: "completed", responseStatus: 201, responseBody: { id: "p1" } };
+
+  it("replays a completed response for the same request", () => {
+    expect(decideIdempotentRetry(completed, "abc")).toEqual({ action: "replay", statusCode: 201, body: { id: "p1" } });
+  });
+
+  it("refuses a key reused for a different request", () => {
+    expect(decideIdempotentRetry(completed, "def").action).toBe("conflict");
+    expect(decideIdempotentRetry({ ...completed, status: "processing", responseStatus: null }, "def").action).toBe("conflict");
+  });
+
+  it("reports a first attempt that hasn't finished", () => {
+    expect(decideIdempotentRetry({ fingerprint: "abc", status: "processing", responseStatus: null, responseBody: null }, "abc"))
+      .toEqual({ action: "in_progress" });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+  invoiceBalance,
+  refundableAmount,
+  creditNoteProblem,
+  resolveInvoiceStatus,
+} from "../../lib/invoice-balance";
+
+const invoice = { amount: 1000, status: "sent" };
+
+describe("invoiceBalance", () => {
+  it("subtracts payments and credit notes from the invoice amount", () => {
+    expect(invoiceBalance(
+      invoice,
+      [{ amount: 400, refundedAmount: 0 }],
+      [{ kind: "credit", amount: 150, status: "issued" }],
+    )).toEqual({
+      invoiceAmount: 1000,
+      credited: 150,
+      adjustedTotal: 850,
+      paid: 400,
+      refunded: 0,
+      netPaid: 400,
+      amountDue: 450,
+    });
+  });
+
+  it("leaves the amount due unchanged by a refund and ignores failed refunds", () => {
+    const payments = [{ amount: 1000, refundedAmount: 200 }];
+    const refunded = invoiceBalance(invoice, payments, [{ kind: "refund", amount: 200, status: "refunded" }]);
+    expect(refunded).toMatchObject({ adjustedTotal: 800, netPaid: 800, amountDue: 0 });
+
+    const failed = invoiceBalance(invoice, [{ amount: 1000, refundedAmount: 0 }], [{ kind: "refund", amount: 200, status: "refund_failed" }]);
+    expect(failed).toMatchObject({ credited: 0, netPaid: 1000, amountDue: 0 });
+  });
+
+  it("treats invoices marked paid before payments were recorded as paid in full", () => {
+    expect(invoiceBalance({ amount: 500, status: "paid" }, [], []).amountDue).toBe(0);
+    expect(invoiceBalance({ amount: 500, status: "sent" }, [], []).amountDue).toBe(500);
+  });
+
+  it("rounds to the cent", () => {
+    const balance = invoiceBalance({ amount: 0.3, status: "sent" }, [{ amount: 0.1, refundedAmount: 0 }], [{ kind: "credit", amount: 0.1, status: "issued" }]);
+    expect(balance.amountDue).toBe(0.1);
+  });
+});
+
+describe("creditNoteProblem", () => {
+  const balance = invoiceBalance(invoice, [{ amount: 600, refundedAmount: 100 }], []);
+
+  it("limits credits and write-offs to the outstanding balance", () => {
+    expect(creditNoteProblem("credit", 500, balance)).toBeNull();
+    expect(creditNoteProblem("write_off", 500.01, balance)).toMatch(/outstanding balance of 500.00/);
+  });
+
+  it("limits refunds to what is left of the payment", () => {
+    const payment = { amount: 600, refundedAmount: 100 };
+    expect(refundableAmount(payment)).toBe(500);
+    expect(creditNoteProblem("refund", 500, balance, payment)).toBeNull();
+    expect(creditNoteProblem("refund", 501, balance, payment)).toMatch(/Only 500.00/);
+    expect(creditNoteProblem("refund", 10, balance)).toMatch(/must name the payment/);
+  });
+
+  it("rejects unknown kinds and non-positive amounts", () => {
+    expect(creditNoteProblem("discount", 10, balance)).toMatch(/Unknown/);
+    expect(creditNoteProblem("credit", 0, balance)).toMatch(/greater than zero/);
+  });
+});
+
+describe("resolveInvoiceStatus", () => {
+  const now = new Date("2026-03-10T00:00:00Z");
+  const due = (payments: number, credits: number, amount = 1000) =>
+    invoiceBalance({ amount, status: "sent" }, payments ? [{ amount: payments, refundedAmount: 0 }] : [], credits ? [{ kind: "credit", amount: credits, status: "issued" }] : []);
+
+  it("derives paid, credited and partially paid from the balance", () => {
+    expect(resolveInvoiceStatus(due(800, 200), "sent", "2026-04-01", now)).toBe("paid");
+    expect(resolveInvoiceStatus(due(0, 1000), "overdue", "2026-01-01", now)).toBe("credited");
+    expect(resolveInvoiceStatus(due(300, 0), "sent", "2026-04-01", now)).toBe("partially_paid");
+  });
+
+  it("reopens an invoice once a balance is due again", () => {
+    expect(resolveInvoiceStatus(due(0, 100), "paid", "2026-04-01", now)).toBe("sent");
+    expect(resolveInvoiceStatus(due(0, 100), "paid", "2026-03-01", now)).toBe("overdue");
+  });
+
+  it("keeps cancelled and draft invoices as they are", () => {
+    expect(resolveInvoiceStatus(due(0, 1000), "cancelled", "2026-04-01", now)).toBe("cancelled");
+    expect(resolveInvoiceStatus(due(0, 0), "draft", "2026-01-01", now)).toBe("draft");
+  });
+});
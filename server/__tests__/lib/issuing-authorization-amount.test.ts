@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../storage", () => ({
+  storage: {
+    atomicCardAuthorization: vi.fn(),
+  },
+}));
+vi.mock("../../stripeClient", () => ({ getStripeClient: vi.fn(), STRIPE_API_VERSION: "2024-06-20" }));
+vi.mock("../../invoiceBalances", () => ({ refreshInvoiceStatus: vi.fn() }));
+vi.mock("../../utils/paymentUtils", () => ({ paymentLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } }));
+vi.mock("../../outboundWebhooks", () => ({ emitWebhookEvent: vi.fn() }));
+vi.mock("../../cardPrograms", () => ({ raiseCardExpense: vi.fn() }));
+vi.mock("../../cardKinds", () => ({ retireUsedUpCard: vi.fn() }));
+vi.mock("../../transactionMonitoring", () => ({ monitorCardAuthorization: vi.fn() }));
+
+import { StripeWebhookHandler } from "../../webhookHandlers";
+import { storage } from "../../storage";
+
+const authorizationEvent = (amount: number, currency: string) => ({
+  id: "evt_1",
+  type: "issuing_authorization.request",
+  data: {
+    object: {
+      id: "iauth_1",
+      card: { id: "ic_1" },
+      amount: 0,
+      currency,
+      pending_request: { amount, currency },
+      merchant_data: { name: "Tokyo Cafe", category: "eating_places_restaurants", category_code: "5812", country: "JP" },
+    },
+  },
+}) as any;
+
+describe("StripeWebhookHandler.decideIssuingAuthorization amounts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.mocked(storage.atomicCardAuthorization).mockResolvedValue({
+      cardId: "card-1", approved: true, reasonCode: "approved", reason: "Approved",
+    } as any);
+  });
+
+  it("converts a two-decimal currency from cents", async () => {
+    await StripeWebhookHandler.decideIssuingAuthorization(authorizationEvent(1250, "usd"));
+
+    expect(vi.mocked(storage.atomicCardAuthorization).mock.calls[0][0]).toMatchObject({ amount: 12.5, currency: "USD" });
+  });
+
+  it("takes a zero-decimal currency amount as it is", async () => {
+    await StripeWebhookHandler.decideIssuingAuthorization(authorizationEvent(5000, "jpy"));
+
+    expect(vi.mocked(storage.atomicCardAuthorization).mock.calls[0][0]).toMatchObject({ amount: 5000, currency: "JPY" });
+  });
+});
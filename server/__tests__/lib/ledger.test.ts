@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  assertBalanced,
+  counterAccountKeyForWalletTx,
+  sumByCurrency,
+  walletMovementLegs,
+  walletTransferLegs,
+  companyAccount,
+  companyBalanceAccount,
+  type LedgerLeg,
+} from "../../lib/ledger";
+
+// Double-entry ledger posting rules. storage.ts feeds these legs into
+// postLedgerEntry inside the same DB transaction as the balance change,
+// so an unbalanced draft must throw before anything is written.
+
+const NGN_WALLET = { id: "w-ngn", currency: "NGN", companyId: "co-1" };
+const USD_WALLET = { id: "w-usd", currency: "USD", companyId: "co-1" };
+
+describe("walletMovementLegs", () => {
+  it("debits the wallet and credits funding clearing on a deposit", () => {
+    const legs = walletMovementLegs({ wallet: NGN_WALLET, direction: "credit", amount: 5000, type: "deposit" });
+    expect(legs).toEqual([
+      { account: expect.objectContaining({ code: "wallet:w-ngn", type: "asset", walletId: "w-ngn" }), amount: 5000 },
+      { account: expect.objectContaining({ code: "co-1:funding_clearing", currency: "NGN" }), amount: -5000 },
+    ]);
+    expect(() => assertBalanced(legs)).not.toThrow();
+  });
+
+  it("credits the wallet and debits the expense account on a bill payment", () => {
+    const legs = walletMovementLegs({ wallet: USD_WALLET, direction: "debit", amount: 120.5, type: "bill_payment" });
+    expect(legs[0].amount).toBe(-120.5);
+    expect(legs[1]).toEqual({ account: expect.objectContaining({ code: "co-1:bill_expense", type: "expense" }), amount: 120.5 });
+  });
+
+  it("posts card funding against the card's own account when the card is known", () => {
+    const legs = walletMovementLegs({
+      wallet: USD_WALLET,
+      direction: "debit",
+      amount: 50,
+      type: "card_funding",
+      metadata: { cardId: "card-9" },
+    });
+    expect(legs[1].account.code).toBe("card:card-9");
+    expect(legs[1].amount).toBe(50);
+  });
+
+  it("uses the same counter account for a movement and its reversal", () => {
+    const out = walletMovementLegs({ wallet: NGN_WALLET, direction: "debit", amount: 700, type: "transfer_out" });
+    const back = walletMovementLegs({ wallet: NGN_WALLET, direction: "credit", amount: 700, type: "transfer_refund" });
+    expect(out[1].account.code).toBe(back[1].account.code);
+    const net = sumByCurrency([...out, ...back]);
+    expect(net).toEqual({ NGN: 0 });
+  });
+
+  it("falls back to suspense for unknown wallet transaction types", () => {
+    expect(counterAccountKeyForWalletTx("something_new")).toBe("suspense");
+    const legs = walletMovementLegs({ wallet: { ...NGN_WALLET, companyId: null }, direction: "credit", amount: 1, type: "something_new" });
+    expect(legs[1].account.code).toBe("platform:suspense");
+  });
+});
+
+describe("walletTransferLegs", () => {
+  it("is a two-leg entry for same-currency transfers", () => {
+    const legs = walletTransferLegs({
+      source: USD_WALLET,
+      dest: { id: "w-usd-2", currency: "USD", companyId: "co-2" },
+      amount: 25,
+      destAmount: 25,
+    });
+    expect(legs).toHaveLength(2);
+    expect(() => assertBalanced(legs)).not.toThrow();
+  });
+
+  it("routes cross-currency transfers through fx_conversion so each currency nets to zero", () => {
+    const legs = walletTransferLegs({ source: USD_WALLET, dest: NGN_WALLET, amount: 10, destAmount: 15432.1 });
+    expect(legs).toHaveLength(4);
+    expect(sumByCurrency(legs)).toEqual({ USD: 0, NGN: 0 });
+    expect(legs.filter((l) => l.account.code === "co-1:fx_conversion").map((l) => l.account.currency)).toEqual(["USD", "NGN"]);
+    expect(() => assertBalanced(legs)).not.toThrow();
+  });
+});
+
+describe("assertBalanced", () => {
+  const payoutLegs = (debit: number, credit: number): LedgerLeg[] => [
+    { account: companyAccount("co-1", "payout_clearing", "NGN"), amount: debit },
+    { account: companyBalanceAccount("co-1", "local", "NGN"), amount: -credit },
+  ];
+
+  it("accepts an entry that nets to zero", () => {
+    expect(() => assertBalanced(payoutLegs(1000, 1000))).not.toThrow();
+  });
+
+  it("rejects an entry that is off by a single minor unit", () => {
+    expect(() => assertBalanced(payoutLegs(1000, 999.99))).toThrow(/LEDGER_UNBALANCED.*NGN 0\.01/);
+  });
+
+  it("compares in minor units so float noise does not fail a balanced entry", () => {
+    const legs: LedgerLeg[] = [
+      { account: companyAccount("co-1", "suspense", "USD"), amount: 0.1 + 0.2 },
+      { account: companyAccount("co-1", "funding_clearing", "USD"), amount: -0.3 },
+    ];
+    expect(() => assertBalanced(legs)).not.toThrow();
+  });
+
+  it("does not let one currency offset another", () => {
+    const legs: LedgerLeg[] = [
+      { account: companyAccount("co-1", "fx_conversion", "USD"), amount: 10 },
+      { account: companyAccount("co-1", "fx_conversion", "EUR"), amount: -10 },
+    ];
+    expect(() => assertBalanced(legs)).toThrow(/USD 10\.00.*EUR -10\.00/);
+  });
+
+  it("rejects single-leg and non-numeric entries", () => {
+    expect(() => assertBalanced([{ account: companyAccount("co-1", "suspense", "USD"), amount: 0 }])).toThrow(/at least two/);
+    expect(() => assertBalanced(payoutLegs(NaN, 0))).toThrow(/non-numeric/);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../storage", () => ({
+  storage: {
+    transitionPayrollRun: vi.fn(),
+    getCompany: vi.fn(),
+    getPayrollRunItems: vi.fn(),
+    updatePayrollRunItem: vi.fn(),
+    getPayoutDestination: vi.fn(),
+    getPayoutDestinations: vi.fn(),
+    updatePayrollEntryInCompany: vi.fn(),
+    createTransaction: vi.fn(),
+  },
+}));
+vi.mock("../../paymentService", () => ({
+  getPaymentProvider: (country: string) => (country === "NG" ? "paystack" : "stripe"),
+}));
+vi.mock("../../stripeClient", () => ({ getStripeClient: vi.fn() }));
+vi.mock("../../paystackClient", () => ({
+  paystackClient: { createTransferRecipient: vi.fn(), initiateTransfer: vi.fn() },
+}));
+vi.mock("../../services/notification-service", () => ({ notificationService: { sendPayslipEmail: vi.fn() } }));
+vi.mock("../../outboundWebhooks", () => ({ emitWebhookEvent: vi.fn(() => Promise.resolve()) }));
+vi.mock("../../sanctionsScreening", () => ({
+  sanctionsHold: vi.fn(() => Promise.resolve(null)),
+  sanctionsHoldBody: vi.fn(),
+  destinationSubject: vi.fn(() => ({ type: "payout_destination", id: "dest-1", name: "Ada Obi" })),
+}));
+
+import { payPayrollRun } from "../../payrollRuns";
+import { storage } from "../../storage";
+import { paystackClient } from "../../paystackClient";
+import { getStripeClient } from "../../stripeClient";
+
+const actor = { userId: "admin-1", name: "Admin" };
+
+const run = (status: string) => ({
+  id: "run-1", companyId: "company-1", name: "March 2026", status, currency: "NGN", payDate: "2026-03-31",
+  createdBy: "admin-2", approvedBy: "admin-1",
+}) as any;
+
+const item = {
+  id: "item-1", payrollEntryId: null, employeeId: "emp-1", employeeName: "Ada Obi", email: null,
+  netPay: "1500.00", salary: "1500.00", bonus: "0", deductions: "0", currency: "NGN", country: "NG",
+  payoutDestinationId: "dest-1", status: "pending",
+} as any;
+
+function stubStorage(country: string) {
+  vi.mocked(storage.transitionPayrollRun).mockImplementation(async (_id, _companyId, _from, patch: any) => run(patch.status));
+  vi.mocked(storage.getCompany).mockResolvedValue({ name: "Acme" } as any);
+  vi.mocked(storage.getPayrollRunItems).mockResolvedValue([item]);
+  vi.mocked(storage.updatePayrollRunItem).mockImplementation(async (_id, patch: any) => ({ ...item, ...patch }));
+  vi.mocked(storage.getPayoutDestination).mockResolvedValue({
+    id: "dest-1", country, currency: "NGN", accountNumber: "0123456789", bankCode: "058", routingNumber: "110000000",
+    isDefault: true, reviewStatus: "verified",
+  } as any);
+}
+
+describe("payPayrollRun transfer references", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("pays an item again through Paystack with the same reference", async () => {
+    stubStorage("NG");
+    vi.mocked(paystackClient.createTransferRecipient).mockResolvedValue({ data: { recipient_code: "RCP_1" } } as any);
+    vi.mocked(paystackClient.initiateTransfer)
+      .mockRejectedValueOnce(new Error("socket hang up"))
+      .mockResolvedValueOnce({ data: { transfer_code: "TRF_1" } } as any);
+
+    const first = await payPayrollRun(run("approved"), actor);
+    const second = await payPayrollRun(run("partially_paid"), actor);
+
+    expect(first.ok && first.summary.failed).toBe(1);
+    expect(second.ok && second.summary.initiated).toBe(1);
+    const references = vi.mocked(paystackClient.initiateTransfer).mock.calls.map((call) => call[3]);
+    expect(references).toEqual(["payroll-item-item-1", "payroll-item-item-1"]);
+  });
+
+  it("pays an item again through Stripe with the same idempotency key", async () => {
+    stubStorage("US");
+    const payoutsCreate = vi.fn()
+      .mockRejectedValueOnce(new Error("Request timed out"))
+      .mockResolvedValueOnce({ id: "po_1" });
+    vi.mocked(getStripeClient).mockReturnValue({
+      tokens: { create: vi.fn().mockResolvedValue({ id: "btok_1" }) },
+      payouts: { create: payoutsCreate },
+    } as any);
+
+    await payPayrollRun(run("approved"), actor);
+    await payPayrollRun(run("partially_paid"), actor);
+
+    expect(payoutsCreate.mock.calls.map((call) => call[1])).toEqual([
+      { idempotencyKey: "payroll-item-item-1" },
+      { idempotencyKey: "payroll-item-item-1" },
+    ]);
+  });
+});
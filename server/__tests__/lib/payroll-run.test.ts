@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import {
+  runTransitionProblem,
+  runStatusesFor,
+  runTotals,
+  inRunPeriod,
+  defaultRunName,
+  statusAfterPayment,
+  canApproveRun,
+  canPaySalaryTo,
+  salaryDestination,
+  OPEN_PAYROLL_RUN_STATUSES,
+} from "../../lib/payroll-run";
+
+describe("runTransitionProblem", () => {
+  it("walks draft → approved → paid", () => {
+    expect(runTransitionProblem("draft", "approve")).toBeNull();
+    expect(runTransitionProblem("approved", "pay")).toBeNull();
+    expect(runTransitionProblem("paid", "reverse")).toBeNull();
+  });
+
+  it("retries a partially paid run", () => {
+    expect(runTransitionProblem("partially_paid", "pay")).toBeNull();
+  });
+
+  it("refuses to pay an unapproved run or approve a paid one", () => {
+    expect(runTransitionProblem("draft", "pay")).toMatch(/approved/);
+    expect(runTransitionProblem("paid", "approve")).toMatch(/paid/);
+    expect(runTransitionProblem("processing", "pay")).not.toBeNull();
+  });
+
+  it("only deletes drafts and never reverses twice", () => {
+    expect(runTransitionProblem("draft", "delete")).toBeNull();
+    expect(runTransitionProblem("approved", "delete")).not.toBeNull();
+    expect(runTransitionProblem("reversed", "reverse")).toMatch(/reversed run/);
+    expect(runTransitionProblem("draft", "reverse")).not.toBeNull();
+  });
+
+  it("agrees with the statuses used for the conditional update", () => {
+    for (const status of ["draft", "approved", "processing", "partially_paid", "paid", "reversed"]) {
+      expect(runTransitionProblem(status, "pay") === null).toBe(runStatusesFor("pay").includes(status as any));
+    }
+  });
+
+  it("treats every unfinished run as holding its entries", () => {
+    expect(OPEN_PAYROLL_RUN_STATUSES).not.toContain("paid");
+    expect(OPEN_PAYROLL_RUN_STATUSES).not.toContain("reversed");
+    expect(OPEN_PAYROLL_RUN_STATUSES).toContain("partially_paid");
+  });
+});
+
+describe("runTotals", () => {
+  it("sums the frozen entries to the cent", () => {
+    expect(runTotals([
+      { salary: 5000, bonus: 250.1, deductions: 1200.2, netPay: 4049.9, employerContributions: 500.1 },
+      { salary: 3000.1, bonus: 0, deductions: 600.05, netPay: 2400.05, employerContributions: 0.2 },
+    ])).toEqual({
+      employeeCount: 2,
+      totalSalary: 8000.1,
+      totalBonus: 250.1,
+      totalDeductions: 1800.25,
+      totalNet: 6449.95,
+      totalEmployerContributions: 500.3,
+    });
+  });
+
+  it("is zero for an empty run", () => {
+    expect(runTotals([]).totalNet).toBe(0);
+  });
+});
+
+describe("inRunPeriod", () => {
+  it("includes both ends of the period", () => {
+    expect(inRunPeriod("2026-03-01", "2026-03-01", "2026-03-31")).toBe(true);
+    expect(inRunPeriod("2026-03-31T12:00:00Z", "2026-03-01", "2026-03-31")).toBe(true);
+    expect(inRunPeriod("2026-04-01", "2026-03-01", "2026-03-31")).toBe(false);
+    expect(inRunPeriod("2026-02-28", "2026-03-01", "2026-03-31")).toBe(false);
+  });
+});
+
+describe("defaultRunName", () => {
+  it("names a one-month run after the month", () => {
+    expect(defaultRunName("2026-03-01", "2026-03-31")).toBe("March 2026 payroll");
+  });
+
+  it("names other runs after their dates", () => {
+    expect(defaultRunName("2026-03-16", "2026-04-15")).toBe("2026-03-16 – 2026-04-15 payroll");
+  });
+});
+
+describe("statusAfterPayment", () => {
+  it("is paid once every transfer is out", () => {
+    expect(statusAfterPayment(["processing", "processing"])).toBe("paid");
+  });
+
+  it("is partially paid when some need another attempt", () => {
+    expect(statusAfterPayment(["processing", "failed"])).toBe("partially_paid");
+    expect(statusAfterPayment(["needs_banking_details", "processing"])).toBe("partially_paid");
+  });
+
+  it("stays approved when nothing went out", () => {
+    expect(statusAfterPayment(["failed", "needs_banking_details"])).toBe("approved");
+  });
+});
+
+describe("canApproveRun", () => {
+  it("keeps the maker from being the checker", () => {
+    expect(canApproveRun("u1", "u1", 2)).toBe(false);
+    expect(canApproveRun("u1", "u2", 2)).toBe(true);
+  });
+
+  it("lets a sole owner approve their own run", () => {
+    expect(canApproveRun("u1", "u1", 1)).toBe(true);
+  });
+});
+
+describe("salaryDestination", () => {
+  const admin = { id: "a", isDefault: false, reviewStatus: null };
+  const pending = { id: "p", isDefault: true, reviewStatus: "pending" };
+
+  it("won't pay into details awaiting or refused review", () => {
+    expect(canPaySalaryTo(admin)).toBe(true);
+    expect(canPaySalaryTo({ reviewStatus: "verified" })).toBe(true);
+    expect(canPaySalaryTo(pending)).toBe(false);
+    expect(canPaySalaryTo({ reviewStatus: "rejected" })).toBe(false);
+  });
+
+  it("prefers the usable default, else the first usable destination", () => {
+    expect(salaryDestination([pending, admin])?.id).toBe("a");
+    expect(salaryDestination([admin, { id: "v", isDefault: true, reviewStatus: "verified" }])?.id).toBe("v");
+    expect(salaryDestination([pending])).toBeUndefined();
+    expect(salaryDestination(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { createPdfDocument, pdfString, rgb, textWidth } from "../../lib/pdf";
+import {
+  renderPayslipPdf,
+  formatPayslipAmount,
+  maskAccountNumber,
+  deductionLines,
+  employerContributionLines,
+  payslipFileName,
+  type PayslipData,
+} from "../../lib/payslip";
+
+const payslip: PayslipData = {
+  company: { name: "Acme (Lagos) Ltd", tagline: "Build more", address: "1 Marina, Lagos", primaryColor: "#0f766e" },
+  run: { name: "March 2026 payroll", periodStart: "2026-03-01", periodEnd: "2026-03-31", payDate: "2026-03-28" },
+  employee: { id: "EMP-7", name: "Ada Obi", department: "Engineering", bankName: "GTBank", accountNumber: "0123456789" },
+  currency: "NGN",
+  salary: 500000,
+  bonus: 25000,
+  deductions: 95000,
+  deductionBreakdown: { tax: 70000, pension: 25000, insurance: 0, other: 0 },
+  netPay: 430000,
+  status: "processing",
+  reference: "TRF_123",
+};
+
+describe("pdf writer", () => {
+  it("escapes delimiters and writes non-ASCII as WinAnsi octal", () => {
+    expect(pdfString("a(b)c\\")).toBe("(a\\(b\\)c\\\\)");
+    expect(pdfString("Zoë – ₦")).toBe("(Zo\\353 \\226 ?)");
+  });
+
+  it("reads short and long hex colours", () => {
+    expect(rgb("#ffffff")).toBe("1 1 1");
+    expect(rgb("#f00")).toBe("1 0 0");
+    expect(rgb("not-a-colour")).toBe("0 0 0");
+  });
+
+  it("measures Helvetica widths", () => {
+    expect(textWidth("0000", 10)).toBeCloseTo(22.24);
+    expect(textWidth("iii", 10)).toBeLessThan(textWidth("mmm", 10));
+  });
+
+  it("writes an xref whose offsets point at each object", () => {
+    const doc = createPdfDocument({ title: "Test" });
+    doc.text(50, 50, "Hello");
+    const out = doc.toBuffer().toString("ascii");
+    expect(out.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(out.trimEnd().endsWith("%%EOF")).toBe(true);
+
+    const xrefAt = Number(/startxref\n(\d+)/.exec(out)![1]);
+    expect(out.slice(xrefAt, xrefAt + 4)).toBe("xref");
+    const offsets = out.slice(xrefAt).match(/^(\d{10}) 00000 n $/gm)!.map((l) => Number(l.slice(0, 10)));
+    expect(offsets).toHaveLength(7);
+    offsets.forEach((offset, i) => expect(out.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+  });
+
+  it("gives the content stream its exact length", () => {
+    const doc = createPdfDocument();
+    doc.rect(0, 0, 100, 50, "#4f46e5");
+    const out = doc.toBuffer().toString("ascii");
+    const [, length, body] = /<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/.exec(out)!;
+    expect(body.length).toBe(Number(length));
+    expect(body).toBe("0.31 0.27 0.9 rg 0 792 100 50 re f");
+  });
+});
+
+describe("payslip", () => {
+  it("formats amounts with the currency code", () => {
+    expect(formatPayslipAmount(430000, "ngn")).toBe("NGN 430,000.00");
+    expect(formatPayslipAmount(-12.5, "USD")).toBe("-USD 12.50");
+  });
+
+  it("masks all but the last four account digits", () => {
+    expect(maskAccountNumber("0123456789")).toBe("•••• 6789");
+    expect(maskAccountNumber("12")).toBe("12");
+    expect(maskAccountNumber(null)).toBeNull();
+  });
+
+  it("lists the non-zero deductions, or one line without a breakdown", () => {
+    expect(deductionLines(payslip)).toEqual([["Income tax", 70000], ["Pension", 25000]]);
+    expect(deductionLines({ deductions: 300, deductionBreakdown: null })).toEqual([["Deductions", 300]]);
+    expect(deductionLines({ deductions: 0, deductionBreakdown: null })).toEqual([]);
+  });
+
+  it("itemises statutory lines and keeps the hand-entered remainder", () => {
+    const line = (code: string, name: string, category: any, employee: number, employer: number) =>
+      ({ code, name, category, authority: "X", employee, employer, source: null, effectiveFrom: "2026-01-01" });
+    const statutory = {
+      ...payslip,
+      deductionBreakdown: { tax: 70000, pension: 42000, insurance: 0, other: 18125 },
+      statutoryLines: [
+        line("NG_PAYE", "Income tax", "tax", 70000, 0),
+        line("NG_PENSION", "Contributory pension", "pension", 42000, 52500),
+        line("NG_NHF", "National Housing Fund", "other", 13125, 0),
+      ],
+      employerContributions: 52500,
+    };
+    expect(deductionLines(statutory)).toEqual([
+      ["Income tax", 70000],
+      ["Contributory pension", 42000],
+      ["National Housing Fund", 13125],
+      ["Other deductions", 5000],
+    ]);
+    expect(employerContributionLines(statutory)).toEqual([["Contributory pension", 52500]]);
+    expect(employerContributionLines(payslip)).toEqual([]);
+
+    const out = renderPayslipPdf(statutory).toString("ascii");
+    expect(out).toContain("(Employer contributions)");
+    expect(out).toContain("(NGN 52,500.00)");
+  });
+
+  it("renders the company, employee and amounts", () => {
+    const out = renderPayslipPdf(payslip, new Date("2026-03-28T10:00:00Z")).toString("ascii");
+    expect(out.startsWith("%PDF-1.4")).toBe(true);
+    expect(out).toContain("(Acme \\(Lagos\\) Ltd)");
+    expect(out).toContain("(Ada Obi)");
+    expect(out).toContain("(NGN 525,000.00)");
+    expect(out).toContain("(NGN 430,000.00)");
+    expect(out).toContain("(Paid to GTBank \\225\\225\\225\\225 6789)");
+    expect(out).not.toContain("0123456789");
+    expect(out).toContain("(Generated 2026-03-28)");
+    // Header band in the brand colour
+    expect(out).toContain(`${rgb("#0f766e")} rg 0 746 595 96 re f`);
+  });
+
+  it("falls back to the default colour and marks reversed payslips", () => {
+    const out = renderPayslipPdf({ ...payslip, company: { name: "Acme", primaryColor: "javascript:1" }, status: "reversed" })
+      .toString("ascii");
+    expect(out).toContain(`${rgb("#4f46e5")} rg 0 746 595 96 re f`);
+    expect(out).toContain("(This payment was reversed.)");
+  });
+
+  it("names the file after the run and employee", () => {
+    expect(payslipFileName("March 2026 payroll", "Ada Obi")).toBe("payslip-march-2026-payroll-ada-obi.pdf");
+  });
+});
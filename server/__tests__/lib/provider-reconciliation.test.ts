@@ -0,0 +1,226 @@
+import { describe, it, expect } from "vitest";
+import paystackTransactions from "../fixtures/reconciliation/paystack-transactions.json";
+import paystackTransfers from "../fixtures/reconciliation/paystack-transfers.json";
+import stripeCharges from "../fixtures/reconciliation/stripe-charges.json";
+import stripePayouts from "../fixtures/reconciliation/stripe-payouts.json";
+import {
+  reconcile,
+  normalizePaystackTransactions,
+  normalizePaystackTransfers,
+  normalizeStripeCharges,
+  normalizeStripePayouts,
+  normalizeStripeTransfers,
+  localRecordFromPayout,
+  localRecordFromWalletTransaction,
+  toMinor,
+  type LocalRecord,
+} from "../../lib/reconciliation";
+
+// LU-014 — provider reconciliation, driven from recorded provider
+// responses under fixtures/reconciliation so no live API is touched.
+// The window is the UTC day 2026-10-18, as reconciliationWindowFor()
+// produces for a run on the 19th.
+
+const WINDOW = { from: "2026-10-18T00:00:00.000Z", to: "2026-10-19T00:00:00.000Z" };
+
+function payout(overrides: Record<string, unknown>) {
+  return localRecordFromPayout({
+    id: "p-1",
+    companyId: "co-1",
+    provider: "paystack",
+    amount: "0.00",
+    currency: "NGN",
+    status: "completed",
+    createdAt: "2026-10-18T12:00:00.000Z",
+    ...overrides,
+  }) as LocalRecord;
+}
+
+function walletTx(overrides: Record<string, unknown>, companyId = "co-1") {
+  return localRecordFromWalletTransaction({
+    id: "wt-1",
+    amount: "0.00",
+    currency: "NGN",
+    status: "completed",
+    createdAt: "2026-10-18T12:00:00.000Z",
+    ...overrides,
+  }, companyId) as LocalRecord;
+}
+
+describe("provider normalizers", () => {
+  it("converts Paystack kobo amounts and statuses", () => {
+    const records = normalizePaystackTransactions(paystackTransactions);
+    expect(records[0]).toMatchObject({
+      provider: "paystack",
+      objectType: "charge",
+      reference: "fin_dep_7QX2K9",
+      altReferences: ["4099260516"],
+      amount: 25000,
+      currency: "NGN",
+      status: "succeeded",
+      occurredAt: "2026-10-18T09:14:22.000Z",
+    });
+    expect(records.find((r) => r.reference === "fin_dep_ABANDON")?.status).toBe("failed");
+  });
+
+  it("keeps the Paystack transfer_code as an alternate reference", () => {
+    const [first] = normalizePaystackTransfers(paystackTransfers);
+    expect(first.reference).toBe("payout_b1e0c6f2");
+    expect(first.altReferences).toContain("TRF_2x5j67tnnw1t98k");
+    expect(first.amount).toBe(150000);
+  });
+
+  it("matches Stripe charges on the payment intent and honours zero-decimal currencies", () => {
+    const records = normalizeStripeCharges(stripeCharges);
+    expect(records[0]).toMatchObject({
+      reference: "pi_3QAbCd2eZvKYlo2C0q7Lm4Rk",
+      altReferences: ["ch_3QAbCd2eZvKYlo2C0m1xYt9a"],
+      amount: 1250,
+      status: "succeeded",
+    });
+    expect(records[1].status).toBe("reversed");
+    const jpy = records[3];
+    expect(jpy.reference).toBe("ch_3QAbIj2eZvKYlo2C1d4Fs7Gu");
+    expect(jpy.amount).toBe(2000);
+  });
+
+  it("maps Stripe payout and transfer states", () => {
+    const payouts = normalizeStripePayouts(stripePayouts);
+    expect(payouts.map((p) => p.status)).toEqual(["succeeded", "pending"]);
+    const [transfer] = normalizeStripeTransfers([{ id: "tr_1", amount: 1000, currency: "usd", created: 1792313640, reversed: true }]);
+    expect(transfer.status).toBe("reversed");
+  });
+
+  it("sends zero-decimal amounts to providers without scaling them", () => {
+    expect(toMinor(12.5, "usd")).toBe(1250);
+    expect(toMinor(2000, "JPY")).toBe(2000);
+    expect(toMinor(1500.4, "UGX")).toBe(1500);
+  });
+
+  it("ignores wallet transactions that carry no provider reference", () => {
+    expect(localRecordFromWalletTransaction({ id: "wt-x", amount: "5", currency: "USD", status: "completed", createdAt: WINDOW.from, metadata: {} }, "co-1")).toBeNull();
+    expect(localRecordFromPayout({ id: "p-x", provider: "paystack", amount: "5", createdAt: WINDOW.from })).toBeNull();
+  });
+});
+
+describe("reconcile — Paystack", () => {
+  const providerRecords = [
+    ...normalizePaystackTransactions(paystackTransactions),
+    ...normalizePaystackTransfers(paystackTransfers),
+  ];
+  const localRecords = [
+    walletTx({ id: "wt-dep", amount: "25000.00", metadata: { paystackReference: "fin_dep_7QX2K9" } }),
+    walletTx({ id: "wt-short", amount: "70000.00", metadata: { paystackReference: "fin_dep_SHORT" } }),
+    payout({ id: "p-ok", amount: "150000.00", providerReference: "payout_b1e0c6f2" }),
+    payout({ id: "p-failed-upstream", amount: "42000.00", providerReference: "payout_c7d34a90" }),
+    payout({ id: "p-settling", amount: "9000.00", providerTransferId: "TRF_0m1q9r5vbx3ck2a" }),
+    payout({ id: "p-ghost", amount: "1200.00", providerReference: "payout_never_sent" }),
+    payout({ id: "p-queued", amount: "800.00", status: "pending", providerReference: "payout_queued" }),
+  ];
+  const result = reconcile({
+    window: WINDOW,
+    providerRecords,
+    localRecords,
+    companyByReference: { fin_dep_UNKNOWN1: "co-2" },
+  });
+  const byKind = (kind: string) => result.exceptions.filter((e) => e.kind === kind);
+
+  it("counts clean pairs, including ones still pending at the provider", () => {
+    // fin_dep_7QX2K9, payout_b1e0c6f2, payout_e4f81b22 (pending ↔ completed)
+    expect(result.matched).toBe(3);
+  });
+
+  it("flags a settled charge with no local row and attributes it via payment_intent_index", () => {
+    expect(byKind("missing_locally")).toEqual([
+      expect.objectContaining({
+        fingerprint: "paystack:missing_locally:fin_dep_UNKNOWN1",
+        providerReference: "fin_dep_UNKNOWN1",
+        providerAmount: 10000,
+        companyId: "co-2",
+      }),
+    ]);
+  });
+
+  it("reports amount drift against the local row", () => {
+    expect(byKind("amount_mismatch")).toEqual([
+      expect.objectContaining({
+        localEntityId: "wt-short",
+        providerAmount: 75000,
+        localAmount: 70000,
+        details: { difference: 5000 },
+      }),
+    ]);
+  });
+
+  it("reports a transfer that failed upstream but is completed locally", () => {
+    expect(byKind("status_mismatch")).toEqual([
+      expect.objectContaining({
+        localEntityId: "p-failed-upstream",
+        providerStatus: "failed",
+        localStatus: "completed",
+        companyId: "co-1",
+      }),
+    ]);
+  });
+
+  it("flags completed local payouts the provider never saw, but not queued ones", () => {
+    expect(byKind("missing_at_provider")).toEqual([
+      expect.objectContaining({
+        fingerprint: "paystack:missing_at_provider:payout:p-ghost",
+        objectType: "transfer",
+        localAmount: 1200,
+      }),
+    ]);
+  });
+
+  it("produces no exception for abandoned charges", () => {
+    expect(result.exceptions.some((e) => e.providerReference === "fin_dep_ABANDON")).toBe(false);
+  });
+});
+
+describe("reconcile — Stripe", () => {
+  const providerRecords = [
+    ...normalizeStripeCharges(stripeCharges),
+    ...normalizeStripePayouts(stripePayouts),
+  ];
+  const localRecords = [
+    walletTx({ id: "wt-inv", amount: "1250.00", currency: "USD", metadata: { provider: "stripe", paymentIntentId: "pi_3QAbCd2eZvKYlo2C0q7Lm4Rk" } }),
+    walletTx({ id: "wt-refunded", amount: "49.99", currency: "USD", metadata: { provider: "stripe", paymentIntentId: "pi_3QAbEf2eZvKYlo2C1k2Pq8Vb" } }),
+    walletTx({ id: "wt-eur", amount: "300.00", currency: "USD", metadata: { provider: "stripe", paymentIntentId: "pi_3QAbGh2eZvKYlo2C0w9Nc1Jx" } }),
+    payout({ id: "p-po", provider: "stripe", amount: "2500.00", currency: "USD", providerTransferId: "po_1QAbKl2eZvKYlo2Cx3mP7qTz" }),
+  ];
+  const result = reconcile({ window: WINDOW, providerRecords, localRecords });
+
+  it("matches the invoice charge and the paid payout", () => {
+    expect(result.matched).toBe(2);
+  });
+
+  it("reports a refunded charge still credited locally", () => {
+    const [ex] = result.exceptions.filter((e) => e.kind === "status_mismatch");
+    expect(ex).toMatchObject({ localEntityId: "wt-refunded", providerStatus: "refunded", details: { providerStatus: "reversed", localStatus: "succeeded" } });
+  });
+
+  it("reports a currency mismatch instead of an amount mismatch", () => {
+    const kinds = result.exceptions.filter((e) => e.localEntityId === "wt-eur").map((e) => e.kind);
+    expect(kinds).toEqual(["currency_mismatch"]);
+  });
+
+  it("ignores provider records outside the window and payouts still in transit", () => {
+    expect(result.exceptions.some((e) => e.providerReference === "ch_3QAbIj2eZvKYlo2C1d4Fs7Gu")).toBe(false);
+    expect(result.exceptions.some((e) => e.providerReference === "po_1QAbMn2eZvKYlo2Cy8rS2wUe")).toBe(false);
+    expect(result.exceptions).toHaveLength(2);
+  });
+
+  it("pairs a local row written after midnight with yesterday's provider record", () => {
+    const late = walletTx({
+      id: "wt-late",
+      amount: "2000",
+      currency: "JPY",
+      createdAt: "2026-10-19T02:20:05.000Z",
+      metadata: { provider: "stripe", chargeId: "ch_3QAbIj2eZvKYlo2C1d4Fs7Gu" },
+    });
+    const next = reconcile({ window: WINDOW, providerRecords, localRecords: [late] });
+    expect(next.matched).toBe(1);
+    expect(next.exceptions.some((e) => e.localEntityId === "wt-late")).toBe(false);
+  });
+});
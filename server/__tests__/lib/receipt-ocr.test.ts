@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import {
+  amountsOnLine,
+  parseReceiptDate,
+  parseReceiptLines,
+  parseReceiptText,
+  isReceiptAmountMismatch,
+  type OcrLine,
+} from "../../lib/receipt-parser";
+import { parseTesseractTsv } from "../../services/receipt-ocr";
+
+// Receipt OCR → expense draft. The OCR engine itself is not run here;
+// these are recorded line outputs of the kind tesseract produces, fed
+// straight to the parser the upload route uses.
+
+const lines = (texts: string[], confidence = 0.92): OcrLine[] =>
+  texts.map((text) => ({ text, confidence }));
+
+describe("amountsOnLine", () => {
+  it("reads decimal points, thousands separators and decimal commas", () => {
+    expect(amountsOnLine("TOTAL $1,234.50")).toEqual([1234.5]);
+    expect(amountsOnLine("Summe 12,50 EUR")).toEqual([12.5]);
+    expect(amountsOnLine("2 x 3.00   6.00")).toEqual([3, 6]);
+    expect(amountsOnLine("Table 12")).toEqual([]);
+  });
+});
+
+describe("parseReceiptDate", () => {
+  it("scores unambiguous formats higher than ambiguous numeric ones", () => {
+    expect(parseReceiptDate("2026-03-14 18:02")).toEqual({ value: "2026-03-14", confidence: 0.95 });
+    expect(parseReceiptDate("14 Mar 2026")).toEqual({ value: "2026-03-14", confidence: 0.9 });
+    expect(parseReceiptDate("March 14, 2026")).toEqual({ value: "2026-03-14", confidence: 0.9 });
+    expect(parseReceiptDate("14/03/2026")).toEqual({ value: "2026-03-14", confidence: 0.85 });
+  });
+
+  it("uses dayFirst only when both parts could be the month", () => {
+    expect(parseReceiptDate("03/04/2026", false)).toEqual({ value: "2026-03-04", confidence: 0.6 });
+    expect(parseReceiptDate("03/04/2026", true)).toEqual({ value: "2026-04-03", confidence: 0.6 });
+  });
+
+  it("rejects impossible dates", () => {
+    expect(parseReceiptDate("31/02/2026")).toBeNull();
+    expect(parseReceiptDate("no date here")).toBeNull();
+  });
+});
+
+describe("parseReceiptLines", () => {
+  it("extracts merchant, date, total, currency and tax from a US receipt", () => {
+    const draft = parseReceiptLines(lines([
+      "BLUE BOTTLE COFFEE",
+      "300 Webster St, Oakland CA",
+      "Tel 510-555-0100",
+      "03/14/2026 08:41 AM",
+      "Latte           5.50",
+      "Croissant       4.25",
+      "Subtotal        9.75",
+      "Sales Tax 8.25%  0.80",
+      "TOTAL          $10.55",
+      "VISA ****4242  $10.55",
+    ]));
+
+    expect(draft.merchant.value).toBe("BLUE BOTTLE COFFEE");
+    expect(draft.date.value).toBe("2026-03-14");
+    expect(draft.total.value).toBe(10.55);
+    expect(draft.currency.value).toBe("USD");
+    expect(draft.taxLines).toHaveLength(1);
+    expect(draft.taxLines[0]).toMatchObject({ rate: 8.25, amount: 0.8 });
+    // Subtotal + tax reconciles with the total, which lifts its confidence.
+    expect(draft.total.confidence).toBeGreaterThan(0.9 * 0.92);
+  });
+
+  it("reads an NGN receipt with VAT and an explicit currency code", () => {
+    const draft = parseReceiptLines(lines([
+      "Shoprite Lekki",
+      "Receipt No 88213",
+      "Date: 14-Mar-2026",
+      "Bread           1,200.00",
+      "Milk            2,450.00",
+      "Sub-total       3,650.00",
+      "VAT 7.5%          273.75",
+      "Amount Due NGN  3,923.75",
+    ]), { dayFirst: true });
+
+    expect(draft.merchant.value).toBe("Shoprite Lekki");
+    expect(draft.date.value).toBe("2026-03-14");
+    expect(draft.total.value).toBe(3923.75);
+    expect(draft.currency.value).toBe("NGN");
+    expect(draft.taxLines[0]).toMatchObject({ rate: 7.5, amount: 273.75 });
+  });
+
+  it("prefers 'amount due' over an earlier 'total' and ignores subtotal lines", () => {
+    const draft = parseReceiptText([
+      "Corner Bistro",
+      "Subtotal 40.00",
+      "Total 44.00",
+      "Tip 6.00",
+      "Amount Due 50.00",
+    ].join("\n"));
+    expect(draft.total.value).toBe(50);
+  });
+
+  it("falls back to the largest amount with low confidence when no total is labelled", () => {
+    const draft = parseReceiptLines(lines(["Kiosk", "Water 1.50", "Snacks 3.20"]));
+    expect(draft.total.value).toBe(3.2);
+    expect(draft.total.confidence).toBeLessThan(0.5);
+  });
+
+  it("returns empty fields with zero confidence for unreadable input", () => {
+    const draft = parseReceiptLines(lines(["~~ ::", "##"], 0.2));
+    expect(draft.merchant).toEqual({ value: null, confidence: 0 });
+    expect(draft.total).toEqual({ value: null, confidence: 0 });
+    expect(draft.currency).toEqual({ value: null, confidence: 0 });
+    expect(draft.taxLines).toEqual([]);
+  });
+});
+
+describe("isReceiptAmountMismatch", () => {
+  const draft = {
+    total: { value: 10.55, confidence: 0.9 },
+    currency: { value: "USD", confidence: 0.6 },
+  };
+
+  it("flags a typed amount that differs from a confident OCR total", () => {
+    expect(isReceiptAmountMismatch({ amount: 15, currency: "USD" }, draft)).toBe(true);
+    expect(isReceiptAmountMismatch({ amount: 10.55, currency: "usd" }, draft)).toBe(false);
+  });
+
+  it("does not flag low-confidence totals, other currencies or missing drafts", () => {
+    expect(isReceiptAmountMismatch({ amount: 15, currency: "USD" }, {
+      ...draft,
+      total: { value: 10.55, confidence: 0.3 },
+    })).toBe(false);
+    expect(isReceiptAmountMismatch({ amount: 15, currency: "NGN" }, draft)).toBe(false);
+    expect(isReceiptAmountMismatch({ amount: 15, currency: "USD" }, null)).toBe(false);
+  });
+});
+
+describe("parseTesseractTsv", () => {
+  it("groups word rows into lines with mean confidence", () => {
+    const header = "level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext";
+    const tsv = [
+      header,
+      "1\t1\t0\t0\t0\t0\t0\t0\t600\t900\t-1\t",
+      "5\t1\t1\t1\t1\t1\t10\t10\t80\t20\t96\tBLUE",
+      "5\t1\t1\t1\t1\t2\t95\t10\t90\t20\t90\tBOTTLE",
+      "5\t1\t2\t1\t1\t1\t10\t300\t60\t20\t80\tTOTAL",
+      "5\t1\t2\t1\t1\t2\t300\t300\t70\t20\t70\t$10.55",
+    ].join("\n");
+
+    const result = parseTesseractTsv(tsv);
+    expect(result.map((l) => l.text)).toEqual(["BLUE BOTTLE", "TOTAL $10.55"]);
+    expect(result[0].confidence).toBeCloseTo(0.93);
+    expect(result[1].confidence).toBeCloseTo(0.75);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import {
+  nameTokens,
+  nameSimilarity,
+  prepareEntries,
+  screenName,
+  screeningNeed,
+  newScreeningStatus,
+  listVersionOf,
+  parseOfacSdnCsv,
+  parseUnConsolidatedXml,
+  parseSanctionsList,
+  SanctionsListParseError,
+  MATCH_THRESHOLD,
+  type PastScreening,
+} from "../../lib/sanctions-screening";
+
+const SDN = [
+  '36,"AEROCARIBBEAN AIRLINES",-0-,"CUBA",-0-,-0-,-0-,-0-,-0-,-0-,-0-,-0-',
+  '2674,"ABU SAYYAF GROUP",-0-,"SDGT] [FTO",-0-,-0-,-0-,-0-,-0-,-0-,-0-,"Linked To: ISLAMIC STATE."',
+  '7157,"HASSAN, Ahmed Mohamed",individual,"SDGT",-0-,-0-,-0-,-0-,-0-,-0-,-0-,"DOB 01 Jan 1970."',
+  '15036,"SEA SHIPPER",vessel,"IRAN",-0-,-0-,-0-,-0-,-0-,-0-,-0-,-0-',
+].join("\r\n");
+
+const ALT = [
+  '2674,1050,"a.k.a.","AL HARAKAT AL ISLAMIYYA",-0-',
+  '7157,2001,"a.k.a.","HASAN, Ahmad Muhammad",-0-',
+].join("\r\n");
+
+const UN_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<CONSOLIDATED_LIST>
+  <INDIVIDUALS>
+    <INDIVIDUAL>
+      <DATAID>6908555</DATAID>
+      <FIRST_NAME>RI</FIRST_NAME>
+      <SECOND_NAME>WON HO</SECOND_NAME>
+      <UN_LIST_TYPE>DPRK</UN_LIST_TYPE>
+      <REFERENCE_NUMBER>KPi.001</REFERENCE_NUMBER>
+      <COMMENTS1>Ri Won Ho is a DPRK Ministry of State Security Official.</COMMENTS1>
+      <INDIVIDUAL_ALIAS><QUALITY>Good</QUALITY><ALIAS_NAME>RI WONHO</ALIAS_NAME></INDIVIDUAL_ALIAS>
+      <INDIVIDUAL_ALIAS><QUALITY>Low</QUALITY><ALIAS_NAME>HO</ALIAS_NAME></INDIVIDUAL_ALIAS>
+    </INDIVIDUAL>
+  </INDIVIDUALS>
+  <ENTITIES>
+    <ENTITY>
+      <DATAID>110407</DATAID>
+      <FIRST_NAME>AL-QAIDA</FIRST_NAME>
+      <UN_LIST_TYPE>Al-Qaida</UN_LIST_TYPE>
+      <REFERENCE_NUMBER>QDe.004</REFERENCE_NUMBER>
+      <ENTITY_ALIAS><QUALITY>a.k.a.</QUALITY><ALIAS_NAME>The Base</ALIAS_NAME></ENTITY_ALIAS>
+    </ENTITY>
+  </ENTITIES>
+</CONSOLIDATED_LIST>`;
+
+function entriesFrom(source: string, parsed: ReturnType<typeof parseOfacSdnCsv>) {
+  return prepareEntries(parsed.map((e, i) => ({ id: `e${i}`, listId: "list-1", source, externalId: e.externalId, name: e.name, aliases: e.aliases })));
+}
+
+describe("names", () => {
+  it("drops accents, punctuation, titles and company suffixes", () => {
+    expect(nameTokens("Dr. José  O'Neill")).toEqual(["jose", "o", "neill"]);
+    expect(nameTokens("Acme Trading Co. Ltd")).toEqual(["acme", "trading"]);
+    expect(nameTokens("The Company Ltd")).toEqual(["the", "company", "ltd"]);
+  });
+
+  it("ignores word order and small spelling differences", () => {
+    expect(nameSimilarity("Ahmed Mohamed Hassan", "HASSAN, Ahmed Mohamed")).toBe(1);
+    expect(nameSimilarity("Ahmad Mohammed Hasan", "HASSAN, Ahmed Mohamed")).toBeGreaterThanOrEqual(MATCH_THRESHOLD);
+    expect(nameSimilarity("AlQaida", "Al-Qaida")).toBe(1);
+  });
+
+  it("does not match a shared surname or unrelated names", () => {
+    expect(nameSimilarity("Hassan", "HASSAN, Ahmed Mohamed")).toBeLessThan(MATCH_THRESHOLD);
+    expect(nameSimilarity("Jane Doe", "John Smith")).toBeLessThan(0.6);
+  });
+});
+
+describe("OFAC SDN", () => {
+  it("reads entries and aliases, and leaves out vessels", () => {
+    const entries = parseOfacSdnCsv(SDN, ALT);
+
+    expect(entries.map((e) => e.externalId)).toEqual(["36", "2674", "7157"]);
+    expect(entries[1]).toEqual({
+      externalId: "2674",
+      name: "ABU SAYYAF GROUP",
+      aliases: ["AL HARAKAT AL ISLAMIYYA"],
+      entityType: "entity",
+      programs: ["SDGT", "FTO"],
+      remarks: "Linked To: ISLAMIC STATE.",
+    });
+    expect(entries[2].entityType).toBe("individual");
+    expect(entries[0].remarks).toBeNull();
+  });
+
+  it("refuses a file with no entries", () => {
+    expect(() => parseOfacSdnCsv("name,type\nfoo,bar")).toThrow(SanctionsListParseError);
+  });
+});
+
+describe("UN consolidated list", () => {
+  it("joins individual name parts and skips low quality aliases", () => {
+    const entries = parseUnConsolidatedXml(UN_XML);
+
+    expect(entries).toEqual([
+      {
+        externalId: "KPi.001",
+        name: "RI WON HO",
+        aliases: ["RI WONHO"],
+        entityType: "individual",
+        programs: ["DPRK"],
+        remarks: "Ri Won Ho is a DPRK Ministry of State Security Official.",
+      },
+      { externalId: "QDe.004", name: "AL-QAIDA", aliases: ["The Base"], entityType: "entity", programs: ["Al-Qaida"], remarks: null },
+    ]);
+  });
+
+  it("detects the source from the content or file name", () => {
+    expect(parseSanctionsList(UN_XML).source).toBe("un_consolidated");
+    expect(parseSanctionsList(SDN, { fileName: "SDN.CSV" }).source).toBe("ofac_sdn");
+    expect(() => parseSanctionsList("hello", { fileName: "list.pdf" })).toThrow(SanctionsListParseError);
+  });
+});
+
+describe("screenName", () => {
+  const entries = entriesFrom("ofac_sdn", parseOfacSdnCsv(SDN, ALT));
+
+  it("matches on a name or an alias, best first", () => {
+    const matches = screenName("Ahmad Muhammad Hasan", entries);
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ externalId: "7157", matchedName: "HASAN, Ahmad Muhammad", score: 1, source: "ofac_sdn" });
+
+    expect(screenName("Al Harakat al-Islamiyya Ltd", entries)[0]?.externalId).toBe("2674");
+  });
+
+  it("finds nothing for ordinary names", () => {
+    expect(screenName("Acme Office Supplies", entries)).toEqual([]);
+    expect(screenName("", entries)).toEqual([]);
+  });
+});
+
+describe("screening outcome", () => {
+  const match = { entryId: "e2", listId: "l1", source: "ofac_sdn", externalId: "7157", name: "HASSAN, Ahmed Mohamed", matchedName: "HASSAN, Ahmed Mohamed", score: 0.95 };
+  const past = (over: Partial<PastScreening>): PastScreening => ({
+    id: "s1",
+    screenedName: "Ahmed Hassan",
+    listVersion: "l1",
+    status: "clear",
+    matches: [],
+    reviewedBy: null,
+    reviewedByName: null,
+    ...over,
+  });
+
+  it("screens subjects never screened, renamed, or screened against older lists", () => {
+    expect(screeningNeed([], "Ahmed Hassan", "l1")).toEqual({ action: "screen" });
+    expect(screeningNeed([past({})], "Ahmed Hasan Jr", "l1")).toEqual({ action: "screen" });
+    expect(screeningNeed([past({ listVersion: "l0" })], "Ahmed Hassan", "l1")).toEqual({ action: "screen" });
+    expect(screeningNeed([past({})], "AHMED  HASSAN", "l1")).toEqual({ action: "clear" });
+  });
+
+  it("holds on an unreviewed match and, for good, on a confirmed one", () => {
+    const open = past({ status: "potential_match", matches: [match] });
+    expect(screeningNeed([open], "Ahmed Hassan", "l1")).toEqual({ action: "hold", screening: open });
+
+    const confirmed = past({ id: "s0", status: "confirmed_match", matches: [match] });
+    expect(screeningNeed([past({ id: "s2", screenedName: "Someone Else", listVersion: "l2" }), confirmed], "Someone Else", "l2"))
+      .toEqual({ action: "hold", screening: confirmed });
+  });
+
+  it("keeps matches a reviewer cleared for the same name, but not new ones", () => {
+    const cleared = past({ status: "cleared", matches: [match], reviewedBy: "u1", reviewedByName: "Ada" });
+
+    expect(newScreeningStatus([], "Ahmed Hassan", [cleared])).toEqual({ status: "clear", carriedFrom: null });
+    expect(newScreeningStatus([match], "Ahmed Hassan", [cleared])).toEqual({ status: "cleared", carriedFrom: cleared });
+    expect(newScreeningStatus([match, { ...match, externalId: "9999" }], "Ahmed Hassan", [cleared]).status).toBe("potential_match");
+    expect(newScreeningStatus([match], "Ahmed H. Hassan", [cleared]).status).toBe("potential_match");
+  });
+
+  it("versions the active lists independent of order", () => {
+    expect(listVersionOf([{ id: "b" }, { id: "a" }])).toBe("a,b");
+    expect(listVersionOf([])).toBe("");
+  });
+});
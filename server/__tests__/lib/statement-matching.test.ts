@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+  scoreMatch,
+  suggestMatches,
+  AUTO_MATCH_SCORE,
+  type MatchCandidate,
+  type StatementLineRef,
+} from "../../lib/statement-matching";
+
+const line = (overrides: Partial<StatementLineRef> = {}): StatementLineRef => ({
+  id: "line-1",
+  date: "2026-03-10",
+  amount: -900,
+  currency: "USD",
+  description: "AWS EMEA payment",
+  reference: null,
+  ...overrides,
+});
+
+const candidate = (overrides: Partial<MatchCandidate> = {}): MatchCandidate => ({
+  type: "bill",
+  id: "bill-1",
+  amount: -900,
+  currency: "USD",
+  earliestDate: "2026-03-08",
+  latestDate: "2026-03-11",
+  reference: null,
+  label: "March hosting — AWS",
+  ...overrides,
+});
+
+describe("scoreMatch", () => {
+  it("requires the exact amount, direction and currency", () => {
+    expect(scoreMatch(line(), candidate({ amount: -900.01 }))).toBeNull();
+    expect(scoreMatch(line(), candidate({ amount: 900 }))).toBeNull();
+    expect(scoreMatch(line(), candidate({ currency: "EUR" }))).toBeNull();
+    expect(scoreMatch(line({ currency: null }), candidate())).not.toBeNull();
+  });
+
+  it("tapers the date score outside the expected range and rejects beyond the window", () => {
+    expect(scoreMatch(line(), candidate())?.score).toBe(80);
+    expect(scoreMatch(line({ date: "2026-03-14" }), candidate())?.score).toBe(65);
+    expect(scoreMatch(line({ date: "2026-03-17" }), candidate())).toBeNull();
+  });
+
+  it("rewards a reference in the description above a shared word", () => {
+    expect(scoreMatch(line({ description: "Transfer INV 0042" }), candidate({ reference: "INV-0042" }))).toMatchObject({
+      score: 100,
+      reasons: ["Exact amount", "Date in range", "Reference found"],
+    });
+    expect(scoreMatch(line({ description: "HOSTING AWS" }), candidate())?.score).toBe(90);
+  });
+});
+
+describe("suggestMatches", () => {
+  it("ranks suggestions and auto-matches only a clear winner", () => {
+    const [result] = suggestMatches(
+      [line({ reference: "PAY-7781" })],
+      [
+        candidate({ reference: "PAY-7781" }),
+        candidate({ id: "bill-2", label: "Office chairs", earliestDate: "2026-03-05", latestDate: "2026-03-07" }),
+      ],
+    );
+    expect(result.suggestions.map((s) => [s.id, s.score])).toEqual([["bill-1", 100], ["bill-2", 65]]);
+    expect(result.autoMatch?.id).toBe("bill-1");
+  });
+
+  it("leaves near-ties for review", () => {
+    const [result] = suggestMatches(
+      [line({ description: "Payment" })],
+      [candidate(), candidate({ type: "transaction", id: "txn-1" })],
+    );
+    expect(result.suggestions).toHaveLength(2);
+    expect(result.suggestions[0].score).toBeLessThan(AUTO_MATCH_SCORE);
+    expect(result.autoMatch).toBeNull();
+  });
+
+  it("gives a shared candidate to the stronger line only", () => {
+    const results = suggestMatches(
+      [
+        line({ id: "weak", description: "aws", date: "2026-03-12" }),
+        line({ id: "strong", description: "AWS hosting PAY-7781" }),
+      ],
+      [candidate({ reference: "PAY-7781" })],
+    );
+    expect(results.find((r) => r.lineId === "strong")?.autoMatch?.id).toBe("bill-1");
+    expect(results.find((r) => r.lineId === "weak")?.autoMatch).toBeNull();
+    expect(results.find((r) => r.lineId === "weak")?.suggestions).toHaveLength(1);
+  });
+});
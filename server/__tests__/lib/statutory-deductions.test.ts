@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyTiers,
+  computePayrollDeductions,
+  manualOtherDeductions,
+  periodsPerYear,
+  statutoryLine,
+  type StatutoryRule,
+} from "../../lib/statutory-deductions";
+
+const rule = (overrides: Partial<StatutoryRule>): StatutoryRule => ({
+  code: "X",
+  name: "Rule",
+  category: "pension",
+  authority: "Authority",
+  cadence: "monthly",
+  employeeTiers: [],
+  employerTiers: [],
+  employeeMinimum: 0,
+  taxDeductible: false,
+  source: "Act",
+  effectiveFrom: "2024-01-01",
+  ...overrides,
+});
+
+const NG_PENSION = rule({
+  code: "NG_PENSION", name: "Contributory pension", authority: "PFA", taxDeductible: true,
+  employeeTiers: [{ limit: null, rate: 0.08 }], employerTiers: [{ limit: null, rate: 0.10 }],
+});
+const NG_NHF = rule({
+  code: "NG_NHF", name: "National Housing Fund", category: "other", authority: "FMBN", taxDeductible: true,
+  employeeTiers: [{ limit: null, rate: 0.025 }],
+});
+const KE_NSSF = rule({
+  code: "KE_NSSF", name: "NSSF", authority: "NSSF",
+  employeeTiers: [{ limit: 72000, rate: 0.06 }, { limit: null, rate: 0 }],
+  employerTiers: [{ limit: 72000, rate: 0.06 }, { limit: null, rate: 0 }],
+});
+const KE_SHIF = rule({
+  code: "KE_SHIF", name: "SHIF", category: "insurance", authority: "SHA",
+  employeeTiers: [{ limit: null, rate: 0.0275 }], employeeMinimum: 300,
+});
+const GB_NI = rule({
+  code: "GB_NI", name: "National Insurance", category: "insurance", authority: "HMRC", cadence: "annual",
+  employeeTiers: [{ limit: 12570, rate: 0 }, { limit: 37700, rate: 0.08 }, { limit: null, rate: 0.02 }],
+  employerTiers: [{ limit: 5000, rate: 0 }, { limit: null, rate: 0.15 }],
+});
+const US_SOCIAL_SECURITY = rule({
+  code: "US_SOCIAL_SECURITY", name: "Social Security", authority: "IRS", cadence: "annual",
+  employeeTiers: [{ limit: 176100, rate: 0.062 }, { limit: null, rate: 0 }],
+  employerTiers: [{ limit: 176100, rate: 0.062 }, { limit: null, rate: 0 }],
+});
+const US_MEDICARE = rule({
+  code: "US_MEDICARE", name: "Medicare", category: "insurance", authority: "IRS", cadence: "annual",
+  employeeTiers: [{ limit: 200000, rate: 0.0145 }, { limit: null, rate: 0.0235 }],
+  employerTiers: [{ limit: null, rate: 0.0145 }],
+});
+const ZA_UIF = rule({
+  code: "ZA_UIF", name: "UIF", category: "insurance", authority: "SARS",
+  employeeTiers: [{ limit: 17712, rate: 0.01 }, { limit: null, rate: 0 }],
+  employerTiers: [{ limit: 17712, rate: 0.01 }, { limit: null, rate: 0 }],
+});
+
+describe("periodsPerYear", () => {
+  it("maps pay frequencies, treating one-off and unknown as monthly", () => {
+    expect(periodsPerYear("weekly")).toBe(52);
+    expect(periodsPerYear("quarterly")).toBe(4);
+    expect(periodsPerYear("once")).toBe(12);
+    expect(periodsPerYear(null)).toBe(12);
+    expect(periodsPerYear("fortnightly")).toBe(12);
+  });
+});
+
+describe("applyTiers", () => {
+  it("applies slice widths scaled to the pay period", () => {
+    expect(applyTiers(100, [{ limit: 50, rate: 0.1 }, { limit: null, rate: 0.2 }])).toBe(15);
+    expect(applyTiers(100, [{ limit: 600, rate: 0.1 }, { limit: null, rate: 0.2 }], 1 / 12)).toBeCloseTo(15);
+    expect(applyTiers(-5, [{ limit: null, rate: 0.1 }])).toBe(0);
+  });
+});
+
+describe("statutoryLine", () => {
+  it("takes NG pension at 8% from the employee and 10% from the employer", () => {
+    expect(statutoryLine(NG_PENSION, 500000, 12)).toMatchObject({ employee: 40000, employer: 50000, authority: "PFA" });
+    expect(statutoryLine(NG_NHF, 500000, 12)).toMatchObject({ employee: 12500, employer: 0 });
+  });
+
+  it("caps KE NSSF at the upper earnings limit", () => {
+    expect(statutoryLine(KE_NSSF, 50000, 12).employee).toBe(3000);
+    expect(statutoryLine(KE_NSSF, 200000, 12)).toMatchObject({ employee: 4320, employer: 4320 });
+  });
+
+  it("charges at least the KE SHIF minimum", () => {
+    expect(statutoryLine(KE_SHIF, 8000, 12).employee).toBe(300);
+    expect(statutoryLine(KE_SHIF, 100000, 12).employee).toBe(2750);
+    expect(statutoryLine(KE_SHIF, 0, 12).employee).toBe(0);
+  });
+
+  it("scales GB NI's annual thresholds to the month", () => {
+    // £3,000 a month: 8% of (3,000 − 1,047.50); employer 15% of (3,000 − 416.67)
+    expect(statutoryLine(GB_NI, 3000, 12)).toMatchObject({ employee: 156.2, employer: 387.5 });
+    // Above the upper earnings limit (£4,189.17 a month) the rate drops to 2%
+    expect(statutoryLine(GB_NI, 6000, 12).employee).toBe(287.55);
+  });
+
+  it("stops US Social Security at the wage base and adds the extra Medicare rate", () => {
+    expect(statutoryLine(US_SOCIAL_SECURITY, 300000, 1)).toMatchObject({ employee: 10918.2, employer: 10918.2 });
+    expect(statutoryLine(US_MEDICARE, 300000, 1)).toMatchObject({ employee: 5250, employer: 4350 });
+  });
+
+  it("caps ZA UIF at the earnings ceiling", () => {
+    expect(statutoryLine(ZA_UIF, 10000, 12)).toMatchObject({ employee: 100, employer: 100 });
+    expect(statutoryLine(ZA_UIF, 40000, 12)).toMatchObject({ employee: 177.12, employer: 177.12 });
+  });
+
+  it("carries the rule's source and effective date", () => {
+    expect(statutoryLine(NG_PENSION, 1000, 12)).toMatchObject({ source: "Act", effectiveFrom: "2024-01-01" });
+  });
+});
+
+describe("computePayrollDeductions", () => {
+  const flat = { cadence: "annual" as const, tiers: [{ limit: null, rate: 0.1 }], flatReduction: 0, source: "Tax Act", effectiveFrom: "2024-01-01" };
+
+  it("works tax out after the deductible contributions", () => {
+    const result = computePayrollDeductions({
+      country: "ng", gross: 100000, frequency: "monthly", rules: [NG_PENSION, NG_NHF], tax: flat,
+    });
+    // Taxable: 100,000 − 8,000 − 2,500 = 89,500 → 8,950 at 10%
+    expect(result.breakdown).toEqual({ tax: 8950, pension: 8000, insurance: 0, other: 2500 });
+    expect(result.lines[0]).toMatchObject({ code: "NG_PAYE", category: "tax", authority: "State IRS", source: "Tax Act" });
+    expect(result.employeeTotal).toBe(19450);
+    expect(result.employerTotal).toBe(10000);
+    expect(result.netPay).toBe(80550);
+  });
+
+  it("does not relieve contributions that are not deductible", () => {
+    const result = computePayrollDeductions({
+      country: "ZA", gross: 10000, frequency: "monthly", rules: [ZA_UIF], tax: flat,
+    });
+    expect(result.breakdown.tax).toBe(1000);
+  });
+
+  it("adds hand-entered deductions to other and drops empty lines", () => {
+    const result = computePayrollDeductions({
+      country: "GB", gross: 400, frequency: "monthly", rules: [GB_NI], tax: null, otherDeductions: 50,
+    });
+    expect(result.lines).toEqual([]);
+    expect(result.breakdown.other).toBe(50);
+    expect(result.employerTotal).toBe(0);
+    expect(result.netPay).toBe(350);
+  });
+});
+
+describe("manualOtherDeductions", () => {
+  it("separates hand-entered deductions from statutory ones", () => {
+    const { breakdown, lines } = computePayrollDeductions({
+      country: "NG", gross: 100000, frequency: "monthly", rules: [NG_NHF], tax: null, otherDeductions: 4000,
+    });
+    expect(manualOtherDeductions(breakdown, lines)).toBe(4000);
+    expect(manualOtherDeductions(null, null)).toBe(0);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildRemittances,
+  formatContributionScheduleCsv,
+  formatPayeScheduleCsv,
+  formatRemittanceCsv,
+  remittanceDueDate,
+  remittanceFileName,
+  remittanceId,
+  type RemittanceSourceItem,
+} from "../../lib/statutory-remittance";
+import type { StatutoryLine } from "../../lib/statutory-deductions";
+
+const line = (code: string, name: string, category: StatutoryLine["category"], authority: string, employee: number, employer = 0): StatutoryLine =>
+  ({ code, name, category, authority, employee, employer, source: null, effectiveFrom: "2024-01-01" });
+
+const item = (overrides: Partial<RemittanceSourceItem>): RemittanceSourceItem => ({
+  employeeId: "EMP-1",
+  employeeName: "Ada Obi",
+  department: "Engineering",
+  country: "NG",
+  currency: "NGN",
+  salary: 500000,
+  bonus: 0,
+  status: "processing",
+  statutoryLines: [],
+  ...overrides,
+});
+
+const run = { payDate: "2026-03-27", country: "NG", currency: "NGN" };
+const period = { periodStart: "2026-03-01", periodEnd: "2026-03-31", payDate: "2026-03-27" };
+
+const items = [
+  item({
+    statutoryLines: [
+      line("NG_PAYE", "Income tax", "tax", "State IRS", 70000),
+      line("NG_PENSION", "Contributory pension", "pension", "PFA", 40000, 50000),
+      line("NG_NHF", "National Housing Fund", "other", "FMBN", 12500),
+    ],
+  }),
+  item({
+    employeeId: "EMP-2",
+    employeeName: "Bayo, Jr.",
+    salary: 300000,
+    bonus: 20000,
+    statutoryLines: [
+      line("NG_PAYE", "Income tax", "tax", "State IRS", 35000.5),
+      line("NG_PENSION", "Contributory pension", "pension", "PFA", 25600, 32000),
+    ],
+  }),
+];
+
+describe("remittanceDueDate", () => {
+  it("falls on the authority's day of the following month", () => {
+    expect(remittanceDueDate("NG", "State IRS", "2026-03-27")).toBe("2026-04-10");
+    expect(remittanceDueDate("GB", "HMRC", "2026-12-20")).toBe("2027-01-22");
+  });
+
+  it("clamps to the end of a short month", () => {
+    expect(remittanceDueDate("NG", "FMBN", "2026-01-30")).toBe("2026-02-28");
+  });
+
+  it("counts working days for PFA pension", () => {
+    // Friday 27 March + 7 working days → Tuesday 7 April
+    expect(remittanceDueDate("NG", "PFA", "2026-03-27")).toBe("2026-04-07");
+  });
+
+  it("uses the 15th for an authority it doesn't know", () => {
+    expect(remittanceDueDate("FR", "URSSAF", "2026-03-27")).toBe("2026-04-15");
+  });
+});
+
+describe("buildRemittances", () => {
+  it("groups the run's lines into one remittance per authority and kind", () => {
+    const remittances = buildRemittances(items, run);
+    expect(remittances.map((r) => r.id)).toEqual(["ng-state-irs-paye", "ng-fmbn-contributions", "ng-pfa-contributions"]);
+
+    const paye = remittances[0];
+    expect(paye).toMatchObject({ kind: "paye", employeeCount: 2, employeeTotal: 105000.5, employerTotal: 0, total: 105000.5, dueDate: "2026-04-10" });
+
+    const pension = remittances.find((r) => r.id === "ng-pfa-contributions")!;
+    expect(pension).toMatchObject({ employeeTotal: 65600, employerTotal: 82000, total: 147600, currency: "NGN" });
+    expect(pension.rows[1]).toMatchObject({ employeeName: "Bayo, Jr.", gross: 320000, total: 57600 });
+  });
+
+  it("leaves out reversed and released items", () => {
+    const remittances = buildRemittances([items[0], { ...items[1], status: "reversed" }, { ...items[1], status: "released" }], run);
+    expect(remittances[0].employeeCount).toBe(1);
+  });
+
+  it("keeps income tax and levies to the same authority apart", () => {
+    const remittances = buildRemittances([item({
+      country: "KE",
+      currency: "KES",
+      statutoryLines: [
+        line("KE_PAYE", "Income tax", "tax", "KRA", 20000),
+        line("KE_HOUSING_LEVY", "Affordable housing levy", "other", "KRA", 1500, 1500),
+      ],
+    })], run);
+    expect(remittances.map((r) => r.id)).toEqual(["ke-kra-paye", "ke-kra-contributions"]);
+    expect(remittances[1].currency).toBe("KES");
+  });
+
+  it("falls back to the run's country for items without one", () => {
+    const [r] = buildRemittances([item({ country: null, statutoryLines: [line("X", "Tax", "tax", "State IRS", 10)] })], run);
+    expect(r.id).toBe(remittanceId("NG", "State IRS", "paye"));
+  });
+
+  it("is empty for entries without statutory lines", () => {
+    expect(buildRemittances([item({ statutoryLines: null })], run)).toEqual([]);
+  });
+});
+
+describe("schedules", () => {
+  const [paye, nhf, pension] = buildRemittances(items, run);
+
+  it("writes a PAYE schedule with a total row", () => {
+    const out = formatPayeScheduleCsv(paye, period).split("\r\n");
+    expect(out[0]).toBe("S/N,Employee ID,Employee Name,Department,Gross Pay,Tax Deducted,Period Start,Period End,Pay Date");
+    expect(out[1]).toBe("1,EMP-1,Ada Obi,Engineering,500000.00,70000.00,2026-03-01,2026-03-31,2026-03-27");
+    expect(out[2]).toBe('2,EMP-2,"Bayo, Jr.",Engineering,320000.00,35000.50,2026-03-01,2026-03-31,2026-03-27');
+    expect(out[3]).toBe(",,Total,,820000.00,105000.50,,,");
+  });
+
+  it("writes a pension schedule with employee and employer columns", () => {
+    const out = formatContributionScheduleCsv(pension, period).split("\r\n");
+    expect(out[0]).toBe("S/N,Employee ID,Employee Name,Department,Gross Pay,Employee Contribution,Employer Contribution,Total Contribution,Period Start,Period End");
+    expect(out[1]).toBe("1,EMP-1,Ada Obi,Engineering,500000.00,40000.00,50000.00,90000.00,2026-03-01,2026-03-31");
+    expect(out[3]).toBe(",,Total,,820000.00,65600.00,82000.00,147600.00,,");
+  });
+
+  it("names the columns after each rule when an authority collects several", () => {
+    const [, levies] = buildRemittances([item({
+      statutoryLines: [
+        line("KE_PAYE", "Income tax", "tax", "KRA", 20000),
+        line("KE_HOUSING_LEVY", "Housing levy", "other", "KRA", 1500, 1500),
+        line("KE_OTHER", "Other levy", "other", "KRA", 100),
+      ],
+    })], run);
+    expect(formatContributionScheduleCsv(levies, period).split("\r\n")[0])
+      .toContain("Housing levy Employee,Housing levy Employer,Other levy Employee,Other levy Employer");
+  });
+
+  it("picks the layout from the kind and names the file", () => {
+    expect(formatRemittanceCsv(nhf, period)).toBe(formatContributionScheduleCsv(nhf, period));
+    expect(formatRemittanceCsv(paye, period)).toBe(formatPayeScheduleCsv(paye, period));
+    expect(remittanceFileName("March 2026 payroll", paye)).toBe("paye-schedule-march-2026-payroll-ng-state-irs-paye.csv");
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { monthlyTotals, renderTaxCertificatePdf, taxCertificateFileName, type TaxCertificateData } from "../../lib/tax-certificate";
+import { summarisePayYear, type PaidItem } from "../../lib/employee-pay";
+
+const paid = (payDate: string, overrides: Partial<PaidItem> = {}): PaidItem => ({
+  runName: `Payroll ${payDate}`,
+  payDate,
+  currency: "GBP",
+  salary: 2000,
+  bonus: 0,
+  deductions: 400,
+  deductionBreakdown: { tax: 300, pension: 0, insurance: 100, other: 0 },
+  statutoryLines: [
+    { code: "GB_PAYE", name: "Income tax", category: "tax", authority: "HMRC", employee: 300, employer: 0, source: null, effectiveFrom: "2025-04-06" },
+    { code: "GB_NI", name: "National Insurance", category: "insurance", authority: "HMRC", employee: 100, employer: 150, source: null, effectiveFrom: "2025-04-06" },
+  ],
+  employerContributions: 150,
+  netPay: 1600,
+  status: "processing",
+  ...overrides,
+});
+
+// Two fortnightly payslips in March, one in April.
+const summary = summarisePayYear([paid("2026-03-13"), paid("2026-03-27"), paid("2026-04-10")], 2026);
+
+const certificate: TaxCertificateData = {
+  company: { name: "Acme (London) Ltd", address: "1 High St, London", email: "pay@acme.test", primaryColor: "#0f766e" },
+  employee: { id: "EMP-1", name: "Ada Obi", department: "Engineering" },
+  country: "GB",
+  summary,
+};
+
+describe("monthlyTotals", () => {
+  it("adds up payslips paid in the same month", () => {
+    expect(monthlyTotals(summary)).toEqual([
+      { month: "2026-03", gross: 4000, tax: 600, deductions: 800, netPay: 3200 },
+      { month: "2026-04", gross: 2000, tax: 300, deductions: 400, netPay: 1600 },
+    ]);
+  });
+});
+
+describe("renderTaxCertificatePdf", () => {
+  it("renders the year's pay, deductions and employer contributions", () => {
+    const out = renderTaxCertificatePdf(certificate, new Date("2027-01-05T09:00:00Z")).toString("ascii");
+    expect(out.startsWith("%PDF-1.4")).toBe(true);
+    expect(out).toContain("(ANNUAL TAX CERTIFICATE)");
+    expect(out).toContain("(Tax year 2026)");
+    expect(out).toContain("(Acme \\(London\\) Ltd)");
+    expect(out).toContain("(Income tax \\(HMRC\\))");
+    expect(out).toContain("(GBP 6,000.00)");
+    expect(out).toContain("(GBP 4,800.00)");
+    expect(out).toContain("(Employer contributions)");
+    expect(out).toContain("(GBP 450.00)");
+    expect(out).toContain("P60");
+    expect(out).toContain("(Generated 2027-01-05)");
+  });
+
+  it("shows deductions without statutory lines as one figure", () => {
+    const manual = summarisePayYear([paid("2026-05-29", { statutoryLines: null, employerContributions: 0 })], 2026);
+    const out = renderTaxCertificatePdf({ ...certificate, country: "FR", summary: manual }).toString("ascii");
+    expect(out).toContain("(Deductions)");
+    expect(out).not.toContain("(Employer contributions)");
+    expect(out).not.toContain("statutory record");
+  });
+});
+
+describe("taxCertificateFileName", () => {
+  it("names the file after the year and employee", () => {
+    expect(taxCertificateFileName(2026, "Ada Obi-Jones")).toBe("tax-certificate-2026-ada-obi-jones.pdf");
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  matchBillToPurchaseOrder,
+  defaultBillLines,
+  checkReceipt,
+  receivingStatus,
+  purchaseOrderTotal,
+  type PoLineRef,
+  type ThreeWayMatchInput,
+} from "../../lib/three-way-match";
+
+const poLines: PoLineRef[] = [
+  { id: "l1", description: "Laptops", quantity: 10, unitPrice: 1200, receivedQuantity: 10 },
+  { id: "l2", description: "Docks", quantity: 10, unitPrice: 150, receivedQuantity: 6 },
+];
+
+const input = (overrides: Partial<ThreeWayMatchInput> = {}): ThreeWayMatchInput => ({
+  poStatus: "partially_received",
+  poCurrency: "USD",
+  poLines,
+  billCurrency: "usd",
+  billAmount: 12900,
+  billLines: [
+    { poLineId: "l1", quantity: 10, unitPrice: 1200 },
+    { poLineId: "l2", quantity: 6, unitPrice: 150 },
+  ],
+  received: { l1: 10, l2: 6 },
+  billedElsewhere: {},
+  tolerance: { pricePercent: 2, quantityPercent: 0 },
+  ...overrides,
+});
+
+const codes = (i: ThreeWayMatchInput) => matchBillToPurchaseOrder(i).exceptions.map((e) => e.code);
+
+describe("matchBillToPurchaseOrder", () => {
+  it("matches a bill for what was received at the ordered price", () => {
+    expect(matchBillToPurchaseOrder(input())).toEqual({ status: "matched", exceptions: [] });
+  });
+
+  it("allows price drift inside the tolerance and flags it beyond", () => {
+    const within = input({ billLines: [{ poLineId: "l1", quantity: 10, unitPrice: 1224 }], billAmount: 12240 });
+    expect(codes(within)).toEqual([]);
+
+    const beyond = input({ billLines: [{ poLineId: "l1", quantity: 10, unitPrice: 1225 }], billAmount: 12250 });
+    const result = matchBillToPurchaseOrder(beyond);
+    expect(result.status).toBe("exception");
+    expect(result.exceptions[0]).toMatchObject({ code: "price_variance", poLineId: "l1", expected: 1200, actual: 1225 });
+  });
+
+  it("flags quantities billed before they were received, counting other bills", () => {
+    expect(codes(input({
+      billLines: [{ poLineId: "l2", quantity: 8, unitPrice: 150 }],
+      billAmount: 1200,
+    }))).toEqual(["quantity_not_received"]);
+
+    expect(codes(input({
+      billLines: [{ poLineId: "l1", quantity: 4, unitPrice: 1200 }],
+      billAmount: 4800,
+      billedElsewhere: { l1: 7 },
+    }))).toEqual(["quantity_not_received"]);
+
+    // A quantity tolerance lets a short delivery through.
+    expect(codes(input({
+      billLines: [{ poLineId: "l2", quantity: 6.5, unitPrice: 150 }],
+      billAmount: 975,
+      tolerance: { pricePercent: 2, quantityPercent: 10 },
+    }))).toEqual([]);
+  });
+
+  it("flags billing beyond the order even when more was received", () => {
+    expect(codes(input({
+      billLines: [{ poLineId: "l1", quantity: 12, unitPrice: 1200 }],
+      billAmount: 14400,
+      received: { l1: 12 },
+    }))).toEqual(["quantity_exceeds_order"]);
+  });
+
+  it("checks the order's status and currency and the bill's total and lines", () => {
+    expect(codes(input({ poStatus: "pending_approval" }))).toEqual(["po_not_approved"]);
+    expect(codes(input({ billCurrency: "EUR" }))).toEqual(["currency_mismatch"]);
+    expect(codes(input({ billAmount: 13500 }))).toEqual(["amount_mismatch"]);
+    expect(codes(input({ billLines: [] }))).toEqual(["no_lines"]);
+    expect(codes(input({
+      billLines: [{ poLineId: "other", quantity: 1, unitPrice: 10 }],
+      billAmount: 10,
+    }))).toEqual(["unknown_line"]);
+  });
+});
+
+describe("defaultBillLines", () => {
+  it("bills what was received and not yet billed at the PO price", () => {
+    expect(defaultBillLines(poLines, { l1: 10, l2: 6 }, { l1: 10, l2: 2 })).toEqual([
+      { poLineId: "l2", description: "Docks", quantity: 4, unitPrice: 150 },
+    ]);
+  });
+});
+
+describe("checkReceipt", () => {
+  it("rejects receipts that overshoot the order or name foreign lines", () => {
+    expect(checkReceipt(poLines, [{ poLineId: "l2", quantity: 4 }], 0)).toEqual([]);
+    expect(checkReceipt(poLines, [{ poLineId: "l2", quantity: 3 }, { poLineId: "l2", quantity: 2 }], 0)).toHaveLength(1);
+    expect(checkReceipt(poLines, [{ poLineId: "l2", quantity: 5 }], 10)).toEqual([]);
+    expect(checkReceipt(poLines, [{ poLineId: "nope", quantity: 1 }], 0)[0]).toMatch(/not on this purchase order/);
+  });
+});
+
+describe("receivingStatus and purchaseOrderTotal", () => {
+  it("derives the PO status from received quantities", () => {
+    expect(receivingStatus([{ quantity: 2, receivedQuantity: 0 }])).toBe("approved");
+    expect(receivingStatus(poLines)).toBe("partially_received");
+    expect(receivingStatus([{ quantity: 2, receivedQuantity: 2 }, { quantity: 1, receivedQuantity: 1.5 }])).toBe("received");
+  });
+
+  it("totals lines to the cent", () => {
+    expect(purchaseOrderTotal([{ quantity: 3, unitPrice: 0.1 }, { quantity: 1.5, unitPrice: 19.98 }])).toBe(30.27);
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect } from "vitest";
+import {
+  effectiveRules,
+  ruleUpdateProblem,
+  alertHoldsPayment,
+  loginIpIsNew,
+  evaluateMonitoringEvent,
+  type MonitoredEvent,
+  type MonitoringContext,
+} from "../../lib/transaction-monitoring";
+
+const NOW = "2026-03-10T12:00:00.000Z";
+
+function hoursBefore(hours: number): string {
+  return new Date(new Date(NOW).getTime() - hours * 3_600_000).toISOString();
+}
+
+let seq = 0;
+function event(over: Partial<MonitoredEvent>): MonitoredEvent {
+  seq += 1;
+  return {
+    id: `ev${seq}`,
+    kind: "payout",
+    userId: "u1",
+    subjectId: `p${seq}`,
+    amount: 100,
+    currency: "USD",
+    ip: null,
+    country: null,
+    data: {},
+    occurredAt: NOW,
+    ...over,
+  };
+}
+
+function context(over: Partial<MonitoringContext> = {}): MonitoringContext {
+  return {
+    rules: effectiveRules([]),
+    history: [],
+    dualApprovalThreshold: 5000,
+    homeCountry: "US",
+    knownCountries: [],
+    ...over,
+  };
+}
+
+function rulesFired(e: MonitoredEvent, ctx: MonitoringContext): string[] {
+  return evaluateMonitoringEvent(e, ctx).map((f) => f.ruleKey);
+}
+
+describe("rule settings", () => {
+  it("applies saved settings over the defaults and ignores what a rule cannot do", () => {
+    const rules = effectiveRules([
+      { ruleKey: "unusual_card_country", enabled: true, severity: "critical", action: "freeze_card", params: { lookbackDays: 30, bogus: 1 } },
+      { ruleKey: "threshold_splitting", enabled: false, severity: "nonsense", action: "freeze_card", params: { minPayouts: -1 } },
+    ]);
+    const card = rules.find((r) => r.key === "unusual_card_country")!;
+    const splitting = rules.find((r) => r.key === "threshold_splitting")!;
+
+    expect(card).toEqual({ key: "unusual_card_country", enabled: true, severity: "critical", action: "freeze_card", params: { lookbackDays: 30 } });
+    expect(splitting).toMatchObject({ enabled: false, severity: "medium", action: "alert", params: { minPayouts: 2 } });
+    expect(rules.find((r) => r.key === "new_ip_then_transfer")).toMatchObject({ enabled: true, action: "alert" });
+  });
+
+  it("explains why an update cannot be saved", () => {
+    expect(ruleUpdateProblem("threshold_splitting", { action: "hold_payout", params: { minPayouts: 3 } })).toBeNull();
+    expect(ruleUpdateProblem("threshold_splitting", { action: "freeze_card" })).toMatch(/can only alert or hold payout/);
+    expect(ruleUpdateProblem("threshold_splitting", { params: { lookbackDays: 3 } })).toMatch(/no setting 'lookbackDays'/);
+    expect(ruleUpdateProblem("threshold_splitting", { params: { minPayouts: 0 } })).toMatch(/positive/);
+    expect(ruleUpdateProblem("nope", {})).toMatch(/Unknown rule/);
+  });
+
+  it("holds payments only for hold alerts nobody dismissed", () => {
+    expect(alertHoldsPayment({ action: "hold_payout", status: "open" })).toBe(true);
+    expect(alertHoldsPayment({ action: "hold_payout", status: "confirmed" })).toBe(true);
+    expect(alertHoldsPayment({ action: "hold_payout", status: "dismissed" })).toBe(false);
+    expect(alertHoldsPayment({ action: "alert", status: "open" })).toBe(false);
+  });
+});
+
+describe("payouts to new accounts", () => {
+  const toNewAccount = (hours: number) =>
+    event({ occurredAt: hoursBefore(hours), data: { destinationId: `d${hours}`, destinationCreatedAt: hoursBefore(hours + 1) } });
+
+  it("fires on the third payout to a new account within a day", () => {
+    const history = [toNewAccount(2), toNewAccount(5)];
+    const findings = evaluateMonitoringEvent(toNewAccount(0), context({ history }));
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ ruleKey: "new_destination_velocity", severity: "medium", subjectType: "payout" });
+    expect(findings[0].summary).toBe("3 payouts in 24 hours to newly added accounts");
+  });
+
+  it("counts transfers to accounts first paid recently, each transfer on its own", () => {
+    const transfer = (hours: number) => event({
+      kind: "transfer",
+      subjectId: "058:0123456789",
+      occurredAt: hoursBefore(hours),
+      data: { recipientId: "058:0123456789", destinationCreatedAt: hoursBefore(6) },
+    });
+    const latest = transfer(0);
+    const findings = evaluateMonitoringEvent(latest, context({ history: [transfer(2), transfer(4)] }));
+
+    expect(findings.map((f) => f.ruleKey)).toEqual(["new_destination_velocity"]);
+    expect(findings[0]).toMatchObject({ subjectType: "transfer", subjectId: "058:0123456789", dedupeKey: `new_destination_velocity:${latest.id}` });
+    expect(findings[0].summary).toBe("3 transfers in 24 hours to newly added accounts");
+  });
+
+  it("ignores old accounts and payouts outside the window", () => {
+    const old = event({ data: { destinationCreatedAt: hoursBefore(24 * 30) } });
+    expect(rulesFired(old, context({ history: [toNewAccount(2), toNewAccount(5)] }))).toEqual([]);
+    expect(rulesFired(toNewAccount(0), context({ history: [toNewAccount(2), toNewAccount(30)] }))).toEqual([]);
+  });
+});
+
+describe("account changed, then paid", () => {
+  const change = (hours: number) => event({ kind: "destination_changed", subjectId: "d1", occurredAt: hoursBefore(hours), data: { fields: ["accountNumber"] } });
+
+  it("fires when the account's details changed shortly before", () => {
+    const payout = event({ data: { destinationId: "d1" } });
+    const findings = evaluateMonitoringEvent(payout, context({ history: [change(30), change(0.5)] }));
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].summary).toBe("Paid to an account whose bank details changed 30 minutes earlier");
+    expect(findings[0].details).toMatchObject({ destinationId: "d1", changedFields: ["accountNumber"] });
+  });
+
+  it("ignores older changes and other accounts", () => {
+    expect(rulesFired(event({ data: { destinationId: "d1" } }), context({ history: [change(72)] }))).toEqual([]);
+    expect(rulesFired(event({ data: { destinationId: "d2" } }), context({ history: [change(1)] }))).toEqual([]);
+  });
+});
+
+describe("splitting under the approval threshold", () => {
+  const payout = (amount: number, hours = 0, recipientId = "v1") =>
+    event({ amount, occurredAt: hoursBefore(hours), data: { recipientId, recipientName: "Acme" } });
+
+  it("fires when amounts just under the threshold add up to it", () => {
+    const findings = evaluateMonitoringEvent(payout(4950), context({ history: [payout(4800, 3)] }));
+
+    expect(findings.map((f) => f.ruleKey)).toEqual(["threshold_splitting"]);
+    expect(findings[0].summary).toBe("2 payouts totalling USD 9750.00 to Acme, each under the 5000 dual-approval threshold");
+  });
+
+  it("counts round amounts too, but not odd ones, other recipients or other currencies", () => {
+    expect(rulesFired(payout(3000), context({ history: [payout(2500, 1)] }))).toEqual(["threshold_splitting"]);
+    expect(rulesFired(payout(3000), context({ history: [payout(2512.4, 1)] }))).toEqual([]);
+    expect(rulesFired(payout(4900), context({ history: [payout(4900, 1, "v2")] }))).toEqual([]);
+    expect(rulesFired(payout(4900), context({ history: [{ ...payout(4900, 1), currency: "EUR" }] }))).toEqual([]);
+  });
+
+  it("fires on transfers to one account too", () => {
+    const transfer = (amount: number, hours = 0) => event({
+      kind: "transfer",
+      subjectId: "058:0123456789",
+      amount,
+      occurredAt: hoursBefore(hours),
+      data: { recipientId: "058:0123456789", recipientName: "J Doe" },
+    });
+    const findings = evaluateMonitoringEvent(transfer(4900), context({ history: [transfer(4700, 2)] }));
+
+    expect(findings.map((f) => f.ruleKey)).toEqual(["threshold_splitting"]);
+    expect(findings[0].subjectType).toBe("transfer");
+    expect(findings[0].summary).toBe("2 transfers totalling USD 9600.00 to J Doe, each under the 5000 dual-approval threshold");
+  });
+
+  it("leaves alone payouts that reach the threshold, which need two approvals anyway", () => {
+    expect(rulesFired(payout(5000), context({ history: [payout(4900, 1)] }))).toEqual([]);
+  });
+});
+
+describe("unusual card country", () => {
+  const auth = (country: string | null) =>
+    event({ kind: "card_authorization", subjectId: "card1", country, data: { authorizationId: "iauth_1", merchantName: "Duty Free" } });
+
+  it("fires outside the home country and countries the cards were used in", () => {
+    const findings = evaluateMonitoringEvent(auth("ng"), context({ knownCountries: ["GB"] }));
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ subjectType: "card", subjectId: "card1", dedupeKey: "unusual_card_country:iauth_1" });
+    expect(findings[0].summary).toBe("Card used in NG at Duty Free, where the company's cards are not normally used");
+  });
+
+  it("stays quiet for usual countries and unknown ones", () => {
+    expect(rulesFired(auth("US"), context())).toEqual([]);
+    expect(rulesFired(auth("gb"), context({ knownCountries: ["GB"] }))).toEqual([]);
+    expect(rulesFired(auth(null), context())).toEqual([]);
+  });
+});
+
+describe("new sign-in location, then money out", () => {
+  const login = (ip: string, hours: number, newIp = false) =>
+    event({ kind: "login", subjectId: null, ip, occurredAt: hoursBefore(hours), data: { newIp } });
+
+  it("tells a new IP address from a known one", () => {
+    const earlier = [login("1.1.1.1", 48), login("2.2.2.2", 24)];
+    expect(loginIpIsNew({ ip: "9.9.9.9", occurredAt: NOW }, earlier, 90)).toBe(true);
+    expect(loginIpIsNew({ ip: "2.2.2.2", occurredAt: NOW }, earlier, 90)).toBe(false);
+    expect(loginIpIsNew({ ip: "9.9.9.9", occurredAt: NOW }, [], 90)).toBe(false);
+    expect(loginIpIsNew({ ip: "9.9.9.9", occurredAt: NOW }, [login("1.1.1.1", 24 * 120)], 90)).toBe(false);
+  });
+
+  it("fires on a transfer soon after a sign-in from a new address, keyed by the sign-in", () => {
+    const signIn = login("9.9.9.9", 2, true);
+    const transfer = event({ kind: "transfer", subjectId: "058:0123456789", amount: 250 });
+    const findings = evaluateMonitoringEvent(transfer, context({ history: [login("1.1.1.1", 20), signIn] }));
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ ruleKey: "new_ip_then_transfer", severity: "high", subjectType: "transfer", dedupeKey: `new_ip_then_transfer:${signIn.id}` });
+    expect(findings[0].summary).toBe("Transfer of USD 250.00 2 hours after a sign-in from a new IP address (9.9.9.9)");
+  });
+
+  it("ignores known addresses, old sign-ins and other users", () => {
+    expect(rulesFired(event({}), context({ history: [login("1.1.1.1", 1)] }))).toEqual([]);
+    expect(rulesFired(event({}), context({ history: [login("9.9.9.9", 30, true)] }))).toEqual([]);
+    expect(rulesFired(event({ userId: "u2" }), context({ history: [login("9.9.9.9", 1, true)] }))).toEqual([]);
+  });
+
+  it("does nothing when the rule is turned off", () => {
+    const rules = effectiveRules([{ ruleKey: "new_ip_then_transfer", enabled: false, severity: "high", action: "alert", params: {} }]);
+    expect(rulesFired(event({}), context({ rules, history: [login("9.9.9.9", 1, true)] }))).toEqual([]);
+  });
+});
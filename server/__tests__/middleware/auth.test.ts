@@ -25,6 +25,9 @@ vi.mock('../../storage', () => ({
     getUserCompanies: vi.fn(),
     getSystemSettings: vi.fn().mockResolvedValue([]),
     getPermissionsForRole: vi.fn(),
+    getApiKeyByHash: vi.fn(),
+    recordApiKeyUse: vi.fn().mockResolvedValue(undefined),
+    createAuditLog: vi.fn().mockResolvedValue({}),
   },
 }));
 
@@ -33,12 +36,14 @@ import {
   requireAdmin,
   requireOwnership,
   requirePermission,
+  requirePin,
   invalidateRolePermissionsCache,
   _setRolePermissionsForTesting,
 } from '../../middleware/auth';
 import { idTokenVerifier } from '../../cognito-verifier';
 import { storage } from '../../storage';
 import { _setFeatureFlagForTesting, invalidateFeatureFlagCache } from '../../lib/feature-flags';
+import { hashApiKey } from '../../lib/api-keys';
 
 function createMocks(overrides: {
   headers?: Record<string, string>;
@@ -621,3 +626,117 @@ describe('requirePermission', () => {
     expect(res._status).toBe(403);
   });
 });
+
+// ============================================================================
+// Company API keys
+// ============================================================================
+describe('requireAuth with an API key', () => {
+  const KEY = 'spk_test-key-0123456789';
+  const apiKey = (overrides: Record<string, any> = {}) => ({
+    id: 'key-1',
+    companyId: 'co-1',
+    name: 'ERP',
+    prefix: 'spk_test-key',
+    keyHash: hashApiKey(KEY),
+    permissions: ['CREATE_EXPENSE', 'VIEW_TREASURY'],
+    expiresAt: null,
+    revokedAt: null,
+    ...overrides,
+  });
+
+  function keyedRequest(method: string, url: string) {
+    const mocks = createMocks({ headers: { authorization: `Bearer ${KEY}` } });
+    const finish: Array<() => void> = [];
+    Object.assign(mocks.req, { method, originalUrl: url, ip: '203.0.113.7' });
+    mocks.res.statusCode = 200;
+    mocks.res.on = vi.fn((event: string, cb: () => void) => { if (event === 'finish') finish.push(cb); });
+    return { ...mocks, finish: () => finish.forEach((cb) => cb()) };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('admits the key to a route its permissions cover, as the key', async () => {
+    (storage.getApiKeyByHash as any).mockResolvedValue(apiKey());
+    const { req, res, next, finish } = keyedRequest('POST', '/api/expenses');
+
+    await requireAuth(req, res, next);
+    expect(next).toHaveBeenCalledOnce();
+    expect((storage.getApiKeyByHash as any).mock.calls[0][0]).toBe(hashApiKey(KEY));
+    expect(idTokenVerifier.verify).not.toHaveBeenCalled();
+    expect(req.user.uid).toBe('key-1');
+    expect(req.apiKey).toEqual({ id: 'key-1', companyId: 'co-1', name: 'ERP', permissions: ['CREATE_EXPENSE', 'VIEW_TREASURY'] });
+    expect(storage.recordApiKeyUse).toHaveBeenCalledWith('key-1', expect.any(String), '203.0.113.7');
+
+    finish();
+    expect(storage.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'key-1',
+      entityType: 'api_key',
+      companyId: 'co-1',
+      details: { method: 'POST', path: '/expenses', permission: 'CREATE_EXPENSE', status: 200 },
+    }));
+  });
+
+  it('refuses a route outside the key\'s permissions, and audits the attempt', async () => {
+    (storage.getApiKeyByHash as any).mockResolvedValue(apiKey());
+    const { req, res, next, finish } = keyedRequest('POST', '/api/payouts');
+
+    await requireAuth(req, res, next);
+    expect(next).not.toHaveBeenCalled();
+    expect(res._status).toBe(403);
+    expect(res._json.requiredPermission).toBe('SETTLE_PAYMENT');
+    finish();
+    expect(storage.createAuditLog).toHaveBeenCalledOnce();
+  });
+
+  it('refuses routes keys cannot call at all', async () => {
+    (storage.getApiKeyByHash as any).mockResolvedValue(apiKey({ permissions: ['MANAGE_SETTINGS'] }));
+    const { req, res, next } = keyedRequest('DELETE', '/api/api-keys/key-1');
+
+    await requireAuth(req, res, next);
+    expect(next).not.toHaveBeenCalled();
+    expect(res._status).toBe(403);
+    expect(res._json.message).toContain('not available to API keys');
+  });
+
+  it.each([
+    ['unknown', undefined, 'Invalid API key'],
+    ['revoked', apiKey({ revokedAt: '2026-01-01T00:00:00Z' }), 'API key revoked'],
+    ['expired', apiKey({ expiresAt: '2020-01-01T00:00:00Z' }), 'API key expired'],
+  ])('rejects an %s key with 401', async (_label, key, message) => {
+    (storage.getApiKeyByHash as any).mockResolvedValue(key);
+    const { req, res, next } = keyedRequest('GET', '/api/transactions');
+
+    await requireAuth(req, res, next);
+    expect(next).not.toHaveBeenCalled();
+    expect(res._status).toBe(401);
+    expect(res._json.message).toBe(message);
+    expect(storage.recordApiKeyUse).not.toHaveBeenCalled();
+  });
+
+  it('lets an admitted key through requireAdmin and requirePin for its company', async () => {
+    (storage.getApiKeyByHash as any).mockResolvedValue(apiKey({ permissions: ['SETTLE_PAYMENT'] }));
+    const { req, res, next } = keyedRequest('POST', '/api/payouts/po-1/process?x=1');
+
+    await requireAuth(req, res, next);
+    await requireAdmin(req, res, next);
+    await requirePin(req, res, next);
+    expect(next).toHaveBeenCalledTimes(3);
+    expect(req.adminCompany).toEqual({ companyId: 'co-1', role: 'API_KEY' });
+    expect(storage.getUserProfileByCognitoSub).not.toHaveBeenCalled();
+  });
+
+  it('checks requirePermission against the key\'s own permissions', async () => {
+    (storage.getApiKeyByHash as any).mockResolvedValue(apiKey());
+    const { req, res, next } = keyedRequest('GET', '/api/transactions');
+    await requireAuth(req, res, next);
+
+    await requirePermission('VIEW_TREASURY')(req, res, next);
+    expect(next).toHaveBeenCalledTimes(2);
+    await requirePermission('MANAGE_TEAM')(req, res, next);
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(res._status).toBe(403);
+  });
+});
@@ -169,3 +169,29 @@ describe('CSRF: Non-exempt paths', () => {
     expect(res._status).toBe(403);
   });
 });
+
+// ============================================================================
+// Company API keys are sent by servers, not browsers
+// ============================================================================
+describe('CSRF: API keys', () => {
+  it('skips the header check for a request carrying an API key', () => {
+    const { req, res, next } = createMocks({
+      method: 'POST',
+      path: '/api/expenses',
+      headers: { authorization: 'Bearer spk_abc123' },
+    });
+    csrfProtection(req, res, next);
+    expect(next).toHaveBeenCalledOnce();
+  });
+
+  it('still requires the header with a session token', () => {
+    const { req, res, next } = createMocks({
+      method: 'POST',
+      path: '/api/expenses',
+      headers: { authorization: 'Bearer eyJhbGciOi.session' },
+    });
+    csrfProtection(req, res, next);
+    expect(next).not.toHaveBeenCalled();
+    expect(res._status).toBe(403);
+  });
+});
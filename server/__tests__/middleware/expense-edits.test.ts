@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../storage', () => ({
+  storage: {
+    getExpense: vi.fn(),
+    getUserCompanies: vi.fn(),
+  },
+}));
+
+vi.mock('../../middleware/auth', () => ({
+  requirePin: vi.fn((_req: any, res: any) => res.status(403).json({ error: 'Transaction PIN required', code: 'PIN_REQUIRED' })),
+}));
+
+import { requirePinForExpenseEdit } from '../../middleware/expenseEdits';
+import { requirePin } from '../../middleware/auth';
+import { storage } from '../../storage';
+
+function createMocks(body: Record<string, unknown>, uid = 'user-1') {
+  const req: any = { params: { id: 'exp-1' }, body, headers: {}, user: { uid } };
+  const sent: { status: number; body: any }[] = [];
+  const res: any = {
+    statusCode: 200,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(payload: unknown) {
+      sent.push({ status: res.statusCode, body: payload });
+      return res;
+    },
+  };
+  const next = vi.fn();
+  return { req, res, next, sent };
+}
+
+const expense = (overrides: Record<string, unknown> = {}) => ({
+  id: 'exp-1',
+  userId: 'user-1',
+  companyId: 'company-1',
+  status: 'PENDING',
+  merchant: 'Uber',
+  amount: '42.00',
+  ...overrides,
+});
+
+describe('requirePinForExpenseEdit', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.getUserCompanies).mockResolvedValue([]);
+  });
+
+  it('refuses an offline edit with EXPENSE_CONFLICT once the expense has been approved', async () => {
+    vi.mocked(storage.getExpense).mockResolvedValue(expense({ status: 'APPROVED' }) as any);
+    const { req, res, next, sent } = createMocks({ amount: 50, baseStatus: 'PENDING' });
+
+    await requirePinForExpenseEdit(req, res, next);
+
+    expect(sent).toEqual([{
+      status: 409,
+      body: {
+        error: 'This expense is now approved; your changes were not saved',
+        code: 'EXPENSE_CONFLICT',
+        expense: expense({ status: 'APPROVED' }),
+      },
+    }]);
+    expect(requirePin).not.toHaveBeenCalled();
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('gives a member of the expense company the expense with the conflict', async () => {
+    vi.mocked(storage.getExpense).mockResolvedValue(expense({ status: 'APPROVED' }) as any);
+    vi.mocked(storage.getUserCompanies).mockResolvedValue([{ companyId: 'company-1', role: 'MANAGER' }] as any);
+    const { req, res, next, sent } = createMocks({ amount: 50, baseStatus: 'PENDING' }, 'manager-1');
+
+    await requirePinForExpenseEdit(req, res, next);
+
+    expect(sent[0].status).toBe(409);
+    expect(sent[0].body.expense).toEqual(expense({ status: 'APPROVED' }));
+  });
+
+  it('leaves the expense out of the conflict for callers outside its company', async () => {
+    vi.mocked(storage.getExpense).mockResolvedValue(expense({ status: 'APPROVED' }) as any);
+    vi.mocked(storage.getUserCompanies).mockResolvedValue([{ companyId: 'company-2', role: 'OWNER' }] as any);
+    const outsider = createMocks({ amount: 50, baseStatus: 'PENDING' }, 'user-9');
+    await requirePinForExpenseEdit(outsider.req, outsider.res, outsider.next);
+    const otherKey = createMocks({ amount: 50, baseStatus: 'PENDING' });
+    otherKey.req.apiKey = { id: 'key-1', companyId: 'company-2', name: 'ERP', permissions: [] };
+    await requirePinForExpenseEdit(otherKey.req, otherKey.res, otherKey.next);
+
+    for (const { sent } of [outsider, otherKey]) {
+      expect(sent).toEqual([{
+        status: 409,
+        body: { error: 'This expense is now approved; your changes were not saved', code: 'EXPENSE_CONFLICT' },
+      }]);
+    }
+  });
+
+  it("lets the submitter edit their waiting expense's details without a PIN", async () => {
+    vi.mocked(storage.getExpense).mockResolvedValue(expense({ status: 'CHANGES_REQUESTED' }) as any);
+    const { req, res, next, sent } = createMocks({ amount: 50, baseStatus: 'changes_requested' });
+
+    await requirePinForExpenseEdit(req, res, next);
+
+    expect(next).toHaveBeenCalledOnce();
+    expect(sent).toEqual([]);
+    expect(requirePin).not.toHaveBeenCalled();
+  });
+
+  it('asks for the PIN for status changes and for edits to someone else\'s expense', async () => {
+    vi.mocked(storage.getExpense).mockResolvedValue(expense() as any);
+
+    const statusChange = createMocks({ status: 'APPROVED', baseStatus: 'PENDING' }, 'manager-1');
+    await requirePinForExpenseEdit(statusChange.req, statusChange.res, statusChange.next);
+    const otherUser = createMocks({ amount: 50 }, 'user-2');
+    await requirePinForExpenseEdit(otherUser.req, otherUser.res, otherUser.next);
+
+    expect(requirePin).toHaveBeenCalledTimes(2);
+    expect(statusChange.sent[0].status).toBe(403);
+    expect(otherUser.sent[0].status).toBe(403);
+  });
+
+  it('asks for the PIN once the expense is no longer waiting', async () => {
+    vi.mocked(storage.getExpense).mockResolvedValue(expense({ status: 'PAID' }) as any);
+    const { req, res, next } = createMocks({ note: 'late edit' });
+
+    await requirePinForExpenseEdit(req, res, next);
+
+    expect(requirePin).toHaveBeenCalledOnce();
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../storage', () => ({
+  storage: {
+    claimIdempotencyKey: vi.fn(),
+    renewIdempotencyKey: vi.fn().mockResolvedValue(undefined),
+    completeIdempotencyKey: vi.fn().mockResolvedValue(undefined),
+    releaseIdempotencyKey: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+import { idempotency } from '../../middleware/idempotency';
+import { storage } from '../../storage';
+import { requestFingerprint } from '../../lib/idempotency';
+
+function createMocks(overrides: {
+  headers?: Record<string, string>;
+  body?: unknown;
+  uid?: string | null;
+} = {}) {
+  const req: any = {
+    method: 'POST',
+    originalUrl: '/api/payouts',
+    headers: overrides.headers ?? {},
+    body: overrides.body ?? { amount: 100 },
+    user: overrides.uid === null ? undefined : { uid: overrides.uid ?? 'user-1' },
+  };
+
+  const listeners: Record<string, () => void> = {};
+  const sent: { status: number; body: unknown }[] = [];
+  const res: any = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      sent.push({ status: res.statusCode, body });
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      res.headers[name] = value;
+    },
+    on(event: string, listener: () => void) {
+      listeners[event] = listener;
+    },
+  };
+
+  const next = vi.fn();
+  return { req, res, next, sent, listeners };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const record = (overrides: Record<string, unknown> = {}) => ({
+  id: 'idem-1',
+  claimToken: 'claim-1',
+  fingerprint: requestFingerprint({ method: 'POST', path: '/api/payouts', body: { amount: 100 } }),
+  status: 'processing',
+  responseStatus: null,
+  responseBody: null,
+  ...overrides,
+});
+
+describe('idempotency middleware', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('passes requests without the header straight through', async () => {
+    const { req, res, next } = createMocks();
+    await idempotency(req, res, next);
+    expect(next).toHaveBeenCalledOnce();
+    expect(storage.claimIdempotencyKey).not.toHaveBeenCalled();
+  });
+
+  it('rejects a malformed key', async () => {
+    const { req, res, next, sent } = createMocks({ headers: { 'idempotency-key': 'has space' } });
+    await idempotency(req, res, next);
+    expect(next).not.toHaveBeenCalled();
+    expect(sent[0].status).toBe(400);
+  });
+
+  it('claims the key for the caller and stores the response before sending it', async () => {
+    vi.mocked(storage.claimIdempotencyKey).mockResolvedValue({ claimed: true, record: record() as any });
+    const { req, res, next, sent } = createMocks({ headers: { 'idempotency-key': 'k1' } });
+    await idempotency(req, res, next);
+
+    expect(storage.claimIdempotencyKey).toHaveBeenCalledWith(expect.objectContaining({
+      scope: 'user-1', key: 'k1', method: 'POST', path: '/api/payouts',
+    }));
+    expect(next).toHaveBeenCalledOnce();
+
+    res.status(201).json({ id: 'p1' });
+    expect(sent).toHaveLength(0);
+    await flush();
+    expect(storage.completeIdempotencyKey).toHaveBeenCalledWith('idem-1', 'claim-1', 201, { id: 'p1' });
+    expect(sent).toEqual([{ status: 201, body: { id: 'p1' } }]);
+  });
+
+  it('renews the lease while the handler runs and stops once it answers', async () => {
+    vi.useFakeTimers();
+    try {
+      vi.mocked(storage.claimIdempotencyKey).mockResolvedValue({ claimed: true, record: record() as any });
+      const { req, res, next } = createMocks({ headers: { 'idempotency-key': 'k1' } });
+      await idempotency(req, res, next);
+
+      vi.advanceTimersByTime(150_000);
+      expect(storage.renewIdempotencyKey).toHaveBeenCalledTimes(2);
+      expect(storage.renewIdempotencyKey).toHaveBeenCalledWith('idem-1', 'claim-1', expect.any(String));
+
+      res.status(201).json({ id: 'p1' });
+      vi.advanceTimersByTime(300_000);
+      expect(storage.renewIdempotencyKey).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('releases the key when the handler fails with a 5xx', async () => {
+    vi.mocked(storage.claimIdempotencyKey).mockResolvedValue({ claimed: true, record: record() as any });
+    const { req, res, next, sent } = createMocks({ headers: { 'idempotency-key': 'k1' } });
+    await idempotency(req, res, next);
+
+    res.status(500).json({ error: 'boom' });
+    await flush();
+    expect(storage.releaseIdempotencyKey).toHaveBeenCalledWith('idem-1', 'claim-1');
+    expect(storage.completeIdempotencyKey).not.toHaveBeenCalled();
+    expect(sent[0].status).toBe(500);
+  });
+
+  it('releases the key when the response finishes without JSON', async () => {
+    vi.mocked(storage.claimIdempotencyKey).mockResolvedValue({ claimed: true, record: record() as any });
+    const { req, res, next, listeners } = createMocks({ headers: { 'idempotency-key': 'k1' } });
+    await idempotency(req, res, next);
+
+    listeners.finish();
+    expect(storage.releaseIdempotencyKey).toHaveBeenCalledWith('idem-1', 'claim-1');
+  });
+
+  it('replays a completed response', async () => {
+    vi.mocked(storage.claimIdempotencyKey).mockResolvedValue({
+      claimed: false,
+      record: record({ status: 'completed', responseStatus: 201, responseBody: { id: 'p1' } }) as any,
+    });
+    const { req, res, next, sent } = createMocks({ headers: { 'idempotency-key': 'k1' } });
+    await idempotency(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.headers['Idempotent-Replayed']).toBe('true');
+    expect(sent).toEqual([{ status: 201, body: { id: 'p1' } }]);
+  });
+
+  it('answers 422 when the key was used for a different body', async () => {
+    vi.mocked(storage.claimIdempotencyKey).mockResolvedValue({
+      claimed: false,
+      record: record({ status: 'completed', responseStatus: 201, responseBody: { id: 'p1' } }) as any,
+    });
+    const { req, res, next, sent } = createMocks({ headers: { 'idempotency-key': 'k1' }, body: { amount: 999 } });
+    await idempotency(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(sent[0].status).toBe(422);
+  });
+
+  it('answers 409 while the first attempt is still running', async () => {
+    vi.mocked(storage.claimIdempotencyKey).mockResolvedValue({ claimed: false, record: record() as any });
+    const { req, res, next, sent } = createMocks({ headers: { 'idempotency-key': 'k1' } });
+    await idempotency(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(sent[0].status).toBe(409);
+  });
+
+  it('fails closed when the key store is unavailable', async () => {
+    vi.mocked(storage.claimIdempotencyKey).mockRejectedValue(new Error('connection refused'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { req, res, next, sent } = createMocks({ headers: { 'idempotency-key': 'k1' } });
+    await idempotency(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(sent[0].status).toBe(503);
+  });
+});
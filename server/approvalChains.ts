@@ -0,0 +1,276 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { requireAdmin } from "./middleware/auth";
+import {
+  planApprovalChain,
+  nextPendingStep,
+  isChainComplete,
+  type ApprovalEntityType,
+  type ApprovalPolicyDef,
+  type ApprovalStepState,
+  type ApprovalSubject,
+  type PlannedApprovalStep,
+} from "./lib/approval-policy";
+import type { ApprovalStep, Bill, Expense, Payout, PurchaseOrder, Vendor } from "@shared/schema";
+
+// Glue between the approval routes (expenses, bills, payouts, purchase
+// orders) and the policy engine in server/lib/approval-policy.ts: builds
+// the subject a policy is matched against, plans and stores the chain the
+// first time an entity needs approving, and advances it one step per
+// approval.
+
+export interface ApprovalContext {
+  companyId: string;
+  entityType: ApprovalEntityType;
+  entityId: string;
+  subject: ApprovalSubject;
+  // Who raised the entity; they may not approve it.
+  submittedBy: string | null;
+}
+
+export type ApprovalOutcome =
+  // No policy matched: the route applies its legacy approval rules.
+  | { kind: 'no_policy' }
+  | { kind: 'denied'; code: string; message: string; steps: ApprovalStep[] }
+  | { kind: 'pending'; message: string; steps: ApprovalStep[]; nextStep: ApprovalStep }
+  | { kind: 'complete'; steps: ApprovalStep[] };
+
+function isNewVendor(vendor: Vendor | undefined): boolean {
+  if (!vendor) return false;
+  return !vendor.lastPayment && parseFloat(vendor.totalPaid || '0') === 0;
+}
+
+async function vendorFacts(vendorId: string | null): Promise<{ vendorId: string | null; vendorIsNew: boolean }> {
+  if (!vendorId) return { vendorId: null, vendorIsNew: false };
+  const vendor = await storage.getVendor(vendorId);
+  return { vendorId: vendor ? vendor.id : null, vendorIsNew: isNewVendor(vendor) };
+}
+
+export async function expenseApprovalContext(expense: Expense, vendorId?: string | null): Promise<ApprovalContext | null> {
+  if (!expense.companyId) return null;
+  return {
+    companyId: expense.companyId,
+    entityType: 'expense',
+    entityId: expense.id,
+    subject: {
+      entityType: 'expense',
+      amount: parseFloat(expense.amount),
+      currency: expense.currency,
+      category: expense.category,
+      departmentId: expense.departmentId ?? null,
+      ...await vendorFacts(vendorId ?? expense.vendorId ?? null),
+    },
+    submittedBy: expense.userId || null,
+  };
+}
+
+export async function billApprovalContext(bill: Bill): Promise<ApprovalContext | null> {
+  if (!bill.companyId) return null;
+  // Bills carry the vendor by name only.
+  const vendors = await storage.getVendors(bill.companyId);
+  const vendor = vendors.find((v) => v.name.trim().toLowerCase() === (bill.provider || '').trim().toLowerCase());
+  return {
+    companyId: bill.companyId,
+    entityType: 'bill',
+    entityId: bill.id,
+    subject: {
+      entityType: 'bill',
+      amount: parseFloat(bill.amount),
+      currency: bill.currency,
+      category: bill.category,
+      departmentId: null,
+      vendorId: vendor?.id ?? null,
+      vendorIsNew: isNewVendor(vendor),
+    },
+    submittedBy: bill.userId || null,
+  };
+}
+
+export async function payoutApprovalContext(payout: Payout): Promise<ApprovalContext | null> {
+  if (!payout.companyId) return null;
+  // Category and department come from the expense or bill being paid out.
+  let category: string | null = null;
+  let departmentId: string | null = null;
+  if (payout.relatedEntityType === 'expense' && payout.relatedEntityId) {
+    const expense = await storage.getExpense(payout.relatedEntityId);
+    category = expense?.category ?? null;
+    departmentId = expense?.departmentId ?? null;
+  } else if (payout.relatedEntityType === 'bill' && payout.relatedEntityId) {
+    const bill = await storage.getBill(payout.relatedEntityId);
+    category = bill?.category ?? null;
+  }
+  return {
+    companyId: payout.companyId,
+    entityType: 'payout',
+    entityId: payout.id,
+    subject: {
+      entityType: 'payout',
+      amount: parseFloat(payout.amount),
+      currency: payout.currency,
+      category,
+      departmentId,
+      ...await vendorFacts(payout.recipientType === 'vendor' ? payout.recipientId : null),
+    },
+    submittedBy: payout.initiatedBy || null,
+  };
+}
+
+export async function purchaseOrderApprovalContext(po: PurchaseOrder): Promise<ApprovalContext> {
+  return {
+    companyId: po.companyId,
+    entityType: 'purchase_order',
+    entityId: po.id,
+    subject: {
+      entityType: 'purchase_order',
+      amount: parseFloat(po.totalAmount),
+      currency: po.currency,
+      category: null,
+      departmentId: null,
+      ...await vendorFacts(po.vendorId),
+    },
+    submittedBy: po.createdBy || null,
+  };
+}
+
+/** Plan (without storing) the chain the company's policies give a subject. */
+export async function planApprovalChainFor(
+  companyId: string,
+  subject: ApprovalSubject,
+  submittedBy: string | null,
+): Promise<PlannedApprovalStep[]> {
+  const policies = await storage.getApprovalPolicies(companyId);
+  if (policies.length === 0) return [];
+
+  const [departments, members] = await Promise.all([
+    storage.getDepartments(companyId),
+    storage.getCompanyMembers(companyId),
+  ]);
+  return planApprovalChain(policies as ApprovalPolicyDef[], subject, {
+    departmentHeads: Object.fromEntries(departments.map((d) => [d.id, d.headId ?? null])),
+    departmentNames: Object.fromEntries(departments.map((d) => [d.id, d.name])),
+    memberNames: Object.fromEntries(members.map((m) => [m.id, m.name || m.email])),
+    submitterMemberId: members.find((m) => submittedBy && m.userId === submittedBy)?.id ?? null,
+  });
+}
+
+export async function storeApprovalChain(
+  companyId: string,
+  entityType: ApprovalEntityType,
+  entityId: string,
+  planned: PlannedApprovalStep[],
+): Promise<ApprovalStep[]> {
+  return await storage.createApprovalChain(planned.map((step) => ({
+    ...step,
+    companyId,
+    entityType,
+    entityId,
+    status: 'pending',
+  })));
+}
+
+/**
+ * The entity's stored chain, planning and storing it from the company's
+ * current policies when there is none yet. Empty when no policy matches.
+ */
+export async function ensureApprovalChain(ctx: ApprovalContext): Promise<ApprovalStep[]> {
+  const existing = await storage.getApprovalSteps(ctx.entityType, ctx.entityId);
+  if (existing.length > 0) return existing;
+
+  const planned = await planApprovalChainFor(ctx.companyId, ctx.subject, ctx.submittedBy);
+  if (planned.length === 0) return [];
+  return await storeApprovalChain(ctx.companyId, ctx.entityType, ctx.entityId, planned);
+}
+
+function progressMessage(steps: ApprovalStep[], next: ApprovalStep): string {
+  const done = steps.filter((s) => s.status === 'approved').length;
+  return `${done} of ${steps.length} approvals recorded — waiting on ${next.label}`;
+}
+
+/** Record `actor`'s approval of the chain's current step. */
+export async function approveNextStep(
+  ctx: ApprovalContext,
+  actor: { userId: string; name: string },
+  comment?: string | null,
+): Promise<ApprovalOutcome> {
+  const chain = await ensureApprovalChain(ctx);
+  if (chain.length === 0) return { kind: 'no_policy' };
+
+  const member = await storage.getCompanyMember(ctx.companyId, actor.userId);
+  const { check, steps } = await storage.atomicApproveStep(
+    ctx.entityType,
+    ctx.entityId,
+    { userId: actor.userId, name: actor.name, memberId: member?.id ?? null, role: member?.role ?? 'VIEWER' },
+    ctx.submittedBy,
+    comment,
+  );
+  if (!check.ok) {
+    // Only the request that recorded the last step gets 'complete'; a
+    // concurrent or repeated approval of a finished chain is refused, so
+    // it cannot go on to apply the approval (or pay) a second time.
+    return { kind: 'denied', code: check.code, message: check.message, steps };
+  }
+
+  const next = nextPendingStep(steps as ApprovalStepState[]) as ApprovalStep | null;
+  if (next) return { kind: 'pending', message: progressMessage(steps, next), steps, nextStep: next };
+  return { kind: 'complete', steps };
+}
+
+/**
+ * The HTTP reply for an approval that did not finish the chain — 202
+ * while later steps are outstanding, 409 when the chain has no step left
+ * to approve, 403 when the caller may not act on the current step — or
+ * null when the route should carry on and apply the approval.
+ */
+export function approvalOutcomeResponse(outcome: ApprovalOutcome): { status: number; body: any } | null {
+  if (outcome.kind === 'denied') {
+    return { status: outcome.code === 'NO_PENDING_STEP' ? 409 : 403, body: { error: outcome.message, code: outcome.code, approvalChain: outcome.steps } };
+  }
+  if (outcome.kind === 'pending') {
+    return {
+      status: 202,
+      body: { status: 'pending_approval', message: outcome.message, approvalChain: outcome.steps, nextStep: outcome.nextStep },
+    };
+  }
+  return null;
+}
+
+/** True while a policy chain exists for the entity and is not fully approved. */
+export async function isAwaitingApproval(entityType: ApprovalEntityType, entityId: string): Promise<boolean> {
+  const steps = await storage.getApprovalSteps(entityType, entityId);
+  return steps.length > 0 && !isChainComplete(steps as ApprovalStepState[]);
+}
+
+/**
+ * isAwaitingApproval for an entity that may predate its chain: the chain
+ * is planned from the current policies first, so an entity created
+ * before it was stored cannot skip approval.
+ */
+export async function isAwaitingApprovalFor(ctx: ApprovalContext | null): Promise<boolean> {
+  if (!ctx) return false;
+  const steps = await ensureApprovalChain(ctx);
+  return steps.length > 0 && !isChainComplete(steps as ApprovalStepState[]);
+}
+
+/**
+ * Route guard for the approve endpoints. When a policy chain governs the
+ * entity, any company member may reach the handler — approveNextStep
+ * decides whether they are the current step's approver. Otherwise the
+ * legacy requireAdmin rule applies. `loadContext` returns null for
+ * entities that are missing or not in an approvable state, so no chain is
+ * planned for them.
+ */
+export function requireAdminOrApprover(
+  loadContext: (req: Request) => Promise<ApprovalContext | null>,
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    let governed = false;
+    try {
+      const ctx = await loadContext(req);
+      governed = !!ctx && (await ensureApprovalChain(ctx)).length > 0;
+    } catch {
+      return res.status(500).json({ error: "Failed to load approval policy" });
+    }
+    if (governed) return next();
+    return requireAdmin(req, res, next);
+  };
+}
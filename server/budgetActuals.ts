@@ -0,0 +1,144 @@
+import { storage, type BudgetActuals } from "./storage";
+import { notificationService } from "./services/notification-service";
+import {
+  budgetPeriod,
+  elapsedPeriods,
+  rolloverAmount,
+  utilizationPercent,
+  crossedThreshold,
+  type PeriodWindow,
+} from "./lib/budget-period";
+import { logger as baseLogger } from "./lib/logger";
+import type { Budget } from "@shared/schema";
+
+// Keeps budgets on their current period with live actuals: closes the
+// periods that have ended (recording them and carrying rollover), caches
+// the current period's spend in budgets.spent and sends each 50/80/100%
+// alert once. Called when budgets are read and from the scheduler tick.
+// Period arithmetic lives in server/lib/budget-period.ts.
+
+const logger = baseLogger.child({ module: "budget-actuals" });
+
+const ALERT_ROLES = ['OWNER', 'ADMIN'];
+const MAX_PERIODS_PER_REFRESH = 36;
+
+export interface LiveBudget extends Budget {
+  periodStart: string;
+  periodEnd: string;
+  effectiveLimit: number;
+  utilization: number;
+  actuals: BudgetActuals;
+}
+
+async function alertThreshold(budget: Budget, threshold: number, spent: number, effectiveLimit: number) {
+  if (!budget.companyId) return;
+  const members = await storage.getCompanyMembers(budget.companyId);
+  const recipients = members.filter((m) => m.userId && m.status === 'active' && ALERT_ROLES.includes(m.role));
+  for (const member of recipients) {
+    await notificationService.notifyBudgetWarning(member.userId!, {
+      category: budget.category,
+      spent,
+      limit: effectiveLimit,
+      percentage: threshold,
+      currency: budget.currency,
+    }).catch((err) => logger.warn({ err, budgetId: budget.id }, "Budget warning notification failed"));
+  }
+}
+
+export async function refreshBudget(budget: Budget, fiscalYearStart: string | null | undefined, now: Date = new Date()): Promise<LiveBudget> {
+  const current: PeriodWindow = budgetPeriod(budget.period, fiscalYearStart, now);
+  let live = budget;
+
+  if (!live.currentPeriodStart) {
+    live = await storage.startBudgetPeriod(live.id, current.start) ?? await storage.getBudget(live.id) ?? live;
+  }
+
+  // One period at a time from whatever is stored, so a concurrent refresh
+  // that moved the budget on is picked up rather than overwritten.
+  for (let i = 0; i < MAX_PERIODS_PER_REFRESH && live.currentPeriodStart && live.currentPeriodStart < current.start; i++) {
+    const [closed] = elapsedPeriods(live.period, fiscalYearStart, live.currentPeriodStart, now, 1);
+    if (!closed) break;
+    const limit = parseFloat(live.limit);
+    const rolledIn = parseFloat(live.rolloverAmount);
+    const { total } = await storage.getBudgetActuals(live, closed);
+    const rolledOut = rolloverAmount(limit, rolledIn, total, live.rollover);
+    const moved = await storage.closeBudgetPeriod({
+      budgetId: live.id,
+      companyId: live.companyId,
+      periodStart: live.currentPeriodStart,
+      periodEnd: closed.end,
+      budgetLimit: limit.toFixed(2),
+      rolledIn: rolledIn.toFixed(2),
+      spent: total.toFixed(2),
+      rolledOut: rolledOut.toFixed(2),
+      closedAt: now.toISOString(),
+    }, { currentPeriodStart: closed.end, rolloverAmount: rolledOut.toFixed(2) });
+    // Another caller closed it first; carry on from what they stored.
+    live = moved ?? await storage.getBudget(live.id) ?? live;
+  }
+
+  const actuals = await storage.getBudgetActuals(live, current);
+  const spent = actuals.total.toFixed(2);
+  if (spent !== parseFloat(live.spent).toFixed(2)) {
+    live = await storage.updateBudget(live.id, { spent }) ?? { ...live, spent };
+  }
+
+  const rolledIn = live.currentPeriodStart === current.start ? parseFloat(live.rolloverAmount) : 0;
+  const effectiveLimit = parseFloat(live.limit) + rolledIn;
+  const utilization = utilizationPercent(actuals.total, effectiveLimit);
+  const threshold = crossedThreshold(utilization, live.alertedThreshold);
+  if (threshold !== null && await storage.claimBudgetThreshold(live.id, current.start, threshold)) {
+    live = { ...live, alertedThreshold: threshold };
+    await alertThreshold(live, threshold, actuals.total, effectiveLimit);
+  }
+
+  return {
+    ...live,
+    periodStart: current.start,
+    periodEnd: current.end,
+    effectiveLimit,
+    utilization,
+    actuals,
+  };
+}
+
+async function refreshBudgets(budgetList: Budget[], now: Date, onError?: (budget: Budget, error: any) => void): Promise<LiveBudget[]> {
+  const fiscalStarts = new Map<string, string | null | undefined>();
+  const out: LiveBudget[] = [];
+  for (const budget of budgetList) {
+    try {
+      const companyId = budget.companyId ?? '';
+      if (!fiscalStarts.has(companyId)) {
+        fiscalStarts.set(companyId, companyId ? (await storage.getCompany(companyId))?.fiscalYearStart : null);
+      }
+      out.push(await refreshBudget(budget, fiscalStarts.get(companyId), now));
+    } catch (error: any) {
+      if (!onError) throw error;
+      onError(budget, error);
+    }
+  }
+  return out;
+}
+
+export async function refreshOneBudget(budget: Budget, now: Date = new Date()): Promise<LiveBudget> {
+  const [live] = await refreshBudgets([budget], now);
+  return live;
+}
+
+/** The company's budgets (all budgets without one) with live actuals. */
+export async function refreshCompanyBudgets(companyId: string | undefined, now: Date = new Date()): Promise<LiveBudget[]> {
+  return await refreshBudgets(await storage.getBudgets(companyId), now);
+}
+
+/** Scheduler entry point: closes periods and sends alerts for every budget. */
+export async function refreshAllBudgets(now: Date = new Date()) {
+  let budgetList: Budget[];
+  try {
+    budgetList = await storage.getBudgets();
+  } catch (error: any) {
+    logger.error({ err: error }, "Failed to fetch budgets");
+    return;
+  }
+  await refreshBudgets(budgetList, now, (budget, error) =>
+    logger.error({ err: error, budgetId: budget.id }, "Error refreshing budget"));
+}
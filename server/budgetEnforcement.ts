@@ -0,0 +1,202 @@
+import { storage } from "./storage";
+import { notificationService } from "./services/notification-service";
+import { refreshCompanyBudgets } from "./budgetActuals";
+import {
+  budgetBreach,
+  enforcementMode,
+  overrideCovers,
+  BUDGET_OVERRIDE_ROLES,
+  type BudgetBreach,
+  type BudgetSpend,
+} from "./lib/budget-enforcement";
+import { logger as baseLogger } from "./lib/logger";
+import type { BudgetOverride } from "@shared/schema";
+
+// Hard budget checks for the spend routes (expenses, card funding, bill
+// and vendor payments). Looks up the company's enforcement mode, measures
+// the spend against live budgets and, when it would exceed one, refuses
+// it, raises an override request or lets an approved override through.
+// The budget rules live in server/lib/budget-enforcement.ts.
+
+const logger = baseLogger.child({ module: "budget-enforcement" });
+
+export interface BudgetActor {
+  userId: string;
+  name: string;
+  role: string | null;
+}
+
+export interface BudgetSpendRequest extends BudgetSpend {
+  // The card, bill or vendor; null for a new expense.
+  entityId: string | null;
+  // An approved override request being used.
+  overrideId?: string | null;
+  // An owner or admin spending past the budget on their own authority.
+  overrideReason?: string | null;
+}
+
+export type BudgetCheck =
+  | { ok: true; override: BudgetOverride | null }
+  | { ok: false; status: number; body: any };
+
+async function budgetOverriders(companyId: string) {
+  const members = await storage.getCompanyMembers(companyId);
+  return members
+    .filter((m) => m.userId && m.status === 'active' && BUDGET_OVERRIDE_ROLES.includes(m.role))
+    .map((m) => ({ userId: m.userId!, name: m.name || m.email, role: m.role }));
+}
+
+function breachDetails(breach: BudgetBreach, spend: BudgetSpendRequest, overriders: Awaited<ReturnType<typeof budgetOverriders>>) {
+  return {
+    budget: {
+      id: breach.budget.id,
+      name: breach.budget.name,
+      category: breach.budget.category,
+      limit: breach.budget.effectiveLimit,
+      spent: breach.budget.spent,
+      remaining: breach.remaining,
+    },
+    amount: spend.amount,
+    currency: spend.currency,
+    shortfall: breach.shortfall,
+    canOverride: overriders.map(({ userId, name, role }) => ({ userId, name, role })),
+  };
+}
+
+async function requestOverride(
+  companyId: string,
+  breach: BudgetBreach,
+  spend: BudgetSpendRequest,
+  actor: BudgetActor,
+  overriders: Awaited<ReturnType<typeof budgetOverriders>>,
+): Promise<BudgetOverride> {
+  // Submitting the same spend again should not pile up requests.
+  const pending = (await storage.getBudgetOverrides(companyId, { status: 'pending', requestedBy: actor.userId }))
+    .find((o) => o.budgetId === breach.budget.id
+      && o.action === spend.action
+      && (o.entityId ?? null) === spend.entityId
+      && parseFloat(o.amount) >= spend.amount);
+  if (pending) return pending;
+
+  const request = await storage.createBudgetOverride({
+    companyId,
+    budgetId: breach.budget.id,
+    action: spend.action,
+    entityId: spend.entityId,
+    amount: spend.amount.toFixed(2),
+    currency: spend.currency,
+    remaining: breach.remaining.toFixed(2),
+    reason: null,
+    status: 'pending',
+    requestedBy: actor.userId,
+    requestedByName: actor.name,
+  });
+  const approverIds = overriders.map((o) => o.userId).filter((id) => id !== actor.userId);
+  notificationService.notifyBudgetOverrideRequested(approverIds, {
+    id: request.id,
+    requesterName: actor.name,
+    budgetName: breach.budget.name,
+    amount: spend.amount,
+    remaining: breach.remaining,
+    currency: spend.currency,
+  }).catch((err) => logger.warn({ err, budgetOverrideId: request.id }, "Budget override notification failed"));
+  return request;
+}
+
+/**
+ * Whether the spend may go ahead under the company's hard budgets. With
+ * enforcement off, or no budget for the spend, it always may.
+ */
+export async function checkBudget(
+  companyId: string | null | undefined,
+  spend: BudgetSpendRequest,
+  actor: BudgetActor,
+): Promise<BudgetCheck> {
+  if (!companyId || !(spend.amount > 0)) return { ok: true, override: null };
+  const company = await storage.getCompany(companyId);
+  const mode = enforcementMode(company?.budgetEnforcement);
+  if (mode === 'soft') return { ok: true, override: null };
+
+  const budgets = await refreshCompanyBudgets(companyId);
+  const breach = budgetBreach(budgets.map((b) => ({
+    id: b.id,
+    name: b.name,
+    category: b.category,
+    departmentId: b.departmentId,
+    cardholderId: b.cardholderId,
+    currency: b.currency,
+    effectiveLimit: b.effectiveLimit,
+    spent: b.actuals.total,
+  })), spend);
+  if (!breach) return { ok: true, override: null };
+
+  const overriders = await budgetOverriders(companyId);
+  const details = breachDetails(breach, spend, overriders);
+
+  const covers = (o: BudgetOverride) => o.companyId === companyId
+    && overrideCovers({ ...o, amount: parseFloat(o.amount) }, spend, spend.entityId, actor.userId);
+
+  if (spend.overrideId) {
+    const granted = await storage.getBudgetOverride(spend.overrideId);
+    const used = granted && covers(granted) ? await storage.useBudgetOverride(granted.id) : undefined;
+    if (used) return { ok: true, override: used };
+    return {
+      ok: false,
+      status: 409,
+      body: { error: "The budget override is not approved for this spend", code: 'BUDGET_OVERRIDE_INVALID', ...details },
+    };
+  }
+
+  // Submitting again after an override was approved picks it up without
+  // the client having to quote it.
+  const approved = (await storage.getBudgetOverrides(companyId, { status: 'approved', requestedBy: actor.userId }))
+    .find((o) => o.budgetId === breach.budget.id && covers(o));
+  const usedApproved = approved ? await storage.useBudgetOverride(approved.id) : undefined;
+  if (usedApproved) return { ok: true, override: usedApproved };
+
+  const reason = spend.overrideReason?.trim();
+  if (reason) {
+    if (!actor.role || !BUDGET_OVERRIDE_ROLES.includes(actor.role)) {
+      return { ok: false, status: 403, body: { error: "Only an owner or admin can override a budget", ...details } };
+    }
+    const now = new Date().toISOString();
+    const record = await storage.createBudgetOverride({
+      companyId,
+      budgetId: breach.budget.id,
+      action: spend.action,
+      entityId: spend.entityId,
+      amount: spend.amount.toFixed(2),
+      currency: spend.currency,
+      remaining: breach.remaining.toFixed(2),
+      reason,
+      status: 'used',
+      requestedBy: actor.userId,
+      requestedByName: actor.name,
+      decidedBy: actor.userId,
+      decidedByName: actor.name,
+      decidedAt: now,
+      usedAt: now,
+    });
+    return { ok: true, override: record };
+  }
+
+  if (mode === 'block') {
+    return {
+      ok: false,
+      status: 409,
+      body: { error: `This would exceed the ${breach.budget.name} budget`, code: 'BUDGET_EXCEEDED', ...details },
+    };
+  }
+
+  const request = await requestOverride(companyId, breach, spend, actor, overriders);
+  return {
+    ok: false,
+    status: 409,
+    body: {
+      error: `This would exceed the ${breach.budget.name} budget. An override has been requested from an owner or admin.`,
+      code: 'BUDGET_OVERRIDE_PENDING',
+      ...details,
+      overrideRequest: { id: request.id, status: request.status },
+    },
+  };
+}
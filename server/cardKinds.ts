@@ -0,0 +1,24 @@
+import { storage } from "./storage";
+import { paymentService } from "./paymentService";
+import { paymentLogger } from "./utils/paymentUtils";
+import { cancelAfterCapture } from "./lib/card-kinds";
+import type { VirtualCard } from "@shared/schema";
+
+// Single-use and merchant-locked cards: the rules are in
+// server/lib/card-kinds.ts and uses are counted by
+// storage.atomicCardAuthorization. This cancels a card once the capture
+// that used up its last use has settled.
+
+/**
+ * Cancels a use-limited card after a capture, if it has no uses left:
+ * locally always, and at Stripe when it was issued there. Refunds never
+ * cancel a card.
+ */
+export async function retireUsedUpCard(card: VirtualCard, transactionType: string | undefined): Promise<void> {
+  if (transactionType === 'refund' || !cancelAfterCapture(card)) return;
+  if (card.stripeCardId) {
+    await paymentService.updateCardStatus(card.stripeCardId, 'canceled');
+  }
+  await storage.updateCard(card.id, { status: 'cancelled' });
+  paymentLogger.info('used_up_card_cancelled', { cardId: card.id, kind: card.kind, useCount: card.useCount });
+}
@@ -0,0 +1,140 @@
+import { storage } from "./storage";
+import { paymentService } from "./paymentService";
+import { mapPaymentError, paymentLogger } from "./utils/paymentUtils";
+import { notificationService } from "./services/notification-service";
+import { cardExpenseDraft } from "./lib/card-programs";
+import type { CardTransaction, CompanyMember, VirtualCard } from "@shared/schema";
+
+// Card programs: issuing cards to company members under a spend policy,
+// and raising the member's draft expense for each card transaction. The
+// draft and submission rules live in server/lib/card-programs.ts; the
+// policy is enforced by the issuing_authorization.request webhook.
+
+export type CardProgramResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; status: number; body: any };
+
+export interface ProgramCardInput {
+  memberId: string;
+  name: string;
+  limit?: number;
+  currency: string;
+  color?: string;
+  spendPolicyId?: string | null;
+}
+
+/**
+ * The member's Stripe cardholder, created from their profile and KYC
+ * address the first time they're issued a card.
+ */
+async function memberCardholder(member: CompanyMember): Promise<CardProgramResult<{ cardholderId: string }>> {
+  if (member.stripeCardholderId) return { ok: true, cardholderId: member.stripeCardholderId };
+
+  const profile = member.userId ? await storage.getUserProfileByCognitoSub(member.userId) : undefined;
+  if (!profile?.email) {
+    return { ok: false, status: 400, body: { error: "The team member must sign up and complete their profile before they can be issued a card" } };
+  }
+  const kyc = await storage.getKycSubmission(profile.id);
+  const billingAddress = {
+    line1: (kyc as any)?.address || (profile as any)?.address || '',
+    city: (kyc as any)?.city || (profile as any)?.city || '',
+    state: (kyc as any)?.state || (profile as any)?.state || '',
+    postalCode: (kyc as any)?.postalCode || (profile as any)?.postalCode || '',
+    country: (kyc as any)?.country || (profile as any)?.country || 'US',
+  };
+  if (!billingAddress.line1 || !billingAddress.city || !billingAddress.postalCode) {
+    return {
+      ok: false,
+      status: 400,
+      body: {
+        error: "The team member needs a billing address on their profile before they can be issued a card",
+        requiredFields: ['address', 'city', 'state', 'postalCode', 'country'],
+      },
+    };
+  }
+
+  const cardholder = await paymentService.createCardholder({
+    name: profile.displayName || member.name || profile.email,
+    email: profile.email,
+    phoneNumber: (profile as any)?.phoneNumber,
+    billingAddress,
+    type: 'individual',
+  });
+  await storage.updateCompanyMember(member.id, { stripeCardholderId: cardholder.id });
+  return { ok: true, cardholderId: cardholder.id };
+}
+
+/** Issues a Stripe virtual card to one of the company's members. */
+export async function issueProgramCard(
+  companyId: string,
+  input: ProgramCardInput,
+): Promise<CardProgramResult<{ card: VirtualCard; member: CompanyMember }>> {
+  const member = await storage.getCompanyMemberById(input.memberId);
+  if (!member || member.companyId !== companyId) {
+    return { ok: false, status: 404, body: { error: "Team member not found" } };
+  }
+  if (member.status !== 'active') {
+    return { ok: false, status: 400, body: { error: "Cards can only be issued to active team members" } };
+  }
+  if (input.spendPolicyId && !await storage.getCardSpendPolicy(input.spendPolicyId, companyId)) {
+    return { ok: false, status: 404, body: { error: "Spend policy not found" } };
+  }
+
+  let stripeCard: Awaited<ReturnType<typeof paymentService.issueVirtualCard>>;
+  let cardholderId: string;
+  try {
+    const cardholder = await memberCardholder(member);
+    if (!cardholder.ok) return cardholder;
+    cardholderId = cardholder.cardholderId;
+    stripeCard = await paymentService.issueVirtualCard({
+      cardholderId,
+      currency: input.currency,
+      spendingLimit: input.limit || undefined,
+      spendingLimitInterval: 'monthly',
+    });
+  } catch (stripeError: any) {
+    const mapped = mapPaymentError(stripeError, 'stripe');
+    paymentLogger.error('program_card_issue_failed', { error: stripeError.message, memberId: member.id });
+    return { ok: false, status: mapped.statusCode, body: { error: mapped.userMessage, correlationId: mapped.correlationId } };
+  }
+
+  const card = await storage.createCard({
+    name: input.name,
+    last4: stripeCard.last4,
+    balance: 0,
+    limit: input.limit || 0,
+    type: 'Visa',
+    color: input.color || 'indigo',
+    currency: input.currency,
+    status: 'active',
+    stripeCardId: stripeCard.id,
+    stripeCardholderId: cardholderId,
+    companyId,
+    spendingLimitInterval: input.limit ? 'monthly' : null,
+    memberId: member.id,
+    spendPolicyId: input.spendPolicyId ?? null,
+  } as any);
+  paymentLogger.info('program_card_issued', { cardId: card.id, memberId: member.id, cardholderId });
+  return { ok: true, card, member };
+}
+
+/**
+ * Raises the cardholder's draft expense for a transaction on a program
+ * card. Cards without a member are left alone; a redelivered transaction
+ * doesn't raise a second draft.
+ */
+export async function raiseCardExpense(card: VirtualCard, cardTransaction: CardTransaction): Promise<void> {
+  if (!card.memberId) return;
+  const member = await storage.getCompanyMemberById(card.memberId);
+  if (!member) return;
+
+  const expense = await storage.createCardExpense(cardExpenseDraft(card, member, cardTransaction));
+  if (!expense || !member.userId) return;
+  notificationService.notifyCardReceiptRequired(member.userId, {
+    id: expense.id,
+    cardLast4: card.last4,
+    amount: parseFloat(expense.amount),
+    merchant: expense.merchant,
+    currency: expense.currency,
+  }).catch(console.error);
+}
@@ -0,0 +1,222 @@
+import { storage } from "./storage";
+import { getPaymentProvider } from "./paymentService";
+import { paystackClient } from "./paystackClient";
+import { isOwnPayrollRecord, payYears, summarisePayYear, type EmployeeIdentity, type PaidItem, type PayYear } from "./lib/employee-pay";
+import { maskAccountNumber } from "./lib/payslip";
+import { renderTaxCertificatePdf, taxCertificateFileName } from "./lib/tax-certificate";
+import { logger as baseLogger } from "./lib/logger";
+import type { Company, PayoutDestination, PayrollRun, PayrollRunItem } from "@shared/schema";
+import type { PayrollActor, PayrollRunResult } from "./payrollRuns";
+
+// Employee self-service: an employee's own payslips, year-to-date pay
+// and annual tax certificate, and the bank account their salary goes to.
+// Bank details an employee enters wait for an admin to verify them
+// (server/lib/payroll-run.ts keeps runs from paying into them until then).
+
+const logger = baseLogger.child({ module: "employee-pay" });
+
+const money = (value: string | number | null | undefined) => parseFloat(String(value ?? 0)) || 0;
+
+export interface EmployeeBankDetails {
+  country: string;
+  currency: string;
+  bankName: string;
+  bankCode?: string;
+  accountNumber: string;
+  accountName: string;
+  routingNumber?: string;
+}
+
+function paidItem(run: PayrollRun, item: PayrollRunItem): PaidItem {
+  return {
+    runName: run.name,
+    payDate: run.payDate,
+    currency: item.currency,
+    salary: money(item.salary),
+    bonus: money(item.bonus),
+    deductions: money(item.deductions),
+    deductionBreakdown: item.deductionBreakdown,
+    statutoryLines: item.statutoryLines,
+    employerContributions: money(item.employerContributions),
+    netPay: money(item.netPay),
+    status: item.status,
+  };
+}
+
+/** What the employee sees about a bank account: never the full number. */
+export function bankAccountView(d: PayoutDestination) {
+  return {
+    id: d.id,
+    bankName: d.bankName,
+    accountName: d.accountName,
+    accountNumber: maskAccountNumber(d.accountNumber),
+    currency: d.currency,
+    country: d.country,
+    isDefault: !!d.isDefault,
+    reviewStatus: d.reviewStatus,
+    reviewNote: d.reviewNote,
+    createdAt: d.createdAt,
+  };
+}
+
+export async function employeePayOverview(companyId: string, identity: EmployeeIdentity, asOf: string) {
+  const [rows, destinations] = await Promise.all([
+    storage.getEmployeePayrollRunItems(companyId, identity),
+    storage.getPayoutDestinations(identity.userId),
+  ]);
+  const items = rows.map(({ run, item }) => paidItem(run, item));
+  const year = Number(asOf.slice(0, 4));
+  const latest = rows[0]?.item;
+
+  return {
+    employee: latest ? { id: latest.employeeId, name: latest.employeeName, department: latest.department } : null,
+    yearToDate: summarisePayYear(items, year, asOf),
+    years: payYears(items),
+    payslips: rows.map(({ run, item }) => ({
+      id: item.id,
+      runId: run.id,
+      runName: run.name,
+      periodStart: run.periodStart,
+      periodEnd: run.periodEnd,
+      payDate: run.payDate,
+      currency: item.currency,
+      gross: Math.round((money(item.salary) + money(item.bonus)) * 100) / 100,
+      deductions: money(item.deductions),
+      netPay: money(item.netPay),
+      status: item.status,
+    })),
+    bankAccounts: destinations.map(bankAccountView),
+  };
+}
+
+/** The employee's own payslip, or undefined when the item isn't theirs. */
+export async function employeePayslipItem(companyId: string, identity: EmployeeIdentity, itemId: string) {
+  const rows = await storage.getEmployeePayrollRunItems(companyId, identity);
+  return rows.find(({ item }) => item.id === itemId);
+}
+
+export async function taxCertificateFor(
+  company: Company | undefined,
+  companyId: string,
+  identity: EmployeeIdentity,
+  year: number,
+): Promise<{ fileName: string; pdf: Buffer; summary: PayYear } | null> {
+  const rows = await storage.getEmployeePayrollRunItems(companyId, identity);
+  const summary = summarisePayYear(rows.map(({ run, item }) => paidItem(run, item)), year);
+  if (summary.payslips === 0) return null;
+
+  const latest = rows.find(({ run }) => run.payDate.startsWith(String(year)))!.item;
+  const pdf = renderTaxCertificatePdf({
+    company: {
+      name: company?.name || 'Financiar',
+      tagline: company?.tagline,
+      address: [company?.address, company?.city, company?.country].filter(Boolean).join(', ') || null,
+      email: company?.email,
+      primaryColor: company?.primaryColor,
+    },
+    employee: { id: latest.employeeId, name: latest.employeeName, department: latest.department },
+    country: latest.country || company?.country || 'US',
+    summary,
+  });
+  return { fileName: taxCertificateFileName(year, latest.employeeName), pdf, summary };
+}
+
+/**
+ * Saves bank details the employee entered, pending an admin's check. A
+ * submission still waiting for review is replaced rather than queued.
+ */
+export async function submitEmployeeBankDetails(identity: EmployeeIdentity, details: EmployeeBankDetails): Promise<PayoutDestination> {
+  const existing = await storage.getPayoutDestinations(identity.userId);
+  for (const d of existing.filter((d) => d.reviewStatus === 'pending')) {
+    await storage.deletePayoutDestination(d.id);
+  }
+
+  const provider = getPaymentProvider(details.country);
+  // The name the bank holds, for the admin to compare; best effort.
+  let resolvedAccountName: string | null = null;
+  if (provider === 'paystack' && details.bankCode) {
+    try {
+      const resolved = await paystackClient.resolveAccountNumber(details.accountNumber, details.bankCode);
+      resolvedAccountName = resolved?.data?.account_name ?? null;
+    } catch (err: any) {
+      logger.warn({ err: err?.message }, 'Could not resolve employee bank account');
+    }
+  }
+
+  return storage.createPayoutDestination({
+    userId: identity.userId,
+    type: 'bank_account',
+    provider,
+    bankName: details.bankName,
+    bankCode: details.bankCode,
+    accountNumber: details.accountNumber,
+    accountName: details.accountName,
+    routingNumber: details.routingNumber,
+    currency: details.currency,
+    country: details.country,
+    isDefault: false,
+    isVerified: false,
+    reviewStatus: 'pending',
+    metadata: { submittedByEmployee: true, resolvedAccountName },
+  });
+}
+
+/**
+ * An admin's decision on submitted bank details. Verified details become
+ * the employee's default and are linked to their pending payroll entries
+ * that no open run holds yet; rejected ones are kept with the reason.
+ */
+export async function reviewEmployeeBankDetails(
+  companyId: string,
+  destination: PayoutDestination,
+  decision: 'verify' | 'reject',
+  actor: PayrollActor,
+  note?: string,
+): Promise<PayrollRunResult<{ destination: PayoutDestination; linkedEntries: number }>> {
+  if (destination.reviewStatus !== 'pending') {
+    return { ok: false, status: 409, body: { error: "These bank details are not awaiting review" } };
+  }
+  const reviewed = {
+    reviewedBy: actor.userId,
+    reviewedByName: actor.name,
+    reviewedAt: new Date().toISOString(),
+    reviewNote: note ?? null,
+  };
+
+  if (decision === 'reject') {
+    const updated = await storage.updatePayoutDestination(destination.id, { ...reviewed, reviewStatus: 'rejected' });
+    return { ok: true, destination: updated!, linkedEntries: 0 };
+  }
+
+  const userId = destination.userId!;
+  for (const other of await storage.getPayoutDestinations(userId)) {
+    if (other.id !== destination.id && other.isDefault) {
+      await storage.updatePayoutDestination(other.id, { isDefault: false });
+    }
+  }
+  const updated = await storage.updatePayoutDestination(destination.id, {
+    ...reviewed,
+    reviewStatus: 'verified',
+    isVerified: true,
+    isDefault: true,
+  });
+
+  const members = await storage.getCompanyMembers(companyId);
+  const identity = { userId, email: members.find((m) => m.userId === userId)?.email };
+  const [entries, held] = await Promise.all([
+    storage.getPayroll(companyId),
+    storage.getOpenPayrollRunEntryIds(companyId),
+  ]);
+  let linkedEntries = 0;
+  for (const entry of entries) {
+    if (entry.status !== 'pending' || held.has(entry.id) || !isOwnPayrollRecord(entry, identity)) continue;
+    await storage.updatePayrollEntryInCompany(entry.id, companyId, {
+      payoutDestinationId: destination.id,
+      bankName: destination.bankName,
+      accountNumber: destination.accountNumber,
+      accountName: destination.accountName,
+    });
+    linkedEntries++;
+  }
+  return { ok: true, destination: updated!, linkedEntries };
+}
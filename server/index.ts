@@ -10,6 +10,8 @@ import { csrfProtection } from "./middleware/csrf";
 import { startRecurringScheduler } from "./recurringScheduler";
 import { logger, requestLogger } from "./lib/logger";
 import { startRetentionScheduler } from "./lib/data-retention";
+import { startReconciliationScheduler } from "./reconciliationScheduler";
+import { startWebhookDeliveryScheduler } from "./outboundWebhooks";
 
 // ==================== PROCESS-LEVEL ERROR HANDLERS ====================
 
@@ -141,7 +143,8 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'x-transaction-pin', 'X-Company-Id'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'x-transaction-pin', 'X-Company-Id', 'Idempotency-Key'],
+  exposedHeaders: ['Idempotent-Replayed'],
 }));
 
 // CSRF protection — require X-Requested-With on state-changing API requests
@@ -201,6 +204,8 @@ app.use(requestLogger);
       log(`serving on port ${port}`);
       startRecurringScheduler(3600000);
       startRetentionScheduler();
+      startReconciliationScheduler();
+      startWebhookDeliveryScheduler();
     },
   );
 })();
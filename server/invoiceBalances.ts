@@ -0,0 +1,140 @@
+import { storage } from "./storage";
+import { getStripeClient } from "./stripeClient";
+import { paystackClient } from "./paystackClient";
+import { emitWebhookEvent } from "./outboundWebhooks";
+import { toMinor } from "./lib/reconciliation";
+import {
+  invoiceBalance,
+  resolveInvoiceStatus,
+  type InvoiceBalance,
+} from "./lib/invoice-balance";
+import type { CreditNote, Invoice, InvoicePayment } from "@shared/schema";
+
+// Glue between invoices, their recorded payments and credit notes: the
+// balance the routes and the public payment page show, the status it
+// implies, and refunds through the provider that took the payment.
+
+export interface InvoiceLedger {
+  balance: InvoiceBalance;
+  payments: InvoicePayment[];
+  creditNotes: CreditNote[];
+}
+
+function ledgerFor(invoice: Pick<Invoice, 'amount' | 'status'>, payments: InvoicePayment[], creditNotes: CreditNote[]): InvoiceLedger {
+  const balance = invoiceBalance(
+    { amount: parseFloat(invoice.amount as string), status: invoice.status as string },
+    payments.map((p) => ({ amount: parseFloat(p.amount), refundedAmount: parseFloat(p.refundedAmount) })),
+    creditNotes.map((n) => ({ kind: n.kind, amount: parseFloat(n.amount), status: n.status })),
+  );
+  return { balance, payments, creditNotes };
+}
+
+export async function loadInvoiceLedger(invoice: Pick<Invoice, 'id' | 'amount' | 'status'>): Promise<InvoiceLedger> {
+  const [payments, creditNotes] = await Promise.all([
+    storage.getInvoicePayments([invoice.id]),
+    storage.getCreditNotes([invoice.id]),
+  ]);
+  return ledgerFor(invoice, payments, creditNotes);
+}
+
+/** Ledgers for a list of invoices in two queries, keyed by invoice id. */
+export async function loadInvoiceLedgers(invoices: Invoice[]): Promise<Map<string, InvoiceLedger>> {
+  const ids = invoices.map((i) => i.id);
+  const [payments, creditNotes] = await Promise.all([
+    storage.getInvoicePayments(ids),
+    storage.getCreditNotes(ids),
+  ]);
+  return new Map(invoices.map((invoice) => [
+    invoice.id,
+    ledgerFor(
+      invoice,
+      payments.filter((p) => p.invoiceId === invoice.id),
+      creditNotes.filter((n) => n.invoiceId === invoice.id),
+    ),
+  ]));
+}
+
+/** Store the status the invoice's balance implies; returns it with the ledger. */
+export async function refreshInvoiceStatus(invoice: Invoice): Promise<InvoiceLedger & { status: string }> {
+  const ledger = await loadInvoiceLedger(invoice);
+  const status = resolveInvoiceStatus(ledger.balance, invoice.status, invoice.dueDate);
+  if (status !== invoice.status) {
+    await storage.updateInvoice(invoice.id, { status });
+    if (status === 'paid') {
+      emitWebhookEvent(invoice.companyId, 'invoice.paid', {
+        ...invoice,
+        status,
+        amountPaid: ledger.balance.netPaid,
+      }).catch(console.error);
+    }
+  }
+  return { ...ledger, status };
+}
+
+/**
+ * Takes a refund back off the company wallet the Paystack payment was
+ * credited to. Keyed by the credit note, so it is only taken once. Stripe
+ * refunds are taken off when charge.refunded arrives.
+ */
+async function debitRefundedPayment(note: CreditNote, payment: InvoicePayment): Promise<void> {
+  if (!payment.companyId) return;
+  const currency = payment.currency.toUpperCase();
+  const wallet = (await storage.getWallets(payment.companyId)).find((w) => w.currency?.toUpperCase() === currency);
+  if (!wallet) return;
+  await storage.debitWalletIdempotent(
+    wallet.id,
+    parseFloat(note.amount),
+    'refund',
+    `Refund for credit note ${note.creditNoteNumber}`,
+    `refund_${note.id}`,
+    { creditNoteId: note.id, invoiceId: note.invoiceId, provider: payment.method, paymentReference: payment.providerReference },
+  );
+}
+
+/**
+ * Send a refund credit note's money back through its payment. Stripe and
+ * Paystack payments are refunded through the provider; anything else was
+ * paid outside Spendly and is recorded as refunded the same way. A
+ * provider error marks the note refund_failed and releases the amount.
+ */
+export async function issueRefund(note: CreditNote, payment: InvoicePayment): Promise<CreditNote> {
+  let settled: CreditNote | undefined;
+  try {
+    if (payment.method === 'stripe' && payment.providerReference) {
+      const refund = await getStripeClient().refunds.create({
+        payment_intent: payment.providerReference,
+        amount: toMinor(parseFloat(note.amount), payment.currency),
+        reason: 'requested_by_customer',
+        metadata: { creditNoteId: note.id, invoiceId: note.invoiceId, creditNoteNumber: note.creditNoteNumber },
+      });
+      if (refund.status === 'failed' || refund.status === 'canceled') {
+        throw new Error(refund.failure_reason || `Stripe refund ${refund.status}`);
+      }
+      settled = await storage.settleCreditNoteRefund(note.id, { status: 'refunded', refundReference: refund.id });
+    } else if (payment.method === 'paystack' && payment.providerReference) {
+      const result: any = await paystackClient.createRefund(
+        payment.providerReference,
+        parseFloat(note.amount),
+        `Credit note ${note.creditNoteNumber}`,
+        note.reason,
+      );
+      const reference = result?.data?.id != null ? String(result.data.id) : null;
+      settled = await storage.settleCreditNoteRefund(note.id, { status: 'refunded', refundReference: reference });
+    } else {
+      settled = await storage.settleCreditNoteRefund(note.id, { status: 'refunded', refundReference: null });
+    }
+  } catch (error: any) {
+    settled = await storage.settleCreditNoteRefund(note.id, {
+      status: 'refund_failed',
+      refundError: String(error?.message || error).slice(0, 500),
+    });
+  }
+  // The money has gone back either way, so a failure here is logged
+  // rather than turned into refund_failed.
+  if (settled?.status === 'refunded' && payment.method === 'paystack' && payment.providerReference) {
+    await debitRefundedPayment(note, payment).catch((error) => {
+      console.error('Failed to debit the company wallet for a Paystack refund', { creditNoteId: note.id, error: String(error?.message || error) });
+    });
+  }
+  return settled ?? note;
+}
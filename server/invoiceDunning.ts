@@ -0,0 +1,104 @@
+import { storage } from "./storage";
+import { notificationService } from "./services/notification-service";
+import { refreshInvoiceStatus } from "./invoiceBalances";
+import { nextDunningStep, lateFeeAmount, reminderMessage } from "./lib/dunning";
+import { logger as baseLogger } from "./lib/logger";
+import type { DunningSchedule, Invoice } from "@shared/schema";
+
+// Runs each company's dunning schedule from the recurring scheduler tick:
+// moves open invoices past their due date to overdue, and sends the
+// reminder (and late fee) for the step each one has reached. An invoice
+// that is paid, credited or cancelled drops out, so reminders stop on
+// their own. Step selection lives in server/lib/dunning.ts.
+
+const logger = baseLogger.child({ module: "invoice-dunning" });
+
+const CLOSED_STATUSES = ['draft', 'paid', 'credited', 'cancelled'];
+
+async function remindInvoice(invoice: Invoice, schedule: DunningSchedule, amountDue: number, now: Date) {
+  const reminders = await storage.getInvoiceReminders(invoice.id);
+  const step = nextDunningStep(invoice.dueDate, schedule.steps, reminders.map((r) => r.offsetDays), now);
+  if (!step) return;
+
+  if (!invoice.clientEmail) {
+    logger.warn({ invoiceId: invoice.id }, "Invoice has no client email, skipping reminder");
+    return;
+  }
+
+  const claimed = await storage.claimInvoiceReminder({
+    invoiceId: invoice.id,
+    companyId: invoice.companyId,
+    offsetDays: step.offsetDays,
+    sentTo: invoice.clientEmail,
+    amountDue: amountDue.toFixed(2),
+  });
+  if (!claimed) return;
+
+  let due = amountDue;
+  let current = invoice;
+  const fee = lateFeeAmount(step.lateFee, amountDue);
+  if (fee > 0) {
+    current = await storage.addInvoiceLateFee(invoice.id, fee, `Late fee (${step.offsetDays} days overdue)`) ?? invoice;
+    due = Math.round((amountDue + fee) * 100) / 100;
+  }
+
+  const settings = await storage.getOrganizationSettings();
+  const appUrl = process.env.APP_URL || 'https://thefinanciar.com';
+  const result = await notificationService.sendInvoiceEmail({
+    email: invoice.clientEmail,
+    clientName: invoice.client,
+    senderName: (settings as any)?.companyName || settings?.name || 'Financiar',
+    invoiceNumber: invoice.invoiceNumber,
+    amount: due,
+    currency: invoice.currency || 'USD',
+    dueDate: invoice.dueDate,
+    items: (current.items || []).map((item) => ({
+      description: item.description || 'Service',
+      quantity: item.quantity || 1,
+      price: Number(item.rate ?? item.price ?? (item.amount != null ? item.amount / (item.quantity || 1) : 0)),
+    })),
+    paymentLink: `${appUrl}/pay/${invoice.id}`,
+    reminder: { message: reminderMessage(step.offsetDays, invoice.invoiceNumber, invoice.dueDate), lateFee: fee || undefined },
+  });
+
+  await storage.updateInvoiceReminder(claimed.id, {
+    status: result.success ? 'sent' : 'failed',
+    error: result.error ?? null,
+    sentAt: result.success ? new Date().toISOString() : null,
+    amountDue: due.toFixed(2),
+    lateFee: fee.toFixed(2),
+  });
+  logger.info({ invoiceId: invoice.id, offsetDays: step.offsetDays, lateFee: fee, sent: result.success }, "Invoice reminder processed");
+}
+
+export async function processInvoiceDunning(now: Date = new Date()) {
+  let schedules: DunningSchedule[];
+  try {
+    schedules = await storage.getEnabledDunningSchedules();
+  } catch (error: any) {
+    logger.error({ err: error }, "Failed to fetch dunning schedules");
+    return;
+  }
+
+  for (const schedule of schedules) {
+    try {
+      const open = (await storage.getInvoices(schedule.companyId))
+        .filter((i) => !CLOSED_STATUSES.includes(i.status));
+
+      for (const invoice of open) {
+        try {
+          // Keeps statuses current: overdue once past due, paid or
+          // credited when a payment or credit note closed it.
+          const { status, balance } = await refreshInvoiceStatus(invoice);
+          const amountDue = balance.amountDue;
+          if (CLOSED_STATUSES.includes(status) || amountDue <= 0) continue;
+          await remindInvoice({ ...invoice, status }, schedule, amountDue, now);
+        } catch (error: any) {
+          logger.error({ err: error, invoiceId: invoice.id }, "Error processing invoice reminder");
+        }
+      }
+    } catch (error: any) {
+      logger.error({ err: error, companyId: schedule.companyId }, "Error running dunning schedule");
+    }
+  }
+}
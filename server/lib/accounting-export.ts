@@ -0,0 +1,459 @@
+// Accounting export — journal rules and file formats.
+//
+// Spend and revenue events become balanced journal entries that an
+// accounting system can import: QuickBooks Desktop IIF, a Xero manual
+// journal CSV, or a generic journal CSV. The books are kept on an
+// accrual basis, so a bill produces two events — the bill itself
+// (expense against accounts payable) and, once paid, its payment
+// (accounts payable against bank):
+//
+//   expense          Dr expense account   Cr reimbursements payable
+//                                           (Cr bank for card spend)
+//   expense_payment  Dr reimbursements    Cr bank
+//   bill             Dr expense account   Cr accounts payable
+//   bill_payment     Dr accounts payable  Cr bank
+//   invoice          Dr receivables       Cr sales, Cr sales tax
+//   payroll          Dr wages (gross)     Cr bank (net), Cr payroll liabilities
+//
+// The expense account comes from the company's GL mapping, most
+// specific first: vendor, then category, then department, then the
+// uncategorised-expense control account. Each event is exported once;
+// the routes record (sourceType, sourceId) in accounting_export_items.
+
+export type AccountingSourceType =
+  | 'expense'
+  | 'expense_payment'
+  | 'bill'
+  | 'bill_payment'
+  | 'invoice'
+  | 'payroll';
+
+export const ACCOUNTING_SOURCE_TYPES: AccountingSourceType[] = [
+  'expense', 'expense_payment', 'bill', 'bill_payment', 'invoice', 'payroll',
+];
+
+export type AccountingExportFormat = 'quickbooks_iif' | 'xero_csv' | 'journal_csv';
+
+export const ACCOUNTING_EXPORT_FORMATS: AccountingExportFormat[] = ['quickbooks_iif', 'xero_csv', 'journal_csv'];
+
+export type ControlAccountKey =
+  | 'bank'
+  | 'accounts_payable'
+  | 'accounts_receivable'
+  | 'reimbursements_payable'
+  | 'sales'
+  | 'sales_tax'
+  | 'wages'
+  | 'payroll_liabilities'
+  | 'uncategorised_expense';
+
+// Used when a company has not mapped a control account. The codes
+// follow the common small-business chart of accounts numbering.
+export const DEFAULT_CONTROL_ACCOUNTS: Record<ControlAccountKey, { code: string; name: string }> = {
+  bank: { code: '1000', name: 'Bank' },
+  accounts_receivable: { code: '1200', name: 'Accounts Receivable' },
+  accounts_payable: { code: '2000', name: 'Accounts Payable' },
+  payroll_liabilities: { code: '2100', name: 'Payroll Liabilities' },
+  reimbursements_payable: { code: '2150', name: 'Employee Reimbursements Payable' },
+  sales_tax: { code: '2200', name: 'Sales Tax Payable' },
+  sales: { code: '4000', name: 'Sales' },
+  wages: { code: '6100', name: 'Wages & Salaries' },
+  uncategorised_expense: { code: '6999', name: 'Uncategorised Expense' },
+};
+
+export interface GlMappingRef {
+  sourceType: string; // 'category' | 'vendor' | 'department' | 'control'
+  sourceKey: string;
+  accountCode: string;
+  accountName: string | null;
+  taxCode: string | null;
+}
+
+export interface GlAccount {
+  code: string;
+  name: string;
+  taxCode: string | null;
+}
+
+export interface ExportLine {
+  accountCode: string;
+  accountName: string;
+  // Signed: positive = debit, negative = credit.
+  amount: number;
+  taxCode: string | null;
+}
+
+export interface ExportEntry {
+  sourceType: AccountingSourceType;
+  sourceId: string;
+  date: string; // YYYY-MM-DD
+  reference: string;
+  narration: string;
+  counterparty: string | null;
+  department: string | null;
+  currency: string;
+  lines: ExportLine[];
+}
+
+export interface ExpenseSource {
+  id: string;
+  date: string;
+  merchant: string;
+  amount: number;
+  currency: string;
+  category: string | null;
+  status: string;
+  expenseType: string;
+  vendorId: string | null;
+  departmentId: string | null;
+  department: string | null;
+  // When the reimbursement left the company; null until it has.
+  paidDate: string | null;
+}
+
+export interface BillSource {
+  id: string;
+  name: string;
+  provider: string;
+  vendorId: string | null;
+  category: string | null;
+  amount: number;
+  currency: string;
+  billDate: string;
+  status: string;
+  paidDate: string | null;
+  paidAmount: number | null;
+}
+
+export interface InvoiceSource {
+  id: string;
+  invoiceNumber: string;
+  client: string;
+  amount: number;
+  taxAmount: number;
+  currency: string;
+  issuedDate: string;
+  status: string;
+}
+
+export interface PayrollSource {
+  id: string;
+  employeeName: string;
+  department: string | null;
+  gross: number;
+  netPay: number;
+  currency: string;
+  payDate: string;
+  status: string;
+}
+
+export interface AccountingSources {
+  expenses: ExpenseSource[];
+  bills: BillSource[];
+  invoices: InvoiceSource[];
+  payroll: PayrollSource[];
+}
+
+export interface BuildOptions {
+  startDate: string; // inclusive, YYYY-MM-DD
+  endDate: string; // inclusive, YYYY-MM-DD
+  sourceTypes: AccountingSourceType[];
+  currency?: string | null;
+  // `${sourceType}:${sourceId}` keys already exported.
+  alreadyExported?: Set<string>;
+}
+
+const EXPENSE_STATUSES = ['APPROVED', 'PAID'];
+const BILL_STATUSES = ['unpaid', 'approved', 'overdue', 'paid'];
+const INVOICE_STATUSES = ['sent', 'pending', 'partially_paid', 'paid', 'overdue'];
+const PAYROLL_STATUSES = ['paid', 'completed'];
+
+export function exportKey(sourceType: string, sourceId: string): string {
+  return `${sourceType}:${sourceId}`;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function day(value: string | null | undefined): string {
+  return (value ?? '').slice(0, 10);
+}
+
+function findMapping(mappings: GlMappingRef[], sourceType: string, sourceKey: string | null | undefined): GlMappingRef | undefined {
+  if (!sourceKey) return undefined;
+  const key = sourceType === 'category' ? sourceKey.trim().toLowerCase() : sourceKey;
+  return mappings.find((m) => m.sourceType === sourceType && m.sourceKey === key);
+}
+
+export function controlAccount(mappings: GlMappingRef[], key: ControlAccountKey): GlAccount {
+  const mapped = findMapping(mappings, 'control', key);
+  const fallback = DEFAULT_CONTROL_ACCOUNTS[key];
+  return {
+    code: mapped?.accountCode ?? fallback.code,
+    name: mapped?.accountName || (mapped ? mapped.accountCode : fallback.name),
+    taxCode: mapped?.taxCode ?? null,
+  };
+}
+
+/**
+ * The expense account for a spend line: vendor, then category, then
+ * department mapping, then the uncategorised-expense control account.
+ * The tax code is taken from the most specific mapping that has one.
+ */
+export function resolveExpenseAccount(
+  mappings: GlMappingRef[],
+  facts: { vendorId?: string | null; category?: string | null; departmentId?: string | null },
+): GlAccount {
+  const candidates = [
+    findMapping(mappings, 'vendor', facts.vendorId),
+    findMapping(mappings, 'category', facts.category),
+    findMapping(mappings, 'department', facts.departmentId),
+  ].filter((m): m is GlMappingRef => !!m);
+
+  const taxCode = candidates.find((m) => m.taxCode)?.taxCode ?? null;
+  const chosen = candidates[0];
+  if (!chosen) return { ...controlAccount(mappings, 'uncategorised_expense'), taxCode };
+  return { code: chosen.accountCode, name: chosen.accountName || chosen.accountCode, taxCode };
+}
+
+function line(account: GlAccount, amount: number, taxCode: string | null = null): ExportLine {
+  return { accountCode: account.code, accountName: account.name, amount: round2(amount), taxCode };
+}
+
+/**
+ * Journal entries for every eligible event in the window, oldest first.
+ * Events in `alreadyExported`, outside the window, in another currency
+ * or with a zero amount are left out.
+ */
+export function buildJournalEntries(
+  sources: AccountingSources,
+  mappings: GlMappingRef[],
+  opts: BuildOptions,
+): ExportEntry[] {
+  const entries: ExportEntry[] = [];
+  const wanted = new Set(opts.sourceTypes);
+  const exported = opts.alreadyExported ?? new Set<string>();
+
+  const push = (entry: ExportEntry) => {
+    if (!wanted.has(entry.sourceType) || exported.has(exportKey(entry.sourceType, entry.sourceId))) return;
+    if (!entry.date || entry.date < opts.startDate || entry.date > opts.endDate) return;
+    if (opts.currency && entry.currency.toUpperCase() !== opts.currency.toUpperCase()) return;
+    const lines = entry.lines.filter((l) => l.amount !== 0);
+    if (lines.length < 2) return;
+    entries.push({ ...entry, lines });
+  };
+
+  const bank = controlAccount(mappings, 'bank');
+  const reimbursements = controlAccount(mappings, 'reimbursements_payable');
+  const payables = controlAccount(mappings, 'accounts_payable');
+
+  for (const e of sources.expenses) {
+    if (!EXPENSE_STATUSES.includes(e.status.toUpperCase())) continue;
+    const expenseAccount = resolveExpenseAccount(mappings, e);
+    // Card spend has already left the company; requests are owed to the employee.
+    const cardSpend = e.expenseType === 'spent';
+    const base = { counterparty: e.merchant, department: e.department, currency: e.currency };
+    push({
+      ...base,
+      sourceType: 'expense',
+      sourceId: e.id,
+      date: day(e.date),
+      reference: `EXP-${e.id.slice(0, 8)}`,
+      narration: `${e.merchant} — ${e.category || 'Expense'}`,
+      lines: [
+        line(expenseAccount, e.amount, expenseAccount.taxCode),
+        line(cardSpend ? bank : reimbursements, -e.amount),
+      ],
+    });
+    if (!cardSpend && e.status.toUpperCase() === 'PAID' && e.paidDate) {
+      push({
+        ...base,
+        sourceType: 'expense_payment',
+        sourceId: e.id,
+        date: day(e.paidDate),
+        reference: `EXP-${e.id.slice(0, 8)}`,
+        narration: `Reimbursement — ${e.merchant}`,
+        lines: [line(reimbursements, e.amount), line(bank, -e.amount)],
+      });
+    }
+  }
+
+  for (const b of sources.bills) {
+    const status = b.status.toLowerCase();
+    if (!BILL_STATUSES.includes(status)) continue;
+    const expenseAccount = resolveExpenseAccount(mappings, { vendorId: b.vendorId, category: b.category });
+    const base = { counterparty: b.provider || null, department: null, currency: b.currency };
+    push({
+      ...base,
+      sourceType: 'bill',
+      sourceId: b.id,
+      date: day(b.billDate),
+      reference: `BILL-${b.id.slice(0, 8)}`,
+      narration: b.provider ? `${b.name} — ${b.provider}` : b.name,
+      lines: [line(expenseAccount, b.amount, expenseAccount.taxCode), line(payables, -b.amount)],
+    });
+    if (status === 'paid' && b.paidDate) {
+      const paid = b.paidAmount ?? b.amount;
+      push({
+        ...base,
+        sourceType: 'bill_payment',
+        sourceId: b.id,
+        date: day(b.paidDate),
+        reference: `BILL-${b.id.slice(0, 8)}`,
+        narration: `Payment — ${b.name}`,
+        lines: [line(payables, paid), line(bank, -paid)],
+      });
+    }
+  }
+
+  const receivables = controlAccount(mappings, 'accounts_receivable');
+  const sales = controlAccount(mappings, 'sales');
+  const salesTax = controlAccount(mappings, 'sales_tax');
+  for (const inv of sources.invoices) {
+    if (!INVOICE_STATUSES.includes(inv.status.toLowerCase())) continue;
+    const tax = round2(inv.taxAmount || 0);
+    push({
+      sourceType: 'invoice',
+      sourceId: inv.id,
+      date: day(inv.issuedDate),
+      reference: inv.invoiceNumber,
+      narration: `Invoice ${inv.invoiceNumber} — ${inv.client}`,
+      counterparty: inv.client,
+      department: null,
+      currency: inv.currency,
+      lines: [
+        line(receivables, inv.amount),
+        line(sales, -(inv.amount - tax), sales.taxCode),
+        line(salesTax, -tax),
+      ],
+    });
+  }
+
+  const wages = controlAccount(mappings, 'wages');
+  const liabilities = controlAccount(mappings, 'payroll_liabilities');
+  for (const p of sources.payroll) {
+    if (!PAYROLL_STATUSES.includes(p.status.toLowerCase())) continue;
+    push({
+      sourceType: 'payroll',
+      sourceId: p.id,
+      date: day(p.payDate),
+      reference: `PAY-${p.id.slice(0, 8)}`,
+      narration: `Payroll — ${p.employeeName}`,
+      counterparty: p.employeeName,
+      department: p.department,
+      currency: p.currency,
+      // Withholdings are whatever separates gross from net, so the
+      // entry balances even when the stored deductions were rounded.
+      lines: [line(wages, p.gross), line(bank, -p.netPay), line(liabilities, -(p.gross - p.netPay))],
+    });
+  }
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date) || a.reference.localeCompare(b.reference));
+}
+
+// ==================== FILE FORMATS ====================
+
+function csvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const str = String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+function csv(rows: Array<Array<string | number | null>>): string {
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function money(n: number): string {
+  return n.toFixed(2);
+}
+
+/** Generic journal CSV: one row per line, debit and credit columns. */
+export function formatJournalCsv(entries: ExportEntry[]): string {
+  const rows: Array<Array<string | number | null>> = [[
+    'Date', 'Reference', 'Source Type', 'Source ID', 'Narration', 'Account Code', 'Account Name',
+    'Debit', 'Credit', 'Currency', 'Tax Code', 'Department', 'Counterparty',
+  ]];
+  for (const entry of entries) {
+    for (const l of entry.lines) {
+      rows.push([
+        entry.date, entry.reference, entry.sourceType, entry.sourceId, entry.narration,
+        l.accountCode, l.accountName,
+        l.amount > 0 ? money(l.amount) : '', l.amount < 0 ? money(-l.amount) : '',
+        entry.currency, l.taxCode, entry.department, entry.counterparty,
+      ]);
+    }
+  }
+  return csv(rows);
+}
+
+/**
+ * Xero manual journal import CSV. Lines sharing narration and date form
+ * one journal, so the reference is part of the narration. Xero reads
+ * dates in the organisation's region format; DD/MM/YYYY is the import
+ * template's. An empty tax rate lets Xero use the account's default.
+ */
+export function formatXeroJournalCsv(entries: ExportEntry[]): string {
+  const rows: Array<Array<string | number | null>> = [[
+    '*Narration', '*Date', 'Description', '*AccountCode', '*TaxRate', '*Amount', 'TrackingName1', 'TrackingOption1',
+  ]];
+  for (const entry of entries) {
+    const [y, m, d] = entry.date.split('-');
+    for (const l of entry.lines) {
+      rows.push([
+        `${entry.reference} ${entry.narration}`, `${d}/${m}/${y}`, entry.counterparty,
+        l.accountCode, l.taxCode, money(l.amount),
+        entry.department ? 'Department' : null, entry.department,
+      ]);
+    }
+  }
+  return csv(rows);
+}
+
+function iifField(value: string | null | undefined): string {
+  // IIF is tab-delimited with no quoting; tabs and newlines cannot appear.
+  return (value ?? '').replace(/[\t\r\n]+/g, ' ').replace(/"/g, "'");
+}
+
+/**
+ * QuickBooks Desktop IIF general journal. QuickBooks matches accounts
+ * by name, so the mapped account name is used (the code when unnamed);
+ * the first line of each entry is the TRNS row, the rest SPL rows.
+ */
+export function formatQuickBooksIif(entries: ExportEntry[]): string {
+  const out = [
+    '!TRNS\tTRNSID\tTRNSTYPE\tDATE\tACCNT\tNAME\tCLASS\tAMOUNT\tDOCNUM\tMEMO',
+    '!SPL\tSPLID\tTRNSTYPE\tDATE\tACCNT\tNAME\tCLASS\tAMOUNT\tDOCNUM\tMEMO',
+    '!ENDTRNS',
+  ];
+  for (const entry of entries) {
+    const [y, m, d] = entry.date.split('-');
+    const date = `${m}/${d}/${y}`;
+    entry.lines.forEach((l, i) => {
+      out.push([
+        i === 0 ? 'TRNS' : 'SPL', '', 'GENERAL JOURNAL', date, iifField(l.accountName || l.accountCode),
+        iifField(entry.counterparty), iifField(entry.department), money(l.amount),
+        iifField(entry.reference), iifField(entry.narration),
+      ].join('\t'));
+    });
+    out.push('ENDTRNS');
+  }
+  return out.join('\r\n') + '\r\n';
+}
+
+export function formatAccountingExport(format: AccountingExportFormat, entries: ExportEntry[]): string {
+  switch (format) {
+    case 'quickbooks_iif':
+      return formatQuickBooksIif(entries);
+    case 'xero_csv':
+      return formatXeroJournalCsv(entries);
+    case 'journal_csv':
+      return formatJournalCsv(entries);
+  }
+}
+
+export function exportFileName(format: AccountingExportFormat, startDate: string, endDate: string): string {
+  const ext = format === 'quickbooks_iif' ? 'iif' : 'csv';
+  const kind = format === 'quickbooks_iif' ? 'quickbooks' : format === 'xero_csv' ? 'xero' : 'journal';
+  return `${kind}_journal_${startDate}_${endDate}.${ext}`;
+}
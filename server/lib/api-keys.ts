@@ -0,0 +1,87 @@
+// Company API keys: how a key looks, how it is stored, and which routes a
+// key may call with which of its permissions.
+//
+// A key is `spk_` followed by 40 random base64url characters. Only its
+// SHA-256 is stored: the key is long and random, so a slow hash adds
+// nothing and would cost a bcrypt round on every request. The first
+// twelve characters are kept in the clear as the prefix shown in lists.
+//
+// Keys don't get every route a session does. A keyed request must match
+// one of API_KEY_ROUTES, and the key must hold that route's permission;
+// everything else is refused before the handler runs.
+
+import { createHash, randomBytes } from "crypto";
+import { Permission } from "@shared/schema";
+
+export const API_KEY_PREFIX = 'spk_';
+const PREFIX_LENGTH = 12;
+
+// What requireAuth sets as the key's role where handlers look one up.
+export const API_KEY_ROLE = 'API_KEY';
+
+export const API_KEY_PERMISSIONS = Object.values(Permission);
+
+export interface ApiKeyRoute {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  // Path under /api, with :params.
+  path: string;
+  permission: Permission;
+}
+
+export const API_KEY_ROUTES: ApiKeyRoute[] = [
+  { method: 'GET', path: '/expenses', permission: Permission.VIEW_REPORTS },
+  { method: 'GET', path: '/expenses/:id', permission: Permission.VIEW_REPORTS },
+  { method: 'POST', path: '/expenses', permission: Permission.CREATE_EXPENSE },
+  { method: 'GET', path: '/transactions', permission: Permission.VIEW_TREASURY },
+  { method: 'GET', path: '/transactions/:id', permission: Permission.VIEW_TREASURY },
+  { method: 'GET', path: '/payouts', permission: Permission.VIEW_TREASURY },
+  { method: 'GET', path: '/payouts/:id', permission: Permission.VIEW_TREASURY },
+  { method: 'POST', path: '/payouts', permission: Permission.SETTLE_PAYMENT },
+  { method: 'POST', path: '/payouts/:id/process', permission: Permission.SETTLE_PAYMENT },
+];
+
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(30).toString('base64url')}`;
+  return { key, prefix: key.slice(0, PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/** Whether a bearer token is an API key rather than a Cognito ID token. */
+export function isApiKeyToken(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+/** The key as lists show it: the prefix and an ellipsis. */
+export function apiKeyPreview(prefix: string): string {
+  return `${prefix}…`;
+}
+
+/** Why the key can't be used at `now`, or null if it can. */
+export function apiKeyProblem(
+  key: { revokedAt: string | null; expiresAt: string | null },
+  now: Date,
+): 'revoked' | 'expired' | null {
+  if (key.revokedAt) return 'revoked';
+  if (key.expiresAt && new Date(key.expiresAt) <= now) return 'expired';
+  return null;
+}
+
+function pathMatches(pattern: string, path: string): boolean {
+  const want = pattern.split('/');
+  const got = path.split('/');
+  return want.length === got.length && want.every((part, i) => part.startsWith(':') ? got[i] !== '' : part === got[i]);
+}
+
+/**
+ * The permission a key needs for `method path`, or null when keys can't
+ * call the route at all. `path` is the request path under /api, without
+ * the query string.
+ */
+export function apiKeyRoutePermission(method: string, path: string): Permission | null {
+  const normalised = path.length > 1 ? path.replace(/\/+$/, '') : path;
+  const route = API_KEY_ROUTES.find((r) => r.method === method.toUpperCase() && pathMatches(r.path, normalised));
+  return route?.permission ?? null;
+}
@@ -0,0 +1,209 @@
+// Multi-step approval policies for expenses, bills, payouts and purchase
+// orders.
+//
+// A company defines ordered policies (lowest priority number first). Each
+// policy has conditions (amount range, categories, departments, new
+// vendor…) and an ordered list of approver steps. When an entity is first
+// submitted for approval, every matching policy contributes its steps to
+// the entity's approval chain, in policy order, until a policy with
+// stopOnMatch is reached. The planned chain is stored per entity
+// (approval_steps) so later policy edits do not move the goalposts on
+// something already in flight.
+//
+// No matching policy means an empty chain, and the routes keep their
+// legacy behaviour (autoApproveBelow, requireAdmin, the payout
+// dual-approval threshold).
+
+import type { ApprovalPolicyConditions, ApprovalPolicyStepDef } from "@shared/schema";
+import { rankOf } from "./role-hierarchy";
+
+export type ApprovalEntityType = 'expense' | 'bill' | 'payout' | 'purchase_order';
+
+export const APPROVAL_ENTITY_TYPES: ApprovalEntityType[] = ['expense', 'bill', 'payout', 'purchase_order'];
+
+export interface ApprovalPolicyDef {
+  id: string;
+  name: string;
+  entityTypes: ApprovalEntityType[];
+  priority: number;
+  isActive: boolean;
+  stopOnMatch: boolean;
+  conditions: ApprovalPolicyConditions;
+  steps: ApprovalPolicyStepDef[];
+}
+
+/** The facts about an entity that policies are matched against. */
+export interface ApprovalSubject {
+  entityType: ApprovalEntityType;
+  amount: number;
+  currency: string;
+  category: string | null;
+  departmentId: string | null;
+  vendorId: string | null;
+  // No payment has ever been made to the vendor.
+  vendorIsNew: boolean;
+}
+
+export interface PlannedApprovalStep {
+  stepIndex: number;
+  policyId: string;
+  policyName: string;
+  approverType: 'role' | 'member';
+  approverRole: string | null;
+  approverMemberId: string | null;
+  departmentId: string | null;
+  label: string;
+}
+
+export interface ApprovalStepState extends PlannedApprovalStep {
+  id: string;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  actedBy: string | null;
+}
+
+export interface ApprovalActor {
+  userId: string;
+  memberId: string | null;
+  role: string;
+}
+
+// A member step nobody can act on — a department with no head, or the
+// head submitted the entity themselves — falls back to an admin so the
+// chain can still complete.
+const FALLBACK_ROLE = 'ADMIN';
+
+function sameText(a: string | null | undefined, b: string | null | undefined): boolean {
+  return (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase();
+}
+
+export function policyMatches(policy: ApprovalPolicyDef, subject: ApprovalSubject): boolean {
+  if (!policy.isActive || !policy.entityTypes.includes(subject.entityType)) return false;
+  const c = policy.conditions ?? {};
+  if (c.currency && !sameText(c.currency, subject.currency)) return false;
+  if (c.minAmount != null && subject.amount < c.minAmount) return false;
+  if (c.maxAmount != null && subject.amount >= c.maxAmount) return false;
+  if ((c.categories ?? []).length > 0 && !c.categories!.some((cat) => sameText(cat, subject.category))) return false;
+  if ((c.departmentIds ?? []).length > 0 && !c.departmentIds!.includes(subject.departmentId ?? '')) return false;
+  if (c.vendorIsNew != null && (!subject.vendorId || subject.vendorIsNew !== c.vendorIsNew)) return false;
+  return true;
+}
+
+function roleLabel(role: string): string {
+  const upper = role.toUpperCase();
+  return upper.charAt(0) + upper.slice(1).toLowerCase();
+}
+
+/**
+ * Plan the approval chain for a subject. `departmentHeads` maps
+ * department id → head member id (null when unassigned); the name maps
+ * are only used for step labels. A member already in the chain is not
+ * added again, and the same role twice in a row collapses into one step.
+ */
+export function planApprovalChain(
+  policies: ApprovalPolicyDef[],
+  subject: ApprovalSubject,
+  directory: {
+    departmentHeads: Record<string, string | null>;
+    departmentNames?: Record<string, string>;
+    memberNames?: Record<string, string>;
+    submitterMemberId?: string | null;
+  },
+): PlannedApprovalStep[] {
+  const ordered = [...policies].sort((a, b) => a.priority - b.priority);
+  const steps: PlannedApprovalStep[] = [];
+
+  for (const policy of ordered) {
+    if (!policyMatches(policy, subject)) continue;
+
+    for (const def of policy.steps) {
+      const approver = def.approver;
+      let planned: Omit<PlannedApprovalStep, 'stepIndex'>;
+      if (approver.type === 'department_head') {
+        const departmentId = approver.departmentId || subject.departmentId;
+        let headId = departmentId ? directory.departmentHeads[departmentId] ?? null : null;
+        if (headId && headId === directory.submitterMemberId) headId = null;
+        const deptName = departmentId ? directory.departmentNames?.[departmentId] : undefined;
+        planned = {
+          policyId: policy.id,
+          policyName: policy.name,
+          approverType: headId ? 'member' : 'role',
+          approverRole: headId ? null : FALLBACK_ROLE,
+          approverMemberId: headId,
+          departmentId: departmentId ?? null,
+          label: def.label || (deptName ? `${deptName} head` : 'Department head'),
+        };
+      } else if (approver.type === 'role') {
+        planned = {
+          policyId: policy.id,
+          policyName: policy.name,
+          approverType: 'role',
+          approverRole: approver.role.toUpperCase(),
+          approverMemberId: null,
+          departmentId: null,
+          label: def.label || roleLabel(approver.role),
+        };
+      } else {
+        const isSubmitter = approver.memberId === directory.submitterMemberId;
+        planned = {
+          policyId: policy.id,
+          policyName: policy.name,
+          approverType: isSubmitter ? 'role' : 'member',
+          approverRole: isSubmitter ? FALLBACK_ROLE : null,
+          approverMemberId: isSubmitter ? null : approver.memberId,
+          departmentId: null,
+          label: def.label || directory.memberNames?.[approver.memberId] || 'Named approver',
+        };
+      }
+
+      const last = steps[steps.length - 1];
+      const duplicate = planned.approverMemberId
+        ? steps.some((s) => s.approverMemberId === planned.approverMemberId)
+        : !!last && !last.approverMemberId && last.approverRole === planned.approverRole;
+      if (!duplicate) steps.push({ ...planned, stepIndex: steps.length });
+    }
+
+    if (policy.stopOnMatch) break;
+  }
+  return steps;
+}
+
+export function nextPendingStep<T extends ApprovalStepState>(steps: T[]): T | null {
+  return [...steps].sort((a, b) => a.stepIndex - b.stepIndex).find((s) => s.status === 'pending') ?? null;
+}
+
+export function isChainComplete(steps: ApprovalStepState[]): boolean {
+  return steps.length > 0 && steps.every((s) => s.status === 'approved');
+}
+
+export type ApprovalCheck =
+  | { ok: true; step: ApprovalStepState }
+  | { ok: false; code: 'NO_PENDING_STEP' | 'NOT_STEP_APPROVER' | 'ALREADY_APPROVED_IN_CHAIN' | 'SUBMITTER_CANNOT_APPROVE'; message: string };
+
+/**
+ * Can `actor` act on the chain's current step? Steps are strictly
+ * sequential, and nobody approves twice in one chain or approves
+ * something they submitted.
+ */
+export function checkApprover(
+  steps: ApprovalStepState[],
+  actor: ApprovalActor,
+  submittedBy: string | null,
+): ApprovalCheck {
+  const step = nextPendingStep(steps);
+  if (!step) {
+    return { ok: false, code: 'NO_PENDING_STEP', message: 'Approval chain has no pending step' };
+  }
+  if (submittedBy && submittedBy === actor.userId) {
+    return { ok: false, code: 'SUBMITTER_CANNOT_APPROVE', message: 'You cannot approve something you submitted' };
+  }
+  if (steps.some((s) => s.status === 'approved' && s.actedBy === actor.userId)) {
+    return { ok: false, code: 'ALREADY_APPROVED_IN_CHAIN', message: 'You already approved an earlier step of this chain' };
+  }
+  const allowed = step.approverType === 'member'
+    ? !!actor.memberId && actor.memberId === step.approverMemberId
+    : rankOf(actor.role) >= rankOf(step.approverRole);
+  if (!allowed) {
+    return { ok: false, code: 'NOT_STEP_APPROVER', message: `Waiting on ${step.label} (step ${step.stepIndex + 1} of ${steps.length})` };
+  }
+  return { ok: true, step };
+}
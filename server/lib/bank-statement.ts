@@ -0,0 +1,388 @@
+// Bank statement parsing: CSV, OFX/QFX and SWIFT MT940.
+//
+// Every parser produces the same ParsedStatement — lines dated YYYY-MM-DD
+// with a signed amount (positive money in, negative money out) — so the
+// import route and the matcher never care which format a bank sent.
+//
+//   • CSV: header row located by column names. Amount is either a single
+//     signed column or a debit/credit pair. Numeric dates are read
+//     day-first when any row proves it (a first part above 12), or when
+//     the caller says so.
+//   • OFX/QFX: SGML (1.x) or XML (2.x). Each <STMTTRN> gives DTPOSTED,
+//     TRNAMT, FITID, NAME and MEMO; CURDEF and ACCTID come from the
+//     statement header.
+//   • MT940: :25: account, :60F:/:60M: opening balance (for the currency),
+//     :61: statement lines, each followed by an optional :86: narrative.
+
+import { parseReceiptDate } from "./receipt-parser";
+
+export const STATEMENT_FORMATS = ['csv', 'ofx', 'mt940'] as const;
+export type StatementFormat = typeof STATEMENT_FORMATS[number];
+
+export interface ParsedStatementLine {
+  date: string;
+  amount: number;
+  description: string;
+  reference: string | null;
+  counterparty: string | null;
+  bankTransactionId: string | null;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  accountIdentifier: string | null;
+  currency: string | null;
+  lines: ParsedStatementLine[];
+}
+
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementParseError';
+  }
+}
+
+export interface ParseOptions {
+  format?: StatementFormat;
+  dayFirst?: boolean;
+}
+
+export function detectStatementFormat(content: string, fileName = ''): StatementFormat | null {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'ofx' || ext === 'qfx') return 'ofx';
+  if (ext === 'sta' || ext === 'mt940') return 'mt940';
+  if (/<OFX>|OFXHEADER:/i.test(content)) return 'ofx';
+  if (/^:20:/m.test(content) && /^:61:/m.test(content)) return 'mt940';
+  if (ext === 'csv' || /[,;\t]/.test(content.split(/\r?\n/, 1)[0] ?? '')) return 'csv';
+  return null;
+}
+
+export function parseStatement(content: string, fileName = '', opts: ParseOptions = {}): ParsedStatement {
+  const text = content.replace(/^\uFEFF/, '');
+  const format = opts.format ?? detectStatementFormat(text, fileName);
+  switch (format) {
+    case 'csv': return parseCsvStatement(text, opts.dayFirst);
+    case 'ofx': return parseOfxStatement(text);
+    case 'mt940': return parseMt940Statement(text);
+    default: throw new StatementParseError('Unrecognised statement format. Upload a CSV, OFX/QFX or MT940 file.');
+  }
+}
+
+// ==================== CSV ====================
+
+const CSV_COLUMNS = {
+  date: ['date', 'transaction date', 'posting date', 'posted date', 'booking date', 'value date', 'trans date'],
+  amount: ['amount', 'transaction amount', 'amount (signed)', 'value'],
+  debit: ['debit', 'debit amount', 'withdrawal', 'withdrawals', 'paid out', 'money out', 'out'],
+  credit: ['credit', 'credit amount', 'deposit', 'deposits', 'paid in', 'money in', 'in'],
+  description: ['description', 'narrative', 'details', 'transaction details', 'particulars', 'memo', 'narration', 'remarks'],
+  reference: ['reference', 'ref', 'ref.', 'reference number', 'transaction reference', 'cheque number', 'check number'],
+  counterparty: ['payee', 'counterparty', 'beneficiary', 'name', 'merchant', 'payer'],
+  id: ['transaction id', 'id', 'fitid', 'bank reference'],
+  currency: ['currency', 'ccy'],
+} as const;
+
+type CsvColumn = keyof typeof CSV_COLUMNS;
+
+function splitCsvRow(row: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < row.length; i++) {
+    const ch = row[i];
+    if (quoted) {
+      if (ch === '"' && row[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function detectDelimiter(header: string): string {
+  const counts = [',', ';', '\t'].map((d) => [d, header.split(d).length - 1] as const);
+  counts.sort((a, b) => b[1] - a[1]);
+  return counts[0][1] > 0 ? counts[0][0] : ',';
+}
+
+/**
+ * Parses "1,234.56", "1.234,56", "(45.00)", "-45", "45.00 DR" and
+ * currency-prefixed values. The last of '.' or ',' is the decimal
+ * separator when both appear; a lone ',' followed by two digits is one.
+ */
+export function parseStatementAmount(raw: string): number | null {
+  let s = raw.trim();
+  if (!s) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(s)) { negative = true; s = s.slice(1, -1); }
+  if (/\bDR?$/i.test(s)) { negative = true; s = s.replace(/\s*DR?$/i, ''); }
+  s = s.replace(/\s*CR$/i, '');
+  s = s.replace(/[^\d.,\-+]/g, '');
+  if (s.startsWith('-')) { negative = !negative; s = s.slice(1); }
+  else if (s.endsWith('-')) { negative = !negative; s = s.slice(0, -1); }
+  s = s.replace(/^\+/, '');
+  if (!/\d/.test(s)) return null;
+
+  const lastDot = s.lastIndexOf('.');
+  const lastComma = s.lastIndexOf(',');
+  if (lastDot >= 0 && lastComma >= 0) {
+    s = lastComma > lastDot ? s.replace(/\./g, '').replace(',', '.') : s.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    s = /,\d{1,2}$/.test(s) && s.split(',').length === 2 ? s.replace(',', '.') : s.replace(/,/g, '');
+  }
+  const value = Number(s);
+  if (!Number.isFinite(value)) return null;
+  return Math.round((negative ? -value : value) * 100) / 100;
+}
+
+function findColumns(header: string[]): Partial<Record<CsvColumn, number>> {
+  const normalised = header.map((h) => h.toLowerCase().replace(/\s+/g, ' ').trim());
+  const columns: Partial<Record<CsvColumn, number>> = {};
+  const taken = new Set<number>();
+  for (const key of Object.keys(CSV_COLUMNS) as CsvColumn[]) {
+    for (const alias of CSV_COLUMNS[key]) {
+      const idx = normalised.findIndex((h, i) => h === alias && !taken.has(i));
+      if (idx >= 0) {
+        columns[key] = idx;
+        taken.add(idx);
+        break;
+      }
+    }
+  }
+  return columns;
+}
+
+function parseCompactDate(raw: string): string | null {
+  const m = raw.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!m) return null;
+  return isoDate(+m[1], +m[2], +m[3]);
+}
+
+function isoDate(y: number, m: number, d: number): string | null {
+  const year = y < 100 ? (y > 79 ? 1900 + y : 2000 + y) : y;
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  const date = new Date(Date.UTC(year, m - 1, d));
+  if (date.getUTCMonth() !== m - 1) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+export function parseCsvStatement(content: string, dayFirst?: boolean): ParsedStatement {
+  const rows = content.split(/\r?\n/).filter((r) => r.trim() !== '');
+  // Some banks put account details above the header; take the first row
+  // that names both a date and an amount column.
+  let headerIdx = -1;
+  let delimiter = ',';
+  let columns: Partial<Record<CsvColumn, number>> = {};
+  for (let i = 0; i < Math.min(rows.length, 20); i++) {
+    const d = detectDelimiter(rows[i]);
+    const cols = findColumns(splitCsvRow(rows[i], d));
+    if (cols.date !== undefined && (cols.amount !== undefined || cols.debit !== undefined || cols.credit !== undefined)) {
+      headerIdx = i;
+      delimiter = d;
+      columns = cols;
+      break;
+    }
+  }
+  if (headerIdx < 0) {
+    throw new StatementParseError('CSV header not found. Expected a date column and an amount or debit/credit columns.');
+  }
+
+  const body = rows.slice(headerIdx + 1).map((r) => splitCsvRow(r, delimiter));
+  const cell = (row: string[], key: CsvColumn) => (columns[key] !== undefined ? row[columns[key]!] ?? '' : '');
+
+  // Numeric dates are ambiguous unless some row gives the order away.
+  let readDayFirst = dayFirst ?? false;
+  if (dayFirst === undefined) {
+    for (const row of body) {
+      const m = cell(row, 'date').match(/^(\d{1,2})[/.-](\d{1,2})[/.-]\d{2,4}$/);
+      if (m && +m[1] > 12) { readDayFirst = true; break; }
+      if (m && +m[2] > 12) break;
+    }
+  }
+
+  const currencies = new Set<string>();
+  const lines: ParsedStatementLine[] = [];
+  body.forEach((row, i) => {
+    const rawDate = cell(row, 'date');
+    const date = parseCompactDate(rawDate) ?? parseReceiptDate(rawDate, readDayFirst)?.value ?? null;
+    let amount: number | null;
+    if (columns.amount !== undefined) {
+      amount = parseStatementAmount(cell(row, 'amount'));
+    } else {
+      const debit = parseStatementAmount(cell(row, 'debit'));
+      const credit = parseStatementAmount(cell(row, 'credit'));
+      amount = debit !== null || credit !== null ? Math.round(((credit ?? 0) - Math.abs(debit ?? 0)) * 100) / 100 : null;
+    }
+    // Zero-value rows (balance notices, cancelled holds) move no money.
+    if (date && amount === 0) return;
+    if (!date || amount === null) {
+      // Totals and balance rows at the foot of the file have no date.
+      if (!rawDate && i >= body.length - 3) return;
+      throw new StatementParseError(`Row ${headerIdx + i + 2}: could not read ${!date ? 'the date' : 'the amount'}`);
+    }
+    const currency = cell(row, 'currency').toUpperCase();
+    if (currency) currencies.add(currency);
+    const counterparty = cell(row, 'counterparty') || null;
+    lines.push({
+      date,
+      amount,
+      description: cell(row, 'description') || counterparty || '',
+      reference: cell(row, 'reference') || null,
+      counterparty,
+      bankTransactionId: cell(row, 'id') || null,
+    });
+  });
+
+  return {
+    format: 'csv',
+    accountIdentifier: null,
+    currency: currencies.size === 1 ? Array.from(currencies)[0] : null,
+    lines,
+  };
+}
+
+// ==================== OFX / QFX ====================
+
+// SGML OFX leaves element tags unclosed, so read each value up to the
+// next tag or line break rather than relying on a closing tag.
+function ofxValue(block: string, tag: string): string | null {
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = m?.[1].trim();
+  return value ? decodeEntities(value) : null;
+}
+
+function decodeEntities(s: string): string {
+  return s.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'");
+}
+
+export function parseOfxStatement(content: string): ParsedStatement {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+  if (blocks.length === 0 && !/<BANKTRANLIST>/i.test(content)) {
+    throw new StatementParseError('No OFX transaction list found');
+  }
+
+  const lines = blocks.map((block, i) => {
+    const date = parseCompactDate(ofxValue(block, 'DTPOSTED') ?? '');
+    const amount = parseStatementAmount(ofxValue(block, 'TRNAMT') ?? '');
+    if (!date || amount === null) {
+      throw new StatementParseError(`Transaction ${i + 1}: missing DTPOSTED or TRNAMT`);
+    }
+    const name = ofxValue(block, 'NAME') ?? ofxValue(block, 'PAYEE');
+    const memo = ofxValue(block, 'MEMO');
+    return {
+      date,
+      amount,
+      description: [name, memo].filter(Boolean).join(' — '),
+      reference: ofxValue(block, 'CHECKNUM') ?? ofxValue(block, 'REFNUM'),
+      counterparty: name,
+      bankTransactionId: ofxValue(block, 'FITID'),
+    };
+  });
+
+  return {
+    format: 'ofx',
+    accountIdentifier: ofxValue(content, 'ACCTID'),
+    currency: ofxValue(content, 'CURDEF')?.toUpperCase() ?? null,
+    lines,
+  };
+}
+
+// ==================== MT940 ====================
+
+// :61: value date YYMMDD, optional entry date MMDD, debit/credit mark
+// (C, D, RC, RD), optional funds code, amount with a decimal comma,
+// transaction type (N/F/S + 3), customer reference, optional
+// //bank reference, then optional supplementary details on the next line.
+const MT940_LINE = /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d{0,2})([NFS][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+function mt940Fields(content: string): Array<{ tag: string; value: string }> {
+  const fields: Array<{ tag: string; value: string }> = [];
+  for (const raw of content.split(/\r?\n/)) {
+    const m = raw.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (m) {
+      fields.push({ tag: m[1], value: m[2] });
+    } else if (fields.length > 0 && raw.trim() !== '' && raw.trim() !== '-' && !raw.startsWith('{')) {
+      fields[fields.length - 1].value += `\n${raw}`;
+    }
+  }
+  return fields;
+}
+
+// :86: is free text, or '?NN' subfields in the German structured variant.
+function mt940Narrative(value: string): string {
+  return value
+    .replace(/\n/g, '')
+    .split(/\?\d{2}/)
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .join(' ')
+    .replace(/\s+/g, ' ');
+}
+
+export function parseMt940Statement(content: string): ParsedStatement {
+  const fields = mt940Fields(content);
+  if (!fields.some((f) => f.tag === '61')) {
+    throw new StatementParseError('No MT940 :61: statement lines found');
+  }
+
+  let accountIdentifier: string | null = null;
+  let currency: string | null = null;
+  const lines: ParsedStatementLine[] = [];
+  for (const { tag, value } of fields) {
+    if (tag === '25' && !accountIdentifier) {
+      accountIdentifier = value.trim();
+    } else if ((tag === '60F' || tag === '60M') && !currency) {
+      currency = value.match(/^[CD]\d{6}([A-Z]{3})/)?.[1] ?? null;
+    } else if (tag === '61') {
+      const m = value.match(MT940_LINE);
+      if (!m) throw new StatementParseError(`Unreadable :61: line "${value.split('\n')[0]}"`);
+      const date = isoDate(+m[1], +m[2], +m[3]);
+      if (!date) throw new StatementParseError(`Invalid date in :61: line "${value.split('\n')[0]}"`);
+      const magnitude = Number(m[7].replace(',', '.'));
+      // RC / RD reverse a credit / debit, so they flip the usual sign.
+      const inflow = m[5] === 'C' || m[5] === 'RD';
+      const customerRef = m[9].trim();
+      lines.push({
+        date,
+        amount: inflow ? magnitude : -magnitude,
+        description: m[11]?.trim() ?? '',
+        reference: customerRef && customerRef !== 'NONREF' ? customerRef : null,
+        counterparty: null,
+        bankTransactionId: m[10]?.trim() || null,
+      });
+    } else if (tag === '86' && lines.length > 0) {
+      const last = lines[lines.length - 1];
+      const narrative = mt940Narrative(value);
+      last.description = [last.description, narrative].filter(Boolean).join(' — ');
+    }
+  }
+
+  return { format: 'mt940', accountIdentifier, currency, lines };
+}
+
+// ==================== DEDUPLICATION ====================
+
+/**
+ * Stable key per line so re-importing an overlapping statement skips
+ * lines already staged. The bank's own id wins; otherwise date, amount
+ * and description, with a counter for identical lines in one file.
+ */
+export function statementLineKeys(lines: ParsedStatementLine[], accountIdentifier: string | null): string[] {
+  const seen = new Map<string, number>();
+  const account = accountIdentifier ?? '';
+  return lines.map((line) => {
+    if (line.bankTransactionId) return `${account}|id|${line.bankTransactionId}`;
+    const base = `${account}|${line.date}|${line.amount.toFixed(2)}|${line.description.toLowerCase().replace(/\s+/g, ' ').trim()}`;
+    const n = seen.get(base) ?? 0;
+    seen.set(base, n + 1);
+    return `${base}|${n}`;
+  });
+}
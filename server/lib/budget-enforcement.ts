@@ -0,0 +1,114 @@
+// Hard budgets: whether a spend would take a budget past what is left.
+//
+// A company's budgetEnforcement setting decides what happens then:
+//   soft     — budgets are informational (the default)
+//   block    — the spend is refused; an owner or admin may push it
+//              through by giving a reason
+//   override — the spend is refused and an override request goes to the
+//              owners and admins; once one approves it, the requester
+//              repeats the spend quoting the override
+//
+// A spend is checked against every budget for its category in the
+// current period. Scoped budgets only see the spend they count as actuals
+// (server/budgetActuals.ts): a department budget only expenses from that
+// department, a cardholder budget only funding of that cardholder's
+// cards. A budget only sees spend in its own currency. The tightest
+// budget decides.
+
+export const BUDGET_ENFORCEMENT_MODES = ['soft', 'block', 'override'] as const;
+export type BudgetEnforcementMode = typeof BUDGET_ENFORCEMENT_MODES[number];
+
+export const BUDGET_SPEND_ACTIONS = ['expense', 'card_funding', 'bill_payment', 'vendor_payment'] as const;
+export type BudgetSpendAction = typeof BUDGET_SPEND_ACTIONS[number];
+
+// Who may override a hard budget.
+export const BUDGET_OVERRIDE_ROLES = ['OWNER', 'ADMIN'];
+
+export interface BudgetSpend {
+  action: BudgetSpendAction;
+  amount: number;
+  currency: string;
+  category: string | null;
+  departmentId: string | null;
+  cardholderId: string | null;
+}
+
+export interface BudgetHeadroom {
+  id: string;
+  name: string;
+  category: string;
+  departmentId: string | null;
+  cardholderId: string | null;
+  currency: string;
+  effectiveLimit: number;
+  spent: number;
+}
+
+export interface BudgetBreach {
+  budget: BudgetHeadroom;
+  remaining: number;
+  shortfall: number;
+}
+
+export interface BudgetOverrideGrant {
+  action: string;
+  entityId: string | null;
+  amount: number;
+  requestedBy: string;
+  status: string;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+function sameText(a: string | null | undefined, b: string | null | undefined): boolean {
+  return (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase();
+}
+
+export function enforcementMode(value: string | null | undefined): BudgetEnforcementMode {
+  return (BUDGET_ENFORCEMENT_MODES as readonly string[]).includes(value ?? '') ? value as BudgetEnforcementMode : 'soft';
+}
+
+export function budgetApplies(budget: BudgetHeadroom, spend: BudgetSpend): boolean {
+  if (!spend.category || !sameText(budget.category, spend.category)) return false;
+  if (!sameText(budget.currency, spend.currency)) return false;
+  if (budget.departmentId) return spend.action === 'expense' && budget.departmentId === spend.departmentId;
+  if (budget.cardholderId) return spend.action === 'card_funding' && budget.cardholderId === spend.cardholderId;
+  return true;
+}
+
+/** What is left of a budget this period; never below zero. */
+export function remainingBudget(budget: BudgetHeadroom): number {
+  return Math.max(0, round(budget.effectiveLimit - budget.spent));
+}
+
+/** The tightest budget the spend would exceed, or null when it fits. */
+export function budgetBreach(budgets: BudgetHeadroom[], spend: BudgetSpend): BudgetBreach | null {
+  let tightest: BudgetBreach | null = null;
+  for (const budget of budgets) {
+    if (!budgetApplies(budget, spend)) continue;
+    const remaining = remainingBudget(budget);
+    if (round(spend.amount) <= remaining) continue;
+    if (!tightest || remaining < tightest.remaining) {
+      tightest = { budget, remaining, shortfall: round(spend.amount - remaining) };
+    }
+  }
+  return tightest;
+}
+
+/**
+ * Whether an approved override lets this spend through: the same person
+ * repeating the same action on the same card / bill / vendor, for no
+ * more than was approved.
+ */
+export function overrideCovers(
+  override: BudgetOverrideGrant,
+  spend: BudgetSpend,
+  entityId: string | null,
+  userId: string,
+): boolean {
+  return override.status === 'approved'
+    && override.action === spend.action
+    && (override.entityId ?? null) === (entityId ?? null)
+    && override.requestedBy === userId
+    && round(spend.amount) <= round(override.amount);
+}
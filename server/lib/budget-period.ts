@@ -0,0 +1,97 @@
+// Budget periods, rollover and threshold alerts.
+//
+// A budget's period is a calendar month, or a quarter / year aligned to
+// the company's fiscal year start month. Periods are half-open date
+// ranges [start, end) in YYYY-MM-DD.
+//
+// With rollover on, what a closed period left unspent (its limit plus
+// whatever it had rolled in, minus spend) carries into the next one. An
+// overspent period carries nothing; it does not eat into the next.
+//
+// Alerts fire at 50, 80 and 100% of the period's limit. Each period
+// remembers the highest threshold already alerted, so a jump from 40% to
+// 90% sends one alert (80%), not two.
+
+export const BUDGET_PERIODS = ['monthly', 'quarterly', 'yearly'] as const;
+export type BudgetPeriodKind = typeof BUDGET_PERIODS[number];
+
+export const BUDGET_THRESHOLDS = [50, 80, 100];
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+export interface PeriodWindow {
+  start: string; // inclusive
+  end: string; // exclusive
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const ymd = (y: number, m: number) => new Date(Date.UTC(y, m, 1)).toISOString().slice(0, 10);
+
+/** 0-based month the fiscal year starts in ('January', 'april', '4' …). January when unrecognised. */
+export function fiscalStartMonth(fiscalYearStart: string | null | undefined): number {
+  const value = (fiscalYearStart || '').trim().toLowerCase();
+  const byName = MONTHS.findIndex((m) => m === value || m.slice(0, 3) === value);
+  if (byName >= 0) return byName;
+  const n = parseInt(value, 10);
+  return n >= 1 && n <= 12 ? n - 1 : 0;
+}
+
+/** Length of a period in months; unknown periods are monthly. */
+function periodMonths(period: string): number {
+  if (period === 'quarterly') return 3;
+  if (period === 'yearly' || period === 'annual') return 12;
+  return 1;
+}
+
+/** The period containing `at`. */
+export function budgetPeriod(period: string, fiscalYearStart: string | null | undefined, at: Date = new Date()): PeriodWindow {
+  const months = periodMonths(period);
+  const anchor = months === 1 ? 0 : fiscalStartMonth(fiscalYearStart);
+  const y = at.getUTCFullYear();
+  const m = at.getUTCMonth();
+  const sinceAnchor = ((m - anchor) % 12 + 12) % 12;
+  const startMonth = m - (sinceAnchor % months);
+  return { start: ymd(y, startMonth), end: ymd(y, startMonth + months) };
+}
+
+/**
+ * The periods that ended between `fromStart` (the start of the last
+ * period the budget was on) and `at`, oldest first. Empty when the
+ * budget is still on the current period.
+ */
+export function elapsedPeriods(
+  period: string,
+  fiscalYearStart: string | null | undefined,
+  fromStart: string,
+  at: Date = new Date(),
+  max = 36,
+): PeriodWindow[] {
+  const current = budgetPeriod(period, fiscalYearStart, at);
+  const out: PeriodWindow[] = [];
+  let cursor = budgetPeriod(period, fiscalYearStart, new Date(`${fromStart}T00:00:00Z`));
+  while (cursor.start < current.start && out.length < max) {
+    out.push(cursor);
+    cursor = budgetPeriod(period, fiscalYearStart, new Date(`${cursor.end}T00:00:00Z`));
+  }
+  return out;
+}
+
+/** What a closed period carries into the next one. */
+export function rolloverAmount(limit: number, rolledIn: number, spent: number, rollover: boolean): number {
+  if (!rollover) return 0;
+  return Math.max(0, round(limit + rolledIn - spent));
+}
+
+export function utilizationPercent(spent: number, effectiveLimit: number): number {
+  if (!(effectiveLimit > 0)) return spent > 0 ? 100 : 0;
+  return round(spent / effectiveLimit * 100);
+}
+
+/** The threshold to alert now, or null when none has newly been crossed. */
+export function crossedThreshold(percent: number, alreadyAlerted: number): number | null {
+  const crossed = BUDGET_THRESHOLDS.filter((t) => percent >= t && t > alreadyAlerted);
+  return crossed.length > 0 ? crossed[crossed.length - 1] : null;
+}
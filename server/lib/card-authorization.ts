@@ -0,0 +1,374 @@
+// Real-time Stripe Issuing authorization decisions.
+//
+// Stripe holds an issuing_authorization.request open for ~2 seconds and
+// uses our webhook response as the approve/decline answer. The checks
+// below are pure so the webhook can run them inside a single DB
+// transaction (storage.atomicCardAuthorization, which locks the card
+// row).
+//
+// Order matters: the first failing check is the reason shown to the
+// cardholder, so hard states (frozen, wrong currency, used up, locked to
+// another merchant, blocked merchant) come before money checks (balance,
+// card limit, budget). A program card's spend policy adds hard checks
+// (merchant, country, time of day) after the card's own and caps after
+// the card limit.
+
+import { merchantLockMatches, type MerchantLock } from './card-kinds';
+
+export type CardSpendingInterval = 'per_authorization' | 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'all_time';
+
+export type CardAuthorizationReasonCode =
+  | 'approved'
+  | 'card_not_found'
+  | 'card_frozen'
+  | 'card_inactive'
+  | 'currency_mismatch'
+  | 'card_uses_exhausted'
+  | 'merchant_locked'
+  | 'merchant_category_blocked'
+  | 'merchant_category_not_allowed'
+  | 'insufficient_card_balance'
+  | 'card_limit_exceeded'
+  | 'policy_merchant_blocked'
+  | 'policy_merchant_not_allowed'
+  | 'policy_country_not_allowed'
+  | 'policy_outside_allowed_time'
+  | 'policy_transaction_cap_exceeded'
+  | 'policy_daily_cap_exceeded'
+  | 'policy_monthly_cap_exceeded'
+  | 'over_budget'
+  | 'decision_error';
+
+export interface AuthorizationCardState {
+  status: string;
+  balance: number;
+  limit: number;
+  currency: string;
+  spendingLimitInterval: string | null;
+  allowedCategories: string[] | null;
+  blockedCategories: string[] | null;
+  budgetCategory: string | null;
+  usesRemaining?: number | null; // null when the card isn't use-limited
+  merchantLock?: MerchantLock | null; // set on merchant-locked cards only
+}
+
+export interface AuthorizationBudgetState {
+  id: string;
+  name: string;
+  category: string;
+  limit: number; // including any amount rolled into the period
+  spent: number; // approved expenses and paid bills this period
+  // Approved card authorizations already counted against this budget in
+  // the current period.
+  committed: number;
+  currency: string;
+}
+
+/** The card's spend policy; null or empty fields don't restrict. */
+export interface AuthorizationPolicyState {
+  name: string;
+  allowedMerchantCategories: string[];
+  blockedMerchantCategories: string[];
+  perTransactionLimit: number | null;
+  dailyLimit: number | null;
+  monthlyLimit: number | null;
+  allowedWeekdays: number[]; // 0 = Sunday
+  allowedHoursStart: number | null;
+  allowedHoursEnd: number | null;
+  timezone: string;
+  allowedCountries: string[];
+}
+
+export interface AuthorizationRequest {
+  amount: number; // major units
+  currency: string;
+  merchantCategory: string;
+  merchantCategoryCode?: string | null; // four-digit MCC
+  merchantCountry?: string | null;
+  merchantName?: string | null;
+  merchantNetworkId?: string | null;
+}
+
+export interface AuthorizationDecision {
+  approved: boolean;
+  reasonCode: CardAuthorizationReasonCode;
+  reason: string;
+  spendCategory: string | null;
+  budgetId: string | null;
+  details: Record<string, unknown>;
+}
+
+// Stripe merchant_data.category values → company expense categories.
+// First match wins; unmatched merchants are not budget-checked.
+const MERCHANT_CATEGORY_RULES: Array<[RegExp, string]> = [
+  [/airline|air_carrier|airport|travel_agenc|hotel|motel|resort|lodging|car_rental|truck_.*rental|railroad|passenger_rail|bus_lines|taxicab|limousine|cruise|toll|parking/, 'Travel'],
+  [/advertising|marketing|direct_marketing|public_relations/, 'Marketing'],
+  [/software|computer_network|information_retrieval|digital_goods|data_processing/, 'Software'],
+  [/restaurant|eating_places|fast_food|caterer|bakeries|drinking_places|grocery|candy/, 'Food'],
+  [/legal_services|attorney|accounting|court_costs/, 'Legal'],
+  [/utilities|telecommunication|cable_satellite|electric|gas_and/, 'Utilities'],
+  [/computers_computer_peripheral|electronics|office_and_commercial_furniture|industrial_supplies|hardware|photographic/, 'Equipment'],
+  [/stationery|office_photographic|office_supplies|courier|postal|business_services|commercial_photography|copy_services/, 'Office'],
+];
+
+/** Map a Stripe merchant category to an expense/budget category, or null. */
+export function spendCategoryForMerchant(merchantCategory: string | null | undefined): string | null {
+  const value = String(merchantCategory || '').toLowerCase();
+  if (!value) return null;
+  for (const [pattern, category] of MERCHANT_CATEGORY_RULES) {
+    if (pattern.test(value)) return category;
+  }
+  return null;
+}
+
+/**
+ * Start of the current spending window, or null when the window is the
+ * single authorization (nothing to sum) or all time (sum everything).
+ */
+export function spendingWindowStart(interval: string | null | undefined, now: Date = new Date()): string | null {
+  const y = now.getUTCFullYear();
+  const m = now.getUTCMonth();
+  const d = now.getUTCDate();
+  switch (interval) {
+    case 'daily':
+      return new Date(Date.UTC(y, m, d)).toISOString();
+    case 'weekly': {
+      // ISO weeks start on Monday.
+      const offset = (now.getUTCDay() + 6) % 7;
+      return new Date(Date.UTC(y, m, d - offset)).toISOString();
+    }
+    case 'monthly':
+      return new Date(Date.UTC(y, m, 1)).toISOString();
+    case 'quarterly':
+      return new Date(Date.UTC(y, m - (m % 3), 1)).toISOString();
+    case 'yearly':
+    case 'annual':
+      return new Date(Date.UTC(y, 0, 1)).toISOString();
+    case 'all_time':
+      return new Date(0).toISOString();
+    default:
+      return null;
+  }
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return `${currency.toUpperCase()} ${amount.toFixed(2)}`;
+}
+
+function decline(
+  reasonCode: CardAuthorizationReasonCode,
+  reason: string,
+  extra: Partial<AuthorizationDecision> = {},
+): AuthorizationDecision {
+  return { approved: false, reasonCode, reason, spendCategory: null, budgetId: null, details: {}, ...extra };
+}
+
+function matchesCategory(list: string[] | null, merchantCategory: string): boolean {
+  return (list ?? []).some((c) => c.toLowerCase() === merchantCategory.toLowerCase());
+}
+
+// Policy lists mix category names and MCCs, so match either.
+function matchesMerchant(list: string[], request: AuthorizationRequest): boolean {
+  return matchesCategory(list, request.merchantCategory || '')
+    || (!!request.merchantCategoryCode && list.includes(request.merchantCategoryCode));
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Day of week (0 = Sunday) and hour (0-23) of `at` in `timezone`. */
+export function localWeekdayHour(at: Date, timezone: string): { weekday: number; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const weekday = WEEKDAYS.indexOf(parts.find((p) => p.type === 'weekday')?.value ?? '');
+  const hour = parseInt(parts.find((p) => p.type === 'hour')?.value ?? '0', 10);
+  return { weekday, hour };
+}
+
+function withinHours(hour: number, start: number | null, end: number | null): boolean {
+  if (start === null || end === null || start === end) return true;
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+function hourLabel(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+/**
+ * Decide a single authorization.
+ *
+ * `cardSpendInWindow` is the sum of approved authorizations on the card
+ * since `spendingWindowStart(card.spendingLimitInterval)`; it is ignored
+ * when the limit applies per authorization. `heldAmount` is the sum of
+ * approved authorizations not yet captured, which the card's balance
+ * has not been debited for. `budget` is the company's
+ * budget for the resolved spend category in the same currency, if any.
+ * `policySpend` is the card's approved spend since the start of the UTC
+ * day and month, for the policy's caps; time windows use `now` in the
+ * policy's timezone.
+ */
+export function decideCardAuthorization(input: {
+  card: AuthorizationCardState | null;
+  request: AuthorizationRequest;
+  cardSpendInWindow?: number;
+  heldAmount?: number;
+  budget?: AuthorizationBudgetState | null;
+  policy?: AuthorizationPolicyState | null;
+  policySpend?: { daily: number; monthly: number };
+  now?: Date;
+}): AuthorizationDecision {
+  const { card, request } = input;
+  const policy = input.policy ?? null;
+  const currency = request.currency.toUpperCase();
+  const amount = round2(request.amount);
+
+  if (!card) {
+    return decline('card_not_found', 'Card is not recognised');
+  }
+  if (card.status === 'frozen') {
+    return decline('card_frozen', 'Card is frozen');
+  }
+  if (card.status !== 'active') {
+    return decline('card_inactive', `Card is ${card.status}`);
+  }
+  if (card.currency.toUpperCase() !== currency) {
+    return decline('currency_mismatch', `Card only spends ${card.currency.toUpperCase()}`, {
+      details: { cardCurrency: card.currency.toUpperCase(), requestCurrency: currency },
+    });
+  }
+
+  if (card.usesRemaining !== undefined && card.usesRemaining !== null && card.usesRemaining <= 0) {
+    return decline('card_uses_exhausted', 'Card has already been used');
+  }
+  const lock = card.merchantLock;
+  const merchant = { name: request.merchantName ?? null, networkId: request.merchantNetworkId ?? null };
+  if (lock && !merchantLockMatches(lock, merchant)) {
+    return decline('merchant_locked', lock.name ? `Card only spends at ${lock.name}` : 'Card is locked to another merchant', {
+      details: { lockedMerchant: lock.name, merchantName: merchant.name },
+    });
+  }
+
+  const merchantCategory = request.merchantCategory || '';
+  const spendCategory = card.budgetCategory || spendCategoryForMerchant(merchantCategory);
+  const base = { spendCategory, budgetId: input.budget?.id ?? null };
+
+  if (merchantCategory && matchesCategory(card.blockedCategories, merchantCategory)) {
+    return decline('merchant_category_blocked', 'Merchant category is blocked on this card', {
+      ...base,
+      details: { merchantCategory },
+    });
+  }
+  if ((card.allowedCategories ?? []).length > 0 && !matchesCategory(card.allowedCategories, merchantCategory)) {
+    return decline('merchant_category_not_allowed', 'Merchant category is not allowed on this card', {
+      ...base,
+      details: { merchantCategory, allowedCategories: card.allowedCategories },
+    });
+  }
+
+  if (policy) {
+    const policyDetails = { policy: policy.name, merchantCategory, merchantCategoryCode: request.merchantCategoryCode ?? null };
+    if (matchesMerchant(policy.blockedMerchantCategories, request)) {
+      return decline('policy_merchant_blocked', `Merchant category is blocked by the ${policy.name} policy`, {
+        ...base,
+        details: policyDetails,
+      });
+    }
+    if (policy.allowedMerchantCategories.length > 0 && !matchesMerchant(policy.allowedMerchantCategories, request)) {
+      return decline('policy_merchant_not_allowed', `Merchant category is not allowed by the ${policy.name} policy`, {
+        ...base,
+        details: { ...policyDetails, allowedMerchantCategories: policy.allowedMerchantCategories },
+      });
+    }
+    const country = (request.merchantCountry || '').toUpperCase();
+    if (policy.allowedCountries.length > 0 && !policy.allowedCountries.some((c) => c.toUpperCase() === country)) {
+      return decline('policy_country_not_allowed', `Merchant country is not allowed by the ${policy.name} policy`, {
+        ...base,
+        details: { policy: policy.name, merchantCountry: country || null, allowedCountries: policy.allowedCountries },
+      });
+    }
+    if (policy.allowedWeekdays.length > 0 || policy.allowedHoursStart !== null) {
+      const { weekday, hour } = localWeekdayHour(input.now ?? new Date(), policy.timezone);
+      const dayAllowed = policy.allowedWeekdays.length === 0 || policy.allowedWeekdays.includes(weekday);
+      if (!dayAllowed || !withinHours(hour, policy.allowedHoursStart, policy.allowedHoursEnd)) {
+        const reason = dayAllowed && policy.allowedHoursStart !== null && policy.allowedHoursEnd !== null
+          ? `Card can only be used ${hourLabel(policy.allowedHoursStart)}–${hourLabel(policy.allowedHoursEnd)} ${policy.timezone}`
+          : `Card can't be used on ${WEEKDAYS[weekday]} under the ${policy.name} policy`;
+        return decline('policy_outside_allowed_time', reason, {
+          ...base,
+          details: { policy: policy.name, weekday, hour, timezone: policy.timezone },
+        });
+      }
+    }
+  }
+
+  const held = round2(input.heldAmount ?? 0);
+  if (round2(card.balance - held) < amount) {
+    return decline('insufficient_card_balance', 'Insufficient card balance', {
+      ...base,
+      details: { balance: round2(card.balance), held, amount },
+    });
+  }
+
+  if (card.limit > 0) {
+    const interval = card.spendingLimitInterval || 'per_authorization';
+    const priorSpend = interval === 'per_authorization' ? 0 : round2(input.cardSpendInWindow ?? 0);
+    if (round2(priorSpend + amount) > round2(card.limit)) {
+      const reason = interval === 'per_authorization'
+        ? `Over card limit of ${formatMoney(card.limit, currency)} per purchase`
+        : `Over ${interval.replace('_', ' ')} card limit of ${formatMoney(card.limit, currency)}`;
+      return decline('card_limit_exceeded', reason, {
+        ...base,
+        details: { limit: round2(card.limit), interval, priorSpend, amount },
+      });
+    }
+  }
+
+  if (policy) {
+    if (policy.perTransactionLimit !== null && amount > round2(policy.perTransactionLimit)) {
+      return decline('policy_transaction_cap_exceeded', `Over the ${policy.name} policy's ${formatMoney(policy.perTransactionLimit, currency)} per-purchase cap`, {
+        ...base,
+        details: { policy: policy.name, cap: round2(policy.perTransactionLimit), amount },
+      });
+    }
+    const caps: Array<['daily' | 'monthly', number | null, CardAuthorizationReasonCode]> = [
+      ['daily', policy.dailyLimit, 'policy_daily_cap_exceeded'],
+      ['monthly', policy.monthlyLimit, 'policy_monthly_cap_exceeded'],
+    ];
+    for (const [window, cap, reasonCode] of caps) {
+      if (cap === null) continue;
+      const priorSpend = round2(input.policySpend?.[window] ?? 0);
+      if (round2(priorSpend + amount) > round2(cap)) {
+        return decline(reasonCode, `Over the ${policy.name} policy's ${window} cap of ${formatMoney(cap, currency)}`, {
+          ...base,
+          details: { policy: policy.name, cap: round2(cap), priorSpend, amount },
+        });
+      }
+    }
+  }
+
+  const budget = input.budget;
+  if (budget) {
+    const remaining = round2(budget.limit - budget.spent - budget.committed);
+    if (remaining < amount) {
+      return decline('over_budget', `Over ${budget.category} budget`, {
+        ...base,
+        details: { budgetName: budget.name, remaining: Math.max(0, remaining), amount },
+      });
+    }
+  }
+
+  return {
+    approved: true,
+    reasonCode: 'approved',
+    reason: 'Approved',
+    ...base,
+    details: budget ? { budgetRemainingAfter: round2(budget.limit - budget.spent - budget.committed - amount) } : {},
+  };
+}
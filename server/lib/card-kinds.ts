@@ -0,0 +1,69 @@
+// Card kinds beyond the standing card.
+//
+// A single-use card allows one approved authorization: the approval uses
+// it up, so a second purchase is declined even before the first is
+// captured, and the capture cancels the card. A merchant-locked card
+// only spends at one merchant — the one named when it was issued, or
+// otherwise the first merchant a purchase is approved at. Stripe can't
+// lock a card to a merchant, so both are enforced by
+// decideCardAuthorization and recorded by storage.atomicCardAuthorization.
+
+export const CARD_KINDS = ['standard', 'single_use', 'merchant_locked'] as const;
+export type CardKind = typeof CARD_KINDS[number];
+
+/** The uses a new card of `kind` gets, or null for unlimited. */
+export function maxUsesForKind(kind: CardKind): number | null {
+  return kind === 'single_use' ? 1 : null;
+}
+
+/** Uses left on a card, or null when it isn't use-limited. */
+export function usesRemaining(card: { maxUses: number | null; useCount: number }): number | null {
+  if (card.maxUses === null || card.maxUses === undefined) return null;
+  return Math.max(0, card.maxUses - (card.useCount || 0));
+}
+
+export interface MerchantLock {
+  name: string | null;
+  networkId: string | null;
+}
+
+/** Lower-case letters and digits only, so "NETFLIX.COM" matches "Netflix". */
+export function normalizeMerchantName(name: string | null | undefined): string {
+  return String(name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Whether a merchant satisfies the lock. The network id is exact once
+ * known; a named merchant matches when the statement name contains it.
+ * A lock with neither hasn't been set yet and matches anything.
+ */
+export function merchantLockMatches(
+  lock: MerchantLock,
+  merchant: { name: string | null; networkId: string | null },
+): boolean {
+  if (lock.networkId && merchant.networkId) return lock.networkId === merchant.networkId;
+  const locked = normalizeMerchantName(lock.name);
+  if (!locked) return !lock.networkId;
+  return normalizeMerchantName(merchant.name).includes(locked);
+}
+
+/**
+ * The lock to store after an approved purchase on a merchant-locked
+ * card: the first merchant fills in whatever the lock is missing, and
+ * later purchases leave it unchanged (null).
+ */
+export function lockAfterApproval(
+  lock: MerchantLock,
+  merchant: { name: string | null; networkId: string | null },
+): MerchantLock | null {
+  if (lock.networkId || (!merchant.networkId && lock.name)) return null;
+  return {
+    name: lock.name || merchant.name,
+    networkId: merchant.networkId,
+  };
+}
+
+/** Whether a capture on the card should cancel it. */
+export function cancelAfterCapture(card: { status: string; maxUses: number | null; useCount: number }): boolean {
+  return card.status !== 'cancelled' && usesRemaining(card) === 0;
+}
@@ -0,0 +1,77 @@
+// Card programs: cards issued to company members under a spend policy.
+//
+// Every settled transaction on a member's card raises a DRAFT expense in
+// the member's name. The money has already left on the card, so the
+// draft is never reimbursed (payoutStatus 'not_applicable'); the member
+// attaches a receipt and submits it, and it is then approved like an
+// already-spent expense unless an approval policy or a receipt that
+// disagrees with the amount sends it to an approver.
+//
+// Policy enforcement itself lives in decideCardAuthorization.
+
+import { ExpenseStatus, type CompanyMember, type CreateExpense, type Expense } from "@shared/schema";
+import { spendCategoryForMerchant } from "./card-authorization";
+
+export const CARD_EXPENSE_TYPE = 'card';
+export const CARD_EXPENSE_PAYOUT_STATUS = 'not_applicable';
+
+/** Whether `timezone` is an IANA zone this runtime knows. */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The draft expense for a transaction on a member's card. */
+export function cardExpenseDraft(
+  card: { companyId: string | null; last4: string; budgetCategory: string | null },
+  member: Pick<CompanyMember, 'id' | 'userId' | 'name' | 'email' | 'department' | 'departmentId'>,
+  cardTransaction: { id: string; amount: string; currency: string; merchant: string; category: string; date: string },
+): CreateExpense {
+  return {
+    merchant: cardTransaction.merchant,
+    amount: cardTransaction.amount,
+    currency: cardTransaction.currency,
+    date: cardTransaction.date.slice(0, 10),
+    category: card.budgetCategory || spendCategoryForMerchant(cardTransaction.category) || 'Other',
+    status: ExpenseStatus.DRAFT,
+    user: member.name || member.email,
+    // Invited members who haven't signed up yet have no user id.
+    userId: member.userId || member.id,
+    companyId: card.companyId,
+    department: member.department || 'General',
+    departmentId: member.departmentId ?? null,
+    note: `Card ending ${card.last4}`,
+    receiptUrl: null,
+    expenseType: CARD_EXPENSE_TYPE,
+    attachments: [],
+    taggedReviewers: [],
+    vendorId: null,
+    payoutStatus: CARD_EXPENSE_PAYOUT_STATUS,
+    payoutId: null,
+    cardTransactionId: cardTransaction.id,
+    receiptRequired: true,
+  };
+}
+
+/** Why the card draft can't be submitted with `receiptUrl`, or null. */
+export function cardExpenseSubmitProblem(
+  expense: Pick<Expense, 'status' | 'cardTransactionId' | 'receiptRequired' | 'receiptUrl'>,
+  receiptUrl: string | null | undefined,
+): string | null {
+  if (!expense.cardTransactionId) return 'Only card expenses are submitted this way';
+  if (expense.status !== ExpenseStatus.DRAFT) return 'Expense has already been submitted';
+  if (expense.receiptRequired && !(receiptUrl || expense.receiptUrl)) return 'Attach a receipt before submitting';
+  return null;
+}
+
+/** Status of a card draft once submitted. */
+export function submittedCardExpenseStatus(input: {
+  approvalSteps: number;
+  receiptAmountMismatch: boolean;
+}): typeof ExpenseStatus.PENDING | typeof ExpenseStatus.APPROVED {
+  return input.approvalSteps > 0 || input.receiptAmountMismatch ? ExpenseStatus.PENDING : ExpenseStatus.APPROVED;
+}
@@ -5,11 +5,12 @@
  * - Audit logs: 1 year (financial compliance requirement)
  * - Read notifications: 90 days
  * - Processed webhooks: 30 days (idempotency window)
+ * - Idempotency keys: once expired (24h after they were claimed)
  *
  * Runs every 24 hours. Deletes in batches to avoid locking.
  */
 import { db } from "../db";
-import { auditLogs, notifications, processedWebhooks } from "@shared/schema";
+import { auditLogs, notifications, processedWebhooks, idempotencyKeys } from "@shared/schema";
 import { lt, and, eq } from "drizzle-orm";
 import { logger } from "./logger";
 
@@ -57,6 +58,13 @@ async function cleanupProcessedWebhooks(): Promise<number> {
   return result.rowCount ?? 0;
 }
 
+async function cleanupExpiredIdempotencyKeys(): Promise<number> {
+  const result = await db
+    .delete(idempotencyKeys)
+    .where(lt(idempotencyKeys.expiresAt, new Date().toISOString()));
+  return result.rowCount ?? 0;
+}
+
 async function runRetentionCleanup() {
   logger.info('[Retention] Starting data retention cleanup');
 
@@ -64,12 +72,14 @@ async function runRetentionCleanup() {
     const auditCount = await cleanupAuditLogs();
     const notifCount = await cleanupReadNotifications();
     const webhookCount = await cleanupProcessedWebhooks();
+    const idempotencyCount = await cleanupExpiredIdempotencyKeys();
 
     logger.info({
       event: 'retention_cleanup_complete',
       auditLogsDeleted: auditCount,
       readNotificationsDeleted: notifCount,
       processedWebhooksDeleted: webhookCount,
+      idempotencyKeysDeleted: idempotencyCount,
     }, '[Retention] Cleanup complete');
   } catch (err) {
     logger.error({ err }, '[Retention] Cleanup failed');
@@ -0,0 +1,96 @@
+// Invoice dunning: which reminder an open invoice is due for.
+//
+// A company's schedule is a list of steps, each an offset in days from
+// the invoice's due date (negative = before it). On each scheduler tick
+// an invoice gets at most one reminder: the latest step whose date has
+// arrived, unless that step was already sent. Steps that were missed
+// (schedule enabled late, scheduler down) are not sent in a burst —
+// reaching a later step supersedes them.
+//
+// A step may add a late fee, fixed or a percentage of the amount still
+// due. It is charged once, when that step's reminder goes out.
+
+export type LateFee = { type: 'fixed' | 'percent'; value: number };
+
+export interface DunningStep {
+  offsetDays: number;
+  lateFee?: LateFee | null;
+}
+
+export const DEFAULT_DUNNING_STEPS: DunningStep[] = [
+  { offsetDays: -3 },
+  { offsetDays: 0 },
+  { offsetDays: 7 },
+  { offsetDays: 14 },
+];
+
+export const MAX_DUNNING_STEPS = 10;
+const MIN_OFFSET = -60;
+const MAX_OFFSET = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/** The calendar date (YYYY-MM-DD) a step falls on for an invoice. */
+export function stepDate(dueDate: string, offsetDays: number): string {
+  const due = new Date(`${dueDate.slice(0, 10)}T00:00:00Z`);
+  return new Date(due.getTime() + offsetDays * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * The step to send now, or null. `sentOffsets` are the offsets already
+ * reminded for this invoice.
+ */
+export function nextDunningStep(
+  dueDate: string,
+  steps: DunningStep[],
+  sentOffsets: number[],
+  now: Date = new Date(),
+): DunningStep | null {
+  const today = now.toISOString().slice(0, 10);
+  const reached = steps
+    .filter((s) => stepDate(dueDate, s.offsetDays) <= today)
+    .sort((a, b) => b.offsetDays - a.offsetDays);
+  const latest = reached[0];
+  if (!latest || sentOffsets.includes(latest.offsetDays)) return null;
+  // Anything after a step already sent is new; anything before it is stale.
+  if (sentOffsets.some((o) => o > latest.offsetDays)) return null;
+  return latest;
+}
+
+export function lateFeeAmount(fee: LateFee | null | undefined, amountDue: number): number {
+  if (!fee || !(fee.value > 0) || !(amountDue > 0)) return 0;
+  return fee.type === 'percent' ? round(amountDue * fee.value / 100) : round(fee.value);
+}
+
+/** Opening line of the reminder email for a step. */
+export function reminderMessage(offsetDays: number, invoiceNumber: string, dueDate: string): string {
+  if (offsetDays < 0) {
+    const days = -offsetDays;
+    return `This is a friendly reminder that invoice ${invoiceNumber} is due in ${days} day${days === 1 ? '' : 's'}, on ${dueDate}.`;
+  }
+  if (offsetDays === 0) return `Invoice ${invoiceNumber} is due today.`;
+  return `Invoice ${invoiceNumber} was due on ${dueDate} and is now ${offsetDays} day${offsetDays === 1 ? '' : 's'} overdue.`;
+}
+
+/** Problems with a schedule's steps; empty when it can be saved. */
+export function dunningStepProblems(steps: DunningStep[]): string[] {
+  const problems: string[] = [];
+  if (steps.length > MAX_DUNNING_STEPS) problems.push(`A schedule can have at most ${MAX_DUNNING_STEPS} steps`);
+  const seen = new Set<number>();
+  for (const step of steps) {
+    if (!Number.isInteger(step.offsetDays) || step.offsetDays < MIN_OFFSET || step.offsetDays > MAX_OFFSET) {
+      problems.push(`Offset ${step.offsetDays} must be a whole number of days between ${MIN_OFFSET} and ${MAX_OFFSET}`);
+    }
+    if (seen.has(step.offsetDays)) problems.push(`Offset ${step.offsetDays} appears more than once`);
+    seen.add(step.offsetDays);
+    if (step.lateFee) {
+      if (step.offsetDays <= 0) problems.push(`A late fee can only be added after the due date (offset ${step.offsetDays})`);
+      if (!(step.lateFee.value > 0)) problems.push(`The late fee at offset ${step.offsetDays} must be greater than zero`);
+      if (step.lateFee.type === 'percent' && step.lateFee.value > 100) {
+        problems.push(`The late fee at offset ${step.offsetDays} cannot exceed 100%`);
+      }
+    }
+  }
+  return problems;
+}
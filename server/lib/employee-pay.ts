@@ -0,0 +1,120 @@
+// Employee self-service pay: which payroll records are the signed-in
+// employee's own, and their pay for a tax year.
+//
+// Payroll entries name the employee by id and email; the id is the
+// user's id when the entry was raised for a team member, but entries
+// keyed by email alone are theirs too. Payslips come from payroll run
+// items — the frozen copy that was paid — and an item reversed after
+// payment stays in the history but counts for nothing.
+//
+// The tax year is the calendar year of the pay date. Where the
+// authority's year differs (UK from 6 April, for instance) the annual
+// certificate is a summary, not the statutory form.
+
+import type { StatutoryLine } from "./statutory-deductions";
+
+export interface EmployeeIdentity {
+  userId: string;
+  email: string | null | undefined;
+}
+
+// Run item statuses that reached the employee (or were booked back).
+export const PAYSLIP_ITEM_STATUSES = ['processing', 'reversed'];
+
+export interface PaidItem {
+  runName: string;
+  payDate: string;
+  currency: string;
+  salary: number;
+  bonus: number;
+  deductions: number;
+  deductionBreakdown: { tax: number; pension: number; insurance: number; other: number } | null;
+  statutoryLines: StatutoryLine[] | null;
+  employerContributions: number;
+  netPay: number;
+  status: string;
+}
+
+export interface PayYear {
+  year: number;
+  currency: string | null;
+  payslips: number;
+  salary: number;
+  bonus: number;
+  gross: number;
+  tax: number;
+  pension: number;
+  insurance: number;
+  other: number;
+  deductions: number;
+  netPay: number;
+  employerContributions: number;
+  // Each statutory rule's total for the year, income tax first.
+  contributions: Array<{ code: string; name: string; authority: string; employee: number; employer: number }>;
+  months: Array<{ payDate: string; runName: string; gross: number; tax: number; deductions: number; netPay: number }>;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export function isOwnPayrollRecord(record: { employeeId: string; email?: string | null }, identity: EmployeeIdentity): boolean {
+  if (record.employeeId === identity.userId) return true;
+  const email = identity.email?.trim().toLowerCase();
+  return !!email && record.email?.trim().toLowerCase() === email;
+}
+
+export function payYear(payDate: string): number {
+  return Number(payDate.slice(0, 4));
+}
+
+/** The years with payslips, latest first. */
+export function payYears(items: Array<Pick<PaidItem, 'payDate'>>): number[] {
+  return Array.from(new Set(items.map((i) => payYear(i.payDate)))).sort((a, b) => b - a);
+}
+
+/**
+ * Totals for the tax year from the employee's paid items. Reversed items
+ * are left out; `asOf` (YYYY-MM-DD) cuts the year off for year-to-date.
+ */
+export function summarisePayYear(items: PaidItem[], year: number, asOf?: string): PayYear {
+  const counted = items
+    .filter((i) => i.status !== 'reversed' && payYear(i.payDate) === year && (!asOf || i.payDate.slice(0, 10) <= asOf))
+    .sort((a, b) => a.payDate.localeCompare(b.payDate));
+
+  const sum = (pick: (i: PaidItem) => number) => round(counted.reduce((s, i) => s + pick(i), 0));
+  const byCode = new Map<string, PayYear['contributions'][number]>();
+  for (const item of counted) {
+    for (const line of item.statutoryLines ?? []) {
+      const total = byCode.get(line.code) ?? { code: line.code, name: line.name, authority: line.authority, employee: 0, employer: 0 };
+      total.employee = round(total.employee + line.employee);
+      total.employer = round(total.employer + line.employer);
+      byCode.set(line.code, total);
+    }
+  }
+  const contributions = Array.from(byCode.values())
+    .sort((a, b) => Number(b.code.endsWith('_PAYE')) - Number(a.code.endsWith('_PAYE')));
+
+  return {
+    year,
+    currency: counted[0]?.currency ?? null,
+    payslips: counted.length,
+    salary: sum((i) => i.salary),
+    bonus: sum((i) => i.bonus),
+    gross: sum((i) => i.salary + i.bonus),
+    tax: sum((i) => i.deductionBreakdown?.tax ?? 0),
+    pension: sum((i) => i.deductionBreakdown?.pension ?? 0),
+    insurance: sum((i) => i.deductionBreakdown?.insurance ?? 0),
+    other: sum((i) => i.deductionBreakdown?.other ?? (i.deductionBreakdown ? 0 : i.deductions)),
+    deductions: sum((i) => i.deductions),
+    netPay: sum((i) => i.netPay),
+    employerContributions: sum((i) => i.employerContributions),
+    contributions,
+    months: counted.map((i) => ({
+      payDate: i.payDate,
+      runName: i.runName,
+      gross: round(i.salary + i.bonus),
+      tax: i.deductionBreakdown?.tax ?? 0,
+      deductions: i.deductions,
+      netPay: i.netPay,
+    })),
+  };
+}
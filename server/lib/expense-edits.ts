@@ -0,0 +1,43 @@
+// Edits to an expense, including ones made offline on mobile and sent
+// when the device is back online.
+//
+// The submitter can change the details of their own expense while it is
+// still waiting (pending, sent back for changes, or a card draft) without
+// the transaction PIN, since no money moves; status changes and edits to
+// someone else's expense still need it. An edit that carries the status
+// its client last saw is refused when the expense has moved on since.
+
+import { ExpenseStatus, type Expense } from "@shared/schema";
+
+const EDITABLE_BY_SUBMITTER: string[] = [ExpenseStatus.PENDING, ExpenseStatus.CHANGES_REQUESTED, ExpenseStatus.DRAFT];
+
+/** The 409 body for an edit made against a status the expense has left, or null. */
+export function expenseEditConflict<E extends Pick<Expense, 'status'>>(expense: E, baseStatus: string | undefined) {
+  if (!baseStatus || baseStatus.toUpperCase() === expense.status.toUpperCase()) return null;
+  return {
+    error: `This expense is now ${expense.status.toLowerCase()}; your changes were not saved`,
+    code: 'EXPENSE_CONFLICT' as const,
+    expense,
+  };
+}
+
+/** Whether the caller may see the expense: they submitted it or belong to its company. */
+export function canSeeExpense(
+  expense: Pick<Expense, 'userId' | 'companyId'>,
+  userId: string | null | undefined,
+  companyIds: string[],
+): boolean {
+  if (userId && expense.userId === userId) return true;
+  return !!expense.companyId && companyIds.includes(expense.companyId);
+}
+
+/** Whether `update` only changes the details of the caller's own expense while it waits. */
+export function isSubmitterDetailEdit(
+  update: { status?: string; rejectionReason?: string },
+  expense: Pick<Expense, 'status' | 'userId'>,
+  userId: string | null | undefined,
+): boolean {
+  if (!userId || expense.userId !== userId) return false;
+  if (update.status !== undefined || update.rejectionReason !== undefined) return false;
+  return EDITABLE_BY_SUBMITTER.includes(expense.status.toUpperCase());
+}
@@ -0,0 +1,67 @@
+// Locked FX quotes for converting between a company's own wallets.
+//
+// A quote prices a conversion from the source wallet's currency into the
+// target wallet's at the market rate less the buy markup from
+// exchange_rate_settings (the company is buying the target currency), and
+// holds that rate for FX_QUOTE_TTL_SECONDS. Accepting it inside the
+// window moves exactly the quoted amounts; the difference between the
+// market and quoted target amounts is the realized FX margin, kept on the
+// quote for reporting.
+
+export const FX_QUOTE_TTL_SECONDS = 60;
+
+export type FxQuoteStatus = 'open' | 'accepted';
+
+export interface FxQuotePrice {
+  marketRate: number;
+  customerRate: number;
+  markupPercent: number;
+  sourceAmount: number;
+  targetAmount: number;
+  marginAmount: number; // in the target currency
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function round6(n: number): number {
+  return Math.round(n * 1e6) / 1e6;
+}
+
+/**
+ * Target units per source unit from a stored rate in either direction,
+ * or null when neither is usable.
+ */
+export function marketRateFrom(direct: number | null | undefined, inverse: number | null | undefined): number | null {
+  if (direct && direct > 0) return direct;
+  if (inverse && inverse > 0) return round6(1 / inverse);
+  return null;
+}
+
+/** Price a conversion of `sourceAmount` at `marketRate` less the markup. */
+export function priceFxQuote(input: { sourceAmount: number; marketRate: number; markupPercent: number }): FxQuotePrice {
+  const sourceAmount = round2(input.sourceAmount);
+  const customerRate = round6(input.marketRate * (1 - input.markupPercent / 100));
+  const targetAmount = round2(sourceAmount * customerRate);
+  return {
+    marketRate: input.marketRate,
+    customerRate,
+    markupPercent: input.markupPercent,
+    sourceAmount,
+    targetAmount,
+    marginAmount: Math.max(0, round2(sourceAmount * input.marketRate - targetAmount)),
+  };
+}
+
+/** When a quote created at `createdAt` stops being acceptable. */
+export function fxQuoteExpiry(createdAt: Date): string {
+  return new Date(createdAt.getTime() + FX_QUOTE_TTL_SECONDS * 1000).toISOString();
+}
+
+/** Why a quote can't be accepted at `now`, or null if it can. */
+export function fxQuoteAcceptProblem(quote: { status: string; expiresAt: string }, now: Date = new Date()): string | null {
+  if (quote.status !== 'open') return 'This quote has already been accepted';
+  if (new Date(quote.expiresAt).getTime() <= now.getTime()) return 'This quote has expired, request a new one';
+  return null;
+}
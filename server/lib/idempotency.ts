@@ -0,0 +1,87 @@
+// Idempotency-Key handling for money-moving endpoints.
+//
+// A client that may retry (a web double-submit, mobile's offline queue, an
+// API client after a timeout) sends the same Idempotency-Key with each
+// attempt. The first attempt claims the key with a fingerprint of the
+// request; later attempts with the same fingerprint get the stored
+// response back, and attempts that reuse the key for a different request
+// are refused with a 422. Keys belong to one caller and lapse after
+// IDEMPOTENCY_KEY_TTL_HOURS. A running attempt renews its claim every
+// IDEMPOTENCY_LEASE_RENEW_SECONDS; one that stops (the instance died
+// mid-request) holds its key for at most IDEMPOTENCY_PROCESSING_LEASE_MINUTES,
+// after which a retry of the same request may claim it and run.
+
+import { createHash } from "crypto";
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+export const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+export const IDEMPOTENCY_PROCESSING_LEASE_MINUTES = 5;
+export const IDEMPOTENCY_LEASE_RENEW_SECONDS = 60;
+const MAX_KEY_LENGTH = 255;
+
+export type IdempotencyKeyStatus = 'processing' | 'completed';
+
+/** Why a header value can't be used as a key, or null if it can. */
+export function idempotencyKeyProblem(key: string): string | null {
+  if (key.length === 0) return 'Idempotency-Key must not be empty';
+  if (key.length > MAX_KEY_LENGTH) return `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`;
+  if (!/^[\x21-\x7e]+$/.test(key)) return 'Idempotency-Key must be printable ASCII without spaces';
+  return null;
+}
+
+/** JSON with object keys sorted, so key order doesn't change a fingerprint. */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/** SHA-256 of the method, path (without query) and body of a request. */
+export function requestFingerprint(request: { method: string; path: string; body: unknown }): string {
+  return createHash('sha256')
+    .update(`${request.method.toUpperCase()} ${request.path.split('?')[0]}\n${canonicalJson(request.body ?? {})}`)
+    .digest('hex');
+}
+
+/** When a key whose response was stored at `completedAt` may be used again. */
+export function idempotencyKeyExpiry(completedAt: Date): string {
+  return new Date(completedAt.getTime() + IDEMPOTENCY_KEY_TTL_HOURS * 3600 * 1000).toISOString();
+}
+
+/** When a retry may take over a key claimed at `claimedAt` that is still processing. */
+export function idempotencyLeaseExpiry(claimedAt: Date): string {
+  return new Date(claimedAt.getTime() + IDEMPOTENCY_PROCESSING_LEASE_MINUTES * 60 * 1000).toISOString();
+}
+
+/**
+ * Only final answers are kept. A 5xx means the handler didn't finish, so
+ * the claim is dropped and a retry runs the request again.
+ */
+export function isReplayableStatus(statusCode: number): boolean {
+  return statusCode < 500;
+}
+
+export type IdempotencyDecision =
+  | { action: 'replay'; statusCode: number; body: unknown }
+  | { action: 'conflict'; reason: string }
+  | { action: 'in_progress' };
+
+/** What to do with a request whose key is already claimed by `existing`. */
+export function decideIdempotentRetry(
+  existing: { fingerprint: string; status: string; responseStatus: number | null; responseBody: unknown },
+  fingerprint: string,
+): IdempotencyDecision {
+  if (existing.fingerprint !== fingerprint) {
+    return { action: 'conflict', reason: 'This Idempotency-Key was already used for a different request' };
+  }
+  if (existing.status !== 'completed' || existing.responseStatus == null) {
+    return { action: 'in_progress' };
+  }
+  return { action: 'replay', statusCode: existing.responseStatus, body: existing.responseBody };
+}
@@ -0,0 +1,115 @@
+// What a client still owes on an invoice.
+//
+//   adjusted total = invoice amount − credit notes
+//   net paid       = payments − amounts refunded from them
+//   amount due     = adjusted total − net paid (never below zero)
+//
+// Every credit note lowers the invoice's value. 'credit' and 'write_off'
+// notes settle that against the outstanding balance, so they may not
+// exceed it. A 'refund' note settles it by giving money back through one
+// payment, so it may not exceed what is left of that payment, and the
+// amount due is unchanged. A refund the provider rejected no longer
+// counts.
+//
+// Invoices marked paid before payments were recorded have no payments;
+// those count as paid in full.
+
+export const CREDIT_NOTE_KINDS = ['credit', 'write_off', 'refund'] as const;
+export type CreditNoteKind = typeof CREDIT_NOTE_KINDS[number];
+
+export const REFUND_PROVIDERS = ['stripe', 'paystack'];
+
+const COUNTED_STATUSES = ['issued', 'refund_pending', 'refunded'];
+
+export interface BalancePayment {
+  amount: number;
+  refundedAmount: number;
+}
+
+export interface BalanceCreditNote {
+  kind: string;
+  amount: number;
+  status: string;
+}
+
+export interface InvoiceBalance {
+  invoiceAmount: number;
+  credited: number;
+  adjustedTotal: number;
+  paid: number;
+  refunded: number;
+  netPaid: number;
+  amountDue: number;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export function invoiceBalance(
+  invoice: { amount: number; status: string },
+  payments: BalancePayment[],
+  creditNotes: BalanceCreditNote[],
+): InvoiceBalance {
+  const credited = round(creditNotes
+    .filter((n) => COUNTED_STATUSES.includes(n.status))
+    .reduce((sum, n) => sum + n.amount, 0));
+  const legacyPaid = payments.length === 0 && invoice.status === 'paid';
+  const paid = round(legacyPaid ? invoice.amount : payments.reduce((sum, p) => sum + p.amount, 0));
+  const refunded = round(payments.reduce((sum, p) => sum + p.refundedAmount, 0));
+  const adjustedTotal = round(invoice.amount - credited);
+  const netPaid = round(paid - refunded);
+  return {
+    invoiceAmount: invoice.amount,
+    credited,
+    adjustedTotal,
+    paid,
+    refunded,
+    netPaid,
+    amountDue: Math.max(0, round(adjustedTotal - netPaid)),
+  };
+}
+
+/** What is left of a payment to refund. */
+export function refundableAmount(payment: BalancePayment): number {
+  return Math.max(0, round(payment.amount - payment.refundedAmount));
+}
+
+/** Why a credit note cannot be issued, or null when it can. */
+export function creditNoteProblem(
+  kind: string,
+  amount: number,
+  balance: InvoiceBalance,
+  payment?: BalancePayment | null,
+): string | null {
+  if (!(CREDIT_NOTE_KINDS as readonly string[]).includes(kind)) return `Unknown credit note kind '${kind}'`;
+  if (!(amount > 0)) return 'Credit note amount must be greater than zero';
+  if (kind === 'refund') {
+    if (!payment) return 'A refund must name the payment it is returned through';
+    const refundable = refundableAmount(payment);
+    if (amount > refundable + 0.005) return `Only ${refundable.toFixed(2)} of that payment is left to refund`;
+    return null;
+  }
+  if (amount > balance.amountDue + 0.005) {
+    return `Credit exceeds the outstanding balance of ${balance.amountDue.toFixed(2)}`;
+  }
+  return null;
+}
+
+/**
+ * The invoice status implied by its balance. Cancelled invoices keep
+ * their status; one settled entirely by credit notes is 'credited'.
+ */
+export function resolveInvoiceStatus(
+  balance: InvoiceBalance,
+  currentStatus: string,
+  dueDate: string,
+  now: Date = new Date(),
+): string {
+  if (currentStatus === 'cancelled') return currentStatus;
+  if (balance.amountDue <= 0) return balance.netPaid > 0 ? 'paid' : 'credited';
+  if (balance.netPaid > 0) return 'partially_paid';
+  if (currentStatus === 'draft') return currentStatus;
+  if (new Date(dueDate) < now) return 'overdue';
+  // Open again after a refund, or a due date moved out.
+  if (['paid', 'partially_paid', 'credited', 'overdue'].includes(currentStatus)) return 'sent';
+  return currentStatus;
+}
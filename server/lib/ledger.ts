@@ -0,0 +1,240 @@
+// Double-entry ledger — posting rules.
+//
+// Every money movement that storage.ts records in walletTransactions,
+// transactions or company_balances also posts a journal entry into
+// ledger_accounts / journal_entries / ledger_postings (shared/schema.ts).
+// Postings carry a signed amount: positive = debit, negative = credit.
+// An entry is only valid when its postings sum to zero in every
+// currency it touches; `assertBalanced` enforces that before anything
+// is written, and migrations/0018_double_entry_ledger.sql repeats the
+// check in a deferred constraint trigger.
+//
+// Accounts are booked from the company's point of view: wallets, cards
+// and company balances are assets, so a wallet's ledger balance (sum
+// of its postings) must equal wallets.balance. The counter-leg of a
+// single-sided wallet movement is a per-company clearing account chosen
+// from the walletTransactions.type.
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+
+export interface LedgerAccountRef {
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  currency: string;
+  companyId: string | null;
+  walletId?: string | null;
+}
+
+export interface LedgerLeg {
+  account: LedgerAccountRef;
+  // Signed, major units. Positive = debit, negative = credit.
+  amount: number;
+}
+
+export interface JournalEntryDraft {
+  companyId: string | null;
+  description: string;
+  sourceType: string;
+  sourceId?: string | null;
+  reference?: string | null;
+  idempotencyKey?: string | null;
+  metadata?: Record<string, unknown>;
+  legs: LedgerLeg[];
+}
+
+export const COMPANY_ACCOUNTS = {
+  funding_clearing: { name: 'Funding clearing', type: 'equity' },
+  payout_clearing: { name: 'Payouts in transit', type: 'asset' },
+  transfer_clearing: { name: 'Wallet transfer clearing', type: 'asset' },
+  card_clearing: { name: 'Card funding clearing', type: 'asset' },
+  fx_conversion: { name: 'FX conversion', type: 'equity' },
+  bill_expense: { name: 'Bill payments', type: 'expense' },
+  utility_expense: { name: 'Utility payments', type: 'expense' },
+  invoice_revenue: { name: 'Invoice receipts', type: 'revenue' },
+  opening_balance: { name: 'Opening balance equity', type: 'equity' },
+  suspense: { name: 'Suspense', type: 'asset' },
+} as const satisfies Record<string, { name: string; type: LedgerAccountType }>;
+
+export type CompanyAccountKey = keyof typeof COMPANY_ACCOUNTS;
+
+// walletTransactions.type → clearing account for the other side of the
+// entry. Reversal-style types map to the same account as the movement
+// they undo so the clearing account nets back to zero. Unknown types
+// land in `suspense`, which the integrity report surfaces.
+const WALLET_TX_COUNTER_ACCOUNT: Record<string, CompanyAccountKey> = {
+  funding: 'funding_clearing',
+  deposit: 'funding_clearing',
+  virtual_account_funding: 'funding_clearing',
+  refund: 'funding_clearing',
+  withdrawal: 'payout_clearing',
+  transfer_out: 'payout_clearing',
+  payout: 'payout_clearing',
+  transfer_refund: 'payout_clearing',
+  transfer_reversal: 'payout_clearing',
+  failed_transfer_reversal: 'payout_clearing',
+  wallet_transfer: 'transfer_clearing',
+  wallet_transfer_in: 'transfer_clearing',
+  card_funding: 'card_clearing',
+  bill_payment: 'bill_expense',
+  utility_payment: 'utility_expense',
+  utility_reversal: 'utility_expense',
+  invoice_payment: 'invoice_revenue',
+};
+
+export function counterAccountKeyForWalletTx(type: string): CompanyAccountKey {
+  return WALLET_TX_COUNTER_ACCOUNT[type] ?? 'suspense';
+}
+
+export function toMinorUnits(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+export function walletAccount(wallet: { id: string; currency: string; companyId: string | null }): LedgerAccountRef {
+  return {
+    code: `wallet:${wallet.id}`,
+    name: `Wallet ${wallet.id}`,
+    type: 'asset',
+    currency: wallet.currency,
+    companyId: wallet.companyId,
+    walletId: wallet.id,
+  };
+}
+
+export function cardAccount(cardId: string, currency: string, companyId: string | null): LedgerAccountRef {
+  return {
+    code: `card:${cardId}`,
+    name: `Card ${cardId}`,
+    type: 'asset',
+    currency,
+    companyId,
+  };
+}
+
+export function companyBalanceAccount(companyId: string, field: 'usd' | 'local', currency: string): LedgerAccountRef {
+  return {
+    code: `${companyId}:company_balance:${field}`,
+    name: field === 'usd' ? 'Company balance (USD)' : 'Company balance (local)',
+    type: 'asset',
+    currency,
+    companyId,
+  };
+}
+
+export function companyAccount(companyId: string | null, key: CompanyAccountKey, currency: string): LedgerAccountRef {
+  const def = COMPANY_ACCOUNTS[key];
+  return {
+    code: `${companyId ?? 'platform'}:${key}`,
+    name: def.name,
+    type: def.type,
+    currency,
+    companyId,
+  };
+}
+
+/**
+ * Legs for a single-sided wallet movement (fund, withdraw, bill, refund…).
+ * The wallet is debited on a credit to the wallet balance and vice versa;
+ * the counter-leg goes to the clearing account for `type`, or to the
+ * card's own account when a card funding names its card.
+ */
+export function walletMovementLegs(input: {
+  wallet: { id: string; currency: string; companyId: string | null };
+  direction: 'credit' | 'debit';
+  amount: number;
+  type: string;
+  metadata?: Record<string, unknown> | null;
+}): LedgerLeg[] {
+  const { wallet, direction, amount, type, metadata } = input;
+  const signed = direction === 'credit' ? amount : -amount;
+  const cardId = typeof metadata?.cardId === 'string' ? metadata.cardId : null;
+  const counter = type === 'card_funding' && cardId
+    ? cardAccount(cardId, wallet.currency, wallet.companyId)
+    : companyAccount(wallet.companyId, counterAccountKeyForWalletTx(type), wallet.currency);
+  return [
+    { account: walletAccount(wallet), amount: signed },
+    { account: counter, amount: -signed },
+  ];
+}
+
+/**
+ * Legs for a wallet-to-wallet transfer. Same-currency transfers are a
+ * straight two-leg entry. Cross-currency transfers route through the
+ * source company's `fx_conversion` account in both currencies so each
+ * currency still nets to zero on its own.
+ */
+export function walletTransferLegs(input: {
+  source: { id: string; currency: string; companyId: string | null };
+  dest: { id: string; currency: string; companyId: string | null };
+  amount: number;
+  destAmount: number;
+}): LedgerLeg[] {
+  const { source, dest, amount, destAmount } = input;
+  if (source.currency === dest.currency && toMinorUnits(amount) === toMinorUnits(destAmount)) {
+    return [
+      { account: walletAccount(source), amount: -amount },
+      { account: walletAccount(dest), amount },
+    ];
+  }
+  return [
+    { account: walletAccount(source), amount: -amount },
+    { account: companyAccount(source.companyId, 'fx_conversion', source.currency), amount },
+    { account: companyAccount(source.companyId, 'fx_conversion', dest.currency), amount: -destAmount },
+    { account: walletAccount(dest), amount: destAmount },
+  ];
+}
+
+/** Net of the legs per currency, in minor units. */
+export function sumByCurrency(legs: Array<{ amount: number; currency?: string; account?: { currency: string } }>): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const leg of legs) {
+    const currency = (leg.currency ?? leg.account?.currency ?? '').toUpperCase();
+    totals[currency] = (totals[currency] ?? 0) + toMinorUnits(leg.amount);
+  }
+  return totals;
+}
+
+/**
+ * Throws `LEDGER_UNBALANCED` unless the legs net to zero in every
+ * currency. Called inside the posting transaction, so a throw rolls
+ * back the business write it was attached to.
+ */
+export function assertBalanced(legs: LedgerLeg[]): void {
+  if (legs.length < 2) {
+    throw new Error('LEDGER_UNBALANCED: a journal entry needs at least two postings');
+  }
+  for (const leg of legs) {
+    if (!Number.isFinite(leg.amount)) {
+      throw new Error(`LEDGER_UNBALANCED: non-numeric amount on ${leg.account.code}`);
+    }
+  }
+  const totals = sumByCurrency(legs);
+  const off = Object.entries(totals).filter(([, minor]) => minor !== 0);
+  if (off.length > 0) {
+    const detail = off.map(([currency, minor]) => `${currency} ${(minor / 100).toFixed(2)}`).join(', ');
+    throw new Error(`LEDGER_UNBALANCED: entry does not net to zero (${detail})`);
+  }
+}
+
+export interface LedgerAccountBalance {
+  id: string;
+  companyId: string | null;
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  currency: string;
+  walletId: string | null;
+  balance: string;
+  postingCount: number;
+}
+
+export interface LedgerIntegrityReport {
+  balanced: boolean;
+  checkedAt: string;
+  // Net of every posting per currency. Must be 0.00 for each entry.
+  totalsByCurrency: Array<{ currency: string; net: string; postings: number }>;
+  unbalancedEntries: Array<{ entryId: string; currency: string; net: string }>;
+  // Denormalized balances that disagree with the sum of their postings.
+  walletDrift: Array<{ walletId: string; currency: string; walletBalance: string; ledgerBalance: string }>;
+  companyBalanceDrift: Array<{ field: 'usd' | 'local'; currency: string; storedBalance: string; ledgerBalance: string }>;
+}
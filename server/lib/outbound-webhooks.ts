@@ -0,0 +1,252 @@
+// Outbound webhooks: the events a company can subscribe an endpoint to,
+// how each delivery is signed, and when a failed one is retried.
+//
+// Every request carries a Spendly-Signature header in the form
+// `t=<unix seconds>,v1=<hex>`, where the hex is the HMAC-SHA256 of
+// `<t>.<raw body>` under the endpoint's secret. While a rotated-out
+// secret is still in its grace period the header carries a second v1
+// signed with it, so receivers can switch secrets without dropping events.
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { isIP } from "net";
+
+export const WEBHOOK_EVENTS = [
+  { type: 'expense.submitted', description: 'An expense was submitted for approval' },
+  { type: 'expense.approved', description: 'An expense was approved' },
+  { type: 'expense.rejected', description: 'An expense was rejected' },
+  { type: 'bill.paid', description: 'A bill was paid' },
+  { type: 'payout.completed', description: 'A payout reached its recipient' },
+  { type: 'payout.failed', description: 'A payout failed or was reversed' },
+  { type: 'invoice.sent', description: 'An invoice was sent to its client' },
+  { type: 'invoice.paid', description: 'An invoice was paid in full' },
+  { type: 'card.transaction.created', description: 'A card was charged' },
+  { type: 'payroll.run.paid', description: 'A payroll run was paid' },
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number]['type'];
+
+export const WEBHOOK_EVENT_TYPES = WEBHOOK_EVENTS.map((e) => e.type) as WebhookEventType[];
+
+// Subscribes an endpoint to every event, including ones added later.
+export const ALL_EVENTS = '*';
+
+export const SIGNATURE_HEADER = 'Spendly-Signature';
+
+// Attempts per delivery, the first included. With the backoff below the
+// last retry is a little over four hours after the event.
+export const MAX_DELIVERY_ATTEMPTS = 10;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_CAP_MS = 6 * 60 * 60 * 1000;
+
+// How long a rotated-out secret still signs deliveries.
+export const SECRET_ROTATION_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// How much of a receiver's response body the delivery log keeps.
+const RESPONSE_BODY_LIMIT = 2000;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+/** The secret as the dashboard lists it: enough to tell two apart. */
+export function maskWebhookSecret(secret: string): string {
+  return `whsec_…${secret.slice(-4)}`;
+}
+
+export function subscribesTo(events: string[] | null | undefined, type: string): boolean {
+  return (events ?? []).some((e) => e === ALL_EVENTS || e === type);
+}
+
+const NOT_PUBLIC = 'The endpoint must be publicly reachable';
+
+function ipv4IsPublic(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return !(a === 0 || a === 10 || a === 127 || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127)
+    || a >= 224);
+}
+
+// The eight 16-bit groups of an IPv6 address, with a dotted IPv4 tail
+// (::ffff:1.2.3.4) folded into the last two.
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().split('%')[0];
+  const tail = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (tail) {
+    const [, a, b, c, d] = tail.map(Number);
+    text = `${text.slice(0, -tail[0].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, rest] = text.split('::');
+  const part = (p: string | undefined) => (p ? p.split(':').map((g) => parseInt(g, 16)) : []);
+  const front = part(head);
+  const back = part(rest);
+  return rest === undefined ? front : [...front, ...Array(8 - front.length - back.length).fill(0), ...back];
+}
+
+function embeddedIpv4(hi: number, lo: number): string {
+  return [hi >> 8, hi & 0xff, lo >> 8, lo & 0xff].join('.');
+}
+
+/**
+ * False for addresses a webhook must never reach: loopback, private,
+ * link-local, carrier-grade NAT, multicast and unspecified ones, in IPv4
+ * or IPv6, including IPv4 addresses embedded in IPv6 (mapped, compatible,
+ * NAT64 and 6to4).
+ */
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address.split('%')[0]);
+  if (version === 4) return ipv4IsPublic(address);
+  if (version !== 6) return false;
+  const g = ipv6Groups(address);
+  const zeros = (n: number) => g.slice(0, n).every((x) => x === 0);
+  if (zeros(8)) return false; // ::
+  if (zeros(7) && g[7] === 1) return false; // ::1
+  if (zeros(5) && g[5] === 0xffff) return ipv4IsPublic(embeddedIpv4(g[6], g[7])); // ::ffff:0:0/96
+  if (zeros(6)) return ipv4IsPublic(embeddedIpv4(g[6], g[7])); // ::/96, IPv4-compatible
+  if (g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every((x) => x === 0)) {
+    return ipv4IsPublic(embeddedIpv4(g[6], g[7])); // 64:ff9b::/96, NAT64
+  }
+  if (g[0] === 0x2002) return ipv4IsPublic(embeddedIpv4(g[1], g[2])); // 2002::/16, 6to4
+  if ((g[0] & 0xfe00) === 0xfc00) return false; // fc00::/7, unique local
+  if ((g[0] & 0xffc0) === 0xfe80 || (g[0] & 0xffc0) === 0xfec0) return false; // link- and site-local
+  if ((g[0] & 0xff00) === 0xff00) return false; // multicast
+  return true;
+}
+
+/**
+ * Why the URL can't receive webhooks, or null if it can. Only public
+ * HTTPS hosts: the request is made from our network, so loopback and
+ * private addresses are refused. A host name is checked again against
+ * what it resolves to on every delivery (resolvedAddressProblem).
+ */
+export function endpointUrlProblem(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Enter a valid URL';
+  }
+  if (url.protocol !== 'https:') return 'The endpoint must use HTTPS';
+  if (url.username || url.password) return 'Put credentials in the signing secret, not the URL';
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return NOT_PUBLIC;
+  }
+  if (isIP(host) && !isPublicAddress(host)) return NOT_PUBLIC;
+  return null;
+}
+
+/** Why a host's resolved addresses can't be posted to, or null if all are public. */
+export function resolvedAddressProblem(addresses: Array<{ address: string }>): string | null {
+  if (addresses.length === 0) return 'The endpoint host did not resolve';
+  const blocked = addresses.find((a) => !isPublicAddress(a.address));
+  return blocked ? `${NOT_PUBLIC}; it resolves to ${blocked.address}` : null;
+}
+
+export type LookupAddress = { address: string; family: number };
+type LookupCallback = (err: Error | null, address: string | LookupAddress[], family?: number) => void;
+
+/**
+ * A `lookup` for http(s).request that resolves the host with `resolve`,
+ * refuses it unless every address is public, and hands back only the
+ * addresses it checked, so the socket connects to one of those and a DNS
+ * change between the check and the connection can't swap in another.
+ */
+export function guardedLookup(resolve: (hostname: string) => Promise<LookupAddress[]>) {
+  return (hostname: string, options: { all?: boolean } | number | undefined, callback: LookupCallback): void => {
+    resolve(hostname).then((addresses) => {
+      const problem = resolvedAddressProblem(addresses);
+      if (problem) return callback(new Error(problem), '');
+      if (typeof options === 'object' && options?.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    }, (err) => callback(err, ''));
+  };
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/** The secrets that sign a delivery now: the current one, then any still in grace. */
+export function signingSecrets(
+  endpoint: { secret: string; previousSecret?: string | null; previousSecretExpiresAt?: string | null },
+  now: Date,
+): string[] {
+  const secrets = [endpoint.secret];
+  if (endpoint.previousSecret && endpoint.previousSecretExpiresAt && new Date(endpoint.previousSecretExpiresAt) > now) {
+    secrets.push(endpoint.previousSecret);
+  }
+  return secrets;
+}
+
+export function webhookSignatureHeader(secrets: string[], timestamp: number, body: string): string {
+  return [`t=${timestamp}`, ...secrets.map((s) => `v1=${signWebhookPayload(s, timestamp, body)}`)].join(',');
+}
+
+/**
+ * What a receiver does with the header: true when one of its v1
+ * signatures matches and the timestamp is within `toleranceSeconds`.
+ */
+export function verifyWebhookSignature(
+  header: string,
+  body: string,
+  secret: string,
+  now: Date = new Date(),
+  toleranceSeconds = 300,
+): boolean {
+  const parts = header.split(',').map((p) => p.trim().split('='));
+  const timestamp = Number(parts.find(([k]) => k === 't')?.[1]);
+  if (!Number.isFinite(timestamp) || Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body), 'hex');
+  return parts
+    .filter(([k, v]) => k === 'v1' && v)
+    .some(([, v]) => {
+      const given = Buffer.from(v, 'hex');
+      return given.length === expected.length && timingSafeEqual(given, expected);
+    });
+}
+
+export interface WebhookEvent {
+  id: string;
+  type: string;
+  created: string;
+  companyId: string;
+  data: Record<string, unknown>;
+}
+
+/** The JSON body every endpoint receives for an event. */
+export function webhookEventBody(event: WebhookEvent): string {
+  return JSON.stringify({
+    id: event.id,
+    type: event.type,
+    created: event.created,
+    company_id: event.companyId,
+    data: event.data,
+  });
+}
+
+/** Wait before the attempt after `attempts` failed ones: doubling from 30 s. */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_CAP_MS);
+}
+
+/**
+ * Where a delivery stands after an attempt: delivered on any 2xx, else
+ * retried later until MAX_DELIVERY_ATTEMPTS have been made.
+ */
+export function deliveryOutcome(
+  attempts: number,
+  responseStatus: number | null,
+  now: Date,
+): { status: 'succeeded' | 'pending' | 'failed'; nextAttemptAt: string | null } {
+  if (responseStatus !== null && responseStatus >= 200 && responseStatus < 300) {
+    return { status: 'succeeded', nextAttemptAt: null };
+  }
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) return { status: 'failed', nextAttemptAt: null };
+  return { status: 'pending', nextAttemptAt: new Date(now.getTime() + retryDelayMs(attempts)).toISOString() };
+}
+
+export function truncateResponseBody(body: string): string {
+  return body.length > RESPONSE_BODY_LIMIT ? `${body.slice(0, RESPONSE_BODY_LIMIT)}…` : body;
+}
@@ -0,0 +1,133 @@
+// Payroll runs: a pay period's entries, approved and paid as one.
+//
+// Lifecycle:
+//   draft          — entries frozen into items; may be deleted
+//   approved       — signed off by an owner or admin (not the one who
+//                    drafted it, unless they are the only one)
+//   processing     — transfers going out
+//   partially_paid — some items still need banking details or failed;
+//                    paying again retries just those
+//   paid           — every item's transfer was initiated
+//   reversed       — cancelled before payment (entries go back to
+//                    pending) or reversed after it (paid items are
+//                    booked back)
+
+export const PAYROLL_RUN_STATUSES = ['draft', 'approved', 'processing', 'partially_paid', 'paid', 'reversed'] as const;
+export type PayrollRunStatus = typeof PAYROLL_RUN_STATUSES[number];
+
+export type PayrollRunAction = 'approve' | 'pay' | 'reverse' | 'delete';
+
+// Runs that still hold their entries: an entry can only be in one.
+export const OPEN_PAYROLL_RUN_STATUSES: PayrollRunStatus[] = ['draft', 'approved', 'processing', 'partially_paid'];
+
+const ALLOWED_FROM: Record<PayrollRunAction, PayrollRunStatus[]> = {
+  approve: ['draft'],
+  pay: ['approved', 'partially_paid'],
+  reverse: ['approved', 'partially_paid', 'paid'],
+  delete: ['draft'],
+};
+
+// Item statuses a payment attempt picks up.
+export const PAYABLE_ITEM_STATUSES = ['pending', 'failed', 'needs_banking_details'];
+
+export interface RunEntry {
+  salary: number;
+  bonus: number;
+  deductions: number;
+  netPay: number;
+  employerContributions: number;
+}
+
+export interface RunTotals {
+  employeeCount: number;
+  totalSalary: number;
+  totalBonus: number;
+  totalDeductions: number;
+  totalNet: number;
+  totalEmployerContributions: number;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/** The statuses a run must be in for the action, for conditional updates. */
+export function runStatusesFor(action: PayrollRunAction): PayrollRunStatus[] {
+  return ALLOWED_FROM[action];
+}
+
+/** Why the action can't be taken on a run in this status, or null. */
+export function runTransitionProblem(status: string, action: PayrollRunAction): string | null {
+  if ((ALLOWED_FROM[action] as string[]).includes(status)) return null;
+  const label = status.replace('_', ' ');
+  switch (action) {
+    case 'approve': return `Only a draft run can be approved; this one is ${label}`;
+    case 'pay': return `Only an approved run can be paid; this one is ${label}`;
+    case 'reverse': return `A ${label} run cannot be reversed`;
+    case 'delete': return `Only a draft run can be deleted; reverse it instead`;
+  }
+}
+
+export function runTotals(entries: RunEntry[]): RunTotals {
+  return {
+    employeeCount: entries.length,
+    totalSalary: round(entries.reduce((sum, e) => sum + e.salary, 0)),
+    totalBonus: round(entries.reduce((sum, e) => sum + e.bonus, 0)),
+    totalDeductions: round(entries.reduce((sum, e) => sum + e.deductions, 0)),
+    totalNet: round(entries.reduce((sum, e) => sum + e.netPay, 0)),
+    totalEmployerContributions: round(entries.reduce((sum, e) => sum + e.employerContributions, 0)),
+  };
+}
+
+/** Whether a pay date (YYYY-MM-DD) falls inside the run's period, inclusive. */
+export function inRunPeriod(payDate: string, periodStart: string, periodEnd: string): boolean {
+  const day = payDate.slice(0, 10);
+  return day >= periodStart && day <= periodEnd;
+}
+
+/** A default run name for the period, e.g. "March 2026 payroll". */
+export function defaultRunName(periodStart: string, periodEnd: string): string {
+  const start = new Date(`${periodStart}T00:00:00Z`);
+  const end = new Date(`${periodEnd}T00:00:00Z`);
+  const month = (d: Date) => d.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  return month(start) === month(end) ? `${month(start)} payroll` : `${periodStart} – ${periodEnd} payroll`;
+}
+
+/** The run's status once a payment attempt has settled every item. */
+export function statusAfterPayment(itemStatuses: string[]): PayrollRunStatus {
+  const initiated = itemStatuses.filter((s) => s === 'processing').length;
+  if (initiated === itemStatuses.length) return 'paid';
+  return initiated > 0 ? 'partially_paid' : 'approved';
+}
+
+/**
+ * Whether this approver may approve a run drafted by `createdBy`. The
+ * maker can't also be the checker, except in a company with a single
+ * owner or admin.
+ */
+export function canApproveRun(createdBy: string, approverId: string, approverCount: number): boolean {
+  return createdBy !== approverId || approverCount <= 1;
+}
+
+// Bank details an employee entered themselves are only paid into once an
+// admin has verified them.
+const UNUSABLE_REVIEW_STATUSES = ['pending', 'rejected'];
+
+export function canPaySalaryTo(destination: { reviewStatus?: string | null }): boolean {
+  return !UNUSABLE_REVIEW_STATUSES.includes(destination.reviewStatus ?? '');
+}
+
+/** The employee's default destination for salary, else their first usable one. */
+export function salaryDestination<T extends { isDefault: boolean | null; reviewStatus?: string | null }>(
+  destinations: T[] | null | undefined,
+): T | undefined {
+  const usable = (destinations ?? []).filter(canPaySalaryTo);
+  return usable.find((d) => d.isDefault) || usable[0];
+}
+
+/**
+ * The provider reference for an item's salary transfer (Paystack
+ * `reference`, Stripe idempotency key). It stays the same every time the
+ * item is paid, so a retry after a lost response can't pay it twice.
+ */
+export function salaryTransferReference(itemId: string): string {
+  return `payroll-item-${itemId}`;
+}
@@ -0,0 +1,183 @@
+// Payslip PDFs for payroll run items, in the company's colours.
+//
+// Amounts are written with the currency code rather than a symbol: the
+// standard PDF fonts have no ₦, ₵ or ₹. Bank account numbers are masked
+// to their last four digits.
+
+import { createPdfDocument, fitText } from "./pdf";
+import { manualOtherDeductions, type StatutoryLine } from "./statutory-deductions";
+
+export interface PayslipData {
+  company: {
+    name: string;
+    tagline?: string | null;
+    address?: string | null;
+    email?: string | null;
+    primaryColor?: string | null;
+  };
+  run: {
+    name: string;
+    periodStart: string;
+    periodEnd: string;
+    payDate: string;
+  };
+  employee: {
+    id: string;
+    name: string;
+    department?: string | null;
+    email?: string | null;
+    bankName?: string | null;
+    accountNumber?: string | null;
+  };
+  currency: string;
+  salary: number;
+  bonus: number;
+  deductions: number;
+  deductionBreakdown?: { tax: number; pension: number; insurance: number; other: number } | null;
+  // Computed per rule when the entry was created; itemises the deductions
+  // and the employer's contributions.
+  statutoryLines?: StatutoryLine[] | null;
+  employerContributions?: number;
+  netPay: number;
+  status: string;
+  reference?: string | null;
+}
+
+const DEFAULT_BRAND = '#4f46e5';
+const MUTED = '#6b7280';
+const LEFT = 48;
+const RIGHT = 547;
+
+export function formatPayslipAmount(amount: number, currency: string): string {
+  const formatted = Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${amount < 0 ? '-' : ''}${currency.toUpperCase()} ${formatted}`;
+}
+
+export function maskAccountNumber(accountNumber: string | null | undefined): string | null {
+  const digits = (accountNumber ?? '').replace(/\s+/g, '');
+  if (!digits) return null;
+  return digits.length <= 4 ? digits : `•••• ${digits.slice(-4)}`;
+}
+
+/**
+ * Deduction lines for the payslip: one per statutory rule when the entry
+ * has them, else by category; one "Deductions" line without a breakdown.
+ */
+export function deductionLines(data: Pick<PayslipData, 'deductions' | 'deductionBreakdown' | 'statutoryLines'>): Array<[string, number]> {
+  const b = data.deductionBreakdown;
+  if (data.statutoryLines?.length) {
+    const lines: Array<[string, number]> = data.statutoryLines.map((l) => [l.name, l.employee]);
+    lines.push(['Other deductions', manualOtherDeductions(b, data.statutoryLines)]);
+    return lines.filter(([, amount]) => amount > 0);
+  }
+  if (!b) return data.deductions > 0 ? [['Deductions', data.deductions]] : [];
+  const lines: Array<[string, number]> = [
+    ['Income tax', Number(b.tax) || 0],
+    ['Pension', Number(b.pension) || 0],
+    ['Insurance', Number(b.insurance) || 0],
+    ['Other deductions', Number(b.other) || 0],
+  ];
+  return lines.filter(([, amount]) => amount > 0);
+}
+
+/** The employer's side of each statutory rule; paid on top, not withheld. */
+export function employerContributionLines(data: Pick<PayslipData, 'statutoryLines'>): Array<[string, number]> {
+  return (data.statutoryLines ?? [])
+    .filter((l) => l.employer > 0)
+    .map((l): [string, number] => [l.name, l.employer]);
+}
+
+export function payslipFileName(runName: string, employeeName: string): string {
+  const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `payslip-${slug(runName)}-${slug(employeeName)}.pdf`;
+}
+
+export function renderPayslipPdf(data: PayslipData, generatedAt: Date = new Date()): Buffer {
+  const brand = /^#?[0-9a-f]{3}([0-9a-f]{3})?$/i.test(data.company.primaryColor ?? '')
+    ? data.company.primaryColor!
+    : DEFAULT_BRAND;
+  const money = (n: number) => formatPayslipAmount(n, data.currency);
+  const doc = createPdfDocument({ title: `Payslip — ${data.employee.name} — ${data.run.name}` });
+
+  // Header band
+  doc.rect(0, 0, 595, 96, brand);
+  doc.text(LEFT, 44, fitText(data.company.name, 20, 330), { size: 20, bold: true, color: '#ffffff' });
+  if (data.company.tagline) doc.text(LEFT, 64, fitText(data.company.tagline, 10, 330), { size: 10, color: '#ffffff' });
+  doc.text(RIGHT, 44, 'PAYSLIP', { size: 16, bold: true, color: '#ffffff', align: 'right' });
+  doc.text(RIGHT, 64, fitText(data.run.name, 10, 160), { size: 10, color: '#ffffff', align: 'right' });
+
+  let y = 120;
+  const contact = [data.company.address, data.company.email].filter(Boolean).join(' · ');
+  if (contact) {
+    doc.text(LEFT, y, fitText(contact, 9, RIGHT - LEFT), { size: 9, color: MUTED });
+    y += 24;
+  }
+
+  // Employee and period
+  const field = (x: number, top: number, label: string, value: string) => {
+    doc.text(x, top, label.toUpperCase(), { size: 8, color: MUTED });
+    doc.text(x, top + 14, fitText(value, 11, 230), { size: 11 });
+  };
+  field(LEFT, y, 'Employee', data.employee.name);
+  field(310, y, 'Pay period', `${data.run.periodStart} to ${data.run.periodEnd}`);
+  y += 38;
+  field(LEFT, y, 'Employee ID', data.employee.id);
+  field(310, y, 'Pay date', data.run.payDate);
+  y += 38;
+  field(LEFT, y, 'Department', data.employee.department || '—');
+  field(310, y, 'Payment reference', data.reference || '—');
+  y += 48;
+
+  const section = (title: string, rows: Array<[string, number]>, totalLabel: string, total: number) => {
+    doc.text(LEFT, y, title, { size: 12, bold: true, color: brand });
+    y += 10;
+    doc.line(LEFT, y, RIGHT, y, brand, 1);
+    y += 18;
+    for (const [label, amount] of rows) {
+      doc.text(LEFT, y, label, { size: 10 });
+      doc.text(RIGHT, y, money(amount), { size: 10, align: 'right' });
+      y += 18;
+    }
+    doc.line(LEFT, y - 10, RIGHT, y - 10);
+    y += 4;
+    doc.text(LEFT, y, totalLabel, { size: 10, bold: true });
+    doc.text(RIGHT, y, money(total), { size: 10, bold: true, align: 'right' });
+    y += 34;
+  };
+
+  const earnings: Array<[string, number]> = [['Basic salary', data.salary]];
+  if (data.bonus > 0) earnings.push(['Bonus', data.bonus]);
+  section('Earnings', earnings, 'Gross pay', data.salary + data.bonus);
+
+  const deductions = deductionLines(data);
+  section('Deductions', deductions.length > 0 ? deductions : [['None', 0]], 'Total deductions', data.deductions);
+
+  // Net pay
+  doc.rect(LEFT, y - 6, RIGHT - LEFT, 44, '#f3f4f6');
+  doc.rect(LEFT, y - 6, 4, 44, brand);
+  doc.text(LEFT + 16, y + 21, 'Net pay', { size: 13, bold: true });
+  doc.text(RIGHT - 12, y + 21, money(data.netPay), { size: 15, bold: true, color: brand, align: 'right' });
+  y += 64;
+
+  const employer = employerContributionLines(data);
+  if (employer.length > 0) {
+    section('Employer contributions', employer, 'Total employer contributions',
+      data.employerContributions ?? employer.reduce((sum, [, amount]) => sum + amount, 0));
+  }
+
+  const account = maskAccountNumber(data.employee.accountNumber);
+  if (data.employee.bankName || account) {
+    const to = [data.employee.bankName, account].filter(Boolean).join(' ');
+    doc.text(LEFT, y, fitText(`Paid to ${to}`, 10, RIGHT - LEFT), { size: 10, color: MUTED });
+    y += 18;
+  }
+  if (data.status === 'reversed') {
+    doc.text(LEFT, y, 'This payment was reversed.', { size: 10, bold: true, color: '#dc2626' });
+  }
+
+  doc.line(LEFT, 790, RIGHT, 790);
+  doc.text(LEFT, 806, fitText(`Issued by ${data.company.name}`, 8, 300), { size: 8, color: MUTED });
+  doc.text(RIGHT, 806, `Generated ${generatedAt.toISOString().slice(0, 10)}`, { size: 8, color: MUTED, align: 'right' });
+
+  return doc.toBuffer();
+}
@@ -0,0 +1,130 @@
+// A minimal single-page PDF writer for the documents the server hands
+// out (payslips, tax certificates). Text in the standard Helvetica faces, filled
+// rectangles and lines — enough for a branded statement without pulling
+// in a PDF library.
+//
+// Coordinates are in points from the top-left corner; a text y is its
+// baseline. Text is WinAnsi-encoded: characters it can't represent are
+// written as "?".
+
+export const A4 = { width: 595, height: 842 };
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+  align?: 'left' | 'right' | 'center';
+}
+
+export interface PdfDocument {
+  text(x: number, y: number, value: string, options?: PdfTextOptions): void;
+  rect(x: number, y: number, width: number, height: number, fill: string): void;
+  line(x1: number, y1: number, x2: number, y2: number, color?: string, width?: number): void;
+  toBuffer(): Buffer;
+}
+
+// Helvetica advance widths (1/1000 em) for ASCII 32–126, from its AFM.
+// Bold is close enough for alignment; digits are the same in both.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Unicode characters WinAnsi puts in 0x80–0x9F.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+function winAnsiCodes(value: string): number[] {
+  return Array.from(value).map((ch) => {
+    const code = ch.codePointAt(0)!;
+    if (WIN_ANSI_EXTRAS[ch] !== undefined) return WIN_ANSI_EXTRAS[ch];
+    if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) return code;
+    return 63; // ?
+  });
+}
+
+/** Width of the text in points at the given font size. */
+export function textWidth(value: string, size: number): number {
+  const units = winAnsiCodes(value)
+    .reduce((sum, code) => sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556), 0);
+  return units * size / 1000;
+}
+
+/** Trims text with an ellipsis so it fits in the width. */
+export function fitText(value: string, size: number, width: number): string {
+  if (textWidth(value, size) <= width) return value;
+  let out = value;
+  while (out.length > 1 && textWidth(`${out}…`, size) > width) out = out.slice(0, -1);
+  return `${out}…`;
+}
+
+/** A PDF literal string; everything outside printable ASCII is escaped. */
+export function pdfString(value: string): string {
+  const body = winAnsiCodes(value).map((code) => {
+    if (code === 0x28 || code === 0x29 || code === 0x5c) return `\\${String.fromCharCode(code)}`;
+    if (code < 32 || code > 126) return `\\${code.toString(8).padStart(3, '0')}`;
+    return String.fromCharCode(code);
+  }).join('');
+  return `(${body})`;
+}
+
+const num = (n: number) => String(Math.round(n * 100) / 100);
+
+/** "r g b" components (0–1) for a #rgb / #rrggbb colour; black when unreadable. */
+export function rgb(hex: string | null | undefined): string {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec((hex ?? '').trim());
+  if (!match) return '0 0 0';
+  const digits = match[1].length === 3 ? match[1].split('').map((d) => d + d).join('') : match[1];
+  return [0, 2, 4].map((i) => num(parseInt(digits.slice(i, i + 2), 16) / 255)).join(' ');
+}
+
+export function createPdfDocument(options: { width?: number; height?: number; title?: string } = {}): PdfDocument {
+  const width = options.width ?? A4.width;
+  const height = options.height ?? A4.height;
+  const ops: string[] = [];
+
+  return {
+    text(x, y, value, { size = 10, bold = false, color = '#111827', align = 'left' } = {}) {
+      const w = textWidth(value, size);
+      const left = align === 'right' ? x - w : align === 'center' ? x - w / 2 : x;
+      ops.push(`BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${rgb(color)} rg ${num(left)} ${num(height - y)} Td ${pdfString(value)} Tj ET`);
+    },
+    rect(x, y, w, h, fill) {
+      ops.push(`${rgb(fill)} rg ${num(x)} ${num(height - y - h)} ${num(w)} ${num(h)} re f`);
+    },
+    line(x1, y1, x2, y2, color = '#e5e7eb', lineWidth = 0.75) {
+      ops.push(`${rgb(color)} RG ${num(lineWidth)} w ${num(x1)} ${num(height - y1)} m ${num(x2)} ${num(height - y2)} l S`);
+    },
+    toBuffer() {
+      const content = ops.join('\n');
+      const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+        `<< /Title ${pdfString(options.title ?? '')} /Producer (Financiar) >>`,
+      ];
+
+      // Everything above is ASCII, so string length is the byte offset.
+      let out = '%PDF-1.4\n';
+      const offsets: number[] = [];
+      objects.forEach((body, i) => {
+        offsets.push(out.length);
+        out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+      });
+      const xref = out.length;
+      out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      out += offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+      out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 7 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+      return Buffer.from(out, 'ascii');
+    },
+  };
+}
@@ -0,0 +1,256 @@
+// Receipt OCR → expense draft.
+//
+// server/services/receipt-ocr.ts runs the local OCR engine and hands us
+// the recognised lines with the engine's own confidence (0..1). This
+// module turns those lines into a ReceiptDraft: merchant, date, total,
+// currency and tax lines, each with a confidence that combines the OCR
+// line confidence with how sure the heuristic itself is.
+
+import type { ReceiptDraft, ReceiptDraftField, ReceiptTaxLine } from "@shared/schema";
+
+export interface OcrLine {
+  text: string;
+  confidence: number; // 0..1
+}
+
+// A mismatch is only raised when OCR was reasonably sure of the total,
+// so an unreadable photo does not flag every expense it is attached to.
+export const MIN_MISMATCH_CONFIDENCE = 0.5;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const ISO_CODES = ['USD', 'EUR', 'GBP', 'NGN', 'GHS', 'KES', 'ZAR', 'EGP', 'RWF', 'XOF', 'CAD', 'AUD', 'INR', 'JPY', 'CHF'];
+
+// Symbol → [currency, heuristic confidence]. '$' is shared by several
+// currencies, so it only earns a middling score on its own.
+const CURRENCY_SYMBOLS: Array<[RegExp, string, number]> = [
+  [/GH₵|₵/, 'GHS', 0.9],
+  [/₦/, 'NGN', 0.9],
+  [/€/, 'EUR', 0.9],
+  [/£/, 'GBP', 0.9],
+  [/KSh/i, 'KES', 0.85],
+  [/(^|\s)R\s?\d/, 'ZAR', 0.5],
+  [/\$/, 'USD', 0.6],
+];
+
+const AMOUNT_PATTERN = /-?\d{1,3}(?:,\d{3})+\.\d{2}|-?\d+\.\d{2}|-?\d+,\d{2}(?!\d)/g;
+
+const TOTAL_KEYWORDS: Array<[RegExp, number]> = [
+  [/\b(grand\s*total|amount\s*due|balance\s*due|total\s*due|total\s*paid|amount\s*paid)\b/i, 0.95],
+  [/\btotal\b/i, 0.9],
+];
+const NOT_TOTAL = /\b(sub\s*-?\s*total|total\s*(tax|vat|gst|savings|discount|items?|qty)|tax\s*total|items?\s*total)\b/i;
+const TAX_KEYWORD = /\b(tax|vat|gst|hst|pst|qst|levy)\b/i;
+const NOT_TAX_LINE = /\b(sub\s*-?\s*total|total|incl\.?|including|excl\.?|excluding|before\s*tax|pre-?tax|tax\s*id|vat\s*(no|number|reg)|tin)\b/i;
+const SUBTOTAL = /\bsub\s*-?\s*total\b/i;
+const MERCHANT_NOISE = /\b(receipt|invoice|welcome|thank|tel|phone|www\.|http|cashier|server|table|order|store\s*#|terminal|date|time)\b/i;
+
+function clamp(n: number): number {
+  return Math.round(Math.min(0.99, Math.max(0, n)) * 100) / 100;
+}
+
+function field<T>(value: T | null, confidence: number): ReceiptDraftField<T> {
+  return { value, confidence: value == null ? 0 : clamp(confidence) };
+}
+
+/** Every money-looking token on the line, in order, as numbers. */
+export function amountsOnLine(text: string): number[] {
+  const matches = text.match(AMOUNT_PATTERN) ?? [];
+  return matches.map((m) => {
+    // "12,50" is a decimal comma; "1,234.50" uses thousands separators.
+    const normalized = /^-?\d+,\d{2}$/.test(m) ? m.replace(',', '.') : m.replace(/,/g, '');
+    return parseFloat(normalized);
+  }).filter((n) => Number.isFinite(n));
+}
+
+function monthFromName(name: string): number | null {
+  const lower = name.toLowerCase();
+  return MONTHS[lower.slice(0, 4)] ?? MONTHS[lower.slice(0, 3)] ?? null;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function isoDate(y: number, m: number, d: number): string | null {
+  if (y < 100) y += 2000;
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCMonth() !== m - 1) return null;
+  return `${y}-${pad(m)}-${pad(d)}`;
+}
+
+/**
+ * First parseable date on the line with a heuristic confidence.
+ * Numeric dates where both parts are ≤ 12 are ambiguous and scored
+ * lower; `dayFirst` picks the reading for those.
+ */
+export function parseReceiptDate(text: string, dayFirst = false): { value: string; confidence: number } | null {
+  let m = text.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+  if (m) {
+    const value = isoDate(+m[1], +m[2], +m[3]);
+    if (value) return { value, confidence: 0.95 };
+  }
+
+  m = text.match(/\b(\d{1,2})[\s-]([A-Za-z]{3,9})\.?[\s,-]*(\d{2,4})\b/);
+  const dayMonth = m ? monthFromName(m[2]) : null;
+  if (m && dayMonth) {
+    const value = isoDate(+m[3], dayMonth, +m[1]);
+    if (value) return { value, confidence: 0.9 };
+  }
+
+  m = text.match(/\b([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})\b/);
+  const monthDay = m ? monthFromName(m[1]) : null;
+  if (m && monthDay) {
+    const value = isoDate(+m[3], monthDay, +m[2]);
+    if (value) return { value, confidence: 0.9 };
+  }
+
+  m = text.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})\b/);
+  if (m) {
+    const a = +m[1];
+    const b = +m[2];
+    const y = +m[3];
+    if (a > 12 && b <= 12) {
+      const value = isoDate(y, b, a);
+      if (value) return { value, confidence: 0.85 };
+    } else if (b > 12 && a <= 12) {
+      const value = isoDate(y, a, b);
+      if (value) return { value, confidence: 0.85 };
+    } else {
+      const value = dayFirst ? isoDate(y, b, a) : isoDate(y, a, b);
+      if (value) return { value, confidence: 0.6 };
+    }
+  }
+  return null;
+}
+
+function detectCurrency(lines: OcrLine[], totalLine: OcrLine | null): ReceiptDraftField<string> {
+  // An explicit ISO code anywhere beats a symbol; the total line is the
+  // most trustworthy place to find either.
+  const ordered = totalLine ? [totalLine, ...lines.filter((l) => l !== totalLine)] : lines;
+  for (const line of ordered) {
+    const code = ISO_CODES.find((c) => new RegExp(`\\b${c}\\b`).test(line.text));
+    if (code) return field(code, 0.95 * line.confidence);
+  }
+  for (const line of ordered) {
+    for (const [pattern, currency, weight] of CURRENCY_SYMBOLS) {
+      if (pattern.test(line.text)) return field(currency, weight * line.confidence);
+    }
+  }
+  return field<string>(null, 0);
+}
+
+function detectMerchant(lines: OcrLine[]): ReceiptDraftField<string> {
+  for (const line of lines.slice(0, 6)) {
+    const text = line.text.trim();
+    const letters = (text.match(/[A-Za-z]/g) ?? []).length;
+    if (letters < 3 || letters < text.length * 0.5) continue;
+    if (MERCHANT_NOISE.test(text) || amountsOnLine(text).length > 0 || parseReceiptDate(text)) continue;
+    return field(text.replace(/\s{2,}/g, ' '), 0.75 * line.confidence);
+  }
+  return field<string>(null, 0);
+}
+
+/** Build an expense draft from OCR lines (top-to-bottom order). */
+export function parseReceiptLines(input: OcrLine[], opts: { dayFirst?: boolean } = {}): ReceiptDraft {
+  const lines = input
+    .map((l) => ({ text: l.text.trim(), confidence: Math.min(1, Math.max(0, l.confidence)) }))
+    .filter((l) => l.text.length > 0);
+
+  // Total: the last line carrying the strongest total keyword wins —
+  // receipts often print "Total" before a tip/rounding and "Amount due" after.
+  let totalLine: OcrLine | null = null;
+  let total: ReceiptDraftField<number> = field<number>(null, 0);
+  let bestWeight = 0;
+  for (const line of lines) {
+    if (NOT_TOTAL.test(line.text)) continue;
+    const amounts = amountsOnLine(line.text);
+    if (amounts.length === 0) continue;
+    const weight = TOTAL_KEYWORDS.find(([pattern]) => pattern.test(line.text))?.[1] ?? 0;
+    if (weight > 0 && weight >= bestWeight) {
+      bestWeight = weight;
+      totalLine = line;
+      total = field(Math.abs(amounts[amounts.length - 1]), weight * line.confidence);
+    }
+  }
+  if (total.value == null) {
+    // No labelled total: fall back to the largest amount, weakly.
+    let best: { amount: number; line: OcrLine } | null = null;
+    for (const line of lines) {
+      for (const amount of amountsOnLine(line.text)) {
+        if (!best || Math.abs(amount) > best.amount) best = { amount: Math.abs(amount), line };
+      }
+    }
+    if (best) {
+      totalLine = best.line;
+      total = field(best.amount, 0.4 * best.line.confidence);
+    }
+  }
+
+  const taxLines: ReceiptTaxLine[] = [];
+  for (const line of lines) {
+    if (!TAX_KEYWORD.test(line.text) || NOT_TAX_LINE.test(line.text)) continue;
+    const amounts = amountsOnLine(line.text);
+    if (amounts.length === 0) continue;
+    const rate = line.text.match(/(\d{1,2}(?:\.\d{1,3})?)\s*%/);
+    const label = line.text.replace(AMOUNT_PATTERN, '').replace(/[$€£₦₵]/g, '').replace(/\s{2,}/g, ' ').trim();
+    taxLines.push({
+      label: label || 'Tax',
+      rate: rate ? parseFloat(rate[1]) : null,
+      amount: amounts[amounts.length - 1],
+      confidence: clamp(0.85 * line.confidence),
+    });
+  }
+
+  // Subtotal + tax adding up to the total corroborates all of them.
+  const subtotalLine = lines.find((l) => SUBTOTAL.test(l.text) && amountsOnLine(l.text).length > 0);
+  if (subtotalLine && total.value != null) {
+    const subtotalAmounts = amountsOnLine(subtotalLine.text);
+    const subtotal = subtotalAmounts[subtotalAmounts.length - 1];
+    const taxSum = taxLines.reduce((sum, t) => sum + t.amount, 0);
+    if (Math.round((subtotal + taxSum) * 100) === Math.round(total.value * 100)) {
+      total = field(total.value, total.confidence + 0.05);
+      for (const t of taxLines) t.confidence = clamp(t.confidence + 0.05);
+    }
+  }
+
+  let date: ReceiptDraftField<string> = field<string>(null, 0);
+  for (const line of lines) {
+    const parsed = parseReceiptDate(line.text, opts.dayFirst);
+    if (parsed) {
+      date = field(parsed.value, parsed.confidence * line.confidence);
+      break;
+    }
+  }
+
+  return {
+    merchant: detectMerchant(lines),
+    date,
+    total,
+    currency: detectCurrency(lines, totalLine),
+    taxLines,
+  };
+}
+
+/** Convenience for engines that only return plain text (no per-line confidence). */
+export function parseReceiptText(text: string, confidence = 0.9, opts: { dayFirst?: boolean } = {}): ReceiptDraft {
+  return parseReceiptLines(text.split(/\r?\n/).map((t) => ({ text: t, confidence })), opts);
+}
+
+/**
+ * Whether the amount typed on an expense disagrees with its receipt.
+ * Different currencies are not compared (a foreign receipt converted
+ * to the company currency is expected to differ), and low-confidence
+ * totals never flag.
+ */
+export function isReceiptAmountMismatch(
+  expense: { amount: number; currency: string },
+  draft: Pick<ReceiptDraft, 'total' | 'currency'> | null | undefined,
+): boolean {
+  if (!draft || draft.total.value == null || draft.total.confidence < MIN_MISMATCH_CONFIDENCE) return false;
+  if (draft.currency.value && draft.currency.value.toUpperCase() !== expense.currency.toUpperCase()) return false;
+  return Math.round(expense.amount * 100) !== Math.round(draft.total.value * 100);
+}
@@ -0,0 +1,423 @@
+// LU-014 — provider reconciliation engine.
+//
+// Pure matching logic for the daily reconciliation job
+// (server/reconciliationScheduler.ts). Provider API responses are first
+// normalized into `ProviderRecord`s, local payouts / wallet transactions
+// into `LocalRecord`s, and `reconcile` pairs them by provider reference.
+// Anything that does not pair cleanly becomes an exception draft.
+
+export type ReconciliationProvider = 'stripe' | 'paystack';
+export type ReconciliationObjectType = 'charge' | 'transfer' | 'payout';
+export type NormalizedStatus = 'succeeded' | 'pending' | 'failed' | 'reversed';
+export type ReconciliationExceptionKind =
+  | 'missing_locally'
+  | 'missing_at_provider'
+  | 'amount_mismatch'
+  | 'currency_mismatch'
+  | 'status_mismatch';
+
+export interface ProviderRecord {
+  provider: ReconciliationProvider;
+  objectType: ReconciliationObjectType;
+  // Primary id used for matching (Stripe payment_intent / po_ / tr_ id,
+  // Paystack reference). Alternates cover ids the local side may have
+  // stored instead (Stripe ch_ id, Paystack transfer_code).
+  reference: string;
+  altReferences: string[];
+  amount: number; // major units
+  currency: string; // upper-case ISO code
+  status: NormalizedStatus;
+  rawStatus: string;
+  occurredAt: string; // ISO timestamp
+}
+
+export interface LocalRecord {
+  provider: ReconciliationProvider;
+  entityType: 'payout' | 'wallet_transaction';
+  entityId: string;
+  companyId: string | null;
+  references: string[];
+  amount: number;
+  currency: string;
+  status: NormalizedStatus;
+  rawStatus: string;
+  occurredAt: string;
+}
+
+export interface ReconciliationExceptionDraft {
+  fingerprint: string;
+  provider: ReconciliationProvider;
+  kind: ReconciliationExceptionKind;
+  objectType: ReconciliationObjectType;
+  providerReference: string | null;
+  localEntityType: LocalRecord['entityType'] | null;
+  localEntityId: string | null;
+  companyId: string | null;
+  currency: string | null;
+  providerAmount: number | null;
+  localAmount: number | null;
+  providerStatus: string | null;
+  localStatus: string | null;
+  details: Record<string, unknown>;
+}
+
+export interface ReconciliationResult {
+  matched: number;
+  exceptions: ReconciliationExceptionDraft[];
+}
+
+// Stripe amounts for these currencies are already in major units.
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  'BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA', 'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF',
+]);
+
+/** A provider's minor-unit amount in major units. */
+export function fromMinor(amount: number, currency: string): number {
+  if (ZERO_DECIMAL_CURRENCIES.has(currency.toUpperCase())) return amount;
+  return Math.round(amount) / 100;
+}
+
+/** A major-unit amount in the minor units a provider expects. */
+export function toMinor(amount: number, currency: string): number {
+  if (ZERO_DECIMAL_CURRENCIES.has(currency.toUpperCase())) return Math.round(amount);
+  return Math.round(amount * 100);
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function unixToIso(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+// ---- Provider normalizers (raw API payloads → ProviderRecord) ----
+
+/** Paystack GET /transaction — `data[]`, amounts in kobo/pesewas. */
+export function normalizePaystackTransactions(response: any): ProviderRecord[] {
+  const rows: any[] = Array.isArray(response?.data) ? response.data : [];
+  return rows.map((t) => {
+    const currency = String(t.currency || 'NGN').toUpperCase();
+    const rawStatus = String(t.status || '');
+    const status: NormalizedStatus = rawStatus === 'success'
+      ? 'succeeded'
+      : rawStatus === 'reversed' ? 'reversed'
+      : ['failed', 'abandoned'].includes(rawStatus) ? 'failed'
+      : 'pending';
+    return {
+      provider: 'paystack' as const,
+      objectType: 'charge' as const,
+      reference: String(t.reference),
+      altReferences: t.id != null ? [String(t.id)] : [],
+      amount: fromMinor(Number(t.amount || 0), currency),
+      currency,
+      status,
+      rawStatus,
+      occurredAt: new Date(t.paid_at || t.paidAt || t.created_at || t.createdAt).toISOString(),
+    };
+  });
+}
+
+/** Paystack GET /transfer — `data[]`, amounts in kobo/pesewas. */
+export function normalizePaystackTransfers(response: any): ProviderRecord[] {
+  const rows: any[] = Array.isArray(response?.data) ? response.data : [];
+  return rows.map((t) => {
+    const currency = String(t.currency || 'NGN').toUpperCase();
+    const rawStatus = String(t.status || '');
+    const status: NormalizedStatus = rawStatus === 'success'
+      ? 'succeeded'
+      : rawStatus === 'reversed' ? 'reversed'
+      : ['failed', 'rejected', 'abandoned', 'blocked'].includes(rawStatus) ? 'failed'
+      : 'pending';
+    return {
+      provider: 'paystack' as const,
+      objectType: 'transfer' as const,
+      reference: String(t.reference || t.transfer_code),
+      altReferences: [t.transfer_code, t.id].filter((v) => v != null).map(String),
+      amount: fromMinor(Number(t.amount || 0), currency),
+      currency,
+      status,
+      rawStatus,
+      occurredAt: new Date(t.createdAt || t.created_at).toISOString(),
+    };
+  });
+}
+
+/** Stripe charges.list — matched on payment_intent when present. */
+export function normalizeStripeCharges(charges: any[]): ProviderRecord[] {
+  return charges.map((c) => {
+    const currency = String(c.currency || 'usd').toUpperCase();
+    const rawStatus = c.refunded ? 'refunded' : String(c.status || '');
+    const status: NormalizedStatus = c.refunded
+      ? 'reversed'
+      : rawStatus === 'succeeded' ? 'succeeded'
+      : rawStatus === 'failed' ? 'failed'
+      : 'pending';
+    const paymentIntent = typeof c.payment_intent === 'string' ? c.payment_intent : c.payment_intent?.id;
+    return {
+      provider: 'stripe' as const,
+      objectType: 'charge' as const,
+      reference: String(paymentIntent || c.id),
+      altReferences: paymentIntent ? [String(c.id)] : [],
+      amount: fromMinor(Number(c.amount || 0), currency),
+      currency,
+      status,
+      rawStatus,
+      occurredAt: unixToIso(Number(c.created)),
+    };
+  });
+}
+
+/** Stripe payouts.list. */
+export function normalizeStripePayouts(payouts: any[]): ProviderRecord[] {
+  return payouts.map((p) => {
+    const currency = String(p.currency || 'usd').toUpperCase();
+    const rawStatus = String(p.status || '');
+    const status: NormalizedStatus = rawStatus === 'paid'
+      ? 'succeeded'
+      : ['failed', 'canceled'].includes(rawStatus) ? 'failed'
+      : 'pending';
+    return {
+      provider: 'stripe' as const,
+      objectType: 'payout' as const,
+      reference: String(p.id),
+      altReferences: [],
+      amount: fromMinor(Number(p.amount || 0), currency),
+      currency,
+      status,
+      rawStatus,
+      occurredAt: unixToIso(Number(p.created)),
+    };
+  });
+}
+
+/** Stripe transfers.list (Connect). Transfers have no status; reversal is the only terminal change. */
+export function normalizeStripeTransfers(transfers: any[]): ProviderRecord[] {
+  return transfers.map((t) => {
+    const currency = String(t.currency || 'usd').toUpperCase();
+    const reversed = t.reversed === true;
+    return {
+      provider: 'stripe' as const,
+      objectType: 'transfer' as const,
+      reference: String(t.id),
+      altReferences: [],
+      amount: fromMinor(Number(t.amount || 0), currency),
+      currency,
+      status: reversed ? 'reversed' as const : 'succeeded' as const,
+      rawStatus: reversed ? 'reversed' : 'created',
+      occurredAt: unixToIso(Number(t.created)),
+    };
+  });
+}
+
+// ---- Local normalizers (DB rows → LocalRecord) ----
+
+export function normalizeLocalPayoutStatus(status: string | null | undefined): NormalizedStatus {
+  const s = String(status || '').toLowerCase();
+  if (['completed', 'paid', 'success', 'succeeded'].includes(s)) return 'succeeded';
+  if (['failed', 'cancelled', 'canceled', 'rejected'].includes(s)) return 'failed';
+  if (s === 'reversed') return 'reversed';
+  return 'pending';
+}
+
+export function localRecordFromPayout(p: any): LocalRecord | null {
+  const references = [p.providerReference, p.providerTransferId].filter(Boolean).map(String);
+  const provider = String(p.provider || '').toLowerCase();
+  if (references.length === 0 || (provider !== 'stripe' && provider !== 'paystack')) return null;
+  return {
+    provider,
+    entityType: 'payout',
+    entityId: p.id,
+    companyId: p.companyId ?? null,
+    references,
+    amount: parseFloat(String(p.amount || '0')),
+    currency: String(p.currency || 'USD').toUpperCase(),
+    status: normalizeLocalPayoutStatus(p.status),
+    rawStatus: String(p.status || ''),
+    occurredAt: new Date(p.createdAt).toISOString(),
+  };
+}
+
+/**
+ * Wallet transactions only count when they carry a provider reference
+ * in their metadata (webhook credits write `provider` + `paymentIntentId`
+ * for Stripe and `paystackReference` for Paystack).
+ */
+export function localRecordFromWalletTransaction(w: any, companyId: string | null): LocalRecord | null {
+  const meta = (w.metadata || {}) as Record<string, unknown>;
+  let provider: ReconciliationProvider | null = null;
+  if (meta.provider === 'stripe' || typeof meta.paymentIntentId === 'string') provider = 'stripe';
+  if (meta.provider === 'paystack' || typeof meta.paystackReference === 'string') provider = 'paystack';
+  if (!provider) return null;
+  const references = [w.reference, meta.paymentIntentId, meta.paystackReference, meta.chargeId]
+    .filter((v) => typeof v === 'string' && v.length > 0) as string[];
+  return {
+    provider,
+    entityType: 'wallet_transaction',
+    entityId: w.id,
+    companyId,
+    references: Array.from(new Set(references)),
+    amount: parseFloat(String(w.amount || '0')),
+    currency: String(w.currency || 'USD').toUpperCase(),
+    status: w.reversedAt ? 'reversed' : normalizeLocalPayoutStatus(w.status),
+    rawStatus: w.reversedAt ? 'reversed' : String(w.status || ''),
+    occurredAt: new Date(w.createdAt).toISOString(),
+  };
+}
+
+// ---- Matching ----
+
+function isTerminal(status: NormalizedStatus): boolean {
+  return status !== 'pending';
+}
+
+export function exceptionFingerprint(provider: string, kind: ReconciliationExceptionKind, reference: string): string {
+  return `${provider}:${kind}:${reference}`;
+}
+
+/**
+ * Pair provider and local records by reference and classify the rest.
+ *
+ * - Provider records outside [window.from, window.to) are used for
+ *   matching only, so a local row written just after midnight still
+ *   finds a provider record from the previous day (callers fetch the
+ *   provider side with some padding).
+ * - Only succeeded provider records can be "missing locally"; a failed
+ *   or abandoned charge with no local row is the expected outcome.
+ * - Pending on either side is never a status mismatch — the money is
+ *   still settling and tomorrow's run will see the final state.
+ * - `companyByReference` attributes provider-only exceptions to a
+ *   tenant via payment_intent_index.
+ */
+export function reconcile(input: {
+  window: { from: string; to: string };
+  providerRecords: ProviderRecord[];
+  localRecords: LocalRecord[];
+  companyByReference?: Record<string, string | null>;
+}): ReconciliationResult {
+  const { window, providerRecords, localRecords } = input;
+  const companyByReference = input.companyByReference ?? {};
+  const inWindow = (iso: string) => iso >= window.from && iso < window.to;
+
+  const localByRef = new Map<string, LocalRecord[]>();
+  for (const local of localRecords) {
+    for (const ref of local.references) {
+      const key = `${local.provider}:${ref}`;
+      const list = localByRef.get(key) ?? [];
+      list.push(local);
+      localByRef.set(key, list);
+    }
+  }
+
+  const exceptions: ReconciliationExceptionDraft[] = [];
+  const matchedLocal = new Set<string>();
+  let matched = 0;
+
+  for (const rec of providerRecords) {
+    const candidates = [rec.reference, ...rec.altReferences]
+      .flatMap((ref) => localByRef.get(`${rec.provider}:${ref}`) ?? []);
+    const locals = Array.from(new Map(candidates.map((l) => [`${l.entityType}:${l.entityId}`, l])).values());
+
+    if (locals.length === 0) {
+      if (rec.status === 'succeeded' && inWindow(rec.occurredAt)) {
+        exceptions.push({
+          fingerprint: exceptionFingerprint(rec.provider, 'missing_locally', rec.reference),
+          provider: rec.provider,
+          kind: 'missing_locally',
+          objectType: rec.objectType,
+          providerReference: rec.reference,
+          localEntityType: null,
+          localEntityId: null,
+          companyId: [rec.reference, ...rec.altReferences].map((r) => companyByReference[r]).find(Boolean) ?? null,
+          currency: rec.currency,
+          providerAmount: rec.amount,
+          localAmount: null,
+          providerStatus: rec.rawStatus,
+          localStatus: null,
+          details: { occurredAt: rec.occurredAt, altReferences: rec.altReferences },
+        });
+      }
+      continue;
+    }
+
+    for (const l of locals) matchedLocal.add(`${l.entityType}:${l.entityId}`);
+    // A provider record may legitimately map to a payout AND the wallet
+    // debit that funded it; compare against the first so drift is
+    // reported once per provider object.
+    const local = locals[0];
+    const base = {
+      provider: rec.provider,
+      objectType: rec.objectType,
+      providerReference: rec.reference,
+      localEntityType: local.entityType,
+      localEntityId: local.entityId,
+      companyId: local.companyId,
+      providerStatus: rec.rawStatus,
+      localStatus: local.rawStatus,
+    };
+
+    let clean = true;
+    if (rec.currency !== local.currency) {
+      clean = false;
+      exceptions.push({
+        ...base,
+        fingerprint: exceptionFingerprint(rec.provider, 'currency_mismatch', rec.reference),
+        kind: 'currency_mismatch',
+        currency: rec.currency,
+        providerAmount: rec.amount,
+        localAmount: local.amount,
+        details: { providerCurrency: rec.currency, localCurrency: local.currency },
+      });
+    } else if (toCents(rec.amount) !== toCents(local.amount)) {
+      clean = false;
+      exceptions.push({
+        ...base,
+        fingerprint: exceptionFingerprint(rec.provider, 'amount_mismatch', rec.reference),
+        kind: 'amount_mismatch',
+        currency: rec.currency,
+        providerAmount: rec.amount,
+        localAmount: local.amount,
+        details: { difference: (toCents(rec.amount) - toCents(local.amount)) / 100 },
+      });
+    }
+    if (isTerminal(rec.status) && isTerminal(local.status) && rec.status !== local.status) {
+      clean = false;
+      exceptions.push({
+        ...base,
+        fingerprint: exceptionFingerprint(rec.provider, 'status_mismatch', rec.reference),
+        kind: 'status_mismatch',
+        currency: rec.currency,
+        providerAmount: rec.amount,
+        localAmount: local.amount,
+        details: { providerStatus: rec.status, localStatus: local.status },
+      });
+    }
+    if (clean) matched++;
+  }
+
+  for (const local of localRecords) {
+    if (matchedLocal.has(`${local.entityType}:${local.entityId}`)) continue;
+    if (!inWindow(local.occurredAt)) continue;
+    // A local row still pending or already failed may never have
+    // reached the provider; only completed movements must exist there.
+    if (local.status !== 'succeeded') continue;
+    exceptions.push({
+      fingerprint: exceptionFingerprint(local.provider, 'missing_at_provider', `${local.entityType}:${local.entityId}`),
+      provider: local.provider,
+      kind: 'missing_at_provider',
+      objectType: local.entityType === 'payout' ? (local.provider === 'paystack' ? 'transfer' : 'payout') : 'charge',
+      providerReference: local.references[0] ?? null,
+      localEntityType: local.entityType,
+      localEntityId: local.entityId,
+      companyId: local.companyId,
+      currency: local.currency,
+      providerAmount: null,
+      localAmount: local.amount,
+      providerStatus: null,
+      localStatus: local.rawStatus,
+      details: { occurredAt: local.occurredAt, references: local.references },
+    });
+  }
+
+  return { matched, exceptions };
+}
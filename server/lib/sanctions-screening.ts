@@ -0,0 +1,413 @@
+// Sanctions / watchlist screening: parsing the OFAC SDN and UN consolidated
+// lists an admin imports, and fuzzy-matching names against them.
+//
+//   • OFAC: SDN.CSV (ent_num, name, type, program, …, remarks) with "-0-"
+//     for empty cells, plus the optional ALT.CSV of aliases keyed by
+//     ent_num. Vessels and aircraft are left out — only people and
+//     organisations get paid.
+//   • UN: the consolidated XML. Each <INDIVIDUAL> is named by FIRST_NAME to
+//     FOURTH_NAME with <INDIVIDUAL_ALIAS> entries; each <ENTITY> by
+//     FIRST_NAME with <ENTITY_ALIAS>. "Low" quality aliases are skipped, as
+//     the UN itself advises.
+//
+// Names are normalised (accents, punctuation, titles and company suffixes
+// dropped) and compared token by token with Jaro-Winkler, so word order,
+// spacing and small spelling differences don't hide a match. A subject is
+// held while its latest screening has a match nobody has cleared.
+
+export const SANCTIONS_SOURCES = ['ofac_sdn', 'un_consolidated'] as const;
+export type SanctionsSource = typeof SANCTIONS_SOURCES[number];
+
+export const SCREENING_SUBJECT_TYPES = ['vendor', 'payout_destination', 'payroll_recipient', 'kyc_submission', 'transfer_recipient'] as const;
+export type ScreeningSubjectType = typeof SCREENING_SUBJECT_TYPES[number];
+
+// 'clear' — no match; 'potential_match' — waiting for a reviewer;
+// 'cleared' — a reviewer found it was someone else; 'confirmed_match' —
+// a reviewer confirmed it, and the subject stays blocked.
+export type ScreeningStatus = 'clear' | 'potential_match' | 'cleared' | 'confirmed_match';
+export const SCREENING_REVIEW_DECISIONS = ['cleared', 'confirmed_match'] as const;
+
+export const MATCH_THRESHOLD = 0.88;
+
+export interface ParsedSanctionsEntry {
+  externalId: string;
+  name: string;
+  aliases: string[];
+  entityType: 'individual' | 'entity';
+  programs: string[];
+  remarks: string | null;
+}
+
+export interface ScreenableEntry {
+  id: string;
+  listId: string;
+  source: string;
+  externalId: string;
+  name: string;
+  aliases: string[];
+}
+
+export interface SanctionsMatch {
+  entryId: string;
+  listId: string;
+  source: string;
+  externalId: string;
+  name: string;
+  matchedName: string;
+  score: number;
+}
+
+export class SanctionsListParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SanctionsListParseError';
+  }
+}
+
+// ==================== NAMES ====================
+
+const IGNORED_TOKENS = new Set([
+  // titles
+  'mr', 'mrs', 'ms', 'miss', 'dr', 'prof', 'sir', 'madam', 'sheikh', 'alhaji', 'alhaja', 'chief', 'hon',
+  // company forms
+  'ltd', 'limited', 'llc', 'llp', 'inc', 'incorporated', 'co', 'corp', 'corporation', 'company', 'plc',
+  'gmbh', 'ag', 'sa', 'sarl', 'bv', 'nv', 'pty', 'pvt', 'private', 'enterprises', 'enterprise', 'group', 'holdings',
+  // joining words
+  'the', 'and', 'of',
+]);
+
+/** Lower-case tokens of a name without accents, punctuation, titles or company suffixes. */
+export function nameTokens(name: string): string[] {
+  const tokens = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(Boolean);
+  const meaningful = tokens.filter((t) => !IGNORED_TOKENS.has(t));
+  return meaningful.length > 0 ? meaningful : tokens;
+}
+
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const from = Math.max(0, i - window);
+    const to = Math.min(b.length - 1, i + window);
+    for (let j = from; j <= to; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+// How well every token of `from` is found in `to`.
+function coverage(from: string[], to: string[]): number {
+  let total = 0;
+  for (const token of from) {
+    let best = 0;
+    for (const other of to) {
+      const score = jaroWinkler(token, other);
+      if (score > best) best = score;
+      if (best === 1) break;
+    }
+    total += best;
+  }
+  return total / from.length;
+}
+
+/**
+ * Similarity of two token lists, 0–1. Word order doesn't matter; a name
+ * missing one of the other's words scores lower, so "Smith" alone doesn't
+ * match "John Smith". Spacing doesn't matter either: "AlQaida" is "Al Qaida".
+ */
+export function tokenSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  if (a.join('') === b.join('')) return 1;
+  const ab = coverage(a, b);
+  const ba = coverage(b, a);
+  return (2 * Math.min(ab, ba) + Math.max(ab, ba)) / 3;
+}
+
+export function nameSimilarity(a: string, b: string): number {
+  return tokenSimilarity(nameTokens(a), nameTokens(b));
+}
+
+export interface PreparedEntry extends ScreenableEntry {
+  names: Array<{ name: string; tokens: string[] }>;
+}
+
+/** Tokenises each entry's name and aliases once, for screening many names. */
+export function prepareEntries(entries: ScreenableEntry[]): PreparedEntry[] {
+  return entries.map((entry) => ({
+    ...entry,
+    names: [entry.name, ...entry.aliases].map((name) => ({ name, tokens: nameTokens(name) })),
+  }));
+}
+
+/** Entries with a name or alias at or above the threshold, best first. */
+export function screenName(
+  name: string,
+  entries: PreparedEntry[],
+  threshold = MATCH_THRESHOLD,
+): SanctionsMatch[] {
+  const tokens = nameTokens(name);
+  if (tokens.length === 0) return [];
+  const matches: SanctionsMatch[] = [];
+  for (const entry of entries) {
+    let best = 0;
+    let matchedName = entry.name;
+    for (const candidate of entry.names) {
+      const score = tokenSimilarity(tokens, candidate.tokens);
+      if (score > best) {
+        best = score;
+        matchedName = candidate.name;
+      }
+    }
+    if (best >= threshold) {
+      matches.push({
+        entryId: entry.id,
+        listId: entry.listId,
+        source: entry.source,
+        externalId: entry.externalId,
+        name: entry.name,
+        matchedName,
+        score: Math.round(best * 1000) / 1000,
+      });
+    }
+  }
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+// ==================== SCREENING OUTCOME ====================
+
+export interface PastScreening {
+  id: string;
+  screenedName: string;
+  listVersion: string;
+  status: string;
+  matches: Array<Pick<SanctionsMatch, 'source' | 'externalId'>>;
+  reviewedBy: string | null;
+  reviewedByName: string | null;
+}
+
+export type ScreeningNeed =
+  | { action: 'hold'; screening: PastScreening }
+  | { action: 'clear' }
+  | { action: 'screen' };
+
+function matchKey(match: Pick<SanctionsMatch, 'source' | 'externalId'>): string {
+  return `${match.source}:${match.externalId}`;
+}
+
+function sameName(a: string, b: string): boolean {
+  return nameTokens(a).join(' ') === nameTokens(b).join(' ');
+}
+
+/**
+ * Whether a subject can be paid given its screenings (newest first): a
+ * confirmed match holds for good, an unreviewed match holds until a
+ * reviewer decides, and a stale screening (another name, or older lists)
+ * needs a fresh one.
+ */
+export function screeningNeed(history: PastScreening[], currentName: string, listVersion: string): ScreeningNeed {
+  const confirmed = history.find((s) => s.status === 'confirmed_match');
+  if (confirmed) return { action: 'hold', screening: confirmed };
+  const latest = history[0];
+  if (!latest || latest.listVersion !== listVersion || !sameName(latest.screenedName, currentName)) {
+    return { action: 'screen' };
+  }
+  if (latest.status === 'potential_match') return { action: 'hold', screening: latest };
+  return { action: 'clear' };
+}
+
+/**
+ * Status of a new screening. Matches a reviewer already cleared for the
+ * same name stay cleared after a list update, so only new hits wait for
+ * review again.
+ */
+export function newScreeningStatus(
+  matches: SanctionsMatch[],
+  screenedName: string,
+  history: PastScreening[],
+): { status: ScreeningStatus; carriedFrom: PastScreening | null } {
+  if (matches.length === 0) return { status: 'clear', carriedFrom: null };
+  const previous = history.find((s) => s.status === 'cleared' && sameName(s.screenedName, screenedName));
+  if (previous) {
+    const clearedKeys = new Set(previous.matches.map(matchKey));
+    if (matches.every((m) => clearedKeys.has(matchKey(m)))) {
+      return { status: 'cleared', carriedFrom: previous };
+    }
+  }
+  return { status: 'potential_match', carriedFrom: null };
+}
+
+/** Identifies the set of active lists a screening ran against. */
+export function listVersionOf(lists: Array<{ id: string }>): string {
+  return lists.map((l) => l.id).sort().join(',');
+}
+
+// ==================== OFAC SDN ====================
+
+function csvCells(row: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < row.length; i++) {
+    const ch = row[i];
+    if (quoted) {
+      if (ch === '"' && row[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function ofacValue(raw: string | undefined): string | null {
+  const value = raw?.trim();
+  return !value || value === '-0-' ? null : value;
+}
+
+function csvRows(content: string): string[][] {
+  return content
+    .replace(/^\uFEFF/, '')
+    .replace(/\x1a/g, '')
+    .split(/\r?\n/)
+    .filter((row) => row.trim())
+    .map(csvCells);
+}
+
+export function parseOfacSdnCsv(sdnCsv: string, altCsv?: string): ParsedSanctionsEntry[] {
+  const aliases = new Map<string, string[]>();
+  for (const cells of altCsv ? csvRows(altCsv) : []) {
+    const entNum = ofacValue(cells[0]);
+    const alias = ofacValue(cells[3]);
+    if (!entNum || !alias || !/^\d+$/.test(entNum)) continue;
+    aliases.set(entNum, [...(aliases.get(entNum) ?? []), alias]);
+  }
+
+  const entries: ParsedSanctionsEntry[] = [];
+  for (const cells of csvRows(sdnCsv)) {
+    const entNum = ofacValue(cells[0]);
+    const name = ofacValue(cells[1]);
+    // Skips a header row, if the file has one.
+    if (!entNum || !name || !/^\d+$/.test(entNum)) continue;
+    const type = ofacValue(cells[2])?.toLowerCase();
+    if (type === 'vessel' || type === 'aircraft') continue;
+    entries.push({
+      externalId: entNum,
+      name,
+      aliases: aliases.get(entNum) ?? [],
+      entityType: type === 'individual' ? 'individual' : 'entity',
+      programs: (ofacValue(cells[3]) ?? '').split(/\]\s*\[|;/).map((p) => p.replace(/[[\]]/g, '').trim()).filter(Boolean),
+      remarks: ofacValue(cells[11]),
+    });
+  }
+  if (entries.length === 0) {
+    throw new SanctionsListParseError('No SDN entries found. Upload the OFAC SDN.CSV file.');
+  }
+  return entries;
+}
+
+// ==================== UN CONSOLIDATED ====================
+
+function decodeEntities(s: string): string {
+  return s
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function xmlValue(block: string, tag: string): string | null {
+  const m = block.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'i'));
+  const value = m ? decodeEntities(m[1]).replace(/\s+/g, ' ').trim() : '';
+  return value || null;
+}
+
+function xmlBlocks(content: string, tag: string): string[] {
+  return content.match(new RegExp(`<${tag}>[\\s\\S]*?</${tag}>`, 'gi')) ?? [];
+}
+
+function unAliases(block: string, tag: string): string[] {
+  return xmlBlocks(block, tag)
+    .filter((alias) => (xmlValue(alias, 'QUALITY') ?? '').toLowerCase() !== 'low')
+    .map((alias) => xmlValue(alias, 'ALIAS_NAME'))
+    .filter((alias): alias is string => !!alias);
+}
+
+export function parseUnConsolidatedXml(content: string): ParsedSanctionsEntry[] {
+  const entries: ParsedSanctionsEntry[] = [];
+  const read = (block: string, entityType: ParsedSanctionsEntry['entityType'], nameTags: string[], aliasTag: string) => {
+    const name = nameTags.map((tag) => xmlValue(block, tag)).filter(Boolean).join(' ');
+    const externalId = xmlValue(block, 'REFERENCE_NUMBER') ?? xmlValue(block, 'DATAID');
+    if (!name || !externalId) return;
+    entries.push({
+      externalId,
+      name,
+      aliases: unAliases(block, aliasTag),
+      entityType,
+      programs: [xmlValue(block, 'UN_LIST_TYPE')].filter((p): p is string => !!p),
+      remarks: xmlValue(block, 'COMMENTS1'),
+    });
+  };
+
+  for (const block of xmlBlocks(content, 'INDIVIDUAL')) {
+    read(block, 'individual', ['FIRST_NAME', 'SECOND_NAME', 'THIRD_NAME', 'FOURTH_NAME'], 'INDIVIDUAL_ALIAS');
+  }
+  for (const block of xmlBlocks(content, 'ENTITY')) {
+    read(block, 'entity', ['FIRST_NAME'], 'ENTITY_ALIAS');
+  }
+  if (entries.length === 0) {
+    throw new SanctionsListParseError('No entries found. Upload the UN consolidated list XML.');
+  }
+  return entries;
+}
+
+export function detectSanctionsSource(content: string, fileName = ''): SanctionsSource | null {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'xml' || /<CONSOLIDATED_LIST|<INDIVIDUALS>|<ENTITIES>/i.test(content)) return 'un_consolidated';
+  if (ext === 'csv' || /^\s*\d+\s*,/.test(content.replace(/^\uFEFF/, ''))) return 'ofac_sdn';
+  return null;
+}
+
+export function parseSanctionsList(
+  content: string,
+  opts: { source?: SanctionsSource; fileName?: string; aliases?: string } = {},
+): { source: SanctionsSource; entries: ParsedSanctionsEntry[] } {
+  const source = opts.source ?? detectSanctionsSource(content, opts.fileName);
+  switch (source) {
+    case 'ofac_sdn': return { source, entries: parseOfacSdnCsv(content, opts.aliases) };
+    case 'un_consolidated': return { source, entries: parseUnConsolidatedXml(content) };
+    default: throw new SanctionsListParseError('Unrecognised list. Upload the OFAC SDN.CSV or the UN consolidated list XML.');
+  }
+}
@@ -0,0 +1,163 @@
+// Bank statement line ↔ Spendly record matching.
+//
+// A candidate is anything that should show up on a bank statement: a
+// transaction, a paid bill, an invoice payment or a payout. Each carries
+// the signed amount the bank would show (positive money in) and the date
+// range it could plausibly clear in.
+//
+//   • The amount must match to the cent, in the same direction and, when
+//     both sides know it, the same currency. Nothing else is considered.
+//   • Date: full marks inside the candidate's range, tapering to nothing
+//     at `dateWindowDays` outside it; further out is not a match.
+//   • Reference: the candidate's reference or number appearing in the
+//     line's description or reference is the strongest signal; otherwise
+//     shared words between the candidate's label and the description.
+//
+// Scores run 0..100. A line is auto-matched only when its best candidate
+// scores at least AUTO_MATCH_SCORE, clearly beats the runner-up, and no
+// higher-scoring line has claimed the same candidate.
+
+export const MATCH_TARGET_TYPES = ['transaction', 'bill', 'invoice', 'payout'] as const;
+export type MatchTargetType = typeof MATCH_TARGET_TYPES[number];
+
+export const AUTO_MATCH_SCORE = 90;
+const AUTO_MATCH_MARGIN = 15;
+const MIN_SUGGESTION_SCORE = 50;
+
+export interface StatementLineRef {
+  id: string;
+  date: string;
+  amount: number;
+  currency: string | null;
+  description: string;
+  reference: string | null;
+}
+
+export interface MatchCandidate {
+  type: MatchTargetType;
+  id: string;
+  amount: number;
+  currency: string | null;
+  earliestDate: string;
+  latestDate: string;
+  reference: string | null;
+  label: string;
+}
+
+export interface MatchSuggestion {
+  type: MatchTargetType;
+  id: string;
+  score: number;
+  label: string;
+  reasons: string[];
+}
+
+export interface LineMatchResult {
+  lineId: string;
+  suggestions: MatchSuggestion[];
+  autoMatch: MatchSuggestion | null;
+}
+
+export interface MatchOptions {
+  dateWindowDays?: number;
+  maxSuggestions?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dayNumber(date: string): number {
+  return Math.floor(Date.parse(date.slice(0, 10) + 'T00:00:00Z') / DAY_MS);
+}
+
+function normaliseRef(s: string): string {
+  return s.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function words(s: string): Set<string> {
+  return new Set(s.toLowerCase().split(/[^a-z0-9]+/).filter((w) => w.length >= 4 && !/^\d+$/.test(w)));
+}
+
+export function candidateKey(c: { type: string; id: string }): string {
+  return `${c.type}:${c.id}`;
+}
+
+/** Score one pairing, or null when amount, currency or date rule it out. */
+export function scoreMatch(
+  line: StatementLineRef,
+  candidate: MatchCandidate,
+  dateWindowDays = 5,
+): { score: number; reasons: string[] } | null {
+  if (Math.round(line.amount * 100) !== Math.round(candidate.amount * 100)) return null;
+  if (line.currency && candidate.currency && line.currency.toUpperCase() !== candidate.currency.toUpperCase()) return null;
+
+  const day = dayNumber(line.date);
+  const from = dayNumber(candidate.earliestDate);
+  const to = Math.max(from, dayNumber(candidate.latestDate));
+  const outside = day < from ? from - day : day > to ? day - to : 0;
+  if (outside > dateWindowDays) return null;
+
+  const reasons = ['Exact amount'];
+  let score = 50;
+  score += Math.round(30 * (1 - outside / (dateWindowDays + 1)));
+  reasons.push(outside === 0 ? 'Date in range' : `${outside} day${outside === 1 ? '' : 's'} from expected date`);
+
+  const haystack = normaliseRef(`${line.description} ${line.reference ?? ''}`);
+  const ref = candidate.reference ? normaliseRef(candidate.reference) : '';
+  if (ref.length >= 4 && haystack.includes(ref)) {
+    score += 20;
+    reasons.push('Reference found');
+  } else {
+    const lineWords = words(`${line.description} ${line.reference ?? ''}`);
+    const shared = Array.from(words(candidate.label)).filter((w) => lineWords.has(w));
+    if (shared.length > 0) {
+      score += 10;
+      reasons.push(`Description mentions "${shared[0]}"`);
+    }
+  }
+
+  return { score: Math.min(score, 100), reasons };
+}
+
+export function suggestMatches(
+  lines: StatementLineRef[],
+  candidates: MatchCandidate[],
+  opts: MatchOptions = {},
+): LineMatchResult[] {
+  const window = opts.dateWindowDays ?? 5;
+  const max = opts.maxSuggestions ?? 3;
+
+  const byCents = new Map<number, MatchCandidate[]>();
+  for (const c of candidates) {
+    const cents = Math.round(c.amount * 100);
+    const list = byCents.get(cents) ?? [];
+    list.push(c);
+    byCents.set(cents, list);
+  }
+
+  const results = lines.map((line): LineMatchResult => {
+    const suggestions: MatchSuggestion[] = [];
+    for (const c of byCents.get(Math.round(line.amount * 100)) ?? []) {
+      const scored = scoreMatch(line, c, window);
+      if (scored && scored.score >= MIN_SUGGESTION_SCORE) {
+        suggestions.push({ type: c.type, id: c.id, label: c.label, ...scored });
+      }
+    }
+    suggestions.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+    return { lineId: line.id, suggestions: suggestions.slice(0, max), autoMatch: null };
+  });
+
+  // Strongest lines claim their candidate first.
+  const claimed = new Set<string>();
+  const order = [...results].sort((a, b) => (b.suggestions[0]?.score ?? 0) - (a.suggestions[0]?.score ?? 0));
+  for (const result of order) {
+    const [best, runnerUp] = result.suggestions;
+    if (!best || best.score < AUTO_MATCH_SCORE) continue;
+    if (runnerUp && best.score - runnerUp.score < AUTO_MATCH_MARGIN) continue;
+    const key = candidateKey(best);
+    if (claimed.has(key)) continue;
+    claimed.add(key);
+    result.autoMatch = best;
+  }
+
+  return results;
+}
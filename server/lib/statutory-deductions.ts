@@ -0,0 +1,239 @@
+// Statutory payroll deductions: income tax plus the per-country
+// contributions (pension, social security, health insurance, levies)
+// withheld from an employee's pay, and what the employer pays on top.
+//
+// Rules are versioned like tax brackets: each carries the window it is
+// effective in and its source, and the row in force on the pay date is
+// used. A rule's tiers are slices of earnings in its cadence (monthly or
+// annual), with a rate for each side:
+//
+//   GB NI 2024-25 (annual), employee: [{12570, 0}, {37700, 0.08}, {null, 0.02}]
+//
+// is 0% on the first £12,570, 8% on the next £37,700 and 2% above. A
+// tier with rate 0 after a capped one is how a contribution ceiling is
+// written. Thresholds are scaled to the pay period (a monthly entry uses
+// a twelfth of an annual threshold); there is no year-to-date carry.
+//
+// Employee contributions that are tax-deductible (pension in most
+// countries) come off the income before tax is worked out.
+
+export type Tier = { limit: number | null; rate: number };
+
+export const STATUTORY_CATEGORIES = ['pension', 'insurance', 'other'] as const;
+export type StatutoryCategory = typeof STATUTORY_CATEGORIES[number];
+
+export interface StatutoryRule {
+  code: string;
+  name: string;
+  category: StatutoryCategory;
+  authority: string;
+  cadence: 'annual' | 'monthly';
+  employeeTiers: Tier[];
+  employerTiers: Tier[];
+  // Least the employee pays, in the rule's cadence (KE SHIF).
+  employeeMinimum: number;
+  taxDeductible: boolean;
+  source: string | null;
+  effectiveFrom: string;
+}
+
+export interface TaxBracketConfig {
+  cadence: 'annual' | 'monthly';
+  tiers: Tier[];
+  flatReduction: number;
+  source: string | null;
+  effectiveFrom: string;
+}
+
+export interface StatutoryLine {
+  code: string;
+  name: string;
+  category: StatutoryCategory | 'tax';
+  authority: string;
+  employee: number;
+  employer: number;
+  source: string | null;
+  effectiveFrom: string;
+}
+
+export interface DeductionBreakdown {
+  tax: number;
+  pension: number;
+  insurance: number;
+  other: number;
+}
+
+export interface PayrollDeductions {
+  breakdown: DeductionBreakdown;
+  lines: StatutoryLine[];
+  employeeTotal: number;
+  employerTotal: number;
+  netPay: number;
+}
+
+export const PAY_PERIODS_PER_YEAR: Record<string, number> = {
+  weekly: 52,
+  monthly: 12,
+  quarterly: 4,
+  yearly: 1,
+  // A one-off payment is treated as a month's pay.
+  once: 12,
+};
+
+// Who collects income tax (PAYE) in each country, for remittance.
+export const TAX_AUTHORITIES: Record<string, string> = {
+  NG: 'State IRS',
+  GH: 'GRA',
+  KE: 'KRA',
+  ZA: 'SARS',
+  US: 'IRS',
+  GB: 'HMRC',
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export function periodsPerYear(frequency: string | null | undefined): number {
+  return PAY_PERIODS_PER_YEAR[frequency ?? 'monthly'] ?? 12;
+}
+
+/** How many of the rule's cadence periods one pay period spans. */
+function cadenceScale(cadence: 'annual' | 'monthly', payPeriodsPerYear: number): number {
+  return (cadence === 'annual' ? 1 : 12) / payPeriodsPerYear;
+}
+
+/** Contribution on `amount` across slice-width tiers. */
+export function applyTiers(amount: number, tiers: Tier[], scale = 1): number {
+  let remaining = Math.max(0, amount);
+  let total = 0;
+  for (const tier of tiers) {
+    if (remaining <= 0) break;
+    const slice = tier.limit === null ? remaining : Math.min(remaining, tier.limit * scale);
+    total += slice * tier.rate;
+    remaining -= slice;
+  }
+  return total;
+}
+
+// AUD-PR-012 — generic progressive-tax engine. Applied uniformly to
+// every country's bracket set (sourced from the tax_brackets table).
+// Mirrors the per-country switch logic that used to live inline:
+//
+// - Each tier has SLICE width (`limit`) and a rate. limit:null means
+//   "remainder of income above prior tiers" (the JS Infinity sentinel
+//   in the old code).
+// - `cadence: 'monthly'` divides salary by 12 before bracketing
+//   (KE behaviour) and multiplies the result by 12 for the annual
+//   total. Annual brackets do not divide.
+// - `flatReduction` is subtracted at the end (KE personal relief,
+//   ZA rebate) and clamped non-negative.
+// - The response retains shape compatibility with the previous handler.
+export function applyProgressiveTax(
+  salary: number,
+  cadence: 'annual' | 'monthly',
+  tiers: Array<{ limit: number | null; rate: number }>,
+  flatReduction: number,
+): { tax: number; brackets: Array<{ rate: number; amount: number }> } {
+  const base = cadence === 'monthly' ? salary / 12 : salary;
+  let remaining = base;
+  let tax = 0;
+  const brackets: Array<{ rate: number; amount: number }> = [];
+  for (const tier of tiers) {
+    const cap = tier.limit ?? Number.POSITIVE_INFINITY;
+    const taxable = Math.min(remaining, cap);
+    if (taxable <= 0) break;
+    const amt = taxable * tier.rate;
+    tax += amt;
+    if (tier.rate > 0) {
+      // Suppress zero-rate (personal-allowance) bands from the
+      // response, matching the historical GH / GB behaviour. Other
+      // countries don't have zero-rate tiers, so this is a no-op
+      // for them. Monthly KE collapses its breakdown to a single
+      // weighted-rate row below regardless.
+      brackets.push({ rate: tier.rate * 100, amount: amt });
+    }
+    remaining -= taxable;
+  }
+  if (cadence === 'monthly') {
+    const monthlyTax = Math.max(0, tax - flatReduction);
+    const annual = monthlyTax * 12;
+    return {
+      tax: annual,
+      brackets: [{ rate: salary > 0 ? (annual / salary) * 100 : 0, amount: annual }],
+    };
+  }
+  tax = Math.max(0, tax - flatReduction);
+  return { tax, brackets };
+}
+
+/** One rule's employee and employer amounts on a pay period's gross. */
+export function statutoryLine(rule: StatutoryRule, gross: number, payPeriodsPerYear: number): StatutoryLine {
+  const scale = cadenceScale(rule.cadence, payPeriodsPerYear);
+  let employee = applyTiers(gross, rule.employeeTiers, scale);
+  if (gross > 0 && rule.employeeMinimum > 0) employee = Math.max(employee, rule.employeeMinimum * scale);
+  return {
+    code: rule.code,
+    name: rule.name,
+    category: rule.category,
+    authority: rule.authority,
+    employee: round(Math.min(employee, gross)),
+    employer: round(applyTiers(gross, rule.employerTiers, scale)),
+    source: rule.source,
+    effectiveFrom: rule.effectiveFrom,
+  };
+}
+
+/**
+ * Everything withheld from one pay period's gross (salary + bonus):
+ * statutory contributions, income tax on what is left after the
+ * deductible ones, and any other deductions entered by hand.
+ */
+export function computePayrollDeductions(input: {
+  country: string;
+  gross: number;
+  frequency: string | null | undefined;
+  rules: StatutoryRule[];
+  tax: TaxBracketConfig | null;
+  otherDeductions?: number;
+}): PayrollDeductions {
+  const perYear = periodsPerYear(input.frequency);
+  const gross = Math.max(0, input.gross);
+  const lines = input.rules.map((rule) => statutoryLine(rule, gross, perYear));
+
+  if (input.tax) {
+    const relief = lines
+      .filter((l) => input.rules.find((r) => r.code === l.code)?.taxDeductible)
+      .reduce((sum, l) => sum + l.employee, 0);
+    const annualTaxable = Math.max(0, gross - relief) * perYear;
+    const { tax } = applyProgressiveTax(annualTaxable, input.tax.cadence, input.tax.tiers, input.tax.flatReduction);
+    lines.unshift({
+      code: `${input.country.toUpperCase()}_PAYE`,
+      name: 'Income tax',
+      category: 'tax',
+      authority: TAX_AUTHORITIES[input.country.toUpperCase()] ?? 'Tax authority',
+      employee: round(tax / perYear),
+      employer: 0,
+      source: input.tax.source,
+      effectiveFrom: input.tax.effectiveFrom,
+    });
+  }
+
+  const sum = (category: StatutoryLine['category']) =>
+    round(lines.filter((l) => l.category === category).reduce((s, l) => s + l.employee, 0));
+  const other = round(sum('other') + Math.max(0, input.otherDeductions ?? 0));
+  const breakdown = { tax: sum('tax'), pension: sum('pension'), insurance: sum('insurance'), other };
+  const employeeTotal = round(breakdown.tax + breakdown.pension + breakdown.insurance + breakdown.other);
+
+  return {
+    breakdown,
+    lines: lines.filter((l) => l.employee > 0 || l.employer > 0),
+    employeeTotal,
+    employerTotal: round(lines.reduce((s, l) => s + l.employer, 0)),
+    netPay: round(gross - employeeTotal),
+  };
+}
+
+/** The hand-entered part of an entry's "other" deductions. */
+export function manualOtherDeductions(breakdown: DeductionBreakdown | null | undefined, lines: StatutoryLine[] | null | undefined): number {
+  const statutoryOther = (lines ?? []).filter((l) => l.category === 'other').reduce((s, l) => s + l.employee, 0);
+  return Math.max(0, round((breakdown?.other ?? 0) - statutoryOther));
+}
@@ -0,0 +1,271 @@
+// Statutory remittances: what a payroll run withheld (and what the
+// employer owes on top) for each authority, when it is due and the CSV
+// schedule filed with the payment.
+//
+// Run items carry the statutory lines worked out for each entry
+// (server/lib/statutory-deductions.ts). Lines are grouped by country,
+// authority and kind — income tax goes on a PAYE schedule, pension and
+// social-security contributions on a contribution schedule — so each
+// remittance is one payment to one authority:
+//
+//   ng-state-irs-paye        PAYE for the State IRS
+//   ng-pfa-contributions     pension, employee 8% + employer 10%
+//   ke-kra-contributions     affordable housing levy (KRA also gets PAYE)
+//
+// Items reversed or released before payment owe nothing.
+
+import type { StatutoryLine } from "./statutory-deductions";
+
+export type RemittanceKind = 'paye' | 'contributions';
+
+export interface RemittanceSourceItem {
+  employeeId: string;
+  employeeName: string;
+  department?: string | null;
+  country?: string | null;
+  currency?: string | null;
+  salary: number;
+  bonus: number;
+  status: string;
+  statutoryLines: StatutoryLine[] | null;
+}
+
+export interface RemittanceRow {
+  employeeId: string;
+  employeeName: string;
+  department: string | null;
+  gross: number;
+  // By rule code.
+  amounts: Record<string, { employee: number; employer: number }>;
+  total: number;
+}
+
+export interface Remittance {
+  id: string;
+  country: string;
+  authority: string;
+  kind: RemittanceKind;
+  currency: string;
+  rules: Array<{ code: string; name: string; source: string | null }>;
+  employeeCount: number;
+  employeeTotal: number;
+  employerTotal: number;
+  total: number;
+  dueDate: string;
+  rows: RemittanceRow[];
+}
+
+export interface RemittancePeriod {
+  periodStart: string;
+  periodEnd: string;
+  payDate: string;
+}
+
+// Item statuses whose withholdings are not owed.
+const UNREMITTED_ITEM_STATUSES = ['reversed', 'released'];
+
+type DueRule = { monthDay: number } | { workingDays: number };
+
+// When each authority wants the money, by `${country}:${authority}`: a day
+// of the month after the pay date (clamped to the month's end) or a
+// number of working days after it.
+export const REMITTANCE_DUE: Record<string, DueRule> = {
+  'NG:State IRS': { monthDay: 10 },
+  'NG:PFA': { workingDays: 7 },
+  'NG:FMBN': { monthDay: 31 },
+  'KE:KRA': { monthDay: 9 },
+  'KE:NSSF': { monthDay: 9 },
+  'KE:SHA': { monthDay: 9 },
+  'GH:GRA': { monthDay: 15 },
+  'GH:SSNIT': { monthDay: 14 },
+  'ZA:SARS': { monthDay: 7 },
+  'US:IRS': { monthDay: 15 },
+  'GB:HMRC': { monthDay: 22 },
+};
+
+const DEFAULT_DUE: DueRule = { monthDay: 15 };
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+export function remittanceId(country: string, authority: string, kind: RemittanceKind): string {
+  return slug(`${country} ${authority} ${kind}`);
+}
+
+/** The date (YYYY-MM-DD) a remittance for pay on `payDate` is due. */
+export function remittanceDueDate(country: string, authority: string, payDate: string): string {
+  const rule = REMITTANCE_DUE[`${country.toUpperCase()}:${authority}`] ?? DEFAULT_DUE;
+  const date = new Date(`${payDate.slice(0, 10)}T00:00:00Z`);
+  if ('workingDays' in rule) {
+    let left = rule.workingDays;
+    while (left > 0) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      const day = date.getUTCDay();
+      if (day !== 0 && day !== 6) left--;
+    }
+    return date.toISOString().slice(0, 10);
+  }
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 2, 0)).getUTCDate();
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, Math.min(rule.monthDay, lastDay)))
+    .toISOString().slice(0, 10);
+}
+
+/**
+ * The run's remittances, PAYE first within each country. The run's
+ * country and currency stand in for items frozen without one.
+ */
+export function buildRemittances(
+  items: RemittanceSourceItem[],
+  run: { payDate: string; country: string; currency: string },
+): Remittance[] {
+  const byId = new Map<string, Remittance>();
+
+  for (const item of items) {
+    if (UNREMITTED_ITEM_STATUSES.includes(item.status)) continue;
+    const country = (item.country || run.country).toUpperCase();
+    const rows = new Map<string, RemittanceRow>();
+
+    for (const line of item.statutoryLines ?? []) {
+      if (line.employee <= 0 && line.employer <= 0) continue;
+      const kind: RemittanceKind = line.category === 'tax' ? 'paye' : 'contributions';
+      const id = remittanceId(country, line.authority, kind);
+      let remittance = byId.get(id);
+      if (!remittance) {
+        remittance = {
+          id,
+          country,
+          authority: line.authority,
+          kind,
+          currency: item.currency || run.currency,
+          rules: [],
+          employeeCount: 0,
+          employeeTotal: 0,
+          employerTotal: 0,
+          total: 0,
+          dueDate: remittanceDueDate(country, line.authority, run.payDate),
+          rows: [],
+        };
+        byId.set(id, remittance);
+      }
+      if (!remittance.rules.some((r) => r.code === line.code)) {
+        remittance.rules.push({ code: line.code, name: line.name, source: line.source });
+      }
+
+      let row = rows.get(id);
+      if (!row) {
+        row = {
+          employeeId: item.employeeId,
+          employeeName: item.employeeName,
+          department: item.department ?? null,
+          gross: round(item.salary + item.bonus),
+          amounts: {},
+          total: 0,
+        };
+        rows.set(id, row);
+        remittance.rows.push(row);
+      }
+      const amount = row.amounts[line.code] ?? { employee: 0, employer: 0 };
+      amount.employee = round(amount.employee + line.employee);
+      amount.employer = round(amount.employer + line.employer);
+      row.amounts[line.code] = amount;
+      row.total = round(row.total + line.employee + line.employer);
+      remittance.employeeTotal = round(remittance.employeeTotal + line.employee);
+      remittance.employerTotal = round(remittance.employerTotal + line.employer);
+    }
+  }
+
+  return Array.from(byId.values())
+    .map((r) => ({
+      ...r,
+      employeeCount: r.rows.length,
+      total: round(r.employeeTotal + r.employerTotal),
+    }))
+    .sort((a, b) =>
+      a.country.localeCompare(b.country)
+      || (a.kind === b.kind ? 0 : a.kind === 'paye' ? -1 : 1)
+      || a.authority.localeCompare(b.authority));
+}
+
+// ==================== FILE FORMATS ====================
+
+function csvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const str = String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+function csv(rows: Array<Array<string | number | null>>): string {
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function money(n: number): string {
+  return n.toFixed(2);
+}
+
+/** PAYE schedule: one row per employee with gross pay and tax deducted. */
+export function formatPayeScheduleCsv(remittance: Remittance, period: RemittancePeriod): string {
+  const rows: Array<Array<string | number | null>> = [[
+    'S/N', 'Employee ID', 'Employee Name', 'Department', 'Gross Pay', 'Tax Deducted', 'Period Start', 'Period End', 'Pay Date',
+  ]];
+  remittance.rows.forEach((row, i) => {
+    const tax = Object.values(row.amounts).reduce((sum, a) => sum + a.employee, 0);
+    rows.push([
+      i + 1, row.employeeId, row.employeeName, row.department, money(row.gross), money(tax),
+      period.periodStart, period.periodEnd, period.payDate,
+    ]);
+  });
+  rows.push([
+    null, null, 'Total', null, money(remittance.rows.reduce((sum, r) => sum + r.gross, 0)), money(remittance.employeeTotal),
+    null, null, null,
+  ]);
+  return csv(rows);
+}
+
+/**
+ * Contribution schedule (pension, social security, levies): employee and
+ * employer columns for each rule, prefixed with the rule's name when the
+ * authority collects more than one.
+ */
+export function formatContributionScheduleCsv(remittance: Remittance, period: RemittancePeriod): string {
+  const multiple = remittance.rules.length > 1;
+  const columns = remittance.rules.flatMap((rule) => multiple
+    ? [`${rule.name} Employee`, `${rule.name} Employer`]
+    : ['Employee Contribution', 'Employer Contribution']);
+  const rows: Array<Array<string | number | null>> = [[
+    'S/N', 'Employee ID', 'Employee Name', 'Department', 'Gross Pay', ...columns, 'Total Contribution',
+    'Period Start', 'Period End',
+  ]];
+  remittance.rows.forEach((row, i) => {
+    const amounts = remittance.rules.flatMap((rule) => {
+      const a = row.amounts[rule.code] ?? { employee: 0, employer: 0 };
+      return [money(a.employee), money(a.employer)];
+    });
+    rows.push([
+      i + 1, row.employeeId, row.employeeName, row.department, money(row.gross), ...amounts, money(row.total),
+      period.periodStart, period.periodEnd,
+    ]);
+  });
+  const totals = remittance.rules.flatMap((rule) => {
+    const sum = (side: 'employee' | 'employer') =>
+      remittance.rows.reduce((s, r) => s + (r.amounts[rule.code]?.[side] ?? 0), 0);
+    return [money(sum('employee')), money(sum('employer'))];
+  });
+  rows.push([
+    null, null, 'Total', null, money(remittance.rows.reduce((sum, r) => sum + r.gross, 0)), ...totals,
+    money(remittance.total), null, null,
+  ]);
+  return csv(rows);
+}
+
+export function formatRemittanceCsv(remittance: Remittance, period: RemittancePeriod): string {
+  return remittance.kind === 'paye'
+    ? formatPayeScheduleCsv(remittance, period)
+    : formatContributionScheduleCsv(remittance, period);
+}
+
+export function remittanceFileName(runName: string, remittance: Remittance): string {
+  return `${remittance.kind === 'paye' ? 'paye' : 'contribution'}-schedule-${slug(runName)}-${remittance.id}.csv`;
+}
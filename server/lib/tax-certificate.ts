@@ -0,0 +1,155 @@
+// Annual tax certificate PDFs: an employee's pay, tax and statutory
+// contributions for a year, with a month-by-month table, in the company's
+// colours. It summarises what payroll withheld; the authority's own form
+// (P60, P9, IRP5, W-2…) is named on it for reference.
+
+import { createPdfDocument, fitText } from "./pdf";
+import { formatPayslipAmount } from "./payslip";
+import type { PayYear } from "./employee-pay";
+
+export interface TaxCertificateData {
+  company: {
+    name: string;
+    tagline?: string | null;
+    address?: string | null;
+    email?: string | null;
+    primaryColor?: string | null;
+  };
+  employee: {
+    id: string;
+    name: string;
+    department?: string | null;
+  };
+  country: string;
+  summary: PayYear;
+}
+
+// The statutory year-end form each authority issues.
+export const STATUTORY_FORMS: Record<string, string> = {
+  GB: 'P60',
+  KE: 'P9',
+  ZA: 'IRP5',
+  US: 'W-2',
+  NG: 'Form H1',
+  GH: 'Annual PAYE return',
+};
+
+const DEFAULT_BRAND = '#4f46e5';
+const MUTED = '#6b7280';
+const LEFT = 48;
+const RIGHT = 547;
+
+export function taxCertificateFileName(year: number, employeeName: string): string {
+  const slug = employeeName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `tax-certificate-${year}-${slug}.pdf`;
+}
+
+/** The year's pay by calendar month, however often the employee was paid. */
+export function monthlyTotals(summary: PayYear): Array<{ month: string; gross: number; tax: number; deductions: number; netPay: number }> {
+  const byMonth = new Map<string, { month: string; gross: number; tax: number; deductions: number; netPay: number }>();
+  for (const m of summary.months) {
+    const key = m.payDate.slice(0, 7);
+    const row = byMonth.get(key) ?? { month: key, gross: 0, tax: 0, deductions: 0, netPay: 0 };
+    row.gross += m.gross;
+    row.tax += m.tax;
+    row.deductions += m.deductions;
+    row.netPay += m.netPay;
+    byMonth.set(key, row);
+  }
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return Array.from(byMonth.values()).map((r) => ({
+    month: r.month,
+    gross: round(r.gross),
+    tax: round(r.tax),
+    deductions: round(r.deductions),
+    netPay: round(r.netPay),
+  }));
+}
+
+export function renderTaxCertificatePdf(data: TaxCertificateData, generatedAt: Date = new Date()): Buffer {
+  const { summary } = data;
+  const brand = /^#?[0-9a-f]{3}([0-9a-f]{3})?$/i.test(data.company.primaryColor ?? '')
+    ? data.company.primaryColor!
+    : DEFAULT_BRAND;
+  const money = (n: number) => formatPayslipAmount(n, summary.currency || 'USD');
+  const doc = createPdfDocument({ title: `Tax certificate ${summary.year} — ${data.employee.name}` });
+
+  // Header band
+  doc.rect(0, 0, 595, 96, brand);
+  doc.text(LEFT, 44, fitText(data.company.name, 20, 300), { size: 20, bold: true, color: '#ffffff' });
+  if (data.company.tagline) doc.text(LEFT, 64, fitText(data.company.tagline, 10, 300), { size: 10, color: '#ffffff' });
+  doc.text(RIGHT, 44, 'ANNUAL TAX CERTIFICATE', { size: 14, bold: true, color: '#ffffff', align: 'right' });
+  doc.text(RIGHT, 64, `Tax year ${summary.year}`, { size: 10, color: '#ffffff', align: 'right' });
+
+  let y = 120;
+  const contact = [data.company.address, data.company.email].filter(Boolean).join(' · ');
+  if (contact) {
+    doc.text(LEFT, y, fitText(contact, 9, RIGHT - LEFT), { size: 9, color: MUTED });
+    y += 24;
+  }
+
+  const field = (x: number, top: number, label: string, value: string) => {
+    doc.text(x, top, label.toUpperCase(), { size: 8, color: MUTED });
+    doc.text(x, top + 14, fitText(value, 11, 230), { size: 11 });
+  };
+  field(LEFT, y, 'Employee', data.employee.name);
+  field(310, y, 'Employee ID', data.employee.id);
+  y += 38;
+  field(LEFT, y, 'Department', data.employee.department || '—');
+  field(310, y, 'Payslips in the year', String(summary.payslips));
+  y += 46;
+
+  const heading = (title: string) => {
+    doc.text(LEFT, y, title, { size: 12, bold: true, color: brand });
+    y += 8;
+    doc.line(LEFT, y, RIGHT, y, brand, 1);
+    y += 16;
+  };
+  const row = (label: string, amount: number, bold = false) => {
+    doc.text(LEFT, y, fitText(label, 10, 330), { size: 10, bold });
+    doc.text(RIGHT, y, money(amount), { size: 10, bold, align: 'right' });
+    y += 16;
+  };
+
+  heading('Pay and deductions');
+  row('Basic salary', summary.salary);
+  if (summary.bonus > 0) row('Bonus', summary.bonus);
+  row('Gross pay', summary.gross, true);
+  const withheld = summary.contributions.filter((c) => c.employee > 0);
+  for (const c of withheld) row(`${c.name} (${c.authority})`, c.employee);
+  const other = Math.round((summary.deductions - withheld.reduce((s, c) => s + c.employee, 0)) * 100) / 100;
+  if (other > 0) row(withheld.length > 0 ? 'Other deductions' : 'Deductions', other);
+  row('Total deductions', summary.deductions, true);
+  row('Net pay', summary.netPay, true);
+  y += 12;
+
+  const employer = summary.contributions.filter((c) => c.employer > 0);
+  if (employer.length > 0) {
+    heading('Employer contributions');
+    for (const c of employer) row(`${c.name} (${c.authority})`, c.employer);
+    row('Total employer contributions', summary.employerContributions, true);
+    y += 12;
+  }
+
+  heading('By month');
+  const cols = [LEFT, 250, 350, 450, RIGHT];
+  const header = ['Month', 'Gross pay', 'Income tax', 'Deductions', 'Net pay'];
+  header.forEach((label, i) => doc.text(cols[i], y, label, { size: 8, bold: true, color: MUTED, align: i === 0 ? 'left' : 'right' }));
+  y += 14;
+  for (const m of monthlyTotals(summary)) {
+    const values = [m.month, money(m.gross), money(m.tax), money(m.deductions), money(m.netPay)];
+    values.forEach((value, i) => doc.text(cols[i], y, value, { size: 9, align: i === 0 ? 'left' : 'right' }));
+    y += 14;
+  }
+
+  const form = STATUTORY_FORMS[data.country.toUpperCase()];
+  doc.line(LEFT, 774, RIGHT, 774);
+  doc.text(LEFT, 788, fitText(
+    `A summary of payroll for ${summary.year}${form ? `; your employer's ${form} is the statutory record` : ''}.`,
+    8, RIGHT - LEFT,
+  ), { size: 8, color: MUTED });
+  doc.text(LEFT, 806, fitText(`Issued by ${data.company.name}`, 8, 300), { size: 8, color: MUTED });
+  doc.text(RIGHT, 806, `Generated ${generatedAt.toISOString().slice(0, 10)}`, { size: 8, color: MUTED, align: 'right' });
+
+  return doc.toBuffer();
+}
@@ -0,0 +1,192 @@
+// Three-way matching: purchase order ↔ goods receipt ↔ bill.
+//
+// A bill linked to a PO is matched line by line against it:
+//   • the PO must be approved (or further along) and in the bill's currency;
+//   • each bill line's unit price must be within the PO's price tolerance
+//     of the ordered price;
+//   • the quantity billed for a PO line, together with what other bills
+//     already billed for it, must not exceed what was received (from the
+//     linked goods receipt, or everything received on the PO) nor what
+//     was ordered, each allowing the PO's quantity tolerance;
+//   • the bill total must equal its lines, within the price tolerance.
+// Any breach is an exception; a bill with none is 'matched' and payable.
+//
+// Receiving follows the same quantity tolerance: a receipt may not push a
+// line past its ordered quantity plus tolerance.
+
+import type { BillLineItem, ThreeWayMatchException } from "@shared/schema";
+
+export const MATCHABLE_PO_STATUSES = ['approved', 'partially_received', 'received', 'closed'];
+export const RECEIVABLE_PO_STATUSES = ['approved', 'partially_received'];
+
+export interface PoLineRef {
+  id: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  receivedQuantity: number;
+}
+
+export interface MatchTolerance {
+  pricePercent: number;
+  quantityPercent: number;
+}
+
+export interface ThreeWayMatchInput {
+  poStatus: string;
+  poCurrency: string;
+  poLines: PoLineRef[];
+  billCurrency: string;
+  billAmount: number;
+  billLines: BillLineItem[];
+  // Received quantity per PO line available to this bill.
+  received: Record<string, number>;
+  // Quantity per PO line already on other bills against the same PO.
+  billedElsewhere: Record<string, number>;
+  tolerance: MatchTolerance;
+}
+
+export interface ThreeWayMatchResult {
+  status: 'matched' | 'exception';
+  exceptions: ThreeWayMatchException[];
+}
+
+const roundQty = (n: number) => Math.round(n * 1000) / 1000;
+const roundMoney = (n: number) => Math.round(n * 100) / 100;
+const EPSILON = 1e-6;
+
+export function purchaseOrderTotal(lines: Array<{ quantity: number; unitPrice: number }>): number {
+  return roundMoney(lines.reduce((sum, l) => sum + l.quantity * l.unitPrice, 0));
+}
+
+export function matchBillToPurchaseOrder(input: ThreeWayMatchInput): ThreeWayMatchResult {
+  const { tolerance } = input;
+  const exceptions: ThreeWayMatchException[] = [];
+
+  if (!MATCHABLE_PO_STATUSES.includes(input.poStatus)) {
+    exceptions.push({ code: 'po_not_approved', poLineId: null, message: `Purchase order is ${input.poStatus.replace(/_/g, ' ')}` });
+  }
+  if (input.poCurrency.toUpperCase() !== input.billCurrency.toUpperCase()) {
+    exceptions.push({
+      code: 'currency_mismatch',
+      poLineId: null,
+      message: `Bill is in ${input.billCurrency} but the purchase order is in ${input.poCurrency}`,
+    });
+  }
+  if (input.billLines.length === 0) {
+    exceptions.push({ code: 'no_lines', poLineId: null, message: 'Bill has no lines to match against the purchase order' });
+    return { status: 'exception', exceptions };
+  }
+
+  const poLines = new Map(input.poLines.map((l) => [l.id, l]));
+  const billedHere = new Map<string, number>();
+  for (const line of input.billLines) {
+    const po = poLines.get(line.poLineId);
+    if (!po) {
+      exceptions.push({ code: 'unknown_line', poLineId: line.poLineId, message: 'Bill line does not belong to the purchase order' });
+      continue;
+    }
+    billedHere.set(po.id, (billedHere.get(po.id) ?? 0) + line.quantity);
+
+    const allowed = po.unitPrice * tolerance.pricePercent / 100;
+    if (Math.abs(line.unitPrice - po.unitPrice) > allowed + 0.005) {
+      exceptions.push({
+        code: 'price_variance',
+        poLineId: po.id,
+        message: `${po.description}: billed at ${line.unitPrice.toFixed(2)}, ordered at ${po.unitPrice.toFixed(2)}`,
+        expected: po.unitPrice,
+        actual: line.unitPrice,
+      });
+    }
+  }
+
+  const qtyFactor = 1 + tolerance.quantityPercent / 100;
+  billedHere.forEach((quantity, poLineId) => {
+    const po = poLines.get(poLineId)!;
+    const billed = roundQty(quantity + (input.billedElsewhere[poLineId] ?? 0));
+    const received = input.received[poLineId] ?? 0;
+    if (billed > received * qtyFactor + EPSILON) {
+      exceptions.push({
+        code: 'quantity_not_received',
+        poLineId,
+        message: `${po.description}: ${billed} billed but ${received} received`,
+        expected: received,
+        actual: billed,
+      });
+    } else if (billed > po.quantity * qtyFactor + EPSILON) {
+      exceptions.push({
+        code: 'quantity_exceeds_order',
+        poLineId,
+        message: `${po.description}: ${billed} billed but ${po.quantity} ordered`,
+        expected: po.quantity,
+        actual: billed,
+      });
+    }
+  });
+
+  const linesTotal = purchaseOrderTotal(input.billLines);
+  const allowedDiff = Math.max(0.01, linesTotal * tolerance.pricePercent / 100);
+  if (Math.abs(input.billAmount - linesTotal) > allowedDiff + EPSILON) {
+    exceptions.push({
+      code: 'amount_mismatch',
+      poLineId: null,
+      message: `Bill total ${input.billAmount.toFixed(2)} does not equal its lines (${linesTotal.toFixed(2)})`,
+      expected: linesTotal,
+      actual: input.billAmount,
+    });
+  }
+
+  return { status: exceptions.length === 0 ? 'matched' : 'exception', exceptions };
+}
+
+/**
+ * Lines for a bill that bills everything received and not yet billed, at
+ * the PO price — the default when a bill is linked without its own lines.
+ */
+export function defaultBillLines(
+  poLines: PoLineRef[],
+  received: Record<string, number>,
+  billedElsewhere: Record<string, number>,
+): BillLineItem[] {
+  return poLines
+    .map((l) => ({
+      poLineId: l.id,
+      description: l.description,
+      quantity: roundQty((received[l.id] ?? 0) - (billedElsewhere[l.id] ?? 0)),
+      unitPrice: l.unitPrice,
+    }))
+    .filter((l) => l.quantity > 0);
+}
+
+/** Problems with a proposed receipt; empty when it can be recorded. */
+export function checkReceipt(
+  poLines: PoLineRef[],
+  receiptLines: Array<{ poLineId: string; quantity: number }>,
+  quantityPercent: number,
+): string[] {
+  const byId = new Map(poLines.map((l) => [l.id, l]));
+  const totals = new Map<string, number>();
+  const problems: string[] = [];
+  for (const line of receiptLines) {
+    if (!byId.has(line.poLineId)) {
+      problems.push(`Line ${line.poLineId} is not on this purchase order`);
+      continue;
+    }
+    totals.set(line.poLineId, (totals.get(line.poLineId) ?? 0) + line.quantity);
+  }
+  totals.forEach((quantity, poLineId) => {
+    const po = byId.get(poLineId)!;
+    const after = roundQty(po.receivedQuantity + quantity);
+    if (after > po.quantity * (1 + quantityPercent / 100) + EPSILON) {
+      problems.push(`${po.description}: receiving ${quantity} would bring the total to ${after} of ${po.quantity} ordered`);
+    }
+  });
+  return problems;
+}
+
+/** PO status implied by its received quantities. */
+export function receivingStatus(poLines: Array<{ quantity: number; receivedQuantity: number }>): 'approved' | 'partially_received' | 'received' {
+  if (poLines.length > 0 && poLines.every((l) => l.receivedQuantity + EPSILON >= l.quantity)) return 'received';
+  if (poLines.some((l) => l.receivedQuantity > 0)) return 'partially_received';
+  return 'approved';
+}
@@ -0,0 +1,384 @@
+// Transaction monitoring: the fraud rules, each company's settings for
+// them, and evaluating one event against the events before it.
+//
+//   • new_destination_velocity — several payouts or transfers in a short
+//     window to accounts that were only just added (for a transfer, first
+//     paid).
+//   • destination_changed_then_paid — a payout to an account whose bank
+//     details changed shortly before.
+//   • threshold_splitting — payouts or transfers to one recipient that
+//     each stay under the dual-approval threshold (just under it, or round
+//     amounts) but together reach it.
+//   • unusual_card_country — a card authorization in a country the
+//     company's cards have not been used in.
+//   • new_ip_then_transfer — a payout or wallet transfer soon after its
+//     user signed in from an IP address they had not used before.
+//
+// A rule that fires produces a finding; the caller records it as an alert
+// and, when the rule's action says so, holds the payout or freezes the
+// card. Each finding carries a dedupe key naming what set it off, so
+// evaluating the same payout again finds the alert already raised.
+
+export const MONITORING_EVENT_KINDS = ['login', 'payout', 'transfer', 'card_authorization', 'destination_changed'] as const;
+export type MonitoringEventKind = typeof MONITORING_EVENT_KINDS[number];
+
+export const MONITORING_RULE_KEYS = [
+  'new_destination_velocity',
+  'destination_changed_then_paid',
+  'threshold_splitting',
+  'unusual_card_country',
+  'new_ip_then_transfer',
+] as const;
+export type MonitoringRuleKey = typeof MONITORING_RULE_KEYS[number];
+
+export const ALERT_SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+export type AlertSeverity = typeof ALERT_SEVERITIES[number];
+
+// 'alert' only queues the alert; 'hold_payout' also stops the payout or
+// transfer until the alert is dismissed; 'freeze_card' freezes the card
+// straight away.
+export const MONITORING_ACTIONS = ['alert', 'hold_payout', 'freeze_card'] as const;
+export type MonitoringAction = typeof MONITORING_ACTIONS[number];
+
+// 'dismissed' — a false alarm, and any hold is released; 'confirmed' —
+// fraud, and a held payment stays blocked.
+export const ALERT_REVIEW_DECISIONS = ['dismissed', 'confirmed'] as const;
+
+export interface RuleDefinition {
+  key: MonitoringRuleKey;
+  name: string;
+  description: string;
+  actions: MonitoringAction[];
+  severity: AlertSeverity;
+  params: Record<string, number>;
+}
+
+export const RULE_DEFINITIONS: RuleDefinition[] = [
+  {
+    key: 'new_destination_velocity',
+    name: 'Payouts to new accounts',
+    description: 'maxPayouts or more payouts or transfers within windowHours to accounts added (or first paid) less than destinationAgeHours before',
+    actions: ['alert', 'hold_payout'],
+    severity: 'medium',
+    params: { maxPayouts: 3, windowHours: 24, destinationAgeHours: 72 },
+  },
+  {
+    key: 'destination_changed_then_paid',
+    name: 'Account changed, then paid',
+    description: 'A payout to an account whose bank details changed less than withinHours before',
+    actions: ['alert', 'hold_payout'],
+    severity: 'high',
+    params: { withinHours: 48 },
+  },
+  {
+    key: 'threshold_splitting',
+    name: 'Splitting under the approval threshold',
+    description: 'minPayouts or more payouts or transfers to one recipient within windowHours, each under the dual-approval threshold but either within bandPercent of it or a multiple of roundTo, together reaching it',
+    actions: ['alert', 'hold_payout'],
+    severity: 'medium',
+    params: { minPayouts: 2, windowHours: 48, bandPercent: 10, roundTo: 100 },
+  },
+  {
+    key: 'unusual_card_country',
+    name: 'Card used in an unusual country',
+    description: "A card authorization outside the company's country and every country its cards were used in over the last lookbackDays",
+    actions: ['alert', 'freeze_card'],
+    severity: 'medium',
+    params: { lookbackDays: 90 },
+  },
+  {
+    key: 'new_ip_then_transfer',
+    name: 'New sign-in location, then money out',
+    description: 'A payout or transfer within windowHours of the user signing in from an IP address not seen in their previous lookbackDays of sign-ins',
+    actions: ['alert', 'hold_payout'],
+    severity: 'high',
+    params: { windowHours: 24, lookbackDays: 90 },
+  },
+];
+
+export interface MonitoringRuleConfig {
+  key: MonitoringRuleKey;
+  enabled: boolean;
+  severity: AlertSeverity;
+  action: MonitoringAction;
+  params: Record<string, number>;
+}
+
+export interface MonitoredEvent {
+  id: string;
+  kind: MonitoringEventKind;
+  userId: string | null;
+  subjectId: string | null;
+  amount: number | null;
+  currency: string | null;
+  ip: string | null;
+  country: string | null;
+  data: Record<string, unknown>;
+  occurredAt: string;
+}
+
+export interface MonitoringContext {
+  rules: MonitoringRuleConfig[];
+  // Earlier events the rules look back over, in any order.
+  history: MonitoredEvent[];
+  dualApprovalThreshold: number;
+  homeCountry: string | null;
+  // Countries the company's cards were used in within the card rule's
+  // lookback.
+  knownCountries: string[];
+}
+
+export type AlertSubjectType = 'payout' | 'transfer' | 'card';
+
+export interface MonitoringFinding {
+  ruleKey: MonitoringRuleKey;
+  severity: AlertSeverity;
+  action: MonitoringAction;
+  dedupeKey: string;
+  subjectType: AlertSubjectType;
+  subjectId: string;
+  summary: string;
+  details: Record<string, unknown>;
+}
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+export function ruleDefinition(key: string): RuleDefinition | undefined {
+  return RULE_DEFINITIONS.find((d) => d.key === key);
+}
+
+/**
+ * Every rule with the company's saved settings over the defaults. Saved
+ * params the rule no longer has, and actions it does not support, are
+ * ignored.
+ */
+export function effectiveRules(
+  saved: Array<{ ruleKey: string; enabled: boolean; severity: string; action: string; params: Record<string, number> | null }>,
+): MonitoringRuleConfig[] {
+  return RULE_DEFINITIONS.map((def) => {
+    const row = saved.find((r) => r.ruleKey === def.key);
+    const params = { ...def.params };
+    for (const name of Object.keys(params)) {
+      const value = row?.params?.[name];
+      if (typeof value === 'number' && Number.isFinite(value) && value > 0) params[name] = value;
+    }
+    return {
+      key: def.key,
+      enabled: row ? row.enabled : true,
+      severity: row && (ALERT_SEVERITIES as readonly string[]).includes(row.severity) ? row.severity as AlertSeverity : def.severity,
+      action: row && def.actions.includes(row.action as MonitoringAction) ? row.action as MonitoringAction : 'alert',
+      params,
+    };
+  });
+}
+
+/** Why a settings change cannot be saved for this rule, or null if it can. */
+export function ruleUpdateProblem(
+  key: string,
+  update: { action?: string; params?: Record<string, number> },
+): string | null {
+  const def = ruleDefinition(key);
+  if (!def) return `Unknown rule '${key}'`;
+  if (update.action && !def.actions.includes(update.action as MonitoringAction)) {
+    return `${def.name} can only ${def.actions.map((a) => a.replace('_', ' ')).join(' or ')}`;
+  }
+  for (const [name, value] of Object.entries(update.params ?? {})) {
+    if (!(name in def.params)) return `${def.name} has no setting '${name}'`;
+    if (!Number.isFinite(value) || value <= 0) return `${name} must be a positive number`;
+  }
+  return null;
+}
+
+/** Whether an alert stops the payment it was raised for. */
+export function alertHoldsPayment(alert: { action: string; status: string }): boolean {
+  return alert.action === 'hold_payout' && alert.status !== 'dismissed';
+}
+
+// ==================== EVENTS ====================
+
+function at(event: { occurredAt: string }): number {
+  return new Date(event.occurredAt).getTime();
+}
+
+function within(event: MonitoredEvent, from: number, to: number): boolean {
+  const t = at(event);
+  return t >= from && t <= to;
+}
+
+function formatGap(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / 60_000));
+  if (minutes < 90) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.round(ms / HOUR);
+  return `${hours} hours`;
+}
+
+function money(currency: string | null, amount: number): string {
+  return `${currency ?? ''} ${amount.toFixed(2)}`.trim();
+}
+
+/**
+ * Whether a sign-in comes from an IP address the user has not used in
+ * their sign-ins over the lookback. A user with no earlier sign-ins in
+ * that time has nothing to compare against, so theirs is not new.
+ */
+export function loginIpIsNew(login: { ip: string | null; occurredAt: string }, earlierLogins: Array<{ ip: string | null; occurredAt: string }>, lookbackDays: number): boolean {
+  if (!login.ip) return false;
+  const since = at(login) - lookbackDays * DAY;
+  const recent = earlierLogins.filter((l) => at(l) >= since && at(l) < at(login));
+  return recent.length > 0 && !recent.some((l) => l.ip === login.ip);
+}
+
+// ==================== RULES ====================
+
+type Evaluation = Omit<MonitoringFinding, 'ruleKey' | 'severity' | 'action'>;
+type Evaluator = (event: MonitoredEvent, rule: MonitoringRuleConfig, context: MonitoringContext) => Evaluation | null;
+
+function isMoneyOut(event: MonitoredEvent): boolean {
+  return event.kind === 'payout' || event.kind === 'transfer';
+}
+
+// A payout is identified by its payout id. A transfer's subject is the
+// account it went to, so each transfer is identified by its own event.
+function movementRef(event: MonitoredEvent): string {
+  return event.kind === 'payout' ? event.subjectId ?? event.id : event.id;
+}
+
+function sameMovement(a: MonitoredEvent, b: MonitoredEvent): boolean {
+  return a.kind === b.kind && movementRef(a) === movementRef(b);
+}
+
+function movementIds(events: MonitoredEvent[]): { payoutIds: string[]; transferIds: string[] } {
+  return {
+    payoutIds: events.filter((e) => e.kind === 'payout').map(movementRef),
+    transferIds: events.filter((e) => e.kind === 'transfer').map(movementRef),
+  };
+}
+
+function movementNoun(events: MonitoredEvent[]): string {
+  if (events.every((e) => e.kind === 'payout')) return 'payouts';
+  if (events.every((e) => e.kind === 'transfer')) return 'transfers';
+  return 'payments';
+}
+
+function paidToNewDestination(event: MonitoredEvent, destinationAgeHours: number): boolean {
+  const createdAt = event.data.destinationCreatedAt;
+  if (typeof createdAt !== 'string') return false;
+  return at(event) - new Date(createdAt).getTime() <= destinationAgeHours * HOUR;
+}
+
+const newDestinationVelocity: Evaluator = (event, rule, { history }) => {
+  if (!isMoneyOut(event) || !event.subjectId) return null;
+  const { maxPayouts, windowHours, destinationAgeHours } = rule.params;
+  if (!paidToNewDestination(event, destinationAgeHours)) return null;
+  const earlier = history.filter((e) =>
+    isMoneyOut(e) && !sameMovement(e, event)
+    && within(e, at(event) - windowHours * HOUR, at(event))
+    && paidToNewDestination(e, destinationAgeHours));
+  const parts = [...earlier, event];
+  if (parts.length < maxPayouts) return null;
+  return {
+    dedupeKey: `new_destination_velocity:${movementRef(event)}`,
+    subjectType: event.kind as AlertSubjectType,
+    subjectId: event.subjectId,
+    summary: `${parts.length} ${movementNoun(parts)} in ${windowHours} hours to newly added accounts`,
+    details: { ...movementIds(parts), destinationId: event.data.destinationId ?? null },
+  };
+};
+
+const destinationChangedThenPaid: Evaluator = (event, rule, { history }) => {
+  if (event.kind !== 'payout' || !event.subjectId || typeof event.data.destinationId !== 'string') return null;
+  const changes = history
+    .filter((e) => e.kind === 'destination_changed' && e.subjectId === event.data.destinationId
+      && within(e, at(event) - rule.params.withinHours * HOUR, at(event)))
+    .sort((a, b) => at(b) - at(a));
+  const change = changes[0];
+  if (!change) return null;
+  return {
+    dedupeKey: `destination_changed_then_paid:${event.subjectId}`,
+    subjectType: 'payout',
+    subjectId: event.subjectId,
+    summary: `Paid to an account whose bank details changed ${formatGap(at(event) - at(change))} earlier`,
+    details: {
+      destinationId: event.data.destinationId,
+      changedAt: change.occurredAt,
+      changedBy: change.userId,
+      changedFields: change.data.fields ?? [],
+    },
+  };
+};
+
+const thresholdSplitting: Evaluator = (event, rule, { history, dualApprovalThreshold: threshold }) => {
+  if (!isMoneyOut(event) || !event.subjectId || event.amount === null || !(threshold > 0)) return null;
+  const { minPayouts, windowHours, bandPercent, roundTo } = rule.params;
+  const isPart = (amount: number | null) => amount !== null && amount < threshold
+    && (amount >= threshold * (1 - bandPercent / 100) || Math.abs(amount / roundTo - Math.round(amount / roundTo)) < 1e-9);
+  const recipient = event.data.recipientId;
+  if (!isPart(event.amount) || typeof recipient !== 'string') return null;
+  const earlier = history.filter((e) =>
+    isMoneyOut(e) && !sameMovement(e, event) && e.data.recipientId === recipient
+    && e.currency === event.currency && within(e, at(event) - windowHours * HOUR, at(event)) && isPart(e.amount));
+  const parts = [...earlier, event];
+  const total = parts.reduce((sum, e) => sum + (e.amount ?? 0), 0);
+  if (parts.length < minPayouts || total < threshold) return null;
+  const recipientName = typeof event.data.recipientName === 'string' ? event.data.recipientName : 'one recipient';
+  return {
+    dedupeKey: `threshold_splitting:${movementRef(event)}`,
+    subjectType: event.kind as AlertSubjectType,
+    subjectId: event.subjectId,
+    summary: `${parts.length} ${movementNoun(parts)} totalling ${money(event.currency, total)} to ${recipientName}, each under the ${threshold} dual-approval threshold`,
+    details: { ...movementIds(parts), total, threshold, recipientId: recipient },
+  };
+};
+
+const unusualCardCountry: Evaluator = (event, _rule, { homeCountry, knownCountries }) => {
+  if (event.kind !== 'card_authorization' || !event.subjectId || !event.country) return null;
+  const country = event.country.toUpperCase();
+  const usual = new Set([homeCountry, ...knownCountries].filter(Boolean).map((c) => c!.toUpperCase()));
+  if (usual.has(country)) return null;
+  const merchant = typeof event.data.merchantName === 'string' ? ` at ${event.data.merchantName}` : '';
+  return {
+    dedupeKey: `unusual_card_country:${event.data.authorizationId ?? event.id}`,
+    subjectType: 'card',
+    subjectId: event.subjectId,
+    summary: `Card used in ${country}${merchant}, where the company's cards are not normally used`,
+    details: { country, usualCountries: Array.from(usual).sort(), authorizationId: event.data.authorizationId ?? null, amount: event.amount, currency: event.currency },
+  };
+};
+
+const newIpThenTransfer: Evaluator = (event, rule, { history }) => {
+  if (!isMoneyOut(event) || !event.userId || !event.subjectId) return null;
+  const logins = history
+    .filter((e) => e.kind === 'login' && e.userId === event.userId && e.data.newIp === true
+      && within(e, at(event) - rule.params.windowHours * HOUR, at(event)))
+    .sort((a, b) => at(b) - at(a));
+  const login = logins[0];
+  if (!login) return null;
+  const what = event.kind === 'payout' ? 'Payout' : 'Transfer';
+  return {
+    dedupeKey: `new_ip_then_transfer:${login.id}`,
+    subjectType: event.kind as AlertSubjectType,
+    subjectId: event.subjectId,
+    summary: `${what} of ${money(event.currency, event.amount ?? 0)} ${formatGap(at(event) - at(login))} after a sign-in from a new IP address (${login.ip})`,
+    details: { userId: event.userId, loginAt: login.occurredAt, ip: login.ip },
+  };
+};
+
+const EVALUATORS: Record<MonitoringRuleKey, Evaluator> = {
+  new_destination_velocity: newDestinationVelocity,
+  destination_changed_then_paid: destinationChangedThenPaid,
+  threshold_splitting: thresholdSplitting,
+  unusual_card_country: unusualCardCountry,
+  new_ip_then_transfer: newIpThenTransfer,
+};
+
+/** The enabled rules this event sets off. */
+export function evaluateMonitoringEvent(event: MonitoredEvent, context: MonitoringContext): MonitoringFinding[] {
+  const findings: MonitoringFinding[] = [];
+  for (const rule of context.rules) {
+    if (!rule.enabled) continue;
+    const found = EVALUATORS[rule.key](event, rule, context);
+    if (found) findings.push({ ruleKey: rule.key, severity: rule.severity, action: rule.action, ...found });
+  }
+  return findings;
+}
@@ -2,6 +2,7 @@ import type { Request, Response, NextFunction } from 'express';
 import { storage } from '../storage';
 import { idTokenVerifier, isCognitoConfigured } from '../cognito-verifier';
 import { isFeatureFlagOn } from '../lib/feature-flags';
+import { API_KEY_ROLE, apiKeyProblem, apiKeyRoutePermission, hashApiKey, isApiKeyToken } from '../lib/api-keys';
 
 // Extend Express Request type to include user data
 declare global {
@@ -27,6 +28,13 @@ declare global {
         companyId: string;
         role: string;
       };
+      // Set by requireAuth when the bearer token is a company API key.
+      apiKey?: {
+        id: string;
+        companyId: string;
+        name: string;
+        permissions: string[];
+      };
     }
   }
 }
@@ -51,6 +59,10 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
 
     const token = authHeader.split('Bearer ')[1];
 
+    if (isApiKeyToken(token)) {
+      return await authenticateApiKey(token, req, res, next);
+    }
+
     // Verify Cognito ID token
     if (!idTokenVerifier || !isCognitoConfigured) {
       // SECURITY: Fail-closed — reject all requests if Cognito is not configured
@@ -89,6 +101,70 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
   }
 }
 
+/**
+ * Authenticate a company API key sent as the bearer token. The key must be
+ * live, and the route one of API_KEY_ROUTES whose permission the key
+ * holds. On success `req.user.uid` is the key id, so handlers that record
+ * who acted record the key; `req.apiKey` carries its company and scope.
+ *
+ * Every request made with a valid key, allowed or refused, goes to the
+ * audit log with the key id as the actor once the response is sent.
+ */
+async function authenticateApiKey(token: string, req: Request, res: Response, next: NextFunction) {
+  const key = await storage.getApiKeyByHash(hashApiKey(token));
+  const problem = key ? apiKeyProblem(key, new Date()) : null;
+  if (!key || problem) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: problem ? `API key ${problem}` : 'Invalid API key',
+    });
+  }
+
+  const path = (req.originalUrl || req.url || '').split('?')[0].replace(/^\/api(?=\/)/, '');
+  const permission = apiKeyRoutePermission(req.method, path);
+  const usedAt = new Date().toISOString();
+  const ip = req.ip ?? null;
+  storage.recordApiKeyUse(key.id, usedAt, ip).catch((err) => console.error('Failed to record API key use:', err));
+  res.on('finish', () => {
+    storage.createAuditLog({
+      userId: key.id,
+      userName: `API key ${key.name} (${key.prefix}…)`,
+      action: 'api_request',
+      entityType: 'api_key',
+      entityId: key.id,
+      companyId: key.companyId,
+      details: { method: req.method, path, permission, status: res.statusCode },
+      ipAddress: ip,
+      userAgent: (req.headers['user-agent'] as string | undefined) ?? null,
+      createdAt: usedAt,
+    }).catch((err) => console.error('Failed to audit API key request:', err));
+  });
+
+  if (!permission) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: 'This endpoint is not available to API keys',
+    });
+  }
+  if (!key.permissions.includes(permission)) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: `Missing required permission: ${permission}`,
+      requiredPermission: permission,
+    });
+  }
+
+  req.user = {
+    uid: key.id,
+    cognitoSub: key.id,
+    email: '',
+    displayName: `API key ${key.name}`,
+    role: API_KEY_ROLE,
+  };
+  req.apiKey = { id: key.id, companyId: key.companyId, name: key.name, permissions: key.permissions };
+  next();
+}
+
 /**
  * Resolve the user's role inside their active company by reading the
  * `companyMembers` table. Honors the `X-Company-Id` header to disambiguate
@@ -197,6 +273,19 @@ export function _setRolePermissionsForTesting(role: string, permissions: string[
 export function requirePermission(name: string) {
   return async function permissionGate(req: Request, res: Response, next: NextFunction) {
     try {
+      // A key's permissions are its own; it has no membership to look up.
+      if (req.apiKey) {
+        if (!req.apiKey.permissions.includes(name)) {
+          return res.status(403).json({
+            error: 'Forbidden',
+            message: `Missing required permission: ${name}`,
+            requiredPermission: name,
+          });
+        }
+        req.adminCompany = { companyId: req.apiKey.companyId, role: API_KEY_ROLE };
+        return next();
+      }
+
       const authHeader = req.headers.authorization;
       if (!authHeader || !authHeader.startsWith('Bearer ') || !idTokenVerifier || !isCognitoConfigured) {
         return res.status(401).json({
@@ -272,10 +361,18 @@ export function requirePermission(name: string) {
  * authorisation was granted under (and can scope storage calls without
  * an extra `resolveUserCompany` lookup).
  *
- * Cognito token verification is required regardless of the flag.
+ * Cognito token verification is required regardless of the flag, except
+ * for an API key that requireAuth has already admitted to the route.
  */
 export async function requireAdmin(req: Request, res: Response, next: NextFunction) {
   try {
+    // requireAuth has already held an API key to the routes and
+    // permission it was issued for, admin routes among them.
+    if (req.apiKey) {
+      req.adminCompany = { companyId: req.apiKey.companyId, role: API_KEY_ROLE };
+      return next();
+    }
+
     const authHeader = req.headers.authorization;
     if (!authHeader || !authHeader.startsWith('Bearer ') || !idTokenVerifier || !isCognitoConfigured) {
       return res.status(401).json({
@@ -449,6 +546,12 @@ export async function optionalAuth(req: Request, res: Response, next: NextFuncti
  */
 export async function requirePin(req: Request, res: Response, next: NextFunction) {
   try {
+    // The PIN is a person's second factor; a key has no person behind the
+    // request, and its scope was checked by requireAuth.
+    if (req.apiKey) {
+      return next();
+    }
+
     if (!req.user?.uid) {
       return res.status(401).json({ error: 'Authentication required' });
     }
@@ -1,4 +1,5 @@
 import type { Request, Response, NextFunction } from 'express';
+import { isApiKeyToken } from '../lib/api-keys';
 
 /**
  * CSRF protection via custom header check.
@@ -12,6 +13,8 @@ import type { Request, Response, NextFunction } from 'express';
  * https://cheatsheetseries.owasp.org/cheatsheets/Cross-Site_Request_Forgery_Prevention_Cheat_Sheet.html
  *
  * Exempt paths: webhooks (no browser origin), health checks.
+ * Exempt requests: company API keys, which servers send and a browser
+ * never attaches on its own.
  */
 
 const EXEMPT_PATHS = [
@@ -34,6 +37,11 @@ export function csrfProtection(req: Request, res: Response, next: NextFunction)
     return next();
   }
 
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith('Bearer ') && isApiKeyToken(authHeader.slice('Bearer '.length))) {
+    return next();
+  }
+
   // Require X-Requested-With header on all state-changing requests
   const xRequestedWith = req.headers['x-requested-with'];
   if (!xRequestedWith) {
@@ -0,0 +1,48 @@
+import type { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+import { requirePin } from './auth';
+import { canSeeExpense, expenseEditConflict, isSubmitterDetailEdit } from '../lib/expense-edits';
+import type { Expense } from '@shared/schema';
+
+async function callerCanSee(req: Request, expense: Expense): Promise<boolean> {
+  if (req.apiKey) return canSeeExpense(expense, null, [req.apiKey.companyId]);
+  const uid = req.user?.uid;
+  if (!uid) return false;
+  if (canSeeExpense(expense, uid, [])) return true;
+  const companies = await storage.getUserCompanies(uid);
+  return canSeeExpense(expense, uid, companies.map((c) => c.companyId));
+}
+
+/**
+ * PIN gate for PATCH /expenses/:id.
+ *
+ * Mobile sends offline edits later without the transaction PIN, so the
+ * submitter's own detail edits to a waiting expense go through without
+ * one, and an edit made against a status the expense has since left gets
+ * its 409 EXPENSE_CONFLICT here, before any PIN is asked for. The 409
+ * only carries the expense for its submitter and members of its company.
+ * Everything else is passed to requirePin.
+ *
+ * Mount after requireAuth and before idempotency, in requirePin's place.
+ */
+export async function requirePinForExpenseEdit(req: Request, res: Response, next: NextFunction) {
+  try {
+    const body = req.body ?? {};
+    const id = req.params.id;
+    const expense = typeof id === 'string' ? await storage.getExpense(id) : undefined;
+    if (expense) {
+      const conflict = expenseEditConflict(expense, typeof body.baseStatus === 'string' ? body.baseStatus : undefined);
+      if (conflict) {
+        if (await callerCanSee(req, expense)) return res.status(409).json(conflict);
+        const { expense: _hidden, ...withoutExpense } = conflict;
+        return res.status(409).json(withoutExpense);
+      }
+      if (!req.apiKey && isSubmitterDetailEdit(body, expense, req.user?.uid)) {
+        return next();
+      }
+    }
+    return requirePin(req, res, next);
+  } catch (error) {
+    return res.status(500).json({ error: 'Failed to check the expense edit' });
+  }
+}
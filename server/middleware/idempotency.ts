@@ -0,0 +1,114 @@
+import type { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENCY_LEASE_RENEW_SECONDS,
+  decideIdempotentRetry,
+  idempotencyLeaseExpiry,
+  idempotencyKeyProblem,
+  isReplayableStatus,
+  requestFingerprint,
+} from '../lib/idempotency';
+
+/**
+ * Idempotency-Key support for money-moving endpoints.
+ *
+ * Requests without the header pass straight through. With it, the key is
+ * claimed in Postgres (scoped to req.user.uid) before the handler runs and
+ * the JSON response is stored before it is sent, so a retry with the same
+ * key and body replays that response with `Idempotent-Replayed: true`
+ * from any instance, across restarts:
+ *
+ * - same key, different method, path or body → 422
+ * - same key while the first attempt is still running → 409; the attempt
+ *   renews its lease while it runs, so a retry only takes the key over
+ *   once the instance running it has gone
+ * - a 5xx, or a response that isn't JSON, releases the key for a retry
+ *
+ * Mount after requireAuth (and requirePin, so a wrong PIN doesn't use up
+ * the key):
+ *   router.post("/payouts", financialLimiter, requireAuth, requirePin, idempotency, handler)
+ */
+export async function idempotency(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers[IDEMPOTENCY_KEY_HEADER];
+  if (header === undefined) {
+    return next();
+  }
+
+  const key = String(Array.isArray(header) ? header[0] : header).trim();
+  const problem = idempotencyKeyProblem(key);
+  if (problem) {
+    return res.status(400).json({ error: problem });
+  }
+  const scope = req.user?.uid;
+  if (!scope) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  const path = req.originalUrl.split('?')[0];
+  const fingerprint = requestFingerprint({ method: req.method, path, body: req.body });
+
+  let claim: Awaited<ReturnType<typeof storage.claimIdempotencyKey>>;
+  try {
+    claim = await storage.claimIdempotencyKey({
+      scope,
+      key,
+      method: req.method,
+      path,
+      fingerprint,
+      expiresAt: idempotencyLeaseExpiry(new Date()),
+    });
+  } catch (error) {
+    console.error('Idempotency key claim failed:', error);
+    return res.status(503).json({ error: 'Could not check the Idempotency-Key, please retry' });
+  }
+
+  if (!claim.claimed) {
+    const decision = decideIdempotentRetry(claim.record, fingerprint);
+    if (decision.action === 'conflict') {
+      return res.status(422).json({ error: decision.reason });
+    }
+    if (decision.action === 'in_progress') {
+      return res.status(409).json({ error: 'A request with this Idempotency-Key is still being processed' });
+    }
+    res.setHeader('Idempotent-Replayed', 'true');
+    return res.status(decision.statusCode).json(decision.body);
+  }
+
+  const recordId = claim.record.id;
+  const claimToken = claim.record.claimToken ?? '';
+  let settled = false;
+  const sendJson = res.json.bind(res);
+
+  const renewal = setInterval(() => {
+    storage.renewIdempotencyKey(recordId, claimToken, idempotencyLeaseExpiry(new Date()))
+      .catch((error) => console.error('Failed to renew idempotency key:', error));
+  }, IDEMPOTENCY_LEASE_RENEW_SECONDS * 1000);
+  renewal.unref?.();
+
+  // Store the response before sending it: a client that sees the response
+  // can always replay it.
+  res.json = ((body: unknown) => {
+    res.json = sendJson;
+    settled = true;
+    clearInterval(renewal);
+    const statusCode = res.statusCode;
+    const stored = isReplayableStatus(statusCode)
+      ? storage.completeIdempotencyKey(recordId, claimToken, statusCode, body)
+      : storage.releaseIdempotencyKey(recordId, claimToken);
+    stored
+      .catch((error) => console.error('Failed to store idempotent response:', error))
+      .finally(() => sendJson(body));
+    return res;
+  }) as Response['json'];
+
+  res.on('finish', () => {
+    clearInterval(renewal);
+    if (!settled) {
+      settled = true;
+      storage.releaseIdempotencyKey(recordId, claimToken).catch((error) => console.error('Failed to release idempotency key:', error));
+    }
+  });
+
+  next();
+}
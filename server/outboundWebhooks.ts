@@ -0,0 +1,238 @@
+import { randomUUID } from "crypto";
+import { lookup } from "dns/promises";
+import https from "https";
+import { storage } from "./storage";
+import { withSchedulerLock } from "./recurringScheduler";
+import { logger as baseLogger } from "./lib/logger";
+import {
+  SIGNATURE_HEADER,
+  SECRET_ROTATION_GRACE_MS,
+  deliveryOutcome,
+  endpointUrlProblem,
+  generateWebhookSecret,
+  guardedLookup,
+  signingSecrets,
+  subscribesTo,
+  truncateResponseBody,
+  webhookEventBody,
+  webhookSignatureHeader,
+  type WebhookEventType,
+} from "./lib/outbound-webhooks";
+import type { WebhookDelivery, WebhookEndpoint } from "@shared/schema";
+
+// Outbound webhooks: events raised where the app already notifies people
+// are queued as one delivery per subscribed endpoint and sent straight
+// away; failures are retried with backoff by the delivery scheduler.
+// Signing and the retry schedule live in server/lib/outbound-webhooks.ts.
+
+const logger = baseLogger.child({ module: "outbound-webhooks" });
+const SCHEDULER_LOCK_NAME = "financiar.webhook-deliveries";
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Long enough that the scheduler won't pick a delivery up mid-attempt.
+const ATTEMPT_LEASE_MS = 2 * REQUEST_TIMEOUT_MS;
+const DELIVERIES_PER_TICK = 100;
+// More than truncateResponseBody keeps; the rest of a response is dropped.
+const RESPONSE_READ_LIMIT = 16 * 1024;
+
+const publicOnlyLookup = guardedLookup((hostname) => lookup(hostname, { all: true, verbatim: true }));
+
+/**
+ * POST to a webhook endpoint. The host is resolved and checked on every
+ * request and the socket connects to the address that was checked;
+ * redirects are not followed.
+ */
+function postToEndpoint(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = https.request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup: publicOnlyLookup,
+      timeout: REQUEST_TIMEOUT_MS,
+    }, (res) => {
+      const chunks: Buffer[] = [];
+      let length = 0;
+      res.on('data', (chunk: Buffer) => {
+        if (length < RESPONSE_READ_LIMIT) chunks.push(chunk);
+        length += chunk.length;
+      });
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body: Buffer.concat(chunks).toString('utf8') }));
+      res.on('error', () => resolve({ status: res.statusCode ?? 0, body: '' }));
+    });
+    const deadline = setTimeout(() => req.destroy(new Error('Timed out')), REQUEST_TIMEOUT_MS);
+    req.on('timeout', () => req.destroy(new Error('Timed out')));
+    req.on('error', reject);
+    req.on('close', () => clearTimeout(deadline));
+    req.end(body);
+  });
+}
+
+/**
+ * Queue `type` for every active endpoint of the company subscribed to it
+ * and attempt each delivery. Never throws: a webhook problem must not
+ * fail the action that raised the event.
+ */
+export async function emitWebhookEvent(
+  companyId: string | null | undefined,
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+): Promise<void> {
+  if (!companyId) return;
+  try {
+    const endpoints = (await storage.getWebhookEndpoints(companyId))
+      .filter((e) => e.status === 'active' && subscribesTo(e.events, type));
+    if (endpoints.length === 0) return;
+
+    const now = new Date().toISOString();
+    const eventId = `evt_${randomUUID().replace(/-/g, '')}`;
+    const payload = webhookEventBody({ id: eventId, type, created: now, companyId, data });
+    const deliveries = await storage.createWebhookDeliveries(endpoints.map((endpoint) => ({
+      endpointId: endpoint.id,
+      companyId,
+      eventId,
+      eventType: type,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+    })));
+    await Promise.all(deliveries.map((delivery) =>
+      attemptDelivery(delivery, endpoints.find((e) => e.id === delivery.endpointId)!)));
+  } catch (err) {
+    logger.error({ err, companyId, type }, "Failed to queue webhook event");
+  }
+}
+
+/**
+ * One attempt at a due delivery; it is claimed first so the scheduler and
+ * an immediate send never post the same attempt twice.
+ */
+export async function attemptDelivery(delivery: WebhookDelivery, endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+  const startedAt = new Date();
+  const claimed = await storage.claimWebhookDelivery(
+    delivery.id, startedAt.toISOString(), new Date(startedAt.getTime() + ATTEMPT_LEASE_MS).toISOString(),
+  );
+  if (!claimed) return delivery;
+
+  if (endpoint.status !== 'active') {
+    return (await storage.updateWebhookDelivery(delivery.id, {
+      status: 'failed', nextAttemptAt: null, error: 'Endpoint disabled',
+    })) ?? claimed;
+  }
+
+  const timestamp = Math.floor(startedAt.getTime() / 1000);
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  try {
+    // Checked again here: the endpoint may predate the current rules.
+    const problem = endpointUrlProblem(endpoint.url);
+    if (problem) throw new Error(problem);
+    const response = await postToEndpoint(endpoint.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Spendly-Webhooks/1.0',
+      'Spendly-Event': claimed.eventType,
+      'Spendly-Delivery': claimed.id,
+      [SIGNATURE_HEADER]: webhookSignatureHeader(signingSecrets(endpoint, startedAt), timestamp, claimed.payload),
+    }, claimed.payload);
+    responseStatus = response.status;
+    responseBody = truncateResponseBody(response.body);
+    if (response.status < 200 || response.status >= 300) error = `HTTP ${response.status}`;
+  } catch (err: any) {
+    error = err?.message || 'Request failed';
+  }
+
+  const finishedAt = new Date();
+  const attempts = claimed.attempts + 1;
+  const outcome = deliveryOutcome(attempts, responseStatus, finishedAt);
+  if (outcome.status !== 'succeeded') {
+    logger.warn({ deliveryId: claimed.id, endpointId: endpoint.id, attempts, error }, "Webhook delivery attempt failed");
+  }
+  return (await storage.updateWebhookDelivery(claimed.id, {
+    ...outcome,
+    attempts,
+    lastAttemptAt: finishedAt.toISOString(),
+    responseStatus,
+    responseBody,
+    error,
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+  })) ?? claimed;
+}
+
+/** Send a logged delivery again as a new delivery of the same event. */
+export async function replayDelivery(delivery: WebhookDelivery, endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+  const now = new Date().toISOString();
+  const [replay] = await storage.createWebhookDeliveries([{
+    endpointId: endpoint.id,
+    companyId: delivery.companyId,
+    eventId: delivery.eventId,
+    eventType: delivery.eventType,
+    payload: delivery.payload,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    replayOf: delivery.id,
+    createdAt: now,
+  }]);
+  return attemptDelivery(replay, endpoint);
+}
+
+/**
+ * A new signing secret. The old one keeps signing alongside it for
+ * SECRET_ROTATION_GRACE_MS so receivers can switch over.
+ */
+export async function rotateEndpointSecret(endpoint: WebhookEndpoint): Promise<WebhookEndpoint | undefined> {
+  return storage.updateWebhookEndpoint(endpoint.id, endpoint.companyId, {
+    secret: generateWebhookSecret(),
+    previousSecret: endpoint.secret,
+    previousSecretExpiresAt: new Date(Date.now() + SECRET_ROTATION_GRACE_MS).toISOString(),
+  });
+}
+
+/** Retry the deliveries that are due. Null when another instance holds the lock. */
+export async function processWebhookDeliveries(now: Date = new Date()): Promise<number | null> {
+  return await withSchedulerLock(SCHEDULER_LOCK_NAME, async () => {
+    const due = await storage.getDueWebhookDeliveries(now.toISOString(), DELIVERIES_PER_TICK);
+    const endpoints = new Map<string, WebhookEndpoint | undefined>();
+    for (const delivery of due) {
+      const key = `${delivery.companyId}:${delivery.endpointId}`;
+      if (!endpoints.has(key)) {
+        endpoints.set(key, await storage.getWebhookEndpoint(delivery.endpointId, delivery.companyId));
+      }
+      const endpoint = endpoints.get(key);
+      if (!endpoint) continue;
+      try {
+        await attemptDelivery(delivery, endpoint);
+      } catch (err) {
+        logger.error({ err, deliveryId: delivery.id }, "Webhook retry failed");
+      }
+    }
+    return due.length;
+  });
+}
+
+let deliveryInterval: NodeJS.Timeout | null = null;
+
+/** Start the webhook retry job. Call once at server startup. */
+export function startWebhookDeliveryScheduler(intervalMs: number = 30 * 1000) {
+  if (deliveryInterval) {
+    clearInterval(deliveryInterval);
+  }
+  logger.info({ intervalMs }, "Starting webhook delivery scheduler");
+  deliveryInterval = setInterval(() => {
+    processWebhookDeliveries().catch((err) => logger.error({ err }, "Webhook delivery tick failed"));
+  }, intervalMs);
+}
+
+export function stopWebhookDeliveryScheduler() {
+  if (deliveryInterval) {
+    clearInterval(deliveryInterval);
+    deliveryInterval = null;
+    logger.info("Webhook delivery scheduler stopped");
+  }
+}
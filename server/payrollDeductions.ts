@@ -0,0 +1,42 @@
+import { storage } from "./storage";
+import { computePayrollDeductions, type PayrollDeductions, type TaxBracketConfig } from "./lib/statutory-deductions";
+
+// Works out a payroll entry's deductions from the tax brackets and
+// statutory rules in force on its pay date. Used when entries are
+// created or edited and when the scheduler raises the next recurring one.
+
+// Same fallback as /payroll/tax-estimate for a country without brackets.
+const FLAT_TAX: TaxBracketConfig = {
+  cadence: 'annual',
+  tiers: [{ limit: null, rate: 0.20 }],
+  flatReduction: 0,
+  source: null,
+  effectiveFrom: '1970-01-01',
+};
+
+export interface EntryPay {
+  country: string | null | undefined;
+  payDate: string;
+  frequency: string | null | undefined;
+  salary: number;
+  bonus: number;
+  // Deductions entered by hand (loans, advances…), on top of the statutory ones.
+  otherDeductions: number;
+}
+
+export async function statutoryDeductions(pay: EntryPay): Promise<PayrollDeductions> {
+  const country = (pay.country || 'US').toUpperCase();
+  const asOf = pay.payDate.slice(0, 10);
+  const [tax, rules] = await Promise.all([
+    storage.getTaxBracketsForCountry(country, asOf),
+    storage.getStatutoryRulesForCountry(country, asOf),
+  ]);
+  return computePayrollDeductions({
+    country,
+    gross: pay.salary + pay.bonus,
+    frequency: pay.frequency,
+    rules,
+    tax: tax ?? FLAT_TAX,
+    otherDeductions: pay.otherDeductions,
+  });
+}
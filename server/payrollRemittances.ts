@@ -0,0 +1,49 @@
+import { storage } from "./storage";
+import { buildRemittances, formatRemittanceCsv, remittanceFileName, type Remittance } from "./lib/statutory-remittance";
+import type { Payout, PayrollRun } from "@shared/schema";
+
+// Statutory remittances for a payroll run: the per-authority totals and
+// schedules (server/lib/statutory-remittance.ts) and the payouts that
+// settle them, created from payouts.routes.ts.
+
+export const REMITTANCE_PAYOUT_TYPE = 'statutory_remittance';
+
+// Payouts that no longer settle a remittance, so it can be scheduled again.
+const CLOSED_PAYOUT_STATUSES = ['failed', 'cancelled', 'rejected'];
+
+const money = (value: string | number | null | undefined) => parseFloat(String(value ?? 0)) || 0;
+
+export type RemittanceWithPayout = Remittance & { payout: Payout | null };
+
+export async function runRemittances(run: PayrollRun): Promise<RemittanceWithPayout[]> {
+  const [items, company, payouts] = await Promise.all([
+    storage.getPayrollRunItems(run.id),
+    storage.getCompany(run.companyId),
+    storage.getPayouts({ companyId: run.companyId, relatedEntityType: 'payroll_run', relatedEntityId: run.id }),
+  ]);
+  const open = payouts.filter((p) => p.type === REMITTANCE_PAYOUT_TYPE && !CLOSED_PAYOUT_STATUSES.includes(p.status));
+
+  const remittances = buildRemittances(items.map((item) => ({
+    employeeId: item.employeeId,
+    employeeName: item.employeeName,
+    department: item.department,
+    country: item.country,
+    currency: item.currency,
+    salary: money(item.salary),
+    bonus: money(item.bonus),
+    status: item.status,
+    statutoryLines: item.statutoryLines,
+  })), { payDate: run.payDate, country: company?.country || 'US', currency: run.currency });
+
+  return remittances.map((r) => ({
+    ...r,
+    payout: open.find((p) => (p.metadata as Record<string, unknown> | null)?.remittanceId === r.id) ?? null,
+  }));
+}
+
+export function remittanceExport(run: PayrollRun, remittance: Remittance): { fileName: string; content: string } {
+  return {
+    fileName: remittanceFileName(run.name, remittance),
+    content: formatRemittanceCsv(remittance, { periodStart: run.periodStart, periodEnd: run.periodEnd, payDate: run.payDate }),
+  };
+}
@@ -0,0 +1,427 @@
+import { storage } from "./storage";
+import { getPaymentProvider } from "./paymentService";
+import { getStripeClient } from "./stripeClient";
+import { paystackClient } from "./paystackClient";
+import { notificationService } from "./services/notification-service";
+import { emitWebhookEvent } from "./outboundWebhooks";
+import { sanctionsHold, sanctionsHoldBody, destinationSubject } from "./sanctionsScreening";
+import {
+  canApproveRun,
+  canPaySalaryTo,
+  inRunPeriod,
+  runStatusesFor,
+  runTotals,
+  runTransitionProblem,
+  statusAfterPayment,
+  defaultRunName,
+  salaryDestination,
+  salaryTransferReference,
+  PAYABLE_ITEM_STATUSES,
+} from "./lib/payroll-run";
+import { renderPayslipPdf, payslipFileName } from "./lib/payslip";
+import { logger as baseLogger } from "./lib/logger";
+import type { Company, PayrollEntry, PayrollRun, PayrollRunItem, InsertPayrollRunItem } from "@shared/schema";
+
+// Payroll runs: drafting a pay period from the pending entries, approving
+// it, paying it through Stripe / Paystack and reversing it. The lifecycle
+// rules live in server/lib/payroll-run.ts, the payslip layout in
+// server/lib/payslip.ts.
+
+const logger = baseLogger.child({ module: "payroll-runs" });
+
+const APPROVER_ROLES = ['OWNER', 'ADMIN'];
+
+export interface PayrollActor {
+  userId: string;
+  name: string;
+}
+
+export type PayrollRunResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; status: number; body: any };
+
+export interface DraftRunInput {
+  name?: string;
+  periodStart: string;
+  periodEnd: string;
+  payDate: string;
+  entryIds?: string[];
+}
+
+const money = (value: string | number | null | undefined) => parseFloat(String(value ?? 0)) || 0;
+
+function snapshot(entry: PayrollEntry, companyId: string, fallbackCurrency: string): Omit<InsertPayrollRunItem, 'runId'> {
+  return {
+    companyId,
+    payrollEntryId: entry.id,
+    employeeId: entry.employeeId,
+    employeeName: entry.employeeName,
+    email: entry.email,
+    department: entry.department,
+    country: entry.country,
+    currency: entry.currency || fallbackCurrency,
+    salary: entry.salary,
+    bonus: entry.bonus,
+    deductions: entry.deductions,
+    deductionBreakdown: entry.deductionBreakdown,
+    netPay: entry.netPay,
+    bankName: entry.bankName,
+    accountNumber: entry.accountNumber,
+    accountName: entry.accountName,
+    payoutDestinationId: entry.payoutDestinationId,
+    statutoryLines: entry.statutoryLines,
+    employerContributions: entry.employerContributions,
+    status: 'pending',
+  };
+}
+
+/**
+ * Drafts a run from the company's pending entries paid in the period
+ * (or the listed ones), freezing each into a run item. Entries already in
+ * an open run are left out.
+ */
+export async function draftPayrollRun(
+  companyId: string,
+  input: DraftRunInput,
+  actor: PayrollActor,
+): Promise<PayrollRunResult<{ run: PayrollRun; items: PayrollRunItem[]; skipped: Array<{ id: string; name: string; reason: string }> }>> {
+  if (input.periodEnd < input.periodStart) {
+    return { ok: false, status: 400, body: { error: "The period must end on or after its start" } };
+  }
+  const company = await storage.getCompany(companyId);
+  const currency = company?.currency || 'USD';
+  const [entries, held] = await Promise.all([
+    storage.getPayroll(companyId),
+    storage.getOpenPayrollRunEntryIds(companyId),
+  ]);
+
+  const wanted = input.entryIds ? new Set(input.entryIds) : null;
+  const skipped: Array<{ id: string; name: string; reason: string }> = [];
+  const included: PayrollEntry[] = [];
+  for (const entry of entries) {
+    if (wanted ? !wanted.has(entry.id) : !inRunPeriod(entry.payDate, input.periodStart, input.periodEnd)) continue;
+    if (entry.status !== 'pending') {
+      if (wanted) skipped.push({ id: entry.id, name: entry.employeeName, reason: `Entry is ${entry.status}` });
+      continue;
+    }
+    if (held.has(entry.id)) {
+      skipped.push({ id: entry.id, name: entry.employeeName, reason: 'Already in another open run' });
+      continue;
+    }
+    if (money(entry.netPay) <= 0) {
+      skipped.push({ id: entry.id, name: entry.employeeName, reason: 'Net pay must be positive' });
+      continue;
+    }
+    included.push(entry);
+  }
+
+  if (included.length === 0) {
+    return { ok: false, status: 400, body: { error: "No pending payroll entries for this period", skipped } };
+  }
+
+  const totals = runTotals(included.map((e) => ({
+    salary: money(e.salary),
+    bonus: money(e.bonus),
+    deductions: money(e.deductions),
+    netPay: money(e.netPay),
+    employerContributions: money(e.employerContributions),
+  })));
+  const run = await storage.createPayrollRun({
+    companyId,
+    name: input.name?.trim() || defaultRunName(input.periodStart, input.periodEnd),
+    periodStart: input.periodStart,
+    periodEnd: input.periodEnd,
+    payDate: input.payDate,
+    currency,
+    status: 'draft',
+    employeeCount: totals.employeeCount,
+    totalSalary: totals.totalSalary.toFixed(2),
+    totalBonus: totals.totalBonus.toFixed(2),
+    totalDeductions: totals.totalDeductions.toFixed(2),
+    totalNet: totals.totalNet.toFixed(2),
+    totalEmployerContributions: totals.totalEmployerContributions.toFixed(2),
+    createdBy: actor.userId,
+    createdByName: actor.name,
+  }, included.map((entry) => snapshot(entry, companyId, currency)));
+
+  return { ok: true, run, items: await storage.getPayrollRunItems(run.id), skipped };
+}
+
+export async function approvePayrollRun(run: PayrollRun, actor: PayrollActor): Promise<PayrollRunResult<{ run: PayrollRun }>> {
+  const problem = runTransitionProblem(run.status, 'approve');
+  if (problem) return { ok: false, status: 409, body: { error: problem } };
+
+  const members = await storage.getCompanyMembers(run.companyId);
+  const approvers = members.filter((m) => m.userId && m.status === 'active' && APPROVER_ROLES.includes(m.role));
+  if (!canApproveRun(run.createdBy, actor.userId, approvers.length)) {
+    return { ok: false, status: 403, body: { error: "A payroll run must be approved by someone other than the person who drafted it" } };
+  }
+
+  const approved = await storage.transitionPayrollRun(run.id, run.companyId, runStatusesFor('approve'), {
+    status: 'approved',
+    approvedBy: actor.userId,
+    approvedByName: actor.name,
+    approvedAt: new Date().toISOString(),
+  });
+  if (!approved) return { ok: false, status: 409, body: { error: "The payroll run changed while it was being approved" } };
+  return { ok: true, run: approved };
+}
+
+/**
+ * Starts the salary transfer for one item to the employee's payout
+ * destination. Null when the employee has no banking details; throws when
+ * the employee is held for sanctions review or the provider refuses the
+ * transfer.
+ */
+async function initiateSalaryTransfer(run: PayrollRun, item: PayrollRunItem): Promise<{ reference: string } | null> {
+  let destination = item.payoutDestinationId ? await storage.getPayoutDestination(item.payoutDestinationId) : undefined;
+  if (!destination || !canPaySalaryTo(destination)) {
+    destination = salaryDestination(await storage.getPayoutDestinations(item.employeeId));
+  }
+  if (!destination) return null;
+
+  // A held item fails with the reason and can be paid again once a
+  // reviewer clears the match.
+  const hold = await sanctionsHold(run.companyId, [
+    { type: 'payroll_recipient', id: item.employeeId, name: item.employeeName },
+    destinationSubject(destination),
+  ], run.approvedBy ?? run.createdBy);
+  if (hold) throw new Error(sanctionsHoldBody(hold).error);
+
+  const countryCode = destination.country || item.country || 'US';
+  const currency = item.currency || destination.currency || run.currency;
+  const amount = money(item.netPay);
+  const transferReference = salaryTransferReference(item.id);
+
+  if (getPaymentProvider(countryCode) === 'paystack') {
+    const recipientResponse = await paystackClient.createTransferRecipient(
+      item.employeeName,
+      destination.accountNumber as string,
+      destination.bankCode as string,
+      currency,
+    );
+    const recipientCode = recipientResponse.data?.recipient_code;
+    if (!recipientCode) throw new Error('Failed to create transfer recipient');
+    const transferResponse = await paystackClient.initiateTransfer(
+      amount,
+      recipientCode,
+      `Salary - ${item.employeeName} - ${run.name}`,
+      transferReference,
+    );
+    return { reference: transferResponse.data?.transfer_code || transferResponse.data?.reference || '' };
+  }
+
+  const stripe = getStripeClient();
+  const bankToken = await stripe.tokens.create({
+    bank_account: {
+      country: countryCode,
+      currency: currency.toLowerCase(),
+      account_holder_name: item.employeeName,
+      account_holder_type: 'individual',
+      routing_number: destination.routingNumber || '',
+      account_number: destination.accountNumber,
+    } as any,
+  });
+  const payout = await stripe.payouts.create({
+    amount: Math.round(amount * 100),
+    currency: currency.toLowerCase(),
+    method: 'standard',
+    description: `Salary - ${item.employeeName}`,
+    destination: bankToken.id,
+    metadata: { payrollId: String(item.payrollEntryId ?? ''), payrollRunId: run.id, type: 'payroll' },
+  }, { idempotencyKey: transferReference });
+  return { reference: payout.id };
+}
+
+async function payItem(run: PayrollRun, item: PayrollRunItem, actor: PayrollActor, companyName: string): Promise<PayrollRunItem> {
+  let result: { reference: string } | null;
+  try {
+    result = await initiateSalaryTransfer(run, item);
+  } catch (err: any) {
+    logger.warn({ err, payrollRunId: run.id, itemId: item.id }, "Payroll run transfer failed");
+    return await storage.updatePayrollRunItem(item.id, { status: 'failed', error: err.message || 'Transfer failed' }) ?? item;
+  }
+  if (!result) {
+    return await storage.updatePayrollRunItem(item.id, { status: 'needs_banking_details', error: 'No payout destination' }) ?? item;
+  }
+
+  const now = new Date().toISOString();
+  const paid = await storage.updatePayrollRunItem(item.id, {
+    status: 'processing',
+    reference: result.reference,
+    error: null,
+    paidAt: now,
+  }) ?? item;
+  if (item.payrollEntryId) {
+    await storage.updatePayrollEntryInCompany(item.payrollEntryId, run.companyId, { status: 'processing', payoutId: result.reference } as any);
+  }
+  await storage.createTransaction({
+    type: 'payout',
+    amount: money(item.netPay).toFixed(2),
+    fee: '0',
+    status: 'processing',
+    date: now.slice(0, 10),
+    description: `Salary payment - ${item.employeeName} (${run.name})`,
+    currency: item.currency,
+    reference: result.reference,
+    userId: actor.userId,
+    companyId: run.companyId,
+  } as any);
+
+  if (item.email) {
+    notificationService.sendPayslipEmail({
+      email: item.email,
+      employeeName: item.employeeName,
+      payPeriod: run.name,
+      grossSalary: money(item.salary) + money(item.bonus),
+      deductions: money(item.deductions),
+      netPay: money(item.netPay),
+      currency: item.currency,
+      paymentDate: run.payDate,
+      companyName,
+    }).catch((err) => logger.warn({ err, payrollRunId: run.id, itemId: item.id }, "Payslip email failed"));
+  }
+  return paid;
+}
+
+/**
+ * Pays an approved run, or retries the items of a partially paid one
+ * that failed or had no banking details.
+ */
+export async function payPayrollRun(
+  run: PayrollRun,
+  actor: PayrollActor,
+): Promise<PayrollRunResult<{ run: PayrollRun; items: PayrollRunItem[]; summary: { attempted: number; initiated: number; failed: number; needsBankingDetails: number } }>> {
+  const problem = runTransitionProblem(run.status, 'pay');
+  if (problem) return { ok: false, status: 409, body: { error: problem } };
+
+  // Claiming the run stops a second click paying it twice.
+  const claimed = await storage.transitionPayrollRun(run.id, run.companyId, runStatusesFor('pay'), { status: 'processing' });
+  if (!claimed) return { ok: false, status: 409, body: { error: "The payroll run is already being paid" } };
+
+  const company = await storage.getCompany(run.companyId);
+  const companyName = company?.name || 'Financiar';
+  let items = await storage.getPayrollRunItems(run.id);
+  const due = items.filter((i) => PAYABLE_ITEM_STATUSES.includes(i.status));
+  const settled = new Map<string, PayrollRunItem>();
+
+  try {
+    for (const item of due) {
+      settled.set(item.id, await payItem(claimed, item, actor, companyName));
+    }
+  } finally {
+    items = items.map((i) => settled.get(i.id) ?? i);
+    const status = statusAfterPayment(items.map((i) => i.status));
+    const finished = await storage.transitionPayrollRun(run.id, run.companyId, ['processing'], {
+      status,
+      ...(status === 'paid' ? { paidAt: new Date().toISOString() } : {}),
+    });
+    run = finished ?? claimed;
+  }
+
+  if (run.status === 'paid') {
+    emitWebhookEvent(run.companyId, 'payroll.run.paid', run).catch(console.error);
+  }
+
+  const outcomes = due.map((i) => settled.get(i.id)?.status);
+  return {
+    ok: true,
+    run,
+    items,
+    summary: {
+      attempted: due.length,
+      initiated: outcomes.filter((s) => s === 'processing').length,
+      failed: outcomes.filter((s) => s === 'failed').length,
+      needsBankingDetails: outcomes.filter((s) => s === 'needs_banking_details').length,
+    },
+  };
+}
+
+/**
+ * Reverses a run. Items not yet paid are released and their entries go
+ * back to pending for a later run; paid items are booked back with a
+ * pending refund transaction until the money is recovered.
+ */
+export async function reversePayrollRun(
+  run: PayrollRun,
+  reason: string,
+  actor: PayrollActor,
+): Promise<PayrollRunResult<{ run: PayrollRun; items: PayrollRunItem[]; summary: { reversed: number; released: number; amountReversed: number } }>> {
+  const problem = runTransitionProblem(run.status, 'reverse');
+  if (problem) return { ok: false, status: 409, body: { error: problem } };
+
+  const now = new Date().toISOString();
+  const reversed = await storage.transitionPayrollRun(run.id, run.companyId, runStatusesFor('reverse'), {
+    status: 'reversed',
+    reversedBy: actor.userId,
+    reversedByName: actor.name,
+    reversedAt: now,
+    reversalReason: reason,
+  });
+  if (!reversed) return { ok: false, status: 409, body: { error: "The payroll run changed while it was being reversed" } };
+
+  const items: PayrollRunItem[] = [];
+  let reversedCount = 0;
+  let amountReversed = 0;
+  for (const item of await storage.getPayrollRunItems(run.id)) {
+    const paid = item.status === 'processing';
+    items.push(await storage.updatePayrollRunItem(item.id, { status: paid ? 'reversed' : 'released' }) ?? item);
+    if (item.payrollEntryId) {
+      await storage.updatePayrollEntryInCompany(item.payrollEntryId, run.companyId, { status: paid ? 'reversed' : 'pending' });
+    }
+    if (!paid) continue;
+    reversedCount++;
+    amountReversed += money(item.netPay);
+    await storage.createTransaction({
+      type: 'refund',
+      amount: money(item.netPay).toFixed(2),
+      fee: '0',
+      status: 'pending',
+      date: now.slice(0, 10),
+      description: `Payroll reversal - ${item.employeeName} (${run.name})`,
+      currency: item.currency,
+      reference: item.reference ? `REV-${item.reference}` : `REV-${item.id}`,
+      userId: actor.userId,
+      companyId: run.companyId,
+    } as any);
+  }
+
+  return {
+    ok: true,
+    run: reversed,
+    items,
+    summary: { reversed: reversedCount, released: items.length - reversedCount, amountReversed: Math.round(amountReversed * 100) / 100 },
+  };
+}
+
+export function payslipFor(run: PayrollRun, item: PayrollRunItem, company: Company | undefined): { fileName: string; pdf: Buffer } {
+  const pdf = renderPayslipPdf({
+    company: {
+      name: company?.name || 'Financiar',
+      tagline: company?.tagline,
+      address: [company?.address, company?.city, company?.country].filter(Boolean).join(', ') || null,
+      email: company?.email,
+      primaryColor: company?.primaryColor,
+    },
+    run: { name: run.name, periodStart: run.periodStart, periodEnd: run.periodEnd, payDate: run.payDate },
+    employee: {
+      id: item.employeeId,
+      name: item.employeeName,
+      department: item.department,
+      email: item.email,
+      bankName: item.bankName,
+      accountNumber: item.accountNumber,
+    },
+    currency: item.currency,
+    salary: money(item.salary),
+    bonus: money(item.bonus),
+    deductions: money(item.deductions),
+    deductionBreakdown: item.deductionBreakdown,
+    statutoryLines: item.statutoryLines,
+    employerContributions: money(item.employerContributions),
+    netPay: money(item.netPay),
+    status: item.status,
+    reference: item.reference,
+  });
+  return { fileName: payslipFileName(run.name, item.employeeName), pdf };
+}
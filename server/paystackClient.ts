@@ -580,6 +580,16 @@ export const paystackClient = {
     return paystackRequest(`/transferrecipient?${query.toString()}`, 'GET');
   },
 
+  async listTransfers(params?: { perPage?: number; page?: number; from?: string; to?: string; status?: string }) {
+    const query = new URLSearchParams();
+    if (params?.perPage) query.append('perPage', String(params.perPage));
+    if (params?.page) query.append('page', String(params.page));
+    if (params?.from) query.append('from', params.from);
+    if (params?.to) query.append('to', params.to);
+    if (params?.status) query.append('status', params.status);
+    return paystackRequest(`/transfer?${query.toString()}`, 'GET');
+  },
+
   async fetchTransfer(transferCode: string) {
     return paystackRequest(`/transfer/${encodeURIComponent(transferCode)}`, 'GET');
   },
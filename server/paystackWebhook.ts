@@ -1,6 +1,8 @@
 import * as crypto from 'crypto';
 import { storage } from './storage';
+import { refreshInvoiceStatus } from './invoiceBalances';
 import { notificationService } from './services/notification-service';
+import { emitWebhookEvent } from './outboundWebhooks';
 
 // TypeScript interfaces
 interface PaystackEvent {
@@ -170,6 +172,14 @@ export class PaystackWebhookHandler {
         return;
       }
 
+      // Public invoice payments have no transaction row until they land
+      if (metadata?.type === 'invoice_payment' && metadata.invoiceId) {
+        await this.recordInvoicePayment(reference, amount / 100, (currency || 'NGN').toUpperCase(), metadata);
+        await storage.markWebhookProcessed(reference, 'paystack', 'charge.success');
+        this.logEvent('charge.success', event, 'Completed', timestamp);
+        return;
+      }
+
       // Find related transaction
       const transaction = await storage.getTransactionByReference(reference);
 
@@ -228,6 +238,71 @@ export class PaystackWebhookHandler {
     }
   }
 
+  /**
+   * Record a Paystack payment against an invoice, credit the company wallet
+   * and log the transaction, mirroring the Stripe checkout handler. The
+   * reference is kept so a credit note can refund through Paystack.
+   */
+  private static async recordInvoicePayment(
+    reference: string,
+    amount: number,
+    currency: string,
+    metadata: Record<string, any>
+  ): Promise<void> {
+    const invoice = await storage.getInvoice(metadata.invoiceId);
+    if (!invoice) {
+      console.warn('PAYSTACK WEBHOOK WARNING: Invoice not found for payment', {
+        reference,
+        invoiceId: metadata.invoiceId,
+      });
+      return;
+    }
+
+    const payment = await storage.recordInvoicePayment({
+      invoiceId: invoice.id,
+      companyId: invoice.companyId,
+      amount: amount.toFixed(2),
+      currency,
+      method: 'paystack',
+      reference,
+      providerReference: reference,
+      recordedBy: 'paystack_webhook',
+      metadata: { invoiceNumber: metadata.invoiceNumber },
+    }, { allowOverpayment: true });
+    await refreshInvoiceStatus(invoice);
+    // Already recorded on an earlier delivery
+    if (!payment) return;
+
+    const companyId = invoice.companyId || metadata.companyId || null;
+    if (companyId) {
+      const wallets = await storage.getWallets(companyId);
+      const wallet = wallets.find((w: any) => w.currency?.toUpperCase() === currency);
+      if (wallet) {
+        await storage.creditWallet(
+          wallet.id,
+          amount,
+          'invoice_payment',
+          `Invoice ${invoice.invoiceNumber} paid via Paystack`,
+          reference,
+          { invoiceId: invoice.id, invoiceNumber: invoice.invoiceNumber, provider: 'paystack', paystackReference: reference }
+        );
+      }
+    }
+
+    await storage.createTransaction({
+      type: 'invoice_payment',
+      amount: String(amount),
+      fee: '0',
+      status: 'completed',
+      description: `Invoice ${invoice.invoiceNumber} paid via Paystack`,
+      currency,
+      date: new Date().toISOString(),
+      reference,
+      userId: null,
+      companyId,
+    });
+  }
+
   /**
    * Handle transfer.success event
    * Marks transfer/payout as Completed
@@ -283,6 +358,7 @@ export class PaystackWebhookHandler {
           reference: transfer_code,
         }).catch(console.error);
       }
+      emitWebhookEvent(payout.companyId, 'payout.completed', { ...payout, status: 'Completed' }).catch(console.error);
 
       // Mark webhook as processed
       await storage.markWebhookProcessed(transfer_code, 'paystack', 'transfer.success');
@@ -354,6 +430,11 @@ export class PaystackWebhookHandler {
           reason: event.data.reason || event.data.message,
         }).catch(console.error);
       }
+      emitWebhookEvent(payout.companyId, 'payout.failed', {
+        ...payout,
+        status: 'Failed',
+        failureReason: event.data.reason || event.data.message || null,
+      }).catch(console.error);
 
       // Reverse wallet debit - credit back the INITIATOR who was debited
       const initiatorId = (payout as any).initiatedBy || payout.recipientId;
@@ -0,0 +1,162 @@
+import { storage } from "./storage";
+import {
+  matchBillToPurchaseOrder,
+  defaultBillLines,
+  type PoLineRef,
+} from "./lib/three-way-match";
+import type { Bill, BillLineItem, PurchaseOrder, PurchaseOrderLine, ThreeWayMatchException } from "@shared/schema";
+
+// Glue between bills, purchase orders and goods receipts: loads what the
+// three-way match in server/lib/three-way-match.ts needs, stores its
+// result on the bill, and decides whether a bill may be paid.
+
+// Only owners and admins may pay a bill whose match has exceptions.
+const MATCH_OVERRIDE_ROLES = ['OWNER', 'ADMIN'];
+
+// Bills that no longer claim their quantities.
+const RELEASED_BILL_STATUSES = ['rejected'];
+
+function lineRefs(lines: PurchaseOrderLine[]): PoLineRef[] {
+  return lines.map((l) => ({
+    id: l.id,
+    description: l.description,
+    quantity: parseFloat(l.quantity),
+    unitPrice: parseFloat(l.unitPrice),
+    receivedQuantity: parseFloat(l.receivedQuantity),
+  }));
+}
+
+// Received quantities available to a bill: one goods receipt when the
+// bill names it, otherwise everything received on the order.
+async function receivedFor(poLines: PoLineRef[], goodsReceiptId: string | null): Promise<Record<string, number>> {
+  if (goodsReceiptId) {
+    const receipt = await storage.getGoodsReceipt(goodsReceiptId);
+    const received: Record<string, number> = {};
+    for (const line of receipt?.lines ?? []) {
+      received[line.poLineId] = (received[line.poLineId] ?? 0) + line.quantity;
+    }
+    return received;
+  }
+  return Object.fromEntries(poLines.map((l) => [l.id, l.receivedQuantity]));
+}
+
+async function billedElsewhere(purchaseOrderId: string, billId: string | null): Promise<Record<string, number>> {
+  const billed: Record<string, number> = {};
+  for (const other of await storage.getBillsForPurchaseOrder(purchaseOrderId)) {
+    if (other.id === billId || RELEASED_BILL_STATUSES.includes(other.status.toLowerCase())) continue;
+    for (const line of other.lineItems ?? []) {
+      billed[line.poLineId] = (billed[line.poLineId] ?? 0) + line.quantity;
+    }
+  }
+  return billed;
+}
+
+/** Re-run the three-way match for a PO-linked bill and store the result. */
+export async function evaluateBillMatch(bill: Bill): Promise<Bill> {
+  if (!bill.purchaseOrderId) return bill;
+  const po = await storage.getPurchaseOrder(bill.purchaseOrderId);
+  if (!po) return bill;
+
+  const poLines = lineRefs(await storage.getPurchaseOrderLines(po.id));
+  const result = matchBillToPurchaseOrder({
+    poStatus: po.status,
+    poCurrency: po.currency,
+    poLines,
+    billCurrency: bill.currency,
+    billAmount: parseFloat(bill.amount),
+    billLines: bill.lineItems ?? [],
+    received: await receivedFor(poLines, bill.goodsReceiptId),
+    billedElsewhere: await billedElsewhere(po.id, bill.id),
+    tolerance: {
+      pricePercent: parseFloat(po.priceTolerancePercent),
+      quantityPercent: parseFloat(po.quantityTolerancePercent),
+    },
+  });
+
+  const updated = await storage.updateBill(bill.id, {
+    matchStatus: result.status,
+    matchExceptions: result.exceptions,
+    matchCheckedAt: new Date().toISOString(),
+  });
+  return updated ?? bill;
+}
+
+/**
+ * Point a bill at a purchase order (and optionally one of its goods
+ * receipts). Without explicit lines the bill takes everything received
+ * and not yet billed, at the PO price. A previous override no longer
+ * applies to the new link.
+ */
+export async function linkBillToPurchaseOrder(
+  bill: Bill,
+  po: PurchaseOrder,
+  opts: { goodsReceiptId?: string | null; lineItems?: BillLineItem[] | null },
+): Promise<Bill> {
+  let lineItems = opts.lineItems ?? null;
+  if (!lineItems || lineItems.length === 0) {
+    const poLines = lineRefs(await storage.getPurchaseOrderLines(po.id));
+    lineItems = defaultBillLines(
+      poLines,
+      await receivedFor(poLines, opts.goodsReceiptId ?? null),
+      await billedElsewhere(po.id, bill.id),
+    );
+  }
+  const linked = await storage.updateBill(bill.id, {
+    purchaseOrderId: po.id,
+    goodsReceiptId: opts.goodsReceiptId ?? null,
+    lineItems,
+    matchOverrideBy: null,
+    matchOverrideReason: null,
+    matchOverrideAt: null,
+  });
+  return await evaluateBillMatch(linked ?? bill);
+}
+
+/** Re-match the order's unpaid bills after a delivery or status change. */
+export async function rematchPurchaseOrderBills(purchaseOrderId: string): Promise<void> {
+  for (const bill of await storage.getBillsForPurchaseOrder(purchaseOrderId)) {
+    if (bill.status.toLowerCase() === 'paid') continue;
+    await evaluateBillMatch(bill);
+  }
+}
+
+export type BillPaymentCheck =
+  | { ok: true; override: { reason: string; exceptions: ThreeWayMatchException[] } | null }
+  | { ok: false; status: number; body: any };
+
+/**
+ * Whether the bill may be paid. Bills with no purchase order have nothing
+ * to match and are payable as before. An owner or admin may pay past
+ * exceptions by giving a reason; the override is stored on the bill and
+ * returned so the route can audit it.
+ */
+export async function checkBillPayable(
+  bill: Bill,
+  actor: { userId: string; role: string | null },
+  overrideReason?: string | null,
+): Promise<BillPaymentCheck> {
+  if (!bill.purchaseOrderId) return { ok: true, override: null };
+
+  const checked = await evaluateBillMatch(bill);
+  if (checked.matchStatus === 'matched' || checked.matchOverrideAt) return { ok: true, override: null };
+
+  const exceptions = checked.matchExceptions ?? [];
+  const reason = overrideReason?.trim();
+  if (!reason) {
+    return {
+      ok: false,
+      status: 409,
+      body: { error: "Bill does not match its purchase order and goods receipt", code: 'BILL_MATCH_EXCEPTION', exceptions },
+    };
+  }
+  if (!actor.role || !MATCH_OVERRIDE_ROLES.includes(actor.role)) {
+    return { ok: false, status: 403, body: { error: "Only an owner or admin can override a three-way match exception" } };
+  }
+
+  await storage.updateBill(bill.id, {
+    matchOverrideBy: actor.userId,
+    matchOverrideReason: reason,
+    matchOverrideAt: new Date().toISOString(),
+  });
+  return { ok: true, override: { reason, exceptions } };
+}
@@ -0,0 +1,244 @@
+import { storage } from "./storage";
+import { paystackClient } from "./paystackClient";
+import { getStripeClient } from "./stripeClient";
+import { withSchedulerLock } from "./recurringScheduler";
+import { logger as baseLogger } from "./lib/logger";
+import {
+  reconcile,
+  normalizePaystackTransactions,
+  normalizePaystackTransfers,
+  normalizeStripeCharges,
+  normalizeStripePayouts,
+  normalizeStripeTransfers,
+  localRecordFromPayout,
+  localRecordFromWalletTransaction,
+  type ProviderRecord,
+  type LocalRecord,
+  type ReconciliationProvider,
+} from "./lib/reconciliation";
+import type { ReconciliationRun } from "@shared/schema";
+
+// LU-014 — daily provider reconciliation.
+//
+// Once a day, for each configured provider, pull the settled charges,
+// transfers and payouts for the previous UTC day, match them against
+// payouts / wallet_transactions (with payment_intent_index for tenant
+// attribution) and upsert every mismatch into reconciliation_exceptions.
+// The matching itself lives in server/lib/reconciliation.ts; this file
+// only does I/O. Provider access goes through `ProviderFeed` so tests
+// and manual re-runs can substitute recorded responses.
+
+const logger = baseLogger.child({ module: "reconciliation-scheduler" });
+const SCHEDULER_LOCK_NAME = "financiar.reconciliation-scheduler";
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Provider and local rows are loaded with this much padding either side
+// of the window so a movement recorded just across midnight still pairs.
+const WINDOW_PADDING_MS = DAY_MS;
+const MAX_PAYSTACK_PAGES = 50;
+const MAX_STRIPE_OBJECTS = 10000;
+
+export interface ProviderFeed {
+  provider: ReconciliationProvider;
+  fetch(window: { from: string; to: string }): Promise<ProviderRecord[]>;
+}
+
+async function fetchAllPaystackPages(
+  list: (params: { perPage: number; page: number; from: string; to: string }) => Promise<any>,
+  window: { from: string; to: string },
+): Promise<any[]> {
+  const rows: any[] = [];
+  for (let page = 1; page <= MAX_PAYSTACK_PAGES; page++) {
+    const response = await list({ perPage: 100, page, from: window.from, to: window.to });
+    const data: any[] = Array.isArray(response?.data) ? response.data : [];
+    rows.push(...data);
+    const pageCount = Number(response?.meta?.pageCount ?? 1);
+    if (data.length === 0 || page >= pageCount) break;
+  }
+  return rows;
+}
+
+export function livePaystackFeed(): ProviderFeed {
+  return {
+    provider: 'paystack',
+    async fetch(window) {
+      const transactions = await fetchAllPaystackPages((p) => paystackClient.listTransactions(p), window);
+      const transfers = await fetchAllPaystackPages((p) => paystackClient.listTransfers(p), window);
+      return [
+        ...normalizePaystackTransactions({ data: transactions }),
+        ...normalizePaystackTransfers({ data: transfers }),
+      ];
+    },
+  };
+}
+
+export function liveStripeFeed(): ProviderFeed {
+  return {
+    provider: 'stripe',
+    async fetch(window) {
+      const stripe = getStripeClient();
+      const created = {
+        gte: Math.floor(new Date(window.from).getTime() / 1000),
+        lt: Math.floor(new Date(window.to).getTime() / 1000),
+      };
+      const charges = await stripe.charges.list({ created, limit: 100 }).autoPagingToArray({ limit: MAX_STRIPE_OBJECTS });
+      const payouts = await stripe.payouts.list({ created, limit: 100 }).autoPagingToArray({ limit: MAX_STRIPE_OBJECTS });
+      const transfers = await stripe.transfers.list({ created, limit: 100 }).autoPagingToArray({ limit: MAX_STRIPE_OBJECTS });
+      return [
+        ...normalizeStripeCharges(charges),
+        ...normalizeStripePayouts(payouts),
+        ...normalizeStripeTransfers(transfers),
+      ];
+    },
+  };
+}
+
+/** Feeds for every provider whose secret key is configured. */
+export function configuredProviderFeeds(): ProviderFeed[] {
+  const feeds: ProviderFeed[] = [];
+  if (process.env.STRIPE_SECRET_KEY) feeds.push(liveStripeFeed());
+  if (process.env.PAYSTACK_SECRET_KEY) feeds.push(livePaystackFeed());
+  return feeds;
+}
+
+/** [previous UTC midnight − 1 day, previous UTC midnight) relative to `asOf`. */
+export function reconciliationWindowFor(asOf: Date): { from: string; to: string } {
+  const end = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), asOf.getUTCDate()));
+  const start = new Date(end.getTime() - DAY_MS);
+  return { from: start.toISOString(), to: end.toISOString() };
+}
+
+async function loadLocalRecords(provider: ReconciliationProvider, padded: { from: string; to: string }): Promise<LocalRecord[]> {
+  const payoutRows = await storage.getPayoutsForReconciliation(provider, padded.from, padded.to);
+  const walletRows = await storage.getProviderWalletTransactions(padded.from, padded.to);
+  return [
+    ...payoutRows.map(localRecordFromPayout),
+    ...walletRows.map((w) => localRecordFromWalletTransaction(w, w.companyId)),
+  ].filter((r): r is LocalRecord => r !== null && r.provider === provider);
+}
+
+async function reconcileProvider(feed: ProviderFeed, window: { from: string; to: string }): Promise<ReconciliationRun> {
+  const run = await storage.createReconciliationRun({
+    provider: feed.provider,
+    windowStart: window.from,
+    windowEnd: window.to,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+  } as any);
+
+  try {
+    const padded = {
+      from: new Date(new Date(window.from).getTime() - WINDOW_PADDING_MS).toISOString(),
+      to: new Date(new Date(window.to).getTime() + WINDOW_PADDING_MS).toISOString(),
+    };
+    const providerRecords = await feed.fetch(padded);
+    const localRecords = await loadLocalRecords(feed.provider, padded);
+
+    const references = Array.from(new Set(providerRecords.flatMap((r) => [r.reference, ...r.altReferences])));
+    const indexRows = await storage.getPaymentIntentIndexByIds(feed.provider, references);
+    const companyByReference: Record<string, string | null> = {};
+    for (const row of indexRows) companyByReference[row.providerIntentId] = row.companyId ?? null;
+
+    const result = reconcile({ window, providerRecords, localRecords, companyByReference });
+
+    for (const ex of result.exceptions) {
+      await storage.upsertReconciliationException({
+        ...ex,
+        runId: run.id,
+        providerAmount: ex.providerAmount != null ? ex.providerAmount.toFixed(2) : null,
+        localAmount: ex.localAmount != null ? ex.localAmount.toFixed(2) : null,
+      } as any);
+    }
+
+    const finished = await storage.updateReconciliationRun(run.id, {
+      status: 'completed',
+      providerRecordCount: providerRecords.length,
+      localRecordCount: localRecords.length,
+      matchedCount: result.matched,
+      exceptionCount: result.exceptions.length,
+      finishedAt: new Date().toISOString(),
+    });
+    logger.info({
+      provider: feed.provider,
+      window,
+      providerRecords: providerRecords.length,
+      localRecords: localRecords.length,
+      matched: result.matched,
+      exceptions: result.exceptions.length,
+    }, "Reconciliation run complete");
+    return finished ?? run;
+  } catch (err: any) {
+    logger.error({ err, provider: feed.provider, window }, "Reconciliation run failed");
+    const failed = await storage.updateReconciliationRun(run.id, {
+      status: 'failed',
+      error: err?.message || String(err),
+      finishedAt: new Date().toISOString(),
+    });
+    return failed ?? run;
+  }
+}
+
+/**
+ * Reconcile every feed for the window ending at the most recent UTC
+ * midnight before `asOf`. One provider failing does not stop the others.
+ * Returns null when another instance holds the scheduler lock.
+ */
+export async function runProviderReconciliation(opts?: {
+  asOf?: Date;
+  feeds?: ProviderFeed[];
+  // Re-run a window that already has a completed run (manual trigger).
+  force?: boolean;
+}): Promise<ReconciliationRun[] | null> {
+  const window = reconciliationWindowFor(opts?.asOf ?? new Date());
+  const feeds = opts?.feeds ?? configuredProviderFeeds();
+  if (feeds.length === 0) {
+    logger.warn("No payment provider configured — skipping reconciliation");
+    return [];
+  }
+  return await withSchedulerLock(SCHEDULER_LOCK_NAME, async () => {
+    // The interval restarts with every deploy, so skip windows that a
+    // previous process already reconciled.
+    const recent = opts?.force ? [] : await storage.getReconciliationRuns(50);
+    const runs: ReconciliationRun[] = [];
+    for (const feed of feeds) {
+      const done = recent.some((r) =>
+        r.provider === feed.provider && r.windowStart === window.from && r.status === 'completed');
+      if (done) continue;
+      runs.push(await reconcileProvider(feed, window));
+    }
+    return runs;
+  });
+}
+
+let reconciliationInterval: NodeJS.Timeout | null = null;
+let initialReconciliation: NodeJS.Timeout | null = null;
+
+/** Start the daily reconciliation job. Call once at server startup. */
+export function startReconciliationScheduler(intervalMs: number = DAY_MS) {
+  if (reconciliationInterval) {
+    clearInterval(reconciliationInterval);
+  }
+  if (initialReconciliation) {
+    clearTimeout(initialReconciliation);
+  }
+  logger.info({ intervalMs }, "Starting provider reconciliation scheduler");
+  // Delay the first run so it doesn't compete with startup work.
+  initialReconciliation = setTimeout(() => {
+    initialReconciliation = null;
+    runProviderReconciliation().catch((err) => logger.error({ err }, "Initial reconciliation failed"));
+  }, 5 * 60 * 1000);
+  reconciliationInterval = setInterval(() => {
+    runProviderReconciliation().catch((err) => logger.error({ err }, "Reconciliation tick failed"));
+  }, intervalMs);
+}
+
+export function stopReconciliationScheduler() {
+  if (initialReconciliation) {
+    clearTimeout(initialReconciliation);
+    initialReconciliation = null;
+  }
+  if (reconciliationInterval) {
+    clearInterval(reconciliationInterval);
+    reconciliationInterval = null;
+    logger.info("Provider reconciliation scheduler stopped");
+  }
+}
@@ -6,6 +6,11 @@ import { getStripeClient } from "./stripeClient";
 import { getPaymentProvider, getCurrencyForCountry } from "./paymentService";
 import { logger as baseLogger } from "./lib/logger";
 import { computeNextDate } from "./utils/recurring-dates";
+import { processInvoiceDunning } from "./invoiceDunning";
+import { refreshAllBudgets } from "./budgetActuals";
+import { statutoryDeductions } from "./payrollDeductions";
+import { manualOtherDeductions } from "./lib/statutory-deductions";
+import { sanctionsHold, transferRecipientSubject } from "./sanctionsScreening";
 
 // LU-002 / LU-003 / AUD-BE-001 / AUD-BE-004
 // Scheduler hardened to (a) acquire a Postgres advisory lock per tick so only
@@ -25,7 +30,7 @@ const SCHEDULER_LOCK_NAME = "financiar.recurring-scheduler";
  * function result. The lock is automatically released when the surrounding
  * transaction commits or rolls back.
  */
-async function withSchedulerLock<T>(name: string, fn: () => Promise<T>): Promise<T | null> {
+export async function withSchedulerLock<T>(name: string, fn: () => Promise<T>): Promise<T | null> {
   return await db.transaction(async (tx) => {
     const result = await tx.execute(
       sql`SELECT pg_try_advisory_xact_lock(hashtext(${name})::int) AS acquired`
@@ -127,14 +132,32 @@ async function processRecurringPayroll() {
       );
       if (alreadyCreated) continue;
 
+      // Worked-out deductions are worked out again for the new pay date,
+      // so a rate change that has come into force since is picked up.
+      const deductions = entry.statutoryLines
+        ? await statutoryDeductions({
+            country: entry.country,
+            payDate: nextPayDate,
+            frequency,
+            salary: parseFloat(entry.salary),
+            bonus: parseFloat(entry.bonus || '0'),
+            otherDeductions: manualOtherDeductions(entry.deductionBreakdown, entry.statutoryLines),
+          })
+        : null;
+
       await storage.createPayrollEntry({
         employeeId: entry.employeeId,
         employeeName: entry.employeeName,
         department: entry.department,
+        country: entry.country,
+        currency: entry.currency,
         salary: entry.salary,
         bonus: entry.bonus || '0',
-        deductions: entry.deductions || '0',
-        netPay: entry.netPay,
+        deductions: deductions ? deductions.employeeTotal.toFixed(2) : entry.deductions || '0',
+        deductionBreakdown: deductions ? deductions.breakdown : entry.deductionBreakdown,
+        statutoryLines: deductions ? deductions.lines : null,
+        employerContributions: deductions ? deductions.employerTotal.toFixed(2) : '0',
+        netPay: deductions ? deductions.netPay.toFixed(2) : entry.netPay,
         status: 'pending',
         payDate: nextPayDate,
         bankName: entry.bankName,
@@ -186,28 +209,49 @@ async function processScheduledPayments() {
           continue;
         }
 
+        const hold = await sanctionsHold(payment.companyId, [transferRecipientSubject({ accountNumber, bankCode, accountName })], payment.createdBy);
+        if (hold) {
+          logger.warn({ paymentId: payment.id, screeningId: hold.id }, "Scheduled payment held for sanctions review, skipping");
+          continue;
+        }
+
         const countryCode = meta.countryCode || 'US';
         const provider = getPaymentProvider(countryCode);
         const { currency } = getCurrencyForCountry(countryCode);
         let reference = '';
 
         // FIX P4: Debit balance BEFORE initiating external transfer to prevent fund leaks
-        const balances = await storage.getBalances();
-        let balanceField: string;
-        if (currency === 'USD') {
-          balanceField = 'usd';
-        } else {
-          balanceField = 'local';
-        }
-        const currentBalance = parseFloat(String((balances as any)[balanceField] || 0));
+        const companyId = payment.companyId ?? undefined;
+        const balances = await storage.getBalances(companyId);
+        const balanceField: 'usd' | 'local' = currency === 'USD' ? 'usd' : 'local';
+        const currentBalance = parseFloat(String(balances[balanceField] || 0));
         if (currentBalance < amount) {
           throw new Error(`Insufficient balance for scheduled payment: need ${amount} ${currency}, have ${currentBalance}`);
         }
-        await storage.updateBalances({ [balanceField]: String(currentBalance - amount) });
+        const movement = {
+          companyId,
+          field: balanceField,
+          amount,
+          currency,
+          counterAccount: 'payout_clearing' as const,
+          sourceType: 'scheduled_payment',
+          sourceId: payment.id,
+        };
+        await storage.atomicCompanyBalanceMovement({
+          ...movement,
+          direction: 'debit',
+          description: `Scheduled ${payment.type} - ${payment.recipientName || 'Recipient'}`,
+        });
+        // Puts the debit back, with its own ledger entry, when the transfer never leaves.
+        const restoreBalance = () => storage.atomicCompanyBalanceMovement({
+          ...movement,
+          direction: 'credit',
+          description: `Scheduled ${payment.type} not sent - ${payment.recipientName || 'Recipient'}`,
+        });
 
         if (provider === 'paystack') {
           if (!bankCode) {
-            await storage.updateBalances({ [balanceField]: String(currentBalance) });
+            await restoreBalance();
             logger.warn({ paymentId: payment.id }, "No bank code for Paystack payout, refunded balance and skipped");
             continue;
           }
@@ -219,7 +263,7 @@ async function processScheduledPayments() {
           );
           const recipientCode = recipientResponse.data?.recipient_code;
           if (!recipientCode) {
-            await storage.updateBalances({ [balanceField]: String(currentBalance) });
+            await restoreBalance();
             throw new Error('Failed to create transfer recipient');
           }
 
@@ -245,7 +289,7 @@ async function processScheduledPayments() {
               );
             }
           } catch (transferErr: any) {
-            await storage.updateBalances({ [balanceField]: String(currentBalance) });
+            await restoreBalance();
             throw transferErr;
           }
         } else {
@@ -279,7 +323,7 @@ async function processScheduledPayments() {
               logger.warn({ err, payoutId: payout.id }, 'payment_intent_index write failed for scheduled Stripe payout'),
             );
           } catch (stripeErr: any) {
-            await storage.updateBalances({ [balanceField]: String(currentBalance) });
+            await restoreBalance();
             throw stripeErr;
           }
         }
@@ -326,6 +370,8 @@ export async function runRecurringScheduler() {
     await processRecurringBills();
     await processRecurringPayroll();
     await processScheduledPayments();
+    await processInvoiceDunning();
+    await refreshAllBudgets();
     logger.info({ durationMs: Date.now() - startedAt }, "Scheduler tick complete");
   });
 }
@@ -0,0 +1,310 @@
+import express from "express";
+import { storage } from "../storage";
+import { requireAuth, requireAdmin } from "../middleware/auth";
+import {
+  param,
+  resolveUserCompany,
+  logAudit,
+  getAuditUserName,
+  glAccountMappingSchema,
+  accountingExportSchema,
+} from "./shared";
+import {
+  ACCOUNTING_SOURCE_TYPES,
+  DEFAULT_CONTROL_ACCOUNTS,
+  buildJournalEntries,
+  exportFileName,
+  formatAccountingExport,
+  type AccountingSources,
+  type AccountingExportFormat,
+  type AccountingSourceType,
+  type BuildOptions,
+  type ExportEntry,
+} from "../lib/accounting-export";
+import type { AccountingExport } from "@shared/schema";
+
+const router = express.Router();
+
+// ==================== ACCOUNTING EXPORT ====================
+// Chart-of-accounts mapping and journal exports for QuickBooks / Xero.
+// Finance settings, so admin only.
+
+const CONTENT_TYPES: Record<AccountingExportFormat, string> = {
+  quickbooks_iif: 'application/octet-stream',
+  xero_csv: 'text/csv',
+  journal_csv: 'text/csv',
+};
+
+// The stored file is only returned by the download route.
+function exportSummary(exp: AccountingExport) {
+  const { content, ...summary } = exp;
+  return summary;
+}
+
+async function loadAccountingSources(companyId: string): Promise<AccountingSources> {
+  const [expenses, bills, invoices, payroll, vendors, payouts] = await Promise.all([
+    storage.getExpenses(companyId),
+    storage.getBills(companyId),
+    storage.getInvoices(companyId),
+    storage.getPayroll(companyId),
+    storage.getVendors(companyId),
+    storage.getPayouts({ companyId }),
+  ]);
+  const payoutDates = new Map(payouts.map((p) => [p.id, p.processedAt]));
+  // Bills carry the vendor by name only.
+  const vendorByName = new Map(vendors.map((v) => [v.name.trim().toLowerCase(), v.id]));
+
+  return {
+    expenses: expenses.filter((e) => !e.deletedAt).map((e) => ({
+      id: e.id,
+      date: e.date,
+      merchant: e.merchant,
+      amount: parseFloat(e.amount),
+      currency: e.currency,
+      category: e.category,
+      status: e.status,
+      expenseType: e.expenseType,
+      vendorId: e.vendorId,
+      departmentId: e.departmentId,
+      department: e.department,
+      paidDate: (e.payoutId ? payoutDates.get(e.payoutId) : null) ?? (e.status === 'PAID' ? e.approvedAt : null),
+    })),
+    bills: bills.map((b) => ({
+      id: b.id,
+      name: b.name,
+      provider: b.provider,
+      vendorId: vendorByName.get((b.provider || '').trim().toLowerCase()) ?? null,
+      category: b.category,
+      amount: parseFloat(b.amount),
+      currency: b.currency,
+      billDate: b.createdAt,
+      status: b.status,
+      paidDate: b.paidDate,
+      paidAmount: b.paidAmount != null ? parseFloat(b.paidAmount) : null,
+    })),
+    invoices: invoices.map((i) => ({
+      id: i.id,
+      invoiceNumber: i.invoiceNumber,
+      client: i.client,
+      amount: parseFloat(i.amount),
+      taxAmount: parseFloat(i.taxAmount || '0'),
+      currency: i.currency || 'USD',
+      issuedDate: i.issuedDate,
+      status: i.status,
+    })),
+    payroll: payroll.map((p) => ({
+      id: p.id,
+      employeeName: p.employeeName,
+      department: p.department,
+      gross: parseFloat(p.salary) + parseFloat(p.bonus || '0'),
+      netPay: parseFloat(p.netPay),
+      currency: p.currency || 'USD',
+      payDate: p.payDate,
+      status: p.status,
+    })),
+  };
+}
+
+// Entries not yet exported for the window, built from current mappings.
+async function pendingJournalEntries(companyId: string, opts: Omit<BuildOptions, 'alreadyExported'>): Promise<ExportEntry[]> {
+  const [sources, mappings, alreadyExported] = await Promise.all([
+    loadAccountingSources(companyId),
+    storage.getGlAccountMappings(companyId),
+    storage.getExportedAccountingKeys(companyId),
+  ]);
+  return buildJournalEntries(sources, mappings, { ...opts, alreadyExported });
+}
+
+router.get("/accounting/gl-mappings", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const mappings = await storage.getGlAccountMappings(company.companyId);
+    res.json({ mappings, controlAccountDefaults: DEFAULT_CONTROL_ACCOUNTS });
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to fetch GL account mappings" });
+  }
+});
+
+router.put("/accounting/gl-mappings", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const parsed = glAccountMappingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid GL account mapping", details: parsed.error.issues });
+    }
+    const { sourceType, sourceKey } = parsed.data;
+    if (sourceType === 'control' && !(sourceKey in DEFAULT_CONTROL_ACCOUNTS)) {
+      return res.status(400).json({ error: `Unknown control account. Use one of: ${Object.keys(DEFAULT_CONTROL_ACCOUNTS).join(', ')}` });
+    }
+
+    const mapping = await storage.upsertGlAccountMapping({
+      ...parsed.data,
+      // Categories are free text on expenses and bills; match them case-insensitively.
+      sourceKey: sourceType === 'category' ? sourceKey.toLowerCase() : sourceKey,
+      companyId: company.companyId,
+    });
+
+    await logAudit('gl_account_mapping', mapping.id, 'upserted', (req as any).user?.uid || 'unknown', await getAuditUserName(req),
+      null,
+      { sourceType, sourceKey: mapping.sourceKey, accountCode: mapping.accountCode, taxCode: mapping.taxCode }
+    );
+
+    res.json(mapping);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to save GL account mapping" });
+  }
+});
+
+router.delete("/accounting/gl-mappings/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const deleted = await storage.deleteGlAccountMapping(param(req.params.id), company.companyId);
+    if (!deleted) {
+      return res.status(404).json({ error: "GL account mapping not found" });
+    }
+    res.status(204).send();
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to delete GL account mapping" });
+  }
+});
+
+router.get("/accounting/exports", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const exports = await storage.getAccountingExports(company.companyId);
+    res.json(exports.map(exportSummary));
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to fetch accounting exports" });
+  }
+});
+
+// Dry run: the entries an export with these options would contain.
+router.post("/accounting/exports/preview", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const parsed = accountingExportSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid export request", details: parsed.error.issues });
+    }
+    const { startDate, endDate, currency } = parsed.data;
+    const sourceTypes: AccountingSourceType[] = parsed.data.sourceTypes ?? ACCOUNTING_SOURCE_TYPES;
+
+    const entries = await pendingJournalEntries(company.companyId, { startDate, endDate, sourceTypes, currency });
+
+    const bySourceType: Record<string, number> = {};
+    for (const entry of entries) bySourceType[entry.sourceType] = (bySourceType[entry.sourceType] ?? 0) + 1;
+    res.json({ entryCount: entries.length, bySourceType, entries: entries.slice(0, 200) });
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to preview accounting export" });
+  }
+});
+
+router.post("/accounting/exports", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const parsed = accountingExportSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid export request", details: parsed.error.issues });
+    }
+    const { format, startDate, endDate, currency } = parsed.data;
+    const sourceTypes: AccountingSourceType[] = parsed.data.sourceTypes ?? ACCOUNTING_SOURCE_TYPES;
+
+    const entries = await pendingJournalEntries(company.companyId, { startDate, endDate, sourceTypes, currency });
+    if (entries.length === 0) {
+      return res.status(400).json({ error: "Nothing left to export in this date range" });
+    }
+
+    const userId = (req as any).user?.uid || 'unknown';
+    const userName = await getAuditUserName(req);
+    const exp = await storage.createAccountingExport({
+      companyId: company.companyId,
+      format,
+      startDate,
+      endDate,
+      sourceTypes,
+      currency: currency ?? null,
+      entryCount: entries.length,
+      fileName: exportFileName(format, startDate, endDate),
+      content: formatAccountingExport(format, entries),
+      status: 'completed',
+      createdBy: userId,
+      createdByName: userName,
+    }, entries.map((e) => ({ sourceType: e.sourceType, sourceId: e.sourceId })));
+
+    await logAudit('accounting_export', exp.id, 'created', userId, userName,
+      null,
+      null,
+      { format, startDate, endDate, entryCount: entries.length, sourceTypes }
+    );
+
+    res.status(201).json(exportSummary(exp));
+  } catch (error: any) {
+    if (error?.message === 'ACCOUNTING_ITEMS_ALREADY_EXPORTED') {
+      return res.status(409).json({ error: "Some of these items were exported by another request; refresh and try again" });
+    }
+    res.status(500).json({ error: "Failed to create accounting export" });
+  }
+});
+
+router.get("/accounting/exports/:id/download", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    const exp = await storage.getAccountingExport(param(req.params.id));
+    if (!exp || !company || exp.companyId !== company.companyId) {
+      return res.status(404).json({ error: "Accounting export not found" });
+    }
+    res.setHeader('Content-Type', CONTENT_TYPES[exp.format as AccountingExportFormat] ?? 'text/plain');
+    res.setHeader('Content-Disposition', `attachment; filename="${exp.fileName}"`);
+    res.send(exp.content);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to download accounting export" });
+  }
+});
+
+// Voiding releases the export's items so they appear in the next export
+// — for a file that failed to import or was imported into the wrong books.
+router.post("/accounting/exports/:id/void", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    const exp = await storage.getAccountingExport(param(req.params.id));
+    if (!exp || !company || exp.companyId !== company.companyId) {
+      return res.status(404).json({ error: "Accounting export not found" });
+    }
+    if (exp.status === 'voided') {
+      return res.status(400).json({ error: "Export already voided" });
+    }
+
+    const userId = (req as any).user?.uid || 'unknown';
+    const voided = await storage.voidAccountingExport(exp.id, userId);
+
+    await logAudit('accounting_export', exp.id, 'voided', userId, await getAuditUserName(req),
+      { status: exp.status },
+      { status: 'voided' },
+      { entryCount: exp.entryCount }
+    );
+
+    res.json(voided ? exportSummary(voided) : null);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to void accounting export" });
+  }
+});
+
+export default router;
@@ -14,6 +14,7 @@ import { notificationService } from "../services/notification-service";
 import { mapPaymentError, paymentLogger } from "../utils/paymentUtils";
 import { requireAuth, requirePin } from "../middleware/auth";
 import { financialLimiter } from "../middleware/rateLimiter";
+import { idempotency } from "../middleware/idempotency";
 import {
   param,
   resolveUserCompany,
@@ -379,7 +380,7 @@ router.get("/virtual-accounts/:id", requireAuth, async (req, res) => {
 // Fund virtual account via real payment provider
 // For Paystack DVAs: Returns bank transfer instructions (user sends money to DVA number externally)
 // For Stripe Treasury: Initiates an inbound transfer from a linked payment method
-router.post("/virtual-accounts/:id/deposit", financialLimiter, requireAuth, requirePin, async (req, res) => {
+router.post("/virtual-accounts/:id/deposit", financialLimiter, requireAuth, requirePin, idempotency, async (req, res) => {
   try {
     const { amount, originPaymentMethod } = req.body;
     if (!amount || amount <= 0) {
@@ -472,7 +473,7 @@ router.post("/virtual-accounts/:id/deposit", financialLimiter, requireAuth, requ
 });
 
 // Withdraw from virtual account — initiates real payout via provider
-router.post("/virtual-accounts/:id/withdraw", requireAuth, requirePin, async (req, res) => {
+router.post("/virtual-accounts/:id/withdraw", requireAuth, requirePin, idempotency, async (req, res) => {
   try {
     const { amount, destination, reason } = req.body;
     if (!amount || amount <= 0) {
@@ -2,6 +2,7 @@ import express from "express";
 import { storage } from "../storage";
 import { requireAuth } from "../middleware/auth";
 import { resolveUserCompany } from "./shared";
+import { refreshCompanyBudgets } from "../budgetActuals";
 
 const router = express.Router();
 
@@ -15,7 +16,7 @@ router.get("/analytics/summary", requireAuth, async (req, res) => {
     const analyticsCompanyId = analyticsCompany?.companyId;
     const expenses = await storage.getExpenses(analyticsCompanyId);
     const transactions = await storage.getTransactions(analyticsCompanyId);
-    const budgets = await storage.getBudgets(analyticsCompanyId);
+    const budgets = await refreshCompanyBudgets(analyticsCompanyId);
 
     const totalExpenses = expenses.reduce((sum, e) => sum + parseNum(e.amount), 0);
     const totalIncome = transactions
@@ -37,9 +38,9 @@ router.get("/analytics/summary", requireAuth, async (req, res) => {
 
     const budgetUtilization = budgets.map(b => ({
       name: b.name,
-      budget: parseNum(b.limit),
+      budget: b.effectiveLimit,
       spent: parseNum(b.spent),
-      percentage: Math.round((parseNum(b.spent) / parseNum(b.limit)) * 100) || 0,
+      percentage: Math.round(b.utilization),
     }));
 
     res.json({
@@ -65,7 +66,7 @@ router.get("/analytics/kpis", requireAuth, async (req, res) => {
     const [expenses, transactions, budgets, bills, invoicesList, payroll, walletsList, vendorsList] = await Promise.all([
       storage.getExpenses(kpiCompanyId),
       storage.getTransactions(kpiCompanyId),
-      storage.getBudgets(kpiCompanyId),
+      refreshCompanyBudgets(kpiCompanyId),
       storage.getBills(kpiCompanyId),
       storage.getInvoices(),
       storage.getPayroll(kpiCompanyId),
@@ -80,7 +81,7 @@ router.get("/analytics/kpis", requireAuth, async (req, res) => {
     const totalOutflow = transactions
       .filter(t => t.type === 'Payout' || t.type === 'Bill' || t.type === 'Fee')
       .reduce((sum, t) => sum + parseNum(t.amount), 0);
-    const totalBudget = budgets.reduce((sum, b) => sum + parseNum(b.limit), 0);
+    const totalBudget = budgets.reduce((sum, b) => sum + b.effectiveLimit, 0);
     const totalBudgetSpent = budgets.reduce((sum, b) => sum + parseNum(b.spent), 0);
     const totalPayroll = payroll.reduce((sum, p) => sum + parseNum(p.netPay), 0);
     const totalBillsPaid = bills.filter(b => b.status === 'Paid').reduce((sum, b) => sum + parseNum(b.amount), 0);
@@ -357,7 +358,7 @@ router.get("/analytics/insights", requireAuth, async (req, res) => {
     const [expenses, transactions, budgets, bills, invoicesList, payroll, vendorsList, walletsList] = await Promise.all([
       storage.getExpenses(insightsCompanyId),
       storage.getTransactions(insightsCompanyId),
-      storage.getBudgets(insightsCompanyId),
+      refreshCompanyBudgets(insightsCompanyId),
       storage.getBills(insightsCompanyId),
       storage.getInvoices(),
       storage.getPayroll(insightsCompanyId),
@@ -408,7 +409,7 @@ router.get("/analytics/insights", requireAuth, async (req, res) => {
       });
     }
 
-    const overBudget = budgets.filter(b => parseNum(b.spent) > parseNum(b.limit));
+    const overBudget = budgets.filter(b => parseNum(b.spent) > b.effectiveLimit);
     if (overBudget.length > 0) {
       insights.push({
         title: `${overBudget.length} Budget${overBudget.length > 1 ? 's' : ''} Exceeded`,
@@ -422,13 +423,13 @@ router.get("/analytics/insights", requireAuth, async (req, res) => {
     }
 
     const nearBudget = budgets.filter(b => {
-      const pct = parseNum(b.spent) / parseNum(b.limit);
+      const pct = b.utilization / 100;
       return pct >= 0.8 && pct < 1;
     });
     if (nearBudget.length > 0) {
       insights.push({
         title: `${nearBudget.length} Budget${nearBudget.length > 1 ? 's' : ''} Near Limit`,
-        summary: `${nearBudget.map(b => `${b.name} (${Math.round((parseNum(b.spent)/parseNum(b.limit))*100)}%)`).join(', ')} approaching budget cap.`,
+        summary: `${nearBudget.map(b => `${b.name} (${Math.round(b.utilization)}%)`).join(', ')} approaching budget cap.`,
         category: 'budget',
         severity: 'warning',
         recommendation: 'Monitor spending closely or request budget increases before month-end.',
@@ -0,0 +1,92 @@
+import express from "express";
+import { storage } from "../storage";
+import { requireAuth, requireAdmin, requirePin } from "../middleware/auth";
+import {
+  param,
+  resolveUserCompany,
+  logAudit,
+  getAuditUserName,
+  apiKeySchema,
+} from "./shared";
+import { API_KEY_PERMISSIONS, API_KEY_ROUTES, apiKeyPreview, generateApiKey } from "../lib/api-keys";
+import type { ApiKey } from "@shared/schema";
+
+const router = express.Router();
+
+// ==================== API KEYS ====================
+// Keys a company issues so its own systems can call the API without a
+// login. The key itself is returned once, when it is created.
+
+function apiKeyView(key: ApiKey) {
+  const { keyHash, ...rest } = key;
+  return { ...rest, keyPreview: apiKeyPreview(key.prefix) };
+}
+
+router.get("/api-keys/permissions", requireAuth, requireAdmin, (_req, res) => {
+  res.json({ permissions: API_KEY_PERMISSIONS, routes: API_KEY_ROUTES });
+});
+
+router.get("/api-keys", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    res.json((await storage.getApiKeys(company.companyId)).map(apiKeyView));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch API keys" });
+  }
+});
+
+router.post("/api-keys", requireAuth, requireAdmin, requirePin, async (req, res) => {
+  try {
+    const parsed = apiKeySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid API key", details: parsed.error.issues });
+    }
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const userId = (req as any).user?.uid || 'system';
+    const { key, prefix, keyHash } = generateApiKey();
+    const { expiresInDays } = parsed.data;
+    const created = await storage.createApiKey({
+      companyId: company.companyId,
+      name: parsed.data.name,
+      prefix,
+      keyHash,
+      permissions: parsed.data.permissions,
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString() : null,
+      createdBy: userId,
+    });
+    await logAudit('api_key', created.id, 'create', userId, await getAuditUserName(req),
+      undefined, { name: created.name, prefix: created.prefix, permissions: created.permissions, expiresAt: created.expiresAt }
+    );
+    res.status(201).json({ ...apiKeyView(created), key });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to create API key" });
+  }
+});
+
+router.delete("/api-keys/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const userId = (req as any).user?.uid || 'system';
+    const revoked = await storage.revokeApiKey(param(req.params.id), company.companyId, userId);
+    if (!revoked) {
+      return res.status(404).json({ error: "API key not found" });
+    }
+    await logAudit('api_key', revoked.id, 'revoke', userId, await getAuditUserName(req),
+      { name: revoked.name, prefix: revoked.prefix }, { revokedAt: revoked.revokedAt }
+    );
+    res.json(apiKeyView(revoked));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to revoke API key" });
+  }
+});
+
+export default router;
@@ -0,0 +1,208 @@
+import express from "express";
+import { storage } from "../storage";
+import { requireAuth, requireAdmin } from "../middleware/auth";
+import {
+  param,
+  resolveUserCompany,
+  verifyCompanyAccess,
+  logAudit,
+  getAuditUserName,
+  approvalPolicySchema,
+  approvalPolicyUpdateSchema,
+} from "./shared";
+import { APPROVAL_ENTITY_TYPES, nextPendingStep, type ApprovalEntityType, type ApprovalStepState } from "../lib/approval-policy";
+import {
+  billApprovalContext,
+  expenseApprovalContext,
+  payoutApprovalContext,
+  purchaseOrderApprovalContext,
+  planApprovalChainFor,
+  type ApprovalContext,
+} from "../approvalChains";
+import type { ApprovalPolicyStepDef, ApprovalPolicyConditions } from "@shared/schema";
+
+const router = express.Router();
+
+// ==================== APPROVAL POLICIES ====================
+// Company-defined rules that decide who approves an expense, bill or
+// payout. Editing a policy only affects entities submitted afterwards;
+// chains already planned are stored per entity.
+
+// Member and department ids in a policy must belong to the company.
+async function policyReferenceError(
+  companyId: string,
+  steps: ApprovalPolicyStepDef[] | undefined,
+  conditions: ApprovalPolicyConditions | undefined,
+): Promise<string | null> {
+  const [members, departments] = await Promise.all([
+    storage.getCompanyMembers(companyId),
+    storage.getDepartments(companyId),
+  ]);
+  const memberIds = new Set(members.map((m) => m.id));
+  const departmentIds = new Set(departments.map((d) => d.id));
+
+  for (const step of steps ?? []) {
+    const approver = step.approver;
+    if (approver.type === 'member' && !memberIds.has(approver.memberId)) {
+      return `Unknown approver member ${approver.memberId}`;
+    }
+    if (approver.type === 'department_head' && approver.departmentId && !departmentIds.has(approver.departmentId)) {
+      return `Unknown department ${approver.departmentId}`;
+    }
+  }
+  const unknownDept = (conditions?.departmentIds ?? []).find((id) => !departmentIds.has(id));
+  return unknownDept ? `Unknown department ${unknownDept}` : null;
+}
+
+router.get("/approval-policies", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    res.json(await storage.getApprovalPolicies(company.companyId));
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to fetch approval policies" });
+  }
+});
+
+router.post("/approval-policies", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const parsed = approvalPolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid approval policy", details: parsed.error.issues });
+    }
+    const referenceError = await policyReferenceError(company.companyId, parsed.data.steps, parsed.data.conditions);
+    if (referenceError) {
+      return res.status(400).json({ error: referenceError });
+    }
+
+    const userId = (req as any).user?.uid || 'unknown';
+    const policy = await storage.createApprovalPolicy({
+      ...parsed.data,
+      companyId: company.companyId,
+      createdBy: userId,
+    });
+
+    await logAudit('approval_policy', policy.id, 'created', userId, await getAuditUserName(req),
+      null,
+      policy,
+      { name: policy.name }
+    );
+
+    res.status(201).json(policy);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to create approval policy" });
+  }
+});
+
+router.patch("/approval-policies/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const existing = await storage.getApprovalPolicy(param(req.params.id));
+    if (!existing || existing.companyId !== company.companyId) {
+      return res.status(404).json({ error: "Approval policy not found" });
+    }
+    const parsed = approvalPolicyUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid approval policy", details: parsed.error.issues });
+    }
+    const referenceError = await policyReferenceError(company.companyId, parsed.data.steps, parsed.data.conditions);
+    if (referenceError) {
+      return res.status(400).json({ error: referenceError });
+    }
+
+    const policy = await storage.updateApprovalPolicy(existing.id, parsed.data);
+
+    await logAudit('approval_policy', existing.id, 'updated', (req as any).user?.uid || 'unknown', await getAuditUserName(req),
+      existing,
+      policy,
+      { name: policy?.name ?? existing.name }
+    );
+
+    res.json(policy);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to update approval policy" });
+  }
+});
+
+router.delete("/approval-policies/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const existing = await storage.getApprovalPolicy(param(req.params.id));
+    if (!existing || existing.companyId !== company.companyId) {
+      return res.status(404).json({ error: "Approval policy not found" });
+    }
+
+    await storage.deleteApprovalPolicy(existing.id);
+
+    await logAudit('approval_policy', existing.id, 'deleted', (req as any).user?.uid || 'unknown', await getAuditUserName(req),
+      existing,
+      null,
+      { name: existing.name }
+    );
+
+    res.status(204).send();
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to delete approval policy" });
+  }
+});
+
+// ==================== APPROVAL CHAINS ====================
+
+async function loadApprovalContext(entityType: ApprovalEntityType, entityId: string): Promise<ApprovalContext | null> {
+  if (entityType === 'expense') {
+    const expense = await storage.getExpense(entityId);
+    return expense ? expenseApprovalContext(expense) : null;
+  }
+  if (entityType === 'bill') {
+    const bill = await storage.getBill(entityId);
+    return bill ? billApprovalContext(bill) : null;
+  }
+  if (entityType === 'purchase_order') {
+    const po = await storage.getPurchaseOrder(entityId);
+    return po ? purchaseOrderApprovalContext(po) : null;
+  }
+  const payout = await storage.getPayout(entityId);
+  return payout ? payoutApprovalContext(payout) : null;
+}
+
+// The stored chain for an entity, or — before it has been submitted for
+// approval — a preview of the chain the current policies would plan.
+router.get("/approvals/:entityType/:entityId", requireAuth, async (req, res) => {
+  try {
+    const entityType = param(req.params.entityType) as ApprovalEntityType;
+    if (!APPROVAL_ENTITY_TYPES.includes(entityType)) {
+      return res.status(400).json({ error: `entityType must be one of ${APPROVAL_ENTITY_TYPES.join(', ')}` });
+    }
+    const company = await resolveUserCompany(req);
+    const ctx = await loadApprovalContext(entityType, param(req.params.entityId));
+    if (!ctx) {
+      return res.status(404).json({ error: "Not found" });
+    }
+    if (company && !await verifyCompanyAccess(ctx.companyId, company.companyId)) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const steps = await storage.getApprovalSteps(entityType, ctx.entityId);
+    if (steps.length > 0) {
+      return res.json({ planned: true, steps, nextStep: nextPendingStep(steps as ApprovalStepState[]) });
+    }
+    const preview = await planApprovalChainFor(ctx.companyId, ctx.subject, ctx.submittedBy);
+    res.json({ planned: false, steps: preview, nextStep: preview[0] ?? null });
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to fetch approval chain" });
+  }
+});
+
+export default router;
@@ -2,6 +2,7 @@ import express from "express";
 import { storage } from "../storage";
 import { requireAuth, requireAdmin, requirePin } from "../middleware/auth";
 import { financialLimiter } from "../middleware/rateLimiter";
+import { idempotency } from "../middleware/idempotency";
 import { paymentService } from "../paymentService";
 import {
   validateAmount,
@@ -22,16 +23,44 @@ router.get("/balances", requireAuth, async (req, res) => {
   }
 });
 
+// Sets usd and/or local to the amounts given. Each change is posted as an
+// adjustment against opening balance equity, so the ledger stays in step.
 router.patch("/balances", requireAuth, requireAdmin, async (req, res) => {
   try {
-    const balances = await storage.updateBalances(req.body);
+    const company = await resolveUserCompany(req);
+    const current = await storage.getBalances(company?.companyId);
+    const targets: Array<{ field: 'usd' | 'local'; amount: number }> = [];
+    for (const field of ['usd', 'local'] as const) {
+      if (req.body?.[field] === undefined) continue;
+      const amount = parseFloat(String(req.body[field]));
+      if (!Number.isFinite(amount) || amount < 0) {
+        return res.status(400).json({ error: `${field} must be a non-negative amount` });
+      }
+      targets.push({ field, amount });
+    }
+
+    let balances = current;
+    for (const { field, amount } of targets) {
+      const change = Math.round((amount - parseFloat(String(current[field] || 0))) * 100) / 100;
+      if (change === 0) continue;
+      balances = await storage.atomicCompanyBalanceMovement({
+        companyId: company?.companyId,
+        field,
+        direction: change > 0 ? 'credit' : 'debit',
+        amount: Math.abs(change),
+        currency: field === 'usd' ? 'USD' : current.localCurrency,
+        counterAccount: 'opening_balance',
+        description: 'Balance adjustment',
+        sourceType: 'balance_adjustment',
+      });
+    }
     res.json(balances);
   } catch (error) {
     res.status(500).json({ error: "Failed to update balances" });
   }
 });
 
-router.post("/balances/fund", financialLimiter, requireAuth, requirePin, async (req, res) => {
+router.post("/balances/fund", financialLimiter, requireAuth, requirePin, idempotency, async (req, res) => {
   try {
     const { amount, reference, provider } = req.body;
     const amountCheck = validateAmount(amount);
@@ -56,13 +85,23 @@ router.post("/balances/fund", financialLimiter, requireAuth, requirePin, async (
     }
 
     const fundCompany = await resolveUserCompany(req);
-    const currentBalances = await storage.getBalances();
-    const currentLocal = parseFloat(String(currentBalances?.local || 0));
-    const newLocal = currentLocal + parsedAmount;
+    const currentBalances = await storage.getBalances(fundCompany?.companyId);
 
     const settings = await getSettingsForRequest(req);
     const currency = settings.currency || 'USD';
 
+    const updatedBalances = await storage.atomicCompanyBalanceMovement({
+      companyId: fundCompany?.companyId,
+      field: 'local',
+      direction: 'credit',
+      amount: parsedAmount,
+      currency: currentBalances.localCurrency,
+      counterAccount: 'funding_clearing',
+      description: "Wallet Funding",
+      sourceType: 'wallet_funding',
+      reference,
+    });
+
     await storage.createTransaction({
       type: "funding",
       amount: String(parsedAmount),
@@ -76,8 +115,6 @@ router.post("/balances/fund", financialLimiter, requireAuth, requirePin, async (
       companyId: fundCompany?.companyId ?? null,
     });
 
-    const updatedBalances = await storage.updateBalances({ local: String(newLocal) });
-
     try {
       const auditName = await getAuditUserName(req);
       await storage.createAuditLog({
@@ -86,7 +123,7 @@ router.post("/balances/fund", financialLimiter, requireAuth, requirePin, async (
         userName: auditName,
         entityType: 'wallet',
         entityId: 'company-balance',
-        details: { amount: parsedAmount, currency, newBalance: newLocal },
+        details: { amount: parsedAmount, currency, newBalance: parseFloat(String(updatedBalances.local)) },
         ipAddress: req.ip || '',
         userAgent: req.headers['user-agent'] || '',
         createdAt: new Date().toISOString(),
@@ -99,7 +136,7 @@ router.post("/balances/fund", financialLimiter, requireAuth, requirePin, async (
   }
 });
 
-router.post("/balances/withdraw", financialLimiter, requireAuth, requirePin, async (req, res) => {
+router.post("/balances/withdraw", financialLimiter, requireAuth, requirePin, idempotency, async (req, res) => {
   try {
     const { amount } = req.body;
     const amountCheck = validateAmount(amount);
@@ -109,18 +146,27 @@ router.post("/balances/withdraw", financialLimiter, requireAuth, requirePin, asy
     const parsedAmount = amountCheck.parsed;
 
     const withdrawCompany = await resolveUserCompany(req);
-    const currentBalances = await storage.getBalances();
+    const currentBalances = await storage.getBalances(withdrawCompany?.companyId);
     const currentLocal = parseFloat(String(currentBalances?.local || 0));
 
     if (parsedAmount > currentLocal) {
       return res.status(400).json({ error: "Insufficient funds" });
     }
 
-    const newLocal = currentLocal - parsedAmount;
-
     const settings = await getSettingsForRequest(req);
     const currency = settings.currency || 'USD';
 
+    const updatedBalances = await storage.atomicCompanyBalanceMovement({
+      companyId: withdrawCompany?.companyId,
+      field: 'local',
+      direction: 'debit',
+      amount: parsedAmount,
+      currency: currentBalances.localCurrency,
+      counterAccount: 'payout_clearing',
+      description: "Wallet Withdrawal",
+      sourceType: 'wallet_withdrawal',
+    });
+
     await storage.createTransaction({
       type: "payout",
       amount: String(parsedAmount),
@@ -134,8 +180,6 @@ router.post("/balances/withdraw", financialLimiter, requireAuth, requirePin, asy
       companyId: withdrawCompany?.companyId ?? null,
     });
 
-    const updatedBalances = await storage.updateBalances({ local: String(newLocal) });
-
     try {
       const auditName = await getAuditUserName(req);
       await storage.createAuditLog({
@@ -144,7 +188,7 @@ router.post("/balances/withdraw", financialLimiter, requireAuth, requirePin, asy
         userName: auditName,
         entityType: 'wallet',
         entityId: 'company-balance',
-        details: { amount: parsedAmount, currency, newBalance: newLocal },
+        details: { amount: parsedAmount, currency, newBalance: parseFloat(String(updatedBalances.local)) },
         ipAddress: req.ip || '',
         userAgent: req.headers['user-agent'] || '',
         createdAt: new Date().toISOString(),
@@ -171,18 +215,27 @@ router.post("/balances/send", financialLimiter, requireAuth, requirePin, async (
     }
 
     const sendCompany = await resolveUserCompany(req);
-    const currentBalances = await storage.getBalances();
+    const currentBalances = await storage.getBalances(sendCompany?.companyId);
     const currentLocal = parseFloat(String(currentBalances?.local || 0));
 
     if (parsedAmount > currentLocal) {
       return res.status(400).json({ error: "Insufficient funds" });
     }
 
-    const newLocal = currentLocal - parsedAmount;
-
     const settings = await getSettingsForRequest(req);
     const currency = settings.currency || 'USD';
 
+    const updatedBalances = await storage.atomicCompanyBalanceMovement({
+      companyId: sendCompany?.companyId,
+      field: 'local',
+      direction: 'debit',
+      amount: parsedAmount,
+      currency: currentBalances.localCurrency,
+      counterAccount: 'payout_clearing',
+      description: `Payment to ${recipient}${note ? ` - ${note}` : ''}`,
+      sourceType: 'wallet_send',
+    });
+
     await storage.createTransaction({
       type: "payout",
       amount: String(parsedAmount),
@@ -195,8 +248,6 @@ router.post("/balances/send", financialLimiter, requireAuth, requirePin, async (
       userId: (req as any).user?.uid || null,
       companyId: sendCompany?.companyId ?? null,
     });
-
-    const updatedBalances = await storage.updateBalances({ local: String(newLocal) });
     res.json(updatedBalances);
   } catch (error) {
     res.status(500).json({ error: "Failed to send money" });
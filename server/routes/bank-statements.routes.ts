@@ -0,0 +1,495 @@
+import express from "express";
+import { storage } from "../storage";
+import { requireAuth, requireAdmin } from "../middleware/auth";
+import {
+  param,
+  resolveUserCompany,
+  logAudit,
+  getAuditUserName,
+  statementUpload,
+  bankStatementImportSchema,
+  bankStatementMatchSchema,
+  bankStatementConvertSchema,
+} from "./shared";
+import { parseStatement, statementLineKeys, StatementParseError } from "../lib/bank-statement";
+import {
+  suggestMatches,
+  candidateKey,
+  type MatchCandidate,
+  type StatementLineRef,
+} from "../lib/statement-matching";
+import type { BankStatementLine } from "@shared/schema";
+
+const router = express.Router();
+
+// ==================== BANK STATEMENTS ====================
+// Statement import for money held outside Spendly, with suggested
+// matches against transactions, paid bills, invoices and payouts.
+// Reconciliation is a finance task, so admin only.
+
+const OPEN_STATUSES = ['unmatched', 'suggested'];
+
+// Transaction types that bring money into the company; everything else
+// leaves it. Stored types are mixed case ("Deposit").
+const INFLOW_TRANSACTION_TYPES = new Set([
+  'deposit', 'funding', 'refund', 'wallet_deposit', 'wallet_transfer_in', 'invoice_payment',
+]);
+
+// Bank settlement lags the record by a few days.
+const SETTLEMENT_DAYS = 3;
+
+function addDays(date: string, days: number): string {
+  const d = new Date(date.slice(0, 10) + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// Every record that could appear on a statement and is not already
+// backing a line.
+async function loadMatchCandidates(companyId: string): Promise<MatchCandidate[]> {
+  const [transactions, bills, invoices, payouts, taken] = await Promise.all([
+    storage.getTransactions(companyId, { limit: 500 }),
+    storage.getBills(companyId),
+    storage.getInvoices(companyId),
+    storage.getPayouts({ companyId }),
+    storage.getMatchedStatementTargets(companyId),
+  ]);
+  const candidates: MatchCandidate[] = [];
+
+  for (const t of transactions) {
+    if (t.status === 'failed' || t.status === 'reversed') continue;
+    const amount = parseFloat(t.amount);
+    candidates.push({
+      type: 'transaction',
+      id: t.id,
+      amount: INFLOW_TRANSACTION_TYPES.has(t.type.toLowerCase()) ? amount : -amount,
+      currency: t.currency,
+      earliestDate: t.date,
+      latestDate: addDays(t.date, SETTLEMENT_DAYS),
+      reference: t.reference,
+      label: t.description,
+    });
+  }
+  for (const b of bills) {
+    if (b.status !== 'paid' || !b.paidDate) continue;
+    candidates.push({
+      type: 'bill',
+      id: b.id,
+      amount: -parseFloat(b.paidAmount ?? b.amount),
+      currency: b.currency,
+      earliestDate: b.paidDate,
+      latestDate: addDays(b.paidDate, SETTLEMENT_DAYS),
+      reference: b.paymentReference,
+      label: `${b.name} — ${b.provider}`,
+    });
+  }
+  // Invoice payment dates are not persisted, so an invoice may be paid
+  // any time between issue and due date.
+  for (const i of invoices) {
+    if (i.deletedAt || i.status === 'draft' || i.status === 'cancelled') continue;
+    candidates.push({
+      type: 'invoice',
+      id: i.id,
+      amount: parseFloat(i.amount),
+      currency: i.currency,
+      earliestDate: i.issuedDate,
+      latestDate: i.dueDate > i.issuedDate ? i.dueDate : i.issuedDate,
+      reference: i.invoiceNumber,
+      label: `${i.invoiceNumber} ${i.client}`,
+    });
+  }
+  for (const p of payouts) {
+    if (p.status !== 'processing' && p.status !== 'completed') continue;
+    const sent = p.processedAt ?? p.approvedAt ?? p.createdAt;
+    candidates.push({
+      type: 'payout',
+      id: p.id,
+      amount: -parseFloat(p.amount),
+      currency: p.currency,
+      earliestDate: sent,
+      latestDate: addDays(sent, SETTLEMENT_DAYS),
+      reference: p.providerReference,
+      label: `Payout to ${p.recipientName ?? p.recipientType}`,
+    });
+  }
+
+  return candidates.filter((c) => !taken.has(candidateKey(c)));
+}
+
+function lineRef(line: BankStatementLine): StatementLineRef {
+  return {
+    id: line.id,
+    date: line.date,
+    amount: parseFloat(line.amount),
+    currency: line.currency,
+    description: line.description,
+    reference: line.reference,
+  };
+}
+
+// Store suggestions on open lines and confirm the clear-cut ones.
+async function matchOpenLines(companyId: string, lines: BankStatementLine[]): Promise<{ matched: number; suggested: number }> {
+  const open = lines.filter((l) => OPEN_STATUSES.includes(l.status));
+  if (open.length === 0) return { matched: 0, suggested: 0 };
+
+  const results = suggestMatches(open.map(lineRef), await loadMatchCandidates(companyId));
+  let matched = 0;
+  let suggested = 0;
+  for (const result of results) {
+    const auto = result.autoMatch;
+    try {
+      const updated = await storage.resolveBankStatementLine(result.lineId, OPEN_STATUSES, auto
+        ? { status: 'matched', matchType: auto.type, matchId: auto.id, matchScore: auto.score, suggestions: result.suggestions, resolvedBy: 'auto', resolvedAt: new Date().toISOString() }
+        : { status: result.suggestions.length > 0 ? 'suggested' : 'unmatched', suggestions: result.suggestions });
+      if (updated?.status === 'matched') matched++;
+      else if (updated?.status === 'suggested') suggested++;
+    } catch (error: any) {
+      // Another line took the record since the candidates were loaded;
+      // leave this one for review.
+      if (error?.message !== 'STATEMENT_MATCH_TAKEN') throw error;
+      await storage.resolveBankStatementLine(result.lineId, OPEN_STATUSES, { status: 'suggested', suggestions: result.suggestions });
+      suggested++;
+    }
+  }
+  return { matched, suggested };
+}
+
+// Multer errors (type, size) are the caller's fault, not a 500.
+function statementFile(req: express.Request, res: express.Response, next: express.NextFunction) {
+  statementUpload.single('statement')(req, res, (err: any) => {
+    if (err) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        return res.status(400).json({ error: "Statement exceeds the 5MB limit" });
+      }
+      return res.status(400).json({ error: err.message || "Failed to upload statement" });
+    }
+    next();
+  });
+}
+
+router.get("/bank-statements/imports", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    res.json(await storage.getBankStatementImports(company.companyId));
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to fetch statement imports" });
+  }
+});
+
+router.post("/bank-statements/imports", requireAuth, requireAdmin, statementFile, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const parsed = bankStatementImportSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid statement import", details: parsed.error.issues });
+    }
+    const content = req.file ? req.file.buffer.toString('utf8') : parsed.data.content;
+    const fileName = req.file?.originalname ?? parsed.data.fileName ?? 'statement';
+    if (!content?.trim()) {
+      return res.status(400).json({ error: "No statement uploaded" });
+    }
+
+    let statement;
+    try {
+      statement = parseStatement(content, fileName, { format: parsed.data.format, dayFirst: parsed.data.dayFirst });
+    } catch (error: any) {
+      if (error instanceof StatementParseError) {
+        return res.status(400).json({ error: error.message });
+      }
+      throw error;
+    }
+    if (statement.lines.length === 0) {
+      return res.status(400).json({ error: "The statement has no transactions" });
+    }
+
+    const companyRecord = await storage.getCompany(company.companyId);
+    const currency = (statement.currency ?? parsed.data.currency ?? companyRecord?.currency ?? 'USD').toUpperCase();
+    const dates = statement.lines.map((l) => l.date).sort();
+    const keys = statementLineKeys(statement.lines, statement.accountIdentifier);
+    const userId = (req as any).user?.uid || 'unknown';
+    const userName = await getAuditUserName(req);
+
+    const { import: imp, lines } = await storage.createBankStatementImport({
+      companyId: company.companyId,
+      fileName,
+      format: statement.format,
+      accountIdentifier: statement.accountIdentifier,
+      currency,
+      statementStart: dates[0],
+      statementEnd: dates[dates.length - 1],
+      importedBy: userId,
+      importedByName: userName,
+    }, statement.lines.map((l, i) => ({
+      lineIndex: i,
+      date: l.date,
+      amount: l.amount.toFixed(2),
+      currency,
+      description: l.description || '(no description)',
+      reference: l.reference,
+      counterparty: l.counterparty,
+      bankTransactionId: l.bankTransactionId,
+      dedupeKey: keys[i],
+    })));
+
+    const { matched, suggested } = await matchOpenLines(company.companyId, lines);
+
+    await logAudit('bank_statement_import', imp.id, 'created', userId, userName,
+      null,
+      null,
+      { fileName, format: statement.format, lineCount: imp.lineCount, duplicateCount: imp.duplicateCount, matched }
+    );
+
+    res.status(201).json({ import: imp, matched, suggested, unmatched: lines.length - matched - suggested });
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to import bank statement" });
+  }
+});
+
+// ?status=unmatched,suggested filters; ?importId= limits to one file.
+router.get("/bank-statements/lines", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const statuses = typeof req.query.status === 'string' ? req.query.status.split(',').filter(Boolean) : undefined;
+    const importId = typeof req.query.importId === 'string' ? req.query.importId : undefined;
+    res.json(await storage.getBankStatementLines(company.companyId, { importId, statuses }));
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to fetch statement lines" });
+  }
+});
+
+// Re-run matching for every open line — after recording the bill
+// payments or payouts a statement was waiting on.
+router.post("/bank-statements/rematch", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const open = await storage.getBankStatementLines(company.companyId, { statuses: OPEN_STATUSES });
+    const result = await matchOpenLines(company.companyId, open);
+    res.json({ ...result, unmatched: open.length - result.matched - result.suggested });
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to match statement lines" });
+  }
+});
+
+async function companyLine(req: express.Request): Promise<{ line: BankStatementLine; companyId: string } | null> {
+  const company = await resolveUserCompany(req);
+  const line = await storage.getBankStatementLine(param(req.params.id));
+  if (!line || !company || line.companyId !== company.companyId) return null;
+  return { line, companyId: company.companyId };
+}
+
+// Confirm a match — one of the suggestions, or any record the admin
+// picked by hand, as long as the amounts agree.
+router.post("/bank-statements/lines/:id/match", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const found = await companyLine(req);
+    if (!found) {
+      return res.status(404).json({ error: "Statement line not found" });
+    }
+    const parsed = bankStatementMatchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid match", details: parsed.error.issues });
+    }
+    const { line, companyId } = found;
+    if (!OPEN_STATUSES.includes(line.status)) {
+      return res.status(400).json({ error: `Line is already ${line.status}` });
+    }
+
+    const candidate = (await loadMatchCandidates(companyId))
+      .find((c) => c.type === parsed.data.type && c.id === parsed.data.id);
+    if (!candidate) {
+      return res.status(404).json({ error: "Record not found or already matched to another line" });
+    }
+    if (Math.round(candidate.amount * 100) !== Math.round(parseFloat(line.amount) * 100)) {
+      return res.status(400).json({ error: "Amount does not match the statement line" });
+    }
+
+    const userId = (req as any).user?.uid || 'unknown';
+    const suggestion = line.suggestions.find((s) => s.type === candidate.type && s.id === candidate.id);
+    const updated = await storage.resolveBankStatementLine(line.id, OPEN_STATUSES, {
+      status: 'matched',
+      matchType: candidate.type,
+      matchId: candidate.id,
+      matchScore: suggestion?.score ?? null,
+      resolvedBy: userId,
+      resolvedAt: new Date().toISOString(),
+    });
+    if (!updated) {
+      return res.status(409).json({ error: "Line was resolved by another request; refresh and try again" });
+    }
+
+    await logAudit('bank_statement_line', line.id, 'matched', userId, await getAuditUserName(req),
+      { status: line.status },
+      { status: 'matched', matchType: candidate.type, matchId: candidate.id },
+      { amount: line.amount, date: line.date }
+    );
+
+    res.json(updated);
+  } catch (error: any) {
+    if (error?.message === 'STATEMENT_MATCH_TAKEN') {
+      return res.status(409).json({ error: "That record is already matched to another statement line" });
+    }
+    res.status(500).json({ error: "Failed to match statement line" });
+  }
+});
+
+router.post("/bank-statements/lines/:id/ignore", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const found = await companyLine(req);
+    if (!found) {
+      return res.status(404).json({ error: "Statement line not found" });
+    }
+    const { line } = found;
+    const userId = (req as any).user?.uid || 'unknown';
+    const updated = await storage.resolveBankStatementLine(line.id, OPEN_STATUSES, {
+      status: 'ignored',
+      resolvedBy: userId,
+      resolvedAt: new Date().toISOString(),
+    });
+    if (!updated) {
+      return res.status(400).json({ error: `Line is already ${line.status}` });
+    }
+
+    await logAudit('bank_statement_line', line.id, 'ignored', userId, await getAuditUserName(req),
+      { status: line.status },
+      { status: 'ignored' },
+      { amount: line.amount, date: line.date, description: line.description }
+    );
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to ignore statement line" });
+  }
+});
+
+// Undo a match or an ignore. Converted lines stay converted — the
+// expense or transaction they created has to be dealt with first.
+router.post("/bank-statements/lines/:id/reopen", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const found = await companyLine(req);
+    if (!found) {
+      return res.status(404).json({ error: "Statement line not found" });
+    }
+    const { line } = found;
+    const updated = await storage.resolveBankStatementLine(line.id, ['matched', 'ignored'], {
+      status: line.suggestions.length > 0 ? 'suggested' : 'unmatched',
+      matchType: null,
+      matchId: null,
+      matchScore: null,
+      resolvedBy: null,
+      resolvedAt: null,
+    });
+    if (!updated) {
+      return res.status(400).json({ error: `A ${line.status} line cannot be reopened` });
+    }
+
+    await logAudit('bank_statement_line', line.id, 'reopened', (req as any).user?.uid || 'unknown', await getAuditUserName(req),
+      { status: line.status, matchType: line.matchType, matchId: line.matchId },
+      { status: updated.status },
+      null
+    );
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to reopen statement line" });
+  }
+});
+
+// One-click conversion of an unmatched line. Money out can become an
+// expense (already spent, so approved as it is recorded) or a
+// transaction; money in can only become a transaction.
+router.post("/bank-statements/lines/:id/convert", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const found = await companyLine(req);
+    if (!found) {
+      return res.status(404).json({ error: "Statement line not found" });
+    }
+    const parsed = bankStatementConvertSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid conversion", details: parsed.error.issues });
+    }
+    const { line, companyId } = found;
+    if (!OPEN_STATUSES.includes(line.status)) {
+      return res.status(400).json({ error: `Line is already ${line.status}` });
+    }
+    const amount = parseFloat(line.amount);
+    if (parsed.data.as === 'expense' && amount > 0) {
+      return res.status(400).json({ error: "Only money out can become an expense" });
+    }
+
+    const userId = (req as any).user?.uid || 'unknown';
+    const userName = await getAuditUserName(req);
+    const description = parsed.data.description ?? line.counterparty ?? line.description;
+    const magnitude = Math.abs(amount).toFixed(2);
+    const now = new Date().toISOString();
+
+    const result = await storage.convertBankStatementLine(line.id, parsed.data.as === 'expense'
+      ? {
+          kind: 'expense',
+          expense: {
+            merchant: description,
+            amount: magnitude,
+            currency: line.currency,
+            date: line.date,
+            category: parsed.data.category ?? 'Other',
+            status: 'APPROVED',
+            user: userName,
+            userId,
+            companyId,
+            department: 'General',
+            note: `Imported from bank statement: ${line.description}`,
+            receiptUrl: null,
+            expenseType: 'spent',
+            attachments: [],
+            taggedReviewers: [],
+            approvedBy: userId,
+            approvedAt: now,
+            vendorId: null,
+            payoutStatus: null,
+            payoutId: null,
+          },
+        }
+      : {
+          kind: 'transaction',
+          transaction: {
+            type: amount > 0 ? 'deposit' : 'withdrawal',
+            amount: magnitude,
+            fee: '0',
+            status: 'completed',
+            date: line.date,
+            description,
+            currency: line.currency,
+            userId,
+            reference: `STMT-${line.id}`,
+            companyId,
+          },
+        }, userId);
+
+    const created = result.expense ?? result.transaction!;
+    await logAudit('bank_statement_line', line.id, 'converted', userId, userName,
+      { status: line.status },
+      { status: 'converted', matchType: parsed.data.as, matchId: created.id },
+      { amount: line.amount, date: line.date }
+    );
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    if (error?.message === 'STATEMENT_LINE_RESOLVED') {
+      return res.status(409).json({ error: "Line was resolved by another request; refresh and try again" });
+    }
+    res.status(500).json({ error: "Failed to convert statement line" });
+  }
+});
+
+export default router;
@@ -7,18 +7,60 @@ import {
   verifyCompanyAccess,
   billSchema,
   billUpdateSchema,
+  billPurchaseOrderLinkSchema,
   getSettingsForRequest,
   getAuditUserName,
   logAudit,
+  budgetCheckContext,
+  auditBudgetOverride,
 } from "./shared";
 import { requireAuth, requireAdmin, requirePin } from "../middleware/auth";
 import { financialLimiter } from "../middleware/rateLimiter";
+import { idempotency } from "../middleware/idempotency";
 import { paymentService } from "../paymentService";
 import { notificationService } from "../services/notification-service";
+import { emitWebhookEvent } from "../outboundWebhooks";
 import { mapPaymentError } from "../utils/paymentUtils";
+import {
+  billApprovalContext,
+  approveNextStep,
+  approvalOutcomeResponse,
+  ensureApprovalChain,
+  isAwaitingApprovalFor,
+  requireAdminOrApprover,
+} from "../approvalChains";
+import { linkBillToPurchaseOrder, evaluateBillMatch, checkBillPayable } from "../purchaseOrders";
+import { checkBudget, type BudgetCheck } from "../budgetEnforcement";
+import type { Bill } from "@shared/schema";
 
 const router = express.Router();
 
+// Record a three-way match override the payment went ahead with.
+async function auditMatchOverride(req: express.Request, bill: Bill, check: Awaited<ReturnType<typeof checkBillPayable>>) {
+  if (!check.ok || !check.override) return;
+  await logAudit('bill', bill.id, 'match_override', (req as any).user?.uid || 'system', await getAuditUserName(req),
+    { matchStatus: bill.matchStatus },
+    { matchStatus: bill.matchStatus, matchOverrideReason: check.override.reason },
+    { purchaseOrderId: bill.purchaseOrderId, exceptions: check.override.exceptions.map((e) => e.code) }
+  );
+}
+
+// Paying a bill counts against its category's budget.
+async function checkBillBudget(req: express.Request, bill: Bill, company: { companyId: string; role: string } | null): Promise<BudgetCheck> {
+  const budgetContext = await budgetCheckContext(req, company);
+  return checkBudget(bill.companyId ?? company?.companyId, {
+    action: 'bill_payment',
+    amount: parseFloat(String(bill.amount || 0)),
+    currency: bill.currency || 'USD',
+    category: bill.category,
+    departmentId: null,
+    cardholderId: null,
+    entityId: bill.id,
+    overrideId: budgetContext.overrideId,
+    overrideReason: budgetContext.overrideReason,
+  }, budgetContext.actor);
+}
+
 // ==================== BILLS ====================
 router.get("/bills", requireAuth, async (req, res) => {
   try {
@@ -53,10 +95,16 @@ router.post("/bills", requireAuth, async (req, res) => {
     if (!result.success) {
       return res.status(400).json({ error: "Invalid bill data", details: result.error.issues });
     }
-    const { name, provider, amount, dueDate, category, recurring, frequency, userId } = result.data;
+    const { name, provider, amount, dueDate, category, recurring, frequency, userId, purchaseOrderId, goodsReceiptId, lineItems } = result.data;
+
+    const purchaseOrder = purchaseOrderId ? await storage.getPurchaseOrder(purchaseOrderId) : undefined;
+    if (purchaseOrderId && (!purchaseOrder || purchaseOrder.companyId !== company?.companyId)) {
+      return res.status(400).json({ error: "Purchase order not found" });
+    }
 
     const settings = await getSettingsForRequest(req);
-    const billCurrency = settings?.currency || 'USD';
+    // A bill against a purchase order is invoiced in the order's currency.
+    const billCurrency = purchaseOrder?.currency || settings?.currency || 'USD';
 
     const bill = await storage.createBill({
       name,
@@ -75,6 +123,15 @@ router.post("/bills", requireAuth, async (req, res) => {
       companyId: company?.companyId ?? null,
     });
 
+    // Plan the chain now so the bill waits for approval before it can be paid.
+    const approvalContext = await billApprovalContext(bill);
+    if (approvalContext) {
+      await ensureApprovalChain(approvalContext);
+    }
+
+    if (purchaseOrder) {
+      return res.status(201).json(await linkBillToPurchaseOrder(bill, purchaseOrder, { goodsReceiptId, lineItems }));
+    }
     res.status(201).json(bill);
   } catch (error) {
     res.status(500).json({ error: "Failed to create bill" });
@@ -93,10 +150,13 @@ router.patch("/bills/:id", requireAuth, async (req, res) => {
       return res.status(400).json({ error: 'Use POST /api/bills/:id/pay to pay a bill through the wallet' });
     }
 
-    const bill = await storage.updateBill(param(req.params.id), result.data as any);
+    let bill = await storage.updateBill(param(req.params.id), result.data as any);
     if (!bill) {
       return res.status(404).json({ error: "Bill not found" });
     }
+    if (result.data.amount !== undefined && bill.purchaseOrderId) {
+      bill = await evaluateBillMatch(bill);
+    }
 
     if (result.data.status?.toLowerCase() === 'paid') {
       try {
@@ -146,6 +206,121 @@ router.delete("/bills/:id", requireAuth, async (req, res) => {
   }
 });
 
+// ==================== PURCHASE ORDER MATCHING ====================
+
+// Link (or re-link) a bill to a purchase order and run the three-way match.
+router.put("/bills/:id/purchase-order", requireAuth, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    const result = billPurchaseOrderLinkSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid purchase order link", details: result.error.issues });
+    }
+    const bill = await storage.getBill(param(req.params.id));
+    if (!bill) {
+      return res.status(404).json({ error: "Bill not found" });
+    }
+    if (company && !await verifyCompanyAccess(bill.companyId, company.companyId)) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+    if (bill.status.toLowerCase() === 'paid') {
+      return res.status(400).json({ error: "Paid bills cannot be re-linked" });
+    }
+
+    const { purchaseOrderId, goodsReceiptId, lineItems } = result.data;
+    const po = await storage.getPurchaseOrder(purchaseOrderId);
+    if (!po || po.companyId !== bill.companyId) {
+      return res.status(400).json({ error: "Purchase order not found" });
+    }
+    if (goodsReceiptId) {
+      const receipt = await storage.getGoodsReceipt(goodsReceiptId);
+      if (!receipt || receipt.purchaseOrderId !== po.id) {
+        return res.status(400).json({ error: "Goods receipt does not belong to the purchase order" });
+      }
+    }
+
+    const linked = await linkBillToPurchaseOrder(bill, po, { goodsReceiptId, lineItems });
+
+    const userId = (req as any).user?.uid || 'system';
+    await logAudit('bill', bill.id, 'purchase_order_linked', userId, await getAuditUserName(req),
+      { purchaseOrderId: bill.purchaseOrderId, matchStatus: bill.matchStatus },
+      { purchaseOrderId: po.id, matchStatus: linked.matchStatus },
+      { poNumber: po.poNumber, goodsReceiptId: goodsReceiptId ?? null }
+    );
+
+    res.json(linked);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to link bill to purchase order" });
+  }
+});
+
+router.delete("/bills/:id/purchase-order", requireAuth, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    const bill = await storage.getBill(param(req.params.id));
+    if (!bill) {
+      return res.status(404).json({ error: "Bill not found" });
+    }
+    if (company && !await verifyCompanyAccess(bill.companyId, company.companyId)) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+    if (bill.status.toLowerCase() === 'paid') {
+      return res.status(400).json({ error: "Paid bills cannot be unlinked" });
+    }
+
+    const updated = await storage.updateBill(bill.id, {
+      purchaseOrderId: null,
+      goodsReceiptId: null,
+      lineItems: null,
+      matchStatus: null,
+      matchExceptions: null,
+      matchCheckedAt: null,
+      matchOverrideBy: null,
+      matchOverrideReason: null,
+      matchOverrideAt: null,
+    });
+
+    const userId = (req as any).user?.uid || 'system';
+    await logAudit('bill', bill.id, 'purchase_order_unlinked', userId, await getAuditUserName(req),
+      { purchaseOrderId: bill.purchaseOrderId },
+      { purchaseOrderId: null },
+      {}
+    );
+
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to unlink bill from purchase order" });
+  }
+});
+
+// Re-run the match against the order's current receipts.
+router.get("/bills/:id/match", requireAuth, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    const bill = await storage.getBill(param(req.params.id));
+    if (!bill) {
+      return res.status(404).json({ error: "Bill not found" });
+    }
+    if (company && !await verifyCompanyAccess(bill.companyId, company.companyId)) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+    if (!bill.purchaseOrderId) {
+      return res.status(400).json({ error: "Bill is not linked to a purchase order" });
+    }
+    const checked = bill.status.toLowerCase() === 'paid' ? bill : await evaluateBillMatch(bill);
+    res.json({
+      matchStatus: checked.matchStatus,
+      exceptions: checked.matchExceptions ?? [],
+      checkedAt: checked.matchCheckedAt,
+      override: checked.matchOverrideAt
+        ? { by: checked.matchOverrideBy, reason: checked.matchOverrideReason, at: checked.matchOverrideAt }
+        : null,
+    });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to match bill" });
+  }
+});
+
 // ==================== BILL APPROVAL WORKFLOW ====================
 
 const billApprovalSchema = z.object({
@@ -153,7 +328,16 @@ const billApprovalSchema = z.object({
   reason: z.string().optional(),
 });
 
-router.post("/bills/:id/approve", requireAuth, requireAdmin, requirePin, async (req, res) => {
+const APPROVABLE_BILL_STATUSES = ['pending', 'overdue', 'changes_requested'];
+
+// Approval context for a bill that is still awaiting approval.
+async function pendingBillApprovalContext(req: express.Request) {
+  const bill = await storage.getBill(param(req.params.id));
+  if (!bill || !APPROVABLE_BILL_STATUSES.includes(bill.status.toLowerCase())) return null;
+  return billApprovalContext(bill);
+}
+
+router.post("/bills/:id/approve", requireAuth, requireAdminOrApprover(pendingBillApprovalContext), requirePin, async (req, res) => {
   try {
     const company = await resolveUserCompany(req);
     const bill = await storage.getBill(param(req.params.id));
@@ -164,13 +348,28 @@ router.post("/bills/:id/approve", requireAuth, requireAdmin, requirePin, async (
       return res.status(403).json({ error: "Access denied" });
     }
 
-    if (!['pending', 'overdue', 'changes_requested'].includes(bill.status.toLowerCase())) {
+    if (!APPROVABLE_BILL_STATUSES.includes(bill.status.toLowerCase())) {
       return res.status(400).json({ error: "Bill is not in a state that can be approved" });
     }
 
     const userId = (req as any).user?.uid || 'system';
     const userName = await getAuditUserName(req);
 
+    // A policy-governed bill is only approved once its whole chain has.
+    const approvalContext = await billApprovalContext(bill);
+    if (approvalContext) {
+      const outcome = await approveNextStep(approvalContext, { userId, name: userName }, req.body?.reason);
+      if (outcome.kind !== 'no_policy') {
+        await logAudit('bill', bill.id, outcome.kind === 'denied' ? 'approval_denied' : 'approval_step', userId, userName,
+          null,
+          null,
+          { outcome: outcome.kind, approvalChain: outcome.steps.map((s) => ({ label: s.label, status: s.status, actedBy: s.actedBy })) }
+        );
+      }
+      const reply = approvalOutcomeResponse(outcome);
+      if (reply) return res.status(reply.status).json(reply.body);
+    }
+
     const updatedBill = await storage.updateBill(bill.id, {
       status: 'approved',
       approvedBy: userId,
@@ -216,6 +415,7 @@ router.post("/bills/:id/reject", requireAuth, requireAdmin, requirePin, async (r
     const updatedBill = await storage.updateBill(bill.id, {
       status: 'rejected',
     });
+    await storage.clearApprovalChain('bill', bill.id);
 
     await logAudit('bill', bill.id, 'rejected', userId, userName,
       { status: bill.status },
@@ -258,6 +458,7 @@ router.post("/bills/:id/request-changes", requireAuth, requireAdmin, requirePin,
       status: 'changes_requested',
       reviewerComments: comments.trim(),
     });
+    await storage.clearApprovalChain('bill', bill.id);
 
     await logAudit('bill', bill.id, 'changes_requested', userId, userName,
       { status: bill.status },
@@ -276,16 +477,18 @@ const billPaymentSchema = z.object({
   billId: z.string().min(1),
   paymentMethod: z.enum(['wallet', 'card', 'bank']),
   countryCode: z.string().min(2).max(2).default('US'),
+  // Pays past three-way match exceptions (owners and admins only).
+  overrideReason: z.string().trim().max(500).optional(),
 });
 
-router.post("/bills/pay", financialLimiter, requireAuth, requirePin, async (req, res) => {
+router.post("/bills/pay", financialLimiter, requireAuth, requirePin, idempotency, async (req, res) => {
   try {
     const result = billPaymentSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ error: "Invalid payment data", details: result.error.issues });
     }
 
-    const { billId, paymentMethod, countryCode } = result.data;
+    const { billId, paymentMethod, countryCode, overrideReason } = result.data;
     const bill = await storage.getBill(billId);
 
     if (!bill) {
@@ -295,6 +498,24 @@ router.post("/bills/pay", financialLimiter, requireAuth, requirePin, async (req,
     if (bill.status?.toLowerCase() === 'paid') {
       return res.status(400).json({ error: "Bill already paid" });
     }
+    if (await isAwaitingApprovalFor(await billApprovalContext(bill))) {
+      return res.status(403).json({ error: "Bill is still awaiting approval" });
+    }
+    const company = await resolveUserCompany(req);
+    const matchCheck = await checkBillPayable(
+      bill,
+      { userId: (req as any).user?.uid || 'system', role: company?.role ?? null },
+      overrideReason,
+    );
+    if (!matchCheck.ok) {
+      return res.status(matchCheck.status).json(matchCheck.body);
+    }
+    await auditMatchOverride(req, bill, matchCheck);
+    const budgetCheck = await checkBillBudget(req, bill, company);
+    if (!budgetCheck.ok) {
+      return res.status(budgetCheck.status).json(budgetCheck.body);
+    }
+    await auditBudgetOverride(req, budgetCheck, 'bill', bill.id);
 
     if (paymentMethod === 'wallet') {
       const billAmount = parseFloat(String(bill.amount || 0));
@@ -324,7 +545,7 @@ router.post("/bills/pay", financialLimiter, requireAuth, requirePin, async (req,
 
       if (!deducted) {
         const balances = await storage.getBalances();
-        let balanceField: string;
+        let balanceField: 'usd' | 'local';
         if (billCurrency === 'USD') {
           balanceField = 'usd';
         } else if (billCurrency === balances.localCurrency) {
@@ -336,7 +557,19 @@ router.post("/bills/pay", financialLimiter, requireAuth, requirePin, async (req,
         if (currentBalance < billAmount) {
           return res.status(400).json({ error: "Insufficient wallet balance", available: currentBalance, required: billAmount, currency: billCurrency });
         }
-        await storage.updateBalances({ [balanceField]: String(currentBalance - billAmount) });
+        // Debit and its ledger entry commit together; the pre-check above
+        // only produces the friendly 400.
+        await storage.atomicCompanyBalanceMovement({
+          field: balanceField,
+          direction: 'debit',
+          amount: billAmount,
+          currency: billCurrency,
+          counterAccount: 'bill_expense',
+          description: `Bill payment - ${bill.name}`,
+          sourceType: 'bill',
+          sourceId: billId,
+          reference: `BILL-${billId}`,
+        });
       }
 
       await storage.updateBill(billId, { status: 'paid' });
@@ -363,6 +596,7 @@ router.post("/bills/pay", financialLimiter, requireAuth, requirePin, async (req,
           provider: bill.provider || 'Provider',
         }).catch(console.error);
       }
+      emitWebhookEvent(bill.companyId, 'bill.paid', { ...bill, status: 'paid' }).catch(console.error);
 
       res.json({ success: true, message: "Bill paid successfully from wallet" });
     } else {
@@ -387,9 +621,9 @@ router.post("/bills/pay", financialLimiter, requireAuth, requirePin, async (req,
 
 // ==================== BILL PAYMENT FROM WALLET ====================
 
-router.post("/bills/:id/pay", financialLimiter, requireAuth, requirePin, async (req, res) => {
+router.post("/bills/:id/pay", financialLimiter, requireAuth, requirePin, idempotency, async (req, res) => {
   try {
-    const { walletId } = req.body;
+    const { walletId, overrideReason } = req.body;
     const company = await resolveUserCompany(req);
 
     const bill = await storage.getBill(param(req.params.id));
@@ -402,6 +636,19 @@ router.post("/bills/:id/pay", financialLimiter, requireAuth, requirePin, async (
     if (bill.status?.toLowerCase() === 'paid') {
       return res.status(400).json({ error: "Bill already paid" });
     }
+    if (await isAwaitingApprovalFor(await billApprovalContext(bill))) {
+      return res.status(403).json({ error: "Bill is still awaiting approval" });
+    }
+    // Bills against a purchase order must match it and its receipts.
+    const matchCheck = await checkBillPayable(
+      bill,
+      { userId: (req as any).user?.uid || 'system', role: company?.role ?? null },
+      typeof overrideReason === 'string' ? overrideReason : null,
+    );
+    if (!matchCheck.ok) {
+      return res.status(matchCheck.status).json(matchCheck.body);
+    }
+    await auditMatchOverride(req, bill, matchCheck);
 
     const wallet = await storage.getWallet(walletId);
     if (!wallet) {
@@ -418,6 +665,12 @@ router.post("/bills/:id/pay", financialLimiter, requireAuth, requirePin, async (
       });
     }
 
+    const budgetCheck = await checkBillBudget(req, bill, company);
+    if (!budgetCheck.ok) {
+      return res.status(budgetCheck.status).json(budgetCheck.body);
+    }
+    await auditBudgetOverride(req, budgetCheck, 'bill', bill.id);
+
     const billAmount = parseFloat(bill.amount);
     const userId = (req as any).user?.uid || 'system';
 
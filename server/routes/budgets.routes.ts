@@ -6,17 +6,52 @@ import {
   verifyCompanyAccess,
   budgetSchema,
   budgetUpdateSchema,
+  budgetEnforcementSchema,
+  budgetOverrideDecisionSchema,
   getSettingsForRequest,
+  getAuditUserName,
+  logAudit,
 } from "./shared";
-import { requireAuth } from "../middleware/auth";
+import { requireAuth, requireAdmin, requirePin } from "../middleware/auth";
+import { notificationService } from "../services/notification-service";
+import { refreshCompanyBudgets, refreshOneBudget } from "../budgetActuals";
+import { enforcementMode, BUDGET_OVERRIDE_ROLES } from "../lib/budget-enforcement";
 
 const router = express.Router();
 
+// A budget is scoped to a department or a cardholder, not both, and
+// either must belong to the company.
+async function budgetScopeProblem(
+  companyId: string | undefined,
+  departmentId: string | null | undefined,
+  cardholderId: string | null | undefined,
+): Promise<string | null> {
+  if (departmentId && cardholderId) return "A budget can be scoped to a department or a cardholder, not both";
+  if (departmentId) {
+    const departments = await storage.getDepartments(companyId);
+    if (!departments.some((d) => d.id === departmentId)) return "Department not found";
+  }
+  if (cardholderId) {
+    const cards = await storage.getCards(companyId);
+    if (!cards.some((c) => c.stripeCardholderId === cardholderId)) return "Cardholder not found";
+  }
+  return null;
+}
+
+// Once budgets are enforced, only the people who can override them may
+// change them; otherwise raising a limit would be a way round it.
+async function budgetChangeProblem(company: { companyId: string; role: string } | null): Promise<string | null> {
+  if (!company?.companyId || BUDGET_OVERRIDE_ROLES.includes(company.role)) return null;
+  const record = await storage.getCompany(company.companyId);
+  if (enforcementMode(record?.budgetEnforcement) === 'soft') return null;
+  return "Only an owner or admin can change budgets while they are enforced";
+}
+
 // ==================== BUDGETS ====================
 router.get("/budgets", requireAuth, async (req, res) => {
   try {
     const company = await resolveUserCompany(req);
-    const budgets = await storage.getBudgets(company?.companyId);
+    const budgets = await refreshCompanyBudgets(company?.companyId);
     res.json(budgets);
   } catch (error) {
     res.status(500).json({ error: "Failed to fetch budgets" });
@@ -33,20 +68,45 @@ router.get("/budgets/:id", requireAuth, async (req, res) => {
     if (company && !await verifyCompanyAccess(budget.companyId, company.companyId)) {
       return res.status(403).json({ error: "Access denied" });
     }
-    res.json(budget);
+    res.json(await refreshOneBudget(budget));
   } catch (error) {
     res.status(500).json({ error: "Failed to fetch budget" });
   }
 });
 
+// Closed periods, newest first
+router.get("/budgets/:id/periods", requireAuth, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    const budget = await storage.getBudget(param(req.params.id));
+    if (!budget) {
+      return res.status(404).json({ error: "Budget not found" });
+    }
+    if (company && !await verifyCompanyAccess(budget.companyId, company.companyId)) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+    res.json(await storage.getBudgetPeriods(budget.id));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch budget history" });
+  }
+});
+
 router.post("/budgets", requireAuth, async (req, res) => {
   try {
     const company = await resolveUserCompany(req);
+    const changeProblem = await budgetChangeProblem(company);
+    if (changeProblem) {
+      return res.status(403).json({ error: changeProblem });
+    }
     const result = budgetSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ error: "Invalid budget data", details: result.error.issues });
     }
-    const { name, category, limit, period } = result.data;
+    const { name, category, limit, period, departmentId, cardholderId, rollover } = result.data;
+    const scopeProblem = await budgetScopeProblem(company?.companyId, departmentId, cardholderId);
+    if (scopeProblem) {
+      return res.status(400).json({ error: scopeProblem });
+    }
 
     const settings = await getSettingsForRequest(req);
     const currency = settings.currency || 'USD';
@@ -59,9 +119,12 @@ router.post("/budgets", requireAuth, async (req, res) => {
       currency,
       period: (period || 'monthly') as any,
       companyId: company?.companyId ?? null,
+      departmentId: departmentId ?? null,
+      cardholderId: cardholderId ?? null,
+      rollover: rollover ?? false,
     });
 
-    res.status(201).json(budget);
+    res.status(201).json(await refreshOneBudget(budget));
   } catch (error) {
     res.status(500).json({ error: "Failed to create budget" });
   }
@@ -81,11 +144,21 @@ router.patch("/budgets/:id", requireAuth, async (req, res) => {
     if (userCompany?.companyId && !(await verifyCompanyAccess((existing as any).companyId, userCompany.companyId))) {
       return res.status(403).json({ error: "Access denied" });
     }
+    const changeProblem = await budgetChangeProblem(userCompany);
+    if (changeProblem) {
+      return res.status(403).json({ error: changeProblem });
+    }
+    const departmentId = result.data.departmentId !== undefined ? result.data.departmentId : existing.departmentId;
+    const cardholderId = result.data.cardholderId !== undefined ? result.data.cardholderId : existing.cardholderId;
+    const scopeProblem = await budgetScopeProblem(existing.companyId ?? undefined, departmentId, cardholderId);
+    if (scopeProblem) {
+      return res.status(400).json({ error: scopeProblem });
+    }
     const budget = await storage.updateBudget(param(req.params.id), result.data as any);
     if (!budget) {
       return res.status(404).json({ error: "Budget not found" });
     }
-    res.json(budget);
+    res.json(await refreshOneBudget(budget));
   } catch (error) {
     res.status(500).json({ error: "Failed to update budget" });
   }
@@ -101,6 +174,10 @@ router.delete("/budgets/:id", requireAuth, async (req, res) => {
     if (userCompany?.companyId && !(await verifyCompanyAccess((budget as any).companyId, userCompany.companyId))) {
       return res.status(403).json({ error: "Access denied" });
     }
+    const changeProblem = await budgetChangeProblem(userCompany);
+    if (changeProblem) {
+      return res.status(403).json({ error: changeProblem });
+    }
     const deleted = await storage.deleteBudget(param(req.params.id));
     if (!deleted) {
       return res.status(404).json({ error: "Budget not found" });
@@ -111,4 +188,122 @@ router.delete("/budgets/:id", requireAuth, async (req, res) => {
   }
 });
 
+// ==================== BUDGET ENFORCEMENT ====================
+
+router.get("/budget-enforcement", requireAuth, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const record = await storage.getCompany(company.companyId);
+    res.json({ mode: enforcementMode(record?.budgetEnforcement) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch budget enforcement" });
+  }
+});
+
+router.put("/budget-enforcement", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const parsed = budgetEnforcementSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid budget enforcement", details: parsed.error.issues });
+    }
+    const previous = await storage.getCompany(company.companyId);
+    const updated = await storage.updateCompany(company.companyId, { budgetEnforcement: parsed.data.mode });
+    if (!updated) {
+      return res.status(404).json({ error: "Company not found" });
+    }
+    await logAudit('budget_enforcement', company.companyId, 'update', (req as any).user?.uid || 'system', await getAuditUserName(req),
+      { mode: enforcementMode(previous?.budgetEnforcement) },
+      { mode: parsed.data.mode }
+    );
+    res.json({ mode: enforcementMode(updated.budgetEnforcement) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to save budget enforcement" });
+  }
+});
+
+// Owners and admins see every request; anyone else only their own.
+router.get("/budget-overrides", requireAuth, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+    const requestedBy = BUDGET_OVERRIDE_ROLES.includes(company.role) ? undefined : (req as any).user?.uid;
+    res.json(await storage.getBudgetOverrides(company.companyId, { status, requestedBy }));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch budget overrides" });
+  }
+});
+
+async function decideBudgetOverride(req: express.Request, res: express.Response, status: 'approved' | 'rejected') {
+  const company = await resolveUserCompany(req);
+  if (!company?.companyId) {
+    return res.status(403).json({ error: "Company context required" });
+  }
+  const parsed = budgetOverrideDecisionSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid decision", details: parsed.error.issues });
+  }
+  const override = await storage.getBudgetOverride(param(req.params.id));
+  if (!override || override.companyId !== company.companyId) {
+    return res.status(404).json({ error: "Budget override not found" });
+  }
+  const userId = (req as any).user?.uid || 'system';
+  if (override.requestedBy === userId) {
+    return res.status(403).json({ error: "You cannot decide your own budget override" });
+  }
+
+  const userName = await getAuditUserName(req);
+  const decided = await storage.decideBudgetOverride(override.id, {
+    status,
+    decidedBy: userId,
+    decidedByName: userName,
+    decisionNote: parsed.data.note || null,
+  });
+  if (!decided) {
+    return res.status(409).json({ error: `Budget override is already ${override.status}` });
+  }
+  await logAudit('budget_override', decided.id, status === 'approved' ? 'approve' : 'reject', userId, userName,
+    { status: override.status },
+    { status: decided.status, decisionNote: decided.decisionNote },
+    { budgetId: decided.budgetId, action: decided.action, entityId: decided.entityId, amount: decided.amount }
+  );
+
+  const budget = await storage.getBudget(decided.budgetId);
+  notificationService.notifyBudgetOverrideDecided(decided.requestedBy, {
+    id: decided.id,
+    budgetName: budget?.name || 'budget',
+    amount: parseFloat(decided.amount),
+    approved: status === 'approved',
+    currency: decided.currency,
+    note: decided.decisionNote,
+  }).catch(console.error);
+
+  res.json(decided);
+}
+
+router.post("/budget-overrides/:id/approve", requireAuth, requireAdmin, requirePin, async (req, res) => {
+  try {
+    await decideBudgetOverride(req, res, 'approved');
+  } catch (error) {
+    res.status(500).json({ error: "Failed to approve budget override" });
+  }
+});
+
+router.post("/budget-overrides/:id/reject", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    await decideBudgetOverride(req, res, 'rejected');
+  } catch (error) {
+    res.status(500).json({ error: "Failed to reject budget override" });
+  }
+});
+
 export default router;
@@ -0,0 +1,215 @@
+import express from "express";
+import { storage } from "../storage";
+import { requireAuth, requireAdmin, requirePin } from "../middleware/auth";
+import {
+  param,
+  resolveUserCompany,
+  logAudit,
+  getAuditUserName,
+  cardSpendPolicySchema,
+  cardSpendPolicyUpdateSchema,
+  programCardSchema,
+  cardPolicyAssignmentSchema,
+} from "./shared";
+import { issueProgramCard } from "../cardPrograms";
+import type { InsertCardSpendPolicy } from "@shared/schema";
+import type { z } from "zod";
+
+const router = express.Router();
+
+// ==================== CARD PROGRAMS ====================
+// Cards issued to team members, each under an optional spend policy, and
+// what each member has spent on them. Policies are enforced when Stripe
+// asks us to authorize a purchase, not pushed to Stripe's own controls.
+
+async function companyId(req: express.Request, res: express.Response): Promise<string | null> {
+  const company = await resolveUserCompany(req);
+  if (!company?.companyId) {
+    res.status(403).json({ error: "Company context required" });
+    return null;
+  }
+  return company.companyId;
+}
+
+// Caps arrive as numbers and are stored as decimals; undefined leaves a
+// field unchanged on update.
+function policyValues(data: Partial<z.infer<typeof cardSpendPolicySchema>>): Partial<InsertCardSpendPolicy> {
+  const decimal = (value: number | null | undefined) => (value == null ? value : value.toFixed(2));
+  const { perTransactionLimit, dailyLimit, monthlyLimit, ...rest } = data;
+  const values: Record<string, unknown> = {
+    ...rest,
+    perTransactionLimit: decimal(perTransactionLimit),
+    dailyLimit: decimal(dailyLimit),
+    monthlyLimit: decimal(monthlyLimit),
+  };
+  for (const key of Object.keys(values)) {
+    if (values[key] === undefined) delete values[key];
+  }
+  return values as Partial<InsertCardSpendPolicy>;
+}
+
+router.get("/card-policies", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const id = await companyId(req, res);
+    if (!id) return;
+    res.json(await storage.getCardSpendPolicies(id));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch spend policies" });
+  }
+});
+
+router.post("/card-policies", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const parsed = cardSpendPolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid spend policy", details: parsed.error.issues });
+    }
+    const id = await companyId(req, res);
+    if (!id) return;
+    const userId = (req as any).user?.uid || 'system';
+    const policy = await storage.createCardSpendPolicy({
+      ...policyValues(parsed.data),
+      name: parsed.data.name,
+      companyId: id,
+      createdBy: userId,
+    } as InsertCardSpendPolicy);
+    await logAudit('card_spend_policy', policy.id, 'create', userId, await getAuditUserName(req), undefined, policy);
+    res.status(201).json(policy);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to create spend policy" });
+  }
+});
+
+// PIN required: every card under the policy gets the new controls.
+router.patch("/card-policies/:id", requireAuth, requireAdmin, requirePin, async (req, res) => {
+  try {
+    const parsed = cardSpendPolicyUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid spend policy", details: parsed.error.issues });
+    }
+    const id = await companyId(req, res);
+    if (!id) return;
+    const existing = await storage.getCardSpendPolicy(param(req.params.id), id);
+    if (!existing) {
+      return res.status(404).json({ error: "Spend policy not found" });
+    }
+    const updated = await storage.updateCardSpendPolicy(existing.id, id, policyValues(parsed.data));
+    const userId = (req as any).user?.uid || 'system';
+    await logAudit('card_spend_policy', existing.id, 'update', userId, await getAuditUserName(req), existing, updated);
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update spend policy" });
+  }
+});
+
+router.delete("/card-policies/:id", requireAuth, requireAdmin, requirePin, async (req, res) => {
+  try {
+    const id = await companyId(req, res);
+    if (!id) return;
+    const existing = await storage.getCardSpendPolicy(param(req.params.id), id);
+    if (!existing || !await storage.deleteCardSpendPolicy(existing.id, id)) {
+      return res.status(404).json({ error: "Spend policy not found" });
+    }
+    const userId = (req as any).user?.uid || 'system';
+    await logAudit('card_spend_policy', existing.id, 'delete', userId, await getAuditUserName(req), existing, undefined);
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to delete spend policy" });
+  }
+});
+
+// Company members a card can be issued to.
+router.get("/card-programs/members", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const id = await companyId(req, res);
+    if (!id) return;
+    const members = await storage.getCompanyMembers(id);
+    res.json(members
+      .filter((m) => m.status === 'active')
+      .map((m) => ({
+        id: m.id,
+        name: m.name,
+        email: m.email,
+        role: m.role,
+        department: m.department,
+        hasCardholder: !!m.stripeCardholderId,
+      })));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch team members" });
+  }
+});
+
+router.post("/card-programs/cards", requireAuth, requireAdmin, requirePin, async (req, res) => {
+  try {
+    const parsed = programCardSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid card data", details: parsed.error.issues });
+    }
+    const id = await companyId(req, res);
+    if (!id) return;
+    const result = await issueProgramCard(id, parsed.data);
+    if (!result.ok) return res.status(result.status).json(result.body);
+
+    const userId = (req as any).user?.uid || 'system';
+    await logAudit('card', result.card.id, 'issue_to_member', userId, await getAuditUserName(req), undefined, {
+      memberId: result.member.id,
+      memberEmail: result.member.email,
+      limit: result.card.limit,
+      currency: result.card.currency,
+      spendPolicyId: result.card.spendPolicyId,
+    });
+    res.status(201).json(result.card);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to issue card" });
+  }
+});
+
+// Apply a spend policy to a card, or clear it with null.
+router.put("/cards/:id/spend-policy", requireAuth, requireAdmin, requirePin, async (req, res) => {
+  try {
+    const parsed = cardPolicyAssignmentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid spend policy", details: parsed.error.issues });
+    }
+    const id = await companyId(req, res);
+    if (!id) return;
+    const card = await storage.getCard(param(req.params.id));
+    if (!card || card.companyId !== id) {
+      return res.status(404).json({ error: "Card not found" });
+    }
+    const { spendPolicyId } = parsed.data;
+    if (spendPolicyId && !await storage.getCardSpendPolicy(spendPolicyId, id)) {
+      return res.status(404).json({ error: "Spend policy not found" });
+    }
+    const updated = await storage.updateCard(card.id, { spendPolicyId });
+    const userId = (req as any).user?.uid || 'system';
+    await logAudit('card', card.id, 'apply_spend_policy', userId, await getAuditUserName(req),
+      { spendPolicyId: card.spendPolicyId }, { spendPolicyId }
+    );
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to apply spend policy" });
+  }
+});
+
+// Card spend per member, this calendar month unless ?from=&to= (dates,
+// `to` exclusive) say otherwise.
+router.get("/card-programs/spend", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const id = await companyId(req, res);
+    if (!id) return;
+    const now = new Date();
+    const isDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const from = isDate(req.query.from)
+      ? req.query.from
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString().slice(0, 10);
+    const to = isDate(req.query.to)
+      ? req.query.to
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString().slice(0, 10);
+    res.json({ from, to, members: await storage.getMemberCardSpend(id, from, to) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch card spend" });
+  }
+});
+
+export default router;
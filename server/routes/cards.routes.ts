@@ -9,6 +9,7 @@ import { paymentService } from "../paymentService";
 import { mapPaymentError, paymentLogger } from "../utils/paymentUtils";
 import { requireAuth, requirePin } from "../middleware/auth";
 import { financialLimiter, sensitiveLimiter } from "../middleware/rateLimiter";
+import { idempotency } from "../middleware/idempotency";
 import { db } from "../db";
 import {
   param,
@@ -17,7 +18,13 @@ import {
   verifyCompanyAccess,
   cardSchema,
   cardUpdateSchema,
+  budgetCheckContext,
+  auditBudgetOverride,
 } from "./shared";
+import { checkBudget } from "../budgetEnforcement";
+import { emitWebhookEvent } from "../outboundWebhooks";
+import { lockAfterApproval, maxUsesForKind, merchantLockMatches, usesRemaining } from "../lib/card-kinds";
+import { retireUsedUpCard } from "../cardKinds";
 
 const router = express.Router();
 
@@ -106,7 +113,7 @@ router.post("/cards", requireAuth, async (req, res) => {
     if (!result.success) {
       return res.status(400).json({ error: "Invalid card data", details: result.error.issues });
     }
-    const { name, limit, type, color, currency: cardCurrency } = result.data;
+    const { name, limit, type, color, currency: cardCurrency, kind, lockedMerchant } = result.data;
 
     const selectedCurrency = cardCurrency || 'USD';
 
@@ -202,12 +209,15 @@ router.post("/cards", requireAuth, async (req, res) => {
       stripeCardId,
       stripeCardholderId,
       companyId: company?.companyId,
+      kind,
+      maxUses: maxUsesForKind(kind),
+      lockedMerchantName: kind === 'merchant_locked' ? lockedMerchant ?? null : null,
     } as any);
 
     res.status(201).json({
       ...card,
       provider,
-      message: `Virtual ${cardType} card created. Fund it from your wallet to start using.`,
+      message: `Virtual ${cardType} ${kind === 'single_use' ? 'single-use card' : kind === 'merchant_locked' ? 'merchant-locked card' : 'card'} created. Fund it from your wallet to start using.`,
     });
   } catch (error) {
     res.status(500).json({ error: "Failed to create card" });
@@ -259,7 +269,7 @@ router.delete("/cards/:id", requireAuth, async (req, res) => {
 });
 
 // Fund a virtual card from wallet — ATOMIC: wallet debit + card credit in a single transaction
-router.post("/cards/:id/fund", financialLimiter, requireAuth, requirePin, async (req, res) => {
+router.post("/cards/:id/fund", financialLimiter, requireAuth, requirePin, idempotency, async (req, res) => {
   try {
     const { amount, sourceCurrency } = req.body;
     const userId = (req as any).user?.uid;
@@ -324,6 +334,24 @@ router.post("/cards/:id/fund", financialLimiter, requireAuth, requirePin, async
       });
     }
 
+    // Funding counts against the card's budget category, and any budget
+    // scoped to its cardholder.
+    const budgetContext = await budgetCheckContext(req, company);
+    const budgetCheck = await checkBudget(card.companyId ?? company?.companyId, {
+      action: 'card_funding',
+      amount: amountCheck.parsed,
+      currency: cardCurrency,
+      category: card.budgetCategory,
+      departmentId: null,
+      cardholderId: card.stripeCardholderId,
+      entityId: card.id,
+      overrideId: budgetContext.overrideId,
+      overrideReason: budgetContext.overrideReason,
+    }, budgetContext.actor);
+    if (!budgetCheck.ok) {
+      return res.status(budgetCheck.status).json(budgetCheck.body);
+    }
+
     // Mark card as pendingCardFunding to track in-flight operation
     await storage.updateCard(param(req.params.id), { status: 'pendingCardFunding' } as any);
 
@@ -380,6 +408,7 @@ router.post("/cards/:id/fund", financialLimiter, requireAuth, requirePin, async
       CHF: 'CHF', SEK: 'kr', NOK: 'kr', DKK: 'kr',
     };
     const cardSymbol = currencySymbols[cardCurrency] || cardCurrency;
+    await auditBudgetOverride(req, budgetCheck, 'card', card.id);
 
     res.json({
       success: true,
@@ -397,7 +426,7 @@ router.post("/cards/:id/fund", financialLimiter, requireAuth, requirePin, async
 });
 
 // Make a payment with virtual card
-router.post("/cards/:id/pay", requireAuth, requirePin, async (req, res) => {
+router.post("/cards/:id/pay", requireAuth, requirePin, idempotency, async (req, res) => {
   try {
     const { amount, merchant, category, description } = req.body;
     if (!amount || amount <= 0) {
@@ -419,15 +448,30 @@ router.post("/cards/:id/pay", requireAuth, requirePin, async (req, res) => {
     if (card.status !== 'active') {
       return res.status(400).json({ error: "Card is not active" });
     }
+    if (usesRemaining(card) === 0) {
+      return res.status(400).json({ error: "Card has already been used" });
+    }
+    const merchantLock = card.kind === 'merchant_locked'
+      ? { name: card.lockedMerchantName, networkId: card.lockedMerchantId }
+      : null;
+    if (merchantLock && !merchantLockMatches(merchantLock, { name: merchant, networkId: null })) {
+      return res.status(400).json({ error: `Card only spends at ${merchantLock.name}` });
+    }
 
     const cardBalance = parseFloat(card.balance);
     if (cardBalance < amount) {
       return res.status(400).json({ error: "Insufficient card balance" });
     }
 
-    // Deduct from card balance
-    const newBalance = cardBalance - amount;
-    await storage.updateCard(param(req.params.id), { balance: String(newBalance) });
+    // Deduct from card balance, using up one use and setting the lock.
+    // The checks above are repeated in the update, so a concurrent
+    // payment can't overdraw the card or use it more than maxUses times.
+    const lock = merchantLock && lockAfterApproval(merchantLock, { name: merchant, networkId: null });
+    const paidCard = await storage.spendFromCard(param(req.params.id), amount, lock?.name);
+    if (!paidCard) {
+      return res.status(409).json({ error: "The card was used or its balance changed; the payment was not made" });
+    }
+    const newBalance = parseFloat(paidCard.balance);
 
     // Create card transaction record
     const cardTx = await storage.createCardTransaction({
@@ -441,6 +485,8 @@ router.post("/cards/:id/pay", requireAuth, requirePin, async (req, res) => {
       status: 'completed',
       date: new Date().toISOString(),
     });
+    emitWebhookEvent(cardTx.companyId, 'card.transaction.created', cardTx).catch(console.error);
+    retireUsedUpCard(paidCard, 'capture').catch(console.error);
 
     // Create expense record
     await storage.createExpense({
@@ -495,6 +541,26 @@ router.get("/cards/:id/transactions", requireAuth, async (req, res) => {
   }
 });
 
+// Real-time authorization decisions (approved / declined with reason)
+router.get("/cards/:id/authorizations", requireAuth, async (req, res) => {
+  try {
+    const card = await storage.getCard(param(req.params.id));
+    if (!card) {
+      return res.status(404).json({ error: "Card not found" });
+    }
+    const company = await resolveUserCompany(req);
+    if (company && card.companyId && card.companyId !== company.companyId) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const limit = parseInt(req.query.limit as string) || 50;
+    const authorizations = await storage.getCardAuthorizations(card.id, limit);
+    res.json(authorizations);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch card authorizations" });
+  }
+});
+
 // ==================== STRIPE CARD MANAGEMENT ====================
 
 // Freeze card
@@ -594,7 +660,7 @@ router.get("/cards/:id/details", sensitiveLimiter, requireAuth, requirePin, asyn
 // Update spending controls - PIN required (changes financial limits)
 router.patch("/cards/:id/controls", requireAuth, requirePin, async (req, res) => {
   try {
-    const { spendingLimit, spendingLimitInterval, allowedCategories, blockedCategories } = req.body;
+    const { spendingLimit, spendingLimitInterval, allowedCategories, blockedCategories, budgetCategory } = req.body;
     const card = await storage.getCard(param(req.params.id));
     if (!card) {
       return res.status(404).json({ error: "Card not found" });
@@ -616,9 +682,18 @@ router.patch("/cards/:id/controls", requireAuth, requirePin, async (req, res) =>
         blockedCategories,
       });
 
-      // Update local card limit if specified
+      // Mirror the controls locally — the issuing_authorization.request
+      // webhook enforces them against our own balance and budgets.
+      const localControls: Record<string, unknown> = {};
       if (spendingLimit !== undefined) {
-        await storage.updateCard(param(req.params.id), { limit: spendingLimit });
+        localControls.limit = spendingLimit;
+        localControls.spendingLimitInterval = spendingLimitInterval || 'monthly';
+      }
+      if (allowedCategories !== undefined) localControls.allowedCategories = allowedCategories;
+      if (blockedCategories !== undefined) localControls.blockedCategories = blockedCategories;
+      if (budgetCategory !== undefined) localControls.budgetCategory = budgetCategory || null;
+      if (Object.keys(localControls).length > 0) {
+        await storage.updateCard(param(req.params.id), localControls as any);
       }
 
       const updatedCard = await storage.getCard(param(req.params.id));
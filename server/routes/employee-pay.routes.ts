@@ -0,0 +1,206 @@
+import express from "express";
+import { storage } from "../storage";
+import { requireAuth, requireAdmin, requirePin } from "../middleware/auth";
+import {
+  param,
+  resolveUserCompany,
+  logAudit,
+  getAuditUserName,
+  employeeBankDetailsSchema,
+  bankDetailsReviewSchema,
+  bankDetailsRejectionSchema,
+} from "./shared";
+import {
+  employeePayOverview,
+  employeePayslipItem,
+  taxCertificateFor,
+  submitEmployeeBankDetails,
+  reviewEmployeeBankDetails,
+  bankAccountView,
+} from "../employeePay";
+import { payslipFor } from "../payrollRuns";
+import type { EmployeeIdentity } from "../lib/employee-pay";
+
+const router = express.Router();
+
+// ==================== EMPLOYEE SELF-SERVICE PAY ====================
+// /me/pay is the signed-in team member's own payslips, year-to-date pay,
+// tax certificates and salary bank account. Bank details they enter are
+// reviewed by an admin under /payroll/bank-reviews before a run pays
+// into them. Mounted ahead of payroll.routes.ts so /payroll/bank-reviews
+// is not taken for a payroll entry id.
+
+function employeeIdentity(req: express.Request): EmployeeIdentity {
+  const user = (req as any).user;
+  return { userId: user?.uid, email: user?.email };
+}
+
+async function sendPdf(res: express.Response, fileName: string, pdf: Buffer) {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.send(pdf);
+}
+
+router.get("/me/pay", requireAuth, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const today = new Date().toISOString().slice(0, 10);
+    res.json(await employeePayOverview(company.companyId, employeeIdentity(req), today));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch your pay" });
+  }
+});
+
+router.get("/me/pay/payslips/:itemId", requireAuth, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const own = await employeePayslipItem(company.companyId, employeeIdentity(req), param(req.params.itemId));
+    if (!own) {
+      return res.status(404).json({ error: "Payslip not found" });
+    }
+    const { fileName, pdf } = payslipFor(own.run, own.item, await storage.getCompany(company.companyId));
+    await sendPdf(res, fileName, pdf);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to generate payslip" });
+  }
+});
+
+router.get("/me/pay/tax-certificates/:year", requireAuth, async (req, res) => {
+  try {
+    const year = Number(param(req.params.year));
+    if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+      return res.status(400).json({ error: "Invalid tax year" });
+    }
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const certificate = await taxCertificateFor(
+      await storage.getCompany(company.companyId), company.companyId, employeeIdentity(req), year,
+    );
+    if (!certificate) {
+      return res.status(404).json({ error: `No payslips in ${year}` });
+    }
+    await sendPdf(res, certificate.fileName, certificate.pdf);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to generate tax certificate" });
+  }
+});
+
+router.post("/me/pay/bank-accounts", requireAuth, requirePin, async (req, res) => {
+  try {
+    const parsed = employeeBankDetailsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid bank details", details: parsed.error.issues });
+    }
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const identity = employeeIdentity(req);
+    const destination = await submitEmployeeBankDetails(identity, parsed.data);
+    await logAudit('payout_destination', destination.id, 'employee-submit', identity.userId, await getAuditUserName(req),
+      undefined, { reviewStatus: destination.reviewStatus, bankName: destination.bankName },
+      { companyId: company.companyId, accountNumber: bankAccountView(destination).accountNumber }
+    );
+    res.status(201).json(bankAccountView(destination));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to save bank details" });
+  }
+});
+
+// ==================== BANK DETAIL REVIEWS ====================
+
+async function loadReview(req: express.Request, res: express.Response) {
+  const company = await resolveUserCompany(req);
+  if (!company?.companyId) {
+    res.status(403).json({ error: "Company context required" });
+    return null;
+  }
+  const destination = await storage.getPayoutDestination(param(req.params.id));
+  const members = await storage.getCompanyMembers(company.companyId);
+  if (!destination?.userId || !members.some((m) => m.userId === destination.userId)) {
+    res.status(404).json({ error: "Bank details not found" });
+    return null;
+  }
+  return { companyId: company.companyId, destination };
+}
+
+router.get("/payroll/bank-reviews", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const members = await storage.getCompanyMembers(company.companyId);
+    const pending = await storage.getPayoutDestinationsAwaitingReview(
+      members.map((m) => m.userId).filter((id): id is string => !!id),
+    );
+    res.json(pending.map((d) => {
+      const member = members.find((m) => m.userId === d.userId);
+      return {
+        ...bankAccountView(d),
+        bankCode: d.bankCode,
+        // The admin checks the full number against what the employee sent.
+        accountNumber: d.accountNumber,
+        routingNumber: d.routingNumber,
+        resolvedAccountName: (d.metadata as Record<string, unknown> | null)?.resolvedAccountName ?? null,
+        employee: { userId: d.userId, name: member?.name || member?.email, email: member?.email },
+      };
+    }));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch bank detail reviews" });
+  }
+});
+
+router.post("/payroll/bank-reviews/:id/verify", requireAuth, requireAdmin, requirePin, async (req, res) => {
+  try {
+    const parsed = bankDetailsReviewSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid review", details: parsed.error.issues });
+    }
+    const loaded = await loadReview(req, res);
+    if (!loaded) return;
+    const actor = { userId: (req as any).user?.uid || 'system', name: await getAuditUserName(req) };
+    const result = await reviewEmployeeBankDetails(loaded.companyId, loaded.destination, 'verify', actor, parsed.data.note);
+    if (!result.ok) return res.status(result.status).json(result.body);
+
+    await logAudit('payout_destination', loaded.destination.id, 'verify', actor.userId, actor.name,
+      { reviewStatus: loaded.destination.reviewStatus }, { reviewStatus: result.destination.reviewStatus },
+      { employeeUserId: loaded.destination.userId, linkedEntries: result.linkedEntries }
+    );
+    res.json({ ...bankAccountView(result.destination), linkedEntries: result.linkedEntries });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to verify bank details" });
+  }
+});
+
+router.post("/payroll/bank-reviews/:id/reject", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const parsed = bankDetailsRejectionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid review", details: parsed.error.issues });
+    }
+    const loaded = await loadReview(req, res);
+    if (!loaded) return;
+    const actor = { userId: (req as any).user?.uid || 'system', name: await getAuditUserName(req) };
+    const result = await reviewEmployeeBankDetails(loaded.companyId, loaded.destination, 'reject', actor, parsed.data.note);
+    if (!result.ok) return res.status(result.status).json(result.body);
+
+    await logAudit('payout_destination', loaded.destination.id, 'reject', actor.userId, actor.name,
+      { reviewStatus: loaded.destination.reviewStatus }, { reviewStatus: result.destination.reviewStatus, reviewNote: parsed.data.note },
+      { employeeUserId: loaded.destination.userId }
+    );
+    res.json(bankAccountView(result.destination));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to reject bank details" });
+  }
+});
+
+export default router;
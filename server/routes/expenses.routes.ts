@@ -2,7 +2,10 @@ import express from "express";
 import path from "path";
 import { storage } from "../storage";
 import { requireAuth, requireAdmin, requirePin } from "../middleware/auth";
+import { idempotency } from "../middleware/idempotency";
+import { requirePinForExpenseEdit } from "../middleware/expenseEdits";
 import { notificationService } from "../services/notification-service";
+import { emitWebhookEvent } from "../outboundWebhooks";
 import { mapPaymentError } from "../utils/paymentUtils";
 import { getPaymentProvider } from "../paymentService";
 import {
@@ -16,12 +19,47 @@ import {
   getAuditUserName,
   validateAmount,
   getSettingsForRequest,
+  budgetCheckContext,
+  auditBudgetOverride,
+  cardExpenseSubmitSchema,
 } from "./shared";
+import { scanReceiptFile } from "../services/receipt-ocr";
+import { isReceiptAmountMismatch } from "../lib/receipt-parser";
+import {
+  expenseApprovalContext,
+  approveNextStep,
+  approvalOutcomeResponse,
+  planApprovalChainFor,
+  storeApprovalChain,
+  requireAdminOrApprover,
+} from "../approvalChains";
+import { checkBudget } from "../budgetEnforcement";
+import { cardExpenseSubmitProblem, submittedCardExpenseStatus } from "../lib/card-programs";
+import { expenseEditConflict } from "../lib/expense-edits";
 
 const router = express.Router();
 
 const uploadDir = path.join(process.cwd(), "uploads");
 
+// OCR fields for an expense's receipt. Only scans uploaded within the
+// same company are trusted; anything else leaves the expense unflagged.
+async function receiptOcrFields(
+  receiptUrl: string | null | undefined,
+  amount: number,
+  currency: string,
+  companyId: string | null,
+) {
+  const scan = receiptUrl ? await storage.getReceiptScanByFileUrl(receiptUrl) : undefined;
+  if (!scan?.draft || scan.draft.total.value == null || (scan.companyId ?? null) !== companyId) {
+    return { receiptOcrAmount: null, receiptOcrCurrency: null, receiptAmountMismatch: false };
+  }
+  return {
+    receiptOcrAmount: scan.draft.total.value.toFixed(2),
+    receiptOcrCurrency: scan.draft.currency.value,
+    receiptAmountMismatch: isReceiptAmountMismatch({ amount, currency }, scan.draft),
+  };
+}
+
 // ==================== EXPENSES ====================
 
 router.get("/expenses", requireAuth, async (req, res) => {
@@ -52,6 +90,13 @@ router.get("/expenses/:id", requireAuth, async (req, res) => {
 
 router.use("/uploads", requireAuth, express.static(uploadDir));
 
+// Approval context for an expense that is still awaiting approval.
+async function pendingExpenseApprovalContext(req: express.Request) {
+  const expense = await storage.getExpense(param(req.params.id));
+  if (!expense || expense.status !== "PENDING") return null;
+  return expenseApprovalContext(expense, req.body?.vendorId);
+}
+
 router.post("/upload/receipt", requireAuth, upload.single("receipt"), async (req, res) => {
   try {
     if (!req.file) {
@@ -70,13 +115,33 @@ router.post("/upload/receipt", requireAuth, upload.single("receipt"), async (req
     }
 
     const fileUrl = `/uploads/${req.file.filename}`;
-    res.json({ success: true, url: fileUrl });
+
+    // Extract a prefilled draft. OCR failures still return the upload.
+    const company = await resolveUserCompany(req);
+    const settings = await getSettingsForRequest(req);
+    const scan = await scanReceiptFile(req.file.path, req.file.mimetype, {
+      // US receipts print month/day; elsewhere day/month is the norm.
+      dayFirst: (settings.currency || "USD") !== "USD",
+    });
+    const saved = await storage.saveReceiptScan({
+      fileUrl,
+      userId: (req as any).user?.uid || "unknown",
+      companyId: company?.companyId ?? null,
+      engine: scan.engine,
+      status: scan.status,
+      draft: scan.draft,
+      rawText: scan.rawText,
+      error: scan.error,
+      durationMs: scan.durationMs,
+    });
+
+    res.json({ success: true, url: fileUrl, scanId: saved.id, ocrStatus: scan.status, draft: scan.draft });
   } catch (error: any) {
     res.status(500).json({ error: error.message || "Failed to upload file" });
   }
 });
 
-router.post("/expenses", requireAuth, async (req, res) => {
+router.post("/expenses", requireAuth, idempotency, async (req, res) => {
   try {
     const company = await resolveUserCompany(req);
     const result = expenseSchema.safeParse(req.body);
@@ -96,17 +161,52 @@ router.post("/expenses", requireAuth, async (req, res) => {
     const currency = settings.currency || "USD";
     const autoApproveThreshold = parseFloat(settings.autoApproveBelow?.toString() || "100");
     const expenseAmount = parseFloat(amount);
+    const ocr = await receiptOcrFields(receiptUrl, expenseAmount, currency, company?.companyId ?? null);
+    const submitterId = (req as any).user?.uid || userId || "1";
+    const member = company?.companyId ? await storage.getCompanyMember(company.companyId, submitterId) : undefined;
+    const departmentId = member?.departmentId ?? null;
+
+    const budgetContext = await budgetCheckContext(req, company);
+    const budgetCheck = await checkBudget(company?.companyId, {
+      action: "expense",
+      amount: expenseAmount,
+      currency,
+      category,
+      departmentId,
+      cardholderId: null,
+      entityId: null,
+      overrideId: budgetContext.overrideId,
+      overrideReason: budgetContext.overrideReason,
+    }, budgetContext.actor);
+    if (!budgetCheck.ok) {
+      return res.status(budgetCheck.status).json(budgetCheck.body);
+    }
+
+    // A matching approval policy takes precedence over auto-approval.
+    const approvalChain = company?.companyId
+      ? await planApprovalChainFor(company.companyId, {
+          entityType: "expense",
+          amount: expenseAmount,
+          currency,
+          category,
+          departmentId,
+          vendorId: null,
+          vendorIsNew: false,
+        }, submitterId)
+      : [];
 
     // Determine status based on expense type and auto-approval threshold
     let status = "PENDING";
     let autoApproved = false;
 
-    if (expenseType === "spent") {
+    if (approvalChain.length > 0) {
+      // Routed through the company's approval policy
+    } else if (expenseType === "spent") {
       // Already spent - auto approve
       status = "APPROVED";
       autoApproved = true;
-    } else if (expenseAmount <= autoApproveThreshold) {
-      // Below auto-approve threshold
+    } else if (expenseAmount <= autoApproveThreshold && !ocr.receiptAmountMismatch) {
+      // Below auto-approve threshold, and the receipt agrees with the amount
       status = "APPROVED";
       autoApproved = true;
     }
@@ -120,7 +220,8 @@ router.post("/expenses", requireAuth, async (req, res) => {
       status,
       user: user || "Unknown User",
       userId: userId || "1",
-      department: "General",
+      department: member?.department || "General",
+      departmentId,
       note: note || null,
       receiptUrl: receiptUrl || null,
       expenseType: expenseType || "request",
@@ -131,10 +232,16 @@ router.post("/expenses", requireAuth, async (req, res) => {
       payoutStatus: null,
       payoutId: null,
       reviewerComments: null,
+      ...ocr,
     });
 
+    if (approvalChain.length > 0) {
+      await storeApprovalChain(company!.companyId, "expense", expense.id, approvalChain);
+    }
+    await auditBudgetOverride(req, budgetCheck, "expense", expense.id);
+
     // Notify the submitter
-    const submitterUid = (req as any).user?.uid || userId || "1";
+    const submitterUid = submitterId;
     if (status === "PENDING") {
       notificationService
         .notifyExpenseSubmitted(submitterUid, {
@@ -144,6 +251,7 @@ router.post("/expenses", requireAuth, async (req, res) => {
           currency,
         })
         .catch(console.error);
+      emitWebhookEvent(expense.companyId, "expense.submitted", expense).catch(console.error);
     }
 
     // Notify tagged reviewers for review
@@ -200,6 +308,7 @@ router.post("/expenses", requireAuth, async (req, res) => {
               currency,
               submitterName,
               category,
+              receiptAmount: ocr.receiptAmountMismatch ? parseFloat(ocr.receiptOcrAmount!) : undefined,
             }
           )
           .catch(console.error);
@@ -212,7 +321,77 @@ router.post("/expenses", requireAuth, async (req, res) => {
   }
 });
 
-router.patch("/expenses/:id", requireAuth, requirePin, async (req, res) => {
+// The cardholder completes the draft raised for a card transaction with
+// its receipt. The spend is already on the card and in the budget, so
+// there is no budget check and no reimbursement.
+router.post("/expenses/:id/submit", requireAuth, async (req, res) => {
+  try {
+    const parsed = cardExpenseSubmitSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid expense data", details: parsed.error.issues });
+    }
+    const company = await resolveUserCompany(req);
+    const expense = await storage.getExpense(param(req.params.id));
+    if (!expense) {
+      return res.status(404).json({ error: "Expense not found" });
+    }
+    const userId = (req as any).user?.uid;
+    if (expense.userId !== userId || (company && !(await verifyCompanyAccess(expense.companyId, company.companyId)))) {
+      return res.status(403).json({ error: "Only the cardholder can submit this expense" });
+    }
+    const { receiptUrl, category, note } = parsed.data;
+    const problem = cardExpenseSubmitProblem(expense, receiptUrl);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+
+    const amount = parseFloat(expense.amount);
+    const finalReceiptUrl = receiptUrl || expense.receiptUrl;
+    const finalCategory = category || expense.category;
+    const ocr = await receiptOcrFields(finalReceiptUrl, amount, expense.currency, expense.companyId);
+    const approvalChain = expense.companyId
+      ? await planApprovalChainFor(expense.companyId, {
+          entityType: "expense",
+          amount,
+          currency: expense.currency,
+          category: finalCategory,
+          departmentId: expense.departmentId,
+          vendorId: null,
+          vendorIsNew: false,
+        }, userId)
+      : [];
+    const status = submittedCardExpenseStatus({
+      approvalSteps: approvalChain.length,
+      receiptAmountMismatch: ocr.receiptAmountMismatch,
+    });
+
+    const updated = await storage.updateExpense(expense.id, {
+      status,
+      receiptUrl: finalReceiptUrl,
+      category: finalCategory,
+      note: note ?? expense.note,
+      ...ocr,
+    });
+    if (approvalChain.length > 0) {
+      await storeApprovalChain(expense.companyId!, "expense", expense.id, approvalChain);
+    }
+    await logAudit("expense", expense.id, "submit_card_expense", userId, await getAuditUserName(req),
+      { status: expense.status }, { status, receiptUrl: finalReceiptUrl, category: finalCategory }
+    );
+
+    if (status === "PENDING") {
+      notificationService
+        .notifyExpenseSubmitted(userId, { id: expense.id, merchant: expense.merchant, amount, currency: expense.currency })
+        .catch(console.error);
+      emitWebhookEvent(expense.companyId, "expense.submitted", updated!).catch(console.error);
+    }
+    res.json({ ...updated, autoApproved: status === "APPROVED" });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to submit expense" });
+  }
+});
+
+router.patch("/expenses/:id", requireAuth, requirePinForExpenseEdit, idempotency, async (req, res) => {
   try {
     const result = expenseUpdateSchema.safeParse(req.body);
     if (!result.success) {
@@ -244,11 +423,44 @@ router.patch("/expenses/:id", requireAuth, requirePin, async (req, res) => {
     }
 
     const originalExpense = await storage.getExpense(param(req.params.id));
-    const expense = await storage.updateExpense(param(req.params.id), result.data);
+    const { baseStatus, ...changes } = result.data;
+    const conflict = originalExpense && expenseEditConflict(originalExpense, baseStatus);
+    if (conflict) {
+      return res.status(409).json(conflict);
+    }
+
+    // Approving a policy-governed expense records one step of its chain;
+    // the status only flips once the last step is approved.
+    if (result.data.status === "APPROVED" && originalExpense?.status === "PENDING") {
+      const ctx = await expenseApprovalContext(originalExpense);
+      if (ctx) {
+        const outcome = await approveNextStep(ctx, {
+          userId: (req as any).user?.uid || "unknown",
+          name: await getAuditUserName(req),
+        });
+        const reply = approvalOutcomeResponse(outcome);
+        if (reply) return res.status(reply.status).json(reply.body);
+      }
+    }
+
+    const updates: Record<string, any> = { ...changes };
+    if (originalExpense && (result.data.amount !== undefined || result.data.receiptUrl !== undefined)) {
+      Object.assign(updates, await receiptOcrFields(
+        result.data.receiptUrl !== undefined ? result.data.receiptUrl : originalExpense.receiptUrl,
+        parseFloat(String(result.data.amount ?? originalExpense.amount)),
+        originalExpense.currency,
+        originalExpense.companyId ?? null,
+      ));
+    }
+    const expense = await storage.updateExpense(param(req.params.id), updates);
     if (!expense) {
       return res.status(404).json({ error: "Expense not found" });
     }
 
+    if (expense.status === "REJECTED" || expense.status === "CHANGES_REQUESTED") {
+      await storage.clearApprovalChain("expense", expense.id);
+    }
+
     // Send notification if status changed
     if (originalExpense && expense.status !== originalExpense.status) {
       const userId = (expense as any).submittedBy || expense.userId || "system";
@@ -261,6 +473,7 @@ router.patch("/expenses/:id", requireAuth, requirePin, async (req, res) => {
             amount: parseFloat(expense.amount),
           })
           .catch(console.error);
+        emitWebhookEvent(expense.companyId, "expense.approved", expense).catch(console.error);
 
         // Send rich approval email
         const approverProfile = await storage.getUserProfileByCognitoSub((req as any).user?.uid);
@@ -325,6 +538,7 @@ router.patch("/expenses/:id", requireAuth, requirePin, async (req, res) => {
             reason: result.data.rejectionReason,
           })
           .catch(console.error);
+        emitWebhookEvent(expense.companyId, "expense.rejected", expense).catch(console.error);
 
         // Send rich rejection email
         const rejectorProfile = await storage.getUserProfileByCognitoSub((req as any).user?.uid);
@@ -399,6 +613,19 @@ router.post("/expenses/batch-approve", requireAuth, requireAdmin, requirePin, as
           continue;
         }
 
+        const ctx = await expenseApprovalContext(expense);
+        if (ctx) {
+          const outcome = await approveNextStep(ctx, { userId: approverId, name: approverName });
+          if (outcome.kind === "denied") {
+            results.push({ id, status: "skipped", error: outcome.message });
+            continue;
+          }
+          if (outcome.kind === "pending") {
+            results.push({ id, status: "pending_approval", error: outcome.message });
+            continue;
+          }
+        }
+
         await storage.updateExpense(id, { status: "APPROVED" });
 
         // Send notifications
@@ -410,6 +637,7 @@ router.post("/expenses/batch-approve", requireAuth, requireAdmin, requirePin, as
             amount: parseFloat(expense.amount),
           })
           .catch(console.error);
+        emitWebhookEvent(expense.companyId, "expense.approved", { ...expense, status: "APPROVED" }).catch(console.error);
 
         const submitterProfile = await storage.getUserProfileByCognitoSub(submitterId);
         if (submitterProfile?.email) {
@@ -462,6 +690,7 @@ router.post("/expenses/:id/reject", requireAuth, requireAdmin, async (req, res)
     const updatedExpense = await storage.updateExpense(expense.id, {
       status: "REJECTED",
     });
+    await storage.clearApprovalChain("expense", expense.id);
 
     // Log rejection to audit trail
     await logAudit(
@@ -483,6 +712,7 @@ router.post("/expenses/:id/reject", requireAuth, requireAdmin, async (req, res)
         amount: parseFloat(expense.amount),
       })
       .catch((err) => console.error("Failed to notify rejection:", err));
+    emitWebhookEvent(expense.companyId, "expense.rejected", updatedExpense ?? expense).catch(console.error);
 
     res.json(updatedExpense);
   } catch (error: any) {
@@ -515,6 +745,7 @@ router.post("/expenses/:id/request-changes", requireAuth, requireAdmin, async (r
       status: "CHANGES_REQUESTED",
       reviewerComments: comments.trim(),
     });
+    await storage.clearApprovalChain("expense", expense.id);
 
     await logAudit(
       "expense",
@@ -544,7 +775,7 @@ router.post("/expenses/:id/request-changes", requireAuth, requireAdmin, async (r
 });
 
 // Approve expense and initiate payout
-router.post("/expenses/:id/approve-and-pay", requireAuth, requireAdmin, requirePin, async (req, res) => {
+router.post("/expenses/:id/approve-and-pay", requireAuth, requireAdminOrApprover(pendingExpenseApprovalContext), requirePin, idempotency, async (req, res) => {
   try {
     const { vendorId } = req.body;
     // SECURITY: never trust client-supplied approvedBy. The verified
@@ -565,6 +796,53 @@ router.post("/expenses/:id/approve-and-pay", requireAuth, requireAdmin, requireP
       return res.status(400).json({ error: "Expense is not pending" });
     }
 
+    // Policy-governed expenses are only approved and paid once every
+    // step of their chain has signed off.
+    const approvalContext = await expenseApprovalContext(expense, vendorId);
+    if (approvalContext) {
+      const outcome = await approveNextStep(approvalContext, { userId: approverSub ?? "unknown", name: approverName });
+      if (outcome.kind !== "no_policy") {
+        await logAudit(
+          "expense",
+          expense.id,
+          outcome.kind === "denied" ? "approval_denied" : "approval_step",
+          approverSub ?? "unknown",
+          approverName,
+          null,
+          null,
+          { outcome: outcome.kind, approvalChain: outcome.steps.map((s) => ({ label: s.label, status: s.status, actedBy: s.actedBy })) }
+        );
+      }
+      const reply = approvalOutcomeResponse(outcome);
+      if (reply) return res.status(reply.status).json(reply.body);
+    }
+
+    // A card expense was paid on the card, so approving it pays nothing.
+    if (expense.cardTransactionId) {
+      const approvedExpense = await storage.updateExpense(expense.id, {
+        status: "APPROVED",
+        approvedBy: approverSub ?? null,
+        approvedAt: nowIso,
+      });
+      await logAudit(
+        "expense",
+        expense.id,
+        "approved",
+        approverSub ?? "unknown",
+        approverName,
+        { status: "PENDING" },
+        { status: "APPROVED" },
+        { approvedBy: approverSub, amount: expense.amount, currency: expense.currency, cardTransactionId: expense.cardTransactionId }
+      );
+      await notificationService.notifyExpenseApproved(expense.userId, {
+        id: expense.id,
+        merchant: expense.merchant,
+        amount: parseFloat(expense.amount),
+      });
+      emitWebhookEvent(expense.companyId, "expense.approved", approvedExpense ?? expense).catch(console.error);
+      return res.json({ expense: approvedExpense, payout: null });
+    }
+
     // Update expense status + populate the audit columns the schema
     // already has (approvedBy, approvedAt). These were previously left
     // unset — bills.approvedBy worked but expense.approvedBy did not.
@@ -638,6 +916,7 @@ router.post("/expenses/:id/approve-and-pay", requireAuth, requireAdmin, requireP
       merchant: expense.merchant,
       amount: parseFloat(expense.amount),
     });
+    emitWebhookEvent(expense.companyId, "expense.approved", updatedExpense ?? expense).catch(console.error);
 
     res.json({ expense: updatedExpense, payout });
   } catch (error: any) {
@@ -0,0 +1,179 @@
+import express from "express";
+import { storage } from "../storage";
+import { requireAuth, requireAdmin, requirePin } from "../middleware/auth";
+import { financialLimiter } from "../middleware/rateLimiter";
+import { idempotency } from "../middleware/idempotency";
+import { mapPaymentError } from "../utils/paymentUtils";
+import { param, resolveUserCompany, logAudit, getAuditUserName, fxQuoteSchema } from "./shared";
+import { FX_QUOTE_TTL_SECONDS, fxQuoteExpiry, marketRateFrom, priceFxQuote } from "../lib/fx-quotes";
+
+const router = express.Router();
+
+// ==================== FX CONVERSIONS ====================
+// Moving money between the caller's own wallets in different currencies:
+// quote a marked-up rate, then accept it before it expires.
+
+router.post("/fx/quotes", requireAuth, async (req, res) => {
+  try {
+    const parsed = fxQuoteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid conversion", details: parsed.error.issues });
+    }
+    const userId = (req as any).user?.cognitoSub;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const { sourceWalletId, targetWalletId, amount } = parsed.data;
+
+    const [source, target] = await Promise.all([storage.getWallet(sourceWalletId), storage.getWallet(targetWalletId)]);
+    if (!source || !target) {
+      return res.status(404).json({ error: "Wallet not found" });
+    }
+    // SECURITY: both legs must be the caller's own wallets
+    if (source.userId !== userId || target.userId !== userId) {
+      return res.status(403).json({ error: "Not authorized to convert between these wallets" });
+    }
+    if (source.status !== 'active' || target.status !== 'active') {
+      return res.status(400).json({ error: "Both wallets must be active" });
+    }
+    const sourceCurrency = source.currency.toUpperCase();
+    const targetCurrency = target.currency.toUpperCase();
+    if (sourceCurrency === targetCurrency) {
+      return res.status(400).json({ error: `Both wallets hold ${sourceCurrency}; no conversion is needed` });
+    }
+    if (parseFloat(source.availableBalance) < amount) {
+      return res.status(400).json({ error: "Insufficient funds in source wallet" });
+    }
+
+    const [direct, inverse] = await Promise.all([
+      storage.getExchangeRate(sourceCurrency, targetCurrency),
+      storage.getExchangeRate(targetCurrency, sourceCurrency),
+    ]);
+    const marketRate = marketRateFrom(
+      direct ? parseFloat(String(direct.rate)) : null,
+      inverse ? parseFloat(String(inverse.rate)) : null,
+    );
+    if (!marketRate) {
+      return res.status(404).json({ error: `No exchange rate for ${sourceCurrency} to ${targetCurrency}` });
+    }
+
+    let settings = await storage.getExchangeRateSettings();
+    if (!settings) {
+      settings = await storage.updateExchangeRateSettings('10.00', '10.00');
+    }
+    const price = priceFxQuote({ sourceAmount: amount, marketRate, markupPercent: parseFloat(String(settings.buyMarkupPercent)) });
+    if (price.targetAmount <= 0) {
+      return res.status(400).json({ error: "Amount is too small to convert" });
+    }
+
+    const company = await resolveUserCompany(req);
+    const now = new Date();
+    const quote = await storage.createFxQuote({
+      companyId: source.companyId ?? company?.companyId ?? null,
+      sourceWalletId: source.id,
+      targetWalletId: target.id,
+      sourceCurrency,
+      targetCurrency,
+      sourceAmount: price.sourceAmount.toFixed(2),
+      targetAmount: price.targetAmount.toFixed(2),
+      marketRate: price.marketRate.toFixed(6),
+      customerRate: price.customerRate.toFixed(6),
+      markupPercent: price.markupPercent.toFixed(2),
+      marginAmount: price.marginAmount.toFixed(2),
+      status: 'open',
+      expiresAt: fxQuoteExpiry(now),
+      createdBy: userId,
+      createdAt: now.toISOString(),
+    });
+    res.status(201).json({ ...quote, expiresInSeconds: FX_QUOTE_TTL_SECONDS });
+  } catch (error: any) {
+    const mapped = mapPaymentError(error, 'exchange');
+    res.status(mapped.statusCode).json({ error: mapped.userMessage, correlationId: mapped.correlationId });
+  }
+});
+
+// Accept a quote: debit and credit at the locked rate, in one transaction.
+router.post("/fx/quotes/:id/accept", financialLimiter, requireAuth, requirePin, idempotency, async (req, res) => {
+  try {
+    const userId = (req as any).user?.cognitoSub;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const quote = await storage.getFxQuote(param(req.params.id));
+    if (!quote) {
+      return res.status(404).json({ error: "Quote not found" });
+    }
+    if (quote.createdBy !== userId) {
+      return res.status(403).json({ error: "Not authorized to accept this quote" });
+    }
+
+    let result: Awaited<ReturnType<typeof storage.atomicAcceptFxQuote>>;
+    try {
+      result = await storage.atomicAcceptFxQuote({ quoteId: quote.id, acceptedBy: userId });
+    } catch (error: any) {
+      const message = String(error?.message || '');
+      if (message.startsWith('FX_QUOTE_UNAVAILABLE: ')) {
+        return res.status(409).json({ error: message.slice('FX_QUOTE_UNAVAILABLE: '.length) });
+      }
+      if (message === 'Insufficient funds in source wallet') {
+        return res.status(400).json({ error: message });
+      }
+      throw error;
+    }
+
+    await logAudit('fx_quote', quote.id, 'accept', (req as any).user?.uid || userId, await getAuditUserName(req), quote, result.quote, {
+      sourceAmount: result.quote.sourceAmount,
+      sourceCurrency: result.quote.sourceCurrency,
+      targetAmount: result.quote.targetAmount,
+      targetCurrency: result.quote.targetCurrency,
+      customerRate: result.quote.customerRate,
+    });
+    res.json({
+      quote: result.quote,
+      debitTransaction: result.debitTx,
+      creditTransaction: result.creditTx,
+    });
+  } catch (error: any) {
+    const mapped = mapPaymentError(error, 'exchange');
+    res.status(mapped.statusCode).json({ error: mapped.userMessage, correlationId: mapped.correlationId });
+  }
+});
+
+// Accepted conversions: the company's, or the caller's outside a company.
+router.get("/fx/conversions", requireAuth, async (req, res) => {
+  try {
+    const userId = (req as any).user?.cognitoSub;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const company = await resolveUserCompany(req);
+    const limit = parseInt(String(req.query.limit ?? '50'), 10) || 50;
+    res.json(await storage.getFxConversions({ companyId: company?.companyId ?? null, createdBy: userId }, limit));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch conversions" });
+  }
+});
+
+// Realized FX margin per currency pair, this calendar month unless
+// ?from=&to= (dates, `to` exclusive) say otherwise.
+router.get("/fx/margin", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const now = new Date();
+    const isDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const from = isDate(req.query.from)
+      ? req.query.from
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString().slice(0, 10);
+    const to = isDate(req.query.to)
+      ? req.query.to
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString().slice(0, 10);
+    res.json({ from, to, pairs: await storage.getFxMargin(company.companyId, from, to) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch FX margin" });
+  }
+});
+
+export default router;
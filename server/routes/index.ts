@@ -24,6 +24,8 @@ import accountsRouter from "./accounts.routes";
 import companiesRouter from "./companies.routes";
 import teamRouter from "./team.routes";
 import reportsRouter from "./reports.routes";
+import payrollRunsRouter from "./payroll-runs.routes";
+import employeePayRouter from "./employee-pay.routes";
 import payrollRouter from "./payroll.routes";
 import invoicesRouter from "./invoices.routes";
 import vendorsRouter from "./vendors.routes";
@@ -36,8 +38,20 @@ import adminRouter from "./admin.routes";
 import walletsRouter from "./wallets.routes";
 import payoutsRouter from "./payouts.routes";
 import webhooksRouter from "./webhooks.routes";
+import webhookEndpointsRouter from "./webhook-endpoints.routes";
+import apiKeysRouter from "./api-keys.routes";
+import cardProgramsRouter from "./card-programs.routes";
+import fxRouter from "./fx.routes";
 import scheduledRouter from "./scheduled.routes";
 import paymentMethodsRouter from "./payment-methods.routes";
+import ledgerRouter from "./ledger.routes";
+import reconciliationRouter from "./reconciliation.routes";
+import approvalsRouter from "./approvals.routes";
+import accountingRouter from "./accounting.routes";
+import bankStatementsRouter from "./bank-statements.routes";
+import purchaseOrdersRouter from "./purchase-orders.routes";
+import sanctionsRouter from "./sanctions.routes";
+import monitoringRouter from "./monitoring.routes";
 
 export async function registerRoutes(
   httpServer: Server,
@@ -95,6 +109,8 @@ export async function registerRoutes(
   app.use("/api", companiesRouter);
   app.use("/api", teamRouter);
   app.use("/api", reportsRouter);
+  app.use("/api", payrollRunsRouter);
+  app.use("/api", employeePayRouter);
   app.use("/api", payrollRouter);
   app.use("/api", invoicesRouter);
   app.use("/api", vendorsRouter);
@@ -107,9 +123,21 @@ export async function registerRoutes(
   app.use("/api", walletsRouter);
   app.use("/api", payoutsRouter);
   app.use("/api", webhooksRouter);
+  app.use("/api", webhookEndpointsRouter);
+  app.use("/api", apiKeysRouter);
+  app.use("/api", cardProgramsRouter);
+  app.use("/api", fxRouter);
 
   app.use("/api", scheduledRouter);
   app.use("/api", paymentMethodsRouter);
+  app.use("/api", ledgerRouter);
+  app.use("/api", reconciliationRouter);
+  app.use("/api", approvalsRouter);
+  app.use("/api", accountingRouter);
+  app.use("/api", bankStatementsRouter);
+  app.use("/api", purchaseOrdersRouter);
+  app.use("/api", sanctionsRouter);
+  app.use("/api", monitoringRouter);
 
   // ==================== API 404 CATCH-ALL (must be last) ====================
   app.all("/api/{*rest}", (_req, res) => {
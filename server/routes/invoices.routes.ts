@@ -1,6 +1,6 @@
 import express from "express";
 import { storage } from "../storage";
-import { requireAuth } from "../middleware/auth";
+import { requireAuth, requireAdmin, requirePin } from "../middleware/auth";
 import {
   param,
   resolveUserCompany,
@@ -9,12 +9,20 @@ import {
   invoiceUpdateSchema,
   logAudit,
   getAuditUserName,
+  invoicePaymentSchema,
+  creditNoteSchema,
+  dunningScheduleSchema,
 } from "./shared";
 import { getStripeClient } from "../stripeClient";
 import { paystackClient, getPaystackPublicKey } from "../paystackClient";
 import { notificationService } from "../services/notification-service";
+import { emitWebhookEvent } from "../outboundWebhooks";
 import { mapPaymentError } from "../utils/paymentUtils";
 import { db } from "../db";
+import { loadInvoiceLedger, loadInvoiceLedgers, refreshInvoiceStatus, issueRefund } from "../invoiceBalances";
+import { resolveInvoiceStatus } from "../lib/invoice-balance";
+import { DEFAULT_DUNNING_STEPS, dunningStepProblems } from "../lib/dunning";
+import type { Invoice } from "@shared/schema";
 
 const router = express.Router();
 
@@ -29,68 +37,10 @@ const INVOICE_STATUS_RANK: Record<string, number> = {
   partially_paid: 2,
   overdue: 2,
   paid: 3,
+  credited: 3,
   cancelled: 4,
 };
 
-// ==================== INVOICE PAYMENT TRACKING ====================
-
-/**
- * In-memory invoice payment ledger.
- * In production this should be backed by a dedicated `invoice_payments` table;
- * for now we keep it in-memory so existing DB schema is untouched while the
- * full API contract is available for the frontend.
- */
-interface InvoicePayment {
-  id: string;
-  invoiceId: string;
-  amount: number;
-  currency: string;
-  method: string; // 'stripe' | 'paystack' | 'bank_transfer' | 'manual'
-  reference: string;
-  paidAt: string;
-  metadata?: Record<string, unknown>;
-}
-
-const invoicePaymentsStore: Map<string, InvoicePayment[]> = new Map();
-
-function getInvoicePayments(invoiceId: string): InvoicePayment[] {
-  return invoicePaymentsStore.get(invoiceId) || [];
-}
-
-function addInvoicePayment(payment: InvoicePayment): InvoicePayment {
-  const existing = invoicePaymentsStore.get(payment.invoiceId) || [];
-  existing.push(payment);
-  invoicePaymentsStore.set(payment.invoiceId, existing);
-  return payment;
-}
-
-function getTotalPaid(invoiceId: string): number {
-  const payments = getInvoicePayments(invoiceId);
-  return payments.reduce((sum, p) => sum + p.amount, 0);
-}
-
-/**
- * Determine the correct invoice status based on payments received.
- * Status flow: draft -> sent -> partially_paid -> paid -> overdue
- */
-function resolveInvoiceStatus(
-  invoiceAmount: number,
-  totalPaid: number,
-  currentStatus: string,
-  dueDate: string
-): string {
-  if (totalPaid >= invoiceAmount) return 'paid';
-  if (totalPaid > 0) return 'partially_paid';
-
-  // Check overdue
-  if (['pending', 'sent', 'partially_paid'].includes(currentStatus)) {
-    const due = new Date(dueDate);
-    if (due < new Date()) return 'overdue';
-  }
-
-  return currentStatus;
-}
-
 // ==================== PUBLIC INVOICE PAYMENT PAGE ====================
 router.get("/public/invoices/:id", async (req, res) => {
   try {
@@ -130,16 +80,19 @@ router.get("/public/invoices/:id", async (req, res) => {
       }
     } catch {}
 
-    // Partial payment tracking
-    const invoiceAmount = parseFloat(invoice.amount as string);
-    const totalPaid = getTotalPaid(invoice.id as string);
-    const amountRemaining = Math.max(0, invoiceAmount - totalPaid);
+    // Partial payments and credit notes
+    const { balance, payments, creditNotes } = await loadInvoiceLedger(invoice as Invoice);
 
     res.json({
       invoice,
-      amountPaid: totalPaid,
-      amountRemaining,
-      payments: getInvoicePayments(invoice.id as string),
+      amountPaid: balance.netPaid,
+      amountRemaining: balance.amountDue,
+      amountCredited: balance.credited,
+      adjustedTotal: balance.adjustedTotal,
+      payments: payments.map((p) => ({ id: p.id, amount: parseFloat(p.amount), currency: p.currency, method: p.method, paidAt: p.paidAt })),
+      creditNotes: creditNotes
+        .filter((n) => n.status !== 'refund_failed')
+        .map((n) => ({ creditNoteNumber: n.creditNoteNumber, kind: n.kind, amount: parseFloat(n.amount), reason: n.reason, createdAt: n.createdAt })),
       companyName: (settings as any)?.companyName || settings?.name || 'Financiar',
       companyLogo: (settings as any)?.companyLogo || settings?.logo || null,
       stripePaymentAvailable,
@@ -167,8 +120,8 @@ router.post("/public/invoices/:id/pay", async (req, res) => {
     if (!invoice) {
       return res.status(404).json({ error: "Invoice not found" });
     }
-    if (invoice.status === 'paid') {
-      return res.status(400).json({ error: "Invoice already paid" });
+    if (['paid', 'credited', 'cancelled'].includes(invoice.status as string)) {
+      return res.status(400).json({ error: "Invoice has nothing left to pay" });
     }
 
     const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
@@ -178,9 +131,7 @@ router.post("/public/invoices/:id/pay", async (req, res) => {
 
     const stripe = getStripeClient();
     const invoiceCurrency = ((invoice as any).currency || 'USD').toLowerCase();
-    const invoiceAmount = parseFloat(invoice.amount as string);
-    const totalPaid = getTotalPaid(invoice.id as string);
-    const amountRemaining = Math.max(0, invoiceAmount - totalPaid);
+    const amountRemaining = (await loadInvoiceLedger(invoice as Invoice)).balance.amountDue;
 
     if (amountRemaining <= 0) {
       return res.status(400).json({ error: "Invoice already fully paid" });
@@ -236,14 +187,12 @@ router.post("/public/invoices/:id/pay/paystack", async (req, res) => {
     if (!invoice) {
       return res.status(404).json({ error: "Invoice not found" });
     }
-    if (invoice.status === 'paid') {
-      return res.status(400).json({ error: "Invoice already paid" });
+    if (['paid', 'credited', 'cancelled'].includes(invoice.status as string)) {
+      return res.status(400).json({ error: "Invoice has nothing left to pay" });
     }
 
     const invoiceCurrency = ((invoice as any).currency || 'NGN').toUpperCase();
-    const invoiceAmount = parseFloat(invoice.amount as string);
-    const totalPaid = getTotalPaid(invoice.id as string);
-    const amountRemaining = Math.max(0, invoiceAmount - totalPaid);
+    const amountRemaining = (await loadInvoiceLedger(invoice as Invoice)).balance.amountDue;
 
     if (amountRemaining <= 0) {
       return res.status(400).json({ error: "Invoice already fully paid" });
@@ -309,51 +258,50 @@ router.post("/invoices/:id/payments", requireAuth, async (req, res) => {
       return res.status(404).json({ error: "Invoice not found" });
     }
 
-    if (invoice.status === 'paid') {
-      return res.status(400).json({ error: "Invoice is already fully paid" });
+    if (['paid', 'credited', 'cancelled'].includes(invoice.status)) {
+      return res.status(400).json({ error: "Invoice has nothing left to pay" });
     }
 
-    const { amount, method, reference, metadata } = req.body;
-    const paymentAmount = parseFloat(amount);
-
-    if (!paymentAmount || paymentAmount <= 0) {
-      return res.status(400).json({ error: "Valid payment amount is required" });
+    const parsed = invoicePaymentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Valid payment amount is required", details: parsed.error.issues });
     }
+    const { amount: paymentAmount, method, reference, providerReference, metadata } = parsed.data;
+    const before = await loadInvoiceLedger(invoice);
+    const userId = (req as any).user?.uid;
 
-    const invoiceAmount = parseFloat(invoice.amount as string);
-    const totalPaid = getTotalPaid(invoice.id);
-    const amountRemaining = invoiceAmount - totalPaid;
-
-    if (paymentAmount > amountRemaining + 0.01) { // small tolerance for rounding
-      return res.status(400).json({
-        error: "Payment amount exceeds remaining balance",
-        amountRemaining,
-        amountPaid: totalPaid,
+    let payment;
+    try {
+      payment = await storage.recordInvoicePayment({
+        invoiceId: invoice.id,
+        companyId: invoice.companyId,
+        amount: paymentAmount.toFixed(2),
+        currency: invoice.currency || 'USD',
+        method,
+        reference: reference || `PAY-${invoice.invoiceNumber}-${Date.now()}`,
+        providerReference: providerReference ?? null,
+        paidAt: new Date().toISOString(),
+        recordedBy: userId || null,
+        metadata: metadata ?? null,
       });
+    } catch (error: any) {
+      if (error?.message === 'PAYMENT_EXCEEDS_BALANCE') {
+        return res.status(400).json({
+          error: "Payment amount exceeds remaining balance",
+          amountRemaining: error.balance.amountDue,
+          amountPaid: error.balance.netPaid,
+        });
+      }
+      throw error;
+    }
+    if (!payment) {
+      return res.status(409).json({ error: "A payment with this reference is already recorded" });
     }
-
-    const invoiceCurrency = (invoice as any).currency || 'USD';
-
-    // Record the payment
-    const payment = addInvoicePayment({
-      id: `ipay_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
-      invoiceId: invoice.id,
-      amount: paymentAmount,
-      currency: invoiceCurrency,
-      method: method || 'manual',
-      reference: reference || `PAY-${invoice.invoiceNumber}-${Date.now()}`,
-      paidAt: new Date().toISOString(),
-      metadata,
-    });
 
     // Recalculate totals and update invoice status
-    const newTotalPaid = getTotalPaid(invoice.id);
-    const newStatus = resolveInvoiceStatus(invoiceAmount, newTotalPaid, invoice.status, invoice.dueDate);
-
-    await storage.updateInvoice(invoice.id, { status: newStatus });
+    const after = await refreshInvoiceStatus(invoice);
 
     // Audit log
-    const userId = (req as any).user?.uid;
     const userName = await getAuditUserName(req);
     await logAudit(
       'invoice',
@@ -361,17 +309,17 @@ router.post("/invoices/:id/payments", requireAuth, async (req, res) => {
       'payment_recorded',
       userId,
       userName,
-      { status: invoice.status, totalPaid },
-      { status: newStatus, totalPaid: newTotalPaid },
-      { paymentAmount, method: method || 'manual', reference: payment.reference }
+      { status: invoice.status, totalPaid: before.balance.netPaid },
+      { status: after.status, totalPaid: after.balance.netPaid },
+      { paymentAmount, method, reference: payment.reference }
     );
 
     res.status(201).json({
       payment,
-      invoiceStatus: newStatus,
-      amountPaid: newTotalPaid,
-      amountRemaining: Math.max(0, invoiceAmount - newTotalPaid),
-      fullyPaid: newTotalPaid >= invoiceAmount,
+      invoiceStatus: after.status,
+      amountPaid: after.balance.netPaid,
+      amountRemaining: after.balance.amountDue,
+      fullyPaid: after.balance.amountDue <= 0,
     });
   } catch (error) {
     res.status(500).json({ error: "Failed to record payment" });
@@ -394,16 +342,15 @@ router.get("/invoices/:id/payments", requireAuth, async (req, res) => {
       return res.status(404).json({ error: "Invoice not found" });
     }
 
-    const invoiceAmount = parseFloat(invoice.amount as string);
-    const payments = getInvoicePayments(invoice.id);
-    const totalPaid = payments.reduce((sum, p) => sum + p.amount, 0);
+    const { balance, payments } = await loadInvoiceLedger(invoice);
 
     res.json({
       invoiceId: invoice.id,
       invoiceNumber: invoice.invoiceNumber,
-      invoiceAmount,
-      amountPaid: totalPaid,
-      amountRemaining: Math.max(0, invoiceAmount - totalPaid),
+      invoiceAmount: balance.invoiceAmount,
+      amountPaid: balance.netPaid,
+      amountRemaining: balance.amountDue,
+      amountCredited: balance.credited,
       status: invoice.status,
       payments,
     });
@@ -412,6 +359,172 @@ router.get("/invoices/:id/payments", requireAuth, async (req, res) => {
   }
 });
 
+// ==================== CREDIT NOTES ====================
+
+router.get("/invoices/:id/credit-notes", requireAuth, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const invoice = await storage.getInvoice(param(req.params.id));
+    if (!invoice || !await verifyCompanyAccess(invoice.companyId, company.companyId)) {
+      return res.status(404).json({ error: "Invoice not found" });
+    }
+    res.json(await storage.getCreditNotes([invoice.id]));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch credit notes" });
+  }
+});
+
+// Issue a credit note: credit or write off part of the outstanding
+// balance, or refund part of a payment through the provider that took it.
+router.post("/invoices/:id/credit-notes", requireAuth, requireAdmin, requirePin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const invoice = await storage.getInvoice(param(req.params.id));
+    if (!invoice || !await verifyCompanyAccess(invoice.companyId, company.companyId)) {
+      return res.status(404).json({ error: "Invoice not found" });
+    }
+    if (invoice.status === 'draft' || invoice.status === 'cancelled') {
+      return res.status(400).json({ error: `Credit notes cannot be issued against a ${invoice.status} invoice` });
+    }
+    const parsed = creditNoteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid credit note", details: parsed.error.issues });
+    }
+    const { kind, amount, reason, paymentId } = parsed.data;
+
+    const payment = paymentId ? await storage.getInvoicePayment(paymentId) : undefined;
+    if (paymentId && (!payment || payment.invoiceId !== invoice.id)) {
+      return res.status(400).json({ error: "Payment not found on this invoice" });
+    }
+
+    const userId = (req as any).user?.uid || 'system';
+    const userName = await getAuditUserName(req);
+    const before = await loadInvoiceLedger(invoice);
+
+    let note;
+    try {
+      note = await storage.createCreditNote({
+        companyId: invoice.companyId,
+        invoiceId: invoice.id,
+        kind,
+        amount: amount.toFixed(2),
+        currency: invoice.currency || 'USD',
+        reason,
+        paymentId: payment?.id ?? null,
+        refundProvider: payment ? payment.method : null,
+        issuedBy: userId,
+        issuedByName: userName,
+      });
+    } catch (error: any) {
+      if (error?.message === 'CREDIT_NOTE_INVALID') {
+        return res.status(400).json({ error: error.details });
+      }
+      throw error;
+    }
+
+    if (payment) {
+      note = await issueRefund(note, payment);
+    }
+    const after = await refreshInvoiceStatus(invoice);
+
+    await logAudit('invoice', invoice.id, kind === 'refund' ? 'refund_issued' : 'credit_note_issued', userId, userName,
+      { status: invoice.status, amountDue: before.balance.amountDue, amountPaid: before.balance.netPaid },
+      { status: after.status, amountDue: after.balance.amountDue, amountPaid: after.balance.netPaid },
+      { creditNoteNumber: note.creditNoteNumber, kind, amount, reason, creditNoteStatus: note.status, refundError: note.refundError ?? undefined }
+    );
+
+    if (note.status === 'refund_failed') {
+      return res.status(502).json({
+        error: `The refund was not accepted: ${note.refundError}`,
+        creditNote: note,
+        invoiceStatus: after.status,
+        amountRemaining: after.balance.amountDue,
+      });
+    }
+
+    res.status(201).json({
+      creditNote: note,
+      invoiceStatus: after.status,
+      amountPaid: after.balance.netPaid,
+      amountCredited: after.balance.credited,
+      amountRemaining: after.balance.amountDue,
+    });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to issue credit note" });
+  }
+});
+
+// ==================== DUNNING ====================
+
+router.get("/dunning-schedule", requireAuth, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const schedule = await storage.getDunningSchedule(company.companyId);
+    res.json(schedule ?? { companyId: company.companyId, enabled: false, steps: DEFAULT_DUNNING_STEPS });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch dunning schedule" });
+  }
+});
+
+router.put("/dunning-schedule", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const parsed = dunningScheduleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid dunning schedule", details: parsed.error.issues });
+    }
+    const steps = [...parsed.data.steps].sort((a, b) => a.offsetDays - b.offsetDays);
+    const problems = dunningStepProblems(steps);
+    if (problems.length > 0) {
+      return res.status(400).json({ error: "Invalid dunning schedule", details: problems });
+    }
+
+    const userId = (req as any).user?.uid || 'system';
+    const previous = await storage.getDunningSchedule(company.companyId);
+    const schedule = await storage.upsertDunningSchedule({
+      companyId: company.companyId,
+      enabled: parsed.data.enabled,
+      steps,
+      updatedBy: userId,
+    });
+    await logAudit('dunning_schedule', schedule.id, previous ? 'update' : 'create', userId, await getAuditUserName(req),
+      previous ? { enabled: previous.enabled, steps: previous.steps } : null,
+      { enabled: schedule.enabled, steps: schedule.steps }
+    );
+    res.json(schedule);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to save dunning schedule" });
+  }
+});
+
+router.get("/invoices/:id/reminders", requireAuth, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const invoice = await storage.getInvoice(param(req.params.id));
+    if (!invoice || !await verifyCompanyAccess(invoice.companyId, company.companyId)) {
+      return res.status(404).json({ error: "Invoice not found" });
+    }
+    res.json(await storage.getInvoiceReminders(invoice.id));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch invoice reminders" });
+  }
+});
+
 // ==================== INVOICES ====================
 router.get("/invoices", requireAuth, async (req, res) => {
   try {
@@ -419,19 +532,19 @@ router.get("/invoices", requireAuth, async (req, res) => {
     const invoices = await storage.getInvoices(company?.companyId);
 
     // Enrich each invoice with payment tracking info
-    const enriched = invoices.map((inv: any) => {
-      const invoiceAmount = parseFloat(inv.amount as string);
-      const totalPaid = getTotalPaid(inv.id);
-      const amountRemaining = Math.max(0, invoiceAmount - totalPaid);
+    const ledgers = await loadInvoiceLedgers(invoices);
+    const enriched = invoices.map((inv) => {
+      const { balance, payments } = ledgers.get(inv.id)!;
 
       // Auto-resolve overdue status
-      const resolvedStatus = resolveInvoiceStatus(invoiceAmount, totalPaid, inv.status, inv.dueDate);
+      const resolvedStatus = resolveInvoiceStatus(balance, inv.status, inv.dueDate);
 
       return {
         ...inv,
-        amountPaid: totalPaid,
-        amountRemaining,
-        paymentCount: getInvoicePayments(inv.id).length,
+        amountPaid: balance.netPaid,
+        amountRemaining: balance.amountDue,
+        amountCredited: balance.credited,
+        paymentCount: payments.length,
         ...(resolvedStatus !== inv.status ? { status: resolvedStatus } : {}),
       };
     });
@@ -458,16 +571,17 @@ router.get("/invoices/:id", requireAuth, async (req, res) => {
       return res.status(404).json({ error: "Invoice not found" });
     }
 
-    // Enrich with payment tracking
-    const invoiceAmount = parseFloat(invoice.amount as string);
-    const totalPaid = getTotalPaid(invoice.id);
-    const amountRemaining = Math.max(0, invoiceAmount - totalPaid);
+    // Enrich with payment tracking and credit notes
+    const { balance, payments, creditNotes } = await loadInvoiceLedger(invoice);
 
     res.json({
       ...invoice,
-      amountPaid: totalPaid,
-      amountRemaining,
-      paymentCount: getInvoicePayments(invoice.id).length,
+      amountPaid: balance.netPaid,
+      amountRemaining: balance.amountDue,
+      amountCredited: balance.credited,
+      adjustedTotal: balance.adjustedTotal,
+      paymentCount: payments.length,
+      creditNotes,
     });
   } catch (error) {
     res.status(500).json({ error: "Failed to fetch invoice" });
@@ -565,6 +679,7 @@ router.post("/invoices", requireAuth, async (req, res) => {
         })),
         paymentLink: `${appUrl}/pay/${invoice.id}`,
       }).catch(err => console.error('Failed to send invoice email:', err));
+      emitWebhookEvent(invoice.companyId, 'invoice.sent', { ...invoice, status: 'sent' }).catch(console.error);
     }
 
     res.status(201).json({
@@ -663,14 +778,13 @@ router.get("/invoices/:id/payment-details", requireAuth, async (req, res) => {
       || null;
 
     // Enrich with payment tracking
-    const invoiceAmount = parseFloat(invoice.amount as string);
-    const totalPaid = getTotalPaid(invoice.id);
+    const { balance } = await loadInvoiceLedger(invoice);
 
     res.json({
       invoice: {
         ...invoice,
-        amountPaid: totalPaid,
-        amountRemaining: Math.max(0, invoiceAmount - totalPaid),
+        amountPaid: balance.netPaid,
+        amountRemaining: balance.amountDue,
       },
       paymentDetails: companyAccount ? {
         bankName: companyAccount.bankName,
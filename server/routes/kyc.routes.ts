@@ -11,6 +11,7 @@ import { paystackClient } from "../paystackClient";
 import { mapPaymentError, paymentLogger } from "../utils/paymentUtils";
 import { validateUploadedFile } from "../utils/fileValidation";
 import { getPrimaryIdForCountry, getProviderForCountry, getCurrencyForCountry as getCountryCurrency } from "@shared/constants";
+import { screenKycSubmission } from "../sanctionsScreening";
 import {
   param,
   resolveUserCompany,
@@ -644,8 +645,9 @@ router.post("/onboarding/complete", requireAuth, async (req, res) => {
     const kycStatus = isAutoApproved ? 'approved' : 'pending_review';
 
     // Create KYC record
+    let kycSubmission: Awaited<ReturnType<typeof storage.createKycSubmission>> | null = null;
     try {
-      await storage.createKycSubmission({
+      kycSubmission = await storage.createKycSubmission({
         userProfileId: profile.id,
         firstName,
         lastName,
@@ -685,6 +687,17 @@ router.post("/onboarding/complete", requireAuth, async (req, res) => {
 
     // Resolve company context
     const companyContext = await resolveUserCompany(req);
+
+    // Sanctions screening; see handleKycSubmission.
+    if (kycSubmission) {
+      try {
+        const hold = await screenKycSubmission(companyContext?.companyId, kycSubmission, cognitoSub);
+        if (hold) isAutoApproved = false;
+      } catch (screenErr: any) {
+        console.error('KYC sanctions screening failed (non-blocking):', screenErr.message);
+      }
+    }
+
     let virtualAccountResult: any = null;
 
     // Update company settings
@@ -1450,6 +1463,22 @@ const handleKycSubmission = async (req: any, res: any) => {
       }
     }
 
+    // Sanctions screening. A possible match takes an automatic approval
+    // back to manual review; a screening error leaves the decision as is,
+    // since payouts are screened again before any money moves.
+    if (submission) {
+      try {
+        const kycCompany = await resolveUserCompany(req);
+        const hold = await screenKycSubmission(kycCompany?.companyId, submission, cognitoSub);
+        if (hold && isAutoApproved) {
+          isAutoApproved = false;
+          submission = { ...submission, status: 'pending_review' };
+        }
+      } catch (screenErr: any) {
+        console.error('KYC sanctions screening failed (non-blocking):', screenErr.message);
+      }
+    }
+
     // Auto-create virtual account ONLY if KYC is approved/auto-verified
     // If KYC is pending_review, virtual account creation is deferred until approval
     const DVA_SUPPORTED_COUNTRIES = ['NG', 'GH', 'US', 'GB', 'CA', 'DE', 'FR', 'AU', 'NL', 'IE', 'AT', 'BE', 'ES', 'IT', 'PT', 'FI', 'SE', 'DK', 'NO', 'NZ', 'SG', 'JP'];
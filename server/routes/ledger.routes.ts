@@ -0,0 +1,80 @@
+import express from "express";
+import { storage } from "../storage";
+import { requireAuth, requireAdmin } from "../middleware/auth";
+import { param, resolveUserCompany } from "./shared";
+
+const router = express.Router();
+
+// ==================== DOUBLE-ENTRY LEDGER ====================
+// Read-only views over ledger_accounts / journal_entries / ledger_postings.
+// Postings are written by storage.ts alongside each balance change; there
+// is deliberately no write endpoint here.
+
+router.get("/ledger/accounts", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const accounts = await storage.getLedgerAccounts(company.companyId);
+    res.json(accounts);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to fetch ledger accounts" });
+  }
+});
+
+router.get("/ledger/accounts/:id/postings", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const accountId = param(req.params.id);
+    const accounts = await storage.getLedgerAccounts(company.companyId);
+    if (!accounts.some((a) => a.id === accountId)) {
+      return res.status(404).json({ error: "Ledger account not found" });
+    }
+    const limit = parseInt(String(req.query.limit || '100'), 10) || 100;
+    const postings = await storage.getLedgerAccountPostings(accountId, limit);
+    res.json(postings);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to fetch ledger postings" });
+  }
+});
+
+router.get("/ledger/entries", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const limit = parseInt(String(req.query.limit || '50'), 10) || 50;
+    const offset = parseInt(String(req.query.offset || '0'), 10) || 0;
+    const entries = await storage.getJournalEntries(company.companyId, { limit, offset });
+    res.json(entries);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to fetch journal entries" });
+  }
+});
+
+// Integrity check: every entry nets to zero per currency, and wallet /
+// company balances equal the sum of their postings. 200 when clean,
+// 409 with the same report body when anything is off so monitors can
+// alert on status alone.
+router.get("/ledger/check", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const report = await storage.getLedgerIntegrityReport(company.companyId);
+    const clean = report.balanced
+      && report.walletDrift.length === 0
+      && report.companyBalanceDrift.length === 0;
+    res.status(clean ? 200 : 409).json(report);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to check ledger" });
+  }
+});
+
+export default router;
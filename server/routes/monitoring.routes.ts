@@ -0,0 +1,170 @@
+import express from "express";
+import { storage } from "../storage";
+import { requireAuth, requireAdmin } from "../middleware/auth";
+import {
+  param,
+  resolveUserCompany,
+  logAudit,
+  getAuditUserName,
+  monitoringRuleUpdateSchema,
+  monitoringAlertReviewSchema,
+} from "./shared";
+import { RULE_DEFINITIONS, effectiveRules, ruleDefinition, ruleUpdateProblem } from "../lib/transaction-monitoring";
+
+const router = express.Router();
+
+// ==================== TRANSACTION MONITORING ====================
+// Fraud rule settings and the alert queue. Rules run on their defaults
+// until an admin changes them; an alert whose rule holds payouts keeps
+// the payout back until it is dismissed here. Admin only.
+
+router.get("/monitoring/rules", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const saved = await storage.getMonitoringRules(company.companyId);
+    const rules = effectiveRules(saved);
+    res.json(RULE_DEFINITIONS.map((def) => {
+      const row = saved.find((r) => r.ruleKey === def.key);
+      const current = rules.find((r) => r.key === def.key)!;
+      return {
+        ...current,
+        name: def.name,
+        description: def.description,
+        actions: def.actions,
+        defaultParams: def.params,
+        updatedByName: row?.updatedByName ?? null,
+        updatedAt: row?.updatedAt ?? null,
+      };
+    }));
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to fetch monitoring rules" });
+  }
+});
+
+router.put("/monitoring/rules/:key", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const parsed = monitoringRuleUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid rule settings", details: parsed.error.issues });
+    }
+    const key = param(req.params.key);
+    if (!ruleDefinition(key)) {
+      return res.status(404).json({ error: "Rule not found" });
+    }
+    const problem = ruleUpdateProblem(key, parsed.data);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+
+    const current = effectiveRules(await storage.getMonitoringRules(company.companyId)).find((r) => r.key === key)!;
+    const userId = (req as any).user?.uid || 'unknown';
+    const userName = await getAuditUserName(req);
+    const saved = await storage.upsertMonitoringRule({
+      companyId: company.companyId,
+      ruleKey: key,
+      enabled: parsed.data.enabled ?? current.enabled,
+      severity: parsed.data.severity ?? current.severity,
+      action: parsed.data.action ?? current.action,
+      params: { ...current.params, ...parsed.data.params },
+      updatedBy: userId,
+      updatedByName: userName,
+    });
+
+    await logAudit('monitoring_rule', saved.id, 'updated', userId, userName,
+      { enabled: current.enabled, severity: current.severity, action: current.action, params: current.params },
+      { enabled: saved.enabled, severity: saved.severity, action: saved.action, params: saved.params },
+      { ruleKey: key }
+    );
+
+    res.json(effectiveRules([saved]).find((r) => r.key === key));
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to update monitoring rule" });
+  }
+});
+
+router.get("/monitoring/alerts", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const query = (name: string) => (typeof req.query[name] === 'string' ? req.query[name] as string : undefined);
+    res.json(await storage.getMonitoringAlerts(company.companyId, {
+      status: query('status'),
+      severity: query('severity'),
+      subjectType: query('subjectType'),
+      subjectId: query('subjectId'),
+    }));
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to fetch monitoring alerts" });
+  }
+});
+
+router.get("/monitoring/alerts/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const alert = await storage.getMonitoringAlert(param(req.params.id));
+    if (!alert || alert.companyId !== company.companyId) {
+      return res.status(404).json({ error: "Alert not found" });
+    }
+    // Earlier alerts on the same payout, transfer account or card.
+    const related = await storage.getMonitoringAlerts(company.companyId, { subjectType: alert.subjectType, subjectId: alert.subjectId });
+    res.json({ ...alert, related: related.filter((a) => a.id !== alert.id) });
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to fetch monitoring alert" });
+  }
+});
+
+router.post("/monitoring/alerts/:id/review", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const parsed = monitoringAlertReviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid review", details: parsed.error.issues });
+    }
+    const alert = await storage.getMonitoringAlert(param(req.params.id));
+    if (!alert || alert.companyId !== company.companyId) {
+      return res.status(404).json({ error: "Alert not found" });
+    }
+    if (alert.status !== 'open') {
+      return res.status(409).json({ error: `Alert is already ${alert.status}` });
+    }
+
+    const userId = (req as any).user?.uid || 'unknown';
+    const userName = await getAuditUserName(req);
+    const reviewed = await storage.reviewMonitoringAlert(alert.id, {
+      status: parsed.data.decision,
+      reviewedBy: userId,
+      reviewedByName: userName,
+      reviewNote: parsed.data.note,
+    });
+    if (!reviewed) {
+      return res.status(409).json({ error: "Alert was reviewed by another request; refresh and try again" });
+    }
+
+    await logAudit('monitoring_alert', alert.id, parsed.data.decision, userId, userName,
+      { status: alert.status },
+      { status: reviewed.status, reviewNote: reviewed.reviewNote },
+      { ruleKey: alert.ruleKey, severity: alert.severity, subjectType: alert.subjectType, subjectId: alert.subjectId, actionTaken: alert.actionTaken }
+    );
+
+    res.json(reviewed);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to review monitoring alert" });
+  }
+});
+
+export default router;
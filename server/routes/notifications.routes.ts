@@ -4,6 +4,8 @@ import { requireAuth } from "../middleware/auth";
 import { authLimiter, sensitiveLimiter, emailLimiter } from "../middleware/rateLimiter";
 import { storage } from "../storage";
 import { notificationService } from "../services/notification-service";
+import { emitWebhookEvent } from "../outboundWebhooks";
+import { recordLogin } from "../transactionMonitoring";
 
 const router = express.Router();
 
@@ -276,18 +278,24 @@ router.post("/auth/track-login", requireAuth, async (req, res) => {
       return res.status(400).json({ error: "userId and email are required" });
     }
 
+    // Resolved by Express from the trusted proxy hops (`trust proxy` in
+    // server/index.ts); the leftmost X-Forwarded-For entry is client-supplied.
+    const ipAddress = req.ip || req.socket.remoteAddress;
+
+    // Kept for the new_ip_then_transfer fraud rule (server/transactionMonitoring.ts).
+    recordLogin((await resolveUserCompany(req))?.companyId, userId, ipAddress);
+
     // Get user settings to check if login alerts are enabled
     const settings = await storage.getNotificationSettings(userId);
 
     if (settings?.securityNotifications) {
-      const ipAddress = req.headers['x-forwarded-for'] as string || req.socket.remoteAddress;
       const userAgent = req.headers['user-agent'];
 
       notificationService.sendLoginAlertEmail({
         email,
         name: displayName || email.split('@')[0],
         loginTime: new Date().toLocaleString(),
-        ipAddress: ipAddress?.split(',')[0],
+        ipAddress,
         device: userAgent,
       }).catch(err => console.error('Failed to send login alert:', err));
     }
@@ -429,6 +437,9 @@ router.post("/invoices/:id/send", requireAuth, emailLimiter, async (req, res) =>
       paymentLink: `${appUrl}/pay/${invoice.id}`,
     });
 
+    if (result.success) {
+      emitWebhookEvent(invoice.companyId, 'invoice.sent', invoice).catch(console.error);
+    }
     res.json({ success: result.success, message: result.success ? 'Invoice sent successfully' : result.error });
   } catch (error: any) {
     res.status(500).json({ error: error.message || "Failed to send invoice" });
@@ -3,6 +3,7 @@ import { z } from "zod";
 import { storage } from "../storage";
 import { requireAuth, requireAdmin, requirePin } from "../middleware/auth";
 import { financialLimiter, sensitiveLimiter } from "../middleware/rateLimiter";
+import { idempotency } from "../middleware/idempotency";
 import {
   param,
   header,
@@ -33,7 +34,10 @@ import { db } from "../db";
 import { companyBalances, transactions as transactionsTable } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { notificationService } from "../services/notification-service";
+import { emitWebhookEvent } from "../outboundWebhooks";
 import { computeNextDate } from "../recurringScheduler";
+import { sanctionsHold, sanctionsHoldBody, transferRecipientSubject } from "../sanctionsScreening";
+import { transferMonitoringHold, monitoringHoldBody } from "../transactionMonitoring";
 
 const router = express.Router();
 
@@ -297,7 +301,7 @@ router.post("/validate/bank-details", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/payment/transfer", requireAuth, requirePin, financialLimiter, async (req, res) => {
+router.post("/payment/transfer", requireAuth, requirePin, financialLimiter, idempotency, async (req, res) => {
   try {
     const result = transferSchema.safeParse(req.body);
     if (!result.success) {
@@ -383,6 +387,16 @@ router.post("/payment/transfer", requireAuth, requirePin, financialLimiter, asyn
       });
     }
 
+    const hold = await sanctionsHold(txCompany?.companyId, [transferRecipientSubject(recipientDetails)], userId);
+    if (hold) {
+      return res.status(403).json(sanctionsHoldBody(hold));
+    }
+
+    const fraudHold = await transferMonitoringHold(txCompany?.companyId, { userId, amount, currency, recipient: recipientDetails });
+    if (fraudHold) {
+      return res.status(403).json(monitoringHoldBody(fraudHold));
+    }
+
     // TP-CRIT-03 (AUDIT_TRANSFERS_PAYOUTS_2026_05_17 §4.2) — large
     // transaction approval gate. The previous code was a `console.log`
     // placebo ("In production, this would require 2FA or admin approval"
@@ -641,7 +655,7 @@ const billPaymentSchema = z.object({
   countryCode: z.string().min(2).max(2).default('US'),
 });
 
-router.post("/bills/pay", financialLimiter, requireAuth, requirePin, async (req, res) => {
+router.post("/bills/pay", financialLimiter, requireAuth, requirePin, idempotency, async (req, res) => {
   try {
     const result = billPaymentSchema.safeParse(req.body);
     if (!result.success) {
@@ -709,7 +723,7 @@ router.post("/bills/pay", financialLimiter, requireAuth, requirePin, async (req,
         }
 
         const balances = await storage.getBalances(userCompany.companyId);
-        let balanceField: string;
+        let balanceField: 'usd' | 'local';
         if (billCurrency === 'USD') {
           balanceField = 'usd';
         } else if (billCurrency === balances.localCurrency) {
@@ -721,7 +735,20 @@ router.post("/bills/pay", financialLimiter, requireAuth, requirePin, async (req,
         if (currentBalance < billAmount) {
           return res.status(400).json({ error: "Insufficient wallet balance", available: currentBalance, required: billAmount, currency: billCurrency });
         }
-        await storage.updateBalances({ [balanceField]: String(currentBalance - billAmount) }, userCompany.companyId);
+        // Debit and its ledger entry commit together; the pre-check above
+        // only produces the friendly 400.
+        await storage.atomicCompanyBalanceMovement({
+          companyId: userCompany.companyId,
+          field: balanceField,
+          direction: 'debit',
+          amount: billAmount,
+          currency: billCurrency,
+          counterAccount: 'bill_expense',
+          description: `Bill payment - ${bill.name}`,
+          sourceType: 'bill',
+          sourceId: billId,
+          reference: `BILL-${billId}`,
+        });
       }
 
       await storage.updateBill(billId, { status: 'paid' });
@@ -748,6 +775,7 @@ router.post("/bills/pay", financialLimiter, requireAuth, requirePin, async (req,
           provider: bill.provider || 'Provider',
         }).catch(console.error);
       }
+      emitWebhookEvent(bill.companyId, 'bill.paid', { ...bill, status: 'paid' }).catch(console.error);
 
       res.json({ success: true, message: "Bill paid successfully from wallet" });
     } else {
@@ -939,7 +967,7 @@ const walletPayoutSchema = z.object({
   frequency: z.enum(['once', 'weekly', 'monthly', 'quarterly', 'yearly']).optional().default('monthly'),
 });
 
-router.post("/wallet/payout", requireAuth, requirePin, financialLimiter, async (req, res) => {
+router.post("/wallet/payout", requireAuth, requirePin, financialLimiter, idempotency, async (req, res) => {
   try {
     const result = walletPayoutSchema.safeParse(req.body);
     if (!result.success) {
@@ -966,6 +994,16 @@ router.post("/wallet/payout", requireAuth, requirePin, financialLimiter, async (
     }
     const companyIdForBalance = payoutCompany.companyId;
 
+    const hold = await sanctionsHold(companyIdForBalance, [transferRecipientSubject(recipientDetails)], userId);
+    if (hold) {
+      return res.status(403).json(sanctionsHoldBody(hold));
+    }
+
+    const fraudHold = await transferMonitoringHold(companyIdForBalance, { userId, amount, currency, recipient: recipientDetails });
+    if (fraudHold) {
+      return res.status(403).json(monitoringHoldBody(fraudHold));
+    }
+
     // Get balance in the correct currency (scoped to the caller's company)
     const balances = await storage.getBalances(companyIdForBalance);
     let currentBalance = 0;
@@ -1220,9 +1258,13 @@ router.post("/payments/utility", requireAuth, async (req, res) => {
       wallet = await storage.getWalletByUserId(effectiveUserId, walletCurrency);
     }
 
+    // Set when the company balance pays, so a provider failure can credit it back.
+    let companyDebit: { companyId?: string; currency: string } | null = null;
+
     if (!wallet) {
       // Fall back to company balance
-      const balances = await storage.getBalances();
+      const utilityCompany = await resolveUserCompany(req);
+      const balances = await storage.getBalances(utilityCompany?.companyId);
       const currentLocal = parseFloat(String(balances.local || 0));
       if (currentLocal < amount) {
         return res.status(400).json({
@@ -1232,7 +1274,16 @@ router.post("/payments/utility", requireAuth, async (req, res) => {
           required: amount
         });
       }
-      await storage.updateBalances({ local: String(currentLocal - amount) });
+      companyDebit = { companyId: utilityCompany?.companyId, currency: balances.localCurrency };
+      await storage.atomicCompanyBalanceMovement({
+        ...companyDebit,
+        field: 'local',
+        direction: 'debit',
+        amount,
+        counterAccount: 'utility_expense',
+        description: `${type.charAt(0).toUpperCase() + type.slice(1)} - ${provider}`,
+        sourceType: 'utility_payment',
+      });
     } else {
       // Use user wallet
       const walletBalance = parseFloat(String(wallet.balance || 0));
@@ -1284,12 +1335,19 @@ router.post("/payments/utility", requireAuth, async (req, res) => {
         } catch (reversalErr) {
           console.error('CRITICAL: Utility reversal failed after provider error:', reversalErr);
         }
-      } else {
+      } else if (companyDebit) {
         // Reverse company balance debit
         try {
-          const balances = await storage.getBalances();
-          const currentLocal = parseFloat(String(balances.local || 0));
-          await storage.updateBalances({ local: String(currentLocal + amount) });
+          await storage.atomicCompanyBalanceMovement({
+            ...companyDebit,
+            field: 'local',
+            direction: 'credit',
+            amount,
+            counterAccount: 'utility_expense',
+            description: `Reversal: ${type} - ${provider} failed`,
+            sourceType: 'utility_payment',
+            reference: `REV-${utilityRef}`,
+          });
         } catch (reversalErr) {
           console.error('CRITICAL: Company balance reversal failed:', reversalErr);
         }
@@ -1883,7 +1941,7 @@ router.post("/paystack/transfers/finalize", requireAuth, requireAdmin, requirePi
   }
 });
 
-router.post("/paystack/transfers/bulk", requireAuth, requireAdmin, financialLimiter, async (req, res) => {
+router.post("/paystack/transfers/bulk", requireAuth, requireAdmin, financialLimiter, idempotency, async (req, res) => {
   try {
     const { transfers } = req.body;
     if (!Array.isArray(transfers) || transfers.length === 0) {
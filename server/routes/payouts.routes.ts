@@ -7,12 +7,25 @@ import {
   getSettingsForRequest,
   logAudit,
   getAuditUserName,
+  verifyCompanyAccess,
 } from "./shared";
 import { requireAuth, requireAdmin, requirePin } from "../middleware/auth";
+import { idempotency } from "../middleware/idempotency";
 import { mapPaymentError } from "../utils/paymentUtils";
 import { paymentService } from "../paymentService";
 import { paystackClient } from "../paystackClient";
 import { notificationService } from "../services/notification-service";
+import {
+  payoutApprovalContext,
+  approveNextStep,
+  approvalOutcomeResponse,
+  ensureApprovalChain,
+  isAwaitingApproval,
+  requireAdminOrApprover,
+} from "../approvalChains";
+import { runRemittances, REMITTANCE_PAYOUT_TYPE } from "../payrollRemittances";
+import { screenInBackground, sanctionsHold, sanctionsHoldBody, payoutSubjects, destinationSubject } from "../sanctionsScreening";
+import { monitoringHold, monitoringHoldBody, recordDestinationChange } from "../transactionMonitoring";
 
 const router = express.Router();
 
@@ -212,6 +225,7 @@ router.post("/payout-destinations", requireAuth, async (req, res) => {
       isVerified,
       providerRecipientId,
     });
+    screenInBackground((await resolveUserCompany(req))?.companyId, destinationSubject(destination));
     res.status(201).json(destination);
   } catch (error: any) {
     const mapped = mapPaymentError(error, 'payout');
@@ -240,7 +254,23 @@ router.put("/payout-destinations/:id", requireAuth, async (req, res) => {
       return res.status(403).json({ error: "Not authorized to update this destination" });
     }
 
-    const destination = await storage.updatePayoutDestination(param(req.params.id), result.data);
+    // Bank details an employee submitted for their salary go back to an
+    // admin for review when the account changes (server/employeePay.ts).
+    const accountFields = ['bankName', 'bankCode', 'accountNumber', 'accountName', 'routingNumber'] as const;
+    const accountChanged = accountFields.some((f) => result.data[f] !== undefined && result.data[f] !== existing[f]);
+    const review = existing.reviewStatus && accountChanged
+      ? { reviewStatus: 'pending', isVerified: false, reviewedBy: null, reviewedByName: null, reviewedAt: null, reviewNote: null }
+      : {};
+
+    const destination = await storage.updatePayoutDestination(param(req.params.id), { ...result.data, ...review });
+    if (destination && accountChanged) {
+      const companyId = (await resolveUserCompany(req))?.companyId;
+      if (destination.accountName !== existing.accountName) {
+        screenInBackground(companyId, destinationSubject(destination));
+      }
+      recordDestinationChange(companyId, destination, (req as any).user?.uid,
+        accountFields.filter((f) => result.data[f] !== undefined && result.data[f] !== existing[f]));
+    }
     res.json(destination);
   } catch (error: any) {
     const mapped = mapPaymentError(error, 'payout');
@@ -286,6 +316,10 @@ router.get("/payouts/:id", requireAuth, async (req, res) => {
     if (!payout) {
       return res.status(404).json({ error: "Payout not found" });
     }
+    const company = await resolveUserCompany(req);
+    if (company?.companyId && !(await verifyCompanyAccess(payout.companyId, company.companyId))) {
+      return res.status(403).json({ error: "Access denied" });
+    }
     res.json(payout);
   } catch (error: any) {
     const mapped = mapPaymentError(error, 'payout');
@@ -323,7 +357,7 @@ const createPayoutSchema = z.object({
 // AUD-DB-002 (cancel-credits-wallet bug) gave any admin a one-click
 // money-creation primitive. Now: requireAdmin + requirePin + Zod +
 // server-issued companyId + server-issued initiatedBy.
-router.post("/payouts", requireAuth, requireAdmin, requirePin, async (req, res) => {
+router.post("/payouts", requireAuth, requireAdmin, requirePin, idempotency, async (req, res) => {
   try {
     const parsed = createPayoutSchema.safeParse(req.body);
     if (!parsed.success) {
@@ -388,15 +422,144 @@ router.post("/payouts", requireAuth, requireAdmin, requirePin, async (req, res)
       companyId: company.companyId,
     } as any);
 
-    res.status(201).json(payout);
+    // Plan the approval chain up front so /process cannot run ahead of it.
+    const approvalContext = await payoutApprovalContext(payout);
+    const approvalChain = approvalContext ? await ensureApprovalChain(approvalContext) : [];
+
+    res.status(201).json(approvalChain.length > 0 ? { ...payout, approvalChain } : payout);
+  } catch (error: any) {
+    const mapped = mapPaymentError(error, 'payout');
+    res.status(mapped.statusCode).json({ error: mapped.userMessage, correlationId: mapped.correlationId });
+  }
+});
+
+// ==================== STATUTORY REMITTANCES ====================
+
+const remittancePayoutSchema = z.object({
+  runId: z.string().min(1).max(64),
+  remittanceId: z.string().min(1).max(120),
+  // The authority, set up as a vendor with its collection account.
+  vendorId: z.string().min(1).max(64),
+  destinationId: z.string().min(1).max(64).optional(),
+});
+
+// Schedules a payroll run's remittance to one authority (PAYE, pension…)
+// as a payout due on the authority's deadline. It then goes through the
+// usual approval and /process steps. A unique index on the run and
+// remittance id stops a concurrent request scheduling it twice.
+router.post("/payouts/remittances", requireAuth, requireAdmin, requirePin, idempotency, async (req, res) => {
+  try {
+    const parsed = remittancePayoutSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid remittance payout", details: parsed.error.issues });
+    }
+    const { runId, remittanceId, vendorId, destinationId } = parsed.data;
+
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const initiatedBy = (req as any).user?.uid || (req as any).user?.cognitoSub;
+    if (!initiatedBy) {
+      return res.status(401).json({ error: "Authenticated initiator required" });
+    }
+
+    const run = await storage.getPayrollRun(runId, company.companyId);
+    if (!run) {
+      return res.status(404).json({ error: "Payroll run not found" });
+    }
+    if (run.status !== 'paid') {
+      return res.status(409).json({ error: "Only a fully paid payroll run can be remitted" });
+    }
+    const remittance = (await runRemittances(run)).find((r) => r.id === remittanceId);
+    if (!remittance) {
+      return res.status(404).json({ error: "Remittance not found" });
+    }
+    if (remittance.payout) {
+      return res.status(409).json({ error: "This remittance is already scheduled", payoutId: remittance.payout.id });
+    }
+
+    const vendor = await storage.getVendor(vendorId);
+    if (!vendor || vendor.companyId !== company.companyId) {
+      return res.status(404).json({ error: "Vendor not found" });
+    }
+    const destinations = await storage.getPayoutDestinations(undefined, vendor.id);
+    const destination = destinationId
+      ? destinations.find((d) => d.id === destinationId)
+      : destinations.find((d) => d.isDefault) || destinations[0];
+    if (!destination) {
+      return res.status(400).json({ error: "The authority has no payout destination configured" });
+    }
+    const currencyCheck = validatePayoutCurrency(remittance.currency, destination.country || 'US');
+    if (!currencyCheck.valid) {
+      return res.status(400).json({
+        error: currencyCheck.error,
+        expectedCurrencies: currencyCheck.expectedCurrencies,
+        destinationCountry: currencyCheck.country,
+      });
+    }
+
+    let payout;
+    try {
+      payout = await storage.createPayout({
+        type: REMITTANCE_PAYOUT_TYPE,
+        amount: remittance.total.toFixed(2),
+        currency: remittance.currency,
+        status: 'pending',
+        recipientType: 'vendor',
+        recipientId: vendor.id,
+        recipientName: vendor.name,
+        destinationId: destination.id,
+        provider: destination.provider,
+        relatedEntityType: 'payroll_run',
+        relatedEntityId: run.id,
+        nextRunDate: remittance.dueDate,
+        metadata: {
+          remittanceId: remittance.id,
+          authority: remittance.authority,
+          country: remittance.country,
+          kind: remittance.kind,
+          employeeTotal: remittance.employeeTotal,
+          employerTotal: remittance.employerTotal,
+          dueDate: remittance.dueDate,
+          runName: run.name,
+        },
+        initiatedBy,
+        companyId: company.companyId,
+      });
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        const scheduled = (await runRemittances(run)).find((r) => r.id === remittanceId)?.payout;
+        return res.status(409).json({ error: "This remittance is already scheduled", payoutId: scheduled?.id });
+      }
+      throw error;
+    }
+
+    await logAudit('payout', payout.id, 'create', initiatedBy, await getAuditUserName(req), undefined,
+      { status: payout.status, amount: payout.amount, currency: payout.currency },
+      { payrollRunId: run.id, remittanceId: remittance.id, authority: remittance.authority, dueDate: remittance.dueDate }
+    );
+
+    const approvalContext = await payoutApprovalContext(payout);
+    const approvalChain = approvalContext ? await ensureApprovalChain(approvalContext) : [];
+
+    res.status(201).json(approvalChain.length > 0 ? { ...payout, approvalChain } : payout);
   } catch (error: any) {
     const mapped = mapPaymentError(error, 'payout');
     res.status(mapped.statusCode).json({ error: mapped.userMessage, correlationId: mapped.correlationId });
   }
 });
 
+// Approval context for a payout no one has approved yet. Payouts already
+// part-way through the legacy dual approval finish on that path.
+async function pendingPayoutApprovalContext(req: express.Request) {
+  const payout = await storage.getPayout(param(req.params.id));
+  if (!payout || payout.status !== 'pending') return null;
+  return payoutApprovalContext(payout);
+}
+
 // Payout approval (maker-checker for high-value)
-router.post("/payouts/:id/approve", requireAuth, requireAdmin, requirePin, async (req, res) => {
+router.post("/payouts/:id/approve", requireAuth, requireAdminOrApprover(pendingPayoutApprovalContext), requirePin, async (req, res) => {
   try {
     const userId = (req as any).user?.uid;
     const userName = await getAuditUserName(req);
@@ -426,6 +589,58 @@ router.post("/payouts/:id/approve", requireAuth, requireAdmin, requirePin, async
       });
     }
 
+    // A matching approval policy replaces the dual-approval threshold:
+    // the payout is approved once every step of its chain has signed off.
+    const approvalContext = payout.status === 'pending' ? await payoutApprovalContext(payout) : null;
+    if (approvalContext) {
+      const outcome = await approveNextStep(approvalContext, { userId, name: userName }, req.body?.reason);
+      if (outcome.kind !== 'no_policy') {
+        await logAudit(
+          'payout',
+          payout.id,
+          outcome.kind === 'denied' ? 'approval_denied' : 'approval_step',
+          userId,
+          userName,
+          null,
+          null,
+          { outcome: outcome.kind, amount, approvalChain: outcome.steps.map((s) => ({ label: s.label, status: s.status, actedBy: s.actedBy })) }
+        );
+      }
+      const reply = approvalOutcomeResponse(outcome);
+      if (reply) return res.status(reply.status).json(reply.body);
+
+      if (outcome.kind === 'complete') {
+        const updatedPayout = await storage.updatePayout(payout.id, {
+          status: 'approved',
+          approvedBy: userId,
+        });
+
+        await logAudit(
+          'payout',
+          payout.id,
+          'approved',
+          userId,
+          userName,
+          { status: payout.status },
+          { status: 'approved', approvedBy: userId },
+          { amount, approvalPolicy: true, approvers: outcome.steps.map((s) => s.actedBy) }
+        );
+
+        if (payout.initiatedBy) {
+          notificationService.notifyPayoutApproved(payout.initiatedBy, {
+            amount, currency: payout.currency, recipientName: payout.recipientName || 'Recipient', approverName: userName,
+          }).catch(console.error);
+        }
+
+        return res.json({
+          status: 'approved',
+          message: 'Payout approved by every step of its approval policy. Ready for processing.',
+          payout: updatedPayout,
+          approvalChain: outcome.steps,
+        });
+      }
+    }
+
     // Check if dual approval is needed
     if (amount >= dualApprovalThreshold) {
 
@@ -551,7 +766,7 @@ router.post("/payouts/:id/approve", requireAuth, requireAdmin, requirePin, async
 //       'Completed' once the bank settles).
 //   5b. Failure → compensating credit (DB transaction), mark local txn
 //       'Failed', mark payout 'failed' with a failureReason.
-router.post("/payouts/:id/process", requireAuth, requireAdmin, requirePin, async (req, res) => {
+router.post("/payouts/:id/process", requireAuth, requireAdmin, requirePin, idempotency, async (req, res) => {
   // Pre-claim phase — read the row, then atomically claim it.
   let payout: Awaited<ReturnType<typeof storage.getPayout>> | null = null;
   try {
@@ -559,11 +774,19 @@ router.post("/payouts/:id/process", requireAuth, requireAdmin, requirePin, async
     if (!payout) {
       return res.status(404).json({ error: "Payout not found" });
     }
+    const company = await resolveUserCompany(req);
+    if (company?.companyId && !(await verifyCompanyAccess(payout.companyId, company.companyId))) {
+      return res.status(403).json({ error: "Access denied" });
+    }
 
     if (!['pending', 'approved'].includes(payout.status)) {
       return res.status(400).json({ error: `Payout cannot be processed in '${payout.status}' status. Must be 'pending' or 'approved'.` });
     }
 
+    if (await isAwaitingApproval('payout', payout.id)) {
+      return res.status(403).json({ error: "Payout is still awaiting approval" });
+    }
+
     const destination = payout.destinationId
       ? await storage.getPayoutDestination(payout.destinationId)
       : null;
@@ -589,6 +812,20 @@ router.post("/payouts/:id/process", requireAuth, requireAdmin, requirePin, async
     // `payout = claimed` reassignment below.
     const companyIdForDebit: string = payout.companyId;
 
+    // Sanctions screening — the vendor / employee and the account name
+    // must have no open or confirmed watchlist match.
+    const hold = await sanctionsHold(payout.companyId, payoutSubjects(payout, destination), (req as any).user?.uid);
+    if (hold) {
+      return res.status(403).json(sanctionsHoldBody(hold));
+    }
+
+    // Fraud rules — a rule set to hold payouts keeps this one back until
+    // an admin dismisses its alert.
+    const fraudHold = await monitoringHold(payout, destination, (req as any).user?.uid);
+    if (fraudHold) {
+      return res.status(403).json(monitoringHoldBody(fraudHold));
+    }
+
     // AUD-DB-007 — daily payout limit gate (per company, per currency).
     // AUD-DB-007 follow-up — consult the per-company override map first;
     // fall back to the hardcoded floor in DAILY_PAYOUT_LIMITS only when
@@ -823,7 +1060,7 @@ router.post("/payouts/:id/process", requireAuth, requireAdmin, requirePin, async
 
 // ==================== BATCH PAYOUT PROCESSING ====================
 
-router.post("/payouts/batch", requireAuth, requireAdmin, requirePin, async (req, res) => {
+router.post("/payouts/batch", requireAuth, requireAdmin, requirePin, idempotency, async (req, res) => {
   try {
     const { payoutIds } = req.body;
 
@@ -867,6 +1104,12 @@ router.post("/payouts/batch", requireAuth, requireAdmin, requirePin, async (req,
           continue;
         }
 
+        if (await isAwaitingApproval('payout', payout.id)) {
+          results.push({ payoutId, status: 'skipped', error: 'Payout is still awaiting approval' });
+          skipped++;
+          continue;
+        }
+
         const destination = payout.destinationId
           ? await storage.getPayoutDestination(payout.destinationId)
           : null;
@@ -896,6 +1139,20 @@ router.post("/payouts/batch", requireAuth, requireAdmin, requirePin, async (req,
         }
         const companyIdForDebit: string = payout.companyId;
 
+        const hold = await sanctionsHold(payout.companyId, payoutSubjects(payout, destination), (req as any).user?.uid);
+        if (hold) {
+          results.push({ payoutId, status: 'skipped', error: sanctionsHoldBody(hold).error });
+          skipped++;
+          continue;
+        }
+
+        const fraudHold = await monitoringHold(payout, destination, (req as any).user?.uid);
+        if (fraudHold) {
+          results.push({ payoutId, status: 'skipped', error: monitoringHoldBody(fraudHold).error });
+          skipped++;
+          continue;
+        }
+
         // AUD-DB-007 — daily payout limit gate. Same per-currency limits
         // as /payouts/:id/process, including per-company overrides.
         // Counted separately per row so a batch that crosses the
@@ -1184,6 +1441,7 @@ router.post("/payouts/:id/reject", requireAuth, requireAdmin, requirePin, async
       status: 'rejected',
       failureReason: reason || 'Rejected by admin',
     });
+    await storage.clearApprovalChain('payout', payout.id);
 
     await logAudit(
       'payout',
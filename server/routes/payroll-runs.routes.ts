@@ -0,0 +1,226 @@
+import express from "express";
+import { storage } from "../storage";
+import { requireAuth, requireAdmin, requirePin } from "../middleware/auth";
+import { financialLimiter } from "../middleware/rateLimiter";
+import { idempotency } from "../middleware/idempotency";
+import {
+  param,
+  resolveUserCompany,
+  logAudit,
+  getAuditUserName,
+  payrollRunSchema,
+  payrollRunReversalSchema,
+} from "./shared";
+import {
+  draftPayrollRun,
+  approvePayrollRun,
+  payPayrollRun,
+  reversePayrollRun,
+  payslipFor,
+  type PayrollActor,
+} from "../payrollRuns";
+import { runTransitionProblem } from "../lib/payroll-run";
+import { runRemittances, remittanceExport } from "../payrollRemittances";
+
+const router = express.Router();
+
+// ==================== PAYROLL RUNS ====================
+// A pay period's entries frozen into one run: draft → approved → paid,
+// with reversal. Mounted ahead of payroll.routes.ts so /payroll/runs is
+// not taken for a payroll entry id.
+
+async function payrollActor(req: express.Request): Promise<PayrollActor> {
+  return { userId: (req as any).user?.uid || 'system', name: await getAuditUserName(req) };
+}
+
+async function loadRun(req: express.Request, res: express.Response) {
+  const company = await resolveUserCompany(req);
+  if (!company?.companyId) {
+    res.status(403).json({ error: "Company context required" });
+    return null;
+  }
+  const run = await storage.getPayrollRun(param(req.params.id), company.companyId);
+  if (!run) {
+    res.status(404).json({ error: "Payroll run not found" });
+    return null;
+  }
+  return run;
+}
+
+router.get("/payroll/runs", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    res.json(await storage.getPayrollRuns(company.companyId));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch payroll runs" });
+  }
+});
+
+router.get("/payroll/runs/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const run = await loadRun(req, res);
+    if (!run) return;
+    res.json({ ...run, items: await storage.getPayrollRunItems(run.id) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch payroll run" });
+  }
+});
+
+router.post("/payroll/runs", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const parsed = payrollRunSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid payroll run", details: parsed.error.issues });
+    }
+    const company = await resolveUserCompany(req);
+    if (!company?.companyId) {
+      return res.status(403).json({ error: "Company context required" });
+    }
+    const actor = await payrollActor(req);
+    const result = await draftPayrollRun(company.companyId, parsed.data, actor);
+    if (!result.ok) return res.status(result.status).json(result.body);
+
+    await logAudit('payroll_run', result.run.id, 'create', actor.userId, actor.name, undefined,
+      { status: result.run.status, employeeCount: result.run.employeeCount, totalNet: result.run.totalNet },
+      { periodStart: result.run.periodStart, periodEnd: result.run.periodEnd, entryIds: result.items.map((i) => i.payrollEntryId) }
+    );
+    res.status(201).json({ ...result.run, items: result.items, skipped: result.skipped });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to create payroll run" });
+  }
+});
+
+router.delete("/payroll/runs/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const run = await loadRun(req, res);
+    if (!run) return;
+    const problem = runTransitionProblem(run.status, 'delete');
+    if (problem || !await storage.deleteDraftPayrollRun(run.id, run.companyId)) {
+      return res.status(409).json({ error: problem || "The payroll run is no longer a draft" });
+    }
+    const actor = await payrollActor(req);
+    await logAudit('payroll_run', run.id, 'delete', actor.userId, actor.name,
+      { status: run.status, employeeCount: run.employeeCount, totalNet: run.totalNet }, undefined,
+      { periodStart: run.periodStart, periodEnd: run.periodEnd }
+    );
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: "Failed to delete payroll run" });
+  }
+});
+
+router.post("/payroll/runs/:id/approve", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const run = await loadRun(req, res);
+    if (!run) return;
+    const actor = await payrollActor(req);
+    const result = await approvePayrollRun(run, actor);
+    if (!result.ok) return res.status(result.status).json(result.body);
+
+    await logAudit('payroll_run', run.id, 'approve', actor.userId, actor.name,
+      { status: run.status }, { status: result.run.status },
+      { totalNet: run.totalNet, employeeCount: run.employeeCount }
+    );
+    res.json(result.run);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to approve payroll run" });
+  }
+});
+
+router.post("/payroll/runs/:id/pay", financialLimiter, requireAuth, requireAdmin, requirePin, idempotency, async (req, res) => {
+  try {
+    const run = await loadRun(req, res);
+    if (!run) return;
+    const actor = await payrollActor(req);
+    // Logged before the transfers so there is a record of the intent even
+    // if the process dies part-way.
+    await logAudit('payroll_run', run.id, 'pay-started', actor.userId, actor.name,
+      { status: run.status }, undefined,
+      { totalNet: run.totalNet, employeeCount: run.employeeCount }
+    );
+    const result = await payPayrollRun(run, actor);
+    if (!result.ok) return res.status(result.status).json(result.body);
+
+    await logAudit('payroll_run', run.id, 'pay', actor.userId, actor.name,
+      { status: run.status }, { status: result.run.status, ...result.summary },
+      { items: result.items.map((i) => ({ id: i.id, status: i.status, reference: i.reference })) }
+    );
+    res.json({ ...result.run, items: result.items, summary: result.summary });
+  } catch (error: any) {
+    console.error('Payroll run pay error:', error);
+    res.status(500).json({ error: "Failed to pay payroll run" });
+  }
+});
+
+router.post("/payroll/runs/:id/reverse", requireAuth, requireAdmin, requirePin, async (req, res) => {
+  try {
+    const parsed = payrollRunReversalSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid reversal", details: parsed.error.issues });
+    }
+    const run = await loadRun(req, res);
+    if (!run) return;
+    const actor = await payrollActor(req);
+    const result = await reversePayrollRun(run, parsed.data.reason, actor);
+    if (!result.ok) return res.status(result.status).json(result.body);
+
+    await logAudit('payroll_run', run.id, 'reverse', actor.userId, actor.name,
+      { status: run.status }, { status: result.run.status, reason: parsed.data.reason, ...result.summary },
+      { totalNet: run.totalNet }
+    );
+    res.json({ ...result.run, items: result.items, summary: result.summary });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to reverse payroll run" });
+  }
+});
+
+router.get("/payroll/runs/:id/payslips/:itemId", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const run = await loadRun(req, res);
+    if (!run) return;
+    const item = (await storage.getPayrollRunItems(run.id)).find((i) => i.id === param(req.params.itemId));
+    if (!item) {
+      return res.status(404).json({ error: "Payslip not found" });
+    }
+    const { fileName, pdf } = payslipFor(run, item, await storage.getCompany(run.companyId));
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(pdf);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to generate payslip" });
+  }
+});
+
+// Statutory remittances: what the run withheld for each authority, with
+// the schedule to file. Paying one goes through POST /payouts/remittances.
+router.get("/payroll/runs/:id/remittances", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const run = await loadRun(req, res);
+    if (!run) return;
+    res.json(await runRemittances(run));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch remittances" });
+  }
+});
+
+router.get("/payroll/runs/:id/remittances/:remittanceId/export", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const run = await loadRun(req, res);
+    if (!run) return;
+    const remittance = (await runRemittances(run)).find((r) => r.id === param(req.params.remittanceId));
+    if (!remittance) {
+      return res.status(404).json({ error: "Remittance not found" });
+    }
+    const { fileName, content } = remittanceExport(run, remittance);
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(content);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to export remittance schedule" });
+  }
+});
+
+export default router;
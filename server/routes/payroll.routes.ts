@@ -3,6 +3,7 @@ import { z } from "zod";
 import { storage } from "../storage";
 import { requireAuth, requireAdmin, requirePin } from "../middleware/auth";
 import { financialLimiter } from "../middleware/rateLimiter";
+import { idempotency } from "../middleware/idempotency";
 import {
   param,
   resolveUserCompany,
@@ -20,6 +21,10 @@ import { paystackClient } from "../paystackClient";
 import { notificationService } from "../services/notification-service";
 import { mapPaymentError } from "../utils/paymentUtils";
 import { computeNextDate } from "../recurringScheduler";
+import { applyProgressiveTax, computePayrollDeductions, manualOtherDeductions, type StatutoryLine } from "../lib/statutory-deductions";
+import { canPaySalaryTo, salaryDestination } from "../lib/payroll-run";
+import { statutoryDeductions } from "../payrollDeductions";
+import { sanctionsHold, sanctionsHoldBody, destinationSubject } from "../sanctionsScreening";
 import { db } from "../db";
 
 const router = express.Router();
@@ -35,57 +40,6 @@ router.get("/payroll", requireAuth, requireAdmin, async (req, res) => {
   }
 });
 
-// AUD-PR-012 — generic progressive-tax engine. Applied uniformly to
-// every country's bracket set (sourced from the tax_brackets table).
-// Mirrors the per-country switch logic that used to live inline:
-//
-// - Each tier has SLICE width (`limit`) and a rate. limit:null means
-//   "remainder of income above prior tiers" (the JS Infinity sentinel
-//   in the old code).
-// - `cadence: 'monthly'` divides salary by 12 before bracketing
-//   (KE behaviour) and multiplies the result by 12 for the annual
-//   total. Annual brackets do not divide.
-// - `flatReduction` is subtracted at the end (KE personal relief,
-//   ZA rebate) and clamped non-negative.
-// - The response retains shape compatibility with the previous handler.
-function applyProgressiveTax(
-  salary: number,
-  cadence: 'annual' | 'monthly',
-  tiers: Array<{ limit: number | null; rate: number }>,
-  flatReduction: number,
-): { tax: number; brackets: Array<{ rate: number; amount: number }> } {
-  const base = cadence === 'monthly' ? salary / 12 : salary;
-  let remaining = base;
-  let tax = 0;
-  const brackets: Array<{ rate: number; amount: number }> = [];
-  for (const tier of tiers) {
-    const cap = tier.limit ?? Number.POSITIVE_INFINITY;
-    const taxable = Math.min(remaining, cap);
-    if (taxable <= 0) break;
-    const amt = taxable * tier.rate;
-    tax += amt;
-    if (tier.rate > 0) {
-      // Suppress zero-rate (personal-allowance) bands from the
-      // response, matching the historical GH / GB behaviour. Other
-      // countries don't have zero-rate tiers, so this is a no-op
-      // for them. Monthly KE collapses its breakdown to a single
-      // weighted-rate row below regardless.
-      brackets.push({ rate: tier.rate * 100, amount: amt });
-    }
-    remaining -= taxable;
-  }
-  if (cadence === 'monthly') {
-    const monthlyTax = Math.max(0, tax - flatReduction);
-    const annual = monthlyTax * 12;
-    return {
-      tax: annual,
-      brackets: [{ rate: salary > 0 ? (annual / salary) * 100 : 0, amount: annual }],
-    };
-  }
-  tax = Math.max(0, tax - flatReduction);
-  return { tax, brackets };
-}
-
 router.get("/payroll/tax-estimate", requireAuth, async (req, res) => {
   try {
     const { country, annualSalary, asOf } = req.query;
@@ -114,6 +68,14 @@ router.get("/payroll/tax-estimate", requireAuth, async (req, res) => {
       effectiveFrom = config.effectiveFrom;
     }
 
+    const statutory = computePayrollDeductions({
+      country: countryCode,
+      gross: salary,
+      frequency: 'yearly',
+      rules: await storage.getStatutoryRulesForCountry(countryCode, asOfDate),
+      tax: null,
+    });
+
     res.json({
       annualTax: Math.round(tax * 100) / 100,
       monthlyTax: Math.round((tax / 12) * 100) / 100,
@@ -123,12 +85,30 @@ router.get("/payroll/tax-estimate", requireAuth, async (req, res) => {
       // can surface how dated the underlying tax tables are.
       source,
       effectiveFrom,
+      // Annual statutory contributions on top of income tax.
+      statutory: {
+        lines: statutory.lines,
+        employeeTotal: statutory.employeeTotal,
+        employerTotal: statutory.employerTotal,
+      },
     });
   } catch (error) {
     res.status(500).json({ error: "Failed to estimate tax" });
   }
 });
 
+router.get("/payroll/statutory-rules", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const countryCode = (typeof req.query.country === 'string' && req.query.country ? req.query.country : 'US').toUpperCase();
+    const asOf = typeof req.query.asOf === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(req.query.asOf)
+      ? req.query.asOf
+      : undefined;
+    res.json(await storage.getStatutoryRulesForCountry(countryCode, asOf));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch statutory rules" });
+  }
+});
+
 router.get("/payroll/:id", requireAuth, requireAdmin, async (req, res) => {
   try {
     // AUD-PR-002 — fail-closed if no company context; storage-level
@@ -153,7 +133,7 @@ router.post("/payroll", requireAuth, requireAdmin, async (req, res) => {
     if (!result.success) {
       return res.status(400).json({ error: "Invalid payroll data", details: result.error.issues });
     }
-    const { employeeId, employeeName, department, country, currency, salary, bonus, deductions, deductionBreakdown, payDate, recurring, frequency, email } = result.data;
+    const { employeeId, employeeName, department, country, currency, salary, bonus, deductions, deductionBreakdown, payDate, recurring, frequency, email, statutory } = result.data;
     const company = await resolveUserCompany(req);
     // AUD-PR-007 — fail-closed when company resolution is missing so we
     // never write a payroll row with NULL companyId (which would be
@@ -189,7 +169,30 @@ router.post("/payroll", requireAuth, requireAdmin, async (req, res) => {
 
     const salaryNum = parseFloat(salary);
     const bonusNum = parseFloat(bonus || '0');
-    const deductionsNum = parseFloat(deductions || '0');
+    const actualPayDate = payDate || new Date().toISOString().split('T')[0];
+    const entryFrequency = recurring ? (frequency || 'monthly') : 'once';
+
+    // Statutory deductions for the country on the pay date, unless the
+    // caller itemised the deductions itself. `deductions` is then the
+    // hand-entered part, withheld on top.
+    let deductionsNum = parseFloat(deductions || '0');
+    let breakdown = deductionBreakdown || null;
+    let statutoryLines: StatutoryLine[] | null = null;
+    let employerContributions = '0';
+    if (statutory && !deductionBreakdown && Number.isFinite(salaryNum)) {
+      const computed = await statutoryDeductions({
+        country: resolvedCountry,
+        payDate: actualPayDate,
+        frequency: entryFrequency,
+        salary: salaryNum,
+        bonus: Number.isFinite(bonusNum) ? bonusNum : 0,
+        otherDeductions: Number.isFinite(deductionsNum) ? deductionsNum : 0,
+      });
+      deductionsNum = computed.employeeTotal;
+      breakdown = computed.breakdown;
+      statutoryLines = computed.lines;
+      employerContributions = computed.employerTotal.toFixed(2);
+    }
     const netPayNum = salaryNum + bonusNum - deductionsNum;
     // AUD-DD-FORM-021 — refuse negative netPay. The previous code
     // happily wrote a row where deductions exceeded salary+bonus,
@@ -204,7 +207,6 @@ router.post("/payroll", requireAuth, requireAdmin, async (req, res) => {
         netPay: Number.isFinite(netPayNum) ? netPayNum : null,
       });
     }
-    const actualPayDate = payDate || new Date().toISOString().split('T')[0];
 
     const entry = await storage.createPayrollEntry({
       employeeId: employeeId || String(Date.now()),
@@ -214,13 +216,15 @@ router.post("/payroll", requireAuth, requireAdmin, async (req, res) => {
       currency: resolvedCurrency,
       salary,
       bonus: bonus || '0',
-      deductions: deductions || '0',
-      deductionBreakdown: deductionBreakdown || null,
-      netPay: String(netPayNum),
+      deductions: deductionsNum.toFixed(2),
+      deductionBreakdown: breakdown,
+      statutoryLines,
+      employerContributions,
+      netPay: netPayNum.toFixed(2),
       status: 'pending',
       payDate: actualPayDate,
       recurring: recurring || false,
-      frequency: recurring ? (frequency || 'monthly') : 'once',
+      frequency: entryFrequency,
       nextPayDate: recurring ? computeNextDate(actualPayDate, frequency || 'monthly') : null,
       companyId: company.companyId,
       email: email || null,
@@ -263,7 +267,41 @@ router.patch("/payroll/:id", requireAuth, requireAdmin, async (req, res) => {
     if (!company?.companyId) {
       return res.status(403).json({ error: "Company context required" });
     }
-    const entry = await storage.updatePayrollEntryInCompany(param(req.params.id), company.companyId, result.data);
+    const { statutory: _statutory, ...changes } = result.data;
+    let update: Record<string, any> = changes;
+
+    // An entry whose deductions were worked out is worked out again when
+    // its pay, country or date changes; `deductions` is the hand-entered part.
+    const payFields = ['salary', 'bonus', 'deductions', 'country', 'payDate', 'frequency'] as const;
+    if (!changes.deductionBreakdown && payFields.some((f) => changes[f] !== undefined)) {
+      const existing = await storage.getPayrollEntryInCompany(param(req.params.id), company.companyId);
+      if (existing?.statutoryLines) {
+        const salaryNum = parseFloat(changes.salary ?? existing.salary);
+        const bonusNum = parseFloat(changes.bonus ?? existing.bonus);
+        const computed = await statutoryDeductions({
+          country: changes.country ?? existing.country,
+          payDate: changes.payDate ?? existing.payDate,
+          frequency: changes.frequency ?? existing.frequency,
+          salary: salaryNum,
+          bonus: bonusNum,
+          otherDeductions: changes.deductions !== undefined
+            ? parseFloat(changes.deductions) || 0
+            : manualOtherDeductions(existing.deductionBreakdown, existing.statutoryLines),
+        });
+        if (computed.netPay < 0) {
+          return res.status(400).json({ error: 'netPay would be negative — deductions cannot exceed salary + bonus' });
+        }
+        update = {
+          ...changes,
+          deductions: computed.employeeTotal.toFixed(2),
+          deductionBreakdown: computed.breakdown,
+          statutoryLines: computed.lines,
+          employerContributions: computed.employerTotal.toFixed(2),
+          netPay: computed.netPay.toFixed(2),
+        };
+      }
+    }
+    const entry = await storage.updatePayrollEntryInCompany(param(req.params.id), company.companyId, update);
     if (!entry) {
       return res.status(404).json({ error: "Payroll entry not found" });
     }
@@ -277,7 +315,7 @@ router.patch("/payroll/:id", requireAuth, requireAdmin, async (req, res) => {
       actorId,
       actorName,
       undefined,
-      result.data,
+      update,
       { companyId: entry.companyId },
       (req as any).ip,
     );
@@ -318,7 +356,7 @@ router.delete("/payroll/:id", requireAuth, requireAdmin, async (req, res) => {
   }
 });
 
-router.post("/payroll/process", financialLimiter, requireAuth, requireAdmin, requirePin, async (req, res) => {
+router.post("/payroll/process", financialLimiter, requireAuth, requireAdmin, requirePin, idempotency, async (req, res) => {
   try {
     // AUD-PR-001 — fail-closed if no company context, then scope the
     // pending-entries query to the caller's tenant. The previous code
@@ -333,8 +371,11 @@ router.post("/payroll/process", financialLimiter, requireAuth, requireAdmin, req
     const entries = await storage.getPayroll(company.companyId);
     // Idempotency: only process entries that are strictly 'pending'
     // Skip any already in 'processing', 'completed', or 'paid' to prevent double-pay
+    // Entries held by an open payroll run are paid with the run.
+    const heldByRun = await storage.getOpenPayrollRunEntryIds(company.companyId);
     const pendingEntries = entries.filter(
       (e: any) => e.status === "pending" && e.status !== "processing" && e.status !== "completed" && e.status !== "paid"
+        && !heldByRun.has(e.id)
     );
 
     if (pendingEntries.length === 0) {
@@ -350,6 +391,7 @@ router.post("/payroll/process", financialLimiter, requireAuth, requireAdmin, req
     let totalInitiated = 0;
     let totalFailed = 0;
     let totalNoBanking = 0;
+    let totalHeld = 0;
 
     for (const entry of pendingEntries) {
       const salaryCheck = validateAmount(String(entry.netPay || 0));
@@ -364,9 +406,8 @@ router.post("/payroll/process", financialLimiter, requireAuth, requireAdmin, req
       if ((entry as any).payoutDestinationId) {
         defaultDest = await storage.getPayoutDestination((entry as any).payoutDestinationId);
       }
-      if (!defaultDest) {
-        const destinations = await storage.getPayoutDestinations(entry.employeeId);
-        defaultDest = destinations?.find((d: any) => d.isDefault) || destinations?.[0];
+      if (!defaultDest || !canPaySalaryTo(defaultDest)) {
+        defaultDest = salaryDestination(await storage.getPayoutDestinations(entry.employeeId));
       }
 
       if (!defaultDest) {
@@ -377,6 +418,16 @@ router.post("/payroll/process", financialLimiter, requireAuth, requireAdmin, req
         continue;
       }
 
+      const hold = await sanctionsHold(company.companyId, [
+        { type: 'payroll_recipient', id: entry.employeeId, name: entry.employeeName },
+        destinationSubject(defaultDest),
+      ], (req as any).user?.uid);
+      if (hold) {
+        results.push({ id: entry.id, name: entry.employeeName, status: 'sanctions_hold', error: sanctionsHoldBody(hold).error });
+        totalHeld++;
+        continue;
+      }
+
       // Initiate real transfer — use entry-level or destination-level currency
       const countryCode = (defaultDest as any).country || (entry as any).country || 'US';
       const provider = getPaymentProvider(countryCode);
@@ -484,19 +535,21 @@ router.post("/payroll/process", financialLimiter, requireAuth, requireAdmin, req
       actorId,
       actorName,
       undefined,
-      { initiated: totalInitiated, failed: totalFailed, needsBankingDetails: totalNoBanking },
+      { initiated: totalInitiated, failed: totalFailed, needsBankingDetails: totalNoBanking, sanctionsHold: totalHeld },
       { companyId: company.companyId, totalAmount: totalPaid, entryIds: pendingEntries.map(e => e.id) },
       (req as any).ip,
     );
 
     res.json({
-      message: `Payroll processing complete: ${totalInitiated} initiated, ${totalFailed} failed, ${totalNoBanking} need banking details`,
+      message: `Payroll processing complete: ${totalInitiated} initiated, ${totalFailed} failed, ${totalNoBanking} need banking details`
+        + (totalHeld > 0 ? `, ${totalHeld} held for sanctions review` : ''),
       results,
       summary: {
         total: pendingEntries.length,
         initiated: totalInitiated,
         failed: totalFailed,
         needsBankingDetails: totalNoBanking,
+        sanctionsHold: totalHeld,
         totalAmount: totalPaid,
       },
     });
@@ -507,7 +560,7 @@ router.post("/payroll/process", financialLimiter, requireAuth, requireAdmin, req
 });
 
 // Pay individual employee — initiates REAL bank transfer via Stripe/Paystack
-router.post("/payroll/:id/pay", requireAuth, requireAdmin, requirePin, async (req, res) => {
+router.post("/payroll/:id/pay", requireAuth, requireAdmin, requirePin, idempotency, async (req, res) => {
   try {
     // AUD-PR-002 — scoped fetch. Cross-tenant ids surface as 404 to avoid
     // leaking which payroll IDs exist in other companies.
@@ -523,12 +576,24 @@ router.post("/payroll/:id/pay", requireAuth, requireAdmin, requirePin, async (re
     if (entry.status !== "pending") {
       return res.status(400).json({ error: "Payroll entry is not pending" });
     }
+    if ((await storage.getOpenPayrollRunEntryIds(company.companyId)).has(entry.id)) {
+      return res.status(409).json({ error: "Payroll entry is part of a payroll run; pay it with the run" });
+    }
 
     const netPayAmount = parseFloat(String(entry.netPay || 0));
     if (netPayAmount <= 0) {
       return res.status(400).json({ error: "Invalid net pay amount" });
     }
 
+    const salaryDest = salaryDestination(await storage.getPayoutDestinations(entry.employeeId));
+    const hold = await sanctionsHold(company.companyId, [
+      { type: 'payroll_recipient', id: entry.employeeId, name: entry.employeeName },
+      ...(salaryDest ? [destinationSubject(salaryDest)] : []),
+    ], (req as any).user?.uid);
+    if (hold) {
+      return res.status(403).json(sanctionsHoldBody(hold));
+    }
+
     // AUD-PR-006 — atomic claim. Two concurrent /pay calls on the same id
     // can't both proceed: only the caller whose UPDATE sees status='pending'
     // wins. The second gets undefined and we return 409.
@@ -561,8 +626,7 @@ router.post("/payroll/:id/pay", requireAuth, requireAdmin, requirePin, async (re
 
     // --- DETERMINE PAYOUT DESTINATION ---
     // Check if employee has payout destinations configured
-    const destinations = await storage.getPayoutDestinations(entry.employeeId);
-    const defaultDest = destinations?.find((d: any) => d.isDefault) || destinations?.[0];
+    const defaultDest = salaryDest;
 
     let providerResult: any = null;
     let payoutStatus = 'processing';
@@ -714,7 +778,7 @@ const batchPayoutSchema = z.object({
   initiatedBy: z.string().optional(),
 });
 
-router.post("/payroll/batch-payout", requireAuth, requireAdmin, requirePin, async (req, res) => {
+router.post("/payroll/batch-payout", requireAuth, requireAdmin, requirePin, idempotency, async (req, res) => {
   try {
     const parsed = batchPayoutSchema.safeParse(req.body);
     if (!parsed.success) {
@@ -736,6 +800,7 @@ router.post("/payroll/batch-payout", requireAuth, requireAdmin, requirePin, asyn
     const ownedById = new Map<string, typeof ownedEntries[number]>();
     for (const e of ownedEntries) ownedById.set(e.id, e);
 
+    const heldByRun = await storage.getOpenPayrollRunEntryIds(company.companyId);
     const results: any[] = [];
 
     for (const payrollId of payrollIds) {
@@ -748,6 +813,10 @@ router.post("/payroll/batch-payout", requireAuth, requireAdmin, requirePin, asyn
           continue;
         }
         if (entry.status === 'paid') continue;
+        if (heldByRun.has(entry.id)) {
+          results.push({ payrollId, status: 'skipped', reason: 'in-payroll-run' });
+          continue;
+        }
 
         // AUD-PR-011 — refuse to create a payout when netPay is missing
         // or non-positive instead of silently falling back to gross
@@ -765,8 +834,7 @@ router.post("/payroll/batch-payout", requireAuth, requireAdmin, requirePin, asyn
         }
 
         // Get employee's payout destination
-        const destinations = await storage.getPayoutDestinations(entry.employeeId);
-        const defaultDestination = destinations.find(d => d.isDefault) || destinations[0];
+        const defaultDestination = salaryDestination(await storage.getPayoutDestinations(entry.employeeId));
 
         const settings = await getSettingsForRequest(req);
         const currency = settings.currency || 'USD';
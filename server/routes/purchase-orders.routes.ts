@@ -0,0 +1,423 @@
+import express from "express";
+import { storage } from "../storage";
+import { requireAuth, requireAdmin, requirePin } from "../middleware/auth";
+import {
+  param,
+  resolveUserCompany,
+  logAudit,
+  getAuditUserName,
+  purchaseOrderSchema,
+  purchaseOrderUpdateSchema,
+  goodsReceiptSchema,
+} from "./shared";
+import {
+  purchaseOrderApprovalContext,
+  ensureApprovalChain,
+  approveNextStep,
+  approvalOutcomeResponse,
+  requireAdminOrApprover,
+} from "../approvalChains";
+import { rematchPurchaseOrderBills } from "../purchaseOrders";
+import { purchaseOrderTotal } from "../lib/three-way-match";
+import type { PurchaseOrder } from "@shared/schema";
+
+const router = express.Router();
+
+// ==================== PURCHASE ORDERS ====================
+// Draft → pending_approval → approved, then received against with goods
+// receipts. Bills link to an order from bills.routes.ts and are matched
+// in server/purchaseOrders.ts.
+
+const EDITABLE_STATUSES = ['draft', 'rejected'];
+const CLOSABLE_STATUSES = ['approved', 'partially_received', 'received'];
+
+type CompanyPurchaseOrder = { po: PurchaseOrder; companyId: string };
+
+// The order named by :id when it belongs to the caller's company;
+// otherwise replies and returns null.
+async function loadPurchaseOrder(req: express.Request, res: express.Response): Promise<CompanyPurchaseOrder | null> {
+  const company = await resolveUserCompany(req);
+  if (!company) {
+    res.status(403).json({ error: "No active company membership" });
+    return null;
+  }
+  const po = await storage.getPurchaseOrder(param(req.params.id));
+  if (!po || po.companyId !== company.companyId) {
+    res.status(404).json({ error: "Purchase order not found" });
+    return null;
+  }
+  return { po, companyId: company.companyId };
+}
+
+function lineRows(lines: Array<{ description: string; quantity: number; unitPrice: number }>) {
+  return lines.map((l, i) => ({
+    lineIndex: i,
+    description: l.description,
+    quantity: String(l.quantity),
+    unitPrice: l.unitPrice.toFixed(2),
+  }));
+}
+
+// Approval context for an order that is still awaiting approval.
+async function pendingPurchaseOrderApprovalContext(req: express.Request) {
+  const po = await storage.getPurchaseOrder(param(req.params.id));
+  if (!po || po.status !== 'pending_approval') return null;
+  return purchaseOrderApprovalContext(po);
+}
+
+// ?status= and ?vendorId= filter.
+router.get("/purchase-orders", requireAuth, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+    const vendorId = typeof req.query.vendorId === 'string' ? req.query.vendorId : undefined;
+    res.json(await storage.getPurchaseOrders(company.companyId, { status, vendorId }));
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to fetch purchase orders" });
+  }
+});
+
+router.get("/purchase-orders/:id", requireAuth, async (req, res) => {
+  try {
+    const loaded = await loadPurchaseOrder(req, res);
+    if (!loaded) return;
+    const { po } = loaded;
+    const [lines, receipts, bills, approvalChain] = await Promise.all([
+      storage.getPurchaseOrderLines(po.id),
+      storage.getGoodsReceipts(po.id),
+      storage.getBillsForPurchaseOrder(po.id),
+      storage.getApprovalSteps('purchase_order', po.id),
+    ]);
+    res.json({ ...po, lines, receipts, bills, approvalChain });
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to fetch purchase order" });
+  }
+});
+
+router.post("/purchase-orders", requireAuth, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const parsed = purchaseOrderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid purchase order", details: parsed.error.issues });
+    }
+    const data = parsed.data;
+    const vendor = await storage.getVendor(data.vendorId);
+    if (!vendor || vendor.companyId !== company.companyId) {
+      return res.status(400).json({ error: "Vendor not found" });
+    }
+
+    const userId = (req as any).user?.uid || 'unknown';
+    const userName = await getAuditUserName(req);
+    const po = await storage.createPurchaseOrder({
+      companyId: company.companyId,
+      vendorId: vendor.id,
+      vendorName: vendor.name,
+      currency: (data.currency ?? vendor.currency ?? 'USD').toUpperCase(),
+      status: 'draft',
+      totalAmount: purchaseOrderTotal(data.lines).toFixed(2),
+      expectedDate: data.expectedDate ?? null,
+      notes: data.notes ?? null,
+      ...(data.priceTolerancePercent !== undefined && { priceTolerancePercent: String(data.priceTolerancePercent) }),
+      ...(data.quantityTolerancePercent !== undefined && { quantityTolerancePercent: String(data.quantityTolerancePercent) }),
+      createdBy: userId,
+      createdByName: userName,
+    }, lineRows(data.lines));
+
+    await logAudit('purchase_order', po.id, 'created', userId, userName,
+      null,
+      { status: po.status, totalAmount: po.totalAmount },
+      { poNumber: po.poNumber, vendorId: po.vendorId, lineCount: data.lines.length }
+    );
+
+    res.status(201).json(po);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to create purchase order" });
+  }
+});
+
+// Drafts and rejected orders can be edited; editing a rejected order
+// returns it to draft for resubmission.
+router.patch("/purchase-orders/:id", requireAuth, async (req, res) => {
+  try {
+    const loaded = await loadPurchaseOrder(req, res);
+    if (!loaded) return;
+    const { po, companyId } = loaded;
+    const parsed = purchaseOrderUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid purchase order", details: parsed.error.issues });
+    }
+    if (!EDITABLE_STATUSES.includes(po.status)) {
+      return res.status(400).json({ error: "Only draft or rejected purchase orders can be edited" });
+    }
+    const data = parsed.data;
+
+    const changes: Partial<PurchaseOrder> = { status: 'draft', rejectionReason: null };
+    if (data.vendorId && data.vendorId !== po.vendorId) {
+      const vendor = await storage.getVendor(data.vendorId);
+      if (!vendor || vendor.companyId !== companyId) {
+        return res.status(400).json({ error: "Vendor not found" });
+      }
+      changes.vendorId = vendor.id;
+      changes.vendorName = vendor.name;
+    }
+    if (data.currency) changes.currency = data.currency.toUpperCase();
+    if (data.expectedDate !== undefined) changes.expectedDate = data.expectedDate;
+    if (data.notes !== undefined) changes.notes = data.notes;
+    if (data.priceTolerancePercent !== undefined) changes.priceTolerancePercent = String(data.priceTolerancePercent);
+    if (data.quantityTolerancePercent !== undefined) changes.quantityTolerancePercent = String(data.quantityTolerancePercent);
+    if (data.lines) changes.totalAmount = purchaseOrderTotal(data.lines).toFixed(2);
+
+    const updated = await storage.updatePurchaseOrder(po.id, EDITABLE_STATUSES, changes, data.lines && lineRows(data.lines));
+    if (!updated) {
+      return res.status(409).json({ error: "Purchase order changed while being edited" });
+    }
+
+    const userId = (req as any).user?.uid || 'unknown';
+    await logAudit('purchase_order', po.id, 'updated', userId, await getAuditUserName(req),
+      { status: po.status, totalAmount: po.totalAmount },
+      { status: updated.status, totalAmount: updated.totalAmount },
+      { poNumber: po.poNumber }
+    );
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to update purchase order" });
+  }
+});
+
+router.post("/purchase-orders/:id/submit", requireAuth, async (req, res) => {
+  try {
+    const loaded = await loadPurchaseOrder(req, res);
+    if (!loaded) return;
+    const { po } = loaded;
+    if (!EDITABLE_STATUSES.includes(po.status)) {
+      return res.status(400).json({ error: "Only draft or rejected purchase orders can be submitted" });
+    }
+
+    const submitted = await storage.updatePurchaseOrder(po.id, EDITABLE_STATUSES, {
+      status: 'pending_approval',
+      submittedAt: new Date().toISOString(),
+      rejectionReason: null,
+    });
+    if (!submitted) {
+      return res.status(409).json({ error: "Purchase order changed while being submitted" });
+    }
+    // Plan the chain now so it reflects the policies the order was submitted under.
+    const approvalChain = await ensureApprovalChain(await purchaseOrderApprovalContext(submitted));
+
+    const userId = (req as any).user?.uid || 'unknown';
+    await logAudit('purchase_order', po.id, 'submitted', userId, await getAuditUserName(req),
+      { status: po.status },
+      { status: submitted.status },
+      { poNumber: po.poNumber, totalAmount: po.totalAmount, approvalSteps: approvalChain.length }
+    );
+
+    res.json(approvalChain.length > 0 ? { ...submitted, approvalChain } : submitted);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to submit purchase order" });
+  }
+});
+
+router.post("/purchase-orders/:id/approve", requireAuth, requireAdminOrApprover(pendingPurchaseOrderApprovalContext), requirePin, async (req, res) => {
+  try {
+    const loaded = await loadPurchaseOrder(req, res);
+    if (!loaded) return;
+    const { po } = loaded;
+    if (po.status !== 'pending_approval') {
+      return res.status(400).json({ error: "Purchase order is not awaiting approval" });
+    }
+
+    const userId = (req as any).user?.uid || 'system';
+    const userName = await getAuditUserName(req);
+
+    const outcome = await approveNextStep(await purchaseOrderApprovalContext(po), { userId, name: userName }, req.body?.reason);
+    if (outcome.kind !== 'no_policy') {
+      await logAudit('purchase_order', po.id, outcome.kind === 'denied' ? 'approval_denied' : 'approval_step', userId, userName,
+        null,
+        null,
+        { outcome: outcome.kind, approvalChain: outcome.steps.map((s) => ({ label: s.label, status: s.status, actedBy: s.actedBy })) }
+      );
+    }
+    const reply = approvalOutcomeResponse(outcome);
+    if (reply) return res.status(reply.status).json(reply.body);
+
+    const approved = await storage.updatePurchaseOrder(po.id, ['pending_approval'], {
+      status: 'approved',
+      approvedBy: userId,
+      approvedAt: new Date().toISOString(),
+    });
+    if (!approved) {
+      return res.status(409).json({ error: "Purchase order changed while being approved" });
+    }
+
+    await logAudit('purchase_order', po.id, 'approved', userId, userName,
+      { status: po.status },
+      { status: 'approved' },
+      { poNumber: po.poNumber, totalAmount: po.totalAmount }
+    );
+
+    // Bills entered before approval were flagged po_not_approved.
+    await rematchPurchaseOrderBills(po.id);
+
+    res.json(approved);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to approve purchase order" });
+  }
+});
+
+router.post("/purchase-orders/:id/reject", requireAuth, requireAdmin, requirePin, async (req, res) => {
+  try {
+    const loaded = await loadPurchaseOrder(req, res);
+    if (!loaded) return;
+    const { po } = loaded;
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+
+    const rejected = await storage.updatePurchaseOrder(po.id, ['pending_approval'], {
+      status: 'rejected',
+      rejectionReason: reason || null,
+    });
+    if (!rejected) {
+      return res.status(400).json({ error: "Purchase order is not awaiting approval" });
+    }
+    await storage.clearApprovalChain('purchase_order', po.id);
+
+    const userId = (req as any).user?.uid || 'system';
+    await logAudit('purchase_order', po.id, 'rejected', userId, await getAuditUserName(req),
+      { status: po.status },
+      { status: 'rejected' },
+      { poNumber: po.poNumber, reason: reason || 'No reason' }
+    );
+
+    res.json(rejected);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to reject purchase order" });
+  }
+});
+
+// Only orders nothing has been received or billed against can be cancelled.
+router.post("/purchase-orders/:id/cancel", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const loaded = await loadPurchaseOrder(req, res);
+    if (!loaded) return;
+    const { po } = loaded;
+
+    const [receipts, bills] = await Promise.all([
+      storage.getGoodsReceipts(po.id),
+      storage.getBillsForPurchaseOrder(po.id),
+    ]);
+    if (receipts.length > 0 || bills.length > 0) {
+      return res.status(400).json({ error: "Purchase orders with receipts or bills cannot be cancelled; close them instead" });
+    }
+
+    const cancelled = await storage.updatePurchaseOrder(po.id, ['draft', 'pending_approval', 'approved', 'rejected'], { status: 'cancelled' });
+    if (!cancelled) {
+      return res.status(400).json({ error: "Purchase order cannot be cancelled" });
+    }
+    await storage.clearApprovalChain('purchase_order', po.id);
+
+    const userId = (req as any).user?.uid || 'system';
+    await logAudit('purchase_order', po.id, 'cancelled', userId, await getAuditUserName(req),
+      { status: po.status },
+      { status: 'cancelled' },
+      { poNumber: po.poNumber }
+    );
+
+    res.json(cancelled);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to cancel purchase order" });
+  }
+});
+
+// Closing stops further receipts; bills already linked can still be matched.
+router.post("/purchase-orders/:id/close", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const loaded = await loadPurchaseOrder(req, res);
+    if (!loaded) return;
+    const { po } = loaded;
+
+    const closed = await storage.updatePurchaseOrder(po.id, CLOSABLE_STATUSES, { status: 'closed' });
+    if (!closed) {
+      return res.status(400).json({ error: "Only approved purchase orders can be closed" });
+    }
+
+    const userId = (req as any).user?.uid || 'system';
+    await logAudit('purchase_order', po.id, 'closed', userId, await getAuditUserName(req),
+      { status: po.status },
+      { status: 'closed' },
+      { poNumber: po.poNumber }
+    );
+
+    res.json(closed);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to close purchase order" });
+  }
+});
+
+// ==================== GOODS RECEIPTS ====================
+
+router.get("/purchase-orders/:id/receipts", requireAuth, async (req, res) => {
+  try {
+    const loaded = await loadPurchaseOrder(req, res);
+    if (!loaded) return;
+    res.json(await storage.getGoodsReceipts(loaded.po.id));
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to fetch goods receipts" });
+  }
+});
+
+router.post("/purchase-orders/:id/receipts", requireAuth, async (req, res) => {
+  try {
+    const loaded = await loadPurchaseOrder(req, res);
+    if (!loaded) return;
+    const { po, companyId } = loaded;
+    const parsed = goodsReceiptSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid goods receipt", details: parsed.error.issues });
+    }
+
+    const userId = (req as any).user?.uid || 'unknown';
+    const userName = await getAuditUserName(req);
+    let created;
+    try {
+      created = await storage.createGoodsReceipt({
+        companyId,
+        purchaseOrderId: po.id,
+        receivedDate: parsed.data.receivedDate ?? new Date().toISOString().slice(0, 10),
+        lines: parsed.data.lines,
+        notes: parsed.data.notes ?? null,
+        receivedBy: userId,
+        receivedByName: userName,
+      });
+    } catch (error: any) {
+      if (error?.message === 'PO_NOT_RECEIVABLE') {
+        return res.status(400).json({ error: "Only approved purchase orders can be received against" });
+      }
+      if (error?.message === 'RECEIPT_EXCEEDS_ORDER') {
+        return res.status(400).json({ error: "Receipt does not fit the purchase order", details: error.details });
+      }
+      throw error;
+    }
+
+    await logAudit('purchase_order', po.id, 'goods_received', userId, userName,
+      { status: po.status },
+      { status: created.purchaseOrder.status },
+      { poNumber: po.poNumber, receiptNumber: created.receipt.receiptNumber, lines: parsed.data.lines }
+    );
+
+    // Bills waiting on this delivery may now match.
+    await rematchPurchaseOrderBills(po.id);
+
+    res.status(201).json(created);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to record goods receipt" });
+  }
+});
+
+export default router;
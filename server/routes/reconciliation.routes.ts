@@ -0,0 +1,132 @@
+import express from "express";
+import { storage } from "../storage";
+import { requireAuth, requireAdmin } from "../middleware/auth";
+import { financialLimiter } from "../middleware/rateLimiter";
+import { runProviderReconciliation } from "../reconciliationScheduler";
+import {
+  param,
+  resolveUserCompany,
+  logAudit,
+  getAuditUserName,
+  reconciliationExceptionUpdateSchema,
+} from "./shared";
+
+const router = express.Router();
+
+// ==================== PROVIDER RECONCILIATION (LU-014) ====================
+// Exceptions are attributed to a tenant through payouts.company_id,
+// the wallet's company or payment_intent_index. Admins see their own
+// company's rows. Rows that could not be attributed, the run history
+// and the manual trigger are platform-wide, so they are limited to the
+// operator company named by RECONCILIATION_OPERATOR_COMPANY_ID.
+
+function isOperatorCompany(companyId: string): boolean {
+  const operator = process.env.RECONCILIATION_OPERATOR_COMPANY_ID;
+  return !!operator && operator === companyId;
+}
+
+router.get("/admin/reconciliation/exceptions", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const companyIds: Array<string | null> = [company.companyId];
+    if (isOperatorCompany(company.companyId)) companyIds.push(null);
+    const exceptions = await storage.getReconciliationExceptions({
+      companyIds,
+      status: typeof req.query.status === 'string' && req.query.status !== 'all' ? req.query.status : undefined,
+      provider: typeof req.query.provider === 'string' ? req.query.provider : undefined,
+      kind: typeof req.query.kind === 'string' ? req.query.kind : undefined,
+    });
+    res.json({ exceptions, isOperator: isOperatorCompany(company.companyId) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to fetch reconciliation exceptions" });
+  }
+});
+
+router.patch("/admin/reconciliation/exceptions/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const parsed = reconciliationExceptionUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid update", details: parsed.error.issues });
+    }
+
+    const id = param(req.params.id);
+    const existing = await storage.getReconciliationException(id);
+    const visible = existing && (existing.companyId
+      ? existing.companyId === company.companyId
+      : isOperatorCompany(company.companyId));
+    if (!existing || !visible) {
+      return res.status(404).json({ error: "Reconciliation exception not found" });
+    }
+
+    const userId = (req as any).user?.uid || 'unknown';
+    const userName = await getAuditUserName(req);
+    const closing = parsed.data.status !== 'open';
+    const updated = await storage.updateReconciliationException(id, {
+      status: parsed.data.status,
+      resolutionNote: parsed.data.resolutionNote ?? existing.resolutionNote,
+      resolvedBy: closing ? userName : null,
+      resolvedAt: closing ? new Date().toISOString() : null,
+    });
+
+    await logAudit(
+      'reconciliation_exception',
+      id,
+      `reconciliation-exception-${parsed.data.status}`,
+      userId,
+      userName,
+      { status: existing.status },
+      { status: parsed.data.status, resolutionNote: parsed.data.resolutionNote },
+      { kind: existing.kind, provider: existing.provider, providerReference: existing.providerReference },
+      (req as any).ip,
+    );
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to update reconciliation exception" });
+  }
+});
+
+router.get("/admin/reconciliation/runs", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company || !isOperatorCompany(company.companyId)) {
+      return res.status(403).json({ error: "Reconciliation runs are visible to the platform operator only" });
+    }
+    const runs = await storage.getReconciliationRuns(parseInt(String(req.query.limit || '20'), 10) || 20);
+    res.json(runs);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to fetch reconciliation runs" });
+  }
+});
+
+// Manual re-run for a given day (YYYY-MM-DD = the day to reconcile).
+router.post("/admin/reconciliation/run", financialLimiter, requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company || !isOperatorCompany(company.companyId)) {
+      return res.status(403).json({ error: "Reconciliation runs are visible to the platform operator only" });
+    }
+    const date = typeof req.body?.date === 'string' ? req.body.date : undefined;
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return res.status(400).json({ error: "date must be YYYY-MM-DD" });
+    }
+    // The window ends at the midnight AFTER the requested day.
+    const asOf = date ? new Date(new Date(`${date}T00:00:00.000Z`).getTime() + 24 * 60 * 60 * 1000) : new Date();
+    const runs = await runProviderReconciliation({ asOf, force: true });
+    if (runs === null) {
+      return res.status(409).json({ error: "A reconciliation run is already in progress" });
+    }
+    res.json(runs);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to run reconciliation" });
+  }
+});
+
+export default router;
@@ -0,0 +1,181 @@
+import express from "express";
+import { storage } from "../storage";
+import { requireAuth, requireAdmin } from "../middleware/auth";
+import {
+  param,
+  resolveUserCompany,
+  logAudit,
+  getAuditUserName,
+  sanctionsListUpload,
+  sanctionsListImportSchema,
+  sanctionsReviewSchema,
+} from "./shared";
+import { SanctionsListParseError } from "../lib/sanctions-screening";
+import { importSanctionsList } from "../sanctionsScreening";
+
+const router = express.Router();
+
+// ==================== SANCTIONS SCREENING ====================
+// Watchlist imports and the review queue for possible matches. Payouts to
+// a subject with an open match are held until a reviewer clears it here;
+// a confirmed match blocks them for good. Compliance work, so admin only.
+//
+// The OFAC and UN lists are platform-wide: an import by an admin of the
+// operator company named by SANCTIONS_OPERATOR_COMPANY_ID applies to every
+// company. Other companies' imports only add to them.
+
+function isOperatorCompany(companyId: string): boolean {
+  const operator = process.env.SANCTIONS_OPERATOR_COMPANY_ID;
+  return !!operator && operator === companyId;
+}
+
+function listFiles(req: express.Request, res: express.Response, next: express.NextFunction) {
+  sanctionsListUpload.fields([{ name: 'list', maxCount: 1 }, { name: 'aliases', maxCount: 1 }])(req, res, (err: any) => {
+    if (err) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        return res.status(400).json({ error: "List exceeds the 20MB limit" });
+      }
+      return res.status(400).json({ error: err.message || "Failed to upload list" });
+    }
+    next();
+  });
+}
+
+router.get("/sanctions/lists", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    res.json(await storage.getSanctionsLists(company.companyId));
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to fetch sanctions lists" });
+  }
+});
+
+router.post("/sanctions/lists", requireAuth, requireAdmin, listFiles, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const parsed = sanctionsListImportSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid sanctions list import", details: parsed.error.issues });
+    }
+    const files = (req.files ?? {}) as Record<string, Express.Multer.File[]>;
+    const listFile = files.list?.[0];
+    const aliasFile = files.aliases?.[0];
+    const content = listFile ? listFile.buffer.toString('utf8') : parsed.data.content;
+    const aliases = aliasFile ? aliasFile.buffer.toString('utf8') : parsed.data.aliases;
+    const fileName = listFile?.originalname ?? parsed.data.fileName;
+    if (!content?.trim()) {
+      return res.status(400).json({ error: "No list uploaded" });
+    }
+
+    const userId = (req as any).user?.uid || 'unknown';
+    const userName = await getAuditUserName(req);
+    let list;
+    try {
+      const owner = isOperatorCompany(company.companyId) ? null : company.companyId;
+      list = await importSanctionsList(owner, { content, aliases, fileName, source: parsed.data.source }, { userId, name: userName });
+    } catch (error: any) {
+      if (error instanceof SanctionsListParseError) {
+        return res.status(400).json({ error: error.message });
+      }
+      throw error;
+    }
+
+    await logAudit('sanctions_list', list.id, 'imported', userId, userName,
+      null,
+      null,
+      { source: list.source, fileName: list.fileName, entryCount: list.entryCount, platformWide: list.companyId === null }
+    );
+
+    res.status(201).json(list);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to import sanctions list" });
+  }
+});
+
+router.get("/sanctions/screenings", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const query = (name: string) => (typeof req.query[name] === 'string' ? req.query[name] as string : undefined);
+    res.json(await storage.getSanctionsScreenings(company.companyId, {
+      status: query('status'),
+      subjectType: query('subjectType'),
+      subjectId: query('subjectId'),
+    }));
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to fetch screenings" });
+  }
+});
+
+router.get("/sanctions/screenings/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const screening = await storage.getSanctionsScreening(param(req.params.id));
+    if (!screening || screening.companyId !== company.companyId) {
+      return res.status(404).json({ error: "Screening not found" });
+    }
+    // Earlier screenings of the same subject, for the reviewer's context.
+    const history = await storage.getSubjectScreenings(company.companyId, screening.subjectType, screening.subjectId);
+    res.json({ ...screening, history: history.filter((s) => s.id !== screening.id) });
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to fetch screening" });
+  }
+});
+
+router.post("/sanctions/screenings/:id/review", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const company = await resolveUserCompany(req);
+    if (!company) {
+      return res.status(403).json({ error: "No active company membership" });
+    }
+    const parsed = sanctionsReviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid review", details: parsed.error.issues });
+    }
+    const screening = await storage.getSanctionsScreening(param(req.params.id));
+    if (!screening || screening.companyId !== company.companyId) {
+      return res.status(404).json({ error: "Screening not found" });
+    }
+    if (screening.status !== 'potential_match') {
+      return res.status(409).json({ error: `Screening is ${screening.status.replace('_', ' ')}, not waiting for review` });
+    }
+
+    const userId = (req as any).user?.uid || 'unknown';
+    if ((screening.heldUserIds ?? []).includes(userId)) {
+      return res.status(403).json({ error: "This screening is holding your own payment or submission; another admin must review it" });
+    }
+    const userName = await getAuditUserName(req);
+    const reviewed = await storage.reviewSanctionsScreening(screening.id, {
+      status: parsed.data.decision,
+      reviewedBy: userId,
+      reviewedByName: userName,
+      reviewNote: parsed.data.note,
+    });
+    if (!reviewed) {
+      return res.status(409).json({ error: "Screening was reviewed by another request; refresh and try again" });
+    }
+
+    await logAudit('sanctions_screening', screening.id, parsed.data.decision, userId, userName,
+      { status: screening.status },
+      { status: reviewed.status, reviewNote: reviewed.reviewNote },
+      { subjectType: screening.subjectType, subjectId: screening.subjectId, screenedName: screening.screenedName, topScore: screening.topScore }
+    );
+
+    res.json(reviewed);
+  } catch (error: any) {
+    res.status(500).json({ error: "Failed to review screening" });
+  }
+});
+
+export default router;
@@ -3,10 +3,13 @@ import { z } from "zod";
 import { storage } from "../storage";
 import { param, resolveUserCompany, logAudit, getAuditUserName } from "./shared";
 import { requireAuth, requireAdmin, requirePin } from "../middleware/auth";
+import { idempotency } from "../middleware/idempotency";
 import { mapPaymentError } from "../utils/paymentUtils";
 import { paymentService } from "../paymentService";
 import { paystackClient } from "../paystackClient";
 import { runRecurringScheduler } from "../recurringScheduler";
+import { sanctionsHold, sanctionsHoldBody, payoutSubjects } from "../sanctionsScreening";
+import { monitoringHold, monitoringHoldBody } from "../transactionMonitoring";
 
 const router = express.Router();
 
@@ -125,7 +128,7 @@ router.post("/admin/run-scheduler", requireAuth, requireAdmin, async (req, res)
 // ==================== BATCH DISBURSEMENT ====================
 
 // Batch disbursement (process multiple approved payouts)
-router.post("/payouts/batch-process", requireAuth, requireAdmin, requirePin, async (req, res) => {
+router.post("/payouts/batch-process", requireAuth, requireAdmin, requirePin, idempotency, async (req, res) => {
   try {
     const userId = (req as any).user?.uid;
     const userName = await getAuditUserName(req);
@@ -159,6 +162,18 @@ router.post("/payouts/batch-process", requireAuth, requireAdmin, requirePin, asy
           continue;
         }
 
+        const hold = await sanctionsHold(payout.companyId, payoutSubjects(payout, destination), userId);
+        if (hold) {
+          results.push({ payoutId, status: 'skipped', reason: sanctionsHoldBody(hold).error });
+          continue;
+        }
+
+        const fraudHold = await monitoringHold(payout, destination, userId);
+        if (fraudHold) {
+          results.push({ payoutId, status: 'skipped', reason: monitoringHoldBody(fraudHold).error });
+          continue;
+        }
+
         // Group Paystack transfers for bulk
         if (destination.provider === 'paystack') {
           paystackBatch.push({ payout, destination });
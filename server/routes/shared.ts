@@ -7,6 +7,13 @@ import { storage } from "../storage";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
+import type { BudgetActor, BudgetCheck } from "../budgetEnforcement";
+import { BUDGET_ENFORCEMENT_MODES } from "../lib/budget-enforcement";
+import { ALL_EVENTS, WEBHOOK_EVENT_TYPES, endpointUrlProblem } from "../lib/outbound-webhooks";
+import { API_KEY_PERMISSIONS, API_KEY_ROLE } from "../lib/api-keys";
+import { isValidTimeZone } from "../lib/card-programs";
+import { CARD_KINDS } from "../lib/card-kinds";
+import { ALERT_REVIEW_DECISIONS, ALERT_SEVERITIES, MONITORING_ACTIONS } from "../lib/transaction-monitoring";
 
 // ==================== HELPERS ====================
 
@@ -88,6 +95,7 @@ export function filterByDateRange(items: any[], dateField: string, startDate: Da
 
 export async function getAuditUserName(req: any): Promise<string> {
   try {
+    if (req.apiKey) return req.user.displayName;
     const uid = req.user?.uid;
     if (uid) {
       const profile = await storage.getUserProfileByCognitoSub(uid);
@@ -136,6 +144,9 @@ export async function logAudit(
 /** Resolve the user's active company from their Cognito sub */
 export async function resolveUserCompany(req: any): Promise<{ companyId: string; role: string } | null> {
   try {
+    // An API key belongs to one company; X-Company-Id can't move it.
+    if (req.apiKey) return { companyId: req.apiKey.companyId, role: API_KEY_ROLE };
+
     const uid = req.user?.uid;
     if (!uid) return null;
 
@@ -181,6 +192,36 @@ export async function getSettingsForRequest(req: any): Promise<any> {
   return storage.getSettings();
 }
 
+/**
+ * The caller, and any budget override they quoted in the body, for a
+ * hard budget check (server/budgetEnforcement.ts).
+ */
+export async function budgetCheckContext(req: any, company: { role: string } | null) {
+  const parsed = budgetOverrideFieldsSchema.safeParse(req.body ?? {});
+  const fields = parsed.success ? parsed.data : {};
+  const actor: BudgetActor = {
+    userId: req.user?.uid || 'system',
+    name: await getAuditUserName(req),
+    role: company?.role ?? null,
+  };
+  return {
+    actor,
+    overrideId: fields.budgetOverrideId ?? null,
+    overrideReason: fields.budgetOverrideReason ?? null,
+  };
+}
+
+/** Audit a spend that went past a hard budget on an override. */
+export async function auditBudgetOverride(req: any, check: BudgetCheck, entityType: string, entityId: string) {
+  if (!check.ok || !check.override) return;
+  const override = check.override;
+  await logAudit('budget_override', override.id, 'use', req.user?.uid || 'system', await getAuditUserName(req),
+    null,
+    { entityType, entityId, amount: override.amount, remaining: override.remaining },
+    { budgetId: override.budgetId, action: override.action, reason: override.reason, approvedBy: override.decidedBy }
+  );
+}
+
 /**
  * Verify an entity belongs to the user's active company.
  *
@@ -235,6 +276,34 @@ export const upload = multer({
   }
 });
 
+// Bank statements are parsed straight from memory and never written to disk.
+export const statementUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    const allowedExtensions = ['.csv', '.ofx', '.qfx', '.sta', '.mt940', '.txt'];
+    if (allowedExtensions.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Upload a CSV, OFX/QFX or MT940 statement.'));
+    }
+  }
+});
+
+// OFAC SDN.CSV (with ALT.CSV aliases) or the UN consolidated list XML.
+export const sanctionsListUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 20 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    const allowedExtensions = ['.csv', '.xml', '.txt'];
+    if (allowedExtensions.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Upload the OFAC SDN.CSV or the UN consolidated list XML.'));
+    }
+  }
+});
+
 // ==================== ZOD SCHEMAS ====================
 
 export const expenseSchema = z.object({
@@ -257,6 +326,13 @@ export const transactionSchema = z.object({
   fee: z.union([z.string(), z.number()]).optional().transform(val => String(val || '0')),
 });
 
+const billLineItemSchema = z.object({
+  poLineId: z.string().min(1),
+  description: z.string().trim().max(500).optional(),
+  quantity: z.coerce.number().positive(),
+  unitPrice: z.coerce.number().min(0),
+});
+
 export const billSchema = z.object({
   name: z.string().min(2, "Bill name must be at least 2 characters").max(100, "Bill name must be less than 100 characters"),
   provider: z.string().min(2, "Provider must be at least 2 characters").optional().default(''),
@@ -276,6 +352,10 @@ export const billSchema = z.object({
   recurring: z.boolean().optional().default(false),
   frequency: z.enum(['once', 'weekly', 'monthly', 'quarterly', 'yearly']).optional().default('monthly'),
   userId: z.string().optional(),
+  // Bill against a purchase order; see billPurchaseOrderLinkSchema.
+  purchaseOrderId: z.string().min(1).optional(),
+  goodsReceiptId: z.string().min(1).optional().nullable(),
+  lineItems: z.array(billLineItemSchema).max(200).optional(),
 });
 
 export const budgetSchema = z.object({
@@ -283,6 +363,10 @@ export const budgetSchema = z.object({
   category: z.string().min(1),
   limit: z.union([z.string(), z.number()]).transform(val => String(val)),
   period: z.string().optional().default('monthly'),
+  // Scoping and rollover (server/budgetActuals.ts)
+  departmentId: z.string().min(1).nullable().optional(),
+  cardholderId: z.string().min(1).nullable().optional(),
+  rollover: z.boolean().optional(),
 });
 
 export const cardSchema = z.object({
@@ -294,6 +378,10 @@ export const cardSchema = z.object({
   type: z.string().optional().default('Visa'),
   color: z.string().optional().default('indigo'),
   currency: z.string().optional().default('USD'),
+  // Single-use and merchant-locked cards (server/lib/card-kinds.ts). A
+  // merchant-locked card without a named merchant locks to its first.
+  kind: z.enum(CARD_KINDS).optional().default('standard'),
+  lockedMerchant: z.string().trim().min(2).max(100).optional(),
 });
 
 export const teamMemberSchema = z.object({
@@ -338,6 +426,10 @@ export const payrollSchema = z.object({
   recurring: z.boolean().optional().default(false),
   frequency: z.enum(['once', 'weekly', 'monthly', 'quarterly', 'yearly']).optional().default('monthly'),
   email: z.string().email().optional().or(z.literal('')),
+  // Work out income tax and statutory contributions for the entry's
+  // country (server/lib/statutory-deductions.ts); `deductions` is then
+  // anything withheld on top. Ignored when a deductionBreakdown is given.
+  statutory: z.boolean().optional().default(true),
 });
 
 export const invoiceSchema = z.object({
@@ -387,15 +479,20 @@ export const fundingSourceSchema = z.object({
 export const expenseUpdateSchema = expenseSchema.partial().extend({
   status: z.string().optional(),
   rejectionReason: z.string().optional(),
+  // The status the client last saw. An edit made offline is refused with
+  // a 409 if the expense has moved on since (e.g. been approved).
+  baseStatus: z.string().optional(),
 });
 export const transactionUpdateSchema = transactionSchema.partial();
-export const billUpdateSchema = billSchema.partial().extend({
+// The purchase order link has its own endpoint so the match is re-run.
+export const billUpdateSchema = billSchema.omit({ purchaseOrderId: true, goodsReceiptId: true, lineItems: true }).partial().extend({
   status: z.string().optional(),
 });
-export const budgetUpdateSchema = budgetSchema.partial().extend({
-  spent: z.union([z.string(), z.number()]).optional().transform(val => String(val || '0')),
-});
-export const cardUpdateSchema = cardSchema.partial();
+// `spent` is derived from actual spend (server/budgetActuals.ts), so it
+// is not accepted here.
+export const budgetUpdateSchema = budgetSchema.partial();
+// A card's kind and merchant lock are fixed when it's issued.
+export const cardUpdateSchema = cardSchema.omit({ kind: true, lockedMerchant: true }).partial();
 export const teamMemberUpdateSchema = teamMemberSchema.partial().extend({
   status: z.string().optional(),
 });
@@ -439,3 +536,321 @@ export const payoutSchema = z.object({
   recurring: z.boolean().optional().default(false),
   frequency: z.enum(['once', 'weekly', 'monthly', 'quarterly', 'yearly']).optional().default('once'),
 });
+
+// LU-014 — admin review of a reconciliation exception
+export const reconciliationExceptionUpdateSchema = z.object({
+  status: z.enum(['open', 'resolved', 'ignored']),
+  resolutionNote: z.string().max(2000).optional(),
+});
+
+// Approval policy (server/lib/approval-policy.ts) as edited by admins
+const approvalApproverSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('department_head'), departmentId: z.string().optional().nullable() }),
+  z.object({ type: z.literal('role'), role: z.enum(['OWNER', 'ADMIN', 'MANAGER', 'EDITOR', 'EMPLOYEE']) }),
+  z.object({ type: z.literal('member'), memberId: z.string().min(1) }),
+]);
+
+export const approvalPolicySchema = z.object({
+  name: z.string().min(1, "Policy name is required").max(120),
+  entityTypes: z.array(z.enum(['expense', 'bill', 'payout', 'purchase_order'])).min(1, "Choose at least one of expense, bill, payout or purchase order"),
+  priority: z.number().int().min(0).max(10000).optional().default(100),
+  isActive: z.boolean().optional().default(true),
+  stopOnMatch: z.boolean().optional().default(false),
+  conditions: z.object({
+    minAmount: z.number().nonnegative().optional().nullable(),
+    maxAmount: z.number().positive().optional().nullable(),
+    currency: z.string().length(3).optional().nullable(),
+    categories: z.array(z.string().min(1)).optional().nullable(),
+    departmentIds: z.array(z.string().min(1)).optional().nullable(),
+    vendorIsNew: z.boolean().optional().nullable(),
+  }).refine(
+    (c) => c.minAmount == null || c.maxAmount == null || c.minAmount < c.maxAmount,
+    { message: "minAmount must be below maxAmount" },
+  ).optional().default({}),
+  steps: z.array(z.object({
+    approver: approvalApproverSchema,
+    label: z.string().max(80).optional().nullable(),
+  })).min(1, "A policy needs at least one approver step").max(10),
+});
+
+export const approvalPolicyUpdateSchema = approvalPolicySchema.partial();
+
+// Accounting export (server/lib/accounting-export.ts)
+export const glAccountMappingSchema = z.object({
+  sourceType: z.enum(['category', 'vendor', 'department', 'control']),
+  sourceKey: z.string().trim().min(1).max(200),
+  accountCode: z.string().trim().min(1, "Account code is required").max(50),
+  accountName: z.string().trim().max(200).optional().nullable(),
+  taxCode: z.string().trim().max(50).optional().nullable(),
+});
+
+export const accountingExportSchema = z.object({
+  format: z.enum(['quickbooks_iif', 'xero_csv', 'journal_csv']),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "startDate must be YYYY-MM-DD"),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "endDate must be YYYY-MM-DD"),
+  sourceTypes: z.array(z.enum(['expense', 'expense_payment', 'bill', 'bill_payment', 'invoice', 'payroll'])).min(1).optional(),
+  currency: z.string().length(3).optional().nullable(),
+}).refine((d) => d.startDate <= d.endDate, { message: "startDate must not be after endDate" });
+
+// Bank statement import (server/lib/bank-statement.ts, server/lib/statement-matching.ts)
+export const bankStatementImportSchema = z.object({
+  format: z.enum(['csv', 'ofx', 'mt940']).optional(),
+  currency: z.string().length(3).optional(),
+  dayFirst: z.preprocess((v) => (v === 'true' ? true : v === 'false' ? false : v), z.boolean().optional()),
+  // Raw statement text for API clients that do not send multipart uploads.
+  content: z.string().max(5 * 1024 * 1024).optional(),
+  fileName: z.string().max(255).optional(),
+});
+
+export const bankStatementMatchSchema = z.object({
+  type: z.enum(['transaction', 'bill', 'invoice', 'payout']),
+  id: z.string().min(1),
+});
+
+export const bankStatementConvertSchema = z.object({
+  as: z.enum(['expense', 'transaction']),
+  category: z.string().trim().min(1).max(100).optional(),
+  description: z.string().trim().min(1).max(500).optional(),
+});
+
+// Purchase orders and three-way matching (server/lib/three-way-match.ts)
+const purchaseOrderLineSchema = z.object({
+  description: z.string().trim().min(1, "Line description is required").max(500),
+  quantity: z.coerce.number().positive("Quantity must be greater than zero").max(1e9),
+  unitPrice: z.coerce.number().min(0, "Unit price cannot be negative").max(1e9),
+});
+
+const tolerancePercentSchema = z.coerce.number().min(0).max(100);
+
+export const purchaseOrderSchema = z.object({
+  vendorId: z.string().min(1, "Vendor is required"),
+  currency: z.string().length(3).optional(),
+  expectedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "expectedDate must be YYYY-MM-DD").optional().nullable(),
+  notes: z.string().trim().max(2000).optional().nullable(),
+  priceTolerancePercent: tolerancePercentSchema.optional(),
+  quantityTolerancePercent: tolerancePercentSchema.optional(),
+  lines: z.array(purchaseOrderLineSchema).min(1, "At least one line is required").max(200),
+});
+
+export const purchaseOrderUpdateSchema = purchaseOrderSchema.partial();
+
+export const goodsReceiptSchema = z.object({
+  receivedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "receivedDate must be YYYY-MM-DD").optional(),
+  notes: z.string().trim().max(2000).optional().nullable(),
+  lines: z.array(z.object({
+    poLineId: z.string().min(1),
+    quantity: z.coerce.number().positive("Received quantity must be greater than zero"),
+  })).min(1, "At least one line is required"),
+});
+
+export const billPurchaseOrderLinkSchema = z.object({
+  purchaseOrderId: z.string().min(1),
+  goodsReceiptId: z.string().min(1).optional().nullable(),
+  // Omit to bill everything received and not yet billed at the PO price.
+  lineItems: z.array(billLineItemSchema).max(200).optional(),
+});
+
+// Invoice payments and credit notes (server/lib/invoice-balance.ts)
+export const invoicePaymentSchema = z.object({
+  amount: z.coerce.number().positive("Valid payment amount is required"),
+  method: z.string().trim().min(1).max(50).optional().default('manual'),
+  reference: z.string().trim().max(200).optional(),
+  // Stripe payment intent or Paystack reference, so the payment can be refunded through the provider.
+  providerReference: z.string().trim().max(200).optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export const creditNoteSchema = z.object({
+  kind: z.enum(['credit', 'write_off', 'refund']),
+  amount: z.coerce.number().positive("Amount must be greater than zero"),
+  reason: z.string().trim().min(1, "Reason is required").max(500),
+  paymentId: z.string().min(1).optional(),
+}).refine((d) => d.kind !== 'refund' || !!d.paymentId, { message: "A refund must name the payment to refund", path: ['paymentId'] });
+
+// Invoice dunning (server/lib/dunning.ts)
+export const dunningScheduleSchema = z.object({
+  enabled: z.boolean(),
+  steps: z.array(z.object({
+    offsetDays: z.coerce.number().int(),
+    lateFee: z.object({
+      type: z.enum(['fixed', 'percent']),
+      value: z.coerce.number().positive(),
+    }).nullable().optional(),
+  })).max(10),
+});
+
+// Hard budgets (server/lib/budget-enforcement.ts)
+export const budgetEnforcementSchema = z.object({
+  mode: z.enum(BUDGET_ENFORCEMENT_MODES),
+});
+
+// Quoted on a spend that exceeds a hard budget: an approved override
+// request, or an owner/admin's reason for going past it.
+export const budgetOverrideFieldsSchema = z.object({
+  budgetOverrideId: z.string().min(1).optional(),
+  budgetOverrideReason: z.string().trim().min(1).max(500).optional(),
+});
+
+export const budgetOverrideDecisionSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+});
+
+// Payroll runs (server/lib/payroll-run.ts)
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+export const payrollRunSchema = z.object({
+  name: z.string().trim().max(120).optional(),
+  periodStart: isoDate,
+  periodEnd: isoDate,
+  payDate: isoDate,
+  // Only these entries; otherwise every pending entry paid in the period.
+  entryIds: z.array(z.string().min(1)).min(1).max(500).optional(),
+});
+
+export const payrollRunReversalSchema = z.object({
+  reason: z.string().trim().min(1, "Reason is required").max(500),
+});
+
+// Employee self-service (server/employeePay.ts)
+export const employeeBankDetailsSchema = z.object({
+  country: z.string().trim().length(2).transform((c) => c.toUpperCase()),
+  currency: z.string().trim().length(3).transform((c) => c.toUpperCase()),
+  bankName: z.string().trim().min(1, "Bank name is required").max(120),
+  bankCode: z.string().trim().max(20).optional(),
+  accountNumber: z.string().trim().regex(/^[A-Za-z0-9 -]{4,34}$/, "Enter a valid account number"),
+  accountName: z.string().trim().min(1, "Account name is required").max(120),
+  routingNumber: z.string().trim().max(20).optional(),
+});
+
+export const bankDetailsReviewSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+});
+
+export const bankDetailsRejectionSchema = z.object({
+  note: z.string().trim().min(1, "Say why the details were rejected").max(500),
+});
+
+// Outbound webhooks (server/lib/outbound-webhooks.ts)
+const webhookUrl = z.string().trim().max(2048).superRefine((url, ctx) => {
+  const problem = endpointUrlProblem(url);
+  if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+});
+const webhookEvents = z.array(z.enum([ALL_EVENTS, ...WEBHOOK_EVENT_TYPES] as [string, ...string[]]))
+  .min(1, "Select at least one event")
+  .transform((events) => Array.from(new Set(events)));
+
+export const webhookEndpointSchema = z.object({
+  url: webhookUrl,
+  description: z.string().trim().max(200).optional(),
+  events: webhookEvents,
+});
+
+export const webhookEndpointUpdateSchema = z.object({
+  url: webhookUrl.optional(),
+  description: z.string().trim().max(200).nullable().optional(),
+  events: webhookEvents.optional(),
+  status: z.enum(['active', 'disabled']).optional(),
+});
+
+export const apiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  permissions: z.array(z.enum(API_KEY_PERMISSIONS as [string, ...string[]]))
+    .min(1, "Select at least one permission")
+    .transform((permissions) => Array.from(new Set(permissions))),
+  // Omitted for a key that doesn't expire.
+  expiresInDays: z.number().int().min(1).max(730).optional(),
+});
+
+// Card programs (server/lib/card-programs.ts)
+const policyCap = z.number().positive().max(1000000).nullable().optional();
+const merchantCategoryList = z.array(z.string().trim().min(1).max(100)).max(200)
+  .transform((categories) => Array.from(new Set(categories)));
+
+const cardSpendPolicyFields = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  allowedMerchantCategories: merchantCategoryList.optional(),
+  blockedMerchantCategories: merchantCategoryList.optional(),
+  perTransactionLimit: policyCap,
+  dailyLimit: policyCap,
+  monthlyLimit: policyCap,
+  allowedWeekdays: z.array(z.number().int().min(0).max(6)).max(7)
+    .transform((days) => Array.from(new Set(days)).sort())
+    .optional(),
+  allowedHoursStart: z.number().int().min(0).max(23).nullable().optional(),
+  allowedHoursEnd: z.number().int().min(0).max(23).nullable().optional(),
+  timezone: z.string().trim().refine(isValidTimeZone, "Unknown timezone").optional(),
+  allowedCountries: z.array(z.string().trim().regex(/^[A-Za-z]{2}$/, "Use two-letter country codes")).max(250)
+    .transform((countries) => Array.from(new Set(countries.map((c) => c.toUpperCase()))))
+    .optional(),
+});
+
+// Hours are a window, so they're set and cleared together.
+function hoursTogether(policy: { allowedHoursStart?: number | null; allowedHoursEnd?: number | null }, ctx: z.RefinementCtx) {
+  if ((policy.allowedHoursStart ?? null) === null !== ((policy.allowedHoursEnd ?? null) === null)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['allowedHoursEnd'], message: "Set both the start and end hour, or neither" });
+  }
+}
+
+export const cardSpendPolicySchema = cardSpendPolicyFields.superRefine(hoursTogether);
+export const cardSpendPolicyUpdateSchema = cardSpendPolicyFields.partial().superRefine(hoursTogether);
+
+export const programCardSchema = z.object({
+  memberId: z.string().min(1),
+  name: cardSchema.shape.name,
+  limit: cardSchema.shape.limit,
+  currency: z.string().trim().length(3).transform((c) => c.toUpperCase()).optional().default('USD'),
+  color: z.string().optional(),
+  spendPolicyId: z.string().min(1).nullable().optional(),
+});
+
+export const cardPolicyAssignmentSchema = z.object({
+  spendPolicyId: z.string().min(1).nullable(),
+});
+
+export const cardExpenseSubmitSchema = z.object({
+  receiptUrl: z.string().min(1).optional(),
+  category: z.string().min(1).optional(),
+  note: z.string().max(1000).optional(),
+});
+
+// Locked FX quote between two of the caller's wallets (server/lib/fx-quotes.ts).
+export const fxQuoteSchema = z.object({
+  sourceWalletId: z.string().min(1),
+  targetWalletId: z.string().min(1),
+  amount: z.preprocess(
+    (val) => (typeof val === 'string' ? parseFloat(val) : val),
+    z.number().positive("Amount must be greater than zero").max(1_000_000_000, "Amount exceeds maximum limit")
+  ),
+}).refine((data) => data.sourceWalletId !== data.targetWalletId, {
+  message: "Choose two different wallets",
+  path: ['targetWalletId'],
+});
+
+// Sanctions screening (server/lib/sanctions-screening.ts).
+export const sanctionsListImportSchema = z.object({
+  source: z.enum(['ofac_sdn', 'un_consolidated']).optional(),
+  // Raw list text for API clients that do not send multipart uploads.
+  content: z.string().max(20 * 1024 * 1024).optional(),
+  aliases: z.string().max(20 * 1024 * 1024).optional(),
+  fileName: z.string().max(255).optional(),
+});
+
+export const sanctionsReviewSchema = z.object({
+  decision: z.enum(['cleared', 'confirmed_match']),
+  note: z.string().trim().min(1, "Record why the match was cleared or confirmed").max(2000),
+});
+
+// Transaction monitoring (server/lib/transaction-monitoring.ts). Which
+// actions and params a rule accepts is checked by ruleUpdateProblem.
+export const monitoringRuleUpdateSchema = z.object({
+  enabled: z.boolean().optional(),
+  severity: z.enum(ALERT_SEVERITIES).optional(),
+  action: z.enum(MONITORING_ACTIONS).optional(),
+  params: z.record(z.string(), z.number()).optional(),
+});
+
+export const monitoringAlertReviewSchema = z.object({
+  decision: z.enum(ALERT_REVIEW_DECISIONS),
+  note: z.string().trim().min(1, "Record why the alert was dismissed or confirmed").max(2000),
+});
@@ -1,6 +1,7 @@
 import express from "express";
 import { storage } from "../storage";
 import { requireAuth, requireAdmin } from "../middleware/auth";
+import { idempotency } from "../middleware/idempotency";
 import {
   param,
   resolveUserCompany,
@@ -8,8 +9,12 @@ import {
   vendorSchema,
   vendorUpdateSchema,
   getSettingsForRequest,
+  budgetCheckContext,
+  auditBudgetOverride,
 } from "./shared";
 import { mapPaymentError } from "../utils/paymentUtils";
+import { checkBudget } from "../budgetEnforcement";
+import { destinationSubject, sanctionsHold, sanctionsHoldBody, screenInBackground } from "../sanctionsScreening";
 
 const router = express.Router();
 
@@ -65,6 +70,7 @@ router.post("/vendors", requireAuth, async (req, res) => {
       taxId: req.body.taxId || null,
       notes: req.body.notes || null,
     });
+    screenInBackground(vendor.companyId, { type: 'vendor', id: vendor.id, name: vendor.name });
 
     res.status(201).json(vendor);
   } catch (error) {
@@ -90,6 +96,9 @@ router.patch("/vendors/:id", requireAuth, async (req, res) => {
     if (!vendor) {
       return res.status(404).json({ error: "Vendor not found" });
     }
+    if (vendor.name !== existing.name) {
+      screenInBackground(vendor.companyId, { type: 'vendor', id: vendor.id, name: vendor.name });
+    }
     res.json(vendor);
   } catch (error) {
     res.status(500).json({ error: "Failed to update vendor" });
@@ -118,7 +127,7 @@ router.delete("/vendors/:id", requireAuth, async (req, res) => {
 
 // ==================== VENDOR PAYMENT ====================
 
-router.post("/vendors/:id/pay", requireAuth, requireAdmin, async (req, res) => {
+router.post("/vendors/:id/pay", requireAuth, requireAdmin, idempotency, async (req, res) => {
   try {
     const { amount, description, invoiceId } = req.body;
 
@@ -142,9 +151,36 @@ router.post("/vendors/:id/pay", requireAuth, requireAdmin, async (req, res) => {
       return res.status(400).json({ error: "Vendor has no payout destination configured" });
     }
 
+    // A vendor held for sanctions review gets no payout queued.
+    const hold = await sanctionsHold(vendor.companyId ?? userCompany?.companyId, [
+      { type: 'vendor', id: vendor.id, name: vendor.name },
+      destinationSubject(defaultDestination),
+    ], initiatedBy);
+    if (hold) {
+      return res.status(403).json(sanctionsHoldBody(hold));
+    }
+
     const settings = await getSettingsForRequest(req);
     const currency = settings.currency || 'USD';
 
+    // Vendor payments count against the vendor's category budget.
+    const budgetContext = await budgetCheckContext(req, userCompany);
+    const budgetCheck = await checkBudget(vendor.companyId ?? userCompany?.companyId, {
+      action: 'vendor_payment',
+      amount: parseFloat(String(amount)),
+      currency,
+      category: vendor.category,
+      departmentId: null,
+      cardholderId: null,
+      entityId: vendor.id,
+      overrideId: budgetContext.overrideId,
+      overrideReason: budgetContext.overrideReason,
+    }, budgetContext.actor);
+    if (!budgetCheck.ok) {
+      return res.status(budgetCheck.status).json(budgetCheck.body);
+    }
+    await auditBudgetOverride(req, budgetCheck, 'vendor', vendor.id);
+
     // Create payout
     const payout = await storage.createPayout({
       type: 'vendor_payment',
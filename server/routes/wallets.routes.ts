@@ -3,6 +3,7 @@ import { storage } from "../storage";
 import { param, validateAmount } from "./shared";
 import { requireAuth, requireAdmin, requirePin } from "../middleware/auth";
 import { financialLimiter } from "../middleware/rateLimiter";
+import { idempotency } from "../middleware/idempotency";
 import { mapPaymentError } from "../utils/paymentUtils";
 import { paymentService } from "../paymentService";
 
@@ -98,7 +99,7 @@ router.get("/wallets/:id/transactions", requireAuth, async (req, res) => {
 });
 
 // Fund wallet (credit)
-router.post("/wallets/:id/fund", financialLimiter, requireAuth, requirePin, async (req, res) => {
+router.post("/wallets/:id/fund", financialLimiter, requireAuth, requirePin, idempotency, async (req, res) => {
   try {
     const { amount, reference, description, metadata, provider } = req.body;
 
@@ -150,7 +151,7 @@ router.post("/wallets/:id/fund", financialLimiter, requireAuth, requirePin, asyn
 });
 
 // Withdraw from wallet (debit)
-router.post("/wallets/:id/withdraw", financialLimiter, requireAuth, requirePin, async (req, res) => {
+router.post("/wallets/:id/withdraw", financialLimiter, requireAuth, requirePin, idempotency, async (req, res) => {
   try {
     const { amount, reference, description, metadata } = req.body;
 
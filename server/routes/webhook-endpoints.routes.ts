@@ -0,0 +1,171 @@
+import express from "express";
+import { storage } from "../storage";
+import { requireAuth, requireAdmin, requirePin } from "../middleware/auth";
+import {
+  param,
+  resolveUserCompany,
+  logAudit,
+  getAuditUserName,
+  webhookEndpointSchema,
+  webhookEndpointUpdateSchema,
+} from "./shared";
+import { replayDelivery, rotateEndpointSecret } from "../outboundWebhooks";
+import { WEBHOOK_EVENTS, generateWebhookSecret, maskWebhookSecret } from "../lib/outbound-webhooks";
+import type { WebhookEndpoint } from "@shared/schema";
+
+const router = express.Router();
+
+// ==================== OUTBOUND WEBHOOK ENDPOINTS ====================
+// A company's own HTTPS endpoints for Spendly events, with the delivery
+// log. The signing secret is shown in full only when the endpoint is
+// created and when it is rotated.
+
+function endpointView(endpoint: WebhookEndpoint) {
+  const { secret, previousSecret, ...rest } = endpoint;
+  return { ...rest, secret: maskWebhookSecret(secret) };
+}
+
+async function companyId(req: express.Request, res: express.Response): Promise<string | null> {
+  const company = await resolveUserCompany(req);
+  if (!company?.companyId) {
+    res.status(403).json({ error: "Company context required" });
+    return null;
+  }
+  return company.companyId;
+}
+
+async function loadEndpoint(req: express.Request, res: express.Response) {
+  const id = await companyId(req, res);
+  if (!id) return null;
+  const endpoint = await storage.getWebhookEndpoint(param(req.params.id), id);
+  if (!endpoint) {
+    res.status(404).json({ error: "Webhook endpoint not found" });
+    return null;
+  }
+  return endpoint;
+}
+
+router.get("/webhook-endpoints/events", requireAuth, requireAdmin, (_req, res) => {
+  res.json(WEBHOOK_EVENTS);
+});
+
+router.get("/webhook-endpoints", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const id = await companyId(req, res);
+    if (!id) return;
+    res.json((await storage.getWebhookEndpoints(id)).map(endpointView));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch webhook endpoints" });
+  }
+});
+
+router.post("/webhook-endpoints", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const parsed = webhookEndpointSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid webhook endpoint", details: parsed.error.issues });
+    }
+    const id = await companyId(req, res);
+    if (!id) return;
+    const userId = (req as any).user?.uid || 'system';
+    const endpoint = await storage.createWebhookEndpoint({
+      companyId: id,
+      url: parsed.data.url,
+      description: parsed.data.description ?? null,
+      events: parsed.data.events,
+      secret: generateWebhookSecret(),
+      status: 'active',
+      createdBy: userId,
+    });
+    await logAudit('webhook_endpoint', endpoint.id, 'create', userId, await getAuditUserName(req),
+      undefined, { url: endpoint.url, events: endpoint.events }
+    );
+    res.status(201).json({ ...endpointView(endpoint), secret: endpoint.secret });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to create webhook endpoint" });
+  }
+});
+
+router.patch("/webhook-endpoints/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const parsed = webhookEndpointUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid webhook endpoint", details: parsed.error.issues });
+    }
+    const endpoint = await loadEndpoint(req, res);
+    if (!endpoint) return;
+    const updated = await storage.updateWebhookEndpoint(endpoint.id, endpoint.companyId, parsed.data);
+    await logAudit('webhook_endpoint', endpoint.id, 'update', (req as any).user?.uid || 'system', await getAuditUserName(req),
+      { url: endpoint.url, events: endpoint.events, status: endpoint.status },
+      { url: updated!.url, events: updated!.events, status: updated!.status }
+    );
+    res.json(endpointView(updated!));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update webhook endpoint" });
+  }
+});
+
+router.delete("/webhook-endpoints/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const endpoint = await loadEndpoint(req, res);
+    if (!endpoint) return;
+    await storage.deleteWebhookEndpoint(endpoint.id, endpoint.companyId);
+    await logAudit('webhook_endpoint', endpoint.id, 'delete', (req as any).user?.uid || 'system', await getAuditUserName(req),
+      { url: endpoint.url, events: endpoint.events }, undefined
+    );
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: "Failed to delete webhook endpoint" });
+  }
+});
+
+router.post("/webhook-endpoints/:id/rotate-secret", requireAuth, requireAdmin, requirePin, async (req, res) => {
+  try {
+    const endpoint = await loadEndpoint(req, res);
+    if (!endpoint) return;
+    const rotated = await rotateEndpointSecret(endpoint);
+    await logAudit('webhook_endpoint', endpoint.id, 'rotate-secret', (req as any).user?.uid || 'system', await getAuditUserName(req),
+      { secret: maskWebhookSecret(endpoint.secret) }, { secret: maskWebhookSecret(rotated!.secret) },
+      { previousSecretExpiresAt: rotated!.previousSecretExpiresAt }
+    );
+    res.json({ ...endpointView(rotated!), secret: rotated!.secret });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to rotate webhook secret" });
+  }
+});
+
+router.get("/webhook-endpoints/:id/deliveries", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const endpoint = await loadEndpoint(req, res);
+    if (!endpoint) return;
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+    res.json(await storage.getWebhookDeliveries(endpoint.companyId, { endpointId: endpoint.id, status }));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch webhook deliveries" });
+  }
+});
+
+router.post("/webhook-deliveries/:id/replay", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const id = await companyId(req, res);
+    if (!id) return;
+    const delivery = await storage.getWebhookDelivery(param(req.params.id), id);
+    if (!delivery) {
+      return res.status(404).json({ error: "Webhook delivery not found" });
+    }
+    const endpoint = await storage.getWebhookEndpoint(delivery.endpointId, id);
+    if (!endpoint || endpoint.status !== 'active') {
+      return res.status(409).json({ error: "The endpoint is disabled" });
+    }
+    const replay = await replayDelivery(delivery, endpoint);
+    await logAudit('webhook_delivery', replay.id, 'replay', (req as any).user?.uid || 'system', await getAuditUserName(req),
+      undefined, { status: replay.status, responseStatus: replay.responseStatus },
+      { replayOf: delivery.id, eventId: delivery.eventId, eventType: delivery.eventType }
+    );
+    res.status(201).json(replay);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to replay webhook delivery" });
+  }
+});
+
+export default router;
@@ -4,6 +4,9 @@ import { paymentService } from "../paymentService";
 import { getStripeClient } from "../stripeClient";
 import { mapPaymentError, paymentLogger } from "../utils/paymentUtils";
 import { IdempotencyCache } from "../utils/idempotencyCache";
+import { emitWebhookEvent } from "../outboundWebhooks";
+import { raiseCardExpense } from "../cardPrograms";
+import { retireUsedUpCard } from "../cardKinds";
 
 const router = express.Router();
 
@@ -232,9 +235,18 @@ router.post("/stripe/webhook", express.raw({ type: 'application/json' }), async
         );
       } else {
         // Fallback: credit company balance
-        const balances = await storage.getBalances();
-        const currentUsd = parseFloat(String(balances.usd || 0));
-        await storage.updateBalances({ usd: String(currentUsd + amount) });
+        await storage.atomicCompanyBalanceMovement({
+          companyId: paymentIntent.metadata?.companyId || undefined,
+          field: currency === 'USD' ? 'usd' : 'local',
+          direction: 'credit',
+          amount,
+          currency,
+          counterAccount: 'funding_clearing',
+          description: `Card payment via Stripe - ${reference}`,
+          sourceType: 'stripe_payment',
+          sourceId: paymentIntent.id,
+          reference,
+        });
 
         await storage.createTransaction({
           type: 'funding',
@@ -307,9 +319,13 @@ router.post("/stripe/webhook", express.raw({ type: 'application/json' }), async
         await storage.updateCard(dbCard.id, {
           balance: newBalance,
         } as any);
+        // The balance now reflects the purchase, so its authorization no longer holds any of it.
+        if (transaction.authorization && transaction.type !== 'refund') {
+          await storage.markCardAuthorizationCaptured(transaction.authorization);
+        }
 
         // Create card transaction record
-        await storage.createCardTransaction({
+        const cardTx = await storage.createCardTransaction({
           cardId: dbCard.id,
           companyId: dbCard.companyId || null,
           amount: String(amount),
@@ -320,6 +336,12 @@ router.post("/stripe/webhook", express.raw({ type: 'application/json' }), async
           status: 'completed',
           date: new Date().toISOString(),
         });
+        emitWebhookEvent(cardTx.companyId, 'card.transaction.created', cardTx).catch(console.error);
+        // A refund gives money back; there is nothing for the cardholder to expense.
+        if (transaction.type !== 'refund') {
+          raiseCardExpense(dbCard, cardTx).catch(console.error);
+        }
+        retireUsedUpCard(dbCard, transaction.type).catch(console.error);
 
         paymentLogger.info('card_balance_updated', { cardId: dbCard.id, oldBalance: currentBalance, newBalance, merchant: merchantName });
       }
@@ -0,0 +1,284 @@
+import { storage } from "./storage";
+import { logger as baseLogger } from "./lib/logger";
+import {
+  listVersionOf,
+  newScreeningStatus,
+  parseSanctionsList,
+  prepareEntries,
+  screenName,
+  screeningNeed,
+  type PastScreening,
+  type PreparedEntry,
+  type SanctionsSource,
+  type ScreeningSubjectType,
+} from "./lib/sanctions-screening";
+import type { KycSubmission, PayoutDestination, Payout, SanctionsList, SanctionsScreening } from "@shared/schema";
+
+// Sanctions screening: importing lists, screening names and holding
+// payouts to anyone with an open or confirmed match. Matching and the
+// hold rules live in server/lib/sanctions-screening.ts.
+//
+// The OFAC and UN lists are imported once for the whole platform and
+// apply to every company; a company may import its own lists on top.
+//
+// Subjects are screened when they are created or renamed, and again at
+// payout time whenever their last screening is for another name or older
+// lists, so a list imported today applies to tomorrow's payroll without a
+// bulk re-run.
+
+const logger = baseLogger.child({ module: "sanctions-screening" });
+
+export interface ScreeningSubject {
+  type: ScreeningSubjectType;
+  id: string;
+  name: string | null | undefined;
+}
+
+export interface ScreeningActor {
+  userId: string;
+  name: string;
+}
+
+// Prepared entries per company, reused until the active lists change. The
+// version covers the platform lists too, so a platform import is picked
+// up on the next screening.
+const entryCache = new Map<string, { version: string; entries: PreparedEntry[] }>();
+
+async function activeLists(companyId: string): Promise<{ version: string; lists: SanctionsList[] }> {
+  const lists = (await storage.getSanctionsLists(companyId)).filter((l) => l.status === 'active');
+  return { version: listVersionOf(lists), lists };
+}
+
+async function preparedEntries(companyId: string, version: string, lists: SanctionsList[]): Promise<PreparedEntry[]> {
+  const cached = entryCache.get(companyId);
+  if (cached?.version === version) return cached.entries;
+  const sources = new Map(lists.map((l) => [l.id, l.source]));
+  const entries = prepareEntries((await storage.getActiveSanctionsEntries(companyId)).map((e) => ({
+    id: e.id,
+    listId: e.listId,
+    source: sources.get(e.listId) ?? 'unknown',
+    externalId: e.externalId,
+    name: e.name,
+    aliases: e.aliases ?? [],
+  })));
+  entryCache.set(companyId, { version, entries });
+  return entries;
+}
+
+function asPast(screening: SanctionsScreening): PastScreening {
+  return {
+    id: screening.id,
+    screenedName: screening.screenedName,
+    listVersion: screening.listVersion,
+    status: screening.status,
+    matches: screening.matches ?? [],
+    reviewedBy: screening.reviewedBy,
+    reviewedByName: screening.reviewedByName,
+  };
+}
+
+/** Imports a list for a company, or for the platform when companyId is null. */
+export async function importSanctionsList(
+  companyId: string | null,
+  file: { content: string; fileName?: string; source?: SanctionsSource; aliases?: string },
+  actor: ScreeningActor,
+): Promise<SanctionsList> {
+  const { source, entries } = parseSanctionsList(file.content, file);
+  const list = await storage.createSanctionsList({
+    companyId,
+    source,
+    fileName: file.fileName ?? null,
+    entryCount: entries.length,
+    status: 'active',
+    importedBy: actor.userId,
+    importedByName: actor.name,
+    importedAt: new Date().toISOString(),
+  }, entries);
+  if (companyId) {
+    entryCache.delete(companyId);
+  } else {
+    entryCache.clear();
+  }
+  logger.info({ companyId, listId: list.id, source, entries: entries.length }, "Sanctions list imported");
+  return list;
+}
+
+async function screenAgainst(
+  companyId: string,
+  subject: ScreeningSubject & { name: string },
+  version: string,
+  lists: SanctionsList[],
+  history: SanctionsScreening[],
+): Promise<SanctionsScreening> {
+  const matches = screenName(subject.name, await preparedEntries(companyId, version, lists));
+  const past = history.map(asPast);
+  const { status, carriedFrom } = newScreeningStatus(matches, subject.name, past);
+  const now = new Date().toISOString();
+  const screening = await storage.createSanctionsScreening({
+    companyId,
+    subjectType: subject.type,
+    subjectId: subject.id,
+    screenedName: subject.name,
+    listVersion: version,
+    status,
+    matches,
+    topScore: matches[0] ? String(matches[0].score) : null,
+    screenedAt: now,
+    reviewedBy: carriedFrom?.reviewedBy ?? null,
+    reviewedByName: carriedFrom?.reviewedByName ?? null,
+    reviewedAt: carriedFrom ? now : null,
+    reviewNote: carriedFrom ? `Matches were cleared in screening ${carriedFrom.id}` : null,
+  });
+  if (status === 'potential_match') {
+    logger.warn({
+      companyId,
+      subjectType: subject.type,
+      subjectId: subject.id,
+      screeningId: screening.id,
+      topScore: matches[0].score,
+    }, "Possible sanctions match");
+  }
+  return screening;
+}
+
+/**
+ * Screens one subject against the active platform and company lists and
+ * records the result. Returns null when there is no name or no list to screen against.
+ */
+export async function screenSubject(companyId: string, subject: ScreeningSubject): Promise<SanctionsScreening | null> {
+  const name = subject.name?.trim();
+  if (!name) return null;
+  const { version, lists } = await activeLists(companyId);
+  if (lists.length === 0) return null;
+  const history = await storage.getSubjectScreenings(companyId, subject.type, subject.id);
+  return screenAgainst(companyId, { ...subject, name }, version, lists, history);
+}
+
+/**
+ * Screens a subject without holding up the request that created or renamed
+ * it; a failure is logged and the payout-time check screens it again.
+ */
+export function screenInBackground(companyId: string | null | undefined, subject: ScreeningSubject): void {
+  if (!companyId) return;
+  screenSubject(companyId, subject).catch((err) => {
+    logger.error({ err, companyId, subjectType: subject.type, subjectId: subject.id }, "Sanctions screening failed");
+  });
+}
+
+/**
+ * The screening that stops a payment to any of these subjects, or null if
+ * they can all be paid. Subjects without a current screening are screened
+ * first. `actorId` is the user whose payment or submission it is; a hold
+ * records them so they cannot clear it themselves.
+ */
+export async function sanctionsHold(
+  companyId: string | null | undefined,
+  subjects: ScreeningSubject[],
+  actorId?: string | null,
+): Promise<SanctionsScreening | null> {
+  if (!companyId) return null;
+  const recordHeld = async (screening: SanctionsScreening): Promise<SanctionsScreening> => {
+    if (actorId && !(screening.heldUserIds ?? []).includes(actorId)) {
+      await storage.addSanctionsScreeningHeldUser(screening.id, actorId);
+      return { ...screening, heldUserIds: [...(screening.heldUserIds ?? []), actorId] };
+    }
+    return screening;
+  };
+  let active: { version: string; lists: SanctionsList[] } | null = null;
+  for (const subject of subjects) {
+    const name = subject.name?.trim();
+    if (!name) continue;
+    const history = await storage.getSubjectScreenings(companyId, subject.type, subject.id);
+    if (!active) {
+      active = await activeLists(companyId);
+      if (active.lists.length === 0) {
+        logger.warn({ companyId }, "No sanctions lists imported; payments are not being screened");
+      }
+    }
+    const need = screeningNeed(history.map(asPast), name, active.version);
+    if (need.action === 'hold') {
+      const held = history.find((s) => s.id === need.screening.id);
+      return held ? recordHeld(held) : null;
+    }
+    if (need.action === 'screen' && active.lists.length > 0) {
+      const screening = await screenAgainst(companyId, { ...subject, name }, active.version, active.lists, history);
+      if (screening.status === 'potential_match') return recordHeld(screening);
+    }
+  }
+  return null;
+}
+
+export function sanctionsHoldBody(screening: SanctionsScreening) {
+  return {
+    error: screening.status === 'confirmed_match'
+      ? `Payments to ${screening.screenedName} are blocked: a compliance reviewer confirmed a sanctions match`
+      : `Payments to ${screening.screenedName} are on hold until a compliance reviewer clears a possible sanctions match`,
+    code: 'SANCTIONS_HOLD',
+    screeningId: screening.id,
+  };
+}
+
+/** The vendor or employee a payout is for, and the account it goes to. */
+export function payoutSubjects(payout: Payout, destination: PayoutDestination | null | undefined): ScreeningSubject[] {
+  const subjects: ScreeningSubject[] = [];
+  if (payout.recipientType === 'vendor') {
+    subjects.push({ type: 'vendor', id: payout.recipientId, name: payout.recipientName });
+  } else if (payout.recipientType === 'employee') {
+    subjects.push({ type: 'payroll_recipient', id: payout.recipientId, name: payout.recipientName });
+  }
+  if (destination) {
+    subjects.push({ type: 'payout_destination', id: destination.id, name: destination.accountName });
+  }
+  return subjects;
+}
+
+/**
+ * A bank account paid directly, without a saved destination. It is
+ * identified by its account number, so a cleared match carries over to
+ * the next payment to the same account.
+ */
+export function transferRecipientSubject(details: { accountNumber?: string | null; bankCode?: string | null; accountName?: string | null }): ScreeningSubject {
+  return {
+    type: 'transfer_recipient',
+    id: `${details.bankCode ?? ''}:${details.accountNumber ?? ''}`,
+    name: details.accountName,
+  };
+}
+
+export function destinationSubject(destination: PayoutDestination): ScreeningSubject {
+  return { type: 'payout_destination', id: destination.id, name: destination.accountName };
+}
+
+export function kycSubmissionName(submission: KycSubmission): string {
+  return [submission.firstName, submission.middleName, submission.lastName].filter(Boolean).join(' ');
+}
+
+/**
+ * Screens a KYC submission's person and business names. A possible match
+ * takes an automatic approval back to pending_review so a person reviews
+ * both.
+ */
+export async function screenKycSubmission(
+  companyId: string | null | undefined,
+  submission: KycSubmission,
+  cognitoSub: string,
+): Promise<SanctionsScreening | null> {
+  if (!companyId) return null;
+  const hold = await sanctionsHold(companyId, [
+    { type: 'kyc_submission', id: submission.id, name: kycSubmissionName(submission) },
+    ...(submission.isBusinessAccount && submission.businessName
+      ? [{ type: 'kyc_submission' as const, id: `${submission.id}:business`, name: submission.businessName }]
+      : []),
+  ], cognitoSub);
+  if (hold && submission.status === 'approved') {
+    await storage.updateKycSubmission(submission.id, {
+      status: 'pending_review',
+      reviewedBy: null,
+      reviewedAt: null,
+      reviewNotes: `Held for sanctions review (screening ${hold.id})`,
+      updatedAt: new Date().toISOString(),
+    });
+    await storage.updateUserProfile(cognitoSub, { kycStatus: 'pending_review' });
+  }
+  return hold;
+}
@@ -591,6 +591,48 @@ class NotificationService {
     });
   }
 
+  async notifyBudgetOverrideRequested(approverUserIds: string[], request: {
+    id: string;
+    requesterName: string;
+    budgetName: string;
+    amount: number;
+    remaining: number;
+    currency?: string;
+  }): Promise<void> {
+    const sym = this.getCurrencySymbol(request.currency || 'USD');
+    for (const approverId of approverUserIds) {
+      await this.send({
+        userId: approverId,
+        type: 'budget_override_requested',
+        title: 'Budget Override Requested',
+        message: `${request.requesterName} wants to spend ${sym}${request.amount.toLocaleString()} against the ${request.budgetName} budget, which has ${sym}${request.remaining.toLocaleString()} left.`,
+        data: { budgetOverrideId: request.id, actionUrl: '/budget' },
+        channels: ['in_app', 'email', 'push'],
+      });
+    }
+  }
+
+  async notifyBudgetOverrideDecided(userId: string, request: {
+    id: string;
+    budgetName: string;
+    amount: number;
+    approved: boolean;
+    currency?: string;
+    note?: string | null;
+  }): Promise<void> {
+    const sym = this.getCurrencySymbol(request.currency || 'USD');
+    await this.send({
+      userId,
+      type: request.approved ? 'budget_override_approved' : 'budget_override_rejected',
+      title: request.approved ? 'Budget Override Approved' : 'Budget Override Rejected',
+      message: request.approved
+        ? `Your request to spend ${sym}${request.amount.toLocaleString()} over the ${request.budgetName} budget was approved. Submit it again to go ahead.`
+        : `Your request to spend ${sym}${request.amount.toLocaleString()} over the ${request.budgetName} budget was rejected.${request.note ? ` Note: ${request.note}` : ''}`,
+      data: { budgetOverrideId: request.id, actionUrl: '/budget' },
+      channels: ['in_app', 'push'],
+    });
+  }
+
   async notifyKycApproved(userId: string): Promise<void> {
     await this.send({
       userId,
@@ -626,6 +668,19 @@ class NotificationService {
     });
   }
 
+  async notifyCardReceiptRequired(userId: string, expense: { id: string; cardLast4: string; amount: number; merchant: string; currency?: string }): Promise<void> {
+    const cur = expense.currency || 'USD';
+    const sym = this.getCurrencySymbol(cur);
+    await this.send({
+      userId,
+      type: 'card_receipt_required',
+      title: 'Receipt Needed',
+      message: `Add a receipt for ${sym}${expense.amount.toLocaleString()} at ${expense.merchant} on your card ending in ${expense.cardLast4}.`,
+      data: { expenseId: expense.id, actionUrl: '/expenses' },
+      channels: ['in_app', 'push'],
+    });
+  }
+
   async sendTeamInvite(config: {
     email: string;
     name: string;
@@ -982,10 +1037,19 @@ The funds should arrive in the recipient's account within 1-3 business days depe
     dueDate: string;
     items: Array<{ description: string; quantity: number; price: number }>;
     paymentLink?: string;
+    // Dunning reminder: replaces the opening line and subject, and
+    // `amount` is what is still due rather than the invoice total.
+    reminder?: { message: string; lateFee?: number };
   }): Promise<{ success: boolean; error?: string }> {
     const safeClientName = this.escapeHtml(config.clientName);
     const safeSenderName = this.escapeHtml(config.senderName);
     const safeInvoiceNumber = this.escapeHtml(config.invoiceNumber);
+    const intro = config.reminder
+      ? this.escapeHtml(config.reminder.message)
+      : `Please find your invoice from <strong>${safeSenderName}</strong>.`;
+    const lateFeeNote = config.reminder?.lateFee
+      ? `A late fee of ${config.currency} ${config.reminder.lateFee.toLocaleString()} has been added to this invoice.`
+      : '';
 
     const itemsHtml = config.items.map(item => `
       <tr>
@@ -998,7 +1062,8 @@ The funds should arrive in the recipient's account within 1-3 business days depe
 
     const bodyHtml = `
       <p style="font-size: 16px; color: #1f2937;">Dear <strong>${safeClientName}</strong>,</p>
-      <p style="color: #4b5563; line-height: 1.6;">Please find your invoice from <strong>${safeSenderName}</strong>.</p>
+      <p style="color: #4b5563; line-height: 1.6;">${intro}</p>
+      ${lateFeeNote ? `<p style="color: #b91c1c; line-height: 1.6;">${lateFeeNote}</p>` : ''}
       
       <table style="width: 100%; border-collapse: collapse; margin: 24px 0;">
         <thead>
@@ -1037,8 +1102,8 @@ The funds should arrive in the recipient's account within 1-3 business days depe
 
     const plainText = `Dear ${config.clientName},
 
-Please find your invoice from ${config.senderName}.
-
+${config.reminder ? config.reminder.message : `Please find your invoice from ${config.senderName}.`}
+${lateFeeNote ? `${lateFeeNote}\n` : ''}
 Invoice: ${config.invoiceNumber}
 ${itemsText}
 
@@ -1055,7 +1120,9 @@ Due Date: ${config.dueDate}`;
     try {
       await this.sendEmail({
         to: config.email,
-        subject: `Invoice ${config.invoiceNumber} from ${config.senderName} - ${config.currency} ${config.amount.toLocaleString()}`,
+        subject: config.reminder
+          ? `Reminder: invoice ${config.invoiceNumber} from ${config.senderName} - ${config.currency} ${config.amount.toLocaleString()} due`
+          : `Invoice ${config.invoiceNumber} from ${config.senderName} - ${config.currency} ${config.amount.toLocaleString()}`,
         html,
         text,
       });
@@ -1488,15 +1555,20 @@ Date: ${config.date}`;
     currency?: string;
     submitterName: string;
     category?: string;
+    // OCR total when it disagrees with the submitted amount
+    receiptAmount?: number;
   }): Promise<void> {
     const cur = expense.currency || 'USD';
     const sym = this.getCurrencySymbol(cur);
+    const mismatch = expense.receiptAmount != null
+      ? ` The attached receipt shows ${sym}${expense.receiptAmount.toLocaleString()}.`
+      : '';
     for (const approverId of approverUserIds) {
       await this.send({
         userId: approverId,
         type: 'expense_pending_approval',
         title: 'Expense Pending Your Approval',
-        message: `${expense.submitterName} submitted an expense of ${sym}${expense.amount.toLocaleString()} at ${expense.merchant}${expense.category ? ` (${expense.category})` : ''} for your approval.`,
+        message: `${expense.submitterName} submitted an expense of ${sym}${expense.amount.toLocaleString()} at ${expense.merchant}${expense.category ? ` (${expense.category})` : ''} for your approval.${mismatch}`,
         data: { expenseId: expense.id, actionUrl: '/expenses' },
         channels: ['in_app', 'email', 'push'],
       });
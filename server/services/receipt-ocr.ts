@@ -0,0 +1,149 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ReceiptDraft } from '@shared/schema';
+import { parseReceiptLines, type OcrLine } from '../lib/receipt-parser';
+import { logger as baseLogger } from '../lib/logger';
+
+// Local OCR for uploaded receipts. Images go through the tesseract CLI
+// (TSV output, so we keep per-word confidence); PDFs use their text
+// layer via pdftotext when there is one and are rasterised with
+// pdftoppm for tesseract otherwise. Nothing leaves the server. The
+// binaries come from the tesseract-ocr and poppler-utils packages.
+
+const logger = baseLogger.child({ module: 'receipt-ocr' });
+const execFileAsync = promisify(execFile);
+
+const TESSERACT_BIN = process.env.TESSERACT_PATH || 'tesseract';
+const OCR_LANG = process.env.OCR_LANG || 'eng';
+const OCR_TIMEOUT_MS = 20_000;
+const MAX_PDF_PAGES = 2;
+// A PDF text layer shorter than this is usually just a scanned image
+// with a stray header; OCR the page instead.
+const MIN_PDF_TEXT_LENGTH = 20;
+
+export type ReceiptScanStatus = 'completed' | 'failed' | 'unavailable';
+
+export interface ReceiptScanResult {
+  status: ReceiptScanStatus;
+  engine: 'tesseract' | 'pdftotext';
+  draft: ReceiptDraft | null;
+  rawText: string | null;
+  error: string | null;
+  durationMs: number;
+}
+
+/**
+ * Group tesseract TSV word rows into lines. Confidence is the mean word
+ * confidence (tesseract reports 0-100, -1 for non-word rows).
+ */
+export function parseTesseractTsv(tsv: string): OcrLine[] {
+  const lines = new Map<string, { words: string[]; confs: number[] }>();
+  for (const row of tsv.split(/\r?\n/).slice(1)) {
+    const cols = row.split('\t');
+    if (cols.length < 12) continue;
+    const [level, page, block, par, line, , , , , , conf, ...rest] = cols;
+    const text = rest.join('\t').trim();
+    if (level !== '5' || !text) continue;
+    const key = `${page}:${block}:${par}:${line}`;
+    const entry = lines.get(key) ?? { words: [], confs: [] };
+    entry.words.push(text);
+    const c = parseFloat(conf);
+    if (c >= 0) entry.confs.push(c / 100);
+    lines.set(key, entry);
+  }
+  return Array.from(lines.values()).map((l) => ({
+    text: l.words.join(' '),
+    confidence: l.confs.length > 0 ? l.confs.reduce((a, b) => a + b, 0) / l.confs.length : 0,
+  }));
+}
+
+async function tesseractLines(imagePath: string): Promise<OcrLine[]> {
+  // psm 4: a single column of variable-size text — the usual receipt layout.
+  const { stdout } = await execFileAsync(
+    TESSERACT_BIN,
+    [imagePath, 'stdout', '-l', OCR_LANG, '--psm', '4', 'tsv'],
+    { timeout: OCR_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 },
+  );
+  return parseTesseractTsv(stdout);
+}
+
+async function pdfTextLayer(pdfPath: string): Promise<string> {
+  const { stdout } = await execFileAsync(
+    'pdftotext',
+    ['-layout', '-f', '1', '-l', String(MAX_PDF_PAGES), pdfPath, '-'],
+    { timeout: OCR_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 },
+  );
+  return stdout;
+}
+
+async function rasterisedPdfLines(pdfPath: string): Promise<OcrLine[]> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'receipt-'));
+  try {
+    await execFileAsync(
+      'pdftoppm',
+      ['-r', '300', '-png', '-f', '1', '-l', String(MAX_PDF_PAGES), pdfPath, path.join(dir, 'page')],
+      { timeout: OCR_TIMEOUT_MS },
+    );
+    const pages = (await fs.promises.readdir(dir)).filter((f) => f.endsWith('.png')).sort();
+    const lines: OcrLine[] = [];
+    for (const page of pages) {
+      lines.push(...await tesseractLines(path.join(dir, page)));
+    }
+    return lines;
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * OCR an uploaded receipt (already magic-byte validated) into an expense
+ * draft. Never throws: a missing engine reports 'unavailable' and any
+ * other failure 'failed', so the upload itself still succeeds.
+ */
+export async function scanReceiptFile(
+  filePath: string,
+  mimetype: string,
+  opts: { dayFirst?: boolean } = {},
+): Promise<ReceiptScanResult> {
+  const started = Date.now();
+  let engine: ReceiptScanResult['engine'] = 'tesseract';
+  try {
+    let lines: OcrLine[];
+    if (mimetype === 'application/pdf') {
+      const text = await pdfTextLayer(filePath);
+      if (text.trim().length >= MIN_PDF_TEXT_LENGTH) {
+        engine = 'pdftotext';
+        // Embedded text is exact; only the field heuristics are uncertain.
+        lines = text.split(/\r?\n/).map((t) => ({ text: t.replace(/\s{3,}/g, '  '), confidence: 0.99 }));
+      } else {
+        lines = await rasterisedPdfLines(filePath);
+      }
+    } else {
+      lines = await tesseractLines(filePath);
+    }
+
+    const draft = parseReceiptLines(lines, opts);
+    return {
+      status: 'completed',
+      engine,
+      draft,
+      rawText: lines.map((l) => l.text).join('\n'),
+      error: null,
+      durationMs: Date.now() - started,
+    };
+  } catch (err: any) {
+    const unavailable = err?.code === 'ENOENT';
+    logger.warn({ err: err?.message, engine, unavailable }, unavailable ? 'OCR engine not installed' : 'Receipt OCR failed');
+    return {
+      status: unavailable ? 'unavailable' : 'failed',
+      engine,
+      draft: null,
+      rawText: null,
+      error: unavailable ? `OCR engine not installed (${err?.path || TESSERACT_BIN})` : (err?.killed ? 'OCR timed out' : err?.message || 'OCR failed'),
+      durationMs: Date.now() - started,
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { db } from "./db";
-import { eq, desc, and, sql, inArray } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { eq, desc, and, or, sql, inArray, lte, isNull } from "drizzle-orm";
 import { 
   users, expenses, transactions, bills, budgets, virtualCards, 
   teamMembers, payrollEntries, invoices, vendors, reports,
@@ -9,9 +10,9 @@ import {
   wallets, walletTransactions, exchangeRates, exchangeRateSettings, payoutDestinations, payouts, fundingSources, adminSettings,
   companies, companyMembers, companyInvitations,
   analyticsSnapshots, businessInsights,
-  subscriptions, taxBrackets,
+  subscriptions, taxBrackets, statutoryRules,
   type User, type InsertUser, type Expense, type Transaction, type Bill, 
-  type Budget, type VirtualCard, type TeamMember, type PayrollEntry, 
+  type Budget, type InsertBudget, type VirtualCard, type TeamMember, type PayrollEntry, 
   type Invoice, type Vendor, type Report, type CardTransaction, 
   type VirtualAccount, type CompanyBalances, type CompanySettings, type AIInsight,
   type UserProfile, type InsertUserProfile, type KycSubmission, type InsertKycSubmission,
@@ -38,7 +39,108 @@ import {
   type Subscription, type InsertSubscription,
   type PendingDestructiveAction, type InsertPendingDestructiveAction,
   type PaymentIntentIndex, type InsertPaymentIntentIndex,
+  ledgerAccounts, journalEntries, ledgerPostings,
+  type JournalEntry, type LedgerPosting,
+  reconciliationRuns, reconciliationExceptions,
+  type ReconciliationRun, type InsertReconciliationRun,
+  type ReconciliationException, type InsertReconciliationException,
+  cardAuthorizations,
+  type CardAuthorization,
+  receiptScans,
+  type ReceiptScan, type InsertReceiptScan,
+  approvalPolicies, approvalSteps,
+  type ApprovalPolicy, type InsertApprovalPolicy,
+  type ApprovalStep, type InsertApprovalStep,
+  glAccountMappings, accountingExports, accountingExportItems,
+  type GlAccountMapping, type InsertGlAccountMapping,
+  type AccountingExport, type InsertAccountingExport,
+  bankStatementImports, bankStatementLines,
+  type BankStatementImport, type InsertBankStatementImport,
+  type BankStatementLine, type InsertBankStatementLine,
+  purchaseOrders, purchaseOrderLines, goodsReceipts,
+  type PurchaseOrder, type InsertPurchaseOrder,
+  type PurchaseOrderLine, type InsertPurchaseOrderLine,
+  invoicePayments, creditNotes,
+  type InvoicePayment, type InsertInvoicePayment,
+  type CreditNote, type InsertCreditNote,
+  type GoodsReceipt, type InsertGoodsReceipt,
+  dunningSchedules, invoiceReminders,
+  type DunningSchedule, type InsertDunningSchedule,
+  type InvoiceReminder, type InsertInvoiceReminder,
+  budgetPeriods, budgetOverrides,
+  type BudgetPeriod, type InsertBudgetPeriod,
+  type BudgetOverride, type InsertBudgetOverride,
+  payrollRuns, payrollRunItems,
+  type PayrollRun, type InsertPayrollRun,
+  type PayrollRunItem, type InsertPayrollRunItem,
+  webhookEndpoints, webhookDeliveries,
+  type WebhookEndpoint, type InsertWebhookEndpoint,
+  type WebhookDelivery, type InsertWebhookDelivery,
+  apiKeys,
+  type ApiKey, type InsertApiKey,
+  cardSpendPolicies,
+  type CardSpendPolicy, type InsertCardSpendPolicy,
+  fxQuotes,
+  type FxQuote, type InsertFxQuote,
+  idempotencyKeys,
+  type IdempotencyKey,
+  sanctionsLists, sanctionsEntries, sanctionsScreenings,
+  type SanctionsList, type InsertSanctionsList,
+  type SanctionsEntry, type InsertSanctionsEntry,
+  type SanctionsScreening, type InsertSanctionsScreening,
+  monitoringRules, monitoringEvents, monitoringAlerts,
+  type MonitoringRule, type InsertMonitoringRule,
+  type MonitoringEvent, type InsertMonitoringEvent,
+  type MonitoringAlert, type InsertMonitoringAlert,
 } from "@shared/schema";
+import {
+  assertBalanced, walletMovementLegs, walletTransferLegs, companyAccount, companyBalanceAccount, toMinorUnits,
+  type JournalEntryDraft, type CompanyAccountKey, type LedgerAccountBalance, type LedgerIntegrityReport,
+} from "./lib/ledger";
+import {
+  decideCardAuthorization, spendCategoryForMerchant, spendingWindowStart,
+  type AuthorizationBudgetState, type AuthorizationPolicyState,
+} from "./lib/card-authorization";
+import { lockAfterApproval, usesRemaining } from "./lib/card-kinds";
+import { fxQuoteAcceptProblem } from "./lib/fx-quotes";
+import { OPEN_PAYROLL_RUN_STATUSES } from "./lib/payroll-run";
+import { idempotencyKeyExpiry } from "./lib/idempotency";
+import { PAYSLIP_ITEM_STATUSES } from "./lib/employee-pay";
+import type { StatutoryRule, StatutoryCategory } from "./lib/statutory-deductions";
+import { checkApprover, type ApprovalActor, type ApprovalCheck, type ApprovalStepState } from "./lib/approval-policy";
+import { exportKey } from "./lib/accounting-export";
+import { candidateKey } from "./lib/statement-matching";
+import { checkReceipt, receivingStatus, RECEIVABLE_PO_STATUSES } from "./lib/three-way-match";
+import { invoiceBalance, creditNoteProblem } from "./lib/invoice-balance";
+import { budgetPeriod, type PeriodWindow } from "./lib/budget-period";
+
+// Spend counted against a budget in one period, by source.
+export interface BudgetActuals {
+  expenses: number;
+  bills: number;
+  cards: number;
+  total: number;
+}
+
+// One program cardholder's card transactions in a period, per currency.
+export interface MemberCardSpend {
+  memberId: string;
+  name: string | null;
+  email: string;
+  currency: string;
+  cardCount: number;
+  transactionCount: number;
+  total: number;
+}
+
+export interface FxMarginSummary {
+  sourceCurrency: string;
+  targetCurrency: string;
+  conversions: number;
+  sourceVolume: number;
+  targetVolume: number;
+  margin: number; // in targetCurrency
+}
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
@@ -67,14 +169,42 @@ export interface IStorage {
   
   getBudgets(companyId?: string): Promise<Budget[]>;
   getBudget(id: string): Promise<Budget | undefined>;
-  createBudget(budget: Omit<Budget, 'id'>): Promise<Budget>;
+  createBudget(budget: InsertBudget): Promise<Budget>;
   updateBudget(id: string, budget: Partial<Omit<Budget, 'id'>>): Promise<Budget | undefined>;
   deleteBudget(id: string): Promise<boolean>;
+  // Approved expenses, paid bills and approved card authorizations in the
+  // budget's category and currency within the window. A department scope
+  // counts only that department's expenses; a cardholder scope only their
+  // card spend.
+  getBudgetActuals(budget: Budget, window: PeriodWindow): Promise<BudgetActuals>;
+  getBudgetPeriods(budgetId: string): Promise<BudgetPeriod[]>;
+  // Record a closed period and move the budget on to the next one. A no-op
+  // (returns undefined) when another caller already moved it.
+  closeBudgetPeriod(record: InsertBudgetPeriod, next: { currentPeriodStart: string; rolloverAmount: string }): Promise<Budget | undefined>;
+  // Start tracking periods on a budget that has none yet.
+  startBudgetPeriod(budgetId: string, periodStart: string): Promise<Budget | undefined>;
+  // Raise the period's alerted threshold; false when it was already at or
+  // above it, so each threshold is alerted once per period.
+  claimBudgetThreshold(budgetId: string, periodStart: string, threshold: number): Promise<boolean>;
+  // Newest first.
+  getBudgetOverrides(companyId: string, filter?: { status?: string; requestedBy?: string }): Promise<BudgetOverride[]>;
+  getBudgetOverride(id: string): Promise<BudgetOverride | undefined>;
+  createBudgetOverride(override: InsertBudgetOverride): Promise<BudgetOverride>;
+  // Approve or reject a pending override; undefined when it was no longer
+  // pending.
+  decideBudgetOverride(id: string, decision: { status: 'approved' | 'rejected'; decidedBy: string; decidedByName: string | null; decisionNote: string | null }): Promise<BudgetOverride | undefined>;
+  // Mark an approved override used; undefined when it was not approved
+  // (or another request used it first).
+  useBudgetOverride(id: string): Promise<BudgetOverride | undefined>;
   
   getCards(companyId?: string): Promise<VirtualCard[]>;
   getCard(id: string): Promise<VirtualCard | undefined>;
   createCard(card: Omit<VirtualCard, 'id'>): Promise<VirtualCard>;
   updateCard(id: string, card: Partial<Omit<VirtualCard, 'id'>>): Promise<VirtualCard | undefined>;
+  // Debit a payment from an active card and use up one of its uses in one
+  // statement; undefined when the card is no longer active, short of
+  // balance or out of uses.
+  spendFromCard(id: string, amount: number, lockedMerchantName?: string | null): Promise<VirtualCard | undefined>;
   deleteCard(id: string): Promise<boolean>;
   
   getCardTransactions(cardId: string, companyId?: string): Promise<CardTransaction[]>;
@@ -116,6 +246,19 @@ export interface IStorage {
   // Webhook idempotency
   isWebhookProcessed(eventId: string): Promise<boolean>;
   markWebhookProcessed(eventId: string, provider: string, eventType?: string, metadata?: any): Promise<void>;
+  // Idempotency-Key records (server/middleware/idempotency.ts).
+  // claimIdempotencyKey inserts a 'processing' row with a fresh
+  // claimToken, or takes over an expired one: a completed row past its
+  // replay window, or a processing row whose lease lapsed if the retry
+  // has the same fingerprint. claimed is false when the key stays with
+  // the existing row and `record` is that row. A claim's expiresAt is its
+  // processing lease, which the holder renews; completing it pushes
+  // expiry out to the replay window. Renew, complete and release only
+  // touch the row while it still carries the caller's claimToken.
+  claimIdempotencyKey(params: { scope: string; key: string; method: string; path: string; fingerprint: string; expiresAt: string }): Promise<{ claimed: boolean; record: IdempotencyKey }>;
+  renewIdempotencyKey(id: string, claimToken: string, expiresAt: string): Promise<void>;
+  completeIdempotencyKey(id: string, claimToken: string, responseStatus: number, responseBody: unknown): Promise<void>;
+  releaseIdempotencyKey(id: string, claimToken: string): Promise<void>;
   // LU-DD-2 / AUD-DD-MT-005 — Server-issued payment-intent index
   createPaymentIntentIndex(input: InsertPaymentIntentIndex): Promise<PaymentIntentIndex | null>;
   getPaymentIntentIndex(provider: string, providerIntentId: string): Promise<PaymentIntentIndex | undefined>;
@@ -147,6 +290,20 @@ export interface IStorage {
   updatePayrollEntryInCompany(id: string, companyId: string, entry: Partial<Omit<PayrollEntry, 'id'>>): Promise<PayrollEntry | undefined>;
   deletePayrollEntry(id: string): Promise<boolean>;
   deletePayrollEntryInCompany(id: string, companyId: string): Promise<boolean>;
+  // Payroll runs — a run freezes its entries into items when drafted.
+  getPayrollRuns(companyId: string): Promise<PayrollRun[]>;
+  getPayrollRun(id: string, companyId: string): Promise<PayrollRun | undefined>;
+  getPayrollRunItems(runId: string): Promise<PayrollRunItem[]>;
+  // Entries held by a run that has not been paid or reversed yet.
+  getOpenPayrollRunEntryIds(companyId: string): Promise<Set<string>>;
+  createPayrollRun(run: InsertPayrollRun, items: Omit<InsertPayrollRunItem, 'runId'>[]): Promise<PayrollRun>;
+  // Conditional on the run's current status; undefined when it has moved on.
+  transitionPayrollRun(id: string, companyId: string, from: string[], data: Partial<InsertPayrollRun>): Promise<PayrollRun | undefined>;
+  updatePayrollRunItem(id: string, data: Partial<InsertPayrollRunItem>): Promise<PayrollRunItem | undefined>;
+  deleteDraftPayrollRun(id: string, companyId: string): Promise<boolean>;
+  // An employee's own paid (or reversed) run items, with their runs,
+  // matched by user id or email.
+  getEmployeePayrollRunItems(companyId: string, identity: { userId: string; email?: string | null }): Promise<Array<{ item: PayrollRunItem; run: PayrollRun }>>;
   // AUD-PR-012 — versioned tax brackets lookup. Picks the row whose
   // [effective_from, effective_to) window contains `asOfDate`. Returns
   // undefined if no row matches.
@@ -158,6 +315,8 @@ export interface IStorage {
     source: string | null;
     effectiveFrom: string;
   } | undefined>;
+  // Statutory contribution rules in force on asOfDate, one per code.
+  getStatutoryRulesForCountry(country: string, asOfDate?: string): Promise<StatutoryRule[]>;
 
   getInvoices(companyId?: string): Promise<Invoice[]>;
   getInvoice(id: string): Promise<Invoice | undefined>;
@@ -259,6 +418,50 @@ export interface IStorage {
   // Exchange Rate Settings
   getExchangeRateSettings(): Promise<ExchangeRateSettings | undefined>;
   updateExchangeRateSettings(buyMarkup: string, sellMarkup: string, updatedBy?: string): Promise<ExchangeRateSettings>;
+
+  // FX quotes (server/lib/fx-quotes.ts). atomicAcceptFxQuote claims an
+  // open, unexpired quote and moves both legs in one transaction; it
+  // throws FX_QUOTE_UNAVAILABLE: <reason> when the quote can't be used.
+  createFxQuote(quote: InsertFxQuote): Promise<FxQuote>;
+  getFxQuote(id: string): Promise<FxQuote | undefined>;
+  getFxConversions(filter: { companyId?: string | null; createdBy: string }, limit?: number): Promise<FxQuote[]>;
+  atomicAcceptFxQuote(params: { quoteId: string; acceptedBy: string }): Promise<{ quote: FxQuote; debitTx: WalletTransaction; creditTx: WalletTransaction }>;
+  // Realized margin on accepted quotes, per currency pair; `to` is exclusive.
+  getFxMargin(companyId: string, from: string, to: string): Promise<FxMarginSummary[]>;
+
+  // Sanctions screening (server/sanctionsScreening.ts). A list with no
+  // companyId is platform-wide. createSanctionsList supersedes the active
+  // list from the same source and owner and drops its entries; the lists
+  // and entries getters return the company's own plus the platform's.
+  // Screenings are append-only apart from the review, which only applies
+  // to a 'potential_match' and returns undefined otherwise, and the users
+  // they held.
+  createSanctionsList(list: InsertSanctionsList, entries: Omit<InsertSanctionsEntry, 'listId' | 'companyId'>[]): Promise<SanctionsList>;
+  getSanctionsLists(companyId: string): Promise<SanctionsList[]>;
+  getActiveSanctionsEntries(companyId: string): Promise<SanctionsEntry[]>;
+  createSanctionsScreening(screening: InsertSanctionsScreening): Promise<SanctionsScreening>;
+  getSanctionsScreening(id: string): Promise<SanctionsScreening | undefined>;
+  // Newest first.
+  getSubjectScreenings(companyId: string, subjectType: string, subjectId: string): Promise<SanctionsScreening[]>;
+  getSanctionsScreenings(companyId: string, filter?: { status?: string; subjectType?: string; subjectId?: string }): Promise<SanctionsScreening[]>;
+  reviewSanctionsScreening(id: string, review: { status: string; reviewedBy: string; reviewedByName: string; reviewNote: string | null }): Promise<SanctionsScreening | undefined>;
+  addSanctionsScreeningHeldUser(id: string, userId: string): Promise<void>;
+
+  // Transaction monitoring (server/transactionMonitoring.ts). Rules are
+  // stored only once an admin changes them. createMonitoringAlert returns
+  // the alert already raised for the same dedupe key instead of adding a
+  // second one, and the review only applies to an 'open' alert.
+  getMonitoringRules(companyId: string): Promise<MonitoringRule[]>;
+  upsertMonitoringRule(rule: InsertMonitoringRule): Promise<MonitoringRule>;
+  createMonitoringEvent(event: InsertMonitoringEvent): Promise<MonitoringEvent>;
+  // Newest first, at most 1000.
+  getMonitoringEvents(companyId: string, filter: { kinds: string[]; since?: string; userId?: string; subjectId?: string }): Promise<MonitoringEvent[]>;
+  getMonitoringEventCountries(companyId: string, kind: string, since: string): Promise<string[]>;
+  createMonitoringAlert(alert: InsertMonitoringAlert): Promise<{ alert: MonitoringAlert; created: boolean }>;
+  getMonitoringAlert(id: string): Promise<MonitoringAlert | undefined>;
+  getMonitoringAlerts(companyId: string, filter?: { status?: string; severity?: string; subjectType?: string; subjectId?: string }): Promise<MonitoringAlert[]>;
+  updateMonitoringAlert(id: string, data: Partial<Pick<MonitoringAlert, 'actionTaken' | 'details'>>): Promise<MonitoringAlert | undefined>;
+  reviewMonitoringAlert(id: string, review: { status: string; reviewedBy: string; reviewedByName: string; reviewNote: string | null }): Promise<MonitoringAlert | undefined>;
   
   // Payout Destinations
   getPayoutDestinations(userId?: string, vendorId?: string): Promise<PayoutDestination[]>;
@@ -266,6 +469,8 @@ export interface IStorage {
   createPayoutDestination(destination: InsertPayoutDestination): Promise<PayoutDestination>;
   updatePayoutDestination(id: string, data: Partial<PayoutDestination>): Promise<PayoutDestination | undefined>;
   deletePayoutDestination(id: string): Promise<boolean>;
+  // Bank details employees entered themselves, waiting for an admin.
+  getPayoutDestinationsAwaitingReview(userIds: string[]): Promise<PayoutDestination[]>;
   // AUD-PR-010 / AUD-DB-010 Phase 1 — Stripe Connect helpers.
   getPayoutDestinationByStripeAccount(stripeAccountId: string): Promise<PayoutDestination | undefined>;
   setPayoutDestinationStripeAccount(
@@ -283,7 +488,7 @@ export interface IStorage {
   setCompanyPayoutFlags(companyId: string, flags: Record<string, boolean>): Promise<Record<string, boolean>>;
   
   // Payouts
-  getPayouts(filters?: { recipientType?: string; recipientId?: string; status?: string; providerReference?: string; companyId?: string }): Promise<Payout[]>;
+  getPayouts(filters?: { recipientType?: string; recipientId?: string; status?: string; providerReference?: string; companyId?: string; relatedEntityType?: string; relatedEntityId?: string }): Promise<Payout[]>;
   getPayout(id: string): Promise<Payout | undefined>;
   createPayout(payout: InsertPayout): Promise<Payout>;
   updatePayout(id: string, data: Partial<Payout>): Promise<Payout | undefined>;
@@ -317,6 +522,226 @@ export interface IStorage {
     reason: string;
   }): Promise<void>;
 
+  // Double-entry ledger. Every wallet / company-balance movement above
+  // posts a balanced journal entry in the same DB transaction;
+  // atomicCompanyBalanceMovement is the ledger-aware replacement for the
+  // read-modify-write updateBalances pattern in the payment routes.
+  atomicCompanyBalanceMovement(params: {
+    companyId?: string;
+    field: 'usd' | 'local';
+    direction: 'credit' | 'debit';
+    amount: number;
+    currency: string;
+    counterAccount: CompanyAccountKey;
+    description: string;
+    sourceType: string;
+    sourceId?: string | null;
+    reference?: string | null;
+  }): Promise<CompanyBalances>;
+  getLedgerAccounts(companyId: string): Promise<LedgerAccountBalance[]>;
+  getLedgerAccountPostings(accountId: string, limit?: number): Promise<Array<LedgerPosting & { description: string; sourceType: string; reference: string | null; postedAt: string }>>;
+  getJournalEntries(companyId: string, opts?: { limit?: number; offset?: number }): Promise<Array<JournalEntry & { postings: LedgerPosting[] }>>;
+  getLedgerIntegrityReport(companyId: string): Promise<LedgerIntegrityReport>;
+
+  // LU-014 — provider reconciliation. The two window queries feed
+  // server/reconciliationScheduler.ts; exceptions are upserted by
+  // fingerprint so a mismatch that persists across runs stays one row.
+  getPayoutsForReconciliation(provider: string, from: string, to: string): Promise<Payout[]>;
+  getProviderWalletTransactions(from: string, to: string): Promise<Array<WalletTransaction & { companyId: string | null }>>;
+  getPaymentIntentIndexByIds(provider: string, providerIntentIds: string[]): Promise<PaymentIntentIndex[]>;
+  createReconciliationRun(run: InsertReconciliationRun): Promise<ReconciliationRun>;
+  updateReconciliationRun(id: string, data: Partial<ReconciliationRun>): Promise<ReconciliationRun | undefined>;
+  getReconciliationRuns(limit?: number): Promise<ReconciliationRun[]>;
+  upsertReconciliationException(input: InsertReconciliationException): Promise<ReconciliationException>;
+  getReconciliationExceptions(filters: { companyIds: Array<string | null>; status?: string; provider?: string; kind?: string }): Promise<ReconciliationException[]>;
+  getReconciliationException(id: string): Promise<ReconciliationException | undefined>;
+  updateReconciliationException(id: string, data: Partial<ReconciliationException>): Promise<ReconciliationException | undefined>;
+
+  // Stripe Issuing real-time authorization. Decides and records in one
+  // transaction; a retried request returns the stored decision. An
+  // approval also uses up one of a limited card's uses and sets a
+  // merchant-locked card's lock.
+  atomicCardAuthorization(request: {
+    stripeAuthorizationId: string;
+    stripeCardId: string | null;
+    amount: number;
+    currency: string;
+    merchantName: string | null;
+    merchantCategory: string | null;
+    merchantCategoryCode?: string | null;
+    merchantCountry?: string | null;
+    merchantNetworkId?: string | null;
+  }): Promise<CardAuthorization>;
+  getCardAuthorizations(cardId: string, limit?: number): Promise<CardAuthorization[]>;
+  // Marks an authorization captured, which releases its hold on the card balance.
+  markCardAuthorizationCaptured(stripeAuthorizationId: string): Promise<void>;
+
+  // Receipt OCR scans, keyed by the uploaded file URL
+  saveReceiptScan(scan: InsertReceiptScan): Promise<ReceiptScan>;
+  getReceiptScanByFileUrl(fileUrl: string): Promise<ReceiptScan | undefined>;
+
+  // Approval policies and per-entity approval chains
+  getApprovalPolicies(companyId: string): Promise<ApprovalPolicy[]>;
+  getApprovalPolicy(id: string): Promise<ApprovalPolicy | undefined>;
+  createApprovalPolicy(policy: InsertApprovalPolicy): Promise<ApprovalPolicy>;
+  updateApprovalPolicy(id: string, data: Partial<Omit<ApprovalPolicy, 'id' | 'companyId'>>): Promise<ApprovalPolicy | undefined>;
+  deleteApprovalPolicy(id: string): Promise<boolean>;
+  getApprovalSteps(entityType: string, entityId: string): Promise<ApprovalStep[]>;
+  createApprovalChain(steps: InsertApprovalStep[]): Promise<ApprovalStep[]>;
+  // Approve the chain's current step under a row lock. Returns the
+  // updated chain, or the reason the actor may not approve.
+  atomicApproveStep(
+    entityType: string,
+    entityId: string,
+    actor: ApprovalActor & { name: string },
+    submittedBy: string | null,
+    comment?: string | null,
+  ): Promise<{ check: ApprovalCheck; steps: ApprovalStep[] }>;
+  // Drop an entity's chain (rejected / sent back) so the next submission re-plans it.
+  clearApprovalChain(entityType: string, entityId: string): Promise<void>;
+
+  // Accounting export: GL account mapping, generated files and the
+  // source events each file covered
+  getGlAccountMappings(companyId: string): Promise<GlAccountMapping[]>;
+  upsertGlAccountMapping(mapping: InsertGlAccountMapping): Promise<GlAccountMapping>;
+  deleteGlAccountMapping(id: string, companyId: string): Promise<boolean>;
+  getAccountingExports(companyId: string): Promise<AccountingExport[]>;
+  getAccountingExport(id: string): Promise<AccountingExport | undefined>;
+  getExportedAccountingKeys(companyId: string): Promise<Set<string>>;
+  // Throws ACCOUNTING_ITEMS_ALREADY_EXPORTED when a concurrent export
+  // claimed any of the items first.
+  createAccountingExport(
+    exp: InsertAccountingExport,
+    items: Array<{ sourceType: string; sourceId: string }>,
+  ): Promise<AccountingExport>;
+  // Mark the export voided and release its items for re-export.
+  voidAccountingExport(id: string, voidedBy: string): Promise<AccountingExport | undefined>;
+
+  // Bank statement import: uploaded files and their staged lines. Lines
+  // whose dedupe key is already staged are skipped and counted.
+  createBankStatementImport(
+    imp: InsertBankStatementImport,
+    lines: Array<Omit<InsertBankStatementLine, 'importId' | 'companyId'>>,
+  ): Promise<{ import: BankStatementImport; lines: BankStatementLine[] }>;
+  getBankStatementImports(companyId: string): Promise<BankStatementImport[]>;
+  getBankStatementLines(companyId: string, filters?: { importId?: string; statuses?: string[] }): Promise<BankStatementLine[]>;
+  getBankStatementLine(id: string): Promise<BankStatementLine | undefined>;
+  // Keys (candidateKey) of every record already backing a line.
+  getMatchedStatementTargets(companyId: string): Promise<Set<string>>;
+  // Update a line only while it is still in one of `fromStatuses`;
+  // undefined when another request resolved it first. Throws
+  // STATEMENT_MATCH_TAKEN when the record already backs another line.
+  resolveBankStatementLine(
+    id: string,
+    fromStatuses: string[],
+    data: Partial<Omit<BankStatementLine, 'id'>>,
+  ): Promise<BankStatementLine | undefined>;
+  // Create the expense or transaction for an unmatched line and point the
+  // line at it, atomically. Throws STATEMENT_LINE_RESOLVED when the line
+  // was matched, ignored or converted in the meantime.
+  convertBankStatementLine(
+    id: string,
+    record: { kind: 'expense'; expense: CreateExpense } | { kind: 'transaction'; transaction: CreateTransaction },
+    resolvedBy: string,
+  ): Promise<{ line: BankStatementLine; expense?: Expense; transaction?: Transaction }>;
+
+  // Purchase orders, their lines and goods receipts
+  getPurchaseOrders(companyId: string, filters?: { status?: string; vendorId?: string }): Promise<PurchaseOrder[]>;
+  getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined>;
+  getPurchaseOrderLines(purchaseOrderId: string): Promise<PurchaseOrderLine[]>;
+  // Numbers the order (PO-<year>-0001, per company) and stores its lines.
+  createPurchaseOrder(
+    po: Omit<InsertPurchaseOrder, 'poNumber'>,
+    lines: Array<Omit<InsertPurchaseOrderLine, 'purchaseOrderId'>>,
+  ): Promise<PurchaseOrder>;
+  // Update the order only while it is in one of `fromStatuses`, replacing
+  // its lines when given; undefined when the status has moved on.
+  updatePurchaseOrder(
+    id: string,
+    fromStatuses: string[],
+    data: Partial<Omit<PurchaseOrder, 'id'>>,
+    lines?: Array<Omit<InsertPurchaseOrderLine, 'purchaseOrderId'>>,
+  ): Promise<PurchaseOrder | undefined>;
+  getGoodsReceipts(purchaseOrderId: string): Promise<GoodsReceipt[]>;
+  getGoodsReceipt(id: string): Promise<GoodsReceipt | undefined>;
+  // Record a delivery, add it to the lines' received quantities and move
+  // the order to partially_received / received. Throws PO_NOT_RECEIVABLE
+  // or RECEIPT_EXCEEDS_ORDER (with the problems in `details`).
+  createGoodsReceipt(receipt: Omit<InsertGoodsReceipt, 'receiptNumber'>): Promise<{ receipt: GoodsReceipt; purchaseOrder: PurchaseOrder }>;
+  getBillsForPurchaseOrder(purchaseOrderId: string): Promise<Bill[]>;
+
+  // Invoice payments and credit notes
+  getInvoicePayments(invoiceIds: string[]): Promise<InvoicePayment[]>;
+  getInvoicePayment(id: string): Promise<InvoicePayment | undefined>;
+  // Null when a payment with the same reference is already recorded (a
+  // webhook retry). Throws PAYMENT_EXCEEDS_BALANCE unless
+  // `allowOverpayment` — money the provider already took is always kept.
+  recordInvoicePayment(payment: InsertInvoicePayment, opts?: { allowOverpayment?: boolean }): Promise<InvoicePayment | null>;
+  getCreditNotes(invoiceIds: string[]): Promise<CreditNote[]>;
+  getCreditNote(id: string): Promise<CreditNote | undefined>;
+  // Checks the note against the invoice's balance under a lock, numbers
+  // it (CN-<year>-0001, per company) and, for refunds, reserves the
+  // amount on the payment. Throws CREDIT_NOTE_INVALID with `details`.
+  createCreditNote(note: Omit<InsertCreditNote, 'creditNoteNumber' | 'status'>): Promise<CreditNote>;
+  // Settle a refund_pending note; a failed refund releases the amount it
+  // reserved. Undefined when the note was not pending.
+  settleCreditNoteRefund(
+    id: string,
+    outcome: { status: 'refunded'; refundReference: string | null } | { status: 'refund_failed'; refundError: string },
+  ): Promise<CreditNote | undefined>;
+
+  // Invoice dunning
+  getDunningSchedule(companyId: string): Promise<DunningSchedule | undefined>;
+  getEnabledDunningSchedules(): Promise<DunningSchedule[]>;
+  upsertDunningSchedule(schedule: Omit<InsertDunningSchedule, 'createdAt' | 'updatedAt'>): Promise<DunningSchedule>;
+  getInvoiceReminders(invoiceId: string): Promise<InvoiceReminder[]>;
+  // Claims a schedule step for an invoice; null when another tick already
+  // claimed it, so each step is sent at most once.
+  claimInvoiceReminder(reminder: InsertInvoiceReminder): Promise<InvoiceReminder | null>;
+  updateInvoiceReminder(id: string, patch: Partial<Pick<InvoiceReminder, 'status' | 'error' | 'sentAt' | 'lateFee' | 'amountDue'>>): Promise<InvoiceReminder | undefined>;
+  // Adds a late fee to the invoice total and as a line item, under a lock.
+  addInvoiceLateFee(invoiceId: string, fee: number, description: string): Promise<Invoice | undefined>;
+
+  // Outbound webhooks
+  getWebhookEndpoints(companyId: string): Promise<WebhookEndpoint[]>;
+  getWebhookEndpoint(id: string, companyId: string): Promise<WebhookEndpoint | undefined>;
+  createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint>;
+  updateWebhookEndpoint(id: string, companyId: string, data: Partial<Omit<WebhookEndpoint, 'id' | 'companyId'>>): Promise<WebhookEndpoint | undefined>;
+  deleteWebhookEndpoint(id: string, companyId: string): Promise<boolean>;
+  createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  getWebhookDelivery(id: string, companyId: string): Promise<WebhookDelivery | undefined>;
+  // Latest first.
+  getWebhookDeliveries(companyId: string, filters?: { endpointId?: string; status?: string; limit?: number }): Promise<WebhookDelivery[]>;
+  // Pending deliveries whose next attempt is due, oldest first.
+  getDueWebhookDeliveries(now: string, limit: number): Promise<WebhookDelivery[]>;
+  // Takes a due delivery for one attempt by pushing its next attempt out to
+  // `leaseUntil`; undefined when it isn't due or another worker took it.
+  claimWebhookDelivery(id: string, now: string, leaseUntil: string): Promise<WebhookDelivery | undefined>;
+  updateWebhookDelivery(id: string, data: Partial<Omit<WebhookDelivery, 'id'>>): Promise<WebhookDelivery | undefined>;
+
+  // API keys
+  getApiKeys(companyId: string): Promise<ApiKey[]>;
+  getApiKey(id: string, companyId: string): Promise<ApiKey | undefined>;
+  // Any company's key by the SHA-256 of the presented key, revoked or not.
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  createApiKey(key: InsertApiKey): Promise<ApiKey>;
+  // Undefined when the key doesn't exist or was already revoked.
+  revokeApiKey(id: string, companyId: string, revokedBy: string): Promise<ApiKey | undefined>;
+  recordApiKeyUse(id: string, at: string, ip: string | null): Promise<void>;
+
+  // Card programs
+  getCardSpendPolicies(companyId: string): Promise<CardSpendPolicy[]>;
+  getCardSpendPolicy(id: string, companyId: string): Promise<CardSpendPolicy | undefined>;
+  createCardSpendPolicy(policy: InsertCardSpendPolicy): Promise<CardSpendPolicy>;
+  updateCardSpendPolicy(id: string, companyId: string, data: Partial<InsertCardSpendPolicy>): Promise<CardSpendPolicy | undefined>;
+  // Detaches the policy from its cards, then deletes it.
+  deleteCardSpendPolicy(id: string, companyId: string): Promise<boolean>;
+  getCompanyMemberById(id: string): Promise<CompanyMember | undefined>;
+  // Card transactions on each member's program cards, dated in [from, to).
+  getMemberCardSpend(companyId: string, from: string, to: string): Promise<MemberCardSpend[]>;
+  // Undefined when the card transaction already has its expense.
+  createCardExpense(expense: CreateExpense): Promise<Expense | undefined>;
+
   // Scheduled Payments
   getScheduledPayments(filters?: { status?: string; type?: string; companyId?: string }): Promise<ScheduledPayment[]>;
   getScheduledPayment(id: string): Promise<ScheduledPayment | undefined>;
@@ -565,7 +990,7 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async createBudget(budget: Omit<Budget, 'id'>): Promise<Budget> {
+  async createBudget(budget: InsertBudget): Promise<Budget> {
     const result = await db.insert(budgets).values(budget as any).returning();
     return result[0];
   }
@@ -579,6 +1004,132 @@ export class DatabaseStorage implements IStorage {
     const result = await db.delete(budgets).where(eq(budgets.id, id)).returning();
     return result.length > 0;
   }
+  private async budgetActualsIn(executor: Pick<typeof db, 'execute'>, budget: Budget, window: PeriodWindow): Promise<BudgetActuals> {
+    const total = async (query: ReturnType<typeof sql>) =>
+      parseFloat(((await executor.execute(query)).rows[0] as any)?.total || '0');
+    const zero = async () => 0;
+
+    const [expenseTotal, billTotal, cardTotal] = await Promise.all([
+      budget.cardholderId ? zero() : total(sql`
+        SELECT COALESCE(SUM(amount), 0)::text AS total FROM expenses
+        WHERE company_id IS NOT DISTINCT FROM ${budget.companyId} AND deleted_at IS NULL
+          AND upper(status) IN ('APPROVED', 'PAID')
+          AND lower(category) = lower(${budget.category})
+          AND upper(currency) = upper(${budget.currency})
+          AND left(date, 10) >= ${window.start} AND left(date, 10) < ${window.end}
+          ${budget.departmentId
+            ? sql`AND department_id = ${budget.departmentId}`
+            // Company budgets already count card spend from its
+            // authorizations; department budgets only see it as expenses.
+            : sql`AND card_transaction_id IS NULL`}
+      `),
+      budget.cardholderId || budget.departmentId ? zero() : total(sql`
+        SELECT COALESCE(SUM(COALESCE(paid_amount, amount)), 0)::text AS total FROM bills
+        WHERE company_id IS NOT DISTINCT FROM ${budget.companyId}
+          AND lower(status) = 'paid'
+          AND lower(category) = lower(${budget.category})
+          AND upper(currency) = upper(${budget.currency})
+          AND left(COALESCE(paid_date, due_date), 10) >= ${window.start}
+          AND left(COALESCE(paid_date, due_date), 10) < ${window.end}
+      `),
+      budget.departmentId ? zero() : total(sql`
+        SELECT COALESCE(SUM(ca.amount), 0)::text AS total FROM card_authorizations ca
+        LEFT JOIN virtual_cards vc ON vc.id = ca.card_id
+        WHERE ca.company_id IS NOT DISTINCT FROM ${budget.companyId} AND ca.approved = true
+          AND lower(ca.spend_category) = lower(${budget.category})
+          AND upper(ca.currency) = upper(${budget.currency})
+          AND ca.created_at::timestamptz >= ${window.start}::timestamptz
+          AND ca.created_at::timestamptz < ${window.end}::timestamptz
+          ${budget.cardholderId ? sql`AND vc.stripe_cardholder_id = ${budget.cardholderId}` : sql``}
+      `),
+    ]);
+    const round = (n: number) => Math.round(n * 100) / 100;
+    return {
+      expenses: round(expenseTotal),
+      bills: round(billTotal),
+      cards: round(cardTotal),
+      total: round(expenseTotal + billTotal + cardTotal),
+    };
+  }
+
+  async getBudgetActuals(budget: Budget, window: PeriodWindow): Promise<BudgetActuals> {
+    return await this.budgetActualsIn(db, budget, window);
+  }
+
+  async getBudgetPeriods(budgetId: string): Promise<BudgetPeriod[]> {
+    return await db.select().from(budgetPeriods)
+      .where(eq(budgetPeriods.budgetId, budgetId))
+      .orderBy(desc(budgetPeriods.periodStart));
+  }
+
+  async closeBudgetPeriod(record: InsertBudgetPeriod, next: { currentPeriodStart: string; rolloverAmount: string }): Promise<Budget | undefined> {
+    return await db.transaction(async (tx) => {
+      const [moved] = await tx.update(budgets)
+        .set({ currentPeriodStart: next.currentPeriodStart, rolloverAmount: next.rolloverAmount, alertedThreshold: 0 })
+        .where(and(eq(budgets.id, record.budgetId), eq(budgets.currentPeriodStart, record.periodStart)))
+        .returning();
+      if (!moved) return undefined;
+      await tx.insert(budgetPeriods).values(record)
+        .onConflictDoNothing({ target: [budgetPeriods.budgetId, budgetPeriods.periodStart] });
+      return moved;
+    });
+  }
+
+  async startBudgetPeriod(budgetId: string, periodStart: string): Promise<Budget | undefined> {
+    const [row] = await db.update(budgets)
+      .set({ currentPeriodStart: periodStart })
+      .where(and(eq(budgets.id, budgetId), sql`${budgets.currentPeriodStart} IS NULL`))
+      .returning();
+    return row || undefined;
+  }
+
+  async claimBudgetThreshold(budgetId: string, periodStart: string, threshold: number): Promise<boolean> {
+    const rows = await db.update(budgets)
+      .set({ alertedThreshold: threshold })
+      .where(and(
+        eq(budgets.id, budgetId),
+        eq(budgets.currentPeriodStart, periodStart),
+        sql`${budgets.alertedThreshold} < ${threshold}`,
+      ))
+      .returning({ id: budgets.id });
+    return rows.length > 0;
+  }
+
+  async getBudgetOverrides(companyId: string, filter: { status?: string; requestedBy?: string } = {}): Promise<BudgetOverride[]> {
+    const conditions = [eq(budgetOverrides.companyId, companyId)];
+    if (filter.status) conditions.push(eq(budgetOverrides.status, filter.status));
+    if (filter.requestedBy) conditions.push(eq(budgetOverrides.requestedBy, filter.requestedBy));
+    return await db.select().from(budgetOverrides)
+      .where(and(...conditions))
+      .orderBy(desc(budgetOverrides.createdAt));
+  }
+
+  async getBudgetOverride(id: string): Promise<BudgetOverride | undefined> {
+    const [row] = await db.select().from(budgetOverrides).where(eq(budgetOverrides.id, id));
+    return row || undefined;
+  }
+
+  async createBudgetOverride(override: InsertBudgetOverride): Promise<BudgetOverride> {
+    const [row] = await db.insert(budgetOverrides).values(override).returning();
+    return row;
+  }
+
+  async decideBudgetOverride(id: string, decision: { status: 'approved' | 'rejected'; decidedBy: string; decidedByName: string | null; decisionNote: string | null }): Promise<BudgetOverride | undefined> {
+    const [row] = await db.update(budgetOverrides)
+      .set({ ...decision, decidedAt: new Date().toISOString() })
+      .where(and(eq(budgetOverrides.id, id), eq(budgetOverrides.status, 'pending')))
+      .returning();
+    return row || undefined;
+  }
+
+  async useBudgetOverride(id: string): Promise<BudgetOverride | undefined> {
+    const [row] = await db.update(budgetOverrides)
+      .set({ status: 'used', usedAt: new Date().toISOString() })
+      .where(and(eq(budgetOverrides.id, id), eq(budgetOverrides.status, 'approved')))
+      .returning();
+    return row || undefined;
+  }
+
 
   // ==================== CARDS ====================
   async getCards(companyId?: string): Promise<VirtualCard[]> {
@@ -606,6 +1157,23 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async spendFromCard(id: string, amount: number, lockedMerchantName?: string | null): Promise<VirtualCard | undefined> {
+    const result = await db.update(virtualCards)
+      .set({
+        balance: sql`${virtualCards.balance} - ${amount}`,
+        useCount: sql`${virtualCards.useCount} + 1`,
+        ...(lockedMerchantName ? { lockedMerchantName } : {}),
+      } as any)
+      .where(and(
+        eq(virtualCards.id, id),
+        eq(virtualCards.status, 'active'),
+        sql`${virtualCards.balance} >= ${amount}`,
+        sql`(${virtualCards.maxUses} IS NULL OR ${virtualCards.useCount} < ${virtualCards.maxUses})`,
+      ))
+      .returning();
+    return result[0];
+  }
+
   async deleteCard(id: string): Promise<boolean> {
     const result = await db.delete(virtualCards).where(eq(virtualCards.id, id)).returning();
     return result.length > 0;
@@ -952,6 +1520,65 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // ==================== REQUEST IDEMPOTENCY ====================
+  async claimIdempotencyKey(params: { scope: string; key: string; method: string; path: string; fingerprint: string; expiresAt: string }): Promise<{ claimed: boolean; record: IdempotencyKey }> {
+    const now = new Date().toISOString();
+    const claimToken = randomUUID();
+    // One statement, so two concurrent attempts can't both claim: the
+    // loser of a takeover re-checks expires_at against the winner's row.
+    // A lapsed processing row is only taken over by the same request, so
+    // a different body still gets its 422.
+    const claimed = await db.execute(sql`
+      INSERT INTO idempotency_keys (scope, key, method, path, fingerprint, status, claim_token, created_at, expires_at)
+      VALUES (${params.scope}, ${params.key}, ${params.method}, ${params.path}, ${params.fingerprint}, 'processing', ${claimToken}, ${now}, ${params.expiresAt})
+      ON CONFLICT (scope, key) DO UPDATE SET
+        method = EXCLUDED.method, path = EXCLUDED.path, fingerprint = EXCLUDED.fingerprint,
+        status = 'processing', claim_token = EXCLUDED.claim_token, response_status = NULL, response_body = NULL,
+        created_at = EXCLUDED.created_at, completed_at = NULL, expires_at = EXCLUDED.expires_at
+      WHERE idempotency_keys.expires_at <= ${now}
+        AND (idempotency_keys.status = 'completed' OR idempotency_keys.fingerprint = EXCLUDED.fingerprint)
+      RETURNING id
+    `);
+    const claimedId = (claimed.rows[0] as any)?.id as string | undefined;
+    const [record] = await db.select().from(idempotencyKeys)
+      .where(claimedId
+        ? eq(idempotencyKeys.id, claimedId)
+        : and(eq(idempotencyKeys.scope, params.scope), eq(idempotencyKeys.key, params.key)))
+      .limit(1);
+    return { claimed: !!claimedId, record };
+  }
+
+  async renewIdempotencyKey(id: string, claimToken: string, expiresAt: string): Promise<void> {
+    await db.update(idempotencyKeys).set({ expiresAt } as any).where(and(
+      eq(idempotencyKeys.id, id),
+      eq(idempotencyKeys.claimToken, claimToken),
+      eq(idempotencyKeys.status, 'processing'),
+    ));
+  }
+
+  async completeIdempotencyKey(id: string, claimToken: string, responseStatus: number, responseBody: unknown): Promise<void> {
+    const completedAt = new Date();
+    await db.update(idempotencyKeys).set({
+      status: 'completed',
+      responseStatus,
+      responseBody: responseBody ?? null,
+      completedAt: completedAt.toISOString(),
+      expiresAt: idempotencyKeyExpiry(completedAt),
+    } as any).where(and(
+      eq(idempotencyKeys.id, id),
+      eq(idempotencyKeys.claimToken, claimToken),
+      eq(idempotencyKeys.status, 'processing'),
+    ));
+  }
+
+  async releaseIdempotencyKey(id: string, claimToken: string): Promise<void> {
+    await db.delete(idempotencyKeys).where(and(
+      eq(idempotencyKeys.id, id),
+      eq(idempotencyKeys.claimToken, claimToken),
+      eq(idempotencyKeys.status, 'processing'),
+    ));
+  }
+
   // ==================== PAYMENT INTENT INDEX (LU-DD-2 / AUD-DD-MT-005) ====================
   // Server-issued mapping from (provider, provider_intent_id) →
   // (companyId, userId, kind), written authoritatively at the moment a
@@ -1039,54 +1666,6 @@ export class DatabaseStorage implements IStorage {
     return this.getBalances();
   }
 
-  async atomicCreditBalance(field: 'local' | 'usd' | 'escrow', amount: number, companyId?: string): Promise<CompanyBalances> {
-    if (companyId) {
-      const result = await db.execute(
-        sql`UPDATE company_balances SET ${sql.raw(field)} = CAST(${sql.raw(field)} AS DECIMAL(20,2)) + ${amount} WHERE company_id = ${companyId} RETURNING *`
-      );
-      if (!result.rows || result.rows.length === 0) {
-        // Auto-create balance row for this company, then retry
-        await this.getBalances(companyId);
-        const retry = await db.execute(
-          sql`UPDATE company_balances SET ${sql.raw(field)} = CAST(${sql.raw(field)} AS DECIMAL(20,2)) + ${amount} WHERE company_id = ${companyId} RETURNING *`
-        );
-        if (!retry.rows || retry.rows.length === 0) {
-          throw new Error('Balance update failed');
-        }
-        return retry.rows[0] as CompanyBalances;
-      }
-      return result.rows[0] as CompanyBalances;
-    }
-    // Legacy fallback
-    const result = await db.execute(
-      sql`UPDATE company_balances SET ${sql.raw(field)} = CAST(${sql.raw(field)} AS DECIMAL(20,2)) + ${amount} WHERE id = (SELECT id FROM company_balances LIMIT 1) RETURNING *`
-    );
-    if (!result.rows || result.rows.length === 0) {
-      throw new Error('Balance update failed');
-    }
-    return result.rows[0] as CompanyBalances;
-  }
-
-  async atomicDebitBalance(field: 'local' | 'usd' | 'escrow', amount: number, companyId?: string): Promise<CompanyBalances> {
-    if (companyId) {
-      const result = await db.execute(
-        sql`UPDATE company_balances SET ${sql.raw(field)} = CAST(${sql.raw(field)} AS DECIMAL(20,2)) - ${amount} WHERE company_id = ${companyId} AND CAST(${sql.raw(field)} AS DECIMAL(20,2)) >= ${amount} RETURNING *`
-      );
-      if (!result.rows || result.rows.length === 0) {
-        throw new Error('Insufficient balance or balance update failed');
-      }
-      return result.rows[0] as CompanyBalances;
-    }
-    // Legacy fallback
-    const result = await db.execute(
-      sql`UPDATE company_balances SET ${sql.raw(field)} = CAST(${sql.raw(field)} AS DECIMAL(20,2)) - ${amount} WHERE id = (SELECT id FROM company_balances LIMIT 1) AND CAST(${sql.raw(field)} AS DECIMAL(20,2)) >= ${amount} RETURNING *`
-    );
-    if (!result.rows || result.rows.length === 0) {
-      throw new Error('Insufficient balance or balance update failed');
-    }
-    return result.rows[0] as CompanyBalances;
-  }
-
   // ==================== INSIGHTS ====================
   // AUD-DD-MT-001 — was leaking cross-tenant data when called without companyId.
   // Now scopes to the caller's company; the route resolves and passes it.
@@ -1267,6 +1846,85 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  // ==================== PAYROLL RUNS ====================
+  async getPayrollRuns(companyId: string): Promise<PayrollRun[]> {
+    return await db.select().from(payrollRuns)
+      .where(eq(payrollRuns.companyId, companyId))
+      .orderBy(desc(payrollRuns.periodStart), desc(payrollRuns.createdAt));
+  }
+
+  async getPayrollRun(id: string, companyId: string): Promise<PayrollRun | undefined> {
+    const [row] = await db.select().from(payrollRuns)
+      .where(and(eq(payrollRuns.id, id), eq(payrollRuns.companyId, companyId)));
+    return row || undefined;
+  }
+
+  async getPayrollRunItems(runId: string): Promise<PayrollRunItem[]> {
+    return await db.select().from(payrollRunItems)
+      .where(eq(payrollRunItems.runId, runId))
+      .orderBy(payrollRunItems.employeeName);
+  }
+
+  async getOpenPayrollRunEntryIds(companyId: string): Promise<Set<string>> {
+    const rows = await db.select({ entryId: payrollRunItems.payrollEntryId })
+      .from(payrollRunItems)
+      .innerJoin(payrollRuns, eq(payrollRunItems.runId, payrollRuns.id))
+      .where(and(
+        eq(payrollRuns.companyId, companyId),
+        inArray(payrollRuns.status, OPEN_PAYROLL_RUN_STATUSES),
+      ));
+    return new Set(rows.map((r) => r.entryId).filter((id): id is string => !!id));
+  }
+
+  async createPayrollRun(run: InsertPayrollRun, items: Omit<InsertPayrollRunItem, 'runId'>[]): Promise<PayrollRun> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(payrollRuns).values(run).returning();
+      if (items.length > 0) {
+        await tx.insert(payrollRunItems).values(items.map((item) => ({ ...item, runId: created.id })));
+      }
+      return created;
+    });
+  }
+
+  async transitionPayrollRun(id: string, companyId: string, from: string[], data: Partial<InsertPayrollRun>): Promise<PayrollRun | undefined> {
+    const [row] = await db.update(payrollRuns)
+      .set(data)
+      .where(and(
+        eq(payrollRuns.id, id),
+        eq(payrollRuns.companyId, companyId),
+        inArray(payrollRuns.status, from),
+      ))
+      .returning();
+    return row || undefined;
+  }
+
+  async updatePayrollRunItem(id: string, data: Partial<InsertPayrollRunItem>): Promise<PayrollRunItem | undefined> {
+    const [row] = await db.update(payrollRunItems).set(data).where(eq(payrollRunItems.id, id)).returning();
+    return row || undefined;
+  }
+
+  async deleteDraftPayrollRun(id: string, companyId: string): Promise<boolean> {
+    const rows = await db.delete(payrollRuns)
+      .where(and(eq(payrollRuns.id, id), eq(payrollRuns.companyId, companyId), eq(payrollRuns.status, 'draft')))
+      .returning({ id: payrollRuns.id });
+    return rows.length > 0;
+  }
+
+  async getEmployeePayrollRunItems(companyId: string, identity: { userId: string; email?: string | null }): Promise<Array<{ item: PayrollRunItem; run: PayrollRun }>> {
+    const email = identity.email?.trim().toLowerCase();
+    return await db.select({ item: payrollRunItems, run: payrollRuns })
+      .from(payrollRunItems)
+      .innerJoin(payrollRuns, eq(payrollRunItems.runId, payrollRuns.id))
+      .where(and(
+        eq(payrollRuns.companyId, companyId),
+        inArray(payrollRunItems.status, PAYSLIP_ITEM_STATUSES),
+        email
+          ? or(eq(payrollRunItems.employeeId, identity.userId), sql`lower(${payrollRunItems.email}) = ${email}`)
+          : eq(payrollRunItems.employeeId, identity.userId),
+      ))
+      .orderBy(desc(payrollRuns.payDate));
+  }
+
   // AUD-PR-012 — versioned tax-brackets lookup. Picks the row whose
   // [effective_from, effective_to) window contains asOfDate. If no
   // asOfDate is supplied, defaults to today. Returns undefined when no
@@ -1301,6 +1959,33 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  async getStatutoryRulesForCountry(country: string, asOfDate?: string): Promise<StatutoryRule[]> {
+    const target = asOfDate || new Date().toISOString().split('T')[0];
+    const rows = await db.select().from(statutoryRules)
+      .where(and(
+        eq(statutoryRules.country, country.toUpperCase()),
+        sql`${statutoryRules.effectiveFrom} <= ${target}`,
+        sql`(${statutoryRules.effectiveTo} IS NULL OR ${statutoryRules.effectiveTo} > ${target})`,
+      ))
+      .orderBy(statutoryRules.code, desc(statutoryRules.effectiveFrom));
+    // Overlapping windows for a code: the most recent row wins.
+    const byCode = new Map<string, typeof rows[number]>();
+    for (const row of rows) if (!byCode.has(row.code)) byCode.set(row.code, row);
+    return Array.from(byCode.values()).map((row) => ({
+      code: row.code,
+      name: row.name,
+      category: row.category as StatutoryCategory,
+      authority: row.authority,
+      cadence: row.cadence === 'annual' ? 'annual' : 'monthly',
+      employeeTiers: row.employeeTiers || [],
+      employerTiers: row.employerTiers || [],
+      employeeMinimum: parseFloat(String(row.employeeMinimum || 0)),
+      taxDeductible: row.taxDeductible,
+      source: row.source,
+      effectiveFrom: row.effectiveFrom,
+    }));
+  }
+
   // ==================== INVOICES ====================
   // AUD-DD-INV-001: every invoice query now filters out soft-deleted rows
   // by default. Pass { includeDeleted: true } to opt out (admin reporting).
@@ -1885,6 +2570,15 @@ export class DatabaseStorage implements IStorage {
         createdAt: now,
       } as any).returning();
 
+      await this.postLedgerEntry(tx, {
+        companyId: wallet.company_id ?? null,
+        description,
+        sourceType: 'wallet_transaction',
+        sourceId: txResult[0].id,
+        reference,
+        legs: walletMovementLegs({ wallet: this.ledgerWalletRef(wallet), direction: 'credit', amount, type, metadata }),
+      });
+
       return txResult[0];
     });
   }
@@ -1935,6 +2629,15 @@ export class DatabaseStorage implements IStorage {
         createdAt: now,
       } as any).returning();
 
+      await this.postLedgerEntry(tx, {
+        companyId: wallet.company_id ?? null,
+        description,
+        sourceType: 'wallet_transaction',
+        sourceId: txResult[0].id,
+        reference,
+        legs: walletMovementLegs({ wallet: this.ledgerWalletRef(wallet), direction: 'debit', amount, type, metadata }),
+      });
+
       return txResult[0];
     });
   }
@@ -2025,6 +2728,15 @@ export class DatabaseStorage implements IStorage {
         updatedAt: now,
       } as any).where(eq(wallets.id, walletId));
 
+      await this.postLedgerEntry(tx, {
+        companyId: wallet.company_id ?? null,
+        description,
+        sourceType: 'wallet_transaction',
+        sourceId: txResult[0].id,
+        reference,
+        legs: walletMovementLegs({ wallet: this.ledgerWalletRef(wallet), direction: 'debit', amount, type, metadata }),
+      });
+
       return txResult[0];
     });
   }
@@ -2071,6 +2783,58 @@ export class DatabaseStorage implements IStorage {
     } as any);
   }
 
+  // Double-entry ledger: writes one journal entry plus its postings on
+  // the caller's transaction handle, so the entry commits or rolls back
+  // with the balance change it describes. Accounts are upserted on
+  // (code, currency). Returns null when `idempotencyKey` was already
+  // posted.
+  private async postLedgerEntry(tx: any, draft: JournalEntryDraft): Promise<string | null> {
+    assertBalanced(draft.legs);
+
+    const entryRows = await tx.insert(journalEntries).values({
+      companyId: draft.companyId,
+      description: draft.description,
+      sourceType: draft.sourceType,
+      sourceId: draft.sourceId ?? null,
+      reference: draft.reference ?? null,
+      idempotencyKey: draft.idempotencyKey ?? null,
+      metadata: draft.metadata ?? null,
+      postedAt: new Date().toISOString(),
+    } as any)
+      .onConflictDoNothing({ target: journalEntries.idempotencyKey })
+      .returning();
+    if (entryRows.length === 0) return null;
+    const entryId = entryRows[0].id;
+
+    for (const leg of draft.legs) {
+      const accountRows = await tx.insert(ledgerAccounts).values({
+        companyId: leg.account.companyId,
+        code: leg.account.code,
+        name: leg.account.name,
+        type: leg.account.type,
+        currency: leg.account.currency,
+        walletId: leg.account.walletId ?? null,
+      } as any)
+        .onConflictDoUpdate({
+          target: [ledgerAccounts.code, ledgerAccounts.currency],
+          set: { name: sql`excluded.name` },
+        })
+        .returning();
+
+      await tx.insert(ledgerPostings).values({
+        entryId,
+        accountId: accountRows[0].id,
+        amount: (toMinorUnits(leg.amount) / 100).toFixed(2),
+        currency: leg.account.currency,
+      } as any);
+    }
+    return entryId;
+  }
+
+  private ledgerWalletRef(row: any): { id: string; currency: string; companyId: string | null } {
+    return { id: row.id, currency: row.currency, companyId: row.company_id ?? null };
+  }
+
   async atomicBillPayment(params: {
     walletId: string;
     billId: string;
@@ -2176,6 +2940,21 @@ export class DatabaseStorage implements IStorage {
         date: now.split('T')[0],
       });
 
+      await this.postLedgerEntry(tx, {
+        companyId: wallet.company_id ?? null,
+        description: `Bill payment for bill ${params.billId}`,
+        sourceType: 'bill',
+        sourceId: params.billId,
+        reference: params.reference,
+        metadata: { walletTransactionId: walletTxResult[0].id },
+        legs: walletMovementLegs({
+          wallet: this.ledgerWalletRef(wallet),
+          direction: 'debit',
+          amount: params.amount,
+          type: 'bill_payment',
+        }),
+      });
+
       return {
         walletTx: walletTxResult[0],
         bill: billResult[0],
@@ -2255,6 +3034,22 @@ export class DatabaseStorage implements IStorage {
         date: now.split('T')[0],
       });
 
+      await this.postLedgerEntry(tx, {
+        companyId: wallet.company_id ?? null,
+        description: `Card funding for card ${params.cardId}`,
+        sourceType: 'card_funding',
+        sourceId: params.cardId,
+        reference: params.reference,
+        metadata: { walletTransactionId: walletTxResult[0].id },
+        legs: walletMovementLegs({
+          wallet: this.ledgerWalletRef(wallet),
+          direction: 'debit',
+          amount: params.amount,
+          type: 'card_funding',
+          metadata: { cardId: params.cardId },
+        }),
+      });
+
       return {
         walletTx: walletTxResult[0],
         card: cardResult[0],
@@ -2271,108 +3066,142 @@ export class DatabaseStorage implements IStorage {
     exchangeRate?: number;
   }): Promise<{ debitTx: WalletTransaction; creditTx: WalletTransaction }> {
     return await db.transaction(async (tx) => {
-      const sourceRows = await tx.execute(
-        sql`SELECT * FROM wallets WHERE id = ${params.sourceWalletId} FOR UPDATE`
-      );
-      const sourceWallet = sourceRows.rows[0] as any;
-      if (!sourceWallet) throw new Error('Source wallet not found');
-
-      const destRows = await tx.execute(
-        sql`SELECT * FROM wallets WHERE id = ${params.destWalletId} FOR UPDATE`
-      );
-      const destWallet = destRows.rows[0] as any;
-      if (!destWallet) throw new Error('Destination wallet not found');
-
-      const sourceAvail = parseFloat(sourceWallet.available_balance || '0');
-      if (sourceAvail < params.amount) {
-        throw new Error('Insufficient funds in source wallet');
-      }
-
-      const now = new Date().toISOString();
-      const rate = params.exchangeRate || 1;
-      const destAmount = Math.round((params.amount * rate) * 100) / 100;
-
-      const sourceBefore = parseFloat(sourceWallet.balance || '0');
-      const sourceAfter = Math.round((sourceBefore - params.amount) * 100) / 100;
-      const sourceAvailAfter = Math.round((sourceAvail - params.amount) * 100) / 100;
+      return await this.transferBetweenWallets(tx, params);
+    });
+  }
 
-      const destBefore = parseFloat(destWallet.balance || '0');
-      const destAfter = Math.round((destBefore + destAmount) * 100) / 100;
-      const destAvailAfter = Math.round((parseFloat(destWallet.available_balance || '0') + destAmount) * 100) / 100;
+  // The body of atomicWalletTransfer on the caller's transaction handle,
+  // so an FX quote can be claimed in the same transaction. `destAmount`
+  // overrides amount × exchangeRate when the credit was priced up front;
+  // `metadata` is added to both wallet legs and the journal entry.
+  private async transferBetweenWallets(tx: any, params: {
+    sourceWalletId: string;
+    destWalletId: string;
+    amount: number;
+    description: string;
+    reference: string;
+    exchangeRate?: number;
+    destAmount?: number;
+    metadata?: Record<string, unknown>;
+  }): Promise<{ debitTx: WalletTransaction; creditTx: WalletTransaction }> {
+    const sourceRows = await tx.execute(
+      sql`SELECT * FROM wallets WHERE id = ${params.sourceWalletId} FOR UPDATE`
+    );
+    const sourceWallet = sourceRows.rows[0] as any;
+    if (!sourceWallet) throw new Error('Source wallet not found');
 
-      await tx.update(wallets).set({
-        balance: sourceAfter.toFixed(2),
-        availableBalance: sourceAvailAfter.toFixed(2),
-        updatedAt: now
-      } as any).where(eq(wallets.id, params.sourceWalletId));
+    const destRows = await tx.execute(
+      sql`SELECT * FROM wallets WHERE id = ${params.destWalletId} FOR UPDATE`
+    );
+    const destWallet = destRows.rows[0] as any;
+    if (!destWallet) throw new Error('Destination wallet not found');
 
-      await tx.update(wallets).set({
-        balance: destAfter.toFixed(2),
-        availableBalance: destAvailAfter.toFixed(2),
-        updatedAt: now
-      } as any).where(eq(wallets.id, params.destWalletId));
+    const sourceAvail = parseFloat(sourceWallet.available_balance || '0');
+    if (sourceAvail < params.amount) {
+      throw new Error('Insufficient funds in source wallet');
+    }
 
-      const debitTxResult = await tx.insert(walletTransactions).values({
-        walletId: params.sourceWalletId,
-        type: 'wallet_transfer',
-        amount: params.amount.toFixed(2),
-        currency: sourceWallet.currency,
-        direction: 'debit',
-        balanceBefore: sourceBefore.toFixed(2),
-        balanceAfter: sourceAfter.toFixed(2),
-        description: params.description,
-        reference: params.reference,
-        metadata: { destWalletId: params.destWalletId, exchangeRate: rate },
-        status: 'completed',
-        createdAt: now,
-      } as any).returning();
+    const now = new Date().toISOString();
+    const rate = params.exchangeRate || 1;
+    const destAmount = params.destAmount ?? Math.round((params.amount * rate) * 100) / 100;
+
+    const sourceBefore = parseFloat(sourceWallet.balance || '0');
+    const sourceAfter = Math.round((sourceBefore - params.amount) * 100) / 100;
+    const sourceAvailAfter = Math.round((sourceAvail - params.amount) * 100) / 100;
+
+    const destBefore = parseFloat(destWallet.balance || '0');
+    const destAfter = Math.round((destBefore + destAmount) * 100) / 100;
+    const destAvailAfter = Math.round((parseFloat(destWallet.available_balance || '0') + destAmount) * 100) / 100;
+
+    await tx.update(wallets).set({
+      balance: sourceAfter.toFixed(2),
+      availableBalance: sourceAvailAfter.toFixed(2),
+      updatedAt: now
+    } as any).where(eq(wallets.id, params.sourceWalletId));
+
+    await tx.update(wallets).set({
+      balance: destAfter.toFixed(2),
+      availableBalance: destAvailAfter.toFixed(2),
+      updatedAt: now
+    } as any).where(eq(wallets.id, params.destWalletId));
+
+    const debitTxResult = await tx.insert(walletTransactions).values({
+      walletId: params.sourceWalletId,
+      type: 'wallet_transfer',
+      amount: params.amount.toFixed(2),
+      currency: sourceWallet.currency,
+      direction: 'debit',
+      balanceBefore: sourceBefore.toFixed(2),
+      balanceAfter: sourceAfter.toFixed(2),
+      description: params.description,
+      reference: params.reference,
+      metadata: { destWalletId: params.destWalletId, exchangeRate: rate, ...params.metadata },
+      status: 'completed',
+      createdAt: now,
+    } as any).returning();
 
-      const creditTxResult = await tx.insert(walletTransactions).values({
-        walletId: params.destWalletId,
-        type: 'wallet_transfer_in',
-        amount: destAmount.toFixed(2),
-        currency: destWallet.currency,
-        direction: 'credit',
-        balanceBefore: destBefore.toFixed(2),
-        balanceAfter: destAfter.toFixed(2),
-        description: params.description,
-        reference: params.reference,
-        metadata: { sourceWalletId: params.sourceWalletId, exchangeRate: rate },
-        status: 'completed',
-        createdAt: now,
-      } as any).returning();
+    const creditTxResult = await tx.insert(walletTransactions).values({
+      walletId: params.destWalletId,
+      type: 'wallet_transfer_in',
+      amount: destAmount.toFixed(2),
+      currency: destWallet.currency,
+      direction: 'credit',
+      balanceBefore: destBefore.toFixed(2),
+      balanceAfter: destAfter.toFixed(2),
+      description: params.description,
+      reference: params.reference,
+      metadata: { sourceWalletId: params.sourceWalletId, exchangeRate: rate, ...params.metadata },
+      status: 'completed',
+      createdAt: now,
+    } as any).returning();
 
-      // LU-001: bridge BOTH legs into the user-facing transactions ledger.
-      // Debit leg uses the source wallet's company; credit leg uses the dest wallet's company
-      // (these may differ on cross-company / cross-tenant transfers).
-      await this.bridgeWalletToTransaction(tx, {
-        walletTransactionId: debitTxResult[0].id,
-        companyId: sourceWallet.company_id ?? null,
-        walletTxType: 'wallet_transfer',
-        amount: params.amount.toFixed(2),
-        currency: sourceWallet.currency,
-        status: 'completed',
-        description: params.description,
-        reference: params.reference,
-        date: now.split('T')[0],
-      });
-      await this.bridgeWalletToTransaction(tx, {
-        walletTransactionId: creditTxResult[0].id,
-        companyId: destWallet.company_id ?? null,
-        walletTxType: 'wallet_transfer_in',
-        amount: destAmount.toFixed(2),
-        currency: destWallet.currency,
-        status: 'completed',
-        description: params.description,
-        reference: params.reference,
-        date: now.split('T')[0],
-      });
+    // LU-001: bridge BOTH legs into the user-facing transactions ledger.
+    // Debit leg uses the source wallet's company; credit leg uses the dest wallet's company
+    // (these may differ on cross-company / cross-tenant transfers).
+    await this.bridgeWalletToTransaction(tx, {
+      walletTransactionId: debitTxResult[0].id,
+      companyId: sourceWallet.company_id ?? null,
+      walletTxType: 'wallet_transfer',
+      amount: params.amount.toFixed(2),
+      currency: sourceWallet.currency,
+      status: 'completed',
+      description: params.description,
+      reference: params.reference,
+      date: now.split('T')[0],
+    });
+    await this.bridgeWalletToTransaction(tx, {
+      walletTransactionId: creditTxResult[0].id,
+      companyId: destWallet.company_id ?? null,
+      walletTxType: 'wallet_transfer_in',
+      amount: destAmount.toFixed(2),
+      currency: destWallet.currency,
+      status: 'completed',
+      description: params.description,
+      reference: params.reference,
+      date: now.split('T')[0],
+    });
 
-      return {
-        debitTx: debitTxResult[0],
-        creditTx: creditTxResult[0],
-      };
+    // One entry for both legs. Cross-currency transfers net through
+    // the source company's fx_conversion account (server/lib/ledger.ts).
+    await this.postLedgerEntry(tx, {
+      companyId: sourceWallet.company_id ?? null,
+      description: params.description,
+      sourceType: 'wallet_transaction',
+      sourceId: debitTxResult[0].id,
+      reference: params.reference,
+      metadata: { creditWalletTransactionId: creditTxResult[0].id, exchangeRate: rate, ...params.metadata },
+      legs: walletTransferLegs({
+        source: this.ledgerWalletRef(sourceWallet),
+        dest: this.ledgerWalletRef(destWallet),
+        amount: params.amount,
+        destAmount,
+      }),
     });
+
+    return {
+      debitTx: debitTxResult[0],
+      creditTx: creditTxResult[0],
+    };
   }
 
   async atomicReversal(params: {
@@ -2456,6 +3285,24 @@ export class DatabaseStorage implements IStorage {
         date: now.split('T')[0],
       });
 
+      // Counter-leg follows the ORIGINAL movement's type so the reversal
+      // unwinds the same clearing / card account it originally hit.
+      await this.postLedgerEntry(tx, {
+        companyId: wallet.company_id ?? null,
+        description: `Reversal of transaction ${params.originalTxId}`,
+        sourceType: 'wallet_transaction',
+        sourceId: reversalTxResult[0].id,
+        reference: `REVERSAL-${params.originalTxId}`,
+        metadata: { originalTxId: params.originalTxId },
+        legs: walletMovementLegs({
+          wallet: this.ledgerWalletRef(wallet),
+          direction: originalTx[0].direction === 'debit' ? 'credit' : 'debit',
+          amount: params.amount,
+          type: originalTx[0].type,
+          metadata: (originalTx[0] as any).metadata,
+        }),
+      });
+
       return reversalTxResult[0];
     });
   }
@@ -2547,41 +3394,309 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // ==================== PAYOUT DESTINATIONS ====================
-  async getPayoutDestinations(userId?: string, vendorId?: string): Promise<PayoutDestination[]> {
-    if (userId) {
-      return await db.select().from(payoutDestinations).where(eq(payoutDestinations.userId, userId));
-    }
-    if (vendorId) {
-      return await db.select().from(payoutDestinations).where(eq(payoutDestinations.vendorId, vendorId));
-    }
-    return await db.select().from(payoutDestinations);
+  // ==================== FX QUOTES ====================
+  async createFxQuote(quote: InsertFxQuote): Promise<FxQuote> {
+    const [row] = await db.insert(fxQuotes).values(quote as any).returning();
+    return row;
   }
 
-  async getPayoutDestination(id: string): Promise<PayoutDestination | undefined> {
-    const result = await db.select().from(payoutDestinations)
-      .where(eq(payoutDestinations.id, id))
-      .limit(1);
-    return result[0];
+  async getFxQuote(id: string): Promise<FxQuote | undefined> {
+    const [row] = await db.select().from(fxQuotes).where(eq(fxQuotes.id, id)).limit(1);
+    return row;
   }
 
-  async createPayoutDestination(destination: InsertPayoutDestination): Promise<PayoutDestination> {
-    const now = new Date().toISOString();
-    const result = await db.insert(payoutDestinations).values({
-      ...destination,
-      createdAt: now,
-      updatedAt: now,
-    } as any).returning();
-    return result[0];
+  async getFxConversions(filter: { companyId?: string | null; createdBy: string }, limit = 50): Promise<FxQuote[]> {
+    return await db.select().from(fxQuotes)
+      .where(and(
+        eq(fxQuotes.status, 'accepted'),
+        filter.companyId ? eq(fxQuotes.companyId, filter.companyId) : eq(fxQuotes.createdBy, filter.createdBy),
+      ))
+      .orderBy(desc(fxQuotes.acceptedAt))
+      .limit(Math.min(Math.max(limit, 1), 200));
   }
 
-  async updatePayoutDestination(id: string, data: Partial<PayoutDestination>): Promise<PayoutDestination | undefined> {
-    const now = new Date().toISOString();
-    const result = await db.update(payoutDestinations)
-      .set({ ...data, updatedAt: now } as any)
-      .where(eq(payoutDestinations.id, id))
-      .returning();
-    return result[0];
+  async atomicAcceptFxQuote(params: { quoteId: string; acceptedBy: string }): Promise<{ quote: FxQuote; debitTx: WalletTransaction; creditTx: WalletTransaction }> {
+    return await db.transaction(async (tx) => {
+      // Lock the quote so a double-submit can't convert twice.
+      const quoteRows = await tx.execute(sql`SELECT id FROM fx_quotes WHERE id = ${params.quoteId} FOR UPDATE`);
+      if (!quoteRows.rows[0]) throw new Error('FX_QUOTE_UNAVAILABLE: Quote not found');
+      const [quote] = await tx.select().from(fxQuotes).where(eq(fxQuotes.id, params.quoteId));
+      const problem = fxQuoteAcceptProblem(quote);
+      if (problem) throw new Error(`FX_QUOTE_UNAVAILABLE: ${problem}`);
+
+      const { debitTx, creditTx } = await this.transferBetweenWallets(tx, {
+        sourceWalletId: quote.sourceWalletId,
+        destWalletId: quote.targetWalletId,
+        amount: parseFloat(quote.sourceAmount),
+        destAmount: parseFloat(quote.targetAmount),
+        exchangeRate: parseFloat(quote.customerRate),
+        description: `FX conversion ${quote.sourceCurrency} → ${quote.targetCurrency}`,
+        reference: `FX-${quote.id}`,
+        metadata: {
+          fxQuoteId: quote.id,
+          marketRate: parseFloat(quote.marketRate),
+          marginAmount: parseFloat(quote.marginAmount),
+        },
+      });
+
+      const [accepted] = await tx.update(fxQuotes).set({
+        status: 'accepted',
+        acceptedAt: new Date().toISOString(),
+        acceptedBy: params.acceptedBy,
+        debitTransactionId: debitTx.id,
+        creditTransactionId: creditTx.id,
+      } as any).where(eq(fxQuotes.id, quote.id)).returning();
+      return { quote: accepted, debitTx, creditTx };
+    });
+  }
+
+  async getFxMargin(companyId: string, from: string, to: string): Promise<FxMarginSummary[]> {
+    const result = await db.execute(sql`
+      SELECT source_currency, target_currency,
+        COUNT(*)::int AS conversions,
+        COALESCE(SUM(source_amount), 0)::text AS source_volume,
+        COALESCE(SUM(target_amount), 0)::text AS target_volume,
+        COALESCE(SUM(margin_amount), 0)::text AS margin
+      FROM fx_quotes
+      WHERE company_id = ${companyId} AND status = 'accepted'
+        AND left(accepted_at, 10) >= ${from} AND left(accepted_at, 10) < ${to}
+      GROUP BY source_currency, target_currency
+      ORDER BY source_currency, target_currency
+    `);
+    return (result.rows as any[]).map((r) => ({
+      sourceCurrency: r.source_currency,
+      targetCurrency: r.target_currency,
+      conversions: r.conversions,
+      sourceVolume: parseFloat(r.source_volume),
+      targetVolume: parseFloat(r.target_volume),
+      margin: parseFloat(r.margin),
+    }));
+  }
+
+  // ==================== SANCTIONS SCREENING ====================
+  async createSanctionsList(list: InsertSanctionsList, entries: Omit<InsertSanctionsEntry, 'listId' | 'companyId'>[]): Promise<SanctionsList> {
+    return await db.transaction(async (tx) => {
+      // Serialise imports per owner so two uploads can't both stay active.
+      const companyId = list.companyId ?? null;
+      if (companyId) {
+        await tx.execute(sql`SELECT id FROM companies WHERE id = ${companyId} FOR UPDATE`);
+      } else {
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('sanctions_lists:platform')::int)`);
+      }
+      const previous = await tx.select({ id: sanctionsLists.id }).from(sanctionsLists).where(and(
+        companyId ? eq(sanctionsLists.companyId, companyId) : isNull(sanctionsLists.companyId),
+        eq(sanctionsLists.source, list.source),
+        eq(sanctionsLists.status, 'active'),
+      ));
+      if (previous.length > 0) {
+        const ids = previous.map((p) => p.id);
+        await tx.update(sanctionsLists)
+          .set({ status: 'superseded', supersededAt: new Date().toISOString() } as any)
+          .where(inArray(sanctionsLists.id, ids));
+        // Screenings keep the matched names inline, so the old entries can go.
+        await tx.delete(sanctionsEntries).where(inArray(sanctionsEntries.listId, ids));
+      }
+
+      const [created] = await tx.insert(sanctionsLists).values({ ...list, entryCount: entries.length } as any).returning();
+      for (let i = 0; i < entries.length; i += 500) {
+        await tx.insert(sanctionsEntries).values(
+          entries.slice(i, i + 500).map((entry) => ({ ...entry, listId: created.id, companyId })) as any,
+        );
+      }
+      return created;
+    });
+  }
+
+  async getSanctionsLists(companyId: string): Promise<SanctionsList[]> {
+    return await db.select().from(sanctionsLists)
+      .where(or(eq(sanctionsLists.companyId, companyId), isNull(sanctionsLists.companyId)))
+      .orderBy(desc(sanctionsLists.importedAt));
+  }
+
+  async getActiveSanctionsEntries(companyId: string): Promise<SanctionsEntry[]> {
+    return await db.select({ entry: sanctionsEntries }).from(sanctionsEntries)
+      .innerJoin(sanctionsLists, eq(sanctionsEntries.listId, sanctionsLists.id))
+      .where(and(
+        or(eq(sanctionsEntries.companyId, companyId), isNull(sanctionsEntries.companyId)),
+        eq(sanctionsLists.status, 'active'),
+      ))
+      .then((rows) => rows.map((r) => r.entry));
+  }
+
+  async createSanctionsScreening(screening: InsertSanctionsScreening): Promise<SanctionsScreening> {
+    const [row] = await db.insert(sanctionsScreenings).values(screening as any).returning();
+    return row;
+  }
+
+  async getSanctionsScreening(id: string): Promise<SanctionsScreening | undefined> {
+    const [row] = await db.select().from(sanctionsScreenings).where(eq(sanctionsScreenings.id, id)).limit(1);
+    return row;
+  }
+
+  async getSubjectScreenings(companyId: string, subjectType: string, subjectId: string): Promise<SanctionsScreening[]> {
+    return await db.select().from(sanctionsScreenings)
+      .where(and(
+        eq(sanctionsScreenings.companyId, companyId),
+        eq(sanctionsScreenings.subjectType, subjectType),
+        eq(sanctionsScreenings.subjectId, subjectId),
+      ))
+      .orderBy(desc(sanctionsScreenings.screenedAt));
+  }
+
+  async getSanctionsScreenings(companyId: string, filter: { status?: string; subjectType?: string; subjectId?: string } = {}): Promise<SanctionsScreening[]> {
+    const conditions = [eq(sanctionsScreenings.companyId, companyId)];
+    if (filter.status) conditions.push(eq(sanctionsScreenings.status, filter.status));
+    if (filter.subjectType) conditions.push(eq(sanctionsScreenings.subjectType, filter.subjectType));
+    if (filter.subjectId) conditions.push(eq(sanctionsScreenings.subjectId, filter.subjectId));
+    return await db.select().from(sanctionsScreenings)
+      .where(and(...conditions))
+      .orderBy(desc(sanctionsScreenings.screenedAt))
+      .limit(500);
+  }
+
+  async reviewSanctionsScreening(id: string, review: { status: string; reviewedBy: string; reviewedByName: string; reviewNote: string | null }): Promise<SanctionsScreening | undefined> {
+    const [row] = await db.update(sanctionsScreenings)
+      .set({ ...review, reviewedAt: new Date().toISOString() } as any)
+      .where(and(eq(sanctionsScreenings.id, id), eq(sanctionsScreenings.status, 'potential_match')))
+      .returning();
+    return row;
+  }
+
+  async addSanctionsScreeningHeldUser(id: string, userId: string): Promise<void> {
+    await db.update(sanctionsScreenings)
+      .set({ heldUserIds: sql`${sanctionsScreenings.heldUserIds} || ${JSON.stringify([userId])}::jsonb` } as any)
+      .where(and(
+        eq(sanctionsScreenings.id, id),
+        sql`NOT ${sanctionsScreenings.heldUserIds} ? ${userId}`,
+      ));
+  }
+
+  // ==================== TRANSACTION MONITORING ====================
+  async getMonitoringRules(companyId: string): Promise<MonitoringRule[]> {
+    return await db.select().from(monitoringRules).where(eq(monitoringRules.companyId, companyId));
+  }
+
+  async upsertMonitoringRule(rule: InsertMonitoringRule): Promise<MonitoringRule> {
+    const values = { ...rule, updatedAt: new Date().toISOString() };
+    const [row] = await db.insert(monitoringRules).values(values as any)
+      .onConflictDoUpdate({
+        target: [monitoringRules.companyId, monitoringRules.ruleKey],
+        set: {
+          enabled: values.enabled,
+          severity: values.severity,
+          action: values.action,
+          params: values.params,
+          updatedBy: values.updatedBy,
+          updatedByName: values.updatedByName,
+          updatedAt: values.updatedAt,
+        } as any,
+      })
+      .returning();
+    return row;
+  }
+
+  async createMonitoringEvent(event: InsertMonitoringEvent): Promise<MonitoringEvent> {
+    const [row] = await db.insert(monitoringEvents).values(event as any).returning();
+    return row;
+  }
+
+  async getMonitoringEvents(companyId: string, filter: { kinds: string[]; since?: string; userId?: string; subjectId?: string }): Promise<MonitoringEvent[]> {
+    if (filter.kinds.length === 0) return [];
+    const conditions = [eq(monitoringEvents.companyId, companyId), inArray(monitoringEvents.kind, filter.kinds)];
+    if (filter.since) conditions.push(sql`${monitoringEvents.occurredAt}::timestamptz >= ${filter.since}::timestamptz`);
+    if (filter.userId) conditions.push(eq(monitoringEvents.userId, filter.userId));
+    if (filter.subjectId) conditions.push(eq(monitoringEvents.subjectId, filter.subjectId));
+    return await db.select().from(monitoringEvents)
+      .where(and(...conditions))
+      .orderBy(desc(monitoringEvents.occurredAt))
+      .limit(1000);
+  }
+
+  async getMonitoringEventCountries(companyId: string, kind: string, since: string): Promise<string[]> {
+    const rows = await db.execute(sql`
+      SELECT DISTINCT upper(country) AS country FROM monitoring_events
+      WHERE company_id = ${companyId} AND kind = ${kind} AND country IS NOT NULL
+        AND occurred_at::timestamptz >= ${since}::timestamptz
+    `);
+    return rows.rows.map((r: any) => r.country as string);
+  }
+
+  async createMonitoringAlert(alert: InsertMonitoringAlert): Promise<{ alert: MonitoringAlert; created: boolean }> {
+    const [row] = await db.insert(monitoringAlerts).values(alert as any)
+      .onConflictDoNothing({ target: [monitoringAlerts.companyId, monitoringAlerts.dedupeKey] })
+      .returning();
+    if (row) return { alert: row, created: true };
+    const [existing] = await db.select().from(monitoringAlerts)
+      .where(and(eq(monitoringAlerts.companyId, alert.companyId), eq(monitoringAlerts.dedupeKey, alert.dedupeKey)))
+      .limit(1);
+    return { alert: existing, created: false };
+  }
+
+  async getMonitoringAlert(id: string): Promise<MonitoringAlert | undefined> {
+    const [row] = await db.select().from(monitoringAlerts).where(eq(monitoringAlerts.id, id)).limit(1);
+    return row;
+  }
+
+  async getMonitoringAlerts(companyId: string, filter: { status?: string; severity?: string; subjectType?: string; subjectId?: string } = {}): Promise<MonitoringAlert[]> {
+    const conditions = [eq(monitoringAlerts.companyId, companyId)];
+    if (filter.status) conditions.push(eq(monitoringAlerts.status, filter.status));
+    if (filter.severity) conditions.push(eq(monitoringAlerts.severity, filter.severity));
+    if (filter.subjectType) conditions.push(eq(monitoringAlerts.subjectType, filter.subjectType));
+    if (filter.subjectId) conditions.push(eq(monitoringAlerts.subjectId, filter.subjectId));
+    return await db.select().from(monitoringAlerts)
+      .where(and(...conditions))
+      .orderBy(desc(monitoringAlerts.createdAt))
+      .limit(500);
+  }
+
+  async updateMonitoringAlert(id: string, data: Partial<Pick<MonitoringAlert, 'actionTaken' | 'details'>>): Promise<MonitoringAlert | undefined> {
+    const [row] = await db.update(monitoringAlerts).set(data as any).where(eq(monitoringAlerts.id, id)).returning();
+    return row;
+  }
+
+  async reviewMonitoringAlert(id: string, review: { status: string; reviewedBy: string; reviewedByName: string; reviewNote: string | null }): Promise<MonitoringAlert | undefined> {
+    const [row] = await db.update(monitoringAlerts)
+      .set({ ...review, reviewedAt: new Date().toISOString() } as any)
+      .where(and(eq(monitoringAlerts.id, id), eq(monitoringAlerts.status, 'open')))
+      .returning();
+    return row;
+  }
+
+  // ==================== PAYOUT DESTINATIONS ====================
+  async getPayoutDestinations(userId?: string, vendorId?: string): Promise<PayoutDestination[]> {
+    if (userId) {
+      return await db.select().from(payoutDestinations).where(eq(payoutDestinations.userId, userId));
+    }
+    if (vendorId) {
+      return await db.select().from(payoutDestinations).where(eq(payoutDestinations.vendorId, vendorId));
+    }
+    return await db.select().from(payoutDestinations);
+  }
+
+  async getPayoutDestination(id: string): Promise<PayoutDestination | undefined> {
+    const result = await db.select().from(payoutDestinations)
+      .where(eq(payoutDestinations.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async createPayoutDestination(destination: InsertPayoutDestination): Promise<PayoutDestination> {
+    const now = new Date().toISOString();
+    const result = await db.insert(payoutDestinations).values({
+      ...destination,
+      createdAt: now,
+      updatedAt: now,
+    } as any).returning();
+    return result[0];
+  }
+
+  async updatePayoutDestination(id: string, data: Partial<PayoutDestination>): Promise<PayoutDestination | undefined> {
+    const now = new Date().toISOString();
+    const result = await db.update(payoutDestinations)
+      .set({ ...data, updatedAt: now } as any)
+      .where(eq(payoutDestinations.id, id))
+      .returning();
+    return result[0];
   }
 
   // AUD-PR-010 / AUD-DB-010 Phase 1 — Stripe Connect helpers.
@@ -2667,13 +3782,20 @@ export class DatabaseStorage implements IStorage {
     return cleaned;
   }
 
+  async getPayoutDestinationsAwaitingReview(userIds: string[]): Promise<PayoutDestination[]> {
+    if (userIds.length === 0) return [];
+    return await db.select().from(payoutDestinations)
+      .where(and(inArray(payoutDestinations.userId, userIds), eq(payoutDestinations.reviewStatus, 'pending')))
+      .orderBy(payoutDestinations.createdAt);
+  }
+
   async deletePayoutDestination(id: string): Promise<boolean> {
     const result = await db.delete(payoutDestinations).where(eq(payoutDestinations.id, id)).returning();
     return result.length > 0;
   }
 
   // ==================== PAYOUTS ====================
-  async getPayouts(filters?: { recipientType?: string; recipientId?: string; status?: string; providerReference?: string; companyId?: string }): Promise<Payout[]> {
+  async getPayouts(filters?: { recipientType?: string; recipientId?: string; status?: string; providerReference?: string; companyId?: string; relatedEntityType?: string; relatedEntityId?: string }): Promise<Payout[]> {
     // Filter by provider reference (for webhook lookups)
     if (filters?.providerReference) {
       return await db.select().from(payouts)
@@ -2695,6 +3817,12 @@ export class DatabaseStorage implements IStorage {
     if (filters?.status) {
       conditions.push(eq(payouts.status, filters.status));
     }
+    if (filters?.relatedEntityType) {
+      conditions.push(eq(payouts.relatedEntityType, filters.relatedEntityType));
+    }
+    if (filters?.relatedEntityId) {
+      conditions.push(eq(payouts.relatedEntityId, filters.relatedEntityId));
+    }
 
     if (conditions.length > 0) {
       return await db.select().from(payouts)
@@ -2875,6 +4003,20 @@ export class DatabaseStorage implements IStorage {
         companyId: params.companyId,
       } as any).returning();
 
+      const currency = params.currency.toUpperCase();
+      await this.postLedgerEntry(tx, {
+        companyId: params.companyId,
+        description: params.description,
+        sourceType: 'payout',
+        sourceId: params.payoutId,
+        reference: params.reference,
+        metadata: { transactionId: txnInsert[0].id },
+        legs: [
+          { account: companyAccount(params.companyId, 'payout_clearing', currency), amount: params.amount },
+          { account: companyBalanceAccount(params.companyId, balanceField, currency), amount: -params.amount },
+        ],
+      });
+
       return {
         transactionId: txnInsert[0].id,
         balanceField,
@@ -2920,9 +4062,1309 @@ export class DatabaseStorage implements IStorage {
       await tx.update(transactions)
         .set({ status: 'Failed' } as any)
         .where(eq(transactions.id, params.transactionId));
+
+      const currency = params.currency.toUpperCase();
+      await this.postLedgerEntry(tx, {
+        companyId: params.companyId,
+        description: `Payout failed: ${params.reason}`,
+        sourceType: 'payout_compensation',
+        sourceId: params.transactionId,
+        legs: [
+          { account: companyBalanceAccount(params.companyId, balanceField, currency), amount: params.amount },
+          { account: companyAccount(params.companyId, 'payout_clearing', currency), amount: -params.amount },
+        ],
+      });
+    });
+  }
+
+  // ==================== DOUBLE-ENTRY LEDGER ====================
+
+  async atomicCompanyBalanceMovement(params: {
+    companyId?: string;
+    field: 'usd' | 'local';
+    direction: 'credit' | 'debit';
+    amount: number;
+    currency: string;
+    counterAccount: CompanyAccountKey;
+    description: string;
+    sourceType: string;
+    sourceId?: string | null;
+    reference?: string | null;
+  }): Promise<CompanyBalances> {
+    if (params.companyId) {
+      // Auto-create the row for this company, same as getBalances.
+      await this.getBalances(params.companyId);
+    }
+    return await db.transaction(async (tx) => {
+      // Legacy fallback (no companyId) mirrors updateBalances: first row.
+      const balanceRows = params.companyId
+        ? await tx.execute(sql`SELECT * FROM company_balances WHERE company_id = ${params.companyId} FOR UPDATE`)
+        : await tx.execute(sql`SELECT * FROM company_balances ORDER BY id LIMIT 1 FOR UPDATE`);
+      const row = balanceRows.rows[0] as any;
+      if (!row) throw new Error('Balance update failed');
+      // The integrity report reads usd as USD and local in local_currency,
+      // so a movement in any other currency would show up as drift.
+      const currency = params.field === 'usd' ? 'USD' : String(row.local_currency).toUpperCase();
+      if (params.currency.toUpperCase() !== currency) {
+        throw new Error(`Company ${params.field} balance holds ${currency}, not ${params.currency.toUpperCase()}`);
+      }
+
+      const current = parseFloat(String(row[params.field] || '0'));
+      if (params.direction === 'debit' && current < params.amount) {
+        throw new Error('Insufficient balance or balance update failed');
+      }
+      const signed = params.direction === 'credit' ? params.amount : -params.amount;
+      const next = Math.round((current + signed) * 100) / 100;
+
+      const updated = await tx.execute(
+        sql`UPDATE company_balances SET ${sql.raw(params.field)} = ${next.toFixed(2)} WHERE id = ${row.id} RETURNING *`
+      );
+
+      await this.postLedgerEntry(tx, {
+        companyId: row.company_id,
+        description: params.description,
+        sourceType: params.sourceType,
+        sourceId: params.sourceId ?? null,
+        reference: params.reference ?? null,
+        legs: [
+          { account: companyBalanceAccount(row.company_id, params.field, currency), amount: signed },
+          { account: companyAccount(row.company_id, params.counterAccount, currency), amount: -signed },
+        ],
+      });
+
+      return updated.rows[0] as CompanyBalances;
+    });
+  }
+
+  async getLedgerAccounts(companyId: string): Promise<LedgerAccountBalance[]> {
+    const result = await db.execute(sql`
+      SELECT a.id, a.company_id, a.code, a.name, a.type, a.currency, a.wallet_id,
+             COALESCE(SUM(p.amount), 0)::numeric(16,2)::text AS balance,
+             COUNT(p.id)::int AS posting_count
+        FROM ledger_accounts a
+        LEFT JOIN ledger_postings p ON p.account_id = a.id
+       WHERE a.company_id = ${companyId}
+       GROUP BY a.id
+       ORDER BY a.type, a.code, a.currency
+    `);
+    return (result.rows as any[]).map((r) => ({
+      id: r.id,
+      companyId: r.company_id,
+      code: r.code,
+      name: r.name,
+      type: r.type,
+      currency: r.currency,
+      walletId: r.wallet_id,
+      balance: r.balance,
+      postingCount: r.posting_count,
+    }));
+  }
+
+  async getLedgerAccountPostings(accountId: string, limit = 100): Promise<Array<LedgerPosting & { description: string; sourceType: string; reference: string | null; postedAt: string }>> {
+    const rows = await db.select({
+      id: ledgerPostings.id,
+      entryId: ledgerPostings.entryId,
+      accountId: ledgerPostings.accountId,
+      amount: ledgerPostings.amount,
+      currency: ledgerPostings.currency,
+      createdAt: ledgerPostings.createdAt,
+      description: journalEntries.description,
+      sourceType: journalEntries.sourceType,
+      reference: journalEntries.reference,
+      postedAt: journalEntries.postedAt,
+    })
+      .from(ledgerPostings)
+      .innerJoin(journalEntries, eq(ledgerPostings.entryId, journalEntries.id))
+      .where(eq(ledgerPostings.accountId, accountId))
+      .orderBy(desc(journalEntries.postedAt))
+      .limit(Math.min(Math.max(limit, 1), 500));
+    return rows;
+  }
+
+  async getJournalEntries(companyId: string, opts?: { limit?: number; offset?: number }): Promise<Array<JournalEntry & { postings: LedgerPosting[] }>> {
+    const limit = Math.min(Math.max(opts?.limit ?? 50, 1), 200);
+    const entries = await db.select().from(journalEntries)
+      .where(eq(journalEntries.companyId, companyId))
+      .orderBy(desc(journalEntries.postedAt))
+      .limit(limit)
+      .offset(Math.max(opts?.offset ?? 0, 0));
+    if (entries.length === 0) return [];
+    const postings = await db.select().from(ledgerPostings)
+      .where(inArray(ledgerPostings.entryId, entries.map((e) => e.id)));
+    return entries.map((e) => ({ ...e, postings: postings.filter((p) => p.entryId === e.id) }));
+  }
+
+  // Proves the ledger: every entry must net to zero per currency, and
+  // every denormalized balance the company owns must equal the sum of
+  // postings on its account.
+  async getLedgerIntegrityReport(companyId: string): Promise<LedgerIntegrityReport> {
+    const totals = await db.execute(sql`
+      SELECT p.currency, SUM(p.amount)::numeric(16,2)::text AS net, COUNT(*)::int AS postings
+        FROM ledger_postings p
+        JOIN journal_entries e ON e.id = p.entry_id
+       WHERE e.company_id = ${companyId}
+       GROUP BY p.currency
+       ORDER BY p.currency
+    `);
+    const unbalanced = await db.execute(sql`
+      SELECT p.entry_id, p.currency, SUM(p.amount)::numeric(16,2)::text AS net
+        FROM ledger_postings p
+        JOIN journal_entries e ON e.id = p.entry_id
+       WHERE e.company_id = ${companyId}
+       GROUP BY p.entry_id, p.currency
+      HAVING SUM(p.amount) <> 0
+       LIMIT 100
+    `);
+    const walletDrift = await db.execute(sql`
+      SELECT w.id AS wallet_id, w.currency, w.balance::text AS wallet_balance,
+             COALESCE(SUM(p.amount), 0)::numeric(16,2)::text AS ledger_balance
+        FROM wallets w
+        LEFT JOIN ledger_accounts a ON a.code = 'wallet:' || w.id AND a.currency = w.currency
+        LEFT JOIN ledger_postings p ON p.account_id = a.id
+       WHERE w.company_id = ${companyId}
+       GROUP BY w.id, w.currency, w.balance
+      HAVING w.balance <> COALESCE(SUM(p.amount), 0)
+    `);
+
+    const companyBalanceDrift: LedgerIntegrityReport['companyBalanceDrift'] = [];
+    const balanceRows = await db.select().from(companyBalances).where(eq(companyBalances.companyId, companyId)).limit(1);
+    const balanceRow = balanceRows[0];
+    if (balanceRow) {
+      for (const field of ['usd', 'local'] as const) {
+        const currency = field === 'usd' ? 'USD' : balanceRow.localCurrency.toUpperCase();
+        const account = companyBalanceAccount(companyId, field, currency);
+        const sumRows = await db.execute(sql`
+          SELECT COALESCE(SUM(p.amount), 0)::numeric(16,2)::text AS ledger_balance
+            FROM ledger_accounts a
+            JOIN ledger_postings p ON p.account_id = a.id
+           WHERE a.code = ${account.code} AND a.currency = ${currency}
+        `);
+        const ledgerBalance = String((sumRows.rows[0] as any)?.ledger_balance ?? '0.00');
+        const stored = String(balanceRow[field] ?? '0');
+        if (toMinorUnits(parseFloat(stored)) !== toMinorUnits(parseFloat(ledgerBalance))) {
+          companyBalanceDrift.push({ field, currency, storedBalance: parseFloat(stored).toFixed(2), ledgerBalance });
+        }
+      }
+    }
+
+    const report: LedgerIntegrityReport = {
+      balanced: false,
+      checkedAt: new Date().toISOString(),
+      totalsByCurrency: (totals.rows as any[]).map((r) => ({ currency: r.currency, net: r.net, postings: r.postings })),
+      unbalancedEntries: (unbalanced.rows as any[]).map((r) => ({ entryId: r.entry_id, currency: r.currency, net: r.net })),
+      walletDrift: (walletDrift.rows as any[]).map((r) => ({
+        walletId: r.wallet_id,
+        currency: r.currency,
+        walletBalance: r.wallet_balance,
+        ledgerBalance: r.ledger_balance,
+      })),
+      companyBalanceDrift,
+    };
+    report.balanced = report.unbalancedEntries.length === 0
+      && report.totalsByCurrency.every((t) => toMinorUnits(parseFloat(t.net)) === 0);
+    return report;
+  }
+
+  // ==================== PROVIDER RECONCILIATION ====================
+  // created_at columns hold a mix of ISO strings and Postgres now()
+  // text, so window filters cast to timestamptz instead of comparing
+  // strings.
+
+  async getPayoutsForReconciliation(provider: string, from: string, to: string): Promise<Payout[]> {
+    return await db.select().from(payouts)
+      .where(and(
+        eq(payouts.provider, provider),
+        sql`(${payouts.providerReference} IS NOT NULL OR ${payouts.providerTransferId} IS NOT NULL)`,
+        sql`${payouts.createdAt}::timestamptz >= ${from}::timestamptz`,
+        sql`${payouts.createdAt}::timestamptz < ${to}::timestamptz`,
+      ));
+  }
+
+  async getProviderWalletTransactions(from: string, to: string): Promise<Array<WalletTransaction & { companyId: string | null }>> {
+    const rows = await db.select({ tx: walletTransactions, companyId: wallets.companyId })
+      .from(walletTransactions)
+      .innerJoin(wallets, eq(walletTransactions.walletId, wallets.id))
+      .where(and(
+        sql`(${walletTransactions.metadata} ? 'provider' OR ${walletTransactions.metadata} ? 'paymentIntentId' OR ${walletTransactions.metadata} ? 'paystackReference')`,
+        sql`${walletTransactions.createdAt}::timestamptz >= ${from}::timestamptz`,
+        sql`${walletTransactions.createdAt}::timestamptz < ${to}::timestamptz`,
+      ));
+    return rows.map((r) => ({ ...r.tx, companyId: r.companyId ?? null }));
+  }
+
+  async getPaymentIntentIndexByIds(provider: string, providerIntentIds: string[]): Promise<PaymentIntentIndex[]> {
+    if (providerIntentIds.length === 0) return [];
+    return await db.select().from(paymentIntentIndex)
+      .where(and(
+        eq(paymentIntentIndex.provider, provider),
+        inArray(paymentIntentIndex.providerIntentId, providerIntentIds),
+      ));
+  }
+
+  async createReconciliationRun(run: InsertReconciliationRun): Promise<ReconciliationRun> {
+    const result = await db.insert(reconciliationRuns).values(run as any).returning();
+    return result[0];
+  }
+
+  async updateReconciliationRun(id: string, data: Partial<ReconciliationRun>): Promise<ReconciliationRun | undefined> {
+    const result = await db.update(reconciliationRuns).set(data as any).where(eq(reconciliationRuns.id, id)).returning();
+    return result[0];
+  }
+
+  async getReconciliationRuns(limit = 20): Promise<ReconciliationRun[]> {
+    return await db.select().from(reconciliationRuns)
+      .orderBy(desc(reconciliationRuns.startedAt))
+      .limit(Math.min(Math.max(limit, 1), 100));
+  }
+
+  async upsertReconciliationException(input: InsertReconciliationException): Promise<ReconciliationException> {
+    const now = new Date().toISOString();
+    // A repeat sighting refreshes the numbers and bumps `occurrences`.
+    // 'resolved' rows reopen (the fix did not take); 'ignored' rows stay
+    // ignored so an accepted difference does not nag every morning.
+    const result = await db.insert(reconciliationExceptions).values({
+      ...input,
+      status: 'open',
+      firstSeenAt: now,
+      lastSeenAt: now,
+    } as any)
+      .onConflictDoUpdate({
+        target: reconciliationExceptions.fingerprint,
+        set: {
+          runId: input.runId ?? null,
+          providerAmount: input.providerAmount ?? null,
+          localAmount: input.localAmount ?? null,
+          providerStatus: input.providerStatus ?? null,
+          localStatus: input.localStatus ?? null,
+          details: input.details ?? null,
+          companyId: sql`COALESCE(${reconciliationExceptions.companyId}, excluded.company_id)`,
+          occurrences: sql`${reconciliationExceptions.occurrences} + 1`,
+          lastSeenAt: now,
+          status: sql`CASE WHEN ${reconciliationExceptions.status} = 'resolved' THEN 'open' ELSE ${reconciliationExceptions.status} END`,
+        } as any,
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getReconciliationExceptions(filters: { companyIds: Array<string | null>; status?: string; provider?: string; kind?: string }): Promise<ReconciliationException[]> {
+    const ids = filters.companyIds.filter((c): c is string => !!c);
+    const includeUnattributed = filters.companyIds.includes(null);
+    if (ids.length === 0 && !includeUnattributed) return [];
+    const scope = ids.length > 0 && includeUnattributed
+      ? sql`(${inArray(reconciliationExceptions.companyId, ids)} OR ${reconciliationExceptions.companyId} IS NULL)`
+      : ids.length > 0
+        ? inArray(reconciliationExceptions.companyId, ids)
+        : sql`${reconciliationExceptions.companyId} IS NULL`;
+    const conditions: any[] = [scope];
+    if (filters.status) conditions.push(eq(reconciliationExceptions.status, filters.status));
+    if (filters.provider) conditions.push(eq(reconciliationExceptions.provider, filters.provider));
+    if (filters.kind) conditions.push(eq(reconciliationExceptions.kind, filters.kind));
+    return await db.select().from(reconciliationExceptions)
+      .where(and(...conditions))
+      .orderBy(desc(reconciliationExceptions.lastSeenAt))
+      .limit(500);
+  }
+
+  async getReconciliationException(id: string): Promise<ReconciliationException | undefined> {
+    const result = await db.select().from(reconciliationExceptions).where(eq(reconciliationExceptions.id, id)).limit(1);
+    return result[0];
+  }
+
+  async updateReconciliationException(id: string, data: Partial<ReconciliationException>): Promise<ReconciliationException | undefined> {
+    const result = await db.update(reconciliationExceptions).set(data as any).where(eq(reconciliationExceptions.id, id)).returning();
+    return result[0];
+  }
+
+  // ==================== CARD AUTHORIZATIONS ====================
+
+  async atomicCardAuthorization(request: {
+    stripeAuthorizationId: string;
+    stripeCardId: string | null;
+    amount: number;
+    currency: string;
+    merchantName: string | null;
+    merchantCategory: string | null;
+    merchantCategoryCode?: string | null;
+    merchantCountry?: string | null;
+    merchantNetworkId?: string | null;
+  }): Promise<CardAuthorization> {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select().from(cardAuthorizations)
+        .where(eq(cardAuthorizations.stripeAuthorizationId, request.stripeAuthorizationId))
+        .limit(1);
+      if (existing[0]) return existing[0];
+
+      // Lock the card so concurrent authorizations see each other's
+      // approved amounts when checking the balance and interval limit.
+      const cardRows = request.stripeCardId
+        ? await tx.execute(sql`SELECT * FROM virtual_cards WHERE stripe_card_id = ${request.stripeCardId} LIMIT 1 FOR UPDATE`)
+        : { rows: [] as any[] };
+      const cardRow = cardRows.rows[0] as any;
+
+      const now = new Date();
+      let cardSpendInWindow = 0;
+      let heldAmount = 0;
+      let budget: AuthorizationBudgetState | null = null;
+      let policy: AuthorizationPolicyState | null = null;
+      const policySpend = { daily: 0, monthly: 0 };
+      if (cardRow) {
+        const approvedSince = async (start: string) => {
+          const spend = await tx.execute(sql`
+            SELECT COALESCE(SUM(amount), 0)::text AS total FROM card_authorizations
+            WHERE card_id = ${cardRow.id} AND approved = true
+              AND created_at::timestamptz >= ${start}::timestamptz
+          `);
+          return parseFloat((spend.rows[0] as any)?.total || '0');
+        };
+        const cardWindowStart = spendingWindowStart(cardRow.spending_limit_interval, now);
+        if (cardWindowStart) {
+          cardSpendInWindow = await approvedSince(cardWindowStart);
+        }
+        // Approved holds the card balance has not been debited for yet.
+        // Stripe releases an uncaptured authorization after 7 days.
+        const holdsSince = new Date(now.getTime() - 7 * 24 * 3_600_000).toISOString();
+        const holds = await tx.execute(sql`
+          SELECT COALESCE(SUM(amount), 0)::text AS total FROM card_authorizations
+          WHERE card_id = ${cardRow.id} AND approved = true AND captured_at IS NULL
+            AND created_at::timestamptz >= ${holdsSince}::timestamptz
+        `);
+        heldAmount = parseFloat((holds.rows[0] as any)?.total || '0');
+
+        if (cardRow.spend_policy_id) {
+          const policyRows = await tx.execute(sql`SELECT * FROM card_spend_policies WHERE id = ${cardRow.spend_policy_id}`);
+          const p = policyRows.rows[0] as any;
+          if (p) {
+            const amountOrNull = (v: string | null) => (v == null ? null : parseFloat(v));
+            policy = {
+              name: p.name,
+              allowedMerchantCategories: p.allowed_merchant_categories ?? [],
+              blockedMerchantCategories: p.blocked_merchant_categories ?? [],
+              perTransactionLimit: amountOrNull(p.per_transaction_limit),
+              dailyLimit: amountOrNull(p.daily_limit),
+              monthlyLimit: amountOrNull(p.monthly_limit),
+              allowedWeekdays: p.allowed_weekdays ?? [],
+              allowedHoursStart: p.allowed_hours_start ?? null,
+              allowedHoursEnd: p.allowed_hours_end ?? null,
+              timezone: p.timezone || 'UTC',
+              allowedCountries: p.allowed_countries ?? [],
+            };
+            if (policy.dailyLimit !== null) policySpend.daily = await approvedSince(spendingWindowStart('daily', now)!);
+            if (policy.monthlyLimit !== null) policySpend.monthly = await approvedSince(spendingWindowStart('monthly', now)!);
+          }
+        }
+
+        const spendCategory = cardRow.budget_category || spendCategoryForMerchant(request.merchantCategory);
+        if (spendCategory && cardRow.company_id) {
+          // A budget scoped to this card's holder wins over a company-wide
+          // one; department budgets never see card spend.
+          const budgetRows = await tx.execute(sql`
+            SELECT * FROM budgets
+            WHERE company_id = ${cardRow.company_id}
+              AND lower(category) = lower(${spendCategory})
+              AND upper(currency) = upper(${request.currency})
+              AND department_id IS NULL
+              AND (cardholder_id IS NULL OR cardholder_id = ${cardRow.stripe_cardholder_id ?? null})
+            ORDER BY cardholder_id NULLS LAST
+            LIMIT 1 FOR UPDATE
+          `);
+          const b = budgetRows.rows[0] as any;
+          if (b) {
+            const companyRows = await tx.execute(sql`SELECT fiscal_year_start FROM companies WHERE id = ${cardRow.company_id}`);
+            const window = budgetPeriod(b.period, (companyRows.rows[0] as any)?.fiscal_year_start);
+            const actuals = await this.budgetActualsIn(tx, {
+              id: b.id,
+              companyId: b.company_id,
+              category: b.category,
+              currency: b.currency,
+              departmentId: null,
+              cardholderId: b.cardholder_id,
+            } as Budget, window);
+            // The rolled-in amount belongs to current_period_start; until
+            // the budget is moved onto this period, count none.
+            const rolledIn = b.current_period_start === window.start ? parseFloat(b.rollover_amount || '0') : 0;
+            budget = {
+              id: b.id,
+              name: b.name,
+              category: b.category,
+              limit: parseFloat(b.budget_limit || '0') + rolledIn,
+              spent: actuals.expenses + actuals.bills,
+              committed: actuals.cards,
+              currency: b.currency,
+            };
+          }
+        }
+      }
+
+      const merchantLock = cardRow?.kind === 'merchant_locked'
+        ? { name: cardRow.locked_merchant_name ?? null, networkId: cardRow.locked_merchant_id ?? null }
+        : null;
+      const decision = decideCardAuthorization({
+        card: cardRow ? {
+          status: cardRow.status,
+          balance: parseFloat(cardRow.balance || '0'),
+          limit: parseFloat(cardRow.card_limit || '0'),
+          currency: cardRow.currency,
+          spendingLimitInterval: cardRow.spending_limit_interval ?? null,
+          allowedCategories: cardRow.allowed_categories ?? null,
+          blockedCategories: cardRow.blocked_categories ?? null,
+          budgetCategory: cardRow.budget_category ?? null,
+          usesRemaining: usesRemaining({ maxUses: cardRow.max_uses ?? null, useCount: cardRow.use_count ?? 0 }),
+          merchantLock,
+        } : null,
+        request: {
+          amount: request.amount,
+          currency: request.currency,
+          merchantCategory: request.merchantCategory || '',
+          merchantCategoryCode: request.merchantCategoryCode ?? null,
+          merchantCountry: request.merchantCountry ?? null,
+          merchantName: request.merchantName,
+          merchantNetworkId: request.merchantNetworkId ?? null,
+        },
+        cardSpendInWindow,
+        heldAmount,
+        budget,
+        policy,
+        policySpend,
+        now,
+      });
+
+      const inserted = await tx.insert(cardAuthorizations).values({
+        stripeAuthorizationId: request.stripeAuthorizationId,
+        stripeCardId: request.stripeCardId,
+        cardId: cardRow?.id ?? null,
+        companyId: cardRow?.company_id ?? null,
+        amount: request.amount.toFixed(2),
+        currency: request.currency.toUpperCase(),
+        merchantName: request.merchantName,
+        merchantCategory: request.merchantCategory,
+        spendCategory: decision.spendCategory,
+        budgetId: decision.budgetId,
+        approved: decision.approved,
+        reasonCode: decision.reasonCode,
+        reason: decision.reason,
+        details: decision.details,
+        createdAt: now.toISOString(),
+      } as any)
+        .onConflictDoNothing({ target: cardAuthorizations.stripeAuthorizationId })
+        .returning();
+      if (inserted[0]) {
+        if (inserted[0].approved && cardRow) {
+          const lock = merchantLock && lockAfterApproval(merchantLock, {
+            name: request.merchantName,
+            networkId: request.merchantNetworkId ?? null,
+          });
+          await tx.execute(sql`
+            UPDATE virtual_cards SET
+              use_count = use_count + 1,
+              locked_merchant_name = ${lock ? lock.name : cardRow.locked_merchant_name ?? null},
+              locked_merchant_id = ${lock ? lock.networkId : cardRow.locked_merchant_id ?? null}
+            WHERE id = ${cardRow.id}
+          `);
+        }
+        return inserted[0];
+      }
+
+      const raced = await tx.select().from(cardAuthorizations)
+        .where(eq(cardAuthorizations.stripeAuthorizationId, request.stripeAuthorizationId))
+        .limit(1);
+      return raced[0];
+    });
+  }
+
+  async getCardAuthorizations(cardId: string, limit = 50): Promise<CardAuthorization[]> {
+    return await db.select().from(cardAuthorizations)
+      .where(eq(cardAuthorizations.cardId, cardId))
+      .orderBy(desc(cardAuthorizations.createdAt))
+      .limit(Math.min(Math.max(limit, 1), 200));
+  }
+
+  async markCardAuthorizationCaptured(stripeAuthorizationId: string): Promise<void> {
+    await db.update(cardAuthorizations)
+      .set({ capturedAt: new Date().toISOString() } as any)
+      .where(and(
+        eq(cardAuthorizations.stripeAuthorizationId, stripeAuthorizationId),
+        isNull(cardAuthorizations.capturedAt),
+      ));
+  }
+
+  // ==================== RECEIPT SCANS ====================
+  async saveReceiptScan(scan: InsertReceiptScan): Promise<ReceiptScan> {
+    const [row] = await db.insert(receiptScans).values(scan as any)
+      .onConflictDoUpdate({
+        target: receiptScans.fileUrl,
+        set: {
+          engine: scan.engine,
+          status: scan.status,
+          draft: scan.draft as any,
+          rawText: scan.rawText,
+          error: scan.error,
+          durationMs: scan.durationMs,
+        },
+      })
+      .returning();
+    return row;
+  }
+
+  async getReceiptScanByFileUrl(fileUrl: string): Promise<ReceiptScan | undefined> {
+    const [row] = await db.select().from(receiptScans).where(eq(receiptScans.fileUrl, fileUrl));
+    return row || undefined;
+  }
+
+  // ==================== APPROVAL POLICIES ====================
+  async getApprovalPolicies(companyId: string): Promise<ApprovalPolicy[]> {
+    return await db.select().from(approvalPolicies)
+      .where(eq(approvalPolicies.companyId, companyId))
+      .orderBy(approvalPolicies.priority, approvalPolicies.createdAt);
+  }
+
+  async getApprovalPolicy(id: string): Promise<ApprovalPolicy | undefined> {
+    const [row] = await db.select().from(approvalPolicies).where(eq(approvalPolicies.id, id));
+    return row || undefined;
+  }
+
+  async createApprovalPolicy(policy: InsertApprovalPolicy): Promise<ApprovalPolicy> {
+    const [row] = await db.insert(approvalPolicies).values(policy as any).returning();
+    return row;
+  }
+
+  async updateApprovalPolicy(id: string, data: Partial<Omit<ApprovalPolicy, 'id' | 'companyId'>>): Promise<ApprovalPolicy | undefined> {
+    const [row] = await db.update(approvalPolicies)
+      .set({ ...data, updatedAt: new Date().toISOString() } as any)
+      .where(eq(approvalPolicies.id, id))
+      .returning();
+    return row || undefined;
+  }
+
+  async deleteApprovalPolicy(id: string): Promise<boolean> {
+    const result = await db.delete(approvalPolicies).where(eq(approvalPolicies.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getApprovalSteps(entityType: string, entityId: string): Promise<ApprovalStep[]> {
+    return await db.select().from(approvalSteps)
+      .where(and(eq(approvalSteps.entityType, entityType), eq(approvalSteps.entityId, entityId)))
+      .orderBy(approvalSteps.stepIndex);
+  }
+
+  async createApprovalChain(steps: InsertApprovalStep[]): Promise<ApprovalStep[]> {
+    if (steps.length === 0) return [];
+    // Two approvers acting on a fresh entity at once both plan the same
+    // chain; the unique (entity, step_index) index keeps the first.
+    await db.insert(approvalSteps).values(steps as any).onConflictDoNothing();
+    return await this.getApprovalSteps(steps[0].entityType, steps[0].entityId);
+  }
+
+  async atomicApproveStep(
+    entityType: string,
+    entityId: string,
+    actor: ApprovalActor & { name: string },
+    submittedBy: string | null,
+    comment?: string | null,
+  ): Promise<{ check: ApprovalCheck; steps: ApprovalStep[] }> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`
+        SELECT id FROM approval_steps
+        WHERE entity_type = ${entityType} AND entity_id = ${entityId}
+        FOR UPDATE
+      `);
+      const steps = await tx.select().from(approvalSteps)
+        .where(and(eq(approvalSteps.entityType, entityType), eq(approvalSteps.entityId, entityId)))
+        .orderBy(approvalSteps.stepIndex);
+
+      const check = checkApprover(steps as ApprovalStepState[], actor, submittedBy);
+      if (!check.ok) return { check, steps };
+
+      const now = new Date().toISOString();
+      await tx.update(approvalSteps)
+        .set({ status: 'approved', actedBy: actor.userId, actedByName: actor.name, actedAt: now, comment: comment ?? null })
+        .where(eq(approvalSteps.id, check.step.id));
+      const updated = steps.map((s) => s.id === check.step.id
+        ? { ...s, status: 'approved', actedBy: actor.userId, actedByName: actor.name, actedAt: now, comment: comment ?? null }
+        : s);
+      return { check, steps: updated };
+    });
+  }
+
+  async clearApprovalChain(entityType: string, entityId: string): Promise<void> {
+    await db.delete(approvalSteps)
+      .where(and(eq(approvalSteps.entityType, entityType), eq(approvalSteps.entityId, entityId)));
+  }
+
+  // ==================== ACCOUNTING EXPORT ====================
+  async getGlAccountMappings(companyId: string): Promise<GlAccountMapping[]> {
+    return await db.select().from(glAccountMappings)
+      .where(eq(glAccountMappings.companyId, companyId))
+      .orderBy(glAccountMappings.sourceType, glAccountMappings.sourceKey);
+  }
+
+  async upsertGlAccountMapping(mapping: InsertGlAccountMapping): Promise<GlAccountMapping> {
+    const [row] = await db.insert(glAccountMappings).values(mapping)
+      .onConflictDoUpdate({
+        target: [glAccountMappings.companyId, glAccountMappings.sourceType, glAccountMappings.sourceKey],
+        set: {
+          accountCode: mapping.accountCode,
+          accountName: mapping.accountName ?? null,
+          taxCode: mapping.taxCode ?? null,
+          updatedAt: new Date().toISOString(),
+        },
+      })
+      .returning();
+    return row;
+  }
+
+  async deleteGlAccountMapping(id: string, companyId: string): Promise<boolean> {
+    const deleted = await db.delete(glAccountMappings)
+      .where(and(eq(glAccountMappings.id, id), eq(glAccountMappings.companyId, companyId)))
+      .returning({ id: glAccountMappings.id });
+    return deleted.length > 0;
+  }
+
+  async getAccountingExports(companyId: string): Promise<AccountingExport[]> {
+    return await db.select().from(accountingExports)
+      .where(eq(accountingExports.companyId, companyId))
+      .orderBy(desc(accountingExports.createdAt));
+  }
+
+  async getAccountingExport(id: string): Promise<AccountingExport | undefined> {
+    const [row] = await db.select().from(accountingExports).where(eq(accountingExports.id, id));
+    return row || undefined;
+  }
+
+  async getExportedAccountingKeys(companyId: string): Promise<Set<string>> {
+    const rows = await db.select({ sourceType: accountingExportItems.sourceType, sourceId: accountingExportItems.sourceId })
+      .from(accountingExportItems)
+      .where(eq(accountingExportItems.companyId, companyId));
+    return new Set(rows.map((r) => exportKey(r.sourceType, r.sourceId)));
+  }
+
+  async createAccountingExport(
+    exp: InsertAccountingExport,
+    items: Array<{ sourceType: string; sourceId: string }>,
+  ): Promise<AccountingExport> {
+    return await db.transaction(async (tx) => {
+      const [row] = await tx.insert(accountingExports).values(exp).returning();
+      if (items.length > 0) {
+        const claimed = await tx.insert(accountingExportItems)
+          .values(items.map((i) => ({ ...i, exportId: row.id, companyId: exp.companyId })))
+          .onConflictDoNothing()
+          .returning({ id: accountingExportItems.id });
+        if (claimed.length !== items.length) {
+          throw new Error('ACCOUNTING_ITEMS_ALREADY_EXPORTED');
+        }
+      }
+      return row;
+    });
+  }
+
+  async voidAccountingExport(id: string, voidedBy: string): Promise<AccountingExport | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(accountingExportItems).where(eq(accountingExportItems.exportId, id));
+      const [row] = await tx.update(accountingExports)
+        .set({ status: 'voided', voidedBy, voidedAt: new Date().toISOString() })
+        .where(eq(accountingExports.id, id))
+        .returning();
+      return row || undefined;
+    });
+  }
+
+  // ==================== BANK STATEMENTS ====================
+  async createBankStatementImport(
+    imp: InsertBankStatementImport,
+    lines: Array<Omit<InsertBankStatementLine, 'importId' | 'companyId'>>,
+  ): Promise<{ import: BankStatementImport; lines: BankStatementLine[] }> {
+    return await db.transaction(async (tx) => {
+      const [row] = await tx.insert(bankStatementImports).values(imp).returning();
+      const inserted = lines.length === 0 ? [] : await tx.insert(bankStatementLines)
+        .values(lines.map((l) => ({ ...l, importId: row.id, companyId: imp.companyId })))
+        .onConflictDoNothing({ target: [bankStatementLines.companyId, bankStatementLines.dedupeKey] })
+        .returning();
+      const [updated] = await tx.update(bankStatementImports)
+        .set({ lineCount: inserted.length, duplicateCount: lines.length - inserted.length })
+        .where(eq(bankStatementImports.id, row.id))
+        .returning();
+      return { import: updated, lines: inserted };
+    });
+  }
+
+  async getBankStatementImports(companyId: string): Promise<BankStatementImport[]> {
+    return await db.select().from(bankStatementImports)
+      .where(eq(bankStatementImports.companyId, companyId))
+      .orderBy(desc(bankStatementImports.createdAt));
+  }
+
+  async getBankStatementLines(companyId: string, filters?: { importId?: string; statuses?: string[] }): Promise<BankStatementLine[]> {
+    const conditions = [eq(bankStatementLines.companyId, companyId)];
+    if (filters?.importId) conditions.push(eq(bankStatementLines.importId, filters.importId));
+    if (filters?.statuses?.length) conditions.push(inArray(bankStatementLines.status, filters.statuses));
+    return await db.select().from(bankStatementLines)
+      .where(and(...conditions))
+      .orderBy(desc(bankStatementLines.date), bankStatementLines.lineIndex);
+  }
+
+  async getBankStatementLine(id: string): Promise<BankStatementLine | undefined> {
+    const [row] = await db.select().from(bankStatementLines).where(eq(bankStatementLines.id, id));
+    return row || undefined;
+  }
+
+  async getMatchedStatementTargets(companyId: string): Promise<Set<string>> {
+    const rows = await db.select({ type: bankStatementLines.matchType, id: bankStatementLines.matchId })
+      .from(bankStatementLines)
+      .where(and(eq(bankStatementLines.companyId, companyId), sql`${bankStatementLines.matchId} IS NOT NULL`));
+    return new Set(rows.map((r) => candidateKey({ type: r.type ?? '', id: r.id ?? '' })));
+  }
+
+  async resolveBankStatementLine(
+    id: string,
+    fromStatuses: string[],
+    data: Partial<Omit<BankStatementLine, 'id'>>,
+  ): Promise<BankStatementLine | undefined> {
+    try {
+      const [row] = await db.update(bankStatementLines)
+        .set(data)
+        .where(and(eq(bankStatementLines.id, id), inArray(bankStatementLines.status, fromStatuses)))
+        .returning();
+      return row || undefined;
+    } catch (error: any) {
+      if (error?.code === '23505') throw new Error('STATEMENT_MATCH_TAKEN');
+      throw error;
+    }
+  }
+
+  async convertBankStatementLine(
+    id: string,
+    record: { kind: 'expense'; expense: CreateExpense } | { kind: 'transaction'; transaction: CreateTransaction },
+    resolvedBy: string,
+  ): Promise<{ line: BankStatementLine; expense?: Expense; transaction?: Transaction }> {
+    return await db.transaction(async (tx) => {
+      const locked = await tx.execute(sql`SELECT status FROM bank_statement_lines WHERE id = ${id} FOR UPDATE`);
+      const status = (locked.rows[0] as { status?: string } | undefined)?.status;
+      if (status !== 'unmatched' && status !== 'suggested') {
+        throw new Error('STATEMENT_LINE_RESOLVED');
+      }
+
+      let expense: Expense | undefined;
+      let transaction: Transaction | undefined;
+      if (record.kind === 'expense') {
+        [expense] = await tx.insert(expenses).values(record.expense as any).returning();
+      } else {
+        [transaction] = await tx.insert(transactions).values(record.transaction as any).returning();
+      }
+      const [line] = await tx.update(bankStatementLines)
+        .set({
+          status: 'converted',
+          matchType: record.kind,
+          matchId: (expense ?? transaction)!.id,
+          matchScore: null,
+          resolvedBy,
+          resolvedAt: new Date().toISOString(),
+        })
+        .where(eq(bankStatementLines.id, id))
+        .returning();
+      return { line, expense, transaction };
     });
   }
 
+  // ==================== PURCHASE ORDERS ====================
+  async getPurchaseOrders(companyId: string, filters?: { status?: string; vendorId?: string }): Promise<PurchaseOrder[]> {
+    const conditions = [eq(purchaseOrders.companyId, companyId)];
+    if (filters?.status) conditions.push(eq(purchaseOrders.status, filters.status));
+    if (filters?.vendorId) conditions.push(eq(purchaseOrders.vendorId, filters.vendorId));
+    return await db.select().from(purchaseOrders)
+      .where(and(...conditions))
+      .orderBy(desc(purchaseOrders.createdAt));
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
+    const [row] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    return row || undefined;
+  }
+
+  async getPurchaseOrderLines(purchaseOrderId: string): Promise<PurchaseOrderLine[]> {
+    return await db.select().from(purchaseOrderLines)
+      .where(eq(purchaseOrderLines.purchaseOrderId, purchaseOrderId))
+      .orderBy(purchaseOrderLines.lineIndex);
+  }
+
+  async createPurchaseOrder(
+    po: Omit<InsertPurchaseOrder, 'poNumber'>,
+    lines: Array<Omit<InsertPurchaseOrderLine, 'purchaseOrderId'>>,
+  ): Promise<PurchaseOrder> {
+    return await db.transaction(async (tx) => {
+      // Serialise numbering per company.
+      await tx.execute(sql`SELECT id FROM companies WHERE id = ${po.companyId} FOR UPDATE`);
+      const prefix = `PO-${new Date().getFullYear()}-`;
+      const [last] = await tx.select({ poNumber: purchaseOrders.poNumber })
+        .from(purchaseOrders)
+        .where(and(eq(purchaseOrders.companyId, po.companyId), sql`${purchaseOrders.poNumber} LIKE ${prefix + '%'}`))
+        .orderBy(desc(purchaseOrders.poNumber))
+        .limit(1);
+      const seq = last ? parseInt(last.poNumber.replace(prefix, ''), 10) + 1 : 1;
+
+      const [row] = await tx.insert(purchaseOrders)
+        .values({ ...po, poNumber: `${prefix}${String(seq).padStart(4, '0')}` })
+        .returning();
+      if (lines.length > 0) {
+        await tx.insert(purchaseOrderLines).values(lines.map((l) => ({ ...l, purchaseOrderId: row.id })));
+      }
+      return row;
+    });
+  }
+
+  async updatePurchaseOrder(
+    id: string,
+    fromStatuses: string[],
+    data: Partial<Omit<PurchaseOrder, 'id'>>,
+    lines?: Array<Omit<InsertPurchaseOrderLine, 'purchaseOrderId'>>,
+  ): Promise<PurchaseOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const [row] = await tx.update(purchaseOrders)
+        .set({ ...data, updatedAt: new Date().toISOString() })
+        .where(and(eq(purchaseOrders.id, id), inArray(purchaseOrders.status, fromStatuses)))
+        .returning();
+      if (!row) return undefined;
+      if (lines) {
+        await tx.delete(purchaseOrderLines).where(eq(purchaseOrderLines.purchaseOrderId, id));
+        if (lines.length > 0) {
+          await tx.insert(purchaseOrderLines).values(lines.map((l) => ({ ...l, purchaseOrderId: id })));
+        }
+      }
+      return row;
+    });
+  }
+
+  async getGoodsReceipts(purchaseOrderId: string): Promise<GoodsReceipt[]> {
+    return await db.select().from(goodsReceipts)
+      .where(eq(goodsReceipts.purchaseOrderId, purchaseOrderId))
+      .orderBy(goodsReceipts.createdAt);
+  }
+
+  async getGoodsReceipt(id: string): Promise<GoodsReceipt | undefined> {
+    const [row] = await db.select().from(goodsReceipts).where(eq(goodsReceipts.id, id));
+    return row || undefined;
+  }
+
+  async createGoodsReceipt(receipt: Omit<InsertGoodsReceipt, 'receiptNumber'>): Promise<{ receipt: GoodsReceipt; purchaseOrder: PurchaseOrder }> {
+    return await db.transaction(async (tx) => {
+      const locked = await tx.execute(sql`SELECT * FROM purchase_orders WHERE id = ${receipt.purchaseOrderId} FOR UPDATE`);
+      const po = locked.rows[0] as any;
+      if (!po || !RECEIVABLE_PO_STATUSES.includes(po.status)) {
+        throw new Error('PO_NOT_RECEIVABLE');
+      }
+
+      const lines = await tx.select().from(purchaseOrderLines)
+        .where(eq(purchaseOrderLines.purchaseOrderId, receipt.purchaseOrderId));
+      const refs = lines.map((l) => ({
+        id: l.id,
+        description: l.description,
+        quantity: parseFloat(l.quantity),
+        unitPrice: parseFloat(l.unitPrice),
+        receivedQuantity: parseFloat(l.receivedQuantity),
+      }));
+      const problems = checkReceipt(refs, receipt.lines, parseFloat(po.quantity_tolerance_percent));
+      if (problems.length > 0) {
+        throw Object.assign(new Error('RECEIPT_EXCEEDS_ORDER'), { details: problems });
+      }
+
+      const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` })
+        .from(goodsReceipts)
+        .where(eq(goodsReceipts.purchaseOrderId, receipt.purchaseOrderId));
+      const [row] = await tx.insert(goodsReceipts)
+        .values({ ...receipt, receiptNumber: `GR-${po.po_number}-${count + 1}` })
+        .returning();
+
+      for (const line of receipt.lines) {
+        await tx.update(purchaseOrderLines)
+          .set({ receivedQuantity: sql`${purchaseOrderLines.receivedQuantity} + ${line.quantity}` })
+          .where(eq(purchaseOrderLines.id, line.poLineId));
+        const ref = refs.find((r) => r.id === line.poLineId)!;
+        ref.receivedQuantity += line.quantity;
+      }
+      const [purchaseOrder] = await tx.update(purchaseOrders)
+        .set({ status: receivingStatus(refs), updatedAt: new Date().toISOString() })
+        .where(eq(purchaseOrders.id, receipt.purchaseOrderId))
+        .returning();
+      return { receipt: row, purchaseOrder };
+    });
+  }
+
+  async getBillsForPurchaseOrder(purchaseOrderId: string): Promise<Bill[]> {
+    return await db.select().from(bills)
+      .where(eq(bills.purchaseOrderId, purchaseOrderId))
+      .orderBy(bills.createdAt);
+  }
+
+  // ==================== INVOICE PAYMENTS & CREDIT NOTES ====================
+  async getInvoicePayments(invoiceIds: string[]): Promise<InvoicePayment[]> {
+    if (invoiceIds.length === 0) return [];
+    return await db.select().from(invoicePayments)
+      .where(inArray(invoicePayments.invoiceId, invoiceIds))
+      .orderBy(invoicePayments.paidAt);
+  }
+
+  async getInvoicePayment(id: string): Promise<InvoicePayment | undefined> {
+    const [row] = await db.select().from(invoicePayments).where(eq(invoicePayments.id, id));
+    return row || undefined;
+  }
+
+  async recordInvoicePayment(payment: InsertInvoicePayment, opts: { allowOverpayment?: boolean } = {}): Promise<InvoicePayment | null> {
+    return await db.transaction(async (tx) => {
+      const locked = await tx.execute(sql`SELECT amount, status FROM invoices WHERE id = ${payment.invoiceId} FOR UPDATE`);
+      const invoice = locked.rows[0] as any;
+      if (!invoice) throw new Error('INVOICE_NOT_FOUND');
+
+      if (!opts.allowOverpayment) {
+        const [payments, notes] = await Promise.all([
+          tx.select().from(invoicePayments).where(eq(invoicePayments.invoiceId, payment.invoiceId)),
+          tx.select().from(creditNotes).where(eq(creditNotes.invoiceId, payment.invoiceId)),
+        ]);
+        const balance = invoiceBalance(
+          { amount: parseFloat(invoice.amount), status: invoice.status },
+          payments.map((p) => ({ amount: parseFloat(p.amount), refundedAmount: parseFloat(p.refundedAmount) })),
+          notes.map((n) => ({ kind: n.kind, amount: parseFloat(n.amount), status: n.status })),
+        );
+        if (parseFloat(payment.amount) > balance.amountDue + 0.01) {
+          throw Object.assign(new Error('PAYMENT_EXCEEDS_BALANCE'), { balance });
+        }
+      }
+
+      const [row] = await tx.insert(invoicePayments).values(payment)
+        .onConflictDoNothing({ target: [invoicePayments.invoiceId, invoicePayments.reference] })
+        .returning();
+      return row ?? null;
+    });
+  }
+
+  async getCreditNotes(invoiceIds: string[]): Promise<CreditNote[]> {
+    if (invoiceIds.length === 0) return [];
+    return await db.select().from(creditNotes)
+      .where(inArray(creditNotes.invoiceId, invoiceIds))
+      .orderBy(creditNotes.createdAt);
+  }
+
+  async getCreditNote(id: string): Promise<CreditNote | undefined> {
+    const [row] = await db.select().from(creditNotes).where(eq(creditNotes.id, id));
+    return row || undefined;
+  }
+
+  async createCreditNote(note: Omit<InsertCreditNote, 'creditNoteNumber' | 'status'>): Promise<CreditNote> {
+    return await db.transaction(async (tx) => {
+      const locked = await tx.execute(sql`SELECT amount, status FROM invoices WHERE id = ${note.invoiceId} FOR UPDATE`);
+      const invoice = locked.rows[0] as any;
+      if (!invoice) throw new Error('INVOICE_NOT_FOUND');
+
+      const [payments, notes] = await Promise.all([
+        tx.select().from(invoicePayments).where(eq(invoicePayments.invoiceId, note.invoiceId)),
+        tx.select().from(creditNotes).where(eq(creditNotes.invoiceId, note.invoiceId)),
+      ]);
+      const toRef = (p: InvoicePayment) => ({ amount: parseFloat(p.amount), refundedAmount: parseFloat(p.refundedAmount) });
+      const balance = invoiceBalance(
+        { amount: parseFloat(invoice.amount), status: invoice.status },
+        payments.map(toRef),
+        notes.map((n) => ({ kind: n.kind, amount: parseFloat(n.amount), status: n.status })),
+      );
+      const payment = note.paymentId ? payments.find((p) => p.id === note.paymentId) : undefined;
+      const problem = creditNoteProblem(note.kind, parseFloat(note.amount), balance, payment && toRef(payment));
+      if (problem) {
+        throw Object.assign(new Error('CREDIT_NOTE_INVALID'), { details: problem });
+      }
+
+      if (payment) {
+        await tx.update(invoicePayments)
+          .set({ refundedAmount: sql`${invoicePayments.refundedAmount} + ${note.amount}` })
+          .where(eq(invoicePayments.id, payment.id));
+      }
+
+      // Numbering is per company; the invoice lock alone does not
+      // serialise two invoices of the same company.
+      if (note.companyId) {
+        await tx.execute(sql`SELECT id FROM companies WHERE id = ${note.companyId} FOR UPDATE`);
+      }
+      const prefix = `CN-${new Date().getFullYear()}-`;
+      const [last] = await tx.select({ creditNoteNumber: creditNotes.creditNoteNumber })
+        .from(creditNotes)
+        .where(and(
+          note.companyId ? eq(creditNotes.companyId, note.companyId) : sql`${creditNotes.companyId} IS NULL`,
+          sql`${creditNotes.creditNoteNumber} LIKE ${prefix + '%'}`,
+        ))
+        .orderBy(desc(creditNotes.creditNoteNumber))
+        .limit(1);
+      const seq = last ? parseInt(last.creditNoteNumber.replace(prefix, ''), 10) + 1 : 1;
+
+      const [row] = await tx.insert(creditNotes).values({
+        ...note,
+        creditNoteNumber: `${prefix}${String(seq).padStart(4, '0')}`,
+        status: note.kind === 'refund' ? 'refund_pending' : 'issued',
+      }).returning();
+      return row;
+    });
+  }
+
+  async settleCreditNoteRefund(
+    id: string,
+    outcome: { status: 'refunded'; refundReference: string | null } | { status: 'refund_failed'; refundError: string },
+  ): Promise<CreditNote | undefined> {
+    return await db.transaction(async (tx) => {
+      const [row] = await tx.update(creditNotes)
+        .set({ ...outcome, updatedAt: new Date().toISOString() })
+        .where(and(eq(creditNotes.id, id), eq(creditNotes.status, 'refund_pending')))
+        .returning();
+      if (!row) return undefined;
+      if (outcome.status === 'refund_failed' && row.paymentId) {
+        await tx.update(invoicePayments)
+          .set({ refundedAmount: sql`GREATEST(0, ${invoicePayments.refundedAmount} - ${row.amount})` })
+          .where(eq(invoicePayments.id, row.paymentId));
+      }
+      return row;
+    });
+  }
+
+  // ==================== INVOICE DUNNING ====================
+  async getDunningSchedule(companyId: string): Promise<DunningSchedule | undefined> {
+    const [row] = await db.select().from(dunningSchedules).where(eq(dunningSchedules.companyId, companyId));
+    return row || undefined;
+  }
+
+  async getEnabledDunningSchedules(): Promise<DunningSchedule[]> {
+    return await db.select().from(dunningSchedules).where(eq(dunningSchedules.enabled, true));
+  }
+
+  async upsertDunningSchedule(schedule: Omit<InsertDunningSchedule, 'createdAt' | 'updatedAt'>): Promise<DunningSchedule> {
+    const now = new Date().toISOString();
+    const [row] = await db.insert(dunningSchedules)
+      .values({ ...schedule, createdAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: dunningSchedules.companyId,
+        set: { enabled: schedule.enabled, steps: schedule.steps, updatedBy: schedule.updatedBy, updatedAt: now },
+      })
+      .returning();
+    return row;
+  }
+
+  async getInvoiceReminders(invoiceId: string): Promise<InvoiceReminder[]> {
+    return await db.select().from(invoiceReminders)
+      .where(eq(invoiceReminders.invoiceId, invoiceId))
+      .orderBy(invoiceReminders.createdAt);
+  }
+
+  async claimInvoiceReminder(reminder: InsertInvoiceReminder): Promise<InvoiceReminder | null> {
+    const [row] = await db.insert(invoiceReminders).values(reminder)
+      .onConflictDoNothing({ target: [invoiceReminders.invoiceId, invoiceReminders.offsetDays] })
+      .returning();
+    return row ?? null;
+  }
+
+  async updateInvoiceReminder(id: string, patch: Partial<Pick<InvoiceReminder, 'status' | 'error' | 'sentAt' | 'lateFee' | 'amountDue'>>): Promise<InvoiceReminder | undefined> {
+    const [row] = await db.update(invoiceReminders).set(patch).where(eq(invoiceReminders.id, id)).returning();
+    return row || undefined;
+  }
+
+  async addInvoiceLateFee(invoiceId: string, fee: number, description: string): Promise<Invoice | undefined> {
+    return await db.transaction(async (tx) => {
+      const locked = await tx.execute(sql`SELECT id FROM invoices WHERE id = ${invoiceId} FOR UPDATE`);
+      if (!locked.rows[0]) return undefined;
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId));
+      const items = [...(invoice.items || []), { description, quantity: 1, rate: fee, price: fee, amount: fee }];
+      const [row] = await tx.update(invoices)
+        .set({
+          amount: (parseFloat(invoice.amount) + fee).toFixed(2),
+          // Untaxed, so subtotal + tax still adds up to the amount
+          ...(invoice.subtotal != null ? { subtotal: (parseFloat(invoice.subtotal) + fee).toFixed(2) } : {}),
+          items,
+        })
+        .where(eq(invoices.id, invoiceId))
+        .returning();
+      return row;
+    });
+  }
+
+  // ==================== OUTBOUND WEBHOOKS ====================
+  async getWebhookEndpoints(companyId: string): Promise<WebhookEndpoint[]> {
+    return await db.select().from(webhookEndpoints)
+      .where(eq(webhookEndpoints.companyId, companyId))
+      .orderBy(webhookEndpoints.createdAt);
+  }
+
+  async getWebhookEndpoint(id: string, companyId: string): Promise<WebhookEndpoint | undefined> {
+    const [row] = await db.select().from(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.companyId, companyId)));
+    return row;
+  }
+
+  async createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint> {
+    const [row] = await db.insert(webhookEndpoints).values(endpoint as any).returning();
+    return row;
+  }
+
+  async updateWebhookEndpoint(id: string, companyId: string, data: Partial<Omit<WebhookEndpoint, 'id' | 'companyId'>>): Promise<WebhookEndpoint | undefined> {
+    const [row] = await db.update(webhookEndpoints)
+      .set({ ...data, updatedAt: new Date().toISOString() } as any)
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.companyId, companyId)))
+      .returning();
+    return row;
+  }
+
+  async deleteWebhookEndpoint(id: string, companyId: string): Promise<boolean> {
+    const rows = await db.delete(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.companyId, companyId)))
+      .returning();
+    return rows.length > 0;
+  }
+
+  async createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) return [];
+    return await db.insert(webhookDeliveries).values(deliveries as any).returning();
+  }
+
+  async getWebhookDelivery(id: string, companyId: string): Promise<WebhookDelivery | undefined> {
+    const [row] = await db.select().from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.companyId, companyId)));
+    return row;
+  }
+
+  async getWebhookDeliveries(companyId: string, filters?: { endpointId?: string; status?: string; limit?: number }): Promise<WebhookDelivery[]> {
+    const conditions = [eq(webhookDeliveries.companyId, companyId)];
+    if (filters?.endpointId) conditions.push(eq(webhookDeliveries.endpointId, filters.endpointId));
+    if (filters?.status) conditions.push(eq(webhookDeliveries.status, filters.status));
+    return await db.select().from(webhookDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(filters?.limit ?? 100);
+  }
+
+  async getDueWebhookDeliveries(now: string, limit: number): Promise<WebhookDelivery[]> {
+    return await db.select().from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, 'pending'), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(webhookDeliveries.nextAttemptAt)
+      .limit(limit);
+  }
+
+  async claimWebhookDelivery(id: string, now: string, leaseUntil: string): Promise<WebhookDelivery | undefined> {
+    const [row] = await db.update(webhookDeliveries)
+      .set({ nextAttemptAt: leaseUntil })
+      .where(and(
+        eq(webhookDeliveries.id, id),
+        eq(webhookDeliveries.status, 'pending'),
+        lte(webhookDeliveries.nextAttemptAt, now),
+      ))
+      .returning();
+    return row;
+  }
+
+  async updateWebhookDelivery(id: string, data: Partial<Omit<WebhookDelivery, 'id'>>): Promise<WebhookDelivery | undefined> {
+    const [row] = await db.update(webhookDeliveries).set(data).where(eq(webhookDeliveries.id, id)).returning();
+    return row;
+  }
+
+  // ==================== API KEYS ====================
+  async getApiKeys(companyId: string): Promise<ApiKey[]> {
+    return await db.select().from(apiKeys)
+      .where(eq(apiKeys.companyId, companyId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async getApiKey(id: string, companyId: string): Promise<ApiKey | undefined> {
+    const [row] = await db.select().from(apiKeys)
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.companyId, companyId)));
+    return row;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [row] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return row;
+  }
+
+  async createApiKey(key: InsertApiKey): Promise<ApiKey> {
+    const [row] = await db.insert(apiKeys).values(key as any).returning();
+    return row;
+  }
+
+  async revokeApiKey(id: string, companyId: string, revokedBy: string): Promise<ApiKey | undefined> {
+    const [row] = await db.update(apiKeys)
+      .set({ revokedAt: new Date().toISOString(), revokedBy })
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.companyId, companyId), isNull(apiKeys.revokedAt)))
+      .returning();
+    return row;
+  }
+
+  async recordApiKeyUse(id: string, at: string, ip: string | null): Promise<void> {
+    await db.update(apiKeys).set({ lastUsedAt: at, lastUsedIp: ip }).where(eq(apiKeys.id, id));
+  }
+
+  // ==================== CARD PROGRAMS ====================
+  async getCardSpendPolicies(companyId: string): Promise<CardSpendPolicy[]> {
+    return await db.select().from(cardSpendPolicies)
+      .where(eq(cardSpendPolicies.companyId, companyId))
+      .orderBy(cardSpendPolicies.name);
+  }
+
+  async getCardSpendPolicy(id: string, companyId: string): Promise<CardSpendPolicy | undefined> {
+    const [row] = await db.select().from(cardSpendPolicies)
+      .where(and(eq(cardSpendPolicies.id, id), eq(cardSpendPolicies.companyId, companyId)));
+    return row;
+  }
+
+  async createCardSpendPolicy(policy: InsertCardSpendPolicy): Promise<CardSpendPolicy> {
+    const [row] = await db.insert(cardSpendPolicies).values(policy as any).returning();
+    return row;
+  }
+
+  async updateCardSpendPolicy(id: string, companyId: string, data: Partial<InsertCardSpendPolicy>): Promise<CardSpendPolicy | undefined> {
+    const [row] = await db.update(cardSpendPolicies)
+      .set({ ...data, updatedAt: new Date().toISOString() } as any)
+      .where(and(eq(cardSpendPolicies.id, id), eq(cardSpendPolicies.companyId, companyId)))
+      .returning();
+    return row;
+  }
+
+  async deleteCardSpendPolicy(id: string, companyId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.update(virtualCards).set({ spendPolicyId: null })
+        .where(and(eq(virtualCards.spendPolicyId, id), eq(virtualCards.companyId, companyId)));
+      const deleted = await tx.delete(cardSpendPolicies)
+        .where(and(eq(cardSpendPolicies.id, id), eq(cardSpendPolicies.companyId, companyId)))
+        .returning();
+      return deleted.length > 0;
+    });
+  }
+
+  async getCompanyMemberById(id: string): Promise<CompanyMember | undefined> {
+    const [row] = await db.select().from(companyMembers).where(eq(companyMembers.id, id));
+    return row;
+  }
+
+  async getMemberCardSpend(companyId: string, from: string, to: string): Promise<MemberCardSpend[]> {
+    const result = await db.execute(sql`
+      SELECT cm.id AS member_id, cm.name, cm.email, ct.currency,
+        COUNT(DISTINCT vc.id)::int AS card_count,
+        COUNT(ct.id)::int AS transaction_count,
+        COALESCE(SUM(ct.amount), 0)::text AS total
+      FROM card_transactions ct
+      JOIN virtual_cards vc ON vc.id = ct.card_id
+      JOIN company_members cm ON cm.id = vc.member_id
+      WHERE vc.company_id = ${companyId}
+        AND left(ct.date, 10) >= ${from} AND left(ct.date, 10) < ${to}
+      GROUP BY cm.id, cm.name, cm.email, ct.currency
+      ORDER BY SUM(ct.amount) DESC
+    `);
+    return (result.rows as any[]).map((r) => ({
+      memberId: r.member_id,
+      name: r.name ?? null,
+      email: r.email,
+      currency: r.currency,
+      cardCount: r.card_count,
+      transactionCount: r.transaction_count,
+      total: parseFloat(r.total),
+    }));
+  }
+
+  async createCardExpense(expense: CreateExpense): Promise<Expense | undefined> {
+    const [row] = await db.insert(expenses).values(expense as any)
+      .onConflictDoNothing({ target: expenses.cardTransactionId })
+      .returning();
+    return row;
+  }
+
   // ==================== SCHEDULED PAYMENTS ====================
   async getScheduledPayments(filters?: { status?: string; type?: string; companyId?: string }): Promise<ScheduledPayment[]> {
     const conditions: any[] = [];
@@ -1,5 +1,9 @@
 import Stripe from 'stripe';
 
+// Pinned API version. Also sent back on synchronous webhook responses
+// (issuing_authorization.request) so Stripe parses the body correctly.
+export const STRIPE_API_VERSION = '2024-12-18.acacia';
+
 let stripeClient: Stripe | null = null;
 let publishableKey: string | null = null;
 
@@ -18,7 +22,7 @@ export function getStripeClient(): Stripe {
   if (!stripeClient) {
     const { secretKey } = getStripeConfig();
     stripeClient = new Stripe(secretKey, {
-      apiVersion: '2024-12-18.acacia' as any,
+      apiVersion: STRIPE_API_VERSION as any,
       maxNetworkRetries: 2,
       timeout: 30000,
     });
@@ -0,0 +1,305 @@
+import { storage } from "./storage";
+import { paymentService } from "./paymentService";
+import { logger as baseLogger } from "./lib/logger";
+import {
+  alertHoldsPayment,
+  effectiveRules,
+  evaluateMonitoringEvent,
+  loginIpIsNew,
+  type MonitoredEvent,
+  type MonitoringContext,
+  type MonitoringEventKind,
+  type MonitoringFinding,
+  type MonitoringRuleConfig,
+  type MonitoringRuleKey,
+} from "./lib/transaction-monitoring";
+import type { CardAuthorization, MonitoringAlert, MonitoringEvent, Payout, PayoutDestination } from "@shared/schema";
+
+// Transaction monitoring: recording logins, payouts, wallet transfers,
+// card authorizations and payout destination changes, running the
+// company's fraud rules over each new one, and acting on what they find.
+// The rules live in server/lib/transaction-monitoring.ts.
+//
+// Payouts and transfers are checked before any money moves, like the
+// sanctions hold, and a rule set to hold them keeps them back until an
+// admin dismisses the alert. Card authorizations are checked after Stripe
+// has its answer, so a freeze applies from the next purchase on.
+
+const logger = baseLogger.child({ module: "transaction-monitoring" });
+
+const HOUR = 3_600_000;
+
+async function companyRules(companyId: string): Promise<MonitoringRuleConfig[]> {
+  return effectiveRules(await storage.getMonitoringRules(companyId));
+}
+
+function rule(rules: MonitoringRuleConfig[], key: MonitoringRuleKey): MonitoringRuleConfig {
+  return rules.find((r) => r.key === key)!;
+}
+
+function asMonitored(row: MonitoringEvent): MonitoredEvent {
+  return {
+    id: row.id,
+    kind: row.kind as MonitoringEventKind,
+    userId: row.userId,
+    subjectId: row.subjectId,
+    amount: row.amount === null ? null : parseFloat(row.amount),
+    currency: row.currency,
+    ip: row.ip,
+    country: row.country,
+    data: row.data ?? {},
+    occurredAt: row.occurredAt,
+  };
+}
+
+async function contextFor(
+  companyId: string,
+  rules: MonitoringRuleConfig[],
+  history: MonitoringEvent[],
+  extra: Partial<MonitoringContext> = {},
+): Promise<MonitoringContext> {
+  const settings = await storage.getCompanyAsSettings(companyId);
+  return {
+    rules,
+    history: history.map(asMonitored),
+    dualApprovalThreshold: parseFloat((settings as any)?.dualApprovalThreshold?.toString() || '5000'),
+    homeCountry: null,
+    knownCountries: [],
+    ...extra,
+  };
+}
+
+async function freezeCard(cardId: string): Promise<boolean> {
+  const card = await storage.getCard(cardId);
+  if (!card || card.status !== 'active') return false;
+  if (card.stripeCardId) {
+    await paymentService.updateCardStatus(card.stripeCardId, 'inactive');
+  }
+  await storage.updateCard(card.id, { status: 'frozen' });
+  return true;
+}
+
+/**
+ * Records each finding as an alert, or finds the one already raised for
+ * it, and carries out the rule's action on a new alert.
+ */
+async function raiseAlerts(companyId: string, findings: MonitoringFinding[]): Promise<MonitoringAlert[]> {
+  const alerts: MonitoringAlert[] = [];
+  for (const finding of findings) {
+    const holds = finding.action === 'hold_payout' && finding.subjectType !== 'card';
+    const { alert, created } = await storage.createMonitoringAlert({
+      companyId,
+      ruleKey: finding.ruleKey,
+      severity: finding.severity,
+      action: finding.action,
+      dedupeKey: finding.dedupeKey,
+      subjectType: finding.subjectType,
+      subjectId: finding.subjectId,
+      summary: finding.summary,
+      details: finding.details,
+      actionTaken: holds ? 'payout_held' : null,
+      status: 'open',
+      createdAt: new Date().toISOString(),
+    });
+    if (created) {
+      logger.warn({
+        companyId,
+        alertId: alert.id,
+        ruleKey: alert.ruleKey,
+        severity: alert.severity,
+        subjectType: alert.subjectType,
+        subjectId: alert.subjectId,
+      }, "Transaction monitoring alert");
+      if (finding.action === 'freeze_card' && finding.subjectType === 'card' && await freezeCard(finding.subjectId)) {
+        alerts.push(await storage.updateMonitoringAlert(alert.id, { actionTaken: 'card_frozen' }) ?? alert);
+        continue;
+      }
+    }
+    alerts.push(alert);
+  }
+  return alerts;
+}
+
+/**
+ * Runs the rules over a payout or transfer and returns the alert that
+ * holds it, or null if it can go ahead.
+ */
+async function checkMoneyOut(companyId: string, event: MonitoringEvent, rules: MonitoringRuleConfig[]): Promise<MonitoringAlert | null> {
+  const lookbackHours = Math.max(
+    rule(rules, 'new_destination_velocity').params.windowHours,
+    rule(rules, 'threshold_splitting').params.windowHours,
+    rule(rules, 'destination_changed_then_paid').params.withinHours,
+    rule(rules, 'new_ip_then_transfer').params.windowHours,
+  );
+  const since = new Date(new Date(event.occurredAt).getTime() - lookbackHours * HOUR).toISOString();
+  const destinationId = typeof event.data.destinationId === 'string' ? event.data.destinationId : null;
+  const history = [
+    ...await storage.getMonitoringEvents(companyId, { kinds: ['payout', 'transfer'], since }),
+    ...(destinationId ? await storage.getMonitoringEvents(companyId, { kinds: ['destination_changed'], since, subjectId: destinationId }) : []),
+    ...(event.userId ? await storage.getMonitoringEvents(companyId, { kinds: ['login'], since, userId: event.userId }) : []),
+  ].filter((e) => e.id !== event.id);
+
+  const findings = evaluateMonitoringEvent(asMonitored(event), await contextFor(companyId, rules, history));
+  const alerts = await raiseAlerts(companyId, findings);
+  return alerts.find(alertHoldsPayment) ?? null;
+}
+
+/**
+ * The alert holding this payout, or null if it can be paid. The payout is
+ * recorded the first time it is checked; a retry is checked as of then.
+ * `actorId` is the user sending it, when a person is.
+ */
+export async function monitoringHold(
+  payout: Payout,
+  destination: PayoutDestination | null | undefined,
+  actorId?: string | null,
+): Promise<MonitoringAlert | null> {
+  if (!payout.companyId) return null;
+  const companyId = payout.companyId;
+  const rules = await companyRules(companyId);
+  const [recorded] = await storage.getMonitoringEvents(companyId, { kinds: ['payout'], subjectId: payout.id });
+  const event = recorded ?? await storage.createMonitoringEvent({
+    companyId,
+    kind: 'payout',
+    userId: actorId ?? payout.initiatedBy ?? null,
+    subjectId: payout.id,
+    amount: payout.amount,
+    currency: payout.currency,
+    data: {
+      recipientId: payout.recipientId,
+      recipientName: payout.recipientName,
+      destinationId: destination?.id ?? payout.destinationId,
+      destinationCreatedAt: destination?.createdAt ?? null,
+    },
+    occurredAt: new Date().toISOString(),
+  });
+  return checkMoneyOut(companyId, event, rules);
+}
+
+/**
+ * The alert holding a wallet transfer to a bank account, or null if it
+ * can go ahead. Transfers have no id until they are sent, so each attempt
+ * is its own event; the account is identified the same way as for
+ * sanctions screening. An account counts as added when it was first
+ * transferred to, for the new-account rule.
+ */
+export async function transferMonitoringHold(
+  companyId: string | null | undefined,
+  transfer: {
+    userId: string | null | undefined;
+    amount: number;
+    currency: string;
+    recipient: { accountNumber?: string | null; bankCode?: string | null; accountName?: string | null };
+  },
+): Promise<MonitoringAlert | null> {
+  if (!companyId) return null;
+  const rules = await companyRules(companyId);
+  const account = `${transfer.recipient.bankCode ?? ''}:${transfer.recipient.accountNumber ?? ''}`;
+  const occurredAt = new Date().toISOString();
+  // Newest first, so the last is the first transfer to the account.
+  const earlier = await storage.getMonitoringEvents(companyId, { kinds: ['transfer'], subjectId: account });
+  const event = await storage.createMonitoringEvent({
+    companyId,
+    kind: 'transfer',
+    userId: transfer.userId ?? null,
+    subjectId: account,
+    amount: String(transfer.amount),
+    currency: transfer.currency,
+    data: {
+      recipientId: account,
+      recipientName: transfer.recipient.accountName ?? null,
+      destinationCreatedAt: earlier[earlier.length - 1]?.occurredAt ?? occurredAt,
+    },
+    occurredAt,
+  });
+  return checkMoneyOut(companyId, event, rules);
+}
+
+export function monitoringHoldBody(alert: MonitoringAlert) {
+  return {
+    error: alert.status === 'confirmed'
+      ? `Blocked: an admin confirmed a fraud alert on this payment (${alert.summary})`
+      : `On hold until an admin reviews a fraud alert: ${alert.summary}`,
+    code: 'MONITORING_HOLD',
+    alertId: alert.id,
+  };
+}
+
+function inBackground(what: string, companyId: string, work: () => Promise<unknown>): void {
+  work().catch((err) => {
+    logger.error({ err, companyId }, `Transaction monitoring failed: ${what}`);
+  });
+}
+
+/**
+ * Records a sign-in and whether its IP address is new for the user, which
+ * the new_ip_then_transfer rule looks back on.
+ */
+export function recordLogin(companyId: string | null | undefined, userId: string, ip: string | null | undefined): void {
+  if (!companyId) return;
+  inBackground('login', companyId, async () => {
+    const { lookbackDays } = rule(await companyRules(companyId), 'new_ip_then_transfer').params;
+    const occurredAt = new Date().toISOString();
+    const since = new Date(Date.now() - lookbackDays * 24 * HOUR).toISOString();
+    const earlier = await storage.getMonitoringEvents(companyId, { kinds: ['login'], since, userId });
+    const address = ip || null;
+    await storage.createMonitoringEvent({
+      companyId,
+      kind: 'login',
+      userId,
+      ip: address,
+      data: { newIp: loginIpIsNew({ ip: address, occurredAt }, earlier, lookbackDays) },
+      occurredAt,
+    });
+  });
+}
+
+/** Records a change to a payout destination's bank details. */
+export function recordDestinationChange(
+  companyId: string | null | undefined,
+  destination: PayoutDestination,
+  userId: string | null | undefined,
+  fields: string[],
+): void {
+  if (!companyId) return;
+  inBackground('destination change', companyId, () => storage.createMonitoringEvent({
+    companyId,
+    kind: 'destination_changed',
+    userId: userId ?? null,
+    subjectId: destination.id,
+    data: { fields },
+    occurredAt: new Date().toISOString(),
+  }));
+}
+
+/**
+ * Records a card authorization and runs the card rules over it, freezing
+ * the card if a rule set to do so fires.
+ */
+export function monitorCardAuthorization(authorization: CardAuthorization, merchantCountry: string | null): void {
+  const { companyId, cardId } = authorization;
+  if (!companyId || !cardId) return;
+  inBackground('card authorization', companyId, async () => {
+    const rules = await companyRules(companyId);
+    const { lookbackDays } = rule(rules, 'unusual_card_country').params;
+    const since = new Date(Date.now() - lookbackDays * 24 * HOUR).toISOString();
+    const knownCountries = await storage.getMonitoringEventCountries(companyId, 'card_authorization', since);
+    const company = await storage.getCompany(companyId);
+    const event = await storage.createMonitoringEvent({
+      companyId,
+      kind: 'card_authorization',
+      subjectId: cardId,
+      amount: authorization.amount,
+      currency: authorization.currency,
+      country: merchantCountry,
+      data: {
+        authorizationId: authorization.stripeAuthorizationId,
+        merchantName: authorization.merchantName,
+        approved: authorization.approved,
+      },
+      occurredAt: new Date().toISOString(),
+    });
+    const context = await contextFor(companyId, rules, [], { homeCountry: company?.country ?? null, knownCountries });
+    await raiseAlerts(companyId, evaluateMonitoringEvent(asMonitored(event), context));
+  });
+}
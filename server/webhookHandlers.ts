@@ -1,10 +1,16 @@
 import type { Express, Request, Response } from 'express';
 import express from 'express';
 import Stripe from 'stripe';
-import { getStripeClient } from './stripeClient';
+import { getStripeClient, STRIPE_API_VERSION } from './stripeClient';
 import { storage } from './storage';
+import { refreshInvoiceStatus } from './invoiceBalances';
 import { paymentLogger } from './utils/paymentUtils';
 import { resolveCompanyForWebhook } from './lib/webhook-company-resolver';
+import { fromMinor } from './lib/reconciliation';
+import { emitWebhookEvent } from './outboundWebhooks';
+import { raiseCardExpense } from './cardPrograms';
+import { retireUsedUpCard } from './cardKinds';
+import { monitorCardAuthorization } from './transactionMonitoring';
 
 // ==================== TYPES ====================
 
@@ -59,10 +65,8 @@ export class StripeWebhookHandler {
           break;
 
         // ---- Stripe Issuing Events ----
-        case 'issuing_authorization.request':
-          await this.handleIssuingAuthorizationRequest(event, timestamp);
-          break;
-
+        // issuing_authorization.request is answered synchronously by
+        // registerStripeWebhooks via decideIssuingAuthorization().
         case 'issuing_transaction.created':
           await this.handleIssuingTransactionCreated(event, timestamp);
           break;
@@ -187,18 +191,24 @@ export class StripeWebhookHandler {
       } else {
         // Fallback: credit company balance directly
         const balances = await storage.getBalances(companyId || undefined);
-        const balanceField = currency.toLowerCase() === 'usd' ? 'usd'
-          : currency.toLowerCase() === 'ngn' ? 'ngn'
-          : currency.toLowerCase() === 'eur' ? 'eur'
-          : currency.toLowerCase() === 'gbp' ? 'gbp'
-          : 'usd';
-        const currentAmount = parseFloat(String((balances as any)[balanceField] || 0));
-        await storage.updateBalances(
-          { [balanceField]: String(currentAmount + amount) } as any,
-          companyId || undefined
-        );
-
-        paymentLogger.info('company_balance_credited', { amount, currency, companyId });
+        const balanceField = this.companyBalanceField(balances, currency);
+        if (!balanceField) {
+          console.error('STRIPE WEBHOOK ERROR: No company balance holds this currency', { reference, currency, companyId });
+        } else {
+          await storage.atomicCompanyBalanceMovement({
+            companyId: companyId || undefined,
+            field: balanceField,
+            direction: 'credit',
+            amount,
+            currency,
+            counterAccount: 'funding_clearing',
+            description: `Card payment via Stripe - ${reference}`,
+            sourceType: 'stripe_payment',
+            sourceId: paymentIntent.id,
+            reference,
+          });
+          paymentLogger.info('company_balance_credited', { amount, currency, companyId });
+        }
       }
 
       // Create a transaction record
@@ -302,7 +312,7 @@ export class StripeWebhookHandler {
 
   /**
    * Handle checkout.session.completed
-   * Marks invoice as paid when Stripe Checkout Session completes.
+   * Records the invoice payment when a Stripe Checkout Session completes.
    */
   private static async handleCheckoutSessionCompleted(
     event: Stripe.Event,
@@ -341,10 +351,24 @@ export class StripeWebhookHandler {
         paymentIntentId,
       });
 
-      // Mark invoice as paid
-      await storage.updateInvoice(invoiceId, {
-        status: 'paid',
-      } as any);
+      // Record the payment against the invoice; its status follows from the
+      // balance, so a partial payment or an outstanding credit note is kept.
+      // The payment intent id is what a later credit-note refund goes through.
+      const invoice = await storage.getInvoice(invoiceId);
+      if (invoice) {
+        await storage.recordInvoicePayment({
+          invoiceId,
+          companyId: invoice.companyId,
+          amount: amount.toFixed(2),
+          currency,
+          method: 'stripe',
+          reference: paymentIntentId,
+          providerReference: paymentIntentId,
+          recordedBy: 'stripe_webhook',
+          metadata: { eventId, checkoutSessionId: session.id },
+        }, { allowOverpayment: true });
+        await refreshInvoiceStatus(invoice);
+      }
 
       // LU-DD-2: resolve companyId from the index, fall back to metadata
       const checkoutCompanyResolution = await resolveCompanyForWebhook('stripe', paymentIntentId, metadata.companyId);
@@ -361,7 +385,9 @@ export class StripeWebhookHandler {
             'invoice_payment',
             `Invoice ${metadata.invoiceNumber} paid via Stripe`,
             paymentIntentId,
-            { invoiceId, invoiceNumber: metadata.invoiceNumber }
+            // provider + paymentIntentId let the daily reconciliation
+            // (LU-014) pair this credit with its Stripe charge.
+            { invoiceId, invoiceNumber: metadata.invoiceNumber, provider: 'stripe', paymentIntentId }
           );
         }
       }
@@ -415,8 +441,14 @@ export class StripeWebhookHandler {
     const paymentIntentId = typeof charge.payment_intent === 'string'
       ? charge.payment_intent
       : (charge.payment_intent as any)?.id || null;
-    const refundedAmount = (charge.amount_refunded || 0) / 100;
+    // amount_refunded is the running total; this event is for what it
+    // went up by, which a partial refund after an earlier one is only part of.
+    const previouslyRefunded = (event.data.previous_attributes as any)?.amount_refunded ?? 0;
+    const refundedAmount = fromMinor((charge.amount_refunded || 0) - previouslyRefunded, charge.currency);
     const currency = charge.currency.toUpperCase();
+    // The newest refund on the charge when the event carries them, or else
+    // the total it brought the charge to, which no other refund shares.
+    const refundKey = charge.refunds?.data?.[0]?.id ?? `${chargeId}_${charge.amount_refunded}`;
     const metadata = charge.metadata || {};
 
     try {
@@ -426,7 +458,11 @@ export class StripeWebhookHandler {
         return;
       }
 
-      paymentLogger.info('charge_refunded', { chargeId, paymentIntentId, refundedAmount, currency });
+      paymentLogger.info('charge_refunded', { chargeId, paymentIntentId, refundedAmount, currency, refundKey });
+      if (refundedAmount <= 0) {
+        await storage.markWebhookProcessed(eventId, 'stripe', 'charge.refunded', { chargeId, refundedAmount, currency });
+        return;
+      }
 
       // Try to find original transaction by payment intent ID or charge ID
       let originalTransaction = paymentIntentId
@@ -446,7 +482,7 @@ export class StripeWebhookHandler {
       const refundCompanyId = refundCompanyResolution.companyId || originalTransaction?.companyId || null;
 
       // Create a refund transaction record
-      const refundReference = `refund_${chargeId}`;
+      const refundReference = `refund_${refundKey}`;
       await storage.createTransaction({
         type: 'refund',
         amount: String(refundedAmount),
@@ -511,16 +547,22 @@ export class StripeWebhookHandler {
         try {
           const companyId = refundCompanyId || undefined;
           const balances = await storage.getBalances(companyId);
-          const balanceField = currency.toLowerCase() === 'usd' ? 'usd'
-            : currency.toLowerCase() === 'ngn' ? 'ngn'
-            : currency.toLowerCase() === 'eur' ? 'eur'
-            : currency.toLowerCase() === 'gbp' ? 'gbp'
-            : 'usd';
-          const currentAmount = parseFloat(String((balances as any)[balanceField] || 0));
-          await storage.updateBalances(
-            { [balanceField]: String(Math.max(0, currentAmount - refundedAmount)) } as any,
-            companyId
-          );
+          const balanceField = this.companyBalanceField(balances, currency);
+          if (!balanceField) {
+            throw new Error(`No company balance holds ${currency}`);
+          }
+          await storage.atomicCompanyBalanceMovement({
+            companyId,
+            field: balanceField,
+            direction: 'debit',
+            amount: refundedAmount,
+            currency,
+            counterAccount: 'funding_clearing',
+            description: `Refund for charge ${chargeId}`,
+            sourceType: 'stripe_refund',
+            sourceId: chargeId,
+            reference: refundReference,
+          });
           paymentLogger.info('company_balance_debited_for_refund', { amount: refundedAmount, currency, companyId });
         } catch (balanceError) {
           console.error('STRIPE WEBHOOK ERROR: Failed to debit company balance for refund', {
@@ -554,48 +596,69 @@ export class StripeWebhookHandler {
   // ==================== ISSUING HANDLERS ====================
 
   /**
-   * Handle issuing_authorization.request
-   * Logs the authorization request and checks card limits (informational).
-   * Stripe handles the actual approve/decline via issuing settings.
+   * Decide an issuing_authorization.request while Stripe waits.
+   * Checks card status, currency, merchant category controls, card
+   * balance, the card's spending limit, its spend policy, single-use and
+   * merchant locks, and the company budget for the mapped category, and
+   * stores the decision with its reason. Any failure declines — a spend
+   * control that cannot be evaluated must not let the purchase through.
    */
-  private static async handleIssuingAuthorizationRequest(
-    event: Stripe.Event,
-    timestamp: string
-  ): Promise<void> {
+  static async decideIssuingAuthorization(
+    event: Stripe.Event
+  ): Promise<{ approved: boolean; reasonCode: string; reason: string }> {
     const authorization = event.data.object as any;
     const eventId = event.id;
-    const cardId = authorization.card?.id;
-    const requestedAmount = (authorization.pending_request?.amount || 0) / 100;
-    const currency = authorization.pending_request?.currency || 'usd';
-    const merchantName = authorization.merchant_data?.name || 'Unknown';
-
-    paymentLogger.info('issuing_auth_request', { cardId, amount: requestedAmount, merchantName, currency });
-
-    // Find card in DB for limit checking (informational only)
-    const allCards = await storage.getCards();
-    const dbCard = allCards.find((c: any) => c.stripeCardId === cardId);
-
-    if (dbCard) {
-      const cardBalance = parseFloat(String(dbCard.balance || 0));
-      const cardLimit = parseFloat(String(dbCard.limit || 0));
-
-      paymentLogger.info('issuing_auth_check', {
-        cardId,
-        dbCardId: dbCard.id,
-        txAmount: requestedAmount,
-        cardBalance,
-        cardLimit,
-        approved: cardLimit === 0 || requestedAmount <= cardLimit,
+    const timestamp = new Date().toISOString();
+    const stripeCardId = authorization.card?.id ?? null;
+    const currency = String(authorization.pending_request?.currency || authorization.currency || 'usd').toUpperCase();
+    const requestedAmount = fromMinor(authorization.pending_request?.amount ?? authorization.amount ?? 0, currency);
+    const merchantName = authorization.merchant_data?.name || null;
+    const merchantCategory = authorization.merchant_data?.category || null;
+    const merchantCategoryCode = authorization.merchant_data?.category_code || null;
+    const merchantCountry = authorization.merchant_data?.country || null;
+    const merchantNetworkId = authorization.merchant_data?.network_id || null;
+
+    try {
+      const decision = await storage.atomicCardAuthorization({
+        stripeAuthorizationId: authorization.id,
+        stripeCardId,
+        amount: requestedAmount,
+        currency,
+        merchantName,
+        merchantCategory,
+        merchantCategoryCode,
+        merchantCountry,
+        merchantNetworkId,
       });
-    } else {
-      paymentLogger.warn('issuing_auth_card_not_found', { stripeCardId: cardId, merchantName });
-    }
 
-    // No idempotency marking needed for authorization requests (informational)
-    this.logEvent('issuing_authorization.request', eventId, 'Logged', timestamp, {
-      amount: requestedAmount,
-      currency: currency.toUpperCase(),
-    });
+      paymentLogger.info('issuing_auth_decision', {
+        authorizationId: authorization.id,
+        stripeCardId,
+        cardId: decision.cardId,
+        amount: requestedAmount,
+        currency,
+        merchantName,
+        merchantCategory,
+        approved: decision.approved,
+        reasonCode: decision.reasonCode,
+      });
+      monitorCardAuthorization(decision, merchantCountry);
+      this.logEvent('issuing_authorization.request', eventId, decision.approved ? 'Approved' : 'Declined', timestamp, {
+        amount: requestedAmount,
+        currency,
+        metadata: { reasonCode: decision.reasonCode },
+      });
+      return { approved: decision.approved, reasonCode: decision.reasonCode, reason: decision.reason };
+    } catch (error) {
+      console.error('STRIPE WEBHOOK ERROR: Failed to decide issuing_authorization.request', {
+        authorizationId: authorization.id,
+        stripeCardId,
+        eventId,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp,
+      });
+      return { approved: false, reasonCode: 'decision_error', reason: 'Authorization could not be evaluated' };
+    }
   }
 
   /**
@@ -635,9 +698,13 @@ export class StripeWebhookHandler {
         await storage.updateCard(dbCard.id, {
           balance: newBalance,
         } as any);
+        // The balance now reflects the purchase, so its authorization no longer holds any of it.
+        if (transaction.authorization && transaction.type !== 'refund') {
+          await storage.markCardAuthorizationCaptured(transaction.authorization);
+        }
 
         // Create card transaction record
-        await storage.createCardTransaction({
+        const cardTx = await storage.createCardTransaction({
           cardId: dbCard.id,
           companyId: dbCard.companyId || null,
           amount: String(amount),
@@ -648,6 +715,12 @@ export class StripeWebhookHandler {
           status: 'completed',
           date: new Date().toISOString(),
         });
+        emitWebhookEvent(cardTx.companyId, 'card.transaction.created', cardTx).catch(console.error);
+        // A refund gives money back; there is nothing for the cardholder to expense.
+        if (transaction.type !== 'refund') {
+          raiseCardExpense(dbCard, cardTx).catch(console.error);
+        }
+        retireUsedUpCard(dbCard, transaction.type).catch(console.error);
 
         paymentLogger.info('card_balance_updated', {
           cardId: dbCard.id,
@@ -897,11 +970,12 @@ export class StripeWebhookHandler {
       // Find payout by providerReference
       const payouts = await storage.getPayouts({ providerReference: payoutId });
       if (payouts.length > 0) {
-        await storage.updatePayout(payouts[0].id, {
+        const completed = await storage.updatePayout(payouts[0].id, {
           status: 'completed',
           processedAt: new Date().toISOString(),
         });
         paymentLogger.info('payout_status_updated', { dbPayoutId: payouts[0].id, status: 'completed' });
+        emitWebhookEvent(payouts[0].companyId, 'payout.completed', completed ?? payouts[0]).catch(console.error);
       } else {
         paymentLogger.warn('payout_not_found_in_db', { payoutId });
       }
@@ -952,11 +1026,12 @@ export class StripeWebhookHandler {
       // Find payout by providerReference
       const payouts = await storage.getPayouts({ providerReference: payoutId });
       if (payouts.length > 0) {
-        await storage.updatePayout(payouts[0].id, {
+        const failed = await storage.updatePayout(payouts[0].id, {
           status: 'failed',
           failureReason: `${failureCode}: ${failureMessage}`,
         });
         paymentLogger.info('payout_status_updated', { dbPayoutId: payouts[0].id, status: 'failed', failureCode });
+        emitWebhookEvent(payouts[0].companyId, 'payout.failed', failed ?? payouts[0]).catch(console.error);
       } else {
         paymentLogger.warn('payout_not_found_in_db', { payoutId });
       }
@@ -1178,6 +1253,18 @@ export class StripeWebhookHandler {
 
   // ==================== LOGGING ====================
 
+  /**
+   * The company balance column that holds `currency`, or null if neither does.
+   */
+  private static companyBalanceField(
+    balances: { localCurrency: string },
+    currency: string
+  ): 'usd' | 'local' | null {
+    const code = currency.toUpperCase();
+    if (code === 'USD') return 'usd';
+    return code === balances.localCurrency.toUpperCase() ? 'local' : null;
+  }
+
   /**
    * Log webhook events in structured format
    */
@@ -1266,6 +1353,17 @@ export function registerStripeWebhooks(app: Express): void {
           timestamp: new Date().toISOString(),
         }));
 
+        // Issuing authorizations are decided in the response body; Stripe
+        // applies the card's default only if we miss the ~2s window.
+        if (eventType === 'issuing_authorization.request') {
+          const decision = await StripeWebhookHandler.decideIssuingAuthorization(event);
+          res.setHeader('Stripe-Version', STRIPE_API_VERSION);
+          return res.status(200).json({
+            approved: decision.approved,
+            metadata: { reason_code: decision.reasonCode },
+          });
+        }
+
         // Acknowledge receipt immediately, then process asynchronously
         res.status(200).json({ received: true });
 
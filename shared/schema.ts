@@ -44,6 +44,9 @@ export const ExpenseStatus = {
   REJECTED: 'REJECTED',
   CHANGES_REQUESTED: 'CHANGES_REQUESTED',
   PAID: 'PAID',
+  // Raised from a program card's transaction; the cardholder submits it
+  // with a receipt.
+  DRAFT: 'DRAFT',
 } as const;
 export type ExpenseStatus = typeof ExpenseStatus[keyof typeof ExpenseStatus];
 
@@ -101,6 +104,22 @@ export const MembershipStatus = {
 } as const;
 export type MembershipStatus = typeof MembershipStatus[keyof typeof MembershipStatus];
 
+// A bill line billed against a purchase order line.
+export interface BillLineItem {
+  poLineId: string;
+  description?: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface ThreeWayMatchException {
+  code: string;
+  poLineId: string | null;
+  message: string;
+  expected?: number;
+  actual?: number;
+}
+
 // ==================== DATABASE TABLES ====================
 
 // Companies table — enriched with fields from companySettings and organizationSettings
@@ -170,6 +189,8 @@ export const companies = pgTable("companies", {
   // active. See STRIPE_CONNECT_MIGRATION_PLAN.md for the migration
   // procedure.
   payoutFlags: jsonb("payout_flags").$type<Record<string, boolean>>().default({}),
+  // Hard budgets: 'soft' | 'block' | 'override' (server/lib/budget-enforcement.ts)
+  budgetEnforcement: text("budget_enforcement").notNull().default('soft'),
   createdAt: text("created_at").notNull().default(sql`now()`),
   updatedAt: text("updated_at").notNull().default(sql`now()`),
 });
@@ -199,6 +220,9 @@ export const companyMembers = pgTable("company_members", {
   departmentId: text("department_id"),
   avatar: text("avatar"),
   permissions: jsonb("permissions").$type<string[]>().default([]),
+  // Stripe Issuing cardholder for the member's program cards, created on
+  // their first card.
+  stripeCardholderId: text("stripe_cardholder_id"),
 }, (t) => [
   index("company_members_company_id_idx").on(t.companyId),
   index("company_members_user_id_idx").on(t.userId),
@@ -268,6 +292,15 @@ export const expenses = pgTable("expenses", {
   payoutId: text("payout_id"),
   // LU-004 / AUD-BE-014: soft-delete for audit-trail preservation
   deletedAt: text("deleted_at").default(sql`null`),
+  // Receipt OCR total for receiptUrl, copied from receipt_scans when the
+  // expense is saved. receiptAmountMismatch flags it for approvers.
+  receiptOcrAmount: decimal("receipt_ocr_amount", { precision: 12, scale: 2 }),
+  receiptOcrCurrency: text("receipt_ocr_currency"),
+  receiptAmountMismatch: boolean("receipt_amount_mismatch").notNull().default(false),
+  // Set on drafts raised from a program card's transaction. The money has
+  // already left on the card, so these are never reimbursed.
+  cardTransactionId: text("card_transaction_id"),
+  receiptRequired: boolean("receipt_required").notNull().default(false),
 }, (t) => [
   index("expenses_user_id_idx").on(t.userId),
   index("expenses_company_id_idx").on(t.companyId),
@@ -276,6 +309,7 @@ export const expenses = pgTable("expenses", {
   index("expenses_company_id_status_idx").on(t.companyId, t.status),
   index("expenses_department_id_idx").on(t.departmentId),
   index("expenses_vendor_id_idx").on(t.vendorId),
+  uniqueIndex("expenses_card_transaction_id_idx").on(t.cardTransactionId),
 ]);
 
 // Transactions table — external-facing transaction records
@@ -332,10 +366,23 @@ export const bills = pgTable("bills", {
   approvedBy: text("approved_by"),
   approvedAt: text("approved_at"),
   reviewerComments: text("reviewer_comments"),
+  // Three-way matching (server/lib/three-way-match.ts). purchaseOrderId and
+  // goodsReceiptId FKs are enforced in the migration (both tables are
+  // defined further down). matchStatus stays null for bills with no PO.
+  purchaseOrderId: text("purchase_order_id"),
+  goodsReceiptId: text("goods_receipt_id"),
+  lineItems: jsonb("line_items").$type<BillLineItem[]>(),
+  matchStatus: text("match_status"), // 'matched' | 'exception'
+  matchExceptions: jsonb("match_exceptions").$type<ThreeWayMatchException[]>(),
+  matchCheckedAt: text("match_checked_at"),
+  matchOverrideBy: text("match_override_by"),
+  matchOverrideReason: text("match_override_reason"),
+  matchOverrideAt: text("match_override_at"),
   createdAt: text("created_at").notNull().default(sql`now()`),
   updatedAt: text("updated_at").notNull().default(sql`now()`),
 }, (t) => [
   index("bills_user_id_idx").on(t.userId),
+  index("bills_purchase_order_id_idx").on(t.purchaseOrderId),
   index("bills_company_id_idx").on(t.companyId),
   index("bills_due_date_idx").on(t.dueDate),
   index("bills_status_idx").on(t.status),
@@ -351,6 +398,14 @@ export const budgets = pgTable("budgets", {
   currency: text("currency").notNull().default('USD'),
   period: text("period").notNull().default('monthly'),
   companyId: text("company_id").references(() => companies.id, { onDelete: 'cascade' }),
+  // Live actuals (server/budgetActuals.ts). `spent` caches the current
+  // period's spend; scoping narrows what counts towards it.
+  departmentId: text("department_id").references(() => departments.id, { onDelete: 'set null' }),
+  cardholderId: text("cardholder_id"), // Stripe cardholder; only their card spend counts
+  rollover: boolean("rollover").notNull().default(false),
+  rolloverAmount: decimal("rollover_amount", { precision: 12, scale: 2 }).notNull().default('0'),
+  currentPeriodStart: text("current_period_start"),
+  alertedThreshold: integer("alerted_threshold").notNull().default(0),
 }, (t) => [
   index("budgets_company_id_idx").on(t.companyId),
 ]);
@@ -369,9 +424,30 @@ export const virtualCards = pgTable("virtual_cards", {
   stripeCardId: text("stripe_card_id"),
   stripeCardholderId: text("stripe_cardholder_id"),
   companyId: text("company_id").references(() => companies.id, { onDelete: 'set null' }),
+  // Spending controls enforced at authorization time. A null interval
+  // means `limit` caps each authorization rather than a rolling total.
+  spendingLimitInterval: text("spending_limit_interval"), // 'daily' | 'weekly' | 'monthly' | 'yearly' | 'all_time'
+  allowedCategories: jsonb("allowed_categories").$type<string[]>(),
+  blockedCategories: jsonb("blocked_categories").$type<string[]>(),
+  budgetCategory: text("budget_category"), // overrides the merchant-derived budget category
+  // Card program: the company member the card was issued to, and the
+  // spend policy checked on each of its authorizations.
+  memberId: text("member_id"),
+  spendPolicyId: text("spend_policy_id"),
+  // Card kind (server/lib/card-kinds.ts). useCount counts approved
+  // authorizations; a card that reaches maxUses is declined and then
+  // cancelled on capture. A merchant-locked card without a named
+  // merchant locks to its first approved one.
+  kind: text("kind").notNull().default('standard'), // 'standard' | 'single_use' | 'merchant_locked'
+  maxUses: integer("max_uses"),
+  useCount: integer("use_count").notNull().default(0),
+  lockedMerchantName: text("locked_merchant_name"),
+  lockedMerchantId: text("locked_merchant_id"), // Stripe merchant_data.network_id
 }, (t) => [
   index("virtual_cards_stripe_card_id_idx").on(t.stripeCardId),
   index("virtual_cards_company_id_idx").on(t.companyId),
+  index("virtual_cards_member_id_idx").on(t.memberId),
+  index("virtual_cards_spend_policy_id_idx").on(t.spendPolicyId),
 ]);
 
 // Departments table
@@ -433,6 +509,11 @@ export const payrollEntries = pgTable("payroll_entries", {
   companyId: text("company_id").references(() => companies.id, { onDelete: 'set null' }),
   email: text("email"),
   payoutDestinationId: text("payout_destination_id"),
+  // Statutory deductions worked out when the entry was created (income
+  // tax, pension, social security…), one line per rule, with what the
+  // employer pays on top. Null when deductions were entered by hand.
+  statutoryLines: jsonb("statutory_lines").$type<StatutoryLineRecord[]>(),
+  employerContributions: decimal("employer_contributions", { precision: 12, scale: 2 }).notNull().default('0'),
 }, (t) => [
   index("payroll_entries_company_id_idx").on(t.companyId),
   index("payroll_entries_employee_id_idx").on(t.employeeId),
@@ -475,6 +556,44 @@ export const taxBrackets = pgTable("tax_brackets", {
   uniqueIndex("tax_brackets_country_effective_unique").on(t.country, t.effectiveFrom),
 ]);
 
+// Versioned statutory contribution rules (pension, social security,
+// health insurance, levies) per country, alongside tax_brackets. Tiers
+// are slice widths in the rule's cadence, one rate per side; see
+// server/lib/statutory-deductions.ts.
+export const statutoryRules = pgTable("statutory_rules", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  country: text("country").notNull(),
+  code: text("code").notNull(), // e.g. NG_PENSION, GB_NI
+  name: text("name").notNull(),
+  category: text("category").notNull(), // pension | insurance | other
+  authority: text("authority").notNull(), // who it is remitted to, e.g. PFA, NSSF, HMRC
+  effectiveFrom: text("effective_from").notNull(),
+  effectiveTo: text("effective_to"),
+  cadence: text("cadence").notNull().default('monthly'), // annual | monthly
+  employeeTiers: jsonb("employee_tiers").$type<Array<{ limit: number | null; rate: number }>>().notNull(),
+  employerTiers: jsonb("employer_tiers").$type<Array<{ limit: number | null; rate: number }>>().notNull(),
+  employeeMinimum: decimal("employee_minimum", { precision: 14, scale: 2 }).notNull().default('0'),
+  taxDeductible: boolean("tax_deductible").notNull().default(false),
+  source: text("source"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+}, (t) => [
+  index("statutory_rules_country_effective_idx").on(t.country, t.effectiveFrom),
+  uniqueIndex("statutory_rules_country_code_effective_unique").on(t.country, t.code, t.effectiveFrom),
+]);
+
+export type StatutoryRuleRecord = typeof statutoryRules.$inferSelect;
+
+export type StatutoryLineRecord = {
+  code: string;
+  name: string;
+  category: 'tax' | 'pension' | 'insurance' | 'other';
+  authority: string;
+  employee: number;
+  employer: number;
+  source: string | null;
+  effectiveFrom: string;
+};
+
 // Invoices table
 export const invoices = pgTable("invoices", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
@@ -935,12 +1054,21 @@ export const payoutDestinations = pgTable("payout_destinations", {
   // Lifecycle status driven by Stripe's `account.updated` webhook.
   // Values: 'not_started' | 'pending' | 'verified' | 'restricted' | 'disabled'.
   stripeConnectOnboardingStatus: text("stripe_connect_onboarding_status").default('not_started'),
+  // Bank details an employee enters for their own salary wait for an admin
+  // to check them: 'pending' | 'verified' | 'rejected'. Null for details
+  // set up by an admin, which need no review.
+  reviewStatus: text("review_status"),
+  reviewedBy: text("reviewed_by"),
+  reviewedByName: text("reviewed_by_name"),
+  reviewedAt: text("reviewed_at"),
+  reviewNote: text("review_note"),
   createdAt: text("created_at").notNull().default(sql`now()`),
   updatedAt: text("updated_at").notNull().default(sql`now()`),
 }, (t) => [
   index("payout_destinations_user_id_idx").on(t.userId),
   index("payout_destinations_vendor_id_idx").on(t.vendorId),
   index("payout_destinations_stripe_connect_idx").on(t.stripeConnectAccountId),
+  index("payout_destinations_review_status_idx").on(t.reviewStatus),
 ]);
 
 // Payouts table - track all payouts (expense reimbursements, payroll, vendor payments)
@@ -981,6 +1109,10 @@ export const payouts = pgTable("payouts", {
   index("payouts_status_idx").on(t.status),
   index("payouts_recipient_id_idx").on(t.recipientId),
   index("payouts_created_at_idx").on(t.createdAt),
+  // One open payout per payroll run remittance (server/payrollRemittances.ts).
+  uniqueIndex("payouts_open_remittance_unique")
+    .on(t.relatedEntityId, sql`(metadata->>'remittanceId')`)
+    .where(sql`type = 'statutory_remittance' AND status NOT IN ('failed', 'cancelled', 'rejected')`),
 ]);
 
 export const scheduledPayments = pgTable("scheduled_payments", {
@@ -1137,9 +1269,9 @@ type OptionalFields<T, K extends keyof T> = Omit<T, K> & Partial<Pick<T, K>>;
 // Create-input types: select types with newly-added nullable columns made optional
 // so existing call sites that omit these fields still type-check.
 export type CreateTransaction = OptionalFields<Omit<Transaction, 'id'>, 'walletTransactionId' | 'userId' | 'reference' | 'companyId' | 'deletedAt'>;
-export type CreateExpense     = OptionalFields<Omit<Expense, 'id'>,     'departmentId' | 'approvedBy' | 'approvedAt' | 'rejectedBy' | 'rejectedAt' | 'approvalComments' | 'reviewerComments' | 'deletedAt'>;
-export type CreateBill        = OptionalFields<Omit<Bill, 'id'>,        'walletTransactionId' | 'paidAmount' | 'paidDate' | 'paidBy' | 'paymentMethod' | 'paymentReference' | 'approvedBy' | 'approvedAt' | 'reviewerComments'>;
-export type CreatePayroll     = OptionalFields<Omit<PayrollEntry, 'id'>,'departmentId' | 'payoutDestinationId'>;
+export type CreateExpense     = OptionalFields<Omit<Expense, 'id'>,     'departmentId' | 'approvedBy' | 'approvedAt' | 'rejectedBy' | 'rejectedAt' | 'approvalComments' | 'reviewerComments' | 'deletedAt' | 'receiptOcrAmount' | 'receiptOcrCurrency' | 'receiptAmountMismatch' | 'cardTransactionId' | 'receiptRequired'>;
+export type CreateBill        = OptionalFields<Omit<Bill, 'id'>,        'walletTransactionId' | 'paidAmount' | 'paidDate' | 'paidBy' | 'paymentMethod' | 'paymentReference' | 'approvedBy' | 'approvedAt' | 'reviewerComments' | 'purchaseOrderId' | 'goodsReceiptId' | 'lineItems' | 'matchStatus' | 'matchExceptions' | 'matchCheckedAt' | 'matchOverrideBy' | 'matchOverrideReason' | 'matchOverrideAt'>;
+export type CreatePayroll     = OptionalFields<Omit<PayrollEntry, 'id'>,'departmentId' | 'payoutDestinationId' | 'statutoryLines' | 'employerContributions'>;
 export type CreateTeamMember  = OptionalFields<Omit<TeamMember, 'id'>,  'departmentId'>;
 
 export type InsertBudget = z.infer<typeof insertBudgetSchema>;
@@ -1477,6 +1609,1068 @@ export const selectPaymentMethodSchema = createInsertSchema(paymentMethods);
 export type InsertPaymentMethod = z.infer<typeof insertPaymentMethodSchema>;
 export type PaymentMethod = typeof paymentMethods.$inferSelect;
 
+// ==================== DOUBLE-ENTRY LEDGER ====================
+//
+// walletTransactions (balanceBefore/After), transactions and the
+// denormalized company_balances columns each describe one side of a
+// money movement and can drift from one another. The tables below sit
+// underneath them: every movement also posts a journal entry whose
+// postings sum to zero per currency, so any balance can be re-derived
+// from postings alone. See server/lib/ledger.ts for the posting rules.
+
+// Ledger accounts. `code` embeds the owning scope (`wallet:<id>`,
+// `card:<id>`, `<companyId>:payout_clearing`) so (code, currency) is
+// globally unique and the posting path can upsert without a lookup.
+export const ledgerAccounts = pgTable("ledger_accounts", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").references(() => companies.id, { onDelete: 'set null' }),
+  code: text("code").notNull(),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // 'asset' | 'liability' | 'equity' | 'revenue' | 'expense'
+  currency: text("currency").notNull(),
+  walletId: text("wallet_id").references(() => wallets.id, { onDelete: 'set null' }),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+}, (t) => [
+  uniqueIndex("ledger_accounts_code_currency_unique").on(t.code, t.currency),
+  index("ledger_accounts_company_id_idx").on(t.companyId),
+  index("ledger_accounts_wallet_id_idx").on(t.walletId),
+]);
+
+// Journal entries — one per business event. `idempotencyKey` is set
+// for postings that may be retried (opening balances, webhook-driven
+// credits) so a replay cannot post twice.
+export const journalEntries = pgTable("journal_entries", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").references(() => companies.id, { onDelete: 'set null' }),
+  description: text("description").notNull(),
+  sourceType: text("source_type").notNull(), // 'wallet_transaction' | 'payout' | 'bill' | 'invoice' | 'opening_balance' | ...
+  sourceId: text("source_id"),
+  reference: text("reference"),
+  idempotencyKey: text("idempotency_key").unique(),
+  metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+  postedAt: text("posted_at").notNull().default(sql`now()`),
+}, (t) => [
+  index("journal_entries_company_posted_idx").on(t.companyId, t.postedAt),
+  index("journal_entries_source_idx").on(t.sourceType, t.sourceId),
+]);
+
+// Postings — signed amounts, positive = debit, negative = credit.
+// Rows are append-only; corrections are new entries, never UPDATEs.
+export const ledgerPostings = pgTable("ledger_postings", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  entryId: text("entry_id").notNull().references(() => journalEntries.id),
+  accountId: text("account_id").notNull().references(() => ledgerAccounts.id),
+  amount: decimal("amount", { precision: 16, scale: 2 }).notNull(),
+  currency: text("currency").notNull(),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+}, (t) => [
+  index("ledger_postings_entry_id_idx").on(t.entryId),
+  index("ledger_postings_account_id_idx").on(t.accountId),
+]);
+
+export const insertLedgerAccountSchema = createInsertSchema(ledgerAccounts).omit({ id: true, createdAt: true });
+export const insertJournalEntrySchema = createInsertSchema(journalEntries).omit({ id: true, postedAt: true });
+export const insertLedgerPostingSchema = createInsertSchema(ledgerPostings).omit({ id: true, createdAt: true });
+export type InsertLedgerAccount = z.infer<typeof insertLedgerAccountSchema>;
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type InsertLedgerPosting = z.infer<typeof insertLedgerPostingSchema>;
+export type LedgerPosting = typeof ledgerPostings.$inferSelect;
+
+// ==================== PROVIDER RECONCILIATION ====================
+//
+// Daily job (server/reconciliationScheduler.ts) that compares settled
+// Stripe / Paystack charges, transfers and payouts against payouts,
+// wallet_transactions and payment_intent_index. Each run is recorded
+// in reconciliation_runs; every mismatch becomes a row in
+// reconciliation_exceptions for an admin to review.
+
+export const reconciliationRuns = pgTable("reconciliation_runs", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  provider: text("provider").notNull(), // 'stripe' | 'paystack'
+  // Reconciled window, ISO timestamps, [windowStart, windowEnd).
+  windowStart: text("window_start").notNull(),
+  windowEnd: text("window_end").notNull(),
+  status: text("status").notNull().default('running'), // 'running' | 'completed' | 'failed'
+  providerRecordCount: integer("provider_record_count").notNull().default(0),
+  localRecordCount: integer("local_record_count").notNull().default(0),
+  matchedCount: integer("matched_count").notNull().default(0),
+  exceptionCount: integer("exception_count").notNull().default(0),
+  error: text("error"),
+  startedAt: text("started_at").notNull().default(sql`now()`),
+  finishedAt: text("finished_at"),
+}, (t) => [
+  index("reconciliation_runs_provider_started_idx").on(t.provider, t.startedAt),
+]);
+
+export const reconciliationExceptions = pgTable("reconciliation_exceptions", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  runId: text("run_id").references(() => reconciliationRuns.id, { onDelete: 'set null' }),
+  // provider:kind:reference — a mismatch that persists across daily
+  // runs updates the same row instead of piling up duplicates.
+  fingerprint: text("fingerprint").notNull().unique(),
+  provider: text("provider").notNull(),
+  kind: text("kind").notNull(), // 'missing_locally' | 'missing_at_provider' | 'amount_mismatch' | 'currency_mismatch' | 'status_mismatch'
+  objectType: text("object_type").notNull(), // 'charge' | 'transfer' | 'payout'
+  providerReference: text("provider_reference"),
+  localEntityType: text("local_entity_type"), // 'payout' | 'wallet_transaction'
+  localEntityId: text("local_entity_id"),
+  companyId: text("company_id").references(() => companies.id, { onDelete: 'set null' }),
+  currency: text("currency"),
+  providerAmount: decimal("provider_amount", { precision: 16, scale: 2 }),
+  localAmount: decimal("local_amount", { precision: 16, scale: 2 }),
+  providerStatus: text("provider_status"),
+  localStatus: text("local_status"),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  status: text("status").notNull().default('open'), // 'open' | 'resolved' | 'ignored'
+  resolutionNote: text("resolution_note"),
+  resolvedBy: text("resolved_by"),
+  resolvedAt: text("resolved_at"),
+  occurrences: integer("occurrences").notNull().default(1),
+  firstSeenAt: text("first_seen_at").notNull().default(sql`now()`),
+  lastSeenAt: text("last_seen_at").notNull().default(sql`now()`),
+}, (t) => [
+  index("reconciliation_exceptions_status_idx").on(t.status, t.lastSeenAt),
+  index("reconciliation_exceptions_company_id_idx").on(t.companyId),
+]);
+
+export const insertReconciliationRunSchema = createInsertSchema(reconciliationRuns).omit({ id: true });
+export const insertReconciliationExceptionSchema = createInsertSchema(reconciliationExceptions).omit({ id: true });
+export type InsertReconciliationRun = z.infer<typeof insertReconciliationRunSchema>;
+export type ReconciliationRun = typeof reconciliationRuns.$inferSelect;
+export type InsertReconciliationException = z.infer<typeof insertReconciliationExceptionSchema>;
+export type ReconciliationException = typeof reconciliationExceptions.$inferSelect;
+
+// ==================== CARD AUTHORIZATION DECISIONS ====================
+// One row per Stripe Issuing authorization request, recording whether
+// we approved it and why (server/lib/card-authorization.ts).
+
+export const cardAuthorizations = pgTable("card_authorizations", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  stripeAuthorizationId: text("stripe_authorization_id").notNull(),
+  stripeCardId: text("stripe_card_id"),
+  cardId: text("card_id").references(() => virtualCards.id, { onDelete: 'cascade' }),
+  companyId: text("company_id").references(() => companies.id, { onDelete: 'set null' }),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: text("currency").notNull(),
+  merchantName: text("merchant_name"),
+  merchantCategory: text("merchant_category"),
+  spendCategory: text("spend_category"),
+  budgetId: text("budget_id").references(() => budgets.id, { onDelete: 'set null' }),
+  approved: boolean("approved").notNull(),
+  reasonCode: text("reason_code").notNull(),
+  reason: text("reason").notNull(),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  capturedAt: text("captured_at"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+}, (t) => [
+  uniqueIndex("card_authorizations_stripe_authorization_id_idx").on(t.stripeAuthorizationId),
+  index("card_authorizations_card_id_idx").on(t.cardId, t.createdAt),
+  index("card_authorizations_budget_id_idx").on(t.budgetId, t.createdAt),
+]);
+
+export const insertCardAuthorizationSchema = createInsertSchema(cardAuthorizations).omit({ id: true });
+export type InsertCardAuthorization = z.infer<typeof insertCardAuthorizationSchema>;
+export type CardAuthorization = typeof cardAuthorizations.$inferSelect;
+
+// ==================== RECEIPT OCR ====================
+
+export interface ReceiptDraftField<T> {
+  value: T | null;
+  confidence: number; // 0..1
+}
+
+export interface ReceiptTaxLine {
+  label: string;
+  rate: number | null; // percent, when printed on the line
+  amount: number;
+  confidence: number;
+}
+
+/** Expense draft extracted from an uploaded receipt. */
+export interface ReceiptDraft {
+  merchant: ReceiptDraftField<string>;
+  date: ReceiptDraftField<string>; // YYYY-MM-DD
+  total: ReceiptDraftField<number>;
+  currency: ReceiptDraftField<string>;
+  taxLines: ReceiptTaxLine[];
+}
+
+export const receiptScans = pgTable("receipt_scans", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  fileUrl: text("file_url").notNull(),
+  userId: text("user_id").notNull(),
+  companyId: text("company_id").references(() => companies.id, { onDelete: 'set null' }),
+  engine: text("engine").notNull(), // 'tesseract' | 'pdftotext'
+  status: text("status").notNull(), // 'completed' | 'failed' | 'unavailable'
+  draft: jsonb("draft").$type<ReceiptDraft>(),
+  rawText: text("raw_text"),
+  error: text("error"),
+  durationMs: integer("duration_ms"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+}, (t) => [
+  uniqueIndex("receipt_scans_file_url_idx").on(t.fileUrl),
+  index("receipt_scans_company_id_idx").on(t.companyId),
+]);
+
+export const insertReceiptScanSchema = createInsertSchema(receiptScans).omit({ id: true });
+export type InsertReceiptScan = z.infer<typeof insertReceiptScanSchema>;
+export type ReceiptScan = typeof receiptScans.$inferSelect;
+
+// ==================== APPROVAL POLICIES ====================
+// Ordered, per-company rules that decide who approves an expense, bill or
+// payout (server/lib/approval-policy.ts). approval_steps is the chain
+// planned for one entity the first time it is submitted for approval.
+
+export type ApprovalApprover =
+  // Head of departmentId, or of the entity's own department when omitted
+  | { type: 'department_head'; departmentId?: string | null }
+  // Any member at this role or above
+  | { type: 'role'; role: string }
+  // One named member (company_members.id)
+  | { type: 'member'; memberId: string };
+
+export interface ApprovalPolicyStepDef {
+  approver: ApprovalApprover;
+  label?: string | null;
+}
+
+export interface ApprovalPolicyConditions {
+  minAmount?: number | null; // inclusive
+  maxAmount?: number | null; // exclusive
+  currency?: string | null;
+  categories?: string[] | null;
+  departmentIds?: string[] | null;
+  vendorIsNew?: boolean | null;
+}
+
+export const approvalPolicies = pgTable("approval_policies", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  entityTypes: jsonb("entity_types").$type<string[]>().notNull(), // 'expense' | 'bill' | 'payout' | 'purchase_order'
+  priority: integer("priority").notNull().default(100),
+  isActive: boolean("is_active").notNull().default(true),
+  stopOnMatch: boolean("stop_on_match").notNull().default(false),
+  conditions: jsonb("conditions").$type<ApprovalPolicyConditions>().notNull(),
+  steps: jsonb("steps").$type<ApprovalPolicyStepDef[]>().notNull(),
+  createdBy: text("created_by"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+  updatedAt: text("updated_at").notNull().default(sql`now()`),
+}, (t) => [
+  index("approval_policies_company_id_idx").on(t.companyId),
+]);
+
+export const approvalSteps = pgTable("approval_steps", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").references(() => companies.id, { onDelete: 'cascade' }),
+  entityType: text("entity_type").notNull(),
+  entityId: text("entity_id").notNull(),
+  stepIndex: integer("step_index").notNull(),
+  policyId: text("policy_id").references(() => approvalPolicies.id, { onDelete: 'set null' }),
+  policyName: text("policy_name").notNull(), // snapshot
+  approverType: text("approver_type").notNull(), // 'role' | 'member'
+  approverRole: text("approver_role"),
+  approverMemberId: text("approver_member_id"),
+  departmentId: text("department_id"),
+  label: text("label").notNull(),
+  status: text("status").notNull().default('pending'), // pending | approved | rejected | cancelled
+  actedBy: text("acted_by"),
+  actedByName: text("acted_by_name"),
+  actedAt: text("acted_at"),
+  comment: text("comment"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+}, (t) => [
+  uniqueIndex("approval_steps_entity_step_idx").on(t.entityType, t.entityId, t.stepIndex),
+  index("approval_steps_company_id_idx").on(t.companyId),
+]);
+
+export const insertApprovalPolicySchema = createInsertSchema(approvalPolicies).omit({ id: true });
+export type InsertApprovalPolicy = z.infer<typeof insertApprovalPolicySchema>;
+export type ApprovalPolicy = typeof approvalPolicies.$inferSelect;
+
+export const insertApprovalStepSchema = createInsertSchema(approvalSteps).omit({ id: true });
+export type InsertApprovalStep = z.infer<typeof insertApprovalStepSchema>;
+export type ApprovalStep = typeof approvalSteps.$inferSelect;
+
+// ==================== ACCOUNTING EXPORT ====================
+//
+// Journal files for QuickBooks (IIF), Xero (manual journal CSV) and a
+// generic journal CSV. gl_account_mappings is each company's chart of
+// accounts mapping; accounting_export_items records every source event
+// already exported so it is never exported twice. See
+// server/lib/accounting-export.ts for the journal rules.
+
+// sourceType 'category' keys on the lower-cased category name, 'vendor'
+// and 'department' on their ids, and 'control' on one of the fixed
+// control account keys (bank, accounts_payable, …).
+export const glAccountMappings = pgTable("gl_account_mappings", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  sourceType: text("source_type").notNull(), // 'category' | 'vendor' | 'department' | 'control'
+  sourceKey: text("source_key").notNull(),
+  accountCode: text("account_code").notNull(),
+  accountName: text("account_name"),
+  taxCode: text("tax_code"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+  updatedAt: text("updated_at").notNull().default(sql`now()`),
+}, (t) => [
+  uniqueIndex("gl_account_mappings_source_unique").on(t.companyId, t.sourceType, t.sourceKey),
+]);
+
+export const accountingExports = pgTable("accounting_exports", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  format: text("format").notNull(), // 'quickbooks_iif' | 'xero_csv' | 'journal_csv'
+  startDate: text("start_date").notNull(),
+  endDate: text("end_date").notNull(),
+  sourceTypes: jsonb("source_types").$type<string[]>().notNull(),
+  currency: text("currency"),
+  entryCount: integer("entry_count").notNull().default(0),
+  fileName: text("file_name").notNull(),
+  content: text("content").notNull(),
+  status: text("status").notNull().default('completed'), // completed | voided
+  createdBy: text("created_by"),
+  createdByName: text("created_by_name"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+  voidedBy: text("voided_by"),
+  voidedAt: text("voided_at"),
+}, (t) => [
+  index("accounting_exports_company_created_idx").on(t.companyId, t.createdAt),
+]);
+
+// One row per exported source event — e.g. ('bill', id) for the bill
+// itself and ('bill_payment', id) for its payment. Voiding an export
+// deletes its rows so the events can be exported again.
+export const accountingExportItems = pgTable("accounting_export_items", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  exportId: text("export_id").notNull().references(() => accountingExports.id, { onDelete: 'cascade' }),
+  companyId: text("company_id").notNull(),
+  sourceType: text("source_type").notNull(),
+  sourceId: text("source_id").notNull(),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+}, (t) => [
+  uniqueIndex("accounting_export_items_source_unique").on(t.companyId, t.sourceType, t.sourceId),
+  index("accounting_export_items_export_id_idx").on(t.exportId),
+]);
+
+export const insertGlAccountMappingSchema = createInsertSchema(glAccountMappings).omit({ id: true });
+export type InsertGlAccountMapping = z.infer<typeof insertGlAccountMappingSchema>;
+export type GlAccountMapping = typeof glAccountMappings.$inferSelect;
+
+export const insertAccountingExportSchema = createInsertSchema(accountingExports).omit({ id: true });
+export type InsertAccountingExport = z.infer<typeof insertAccountingExportSchema>;
+export type AccountingExport = typeof accountingExports.$inferSelect;
+export type AccountingExportItem = typeof accountingExportItems.$inferSelect;
+
+// ==================== BANK STATEMENTS ====================
+//
+// Statements from accounts held outside Spendly (CSV, OFX/QFX, MT940),
+// staged line by line so each line can be matched against an existing
+// record, ignored, or converted into an expense or transaction. See
+// server/lib/bank-statement.ts for the parsers and
+// server/lib/statement-matching.ts for the scoring.
+
+export const bankStatementImports = pgTable("bank_statement_imports", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  fileName: text("file_name").notNull(),
+  format: text("format").notNull(), // 'csv' | 'ofx' | 'mt940'
+  accountIdentifier: text("account_identifier"),
+  currency: text("currency"),
+  statementStart: text("statement_start"),
+  statementEnd: text("statement_end"),
+  lineCount: integer("line_count").notNull().default(0),
+  duplicateCount: integer("duplicate_count").notNull().default(0),
+  importedBy: text("imported_by"),
+  importedByName: text("imported_by_name"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+}, (t) => [
+  index("bank_statement_imports_company_created_idx").on(t.companyId, t.createdAt),
+]);
+
+// amount is signed from the company's side: positive money in, negative
+// money out. matchType/matchId point at the confirmed record ('transaction',
+// 'bill', 'invoice', 'payout') or, once converted, at the expense or
+// transaction created from the line; a record can back one line only.
+export const bankStatementLines = pgTable("bank_statement_lines", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  importId: text("import_id").notNull().references(() => bankStatementImports.id, { onDelete: 'cascade' }),
+  companyId: text("company_id").notNull(),
+  lineIndex: integer("line_index").notNull(),
+  date: text("date").notNull(),
+  amount: decimal("amount", { precision: 16, scale: 2 }).notNull(),
+  currency: text("currency").notNull(),
+  description: text("description").notNull(),
+  reference: text("reference"),
+  counterparty: text("counterparty"),
+  bankTransactionId: text("bank_transaction_id"),
+  dedupeKey: text("dedupe_key").notNull(),
+  status: text("status").notNull().default('unmatched'), // unmatched | suggested | matched | ignored | converted
+  matchType: text("match_type"),
+  matchId: text("match_id"),
+  matchScore: integer("match_score"),
+  suggestions: jsonb("suggestions").$type<{ type: string; id: string; score: number; label: string; reasons: string[] }[]>().notNull().default([]),
+  resolvedBy: text("resolved_by"),
+  resolvedAt: text("resolved_at"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+}, (t) => [
+  uniqueIndex("bank_statement_lines_dedupe_unique").on(t.companyId, t.dedupeKey),
+  uniqueIndex("bank_statement_lines_match_unique").on(t.companyId, t.matchType, t.matchId).where(sql`match_id IS NOT NULL`),
+  index("bank_statement_lines_import_id_idx").on(t.importId),
+  index("bank_statement_lines_company_status_idx").on(t.companyId, t.status),
+]);
+
+export const insertBankStatementImportSchema = createInsertSchema(bankStatementImports).omit({ id: true });
+export type InsertBankStatementImport = z.infer<typeof insertBankStatementImportSchema>;
+export type BankStatementImport = typeof bankStatementImports.$inferSelect;
+
+export const insertBankStatementLineSchema = createInsertSchema(bankStatementLines).omit({ id: true });
+export type InsertBankStatementLine = z.infer<typeof insertBankStatementLineSchema>;
+export type BankStatementLine = typeof bankStatementLines.$inferSelect;
+
+// ==================== PURCHASE ORDERS ====================
+//
+// Purchase orders to vendors, approved through the approval policies
+// (entity type 'purchase_order'), received against with goods receipts,
+// and matched three ways against the bills that reference them.
+
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  poNumber: text("po_number").notNull(),
+  vendorId: text("vendor_id").notNull().references(() => vendors.id),
+  vendorName: text("vendor_name").notNull(),
+  currency: text("currency").notNull().default('USD'),
+  // draft | pending_approval | approved | partially_received | received | closed | rejected | cancelled
+  status: text("status").notNull().default('draft'),
+  totalAmount: decimal("total_amount", { precision: 14, scale: 2 }).notNull().default('0'),
+  expectedDate: text("expected_date"),
+  notes: text("notes"),
+  // How far a bill may stray from the PO price, and billed quantity from
+  // the received quantity, before it is flagged.
+  priceTolerancePercent: decimal("price_tolerance_percent", { precision: 5, scale: 2 }).notNull().default('2'),
+  quantityTolerancePercent: decimal("quantity_tolerance_percent", { precision: 5, scale: 2 }).notNull().default('0'),
+  createdBy: text("created_by"),
+  createdByName: text("created_by_name"),
+  submittedAt: text("submitted_at"),
+  approvedBy: text("approved_by"),
+  approvedAt: text("approved_at"),
+  rejectionReason: text("rejection_reason"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+  updatedAt: text("updated_at").notNull().default(sql`now()`),
+}, (t) => [
+  uniqueIndex("purchase_orders_number_unique").on(t.companyId, t.poNumber),
+  index("purchase_orders_company_status_idx").on(t.companyId, t.status),
+  index("purchase_orders_vendor_id_idx").on(t.vendorId),
+]);
+
+export const purchaseOrderLines = pgTable("purchase_order_lines", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  purchaseOrderId: text("purchase_order_id").notNull().references(() => purchaseOrders.id, { onDelete: 'cascade' }),
+  lineIndex: integer("line_index").notNull(),
+  description: text("description").notNull(),
+  quantity: decimal("quantity", { precision: 14, scale: 3 }).notNull(),
+  unitPrice: decimal("unit_price", { precision: 14, scale: 2 }).notNull(),
+  receivedQuantity: decimal("received_quantity", { precision: 14, scale: 3 }).notNull().default('0'),
+}, (t) => [
+  index("purchase_order_lines_po_id_idx").on(t.purchaseOrderId),
+]);
+
+export const goodsReceipts = pgTable("goods_receipts", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull(),
+  purchaseOrderId: text("purchase_order_id").notNull().references(() => purchaseOrders.id, { onDelete: 'cascade' }),
+  receiptNumber: text("receipt_number").notNull(),
+  receivedDate: text("received_date").notNull(),
+  lines: jsonb("lines").$type<{ poLineId: string; quantity: number }[]>().notNull(),
+  notes: text("notes"),
+  receivedBy: text("received_by"),
+  receivedByName: text("received_by_name"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+}, (t) => [
+  index("goods_receipts_po_id_idx").on(t.purchaseOrderId),
+]);
+
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({ id: true });
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+
+export const insertPurchaseOrderLineSchema = createInsertSchema(purchaseOrderLines).omit({ id: true });
+export type InsertPurchaseOrderLine = z.infer<typeof insertPurchaseOrderLineSchema>;
+export type PurchaseOrderLine = typeof purchaseOrderLines.$inferSelect;
+
+export const insertGoodsReceiptSchema = createInsertSchema(goodsReceipts).omit({ id: true });
+export type InsertGoodsReceipt = z.infer<typeof insertGoodsReceiptSchema>;
+export type GoodsReceipt = typeof goodsReceipts.$inferSelect;
+
+// ==================== INVOICE PAYMENTS & CREDIT NOTES ====================
+//
+// Payments received against an invoice (manually recorded or confirmed by
+// the Stripe / Paystack webhooks) and the credit notes that reduce what
+// the client owes. A credit note either applies against the outstanding
+// balance ('credit', 'write_off') or gives money back through the payment
+// it names ('refund').
+
+export const invoicePayments = pgTable("invoice_payments", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: text("invoice_id").notNull().references(() => invoices.id, { onDelete: 'cascade' }),
+  companyId: text("company_id"),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: text("currency").notNull(),
+  // stripe | paystack | bank_transfer | manual
+  method: text("method").notNull().default('manual'),
+  reference: text("reference").notNull(),
+  // Stripe payment intent or Paystack transaction reference, for refunds.
+  providerReference: text("provider_reference"),
+  refundedAmount: decimal("refunded_amount", { precision: 12, scale: 2 }).notNull().default('0'),
+  paidAt: text("paid_at").notNull().default(sql`now()`),
+  recordedBy: text("recorded_by"),
+  metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+}, (t) => [
+  index("invoice_payments_invoice_id_idx").on(t.invoiceId),
+  uniqueIndex("invoice_payments_reference_unique").on(t.invoiceId, t.reference),
+]);
+
+export const creditNotes = pgTable("credit_notes", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id"),
+  invoiceId: text("invoice_id").notNull().references(() => invoices.id, { onDelete: 'cascade' }),
+  creditNoteNumber: text("credit_note_number").notNull(),
+  // credit | write_off | refund
+  kind: text("kind").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: text("currency").notNull(),
+  reason: text("reason").notNull(),
+  // issued | refund_pending | refunded | refund_failed
+  status: text("status").notNull().default('issued'),
+  // The payment a refund is returned through.
+  paymentId: text("payment_id").references(() => invoicePayments.id),
+  refundProvider: text("refund_provider"),
+  refundReference: text("refund_reference"),
+  refundError: text("refund_error"),
+  issuedBy: text("issued_by"),
+  issuedByName: text("issued_by_name"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+  updatedAt: text("updated_at").notNull().default(sql`now()`),
+}, (t) => [
+  index("credit_notes_invoice_id_idx").on(t.invoiceId),
+  uniqueIndex("credit_notes_number_unique").on(t.companyId, t.creditNoteNumber),
+]);
+
+export const insertInvoicePaymentSchema = createInsertSchema(invoicePayments).omit({ id: true });
+export type InsertInvoicePayment = z.infer<typeof insertInvoicePaymentSchema>;
+export type InvoicePayment = typeof invoicePayments.$inferSelect;
+
+export const insertCreditNoteSchema = createInsertSchema(creditNotes).omit({ id: true });
+export type InsertCreditNote = z.infer<typeof insertCreditNoteSchema>;
+export type CreditNote = typeof creditNotes.$inferSelect;
+
+// ==================== INVOICE DUNNING ====================
+
+export interface DunningStepDef {
+  offsetDays: number; // days from the due date; negative = before it
+  lateFee?: { type: 'fixed' | 'percent'; value: number } | null;
+}
+
+export const dunningSchedules = pgTable("dunning_schedules", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  enabled: boolean("enabled").notNull().default(false),
+  steps: jsonb("steps").$type<DunningStepDef[]>().notNull(),
+  updatedBy: text("updated_by"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+  updatedAt: text("updated_at").notNull().default(sql`now()`),
+}, (t) => [
+  uniqueIndex("dunning_schedules_company_unique").on(t.companyId),
+]);
+
+export const invoiceReminders = pgTable("invoice_reminders", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: text("invoice_id").notNull().references(() => invoices.id, { onDelete: 'cascade' }),
+  companyId: text("company_id"),
+  offsetDays: integer("offset_days").notNull(),
+  sentTo: text("sent_to").notNull(),
+  amountDue: decimal("amount_due", { precision: 12, scale: 2 }).notNull(),
+  lateFee: decimal("late_fee", { precision: 12, scale: 2 }).notNull().default('0'),
+  status: text("status").notNull().default('pending'), // pending | sent | failed
+  error: text("error"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+  sentAt: text("sent_at"),
+}, (t) => [
+  // One reminder per step per invoice, however many instances tick.
+  uniqueIndex("invoice_reminders_step_unique").on(t.invoiceId, t.offsetDays),
+]);
+
+export const insertDunningScheduleSchema = createInsertSchema(dunningSchedules).omit({ id: true });
+export type InsertDunningSchedule = z.infer<typeof insertDunningScheduleSchema>;
+export type DunningSchedule = typeof dunningSchedules.$inferSelect;
+
+export const insertInvoiceReminderSchema = createInsertSchema(invoiceReminders).omit({ id: true });
+export type InsertInvoiceReminder = z.infer<typeof insertInvoiceReminderSchema>;
+export type InvoiceReminder = typeof invoiceReminders.$inferSelect;
+
+// ==================== BUDGET PERIODS ====================
+
+export const budgetPeriods = pgTable("budget_periods", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  budgetId: text("budget_id").notNull().references(() => budgets.id, { onDelete: 'cascade' }),
+  companyId: text("company_id"),
+  periodStart: text("period_start").notNull(),
+  periodEnd: text("period_end").notNull(),
+  budgetLimit: decimal("budget_limit", { precision: 12, scale: 2 }).notNull(),
+  rolledIn: decimal("rolled_in", { precision: 12, scale: 2 }).notNull().default('0'),
+  spent: decimal("spent", { precision: 12, scale: 2 }).notNull(),
+  rolledOut: decimal("rolled_out", { precision: 12, scale: 2 }).notNull().default('0'),
+  closedAt: text("closed_at").notNull().default(sql`now()`),
+}, (t) => [
+  uniqueIndex("budget_periods_budget_start_unique").on(t.budgetId, t.periodStart),
+]);
+
+export const insertBudgetPeriodSchema = createInsertSchema(budgetPeriods).omit({ id: true });
+export type InsertBudgetPeriod = z.infer<typeof insertBudgetPeriodSchema>;
+export type BudgetPeriod = typeof budgetPeriods.$inferSelect;
+
+// ==================== BUDGET OVERRIDES ====================
+
+// A request to spend past a hard budget. Approved overrides are used
+// once, by the requester repeating the same spend.
+export const budgetOverrides = pgTable("budget_overrides", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  budgetId: text("budget_id").notNull().references(() => budgets.id, { onDelete: 'cascade' }),
+  action: text("action").notNull(), // 'expense' | 'card_funding' | 'bill_payment' | 'vendor_payment'
+  entityId: text("entity_id"), // card, bill or vendor; null for a new expense
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default('USD'),
+  remaining: decimal("remaining", { precision: 12, scale: 2 }).notNull(), // budget left when requested
+  reason: text("reason"),
+  status: text("status").notNull().default('pending'), // pending | approved | rejected | used
+  requestedBy: text("requested_by").notNull(),
+  requestedByName: text("requested_by_name"),
+  decidedBy: text("decided_by"),
+  decidedByName: text("decided_by_name"),
+  decidedAt: text("decided_at"),
+  decisionNote: text("decision_note"),
+  usedAt: text("used_at"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+}, (t) => [
+  index("budget_overrides_company_status_idx").on(t.companyId, t.status),
+  index("budget_overrides_requested_by_idx").on(t.requestedBy),
+]);
+
+export const insertBudgetOverrideSchema = createInsertSchema(budgetOverrides).omit({ id: true });
+export type InsertBudgetOverride = z.infer<typeof insertBudgetOverrideSchema>;
+export type BudgetOverride = typeof budgetOverrides.$inferSelect;
+
+// ==================== PAYROLL RUNS ====================
+// A pay period: the pending payroll entries it covers are frozen into
+// payroll_run_items when the run is drafted, so later edits to an entry
+// never change what a run paid.
+export const payrollRuns = pgTable("payroll_runs", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  periodStart: text("period_start").notNull(),
+  periodEnd: text("period_end").notNull(),
+  payDate: text("pay_date").notNull(),
+  currency: text("currency").notNull().default('USD'),
+  status: text("status").notNull().default('draft'), // draft | approved | processing | partially_paid | paid | reversed
+  employeeCount: integer("employee_count").notNull().default(0),
+  totalSalary: decimal("total_salary", { precision: 14, scale: 2 }).notNull().default('0'),
+  totalBonus: decimal("total_bonus", { precision: 14, scale: 2 }).notNull().default('0'),
+  totalDeductions: decimal("total_deductions", { precision: 14, scale: 2 }).notNull().default('0'),
+  totalNet: decimal("total_net", { precision: 14, scale: 2 }).notNull().default('0'),
+  totalEmployerContributions: decimal("total_employer_contributions", { precision: 14, scale: 2 }).notNull().default('0'),
+  createdBy: text("created_by").notNull(),
+  createdByName: text("created_by_name"),
+  approvedBy: text("approved_by"),
+  approvedByName: text("approved_by_name"),
+  approvedAt: text("approved_at"),
+  paidAt: text("paid_at"),
+  reversedBy: text("reversed_by"),
+  reversedByName: text("reversed_by_name"),
+  reversedAt: text("reversed_at"),
+  reversalReason: text("reversal_reason"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+}, (t) => [
+  index("payroll_runs_company_status_idx").on(t.companyId, t.status),
+  index("payroll_runs_company_period_idx").on(t.companyId, t.periodStart),
+]);
+
+export const payrollRunItems = pgTable("payroll_run_items", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  runId: text("run_id").notNull().references(() => payrollRuns.id, { onDelete: 'cascade' }),
+  companyId: text("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  payrollEntryId: text("payroll_entry_id").references(() => payrollEntries.id, { onDelete: 'set null' }),
+  // Snapshot of the employee and the entry when the run was drafted
+  employeeId: text("employee_id").notNull(),
+  employeeName: text("employee_name").notNull(),
+  email: text("email"),
+  department: text("department"),
+  country: text("country"),
+  currency: text("currency").notNull().default('USD'),
+  salary: decimal("salary", { precision: 12, scale: 2 }).notNull(),
+  bonus: decimal("bonus", { precision: 12, scale: 2 }).notNull().default('0'),
+  deductions: decimal("deductions", { precision: 12, scale: 2 }).notNull().default('0'),
+  deductionBreakdown: jsonb("deduction_breakdown").$type<{ tax: number; pension: number; insurance: number; other: number }>(),
+  netPay: decimal("net_pay", { precision: 12, scale: 2 }).notNull(),
+  bankName: text("bank_name"),
+  accountNumber: text("account_number"),
+  accountName: text("account_name"),
+  payoutDestinationId: text("payout_destination_id"),
+  statutoryLines: jsonb("statutory_lines").$type<StatutoryLineRecord[]>(),
+  employerContributions: decimal("employer_contributions", { precision: 12, scale: 2 }).notNull().default('0'),
+  status: text("status").notNull().default('pending'), // pending | processing | failed | needs_banking_details | reversed | released
+  reference: text("reference"),
+  error: text("error"),
+  paidAt: text("paid_at"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+}, (t) => [
+  index("payroll_run_items_run_id_idx").on(t.runId),
+  index("payroll_run_items_entry_id_idx").on(t.payrollEntryId),
+  index("payroll_run_items_employee_id_idx").on(t.companyId, t.employeeId),
+]);
+
+export const insertPayrollRunSchema = createInsertSchema(payrollRuns).omit({ id: true });
+export type InsertPayrollRun = z.infer<typeof insertPayrollRunSchema>;
+export type PayrollRun = typeof payrollRuns.$inferSelect;
+
+export const insertPayrollRunItemSchema = createInsertSchema(payrollRunItems).omit({ id: true });
+export type InsertPayrollRunItem = z.infer<typeof insertPayrollRunItemSchema>;
+export type PayrollRunItem = typeof payrollRunItems.$inferSelect;
+
+// ==================== OUTBOUND WEBHOOKS ====================
+// HTTPS endpoints a company registers to receive Spendly events, and each
+// event's delivery to each endpoint with its attempts
+// (server/outboundWebhooks.ts, server/lib/outbound-webhooks.ts).
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  url: text("url").notNull(),
+  description: text("description"),
+  events: jsonb("events").$type<string[]>().notNull().default([]), // event types, or '*' for all
+  secret: text("secret").notNull(),
+  // The secret before the last rotation, still signing until it expires.
+  previousSecret: text("previous_secret"),
+  previousSecretExpiresAt: text("previous_secret_expires_at"),
+  status: text("status").notNull().default('active'), // active | disabled
+  createdBy: text("created_by"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+  updatedAt: text("updated_at").notNull().default(sql`now()`),
+}, (t) => [
+  index("webhook_endpoints_company_id_idx").on(t.companyId),
+]);
+
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  endpointId: text("endpoint_id").notNull().references(() => webhookEndpoints.id, { onDelete: 'cascade' }),
+  companyId: text("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  eventId: text("event_id").notNull(),
+  eventType: text("event_type").notNull(),
+  // The exact body sent, so a replay is byte-for-byte the same event.
+  payload: text("payload").notNull(),
+  status: text("status").notNull().default('pending'), // pending | succeeded | failed
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: text("next_attempt_at"),
+  lastAttemptAt: text("last_attempt_at"),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"),
+  error: text("error"),
+  durationMs: integer("duration_ms"),
+  replayOf: text("replay_of"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+}, (t) => [
+  index("webhook_deliveries_due_idx").on(t.status, t.nextAttemptAt),
+  index("webhook_deliveries_endpoint_idx").on(t.endpointId, t.createdAt),
+  index("webhook_deliveries_event_id_idx").on(t.eventId),
+]);
+
+export const insertWebhookEndpointSchema = createInsertSchema(webhookEndpoints).omit({ id: true });
+export type InsertWebhookEndpoint = z.infer<typeof insertWebhookEndpointSchema>;
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({ id: true });
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+// ==================== API KEYS ====================
+// Company keys for programmatic access (server/lib/api-keys.ts). Only the
+// SHA-256 of a key is stored; the prefix identifies it in lists and logs.
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull(),
+  keyHash: text("key_hash").notNull(),
+  permissions: jsonb("permissions").$type<string[]>().notNull().default([]), // Permission names
+  expiresAt: text("expires_at"),
+  lastUsedAt: text("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: text("revoked_at"),
+  revokedBy: text("revoked_by"),
+  createdBy: text("created_by"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+}, (t) => [
+  uniqueIndex("api_keys_key_hash_idx").on(t.keyHash),
+  index("api_keys_company_id_idx").on(t.companyId),
+]);
+
+export const insertApiKeySchema = createInsertSchema(apiKeys).omit({ id: true });
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+
+// ==================== CARD SPEND POLICIES ====================
+// Reusable controls for program cards, checked on every authorization
+// after the card's own controls (server/lib/card-authorization.ts).
+// Null or empty fields don't restrict anything.
+export const cardSpendPolicies = pgTable("card_spend_policies", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  description: text("description"),
+  // Stripe merchant category names or four-digit MCCs.
+  allowedMerchantCategories: jsonb("allowed_merchant_categories").$type<string[]>().notNull().default([]),
+  blockedMerchantCategories: jsonb("blocked_merchant_categories").$type<string[]>().notNull().default([]),
+  perTransactionLimit: decimal("per_transaction_limit", { precision: 12, scale: 2 }),
+  dailyLimit: decimal("daily_limit", { precision: 12, scale: 2 }),
+  monthlyLimit: decimal("monthly_limit", { precision: 12, scale: 2 }),
+  allowedWeekdays: jsonb("allowed_weekdays").$type<number[]>().notNull().default([]), // 0 = Sunday
+  allowedHoursStart: integer("allowed_hours_start"), // 0-23, in `timezone`
+  allowedHoursEnd: integer("allowed_hours_end"), // exclusive; before start wraps past midnight
+  timezone: text("timezone").notNull().default('UTC'),
+  allowedCountries: jsonb("allowed_countries").$type<string[]>().notNull().default([]), // ISO 3166-1 alpha-2
+  createdBy: text("created_by"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+  updatedAt: text("updated_at").notNull().default(sql`now()`),
+}, (t) => [
+  index("card_spend_policies_company_id_idx").on(t.companyId),
+]);
+
+export const insertCardSpendPolicySchema = createInsertSchema(cardSpendPolicies).omit({ id: true });
+export type InsertCardSpendPolicy = z.infer<typeof insertCardSpendPolicySchema>;
+export type CardSpendPolicy = typeof cardSpendPolicies.$inferSelect;
+
+// ==================== FX QUOTES ====================
+// A locked rate for converting between two of the caller's wallets
+// (server/lib/fx-quotes.ts). Accepting an open quote before expiresAt
+// moves exactly sourceAmount out and targetAmount in; marginAmount, in
+// the target currency, is the realized FX margin.
+export const fxQuotes = pgTable("fx_quotes", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").references(() => companies.id, { onDelete: 'cascade' }),
+  sourceWalletId: text("source_wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }),
+  targetWalletId: text("target_wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }),
+  sourceCurrency: text("source_currency").notNull(),
+  targetCurrency: text("target_currency").notNull(),
+  sourceAmount: decimal("source_amount", { precision: 16, scale: 2 }).notNull(),
+  targetAmount: decimal("target_amount", { precision: 16, scale: 2 }).notNull(),
+  marketRate: decimal("market_rate", { precision: 16, scale: 6 }).notNull(),
+  customerRate: decimal("customer_rate", { precision: 16, scale: 6 }).notNull(),
+  markupPercent: decimal("markup_percent", { precision: 5, scale: 2 }).notNull(),
+  marginAmount: decimal("margin_amount", { precision: 16, scale: 2 }).notNull(),
+  status: text("status").notNull().default('open'), // 'open' | 'accepted'
+  expiresAt: text("expires_at").notNull(),
+  acceptedAt: text("accepted_at"),
+  acceptedBy: text("accepted_by"),
+  debitTransactionId: text("debit_transaction_id"), // wallet_transactions
+  creditTransactionId: text("credit_transaction_id"),
+  createdBy: text("created_by").notNull(),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+}, (t) => [
+  index("fx_quotes_company_id_idx").on(t.companyId, t.acceptedAt),
+  index("fx_quotes_created_by_idx").on(t.createdBy, t.createdAt),
+]);
+
+export const insertFxQuoteSchema = createInsertSchema(fxQuotes).omit({ id: true });
+export type InsertFxQuote = z.infer<typeof insertFxQuoteSchema>;
+export type FxQuote = typeof fxQuotes.$inferSelect;
+
+// ==================== IDEMPOTENCY KEYS ====================
+// Idempotency-Key records for money-moving endpoints
+// (server/middleware/idempotency.ts). One row per (scope, key): claimed
+// as 'processing', then completed with the response that was sent.
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  scope: text("scope").notNull(), // req.user.uid — a user or an API key id
+  key: text("key").notNull(),
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  fingerprint: text("fingerprint").notNull(), // SHA-256 of method, path and body
+  status: text("status").notNull().default('processing'), // 'processing' | 'completed'
+  // New on every claim and takeover; only the holder may renew, complete
+  // or release the row.
+  claimToken: text("claim_token"),
+  responseStatus: integer("response_status"),
+  responseBody: jsonb("response_body"),
+  createdAt: text("created_at").notNull().default(sql`now()`),
+  completedAt: text("completed_at"),
+  expiresAt: text("expires_at").notNull(),
+}, (t) => [
+  uniqueIndex("idempotency_keys_scope_key_idx").on(t.scope, t.key),
+  index("idempotency_keys_expires_at_idx").on(t.expiresAt),
+]);
+
+export const insertIdempotencyKeySchema = createInsertSchema(idempotencyKeys).omit({ id: true });
+export type InsertIdempotencyKey = z.infer<typeof insertIdempotencyKeySchema>;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+
+// ==================== SANCTIONS SCREENING ====================
+// OFAC SDN / UN consolidated lists, and the screenings of vendors, payout
+// destinations, payroll recipients and KYC names against them
+// (server/sanctionsScreening.ts). Lists with no company are platform-wide
+// and apply to every company; a company's admins may add their own on top.
+// Screenings are never deleted: they and the reviewer's decision are the
+// audit record.
+export const sanctionsLists = pgTable("sanctions_lists", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").references(() => companies.id, { onDelete: 'cascade' }), // null = platform-wide
+  source: text("source").notNull(), // 'ofac_sdn' | 'un_consolidated'
+  fileName: text("file_name"),
+  entryCount: integer("entry_count").notNull().default(0),
+  status: text("status").notNull().default('active'), // 'active' | 'superseded'
+  importedBy: text("imported_by").notNull(),
+  importedByName: text("imported_by_name"),
+  importedAt: text("imported_at").notNull().default(sql`now()`),
+  supersededAt: text("superseded_at"),
+}, (t) => [
+  index("sanctions_lists_company_id_idx").on(t.companyId, t.status),
+]);
+
+export const sanctionsEntries = pgTable("sanctions_entries", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  listId: text("list_id").notNull().references(() => sanctionsLists.id, { onDelete: 'cascade' }),
+  companyId: text("company_id").references(() => companies.id, { onDelete: 'cascade' }), // the list's
+  externalId: text("external_id").notNull(), // OFAC ent_num or UN reference number
+  name: text("name").notNull(),
+  aliases: jsonb("aliases").$type<string[]>().notNull().default([]),
+  entityType: text("entity_type").notNull(), // 'individual' | 'entity'
+  programs: jsonb("programs").$type<string[]>().notNull().default([]),
+  remarks: text("remarks"),
+}, (t) => [
+  index("sanctions_entries_list_id_idx").on(t.listId),
+]);
+
+export interface SanctionsMatchRecord {
+  entryId: string;
+  listId: string;
+  source: string;
+  externalId: string;
+  name: string;
+  matchedName: string;
+  score: number;
+}
+
+export const sanctionsScreenings = pgTable("sanctions_screenings", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  subjectType: text("subject_type").notNull(), // 'vendor' | 'payout_destination' | 'payroll_recipient' | 'kyc_submission' | 'transfer_recipient'
+  subjectId: text("subject_id").notNull(),
+  screenedName: text("screened_name").notNull(),
+  listVersion: text("list_version").notNull(), // ids of the active lists screened against
+  status: text("status").notNull(), // 'clear' | 'potential_match' | 'cleared' | 'confirmed_match'
+  matches: jsonb("matches").$type<SanctionsMatchRecord[]>().notNull().default([]),
+  topScore: decimal("top_score", { precision: 4, scale: 3 }),
+  screenedAt: text("screened_at").notNull().default(sql`now()`),
+  reviewedBy: text("reviewed_by"),
+  reviewedByName: text("reviewed_by_name"),
+  reviewedAt: text("reviewed_at"),
+  reviewNote: text("review_note"),
+  // Users whose payment or KYC submission this screening held; they may
+  // not review it themselves.
+  heldUserIds: jsonb("held_user_ids").$type<string[]>().notNull().default([]),
+}, (t) => [
+  index("sanctions_screenings_subject_idx").on(t.companyId, t.subjectType, t.subjectId, t.screenedAt),
+  index("sanctions_screenings_status_idx").on(t.companyId, t.status),
+]);
+
+export const insertSanctionsListSchema = createInsertSchema(sanctionsLists).omit({ id: true });
+export type InsertSanctionsList = z.infer<typeof insertSanctionsListSchema>;
+export type SanctionsList = typeof sanctionsLists.$inferSelect;
+
+export const insertSanctionsEntrySchema = createInsertSchema(sanctionsEntries).omit({ id: true });
+export type InsertSanctionsEntry = z.infer<typeof insertSanctionsEntrySchema>;
+export type SanctionsEntry = typeof sanctionsEntries.$inferSelect;
+
+export const insertSanctionsScreeningSchema = createInsertSchema(sanctionsScreenings).omit({ id: true });
+export type InsertSanctionsScreening = z.infer<typeof insertSanctionsScreeningSchema>;
+export type SanctionsScreening = typeof sanctionsScreenings.$inferSelect;
+
+// ==================== TRANSACTION MONITORING ====================
+// Fraud rules over logins, payouts, wallet transfers, card authorizations
+// and payout destination changes (server/transactionMonitoring.ts). Rows
+// in monitoring_rules override the defaults in
+// server/lib/transaction-monitoring.ts; alerts are keyed by what set them
+// off, so the same payout or login never raises the same alert twice.
+export const monitoringRules = pgTable("monitoring_rules", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  ruleKey: text("rule_key").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  severity: text("severity").notNull(), // 'low' | 'medium' | 'high' | 'critical'
+  action: text("action").notNull().default('alert'), // 'alert' | 'hold_payout' | 'freeze_card'
+  params: jsonb("params").$type<Record<string, number>>().notNull().default({}),
+  updatedBy: text("updated_by"),
+  updatedByName: text("updated_by_name"),
+  updatedAt: text("updated_at").notNull().default(sql`now()`),
+}, (t) => [
+  uniqueIndex("monitoring_rules_company_rule_idx").on(t.companyId, t.ruleKey),
+]);
+
+export const monitoringEvents = pgTable("monitoring_events", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  kind: text("kind").notNull(), // 'login' | 'payout' | 'transfer' | 'card_authorization' | 'destination_changed'
+  userId: text("user_id"),
+  subjectId: text("subject_id"), // payout, card or destination id
+  amount: decimal("amount", { precision: 16, scale: 2 }),
+  currency: text("currency"),
+  ip: text("ip"),
+  country: text("country"),
+  data: jsonb("data").$type<Record<string, unknown>>().notNull().default({}),
+  occurredAt: text("occurred_at").notNull().default(sql`now()`),
+}, (t) => [
+  index("monitoring_events_kind_idx").on(t.companyId, t.kind, t.occurredAt),
+  index("monitoring_events_user_idx").on(t.companyId, t.userId, t.kind, t.occurredAt),
+  index("monitoring_events_subject_idx").on(t.companyId, t.kind, t.subjectId),
+]);
+
+export const monitoringAlerts = pgTable("monitoring_alerts", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  ruleKey: text("rule_key").notNull(),
+  severity: text("severity").notNull(),
+  action: text("action").notNull(),
+  dedupeKey: text("dedupe_key").notNull(),
+  subjectType: text("subject_type").notNull(), // 'payout' | 'transfer' | 'card'
+  subjectId: text("subject_id").notNull(),
+  summary: text("summary").notNull(),
+  details: jsonb("details").$type<Record<string, unknown>>().notNull().default({}),
+  actionTaken: text("action_taken"), // 'payout_held' | 'card_frozen'
+  status: text("status").notNull().default('open'), // 'open' | 'dismissed' | 'confirmed'
+  createdAt: text("created_at").notNull().default(sql`now()`),
+  reviewedBy: text("reviewed_by"),
+  reviewedByName: text("reviewed_by_name"),
+  reviewedAt: text("reviewed_at"),
+  reviewNote: text("review_note"),
+}, (t) => [
+  uniqueIndex("monitoring_alerts_dedupe_idx").on(t.companyId, t.dedupeKey),
+  index("monitoring_alerts_status_idx").on(t.companyId, t.status, t.createdAt),
+]);
+
+export const insertMonitoringRuleSchema = createInsertSchema(monitoringRules).omit({ id: true });
+export type InsertMonitoringRule = z.infer<typeof insertMonitoringRuleSchema>;
+export type MonitoringRule = typeof monitoringRules.$inferSelect;
+
+export const insertMonitoringEventSchema = createInsertSchema(monitoringEvents).omit({ id: true });
+export type InsertMonitoringEvent = z.infer<typeof insertMonitoringEventSchema>;
+export type MonitoringEvent = typeof monitoringEvents.$inferSelect;
+
+export const insertMonitoringAlertSchema = createInsertSchema(monitoringAlerts).omit({ id: true });
+export type InsertMonitoringAlert = z.infer<typeof insertMonitoringAlertSchema>;
+export type MonitoringAlert = typeof monitoringAlerts.$inferSelect;
+
 // Category icons mapping
 export const categoryIcons: Record<string, string> = {
   'Software': 'code',
@@ -1,4 +1,5 @@
 import { defineConfig } from 'vitest/config';
+import path from 'path';
 
 // AUD-PR-009 — opt-in integration-test runner.
 //
@@ -18,6 +19,12 @@ import { defineConfig } from 'vitest/config';
 // Requires: a running Docker daemon. CI integration is opt-in (see
 // `server/__tests__/integration/README.md`).
 export default defineConfig({
+  // Same aliases as vitest.config.ts, for tests that import storage.
+  resolve: {
+    alias: {
+      '@shared': path.resolve(__dirname, './shared'),
+    },
+  },
   test: {
     include: ['server/__tests__/integration/**/*.int.test.ts'],
     // Container startup is slow; 60s per-test timeout covers the worst